@@ -13,7 +13,7 @@ import { stripeWebhookRouter } from './routes/stripe-webhook';
 import { checkSubscriptionRouter } from './routes/check-subscription';
 import { createCheckoutRouter } from './routes/create-checkout';
 import { healthRouter } from './routes/health';
-import { liberateRouter } from './routes/liberate';
+import { liberateRouter, startLiberationWorkers, stopLiberationWorkers } from './routes/liberate';
 
 // Security middleware
 import { 
@@ -56,6 +56,7 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'x-client-info', 'apikey'],
+  exposedHeaders: ['RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
 }));
 
 // Logging
@@ -98,9 +99,18 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 });
 
 // Démarrage du serveur
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Inopay Backend running on port ${PORT}`);
   console.log(`📦 Environment: ${process.env.NODE_ENV || 'development'}`);
+  startLiberationWorkers();
+});
+
+// Arrêt propre : les jobs en cours finissent, les autres seront repris par un autre réplica
+process.on('SIGTERM', async () => {
+  console.log('🛑 SIGTERM received, draining liberation workers');
+  server.close();
+  await stopLiberationWorkers();
+  process.exit(0);
 });
 
 export default app;
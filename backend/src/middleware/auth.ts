@@ -44,3 +44,23 @@ export async function authMiddleware(
     res.status(401).json({ error: 'Authentication failed' });
   }
 }
+
+/**
+ * Identifiant de l'utilisateur porteur d'un jeton Supabase, vérifié
+ * localement avec SUPABASE_JWT_SECRET (sans appel réseau).
+ * undefined si le secret n'est pas configuré ou si le jeton est invalide
+ */
+export function getVerifiedUserId(req: Request): string | undefined {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  const authHeader = req.headers.authorization;
+  if (!secret || !authHeader?.startsWith('Bearer ')) {
+    return undefined;
+  }
+
+  try {
+    const payload = jwt.verify(authHeader.replace('Bearer ', ''), secret);
+    return typeof payload === 'object' && typeof payload.sub === 'string' ? payload.sub : undefined;
+  } catch {
+    return undefined;
+  }
+}
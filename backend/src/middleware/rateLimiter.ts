@@ -1,80 +1,76 @@
 import { Request, Response, NextFunction } from 'express';
+import { AuthRequest, getVerifiedUserId } from './auth';
+import {
+  RateLimitAlgorithm,
+  RateLimitDecision,
+  RateLimitStore,
+  getRateLimitStore,
+} from '../services/rateLimitStore';
 
 /**
  * Rate Limiter middleware pour Express
- * Utilise un store en mémoire (pour la production, utiliser Redis)
+ * Compteurs partagés entre réplicas (store Redis ou Postgres, voir
+ * services/rateLimitStore) et en-têtes RateLimit-* standards
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
-
 interface RateLimitConfig {
+  /** Préfixe des clés : chaque limiter a ses propres compteurs */
+  name: string;
   windowMs: number;
   max: number;
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * user : par utilisateur si la requête est authentifiée, par IP sinon
+   * ip : toujours par IP (connexion, routes publiques)
+   */
+  keyBy?: 'user' | 'ip';
   message?: string;
   keyGenerator?: (req: Request) => string;
   skip?: (req: Request) => boolean;
+  /** Store par défaut : getRateLimitStore(), résolu à la première requête */
+  store?: RateLimitStore;
 }
 
-// Store en mémoire (pour production multi-instance, utiliser Redis)
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Nettoyage périodique des entrées expirées
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (now > entry.resetAt) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, 60000); // Toutes les minutes
-
 /**
  * Crée un middleware de rate limiting
  */
 export function createRateLimiter(config: RateLimitConfig) {
   const {
+    name,
     windowMs,
     max,
+    algorithm = 'sliding-window',
+    keyBy = 'user',
     message = 'Trop de requêtes, veuillez réessayer plus tard.',
-    keyGenerator = (req) => getClientIP(req),
+    keyGenerator = (req) => getRateLimitSubject(req, keyBy),
     skip = () => false,
   } = config;
+  const rule = { algorithm, limit: max, windowMs };
 
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (skip(req)) {
       return next();
     }
 
-    const key = keyGenerator(req);
-    const now = Date.now();
-
-    let entry = rateLimitStore.get(key);
-
-    // Nouvelle fenêtre ou fenêtre expirée
-    if (!entry || now > entry.resetAt) {
-      entry = { count: 1, resetAt: now + windowMs };
-      rateLimitStore.set(key, entry);
-
-      res.setHeader('X-RateLimit-Limit', max);
-      res.setHeader('X-RateLimit-Remaining', max - 1);
-      res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetAt / 1000));
+    const key = `${name}:${keyGenerator(req)}`;
 
+    let decision: RateLimitDecision;
+    try {
+      decision = await (config.store ?? getRateLimitStore()).consume(key, rule);
+    } catch (error) {
+      // Store indisponible : on laisse passer plutôt que de bloquer toute l'API
+      console.error(`[RATE-LIMIT] Store error for ${name}:`, error instanceof Error ? error.message : error);
       return next();
     }
 
-    // Limite dépassée
-    if (entry.count >= max) {
-      const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
+    setRateLimitHeaders(res, decision, windowMs);
 
-      res.setHeader('X-RateLimit-Limit', max);
-      res.setHeader('X-RateLimit-Remaining', 0);
-      res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetAt / 1000));
+    // Limite dépassée
+    if (!decision.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
       res.setHeader('Retry-After', retryAfter);
 
-      console.log(`[RATE-LIMIT] Limit exceeded for ${key.substring(0, 16)}...`);
+      console.log(`[RATE-LIMIT] ${name} limit exceeded for ${key.substring(0, 32)}...`);
 
       return res.status(429).json({
         error: 'Too Many Requests',
@@ -83,18 +79,35 @@ export function createRateLimiter(config: RateLimitConfig) {
       });
     }
 
-    // Incrémenter le compteur
-    entry.count++;
-    rateLimitStore.set(key, entry);
-
-    res.setHeader('X-RateLimit-Limit', max);
-    res.setHeader('X-RateLimit-Remaining', max - entry.count);
-    res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetAt / 1000));
-
     next();
   };
 }
 
+/**
+ * En-têtes RateLimit-* (draft IETF httpapi-ratelimit-headers)
+ */
+function setRateLimitHeaders(res: Response, decision: RateLimitDecision, windowMs: number): void {
+  res.setHeader('RateLimit-Policy', `${decision.limit};w=${Math.ceil(windowMs / 1000)}`);
+  res.setHeader('RateLimit-Limit', decision.limit);
+  res.setHeader('RateLimit-Remaining', decision.remaining);
+  res.setHeader('RateLimit-Reset', Math.ceil(decision.resetMs / 1000));
+}
+
+/**
+ * Sujet limité : l'utilisateur authentifié (req.user posé par authMiddleware,
+ * ou jeton vérifié localement) pour ne pas pénaliser les utilisateurs
+ * derrière une même IP, l'IP sinon
+ */
+function getRateLimitSubject(req: Request, keyBy: 'user' | 'ip'): string {
+  if (keyBy === 'user') {
+    const userId = (req as AuthRequest).user?.id ?? getVerifiedUserId(req);
+    if (userId) {
+      return `user:${userId}`;
+    }
+  }
+  return `ip:${getClientIP(req)}`;
+}
+
 /**
  * Extrait l'IP client de la requête
  */
@@ -118,6 +131,7 @@ function getClientIP(req: Request): string {
  * 100 requêtes par minute
  */
 export const apiLimiter = createRateLimiter({
+  name: 'api',
   windowMs: 60 * 1000,
   max: 100,
   message: 'Trop de requêtes API, veuillez réessayer dans une minute.',
@@ -125,9 +139,11 @@ export const apiLimiter = createRateLimiter({
 
 /**
  * Rate limiter strict pour l'authentification
- * 5 tentatives par 15 minutes
+ * 5 tentatives par 15 minutes et par IP
  */
 export const authLimiter = createRateLimiter({
+  name: 'auth',
+  keyBy: 'ip',
   windowMs: 15 * 60 * 1000,
   max: 5,
   message: 'Trop de tentatives de connexion. Veuillez réessayer dans 15 minutes.',
@@ -138,6 +154,7 @@ export const authLimiter = createRateLimiter({
  * 10 requêtes par minute
  */
 export const paymentLimiter = createRateLimiter({
+  name: 'payment',
   windowMs: 60 * 1000,
   max: 10,
   message: 'Trop de requêtes de paiement. Veuillez réessayer dans une minute.',
@@ -148,6 +165,7 @@ export const paymentLimiter = createRateLimiter({
  * 5 requêtes par minute
  */
 export const deployLimiter = createRateLimiter({
+  name: 'deploy',
   windowMs: 60 * 1000,
   max: 5,
   message: 'Trop de déploiements. Veuillez réessayer dans une minute.',
@@ -155,9 +173,11 @@ export const deployLimiter = createRateLimiter({
 
 /**
  * Rate limiter pour les opérations IA/coûteuses
- * 20 requêtes par minute
+ * 20 requêtes par minute, en rafale puis au rythme de recharge
  */
 export const aiLimiter = createRateLimiter({
+  name: 'ai',
+  algorithm: 'token-bucket',
   windowMs: 60 * 1000,
   max: 20,
   message: 'Trop de requêtes IA. Veuillez réessayer dans une minute.',
@@ -168,6 +188,7 @@ export const aiLimiter = createRateLimiter({
  * 3 requêtes par heure
  */
 export const strictLimiter = createRateLimiter({
+  name: 'strict',
   windowMs: 60 * 60 * 1000,
   max: 3,
   message: 'Limite atteinte pour cette opération sensible. Réessayez dans une heure.',
@@ -177,39 +198,43 @@ export const strictLimiter = createRateLimiter({
 // Middleware de détection de brute-force
 // ============================================
 
-interface BruteForceEntry {
-  attempts: number;
-  blockedUntil?: number;
-  lastAttempt: number;
-}
-
-const bruteForceStore = new Map<string, BruteForceEntry>();
-
 /**
  * Protection contre les attaques par force brute
+ * Échecs (401/403) comptés par IP dans le store partagé : après
+ * maxAttempts échecs sur windowMs, l'IP est bloquée pendant blockDurationMs sur
+ * tous les réplicas. Un succès remet le compteur à zéro
  */
 export function bruteForceProtection(
   maxAttempts: number = 5,
   blockDurationMs: number = 15 * 60 * 1000, // 15 minutes
-  windowMs: number = 60 * 60 * 1000 // 1 heure
+  windowMs: number = 60 * 60 * 1000, // 1 heure
+  store?: RateLimitStore
 ) {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const key = getClientIP(req);
-    const now = Date.now();
+  const rule = { algorithm: 'sliding-window' as const, limit: maxAttempts, windowMs };
 
-    let entry = bruteForceStore.get(key);
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const ip = getClientIP(req);
+    const attemptsKey = `bruteforce:${ip}`;
+    const blockKey = `bruteforce:block:${ip}`;
+    const limiterStore = store ?? getRateLimitStore();
 
-    // Nettoyer les entrées expirées
-    if (entry && entry.lastAttempt < now - windowMs) {
-      bruteForceStore.delete(key);
-      entry = undefined;
-    }
+    // Store indisponible : on laisse passer, comme createRateLimiter
+    const onStoreError = (error: unknown) => {
+      console.error('[BRUTE-FORCE] Store error:', error instanceof Error ? error.message : error);
+    };
 
     // Vérifier si bloqué
-    if (entry?.blockedUntil && entry.blockedUntil > now) {
-      const retryAfter = Math.ceil((entry.blockedUntil - now) / 1000);
+    let blockedMs = 0;
+    try {
+      blockedMs = await limiterStore.blockedFor(blockKey);
+    } catch (error) {
+      onStoreError(error);
+    }
+
+    if (blockedMs > 0) {
+      const retryAfter = Math.ceil(blockedMs / 1000);
       
-      console.log(`[BRUTE-FORCE] Blocked IP attempt: ${key.substring(0, 16)}...`);
+      console.log(`[BRUTE-FORCE] Blocked IP attempt: ${ip.substring(0, 16)}...`);
 
       return res.status(429).json({
         error: 'Too Many Failed Attempts',
@@ -223,22 +248,18 @@ export function bruteForceProtection(
     res.json = function (body: unknown) {
       // Si c'est une erreur d'authentification
       if (res.statusCode === 401 || res.statusCode === 403) {
-        if (!entry) {
-          entry = { attempts: 0, lastAttempt: now };
-        }
-        entry.attempts++;
-        entry.lastAttempt = now;
-
-        // Bloquer après trop de tentatives
-        if (entry.attempts >= maxAttempts) {
-          entry.blockedUntil = now + blockDurationMs;
-          console.log(`[BRUTE-FORCE] IP blocked: ${key.substring(0, 16)}... after ${entry.attempts} attempts`);
-        }
-
-        bruteForceStore.set(key, entry);
+        limiterStore.consume(attemptsKey, rule)
+          .then(async (decision) => {
+            // Bloquer après trop de tentatives
+            if (decision.allowed && decision.remaining > 0) return;
+            await limiterStore.block(blockKey, blockDurationMs);
+            await limiterStore.reset(attemptsKey);
+            console.log(`[BRUTE-FORCE] IP blocked: ${ip.substring(0, 16)}... after ${maxAttempts} attempts`);
+          })
+          .catch(onStoreError);
       } else if (res.statusCode >= 200 && res.statusCode < 300) {
         // Succès - réinitialiser les tentatives
-        bruteForceStore.delete(key);
+        limiterStore.reset(attemptsKey).catch(onStoreError);
       }
 
       return originalJson(body);
@@ -1,16 +1,61 @@
 import { Router, Response } from 'express';
+import { Readable } from 'stream';
 import { Client } from 'basic-ftp';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
+import {
+  DeployError,
+  SshTarget,
+  deployRelease,
+  listReleases,
+  rollbackRelease,
+} from '../services/sshDeploy';
 
 export const deployFtpRouter = Router();
 
 interface FTPCredentials {
   host: string;
   username: string;
-  password: string;
+  password?: string;
   port?: number;
-  protocol: 'ftp' | 'sftp';
+  /** ftps : FTP sur TLS explicite ; sftp et rsync : SSH, déploiement par releases */
+  protocol: 'ftp' | 'ftps' | 'sftp' | 'rsync';
   remotePath?: string;
+  /** SFTP / rsync : authentification par clé */
+  privateKey?: string;
+  passphrase?: string;
+  knownHosts?: string;
+  releasesPath?: string;
+  keepReleases?: number;
+}
+
+function isSshProtocol(protocol: FTPCredentials['protocol']): protocol is SshTarget['protocol'] {
+  return protocol === 'sftp' || protocol === 'rsync';
+}
+
+function toSshTarget(credentials: FTPCredentials): SshTarget {
+  return {
+    protocol: credentials.protocol as SshTarget['protocol'],
+    host: credentials.host,
+    port: credentials.port,
+    username: credentials.username,
+    password: credentials.password,
+    privateKey: credentials.privateKey,
+    passphrase: credentials.passphrase,
+    knownHosts: credentials.knownHosts,
+    remotePath: credentials.remotePath || '/public_html',
+    releasesPath: credentials.releasesPath,
+    keepReleases: credentials.keepReleases,
+  };
+}
+
+function sendDeployError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof DeployError) {
+    return res.status(400).json({ error: fallback, details: error.message });
+  }
+  return res.status(500).json({
+    error: fallback,
+    details: 'Vérifiez vos identifiants et réessayez.',
+  });
 }
 
 function detectProvider(host: string): string {
@@ -39,7 +84,7 @@ deployFtpRouter.post('/', authMiddleware, async (req: AuthRequest, res: Response
       host: credentials?.host ? `${credentials.host.substring(0, 3)}***` : 'missing',
     });
 
-    if (!credentials.host || !credentials.username || !credentials.password) {
+    if (!credentials?.host || !credentials.username) {
       return res.status(400).json({ error: 'Informations de connexion incomplètes' });
     }
 
@@ -47,13 +92,37 @@ deployFtpRouter.post('/', authMiddleware, async (req: AuthRequest, res: Response
       return res.status(400).json({ error: 'Aucun fichier à déployer' });
     }
 
-    // Connect to FTP
+    // SFTP / SSH+rsync: atomic release with delta upload
+    if (isSshProtocol(credentials.protocol)) {
+      const release = await deployRelease(toSshTarget(credentials), files);
+
+      return res.json({
+        success: true,
+        message: `Déploiement réussi sur ${credentials.host}`,
+        provider: detectProvider(credentials.host),
+        protocol: credentials.protocol,
+        releaseId: release.releaseId,
+        previousReleaseId: release.previousReleaseId,
+        filesUploaded: release.uploaded.length,
+        filesUnchanged: release.reused.length,
+        removedReleases: release.removedReleases,
+        deployedAt: new Date().toISOString(),
+        remotePath: release.remotePath,
+        releasesPath: release.releasesPath,
+      });
+    }
+
+    if (!credentials.password) {
+      return res.status(400).json({ error: 'Informations de connexion incomplètes' });
+    }
+
+    // Connect to FTP (FTPS: explicit TLS)
     await client.access({
       host: credentials.host,
       user: credentials.username,
       password: credentials.password,
       port: credentials.port || 21,
-      secure: credentials.protocol === 'sftp',
+      secure: credentials.protocol === 'ftps',
     });
 
     const remotePath = credentials.remotePath || '/public_html';
@@ -79,7 +148,7 @@ deployFtpRouter.post('/', authMiddleware, async (req: AuthRequest, res: Response
           await client.ensureDir(dir);
         }
         
-        await client.uploadFrom(buffer as any, filePath);
+        await client.uploadFrom(Readable.from(buffer), filePath);
         uploadResults.push({ file: file.path, success: true });
       } catch (err) {
         console.error(`[DEPLOY-FTP] Failed to upload ${file.path}:`, err);
@@ -100,11 +169,57 @@ deployFtpRouter.post('/', authMiddleware, async (req: AuthRequest, res: Response
     });
   } catch (error) {
     console.error('[DEPLOY-FTP] Deployment error:', error);
-    res.status(500).json({
-      error: 'Erreur lors du déploiement',
-      details: 'Vérifiez vos identifiants et réessayez.',
-    });
+    sendDeployError(res, error, 'Erreur lors du déploiement');
   } finally {
     client.close();
   }
 });
+
+/**
+ * Réactive une release précédente (SFTP / rsync)
+ * Body: { credentials, releaseId? } - sans releaseId, la release d'avant
+ */
+deployFtpRouter.post('/rollback', authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const { credentials, releaseId } = req.body as { credentials: FTPCredentials; releaseId?: string };
+
+    if (!credentials?.host || !isSshProtocol(credentials.protocol)) {
+      return res.status(400).json({ error: 'Le rollback est disponible en SFTP et SSH+rsync uniquement' });
+    }
+
+    const rollback = await rollbackRelease(toSshTarget(credentials), releaseId);
+
+    res.json({
+      success: true,
+      message: `Release ${rollback.releaseId} réactivée sur ${credentials.host}`,
+      ...rollback,
+      rolledBackAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[DEPLOY-FTP] Rollback error:', error);
+    sendDeployError(res, error, 'Erreur lors du rollback');
+  }
+});
+
+/**
+ * Releases conservées sur le serveur (SFTP / rsync)
+ */
+deployFtpRouter.post('/releases', authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const { credentials } = req.body as { credentials: FTPCredentials };
+
+    if (!credentials?.host || !isSshProtocol(credentials.protocol)) {
+      return res.status(400).json({ error: 'Les releases sont disponibles en SFTP et SSH+rsync uniquement' });
+    }
+
+    const state = await listReleases(toSshTarget(credentials));
+
+    res.json({
+      current: state.current,
+      releases: state.releases.map(({ files, ...release }) => ({ ...release, filesCount: Object.keys(files).length })),
+    });
+  } catch (error) {
+    console.error('[DEPLOY-FTP] Releases error:', error);
+    sendDeployError(res, error, 'Erreur lors de la lecture des releases');
+  }
+});
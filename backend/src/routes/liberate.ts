@@ -4,28 +4,30 @@
  * POST /liberate - Lance une libération complète
  * GET /audit/:id - Récupère le rapport d'audit
  * GET /download/:id - Télécharge l'archive libérée
+ * GET /events/:id - Événements de progression (?after=<id>)
+ * GET /stream/:id - Progression en direct (SSE, reprise via Last-Event-ID)
+ * POST /cancel/:id - Annule une libération
+ *
+ * Les jobs sont exécutés par la file durable (services/jobQueue) :
+ * n'importe quel réplica peut répondre, le travail survit aux redémarrages.
+ * Toutes les routes exigent un jeton Supabase ; chaque utilisateur ne voit que ses jobs.
  */
 
-import { Router, Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
-import { createClient } from '@supabase/supabase-js';
+import { Router, Response } from 'express';
 import JSZip from 'jszip';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { SOVEREIGNTY_RULES, scanProject, scanContent, applyFixes, isProprietaryFile, RuleSeverity } from '../services/sovereigntyRules';
+import {
+  getLiberationQueue,
+  isTerminalStatus,
+  JobContext,
+  JobOutcome,
+  LiberationJob,
+  LiberationJobEvent,
+  LiberationJobStatus,
+} from '../services/jobQueue';
 
 // Types
-interface LiberationJob {
-  id: string;
-  status: 'pending' | 'scanning' | 'auditing' | 'cleaning' | 'rebuilding' | 'completed' | 'failed';
-  progress: number;
-  projectName: string;
-  sourceType: 'zip' | 'github' | 'url';
-  sourceUrl?: string;
-  createdAt: string;
-  completedAt?: string;
-  auditReport?: AuditReport;
-  resultUrl?: string;
-  error?: string;
-}
-
 interface AuditReport {
   score: number;
   grade: string;
@@ -42,9 +44,11 @@ interface AuditReport {
 
 interface AuditIssue {
   file: string;
+  ruleId: string;
   line: number;
+  column: number;
   pattern: string;
-  severity: 'critical' | 'major' | 'minor';
+  severity: RuleSeverity;
   suggestion: string;
 }
 
@@ -55,116 +59,30 @@ interface CleanResult {
   linesRemoved: number;
 }
 
-// ═══════════════════════════════════════════════════════════════
-// PATTERNS DE DÉTECTION LOVABLE
-// ═══════════════════════════════════════════════════════════════
-
-const LOVABLE_PATTERNS = [
-  // Critical
-  { pattern: /lovable\.generate\s*\(/g, name: 'lovable.generate()', severity: 'critical' as const, suggestion: 'Remplacer par sovereignAI.generateCompletion()' },
-  { pattern: /lovableApi\s*[.(]/g, name: 'lovableApi', severity: 'critical' as const, suggestion: 'Utiliser API REST standard' },
-  { pattern: /getAIAssistant\s*\(/g, name: 'getAIAssistant()', severity: 'critical' as const, suggestion: 'Remplacer par sovereignAI.createAssistant()' },
-  { pattern: /runAssistant\s*\(/g, name: 'runAssistant()', severity: 'critical' as const, suggestion: 'Remplacer par sovereignAI.run()' },
-  { pattern: /@agent\/[a-zA-Z-]+/g, name: '@agent/* packages', severity: 'critical' as const, suggestion: 'Supprimer packages agent' },
-  
-  // Major
-  { pattern: /@lovable\/[a-zA-Z-]+/g, name: '@lovable/* packages', severity: 'major' as const, suggestion: 'Remplacer par npm standard' },
-  { pattern: /lovable-tagger/g, name: 'lovable-tagger', severity: 'major' as const, suggestion: 'Supprimer' },
-  { pattern: /from\s+['"]@\/integrations\/supabase/g, name: 'Supabase auto-gen', severity: 'major' as const, suggestion: 'Client Supabase standard' },
-  { pattern: /EventSchema\s*[.(]/g, name: 'EventSchema', severity: 'major' as const, suggestion: 'Utiliser Zod' },
-  { pattern: /Pattern\.[A-Z]/g, name: 'Pattern.*', severity: 'major' as const, suggestion: 'Implémenter localement' },
-  
-  // Minor
-  { pattern: /data-lov-id/g, name: 'data-lov-id', severity: 'minor' as const, suggestion: 'Supprimer attribut' },
-  { pattern: /data-lovable-[a-z-]+/g, name: 'data-lovable-*', severity: 'minor' as const, suggestion: 'Supprimer attributs' },
-  { pattern: /\/\/\s*@lovable-/g, name: '@lovable- annotations', severity: 'minor' as const, suggestion: 'Supprimer commentaires' },
-];
-
-const PROPRIETARY_FILES = [
-  'lovable.config.ts', 'lovable.config.js', 'lovable.config.json',
-  '.lovable', '.lovablerc', 'lovable-lock.json',
-  '.agent', 'agent.config.ts', '__lovable__',
-];
-
-// ═══════════════════════════════════════════════════════════════
-// STORAGE
-// ═══════════════════════════════════════════════════════════════
-
-// In-memory store for demo (use Redis/DB in production)
-const jobs = new Map<string, LiberationJob>();
-const archives = new Map<string, Buffer>();
-
-// Supabase client
-const supabaseUrl = process.env.SUPABASE_URL || '';
-const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-const supabase = createClient(supabaseUrl, supabaseKey);
-
 // ═══════════════════════════════════════════════════════════════
 // LIBÉRATION ENGINE
 // ═══════════════════════════════════════════════════════════════
 
 async function scanFiles(files: Map<string, string>): Promise<AuditReport> {
-  const issues: AuditIssue[] = [];
-  const proprietaryFiles: string[] = [];
-  let totalFiles = 0;
-  let totalLines = 0;
-
-  for (const [path, content] of files) {
-    totalFiles++;
-    const filename = path.split('/').pop() || '';
-    
-    // Check proprietary files
-    if (PROPRIETARY_FILES.some(pf => filename.toLowerCase() === pf.toLowerCase())) {
-      proprietaryFiles.push(path);
-      continue;
-    }
-
-    const lines = content.split('\n');
-    totalLines += lines.length;
-
-    // Scan for patterns
-    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-      const line = lines[lineNum];
-      
-      for (const patternDef of LOVABLE_PATTERNS) {
-        patternDef.pattern.lastIndex = 0;
-        if (patternDef.pattern.test(line)) {
-          issues.push({
-            file: path,
-            line: lineNum + 1,
-            pattern: patternDef.name,
-            severity: patternDef.severity,
-            suggestion: patternDef.suggestion,
-          });
-        }
-      }
-    }
-  }
-
-  // Calculate score
-  let score = 100;
-  for (const issue of issues) {
-    if (issue.severity === 'critical') score -= 10;
-    else if (issue.severity === 'major') score -= 5;
-    else score -= 1;
-  }
-  score -= proprietaryFiles.length * 15;
-  score = Math.max(0, Math.min(100, score));
-
-  const grade = score >= 90 ? 'A' : score >= 80 ? 'B' : score >= 70 ? 'C' : score >= 60 ? 'D' : 'F';
+  // Même moteur et même barème que la CLI et l'application web (registre partagé)
+  const result = scanProject(files);
 
   return {
-    score,
-    grade,
-    totalFiles,
-    totalLines,
-    issues: {
-      critical: issues.filter(i => i.severity === 'critical').length,
-      major: issues.filter(i => i.severity === 'major').length,
-      minor: issues.filter(i => i.severity === 'minor').length,
-    },
-    details: issues,
-    proprietaryFiles,
+    score: result.score,
+    grade: result.grade,
+    totalFiles: result.totalFiles,
+    totalLines: result.totalLines,
+    issues: result.summary,
+    details: result.findings.map(finding => ({
+      file: finding.file,
+      ruleId: finding.ruleId,
+      line: finding.line,
+      column: finding.column,
+      pattern: finding.name,
+      severity: finding.severity,
+      suggestion: finding.suggestion,
+    })),
+    proprietaryFiles: result.proprietaryFiles,
   };
 }
 
@@ -187,11 +105,16 @@ function cleanContent(content: string, filename: string): { content: string; mod
     }
   }
 
+  // Remplacements d'API définis par le registre
+  const replaceRules = SOVEREIGNTY_RULES.filter(rule => rule.fix.kind === 'replace');
+  const fixes = scanContent(content, filename, replaceRules);
+  if (fixes.length > 0) {
+    content = applyFixes(content, fixes, replaceRules);
+    modified = true;
+  }
+
   // Pattern replacements
   const replacements = [
-    { from: /getAIAssistant\s*\(/g, to: 'sovereignAI.createAssistant(' },
-    { from: /runAssistant\s*\(/g, to: 'sovereignAI.run(' },
-    { from: /lovable\.generate\s*\(/g, to: 'sovereignAI.generateCompletion(' },
     { from: /lovableApi\./g, to: 'api.' },
     { from: /Pattern\.Template/g, to: 'createTemplateEngine()' },
     { from: /Pattern\.State/g, to: 'createStateManager()' },
@@ -221,18 +144,23 @@ function cleanContent(content: string, filename: string): { content: string; mod
   };
 }
 
-async function cleanFiles(files: Map<string, string>): Promise<{ files: Map<string, string>; result: CleanResult }> {
+async function cleanFiles(
+  files: Map<string, string>,
+  onFile?: (path: string, index: number, total: number) => Promise<void>
+): Promise<{ files: Map<string, string>; result: CleanResult }> {
   const cleanedFiles = new Map<string, string>();
   let filesProcessed = 0;
   let filesCleaned = 0;
   let filesRemoved = 0;
   let linesRemoved = 0;
+  let index = 0;
 
   for (const [path, content] of files) {
     const filename = path.split('/').pop() || '';
+    await onFile?.(path, index++, files.size);
     
     // Skip proprietary files
-    if (PROPRIETARY_FILES.some(pf => filename.toLowerCase() === pf.toLowerCase())) {
+    if (isProprietaryFile(path)) {
       filesRemoved++;
       continue;
     }
@@ -314,91 +242,131 @@ echo "✅ Deployed!"
   return files;
 }
 
-async function processLiberation(jobId: string, zipBuffer: Buffer, projectName: string): Promise<void> {
-  const job = jobs.get(jobId);
-  if (!job) return;
+async function processLiberation({ job, input, progress }: JobContext): Promise<JobOutcome> {
+  const { projectName } = job;
 
-  try {
-    // Phase 1: Extract
-    job.status = 'scanning';
-    job.progress = 10;
-    jobs.set(jobId, job);
+  // Phase 1: Extract
+  await progress('scanning', 10, 'Extraction de l\'archive', { phase: 'scan' });
 
-    const zip = await JSZip.loadAsync(zipBuffer);
-    const files = new Map<string, string>();
-    
-    for (const [path, file] of Object.entries(zip.files)) {
-      if (!file.dir) {
-        const content = await file.async('string');
-        files.set(path, content);
-      }
+  const zip = await JSZip.loadAsync(input);
+  const files = new Map<string, string>();
+
+  for (const [path, file] of Object.entries(zip.files)) {
+    if (!file.dir) {
+      const content = await file.async('string');
+      files.set(path, content);
     }
+  }
 
-    // Phase 2: Audit
-    job.status = 'auditing';
-    job.progress = 30;
-    jobs.set(jobId, job);
-    
-    const auditReport = await scanFiles(files);
-    job.auditReport = auditReport;
+  // Phase 2: Audit
+  await progress('auditing', 30, 'Audit de souveraineté', { phase: 'scan', filesTotal: files.size });
 
-    // Phase 3: Clean
-    job.status = 'cleaning';
-    job.progress = 50;
-    jobs.set(jobId, job);
-    
-    const { files: cleanedFiles } = await cleanFiles(files);
+  const auditReport = await scanFiles(files);
+  const issues = auditReport.issues;
 
-    // Phase 4: Rebuild
-    job.status = 'rebuilding';
-    job.progress = 70;
-    jobs.set(jobId, job);
-    
-    const sovereignFiles = generateSovereignFiles(projectName);
-    for (const [path, content] of sovereignFiles) {
-      cleanedFiles.set(path, content);
-    }
+  // Phase 3: Clean (one event per ~10% of the files)
+  await progress('cleaning', 50, 'Nettoyage du code', { phase: 'clean', issues, score: auditReport.score });
 
-    // Phase 5: Create archive
-    job.progress = 90;
-    const outputZip = new JSZip();
-    for (const [path, content] of cleanedFiles) {
-      outputZip.file(`${projectName}-liberated/${path}`, content);
-    }
-    
-    const outputBuffer = await outputZip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
-    archives.set(jobId, outputBuffer);
-
-    // Complete
-    job.status = 'completed';
-    job.progress = 100;
-    job.completedAt = new Date().toISOString();
-    job.resultUrl = `/api/liberate/download/${jobId}`;
-    jobs.set(jobId, job);
-
-    // Store in Supabase
-    if (supabaseUrl && supabaseKey) {
-      await supabase.from('liberation_jobs').upsert({
-        id: jobId,
-        user_id: '00000000-0000-0000-0000-000000000000', // Would come from auth
-        project_name: projectName,
-        source_type: 'zip',
-        status: 'completed',
-        progress: 100,
-        audit_score: auditReport.score,
-        audit_report: auditReport,
-        files_count: files.size,
-        files_cleaned: auditReport.issues.critical + auditReport.issues.major,
-        completed_at: job.completedAt,
-      });
-    }
+  const step = Math.max(1, Math.ceil(files.size / 10));
+  const { files: cleanedFiles, result: cleanResult } = await cleanFiles(files, async (path, index, total) => {
+    if (index % step !== 0) return;
+    await progress('cleaning', 50 + Math.round((index / total) * 20), `Nettoyage: ${path}`, {
+      phase: 'clean',
+      currentFile: path,
+      filesProcessed: index,
+      filesTotal: total,
+      issues,
+    });
+  });
 
-  } catch (error) {
-    job.status = 'failed';
-    job.error = error instanceof Error ? error.message : 'Unknown error';
-    jobs.set(jobId, job);
-    console.error('Liberation failed:', error);
+  // Phase 4: Rebuild
+  await progress('rebuilding', 70, 'Génération des fichiers souverains', { phase: 'rebuild', issues, ...cleanResult });
+
+  const sovereignFiles = generateSovereignFiles(projectName);
+  for (const [path, content] of sovereignFiles) {
+    cleanedFiles.set(path, content);
+  }
+
+  // Phase 5: Create archive
+  await progress('rebuilding', 90, 'Création de l\'archive', { phase: 'package', issues });
+  const outputZip = new JSZip();
+  for (const [path, content] of cleanedFiles) {
+    outputZip.file(`${projectName}-liberated/${path}`, content);
   }
+
+  const archive = await outputZip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+  return {
+    archive,
+    result: {
+      auditScore: auditReport.score,
+      auditReport,
+      filesCount: files.size,
+      filesCleaned: cleanResult.filesCleaned,
+    },
+  };
+}
+
+/**
+ * Démarre les workers de ce processus (LIBERATION_WORKERS=off pour un réplica API seul)
+ */
+export function startLiberationWorkers(): void {
+  if (process.env.LIBERATION_WORKERS === 'off') return;
+  getLiberationQueue().start(processLiberation);
+}
+
+export function stopLiberationWorkers(timeoutMs?: number): Promise<void> {
+  return getLiberationQueue().stop(timeoutMs);
+}
+
+function jobStatus(job: LiberationJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    projectName: job.projectName,
+    auditReport: job.auditReport ?? undefined,
+    resultUrl: job.resultUrl ?? undefined,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    cancelRequested: job.cancelRequested,
+    archiveExpiresAt: job.archiveExpiresAt ?? undefined,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt ?? undefined,
+    error: job.error ?? undefined,
+  };
+}
+
+// UnifiedLiberator phase matching each job status (LiberationProgress.phase)
+const PHASE_BY_STATUS: Record<LiberationJobStatus, string> = {
+  pending: 'scan',
+  processing: 'scan',
+  scanning: 'scan',
+  auditing: 'scan',
+  cleaning: 'clean',
+  rebuilding: 'rebuild',
+  completed: 'complete',
+  failed: 'complete',
+  cancelled: 'complete',
+};
+
+const SSE_POLL_INTERVAL_MS = 1000;
+const SSE_KEEPALIVE_MS = 15_000;
+
+/**
+ * SSE frame in the LiberationProgress shape shared with the audit edge function
+ */
+function progressFrame(event: LiberationJobEvent): string {
+  const payload = {
+    jobId: event.jobId,
+    type: event.type,
+    status: event.status,
+    phase: PHASE_BY_STATUS[event.status],
+    progress: event.progress,
+    message: event.message ?? '',
+    ...event.data,
+  };
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`;
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -407,11 +375,13 @@ async function processLiberation(jobId: string, zipBuffer: Buffer, projectName:
 
 export const liberateRouter = Router();
 
+liberateRouter.use(authMiddleware);
+
 /**
  * POST /liberate
- * Lance une libération complète
+ * Met une libération complète en file
  */
-liberateRouter.post('/', async (req: Request, res: Response) => {
+liberateRouter.post('/', async (req: AuthRequest, res: Response) => {
   try {
     const { file, projectName, sourceType, sourceUrl } = req.body;
 
@@ -419,31 +389,21 @@ liberateRouter.post('/', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'file and projectName are required' });
     }
 
-    const jobId = uuidv4();
-    const job: LiberationJob = {
-      id: jobId,
-      status: 'pending',
-      progress: 0,
+    const job = await getLiberationQueue().enqueue({
+      userId: req.user!.id,
       projectName,
       sourceType: sourceType || 'zip',
       sourceUrl,
-      createdAt: new Date().toISOString(),
-    };
-    
-    jobs.set(jobId, job);
-
-    // Decode base64 file and start processing
-    const zipBuffer = Buffer.from(file, 'base64');
-    
-    // Process async
-    processLiberation(jobId, zipBuffer, projectName);
+      input: Buffer.from(file, 'base64'),
+    });
 
-    res.json({
-      id: jobId,
-      status: 'pending',
-      message: 'Liberation started',
-      statusUrl: `/api/liberate/audit/${jobId}`,
-      downloadUrl: `/api/liberate/download/${jobId}`,
+    res.status(202).json({
+      id: job.id,
+      status: job.status,
+      message: 'Liberation queued',
+      statusUrl: `/api/liberate/audit/${job.id}`,
+      eventsUrl: `/api/liberate/events/${job.id}`,
+      downloadUrl: `/api/liberate/download/${job.id}`,
     });
 
   } catch (error) {
@@ -456,45 +416,15 @@ liberateRouter.post('/', async (req: Request, res: Response) => {
  * GET /audit/:id
  * Récupère le statut et rapport d'audit
  */
-liberateRouter.get('/audit/:id', async (req: Request, res: Response) => {
+liberateRouter.get('/audit/:id', async (req: AuthRequest, res: Response) => {
   try {
-    const { id } = req.params;
-    const job = jobs.get(id);
+    const job = await getLiberationQueue().get(req.params.id, req.user!.id);
 
     if (!job) {
-      // Try Supabase
-      if (supabaseUrl && supabaseKey) {
-        const { data, error } = await supabase
-          .from('liberation_jobs')
-          .select('*')
-          .eq('id', id)
-          .single();
-        
-        if (data && !error) {
-          return res.json({
-            id: data.id,
-            status: data.status,
-            progress: data.progress,
-            projectName: data.project_name,
-            auditReport: data.audit_report,
-            completedAt: data.completed_at,
-          });
-        }
-      }
-      
       return res.status(404).json({ error: 'Job not found' });
     }
 
-    res.json({
-      id: job.id,
-      status: job.status,
-      progress: job.progress,
-      projectName: job.projectName,
-      auditReport: job.auditReport,
-      resultUrl: job.resultUrl,
-      completedAt: job.completedAt,
-      error: job.error,
-    });
+    res.json(jobStatus(job));
 
   } catch (error) {
     console.error('Audit fetch error:', error);
@@ -502,14 +432,126 @@ liberateRouter.get('/audit/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /events/:id
+ * Événements de progression après ?after=<id d'événement>
+ */
+liberateRouter.get('/events/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const queue = getLiberationQueue();
+    const job = await queue.get(req.params.id, req.user!.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const after = Number(req.query.after) || 0;
+    res.json({
+      job: jobStatus(job),
+      events: await queue.events(job.id, after),
+    });
+
+  } catch (error) {
+    console.error('Events fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch events' });
+  }
+});
+
+/**
+ * GET /stream/:id
+ * Progression en direct (Server-Sent Events). Les événements sont relus dans
+ * Postgres : peu importe le réplica qui exécute le job, et une reconnexion
+ * avec Last-Event-ID reprend exactement après le dernier événement reçu.
+ * Seul le propriétaire du job peut ouvrir (ou rejouer) le flux
+ */
+liberateRouter.get('/stream/:id', async (req: AuthRequest, res: Response) => {
+  const queue = getLiberationQueue();
+  const { id } = req.params;
+  const userId = req.user!.id;
+
+  try {
+    if (!(await queue.get(id, userId))) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+  } catch (error) {
+    console.error('Stream error:', error);
+    return res.status(500).json({ error: 'Failed to open progress stream' });
+  }
+
+  let lastEventId = Number(req.header('Last-Event-ID') ?? req.query.lastEventId) || 0;
+  let closed = false;
+  req.on('close', () => { closed = true; });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 2000\n\n');
+
+  let lastWrite = Date.now();
+  try {
+    while (!closed) {
+      const events = await queue.events(id, lastEventId);
+      for (const event of events) {
+        res.write(progressFrame(event));
+        lastEventId = event.id;
+        lastWrite = Date.now();
+      }
+      if (events.some(event => isTerminalStatus(event.status) && event.type !== 'expired')) break;
+
+      if (events.length === 0) {
+        if (Date.now() - lastWrite >= SSE_KEEPALIVE_MS) {
+          // Also catches a job that ended without its final event being recorded
+          const job = await queue.get(id, userId);
+          if (!job || isTerminalStatus(job.status)) break;
+          res.write(': ping\n\n');
+          lastWrite = Date.now();
+        }
+        await new Promise(resolve => setTimeout(resolve, SSE_POLL_INTERVAL_MS));
+      }
+    }
+  } catch (error) {
+    // The client reconnects with Last-Event-ID
+    console.error('Stream error:', error);
+  }
+
+  res.end();
+});
+
+/**
+ * POST /cancel/:id
+ * Annule une libération en attente ou en cours
+ */
+liberateRouter.post('/cancel/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const job = await getLiberationQueue().cancel(req.params.id, req.user!.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.status === 'completed' || job.status === 'failed') {
+      return res.status(409).json({ error: 'Liberation already finished', status: job.status });
+    }
+
+    res.status(202).json(jobStatus(job));
+
+  } catch (error) {
+    console.error('Cancel error:', error);
+    res.status(500).json({ error: 'Failed to cancel liberation' });
+  }
+});
+
 /**
  * GET /download/:id
  * Télécharge l'archive libérée
  */
-liberateRouter.get('/download/:id', async (req: Request, res: Response) => {
+liberateRouter.get('/download/:id', async (req: AuthRequest, res: Response) => {
   try {
-    const { id } = req.params;
-    const job = jobs.get(id);
+    const queue = getLiberationQueue();
+    const job = await queue.get(req.params.id, req.user!.id);
 
     if (!job) {
       return res.status(404).json({ error: 'Job not found' });
@@ -523,7 +565,11 @@ liberateRouter.get('/download/:id', async (req: Request, res: Response) => {
       });
     }
 
-    const archive = archives.get(id);
+    if (!job.archiveKey) {
+      return res.status(410).json({ error: 'Archive expired' });
+    }
+
+    const archive = await queue.readArchive(job);
     if (!archive) {
       return res.status(404).json({ error: 'Archive not found' });
     }
@@ -540,17 +586,24 @@ liberateRouter.get('/download/:id', async (req: Request, res: Response) => {
 
 /**
  * GET /jobs
- * Liste tous les jobs (pour debug)
+ * Liste les derniers jobs de l'utilisateur
  */
-liberateRouter.get('/jobs', (req: Request, res: Response) => {
-  const allJobs = Array.from(jobs.values()).map(j => ({
-    id: j.id,
-    status: j.status,
-    progress: j.progress,
-    projectName: j.projectName,
-    createdAt: j.createdAt,
-    completedAt: j.completedAt,
-  }));
-  
-  res.json(allJobs);
-});
+liberateRouter.get('/jobs', async (req: AuthRequest, res: Response) => {
+  try {
+    const jobs = await getLiberationQueue().list(req.user!.id);
+
+    res.json(jobs.map(j => ({
+      id: j.id,
+      status: j.status,
+      progress: j.progress,
+      projectName: j.projectName,
+      attempts: j.attempts,
+      createdAt: j.createdAt,
+      completedAt: j.completedAt ?? undefined,
+    })));
+
+  } catch (error) {
+    console.error('Jobs fetch error:', error);
+    res.status(500).json({ error: 'Failed to list jobs' });
+  }
+});
\ No newline at end of file
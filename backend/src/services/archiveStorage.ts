@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getSupabaseAdmin } from './supabase';
+
+/**
+ * Stockage des archives de libération (zip reçu et zip libéré)
+ * hors de la mémoire du processus.
+ *
+ * - disk : répertoire local (à monter en volume partagé si plusieurs réplicas)
+ * - supabase : bucket Supabase Storage (objet S3-compatible en auto-hébergé)
+ *
+ * La durée de vie est suivie dans liberation_jobs.archive_expires_at ;
+ * c'est la file de jobs qui appelle delete() à l'expiration.
+ */
+
+export type ArchiveStorageKind = 'disk' | 'supabase';
+
+export interface ArchiveStorage {
+  readonly kind: ArchiveStorageKind;
+  put(key: string, data: Buffer): Promise<void>;
+  /** null si l'archive n'existe pas (ou plus) */
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+export class DiskArchiveStorage implements ArchiveStorage {
+  readonly kind = 'disk' as const;
+
+  constructor(private readonly root: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Écriture atomique : un lecteur ne voit jamais un zip partiel
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, target);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, key);
+    if (!target.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Clé d'archive invalide: ${key}`);
+    }
+    return target;
+  }
+}
+
+export class SupabaseArchiveStorage implements ArchiveStorage {
+  readonly kind = 'supabase' as const;
+
+  constructor(private readonly bucket: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const { error } = await getSupabaseAdmin().storage
+      .from(this.bucket)
+      .upload(key, data, { contentType: 'application/zip', upsert: true });
+
+    if (error) {
+      throw new Error(`Échec de l'envoi de l'archive ${key}: ${error.message}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const { data, error } = await getSupabaseAdmin().storage.from(this.bucket).download(key);
+    if (error || !data) return null;
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await getSupabaseAdmin().storage.from(this.bucket).remove([key]);
+    if (error) {
+      throw new Error(`Échec de la suppression de l'archive ${key}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Stockage configuré par l'environnement :
+ * ARCHIVE_STORAGE (disk | supabase), ARCHIVE_DIR, ARCHIVE_BUCKET
+ */
+export function createArchiveStorage(): ArchiveStorage {
+  const kind = process.env.ARCHIVE_STORAGE || 'disk';
+
+  if (kind === 'supabase') {
+    return new SupabaseArchiveStorage(process.env.ARCHIVE_BUCKET || 'liberation-archives');
+  }
+  if (kind !== 'disk') {
+    throw new Error(`ARCHIVE_STORAGE inconnu: ${kind} (disk ou supabase)`);
+  }
+
+  return new DiskArchiveStorage(process.env.ARCHIVE_DIR || path.join(os.tmpdir(), 'inopay-archives'));
+}
@@ -0,0 +1,908 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { getSupabaseAdmin } from './supabase';
+import { ArchiveStorage, createArchiveStorage } from './archiveStorage';
+
+/**
+ * File de jobs de libération durable
+ *
+ * L'état vit dans Postgres (table liberation_jobs) et les archives dans un
+ * ArchiveStorage : un redémarrage ne perd rien et plusieurs réplicas se
+ * partagent le travail.
+ *
+ * - Réservation atomique (RPC claim_liberation_jobs, FOR UPDATE SKIP LOCKED)
+ * - Bail renouvelé par heartbeat : un job dont le worker meurt est repris
+ * - Tentatives avec backoff exponentiel, puis échec définitif
+ * - Annulation (immédiate si en attente, au prochain point d'étape sinon)
+ * - Événements de progression dans liberation_job_events, lisibles partout
+ * - Nettoyage des archives expirées (TTL)
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type LiberationJobStatus =
+  | 'pending'
+  | 'processing'
+  | 'scanning'
+  | 'auditing'
+  | 'cleaning'
+  | 'rebuilding'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type LiberationSourceType = 'zip' | 'github' | 'url';
+
+export type LiberationJobEventType =
+  | 'queued'
+  | 'started'
+  | 'progress'
+  | 'retry'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'expired';
+
+export interface LiberationJob {
+  id: string;
+  userId: string;
+  status: LiberationJobStatus;
+  progress: number;
+  projectName: string;
+  sourceType: LiberationSourceType;
+  sourceUrl: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedBy: string | null;
+  lockedUntil: string | null;
+  cancelRequested: boolean;
+  inputKey: string | null;
+  archiveKey: string | null;
+  archiveExpiresAt: string | null;
+  auditScore: number | null;
+  auditReport: unknown;
+  filesCount: number;
+  filesCleaned: number;
+  resultUrl: string | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface LiberationJobEvent {
+  id: number;
+  jobId: string;
+  type: LiberationJobEventType;
+  status: LiberationJobStatus;
+  progress: number;
+  message: string | null;
+  data: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export type NewLiberationJob = Pick<
+  LiberationJob,
+  'id' | 'userId' | 'projectName' | 'sourceType' | 'sourceUrl' | 'maxAttempts' | 'inputKey'
+>;
+
+export type LiberationJobPatch = Partial<Omit<LiberationJob, 'id' | 'userId' | 'createdAt'>>;
+
+export type NewLiberationJobEvent = Omit<LiberationJobEvent, 'id' | 'createdAt'>;
+
+/** Conditions d'une mise à jour : elle n'a lieu que si le job y correspond encore */
+export interface JobUpdateCondition {
+  lockedBy?: string;
+  status?: LiberationJobStatus;
+  archiveKey?: string;
+}
+
+export interface JobStore {
+  insert(job: NewLiberationJob): Promise<LiberationJob>;
+  /** Jobs de `userId` uniquement : un autre utilisateur obtient null */
+  get(id: string, userId: string): Promise<LiberationJob | null>;
+  list(userId: string, limit: number): Promise<LiberationJob[]>;
+  /** Réserve jusqu'à `limit` jobs prêts pour ce worker, atomiquement entre réplicas */
+  claim(workerId: string, limit: number, leaseMs: number): Promise<LiberationJob[]>;
+  /** null si le job n'existe pas ou ne remplit plus la condition */
+  update(id: string, patch: LiberationJobPatch, where?: JobUpdateCondition): Promise<LiberationJob | null>;
+  appendEvent(event: NewLiberationJobEvent): Promise<LiberationJobEvent>;
+  events(jobId: string, afterId: number, limit: number): Promise<LiberationJobEvent[]>;
+  expiredArchives(now: Date, limit: number): Promise<LiberationJob[]>;
+  /** Jobs en cours dont le bail a expiré (worker disparu) */
+  expiredLeases(now: Date, limit: number): Promise<LiberationJob[]>;
+}
+
+export interface JobContext {
+  job: LiberationJob;
+  input: Buffer;
+  /** Interrompu sur annulation ou perte du bail */
+  signal: AbortSignal;
+  /** Publie une étape ; lève JobCancelledError si l'annulation a été demandée */
+  progress(status: LiberationJobStatus, progress: number, message?: string, data?: Record<string, unknown>): Promise<void>;
+}
+
+export interface JobOutcome {
+  archive: Buffer;
+  result?: Pick<LiberationJobPatch, 'auditScore' | 'auditReport' | 'filesCount' | 'filesCleaned'>;
+}
+
+export type JobHandler = (context: JobContext) => Promise<JobOutcome>;
+
+export interface JobQueueOptions {
+  /** Jobs traités en parallèle par ce processus */
+  concurrency?: number;
+  leaseMs?: number;
+  heartbeatMs?: number;
+  pollIntervalMs?: number;
+  sweepIntervalMs?: number;
+  archiveTtlMs?: number;
+  maxAttempts?: number;
+  /** Délai avant la 2e tentative, doublé à chaque échec */
+  retryDelayMs?: number;
+  workerId?: string;
+}
+
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} annulé`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export class JobLeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Bail du job ${jobId} perdu`);
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+const ACTIVE_STATUSES: LiberationJobStatus[] = ['processing', 'scanning', 'auditing', 'cleaning', 'rebuilding'];
+const TERMINAL_STATUSES: LiberationJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export function isTerminalStatus(status: LiberationJobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// POSTGRES STORE (Supabase)
+// ═══════════════════════════════════════════════════════════════
+
+interface LiberationJobRow {
+  id: string;
+  user_id: string;
+  status: LiberationJobStatus;
+  progress: number | null;
+  project_name: string | null;
+  source_type: LiberationSourceType;
+  source_url: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  cancel_requested: boolean;
+  input_key: string | null;
+  archive_key: string | null;
+  archive_expires_at: string | null;
+  audit_score: number | null;
+  audit_report: unknown;
+  files_count: number | null;
+  files_cleaned: number | null;
+  result_url: string | null;
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface LiberationJobEventRow {
+  id: number;
+  job_id: string;
+  type: LiberationJobEventType;
+  status: LiberationJobStatus;
+  progress: number;
+  message: string | null;
+  data: Record<string, unknown> | null;
+  created_at: string;
+}
+
+const COLUMNS: Record<keyof LiberationJobPatch | 'id' | 'userId', keyof LiberationJobRow> = {
+  id: 'id',
+  userId: 'user_id',
+  status: 'status',
+  progress: 'progress',
+  projectName: 'project_name',
+  sourceType: 'source_type',
+  sourceUrl: 'source_url',
+  attempts: 'attempts',
+  maxAttempts: 'max_attempts',
+  runAt: 'run_at',
+  lockedBy: 'locked_by',
+  lockedUntil: 'locked_until',
+  cancelRequested: 'cancel_requested',
+  inputKey: 'input_key',
+  archiveKey: 'archive_key',
+  archiveExpiresAt: 'archive_expires_at',
+  auditScore: 'audit_score',
+  auditReport: 'audit_report',
+  filesCount: 'files_count',
+  filesCleaned: 'files_cleaned',
+  resultUrl: 'result_url',
+  error: 'error_message',
+  completedAt: 'completed_at',
+};
+
+function toRow(fields: LiberationJobPatch | NewLiberationJob): Partial<Record<keyof LiberationJobRow, unknown>> {
+  const row: Partial<Record<keyof LiberationJobRow, unknown>> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      row[COLUMNS[key as keyof typeof COLUMNS]] = value;
+    }
+  }
+  return row;
+}
+
+function fromRow(row: LiberationJobRow): LiberationJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    status: row.status,
+    progress: row.progress ?? 0,
+    projectName: row.project_name ?? '',
+    sourceType: row.source_type,
+    sourceUrl: row.source_url,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    lockedBy: row.locked_by,
+    lockedUntil: row.locked_until,
+    cancelRequested: row.cancel_requested,
+    inputKey: row.input_key,
+    archiveKey: row.archive_key,
+    archiveExpiresAt: row.archive_expires_at,
+    auditScore: row.audit_score,
+    auditReport: row.audit_report,
+    filesCount: row.files_count ?? 0,
+    filesCleaned: row.files_cleaned ?? 0,
+    resultUrl: row.result_url,
+    error: row.error_message,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+function fromEventRow(row: LiberationJobEventRow): LiberationJobEvent {
+  return {
+    id: Number(row.id),
+    jobId: row.job_id,
+    type: row.type,
+    status: row.status,
+    progress: row.progress,
+    message: row.message,
+    data: row.data,
+    createdAt: row.created_at,
+  };
+}
+
+export class SupabaseJobStore implements JobStore {
+  private get client() {
+    return getSupabaseAdmin();
+  }
+
+  async insert(job: NewLiberationJob): Promise<LiberationJob> {
+    const { data, error } = await this.client
+      .from('liberation_jobs')
+      .insert({ ...toRow(job), status: 'pending', progress: 0 })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Création du job impossible: ${error.message}`);
+    return fromRow(data);
+  }
+
+  async get(id: string, userId: string): Promise<LiberationJob | null> {
+    const { data, error } = await this.client
+      .from('liberation_jobs')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw new Error(`Lecture du job impossible: ${error.message}`);
+    return data ? fromRow(data) : null;
+  }
+
+  async list(userId: string, limit: number): Promise<LiberationJob[]> {
+    const { data, error } = await this.client
+      .from('liberation_jobs')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Lecture des jobs impossible: ${error.message}`);
+    return (data || []).map(fromRow);
+  }
+
+  async claim(workerId: string, limit: number, leaseMs: number): Promise<LiberationJob[]> {
+    const { data, error } = await this.client.rpc('claim_liberation_jobs', {
+      p_worker: workerId,
+      p_limit: limit,
+      p_lease_seconds: Math.ceil(leaseMs / 1000),
+    });
+
+    if (error) throw new Error(`Réservation des jobs impossible: ${error.message}`);
+    return ((data || []) as LiberationJobRow[]).map(fromRow);
+  }
+
+  async update(id: string, patch: LiberationJobPatch, where: JobUpdateCondition = {}): Promise<LiberationJob | null> {
+    let query = this.client.from('liberation_jobs').update(toRow(patch)).eq('id', id);
+    if (where.lockedBy !== undefined) query = query.eq('locked_by', where.lockedBy);
+    if (where.status !== undefined) query = query.eq('status', where.status);
+    if (where.archiveKey !== undefined) query = query.eq('archive_key', where.archiveKey);
+
+    const { data, error } = await query.select().maybeSingle();
+    if (error) throw new Error(`Mise à jour du job impossible: ${error.message}`);
+    return data ? fromRow(data) : null;
+  }
+
+  async appendEvent(event: NewLiberationJobEvent): Promise<LiberationJobEvent> {
+    const { data, error } = await this.client
+      .from('liberation_job_events')
+      .insert({
+        job_id: event.jobId,
+        type: event.type,
+        status: event.status,
+        progress: event.progress,
+        message: event.message,
+        data: event.data,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Enregistrement de l'événement impossible: ${error.message}`);
+    return fromEventRow(data);
+  }
+
+  async events(jobId: string, afterId: number, limit: number): Promise<LiberationJobEvent[]> {
+    const { data, error } = await this.client
+      .from('liberation_job_events')
+      .select('*')
+      .eq('job_id', jobId)
+      .gt('id', afterId)
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (error) throw new Error(`Lecture des événements impossible: ${error.message}`);
+    return (data || []).map(fromEventRow);
+  }
+
+  async expiredArchives(now: Date, limit: number): Promise<LiberationJob[]> {
+    const { data, error } = await this.client
+      .from('liberation_jobs')
+      .select('*')
+      .not('archive_key', 'is', null)
+      .lt('archive_expires_at', now.toISOString())
+      .limit(limit);
+
+    if (error) throw new Error(`Lecture des archives expirées impossible: ${error.message}`);
+    return (data || []).map(fromRow);
+  }
+
+  async expiredLeases(now: Date, limit: number): Promise<LiberationJob[]> {
+    const { data, error } = await this.client
+      .from('liberation_jobs')
+      .select('*')
+      .in('status', ACTIVE_STATUSES)
+      .lt('locked_until', now.toISOString())
+      .limit(limit);
+
+    if (error) throw new Error(`Lecture des baux expirés impossible: ${error.message}`);
+    return (data || []).map(fromRow);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// MEMORY STORE (dev sans Supabase, un seul processus)
+// ═══════════════════════════════════════════════════════════════
+
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, LiberationJob>();
+  private jobEvents: LiberationJobEvent[] = [];
+  private nextEventId = 1;
+
+  async insert(job: NewLiberationJob): Promise<LiberationJob> {
+    const now = new Date().toISOString();
+    const record: LiberationJob = {
+      ...job,
+      status: 'pending',
+      progress: 0,
+      attempts: 0,
+      runAt: now,
+      lockedBy: null,
+      lockedUntil: null,
+      cancelRequested: false,
+      archiveKey: null,
+      archiveExpiresAt: null,
+      auditScore: null,
+      auditReport: null,
+      filesCount: 0,
+      filesCleaned: 0,
+      resultUrl: null,
+      error: null,
+      createdAt: now,
+      completedAt: null,
+    };
+    this.jobs.set(job.id, record);
+    return { ...record };
+  }
+
+  async get(id: string, userId: string): Promise<LiberationJob | null> {
+    const job = this.jobs.get(id);
+    return job && job.userId === userId ? { ...job } : null;
+  }
+
+  async list(userId: string, limit: number): Promise<LiberationJob[]> {
+    return [...this.jobs.values()]
+      .filter(job => job.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map(job => ({ ...job }));
+  }
+
+  async claim(workerId: string, limit: number, leaseMs: number): Promise<LiberationJob[]> {
+    const now = Date.now();
+    const ready = [...this.jobs.values()]
+      .filter(job =>
+        job.inputKey !== null &&
+        !job.cancelRequested &&
+        job.attempts < job.maxAttempts &&
+        ((job.status === 'pending' && Date.parse(job.runAt) <= now) ||
+          (ACTIVE_STATUSES.includes(job.status) && Date.parse(job.lockedUntil || '') < now))
+      )
+      .sort((a, b) => a.runAt.localeCompare(b.runAt))
+      .slice(0, limit);
+
+    for (const job of ready) {
+      job.status = 'processing';
+      job.attempts++;
+      job.lockedBy = workerId;
+      job.lockedUntil = new Date(now + leaseMs).toISOString();
+      job.error = null;
+    }
+    return ready.map(job => ({ ...job }));
+  }
+
+  async update(id: string, patch: LiberationJobPatch, where: JobUpdateCondition = {}): Promise<LiberationJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    if (where.lockedBy !== undefined && job.lockedBy !== where.lockedBy) return null;
+    if (where.status !== undefined && job.status !== where.status) return null;
+    if (where.archiveKey !== undefined && job.archiveKey !== where.archiveKey) return null;
+
+    for (const [key, value] of Object.entries(patch)) {
+      if (value !== undefined) Object.assign(job, { [key]: value });
+    }
+    return { ...job };
+  }
+
+  async appendEvent(event: NewLiberationJobEvent): Promise<LiberationJobEvent> {
+    const record = { ...event, id: this.nextEventId++, createdAt: new Date().toISOString() };
+    this.jobEvents.push(record);
+    return record;
+  }
+
+  async events(jobId: string, afterId: number, limit: number): Promise<LiberationJobEvent[]> {
+    return this.jobEvents.filter(event => event.jobId === jobId && event.id > afterId).slice(0, limit);
+  }
+
+  async expiredArchives(now: Date, limit: number): Promise<LiberationJob[]> {
+    return [...this.jobs.values()]
+      .filter(job => job.archiveKey && Date.parse(job.archiveExpiresAt || '') < now.getTime())
+      .slice(0, limit)
+      .map(job => ({ ...job }));
+  }
+
+  async expiredLeases(now: Date, limit: number): Promise<LiberationJob[]> {
+    return [...this.jobs.values()]
+      .filter(job => ACTIVE_STATUSES.includes(job.status) && Date.parse(job.lockedUntil || '') < now.getTime())
+      .slice(0, limit)
+      .map(job => ({ ...job }));
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// QUEUE
+// ═══════════════════════════════════════════════════════════════
+
+export class LiberationJobQueue {
+  readonly workerId: string;
+  private options: Required<Omit<JobQueueOptions, 'workerId'>>;
+  private active = new Map<string, Promise<void>>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private readonly store: JobStore,
+    private readonly storage: ArchiveStorage,
+    options: JobQueueOptions = {}
+  ) {
+    const leaseMs = options.leaseMs ?? 60_000;
+    this.workerId = options.workerId ?? `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+    this.options = {
+      concurrency: Math.max(1, options.concurrency ?? 2),
+      leaseMs,
+      heartbeatMs: options.heartbeatMs ?? Math.floor(leaseMs / 3),
+      pollIntervalMs: options.pollIntervalMs ?? 2_000,
+      sweepIntervalMs: options.sweepIntervalMs ?? 60_000,
+      archiveTtlMs: options.archiveTtlMs ?? 24 * 60 * 60 * 1000,
+      maxAttempts: options.maxAttempts ?? 3,
+      retryDelayMs: options.retryDelayMs ?? 5_000,
+    };
+  }
+
+  /**
+   * Met un job en file ; l'archive source est stockée pour survivre aux redémarrages
+   */
+  async enqueue(job: {
+    userId: string;
+    projectName: string;
+    sourceType: LiberationSourceType;
+    sourceUrl?: string | null;
+    input: Buffer;
+  }): Promise<LiberationJob> {
+    const id = randomUUID();
+    const inputKey = `inputs/${id}.zip`;
+    await this.storage.put(inputKey, job.input);
+
+    try {
+      const record = await this.store.insert({
+        id,
+        userId: job.userId,
+        projectName: job.projectName,
+        sourceType: job.sourceType,
+        sourceUrl: job.sourceUrl ?? null,
+        maxAttempts: this.options.maxAttempts,
+        inputKey,
+      });
+      await this.emit(record, 'queued', 'pending', 0, 'Libération en file d\'attente');
+      return record;
+    } catch (error) {
+      await this.storage.delete(inputKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  get(id: string, userId: string): Promise<LiberationJob | null> {
+    return this.store.get(id, userId);
+  }
+
+  list(userId: string, limit = 100): Promise<LiberationJob[]> {
+    return this.store.list(userId, limit);
+  }
+
+  events(jobId: string, afterId = 0, limit = 500): Promise<LiberationJobEvent[]> {
+    return this.store.events(jobId, afterId, limit);
+  }
+
+  /**
+   * Annule un job : immédiat s'il attend encore, sinon le worker s'arrête
+   * à sa prochaine étape. null si le job n'existe pas ou appartient à un autre utilisateur
+   */
+  async cancel(id: string, userId: string): Promise<LiberationJob | null> {
+    const job = await this.store.get(id, userId);
+    if (!job || isTerminalStatus(job.status)) return job;
+
+    if (job.status === 'pending') {
+      const cancelled = await this.finishCancelled(job, { status: 'pending' });
+      if (cancelled) return cancelled;
+    }
+
+    return this.store.update(id, { cancelRequested: true });
+  }
+
+  /**
+   * Archive libérée d'un job terminé, null si absente ou expirée
+   */
+  async readArchive(job: LiberationJob): Promise<Buffer | null> {
+    return job.archiveKey ? this.storage.get(job.archiveKey) : null;
+  }
+
+  start(handler: JobHandler): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => void this.tick(handler), this.options.pollIntervalMs);
+    this.sweepTimer = setInterval(() => void this.sweep(), this.options.sweepIntervalMs);
+    void this.tick(handler);
+    void this.sweep();
+
+    console.log(`[LIBERATION-QUEUE] Worker ${this.workerId} started (concurrency ${this.options.concurrency}, ${this.storage.kind} storage)`);
+  }
+
+  /**
+   * Arrête la prise de nouveaux jobs et attend les jobs en cours. Ceux qui
+   * ne finissent pas à temps seront repris par un autre worker à l'expiration du bail
+   */
+  async stop(timeoutMs = 30_000): Promise<void> {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.pollTimer = null;
+    this.sweepTimer = null;
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(this.active.values()),
+      new Promise(resolve => { timer = setTimeout(resolve, timeoutMs); }),
+    ]);
+    clearTimeout(timer);
+  }
+
+  /**
+   * Supprime les archives expirées et clôt les jobs abandonnés par un worker
+   * (annulation demandée ou tentatives épuisées)
+   */
+  async sweep(): Promise<void> {
+    const now = new Date();
+
+    try {
+      for (const job of await this.store.expiredArchives(now, 100)) {
+        const cleared = await this.store.update(
+          job.id,
+          { archiveKey: null, archiveExpiresAt: null, resultUrl: null },
+          { archiveKey: job.archiveKey ?? undefined }
+        );
+        if (!cleared || !job.archiveKey) continue;
+
+        await this.storage.delete(job.archiveKey);
+        await this.emit(cleared, 'expired', cleared.status, cleared.progress, 'Archive expirée et supprimée');
+      }
+
+      for (const job of await this.store.expiredLeases(now, 100)) {
+        if (job.cancelRequested) {
+          await this.finishCancelled(job, { lockedBy: job.lockedBy ?? undefined });
+        } else if (job.attempts >= job.maxAttempts) {
+          await this.finishFailed(job, `Worker interrompu (${job.attempts}/${job.maxAttempts} tentatives)`, {
+            lockedBy: job.lockedBy ?? undefined,
+          });
+        }
+      }
+    } catch (error) {
+      console.error('[LIBERATION-QUEUE] Sweep failed:', error);
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────
+
+  private async tick(handler: JobHandler): Promise<void> {
+    const free = this.options.concurrency - this.active.size;
+    if (this.ticking || free <= 0) return;
+    this.ticking = true;
+
+    try {
+      const claimed = await this.store.claim(this.workerId, free, this.options.leaseMs);
+      for (const job of claimed) {
+        const run = this.run(job, handler).finally(() => this.active.delete(job.id));
+        this.active.set(job.id, run);
+      }
+    } catch (error) {
+      console.error('[LIBERATION-QUEUE] Claim failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async run(job: LiberationJob, handler: JobHandler): Promise<void> {
+    const owner = { lockedBy: this.workerId };
+    const controller = new AbortController();
+    let cancelRequested = false;
+    let leaseLost = false;
+
+    const renew = async (patch: LiberationJobPatch = {}) => {
+      const current = await this.store.update(job.id, { ...patch, lockedUntil: this.leaseUntil() }, owner);
+      if (!current) {
+        leaseLost = true;
+        controller.abort();
+      } else if (current.cancelRequested) {
+        cancelRequested = true;
+        controller.abort();
+      }
+    };
+
+    const heartbeat = setInterval(() => {
+      renew().catch(error => console.error(`[LIBERATION-QUEUE] Heartbeat failed for ${job.id}:`, error));
+    }, this.options.heartbeatMs);
+
+    const assertOwned = () => {
+      if (leaseLost) throw new JobLeaseLostError(job.id);
+      if (cancelRequested) throw new JobCancelledError(job.id);
+    };
+
+    try {
+      await this.emit(job, 'started', 'processing', 0, `Tentative ${job.attempts}/${job.maxAttempts}`, {
+        workerId: this.workerId,
+      });
+
+      const input = job.inputKey ? await this.storage.get(job.inputKey) : null;
+      if (!input) {
+        throw new Error('Archive source introuvable');
+      }
+
+      const outcome = await handler({
+        job,
+        input,
+        signal: controller.signal,
+        progress: async (status, progress, message, data) => {
+          assertOwned();
+          await renew({ status, progress });
+          assertOwned();
+          await this.emit(job, 'progress', status, progress, message, data);
+        },
+      });
+      assertOwned();
+
+      const archiveKey = `results/${job.id}.zip`;
+      await this.storage.put(archiveKey, outcome.archive);
+
+      const completed = await this.store.update(job.id, {
+        ...outcome.result,
+        status: 'completed',
+        progress: 100,
+        archiveKey,
+        archiveExpiresAt: new Date(Date.now() + this.options.archiveTtlMs).toISOString(),
+        resultUrl: `/api/liberate/download/${job.id}`,
+        completedAt: new Date().toISOString(),
+        lockedBy: null,
+        lockedUntil: null,
+        inputKey: null,
+      }, owner);
+      if (!completed) throw new JobLeaseLostError(job.id);
+
+      await this.deleteInput(job);
+      await this.emit(completed, 'completed', 'completed', 100, 'Libération terminée', {
+        resultUrl: completed.resultUrl,
+        archiveExpiresAt: completed.archiveExpiresAt,
+      });
+    } catch (error) {
+      if (error instanceof JobLeaseLostError) {
+        console.warn(`[LIBERATION-QUEUE] Lease lost for ${job.id}, another worker owns it`);
+      } else if (error instanceof JobCancelledError || cancelRequested) {
+        await this.finishCancelled(job, owner);
+      } else {
+        await this.retryOrFail(job, error instanceof Error ? error.message : 'Unknown error');
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async retryOrFail(job: LiberationJob, message: string): Promise<void> {
+    console.error(`[LIBERATION-QUEUE] Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+
+    try {
+      if (job.attempts >= job.maxAttempts) {
+        await this.finishFailed(job, message, { lockedBy: this.workerId });
+        return;
+      }
+
+      const delayMs = this.options.retryDelayMs * 2 ** (job.attempts - 1);
+      const retried = await this.store.update(job.id, {
+        status: 'pending',
+        progress: 0,
+        runAt: new Date(Date.now() + delayMs).toISOString(),
+        lockedBy: null,
+        lockedUntil: null,
+        error: message,
+      }, { lockedBy: this.workerId });
+
+      if (retried) {
+        await this.emit(retried, 'retry', 'pending', 0, `Nouvelle tentative dans ${Math.round(delayMs / 1000)}s: ${message}`, {
+          attempt: job.attempts,
+          maxAttempts: job.maxAttempts,
+          delayMs,
+        });
+      }
+    } catch (error) {
+      console.error(`[LIBERATION-QUEUE] Could not record failure for ${job.id}:`, error);
+    }
+  }
+
+  private async finishFailed(job: LiberationJob, message: string, where: JobUpdateCondition): Promise<void> {
+    const failed = await this.store.update(job.id, {
+      status: 'failed',
+      lockedBy: null,
+      lockedUntil: null,
+      inputKey: null,
+      error: message,
+    }, where);
+    if (!failed) return;
+
+    await this.deleteInput(job);
+    await this.emit(failed, 'failed', 'failed', failed.progress, message);
+  }
+
+  private async finishCancelled(job: LiberationJob, where: JobUpdateCondition): Promise<LiberationJob | null> {
+    const cancelled = await this.store.update(job.id, {
+      status: 'cancelled',
+      cancelRequested: true,
+      lockedBy: null,
+      lockedUntil: null,
+      inputKey: null,
+    }, where);
+    if (!cancelled) return null;
+
+    await this.deleteInput(job);
+    await this.emit(cancelled, 'cancelled', 'cancelled', cancelled.progress, 'Libération annulée');
+    return cancelled;
+  }
+
+  private async deleteInput(job: LiberationJob): Promise<void> {
+    if (!job.inputKey) return;
+    await this.storage.delete(job.inputKey).catch(error =>
+      console.error(`[LIBERATION-QUEUE] Could not delete input of ${job.id}:`, error)
+    );
+  }
+
+  private async emit(
+    job: LiberationJob,
+    type: LiberationJobEventType,
+    status: LiberationJobStatus,
+    progress: number,
+    message?: string,
+    data?: Record<string, unknown>
+  ): Promise<void> {
+    await this.store.appendEvent({
+      jobId: job.id,
+      type,
+      status,
+      progress,
+      message: message ?? null,
+      data: data ?? null,
+    });
+  }
+
+  private leaseUntil(): string {
+    return new Date(Date.now() + this.options.leaseMs).toISOString();
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INSTANCE
+// ═══════════════════════════════════════════════════════════════
+
+let queueInstance: LiberationJobQueue | null = null;
+
+/**
+ * File partagée du processus, configurée par l'environnement :
+ * LIBERATION_WORKER_CONCURRENCY, LIBERATION_MAX_ATTEMPTS,
+ * LIBERATION_LEASE_SECONDS, LIBERATION_ARCHIVE_TTL_HOURS
+ */
+export function getLiberationQueue(): LiberationJobQueue {
+  if (!queueInstance) {
+    const durable = Boolean(process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY);
+    if (!durable) {
+      console.warn('[LIBERATION-QUEUE] Supabase non configuré: file en mémoire, perdue au redémarrage');
+    }
+
+    const numberFromEnv = (name: string) => {
+      const value = Number(process.env[name]);
+      return Number.isFinite(value) && value > 0 ? value : undefined;
+    };
+    const leaseSeconds = numberFromEnv('LIBERATION_LEASE_SECONDS');
+    const ttlHours = numberFromEnv('LIBERATION_ARCHIVE_TTL_HOURS');
+
+    queueInstance = new LiberationJobQueue(
+      durable ? new SupabaseJobStore() : new MemoryJobStore(),
+      createArchiveStorage(),
+      {
+        concurrency: numberFromEnv('LIBERATION_WORKER_CONCURRENCY'),
+        maxAttempts: numberFromEnv('LIBERATION_MAX_ATTEMPTS'),
+        leaseMs: leaseSeconds ? leaseSeconds * 1000 : undefined,
+        archiveTtlMs: ttlHours ? ttlHours * 60 * 60 * 1000 : undefined,
+      }
+    );
+  }
+
+  return queueInstance;
+}
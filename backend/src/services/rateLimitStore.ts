@@ -0,0 +1,405 @@
+import { getSupabaseAdmin } from './supabase';
+import Redis from 'ioredis';
+
+/**
+ * Stockage des compteurs de rate limiting
+ *
+ * Chaque store prend la décision de façon atomique (une requête consommée
+ * ne peut pas être comptée deux fois par deux réplicas) :
+ * - memory : Map du processus, pour le développement et les tests
+ * - postgres : table rate_limits via la RPC consume_rate_limit
+ * - redis : script Lua (client ioredis) sur n'importe quel serveur compatible
+ *   Redis : Valkey, KeyDB, Dragonfly
+ *
+ * Les stores gèrent aussi des blocages temporaires par clé (protection
+ * contre la force brute)
+ *
+ * Deux algorithmes :
+ * - sliding-window : fenêtre glissante approchée (fenêtre courante + part
+ *   de la précédente), pas de rafale au changement de fenêtre
+ * - token-bucket : capacité `limit`, rechargée de `limit` jetons par
+ *   `windowMs`, autorise les rafales courtes
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export type RateLimitStoreKind = 'memory' | 'postgres' | 'redis';
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Délai (ms) avant que le quota soit rétabli */
+  resetMs: number;
+  /** Délai (ms) avant qu'une nouvelle requête passe, 0 si autorisée */
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  readonly kind: RateLimitStoreKind;
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision>;
+  /** Oublie les compteurs et le blocage d'une clé */
+  reset(key: string): Promise<void>;
+  /** Bloque une clé pendant durationMs, quel que soit son compteur */
+  block(key: string, durationMs: number): Promise<void>;
+  /** Délai (ms) restant avant la levée du blocage, 0 si la clé n'est pas bloquée */
+  blockedFor(key: string): Promise<number>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ALGORITHMES
+// ═══════════════════════════════════════════════════════════════
+
+interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  refilledAt: number;
+}
+
+/**
+ * Même calcul que consume_rate_limit (SQL) et SLIDING_WINDOW_SCRIPT (Lua)
+ */
+function consumeSlidingWindow(
+  state: SlidingWindowState | undefined,
+  { limit, windowMs }: RateLimitRule,
+  now: number
+): { state: SlidingWindowState; decision: RateLimitDecision } {
+  const windowStart = now - (now % windowMs);
+  let current = 0;
+  let previous = 0;
+
+  if (state?.windowStart === windowStart) {
+    current = state.current;
+    previous = state.previous;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previous = state.current;
+  }
+
+  // La fenêtre précédente compte au prorata de son recouvrement
+  let estimate = (previous * (windowMs - (now - windowStart))) / windowMs + current;
+  const allowed = estimate + 1 <= limit;
+  let retryAfterMs = 0;
+  let resetMs: number;
+
+  if (allowed) {
+    current++;
+    estimate++;
+    resetMs = windowStart + windowMs - now;
+  } else if (current + 1 <= limit) {
+    // Attendre que la part de la fenêtre précédente ait assez décru
+    retryAfterMs = Math.ceil(windowStart + windowMs - ((limit - 1 - current) * windowMs) / previous - now);
+    resetMs = retryAfterMs;
+  } else {
+    retryAfterMs = Math.ceil(windowStart + windowMs - now + windowMs * (1 - (limit - 1) / current));
+    resetMs = retryAfterMs;
+  }
+
+  return {
+    state: { windowStart, current, previous },
+    decision: { allowed, limit, remaining: Math.max(0, Math.floor(limit - estimate)), resetMs, retryAfterMs },
+  };
+}
+
+function consumeTokenBucket(
+  state: TokenBucketState | undefined,
+  { limit, windowMs }: RateLimitRule,
+  now: number
+): { state: TokenBucketState; decision: RateLimitDecision } {
+  const rate = limit / windowMs;
+  let tokens = state ? Math.min(limit, state.tokens + Math.max(0, now - state.refilledAt) * rate) : limit;
+
+  const allowed = tokens >= 1;
+  let retryAfterMs = 0;
+  if (allowed) {
+    tokens -= 1;
+  } else {
+    retryAfterMs = Math.ceil((1 - tokens) / rate);
+  }
+
+  return {
+    state: { tokens, refilledAt: now },
+    decision: {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((limit - tokens) / rate),
+      retryAfterMs,
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// STORES
+// ═══════════════════════════════════════════════════════════════
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly kind = 'memory' as const;
+  private readonly entries = new Map<string, { state: SlidingWindowState | TokenBucketState; expiresAt: number }>();
+  private readonly blocks = new Map<string, number>();
+
+  constructor(private readonly now: () => number = Date.now) {
+    // Nettoyage périodique des entrées expirées
+    setInterval(() => {
+      const current = this.now();
+      for (const [key, entry] of this.entries) {
+        if (entry.expiresAt < current) this.entries.delete(key);
+      }
+      for (const [key, until] of this.blocks) {
+        if (until < current) this.blocks.delete(key);
+      }
+    }, 60000).unref();
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    const now = this.now();
+    const entry = this.entries.get(key);
+
+    if (rule.algorithm === 'token-bucket') {
+      const { state, decision } = consumeTokenBucket(entry?.state as TokenBucketState | undefined, rule, now);
+      this.entries.set(key, { state, expiresAt: now + decision.resetMs });
+      return decision;
+    }
+
+    const { state, decision } = consumeSlidingWindow(entry?.state as SlidingWindowState | undefined, rule, now);
+    this.entries.set(key, { state, expiresAt: state.windowStart + 2 * rule.windowMs });
+    return decision;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+    this.blocks.delete(key);
+  }
+
+  async block(key: string, durationMs: number): Promise<void> {
+    this.blocks.set(key, this.now() + durationMs);
+  }
+
+  async blockedFor(key: string): Promise<number> {
+    const until = this.blocks.get(key);
+    return until ? Math.max(0, until - this.now()) : 0;
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly kind = 'postgres' as const;
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    const { data, error } = await getSupabaseAdmin().rpc('consume_rate_limit', {
+      p_key: key,
+      p_algorithm: rule.algorithm,
+      p_limit: rule.limit,
+      p_window_ms: rule.windowMs,
+    });
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) {
+      throw new Error(`consume_rate_limit a échoué: ${error?.message ?? 'réponse vide'}`);
+    }
+
+    return {
+      allowed: row.allowed,
+      limit: rule.limit,
+      remaining: row.remaining,
+      resetMs: row.reset_ms,
+      retryAfterMs: row.retry_after_ms,
+    };
+  }
+
+  async reset(key: string): Promise<void> {
+    const { error } = await getSupabaseAdmin().from('rate_limits').delete().eq('key', key);
+    if (error) throw new Error(`Réinitialisation du rate limit impossible: ${error.message}`);
+  }
+
+  // Un blocage est une ligne de rate_limits qui expire à la levée du blocage :
+  // cleanup_expired_rate_limits la supprime comme les autres compteurs
+  async block(key: string, durationMs: number): Promise<void> {
+    const { error } = await getSupabaseAdmin()
+      .from('rate_limits')
+      .upsert({ key, count: 0, reset_at: new Date(Date.now() + durationMs).toISOString() });
+    if (error) throw new Error(`Blocage impossible: ${error.message}`);
+  }
+
+  async blockedFor(key: string): Promise<number> {
+    const { data, error } = await getSupabaseAdmin()
+      .from('rate_limits')
+      .select('reset_at')
+      .eq('key', key)
+      .maybeSingle();
+    if (error) throw new Error(`Lecture du blocage impossible: ${error.message}`);
+    return data ? Math.max(0, Date.parse(data.reset_at) - Date.now()) : 0;
+  }
+}
+
+// Horloge du serveur Redis : tous les réplicas partagent la même référence
+const REDIS_NOW = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+`;
+
+const SLIDING_WINDOW_SCRIPT = `${REDIS_NOW}
+local start = now - (now % window)
+local state = redis.call('HMGET', KEYS[1], 'start', 'current', 'previous')
+local stored = tonumber(state[1])
+local current, previous = 0, 0
+if stored == start then
+  current = tonumber(state[2]) or 0
+  previous = tonumber(state[3]) or 0
+elseif stored == start - window then
+  previous = tonumber(state[2]) or 0
+end
+local estimate = previous * (window - (now - start)) / window + current
+local allowed, retry, reset = 0, 0, 0
+if estimate + 1 <= limit then
+  allowed = 1
+  current = current + 1
+  estimate = estimate + 1
+  reset = start + window - now
+elseif current + 1 <= limit then
+  retry = math.ceil(start + window - (limit - 1 - current) * window / previous - now)
+  reset = retry
+else
+  retry = math.ceil(start + window - now + window * (1 - (limit - 1) / current))
+  reset = retry
+end
+redis.call('HSET', KEYS[1], 'start', start, 'current', current, 'previous', previous)
+redis.call('PEXPIRE', KEYS[1], 2 * window)
+return {allowed, math.max(0, math.floor(limit - estimate)), reset, retry}
+`;
+
+const TOKEN_BUCKET_SCRIPT = `${REDIS_NOW}
+local rate = limit / window
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'refilled')
+local tokens = tonumber(state[1]) or limit
+local refilled = tonumber(state[2])
+if refilled then
+  tokens = math.min(limit, tokens + math.max(0, now - refilled) * rate)
+end
+local allowed, retry = 0, 0
+if tokens >= 1 then
+  allowed = 1
+  tokens = tokens - 1
+else
+  retry = math.ceil((1 - tokens) / rate)
+end
+local reset = math.ceil((limit - tokens) / rate)
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'refilled', now)
+redis.call('PEXPIRE', KEYS[1], math.max(reset, 1))
+return {allowed, math.floor(tokens), reset, retry}
+`;
+
+/**
+ * Scripts enregistrés par defineCommand : ioredis envoie EVALSHA et
+ * repasse par EVAL si le serveur ne connaît pas encore le script
+ */
+interface RateLimitRedis extends Redis {
+  rateLimitSlidingWindow(key: string, limit: number, windowMs: number): Promise<unknown>;
+  rateLimitTokenBucket(key: string, limit: number, windowMs: number): Promise<unknown>;
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly kind = 'redis' as const;
+  private readonly client: RateLimitRedis;
+
+  constructor(client: Redis, private readonly prefix = 'ratelimit:') {
+    client.defineCommand('rateLimitSlidingWindow', { numberOfKeys: 1, lua: SLIDING_WINDOW_SCRIPT });
+    client.defineCommand('rateLimitTokenBucket', { numberOfKeys: 1, lua: TOKEN_BUCKET_SCRIPT });
+    this.client = client as RateLimitRedis;
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    const reply = rule.algorithm === 'token-bucket'
+      ? await this.client.rateLimitTokenBucket(this.prefix + key, rule.limit, rule.windowMs)
+      : await this.client.rateLimitSlidingWindow(this.prefix + key, rule.limit, rule.windowMs);
+
+    if (!Array.isArray(reply) || reply.length !== 4) {
+      throw new Error(`Réponse Redis inattendue: ${JSON.stringify(reply)}`);
+    }
+    const [allowed, remaining, resetMs, retryAfterMs] = reply.map(Number);
+
+    return { allowed: allowed === 1, limit: rule.limit, remaining, resetMs, retryAfterMs };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+
+  async block(key: string, durationMs: number): Promise<void> {
+    await this.client.set(this.prefix + key, 'blocked', 'PX', Math.max(1, Math.ceil(durationMs)));
+  }
+
+  async blockedFor(key: string): Promise<number> {
+    // PTTL : -2 si la clé n'existe pas, -1 si elle n'expire pas
+    const ttl = await this.client.pttl(this.prefix + key);
+    return ttl > 0 ? ttl : 0;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SINGLETON
+// ═══════════════════════════════════════════════════════════════
+
+let storeInstance: RateLimitStore | null = null;
+
+/**
+ * URL : redis://[user:password@]host:port[/db], rediss:// pour TLS.
+ * Délais courts et une seule tentative par commande : si Redis ne répond
+ * pas, le limiter laisse passer plutôt que de faire attendre la requête
+ */
+function createRedisClient(url: string): Redis {
+  const client = new Redis(url, {
+    lazyConnect: true,
+    connectTimeout: 2000,
+    commandTimeout: 1000,
+    maxRetriesPerRequest: 1,
+  });
+  client.on('error', error => console.error('[RATE-LIMIT] Redis:', error.message));
+  return client;
+}
+
+/**
+ * Store configuré par l'environnement :
+ * RATE_LIMIT_STORE (memory | postgres | redis), REDIS_URL.
+ * Par défaut redis si REDIS_URL est défini, mémoire sinon
+ */
+export function createRateLimitStore(): RateLimitStore {
+  const kind = process.env.RATE_LIMIT_STORE || (process.env.REDIS_URL ? 'redis' : 'memory');
+
+  switch (kind) {
+    case 'redis':
+      if (!process.env.REDIS_URL) {
+        throw new Error('RATE_LIMIT_STORE=redis requiert REDIS_URL');
+      }
+      return new RedisRateLimitStore(createRedisClient(process.env.REDIS_URL));
+    case 'postgres':
+      return new PostgresRateLimitStore();
+    case 'memory':
+      console.warn('[RATE-LIMIT] Store en mémoire: limites propres à ce processus, remises à zéro au redémarrage');
+      return new MemoryRateLimitStore();
+    default:
+      throw new Error(`RATE_LIMIT_STORE inconnu: ${kind} (memory, postgres ou redis)`);
+  }
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!storeInstance) {
+    storeInstance = createRateLimitStore();
+  }
+  return storeInstance;
+}
@@ -0,0 +1,641 @@
+import { spawn } from 'child_process';
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Déploiement par releases sur SFTP ou SSH+rsync
+ *
+ * Disposition sur le serveur :
+ *   <releasesPath>/<id>/           contenu d'une release
+ *   <releasesPath>/releases.json   historique et empreintes SHA-256 des fichiers
+ *   <remotePath>                   lien symbolique vers la release active
+ *
+ * - Bascule atomique : nouveau lien à côté, puis rename par-dessus l'ancien
+ * - Delta : les fichiers dont l'empreinte n'a pas changé sont liés en dur
+ *   depuis la release précédente (ln en SFTP, --link-dest en rsync)
+ * - Rollback : le lien repointe vers une release conservée
+ * - Authentification par clé (avec passphrase éventuelle) ou mot de passe,
+ *   via les binaires OpenSSH (ssh, sftp) et rsync du système
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type SshProtocol = 'sftp' | 'rsync';
+
+export interface SshTarget {
+  protocol: SshProtocol;
+  host: string;
+  port?: number;
+  username: string;
+  password?: string;
+  /** Clé privée OpenSSH ou PEM */
+  privateKey?: string;
+  passphrase?: string;
+  /** Lignes known_hosts du serveur ; sans elles, sa clé est acceptée au premier contact */
+  knownHosts?: string;
+  /** Chemin servi par le serveur web, remplacé par un lien symbolique */
+  remotePath: string;
+  /** Par défaut <remotePath>-releases */
+  releasesPath?: string;
+  /** Releases conservées pour le rollback (5 par défaut) */
+  keepReleases?: number;
+}
+
+export interface DeployFile {
+  path: string;
+  content: string;
+}
+
+export interface ReleaseRecord {
+  id: string;
+  createdAt: string;
+  /** Chemin relatif -> SHA-256 du contenu */
+  files: Record<string, string>;
+  uploaded: number;
+  reused: number;
+}
+
+export interface ReleaseState {
+  current: string | null;
+  releases: ReleaseRecord[];
+}
+
+export interface DeployReleaseResult {
+  releaseId: string;
+  previousReleaseId: string | null;
+  uploaded: string[];
+  reused: string[];
+  removedReleases: string[];
+  remotePath: string;
+  releasesPath: string;
+}
+
+export interface RollbackResult {
+  releaseId: string;
+  previousReleaseId: string;
+}
+
+/**
+ * Erreur présentable à l'utilisateur (message en clair, sans secret)
+ */
+export class DeployError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeployError';
+  }
+}
+
+interface CommandResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+interface ReleaseLayout {
+  remotePath: string;
+  releasesPath: string;
+  statePath: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// UTILITAIRES
+// ═══════════════════════════════════════════════════════════════
+
+const DEFAULT_KEEP_RELEASES = 5;
+const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Échappement pour sh : '...' avec les apostrophes fermées puis rouvertes
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Échappement pour les commandes sftp, qui appliquent aussi le globbing
+function sftpQuote(value: string): string {
+  return `"${value.replace(/["\\*?[\]]/g, '\\$&')}"`;
+}
+
+function hasControlCharacters(value: string): boolean {
+  return [...value].some(char => char.charCodeAt(0) < 0x20);
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+function newReleaseId(): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Chemin relatif sûr : ni absolu, ni remontée, ni caractère de contrôle
+ */
+function normalizeFilePath(filePath: string): string {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^(\.\/)+|^\/+/, '');
+  if (!normalized || normalized === '.' || normalized.startsWith('../') || normalized === '..' || hasControlCharacters(normalized)) {
+    throw new DeployError(`Chemin de fichier invalide: ${filePath}`);
+  }
+  return normalized;
+}
+
+function resolveLayout(target: SshTarget): ReleaseLayout {
+  const remotePath = target.remotePath.replace(/\/+$/, '');
+  const releasesPath = (target.releasesPath || `${remotePath}-releases`).replace(/\/+$/, '');
+
+  if (!remotePath || hasControlCharacters(remotePath + releasesPath)) {
+    throw new DeployError('Chemin distant invalide');
+  }
+  // Le lien est relatif : les deux chemins doivent partir de la même racine
+  if (remotePath.startsWith('/') !== releasesPath.startsWith('/')) {
+    throw new DeployError('remotePath et releasesPath doivent être tous deux absolus ou tous deux relatifs');
+  }
+
+  return { remotePath, releasesPath, statePath: `${releasesPath}/releases.json` };
+}
+
+// Cible du lien symbolique, relative au dossier qui contient remotePath
+function linkTarget(layout: ReleaseLayout, releaseId: string): string {
+  return path.posix.relative(
+    path.posix.dirname(`/${layout.remotePath}`),
+    `/${layout.releasesPath}/${releaseId}`
+  );
+}
+
+// Dossiers parents de chaque fichier, du moins profond au plus profond
+function parentDirectories(files: string[]): string[] {
+  const dirs = new Set<string>();
+  for (const file of files) {
+    let dir = path.posix.dirname(file);
+    while (dir !== '.') {
+      dirs.add(dir);
+      dir = path.posix.dirname(dir);
+    }
+  }
+  return [...dirs].sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+}
+
+function run(
+  command: string,
+  args: string[],
+  options: { env?: NodeJS.ProcessEnv; input?: string; timeoutMs?: number } = {}
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { env: options.env, stdio: ['pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+
+    const timer = setTimeout(() => child.kill('SIGKILL'), options.timeoutMs ?? COMMAND_TIMEOUT_MS);
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new DeployError(`${command} indisponible sur le serveur Inopay: ${error.message}`));
+    });
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      resolve({ code: code ?? (signal ? 124 : 1), stdout, stderr });
+    });
+
+    child.stdin.end(options.input ?? '');
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SESSION SSH
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Répertoire temporaire (clé, known_hosts, askpass, fichiers à envoyer)
+ * et options communes à ssh, sftp et rsync. Les secrets ne passent
+ * jamais en argument de commande
+ */
+class SshSession {
+  private constructor(readonly target: SshTarget, readonly dir: string) {}
+
+  static async open(target: SshTarget): Promise<SshSession> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'inopay-ssh-'));
+    await fs.chmod(dir, 0o700);
+    const session = new SshSession(target, dir);
+
+    try {
+      if (target.privateKey) {
+        const key = target.privateKey.replace(/\r\n/g, '\n').trim() + '\n';
+        await fs.writeFile(session.file('id_key'), key, { mode: 0o600 });
+      }
+      await fs.writeFile(session.file('known_hosts'), target.knownHosts ? target.knownHosts.trim() + '\n' : '', { mode: 0o600 });
+
+      // ssh demande mot de passe et passphrase via SSH_ASKPASS (pas de terminal)
+      await fs.writeFile(
+        session.file('askpass'),
+        '#!/bin/sh\ncase "$1" in\n  *assphrase*) printf \'%s\\n\' "$INOPAY_SSH_PASSPHRASE" ;;\n  *) printf \'%s\\n\' "$INOPAY_SSH_PASSWORD" ;;\nesac\n',
+        { mode: 0o700 }
+      );
+    } catch (error) {
+      await session.dispose();
+      throw error;
+    }
+
+    if (!target.knownHosts) {
+      console.warn(`[DEPLOY-SSH] No known_hosts provided for ${target.host.substring(0, 3)}***, trusting the host key on first use`);
+    }
+    return session;
+  }
+
+  file(name: string): string {
+    return path.join(this.dir, name);
+  }
+
+  get destination(): string {
+    return `${this.target.username}@${this.target.host}`;
+  }
+
+  options(): string[] {
+    const options = [
+      '-o', `Port=${this.target.port || 22}`,
+      '-o', `UserKnownHostsFile=${this.file('known_hosts')}`,
+      '-o', `StrictHostKeyChecking=${this.target.knownHosts ? 'yes' : 'accept-new'}`,
+      '-o', 'ConnectTimeout=15',
+      '-o', 'ServerAliveInterval=15',
+      '-o', 'ServerAliveCountMax=4',
+      '-o', 'NumberOfPasswordPrompts=1',
+    ];
+
+    if (this.target.privateKey) {
+      options.push('-o', 'IdentitiesOnly=yes', '-i', this.file('id_key'));
+    }
+    options.push('-o', `PreferredAuthentications=${[
+      ...(this.target.privateKey ? ['publickey'] : []),
+      ...(this.target.password ? ['password', 'keyboard-interactive'] : []),
+    ].join(',')}`);
+
+    return options;
+  }
+
+  env(): NodeJS.ProcessEnv {
+    return {
+      PATH: process.env.PATH,
+      HOME: this.dir,
+      SSH_ASKPASS: this.file('askpass'),
+      SSH_ASKPASS_REQUIRE: 'force',
+      DISPLAY: 'inopay',
+      INOPAY_SSH_PASSWORD: this.target.password ?? '',
+      INOPAY_SSH_PASSPHRASE: this.target.passphrase ?? '',
+    };
+  }
+
+  /**
+   * Exécute un script sh sur le serveur
+   */
+  async exec(script: string, input?: string): Promise<CommandResult> {
+    return run('ssh', [...this.options(), '-T', this.destination, script], { env: this.env(), input });
+  }
+
+  /**
+   * Exécute des commandes sftp ; une commande préfixée par - peut échouer
+   */
+  async sftp(commands: string[]): Promise<CommandResult> {
+    const batch = this.file(`batch-${randomBytes(4).toString('hex')}`);
+    await fs.writeFile(batch, commands.join('\n') + '\n');
+
+    // -b active BatchMode (pas de mot de passe) : BatchMode=no doit précéder -b
+    return run('sftp', ['-o', 'BatchMode=no', ...this.options(), '-b', batch, this.destination], { env: this.env() });
+  }
+
+  async rsync(localDir: string, remoteDir: string, linkDest?: string): Promise<CommandResult> {
+    const remoteShell = ['ssh', ...this.options()].map(shellQuote).join(' ');
+    return run('rsync', [
+      '--recursive', '--links', '--perms', '--times', '--checksum', '--delete',
+      ...(linkDest ? [`--link-dest=${linkDest}`] : []),
+      '-e', remoteShell,
+      `${localDir}/`,
+      `${this.destination}:${remoteDir}/`,
+    ], { env: this.env() });
+  }
+
+  async dispose(): Promise<void> {
+    await fs.rm(this.dir, { recursive: true, force: true });
+  }
+}
+
+function ensureSuccess(result: CommandResult, action: string): CommandResult {
+  if (result.code !== 0) {
+    const reason = result.stderr.trim().split('\n').filter(Boolean).slice(-3).join(' | ');
+    throw new DeployError(`${action} a échoué${reason ? `: ${reason}` : ` (code ${result.code})`}`);
+  }
+  return result;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ÉTAT DES RELEASES
+// ═══════════════════════════════════════════════════════════════
+
+async function readState(session: SshSession, layout: ReleaseLayout): Promise<ReleaseState | null> {
+  let raw: string;
+
+  if (session.target.protocol === 'rsync') {
+    const result = ensureSuccess(
+      await session.exec(`if [ -f ${shellQuote(layout.statePath)} ]; then cat ${shellQuote(layout.statePath)}; fi`),
+      'Lecture de releases.json'
+    );
+    raw = result.stdout;
+  } else {
+    const local = session.file('releases.json');
+    ensureSuccess(await session.sftp([`-get ${sftpQuote(layout.statePath)} ${sftpQuote(local)}`]), 'Lecture de releases.json');
+    raw = await fs.readFile(local, 'utf8').catch(() => '');
+  }
+
+  if (!raw.trim()) return null;
+  try {
+    const state = JSON.parse(raw) as ReleaseState;
+    return Array.isArray(state.releases) ? state : null;
+  } catch {
+    throw new DeployError(`${layout.statePath} est illisible, corrigez-le ou supprimez-le`);
+  }
+}
+
+async function writeState(session: SshSession, layout: ReleaseLayout, state: ReleaseState): Promise<void> {
+  const content = JSON.stringify(state, null, 2) + '\n';
+  const temp = `${layout.statePath}.tmp`;
+
+  if (session.target.protocol === 'rsync') {
+    ensureSuccess(
+      await session.exec(`cat > ${shellQuote(temp)} && mv -f ${shellQuote(temp)} ${shellQuote(layout.statePath)}`, content),
+      'Écriture de releases.json'
+    );
+    return;
+  }
+
+  const local = session.file('releases.json.new');
+  await fs.writeFile(local, content);
+  ensureSuccess(
+    await session.sftp([`put ${sftpQuote(local)} ${sftpQuote(temp)}`, `rename ${sftpQuote(temp)} ${sftpQuote(layout.statePath)}`]),
+    'Écriture de releases.json'
+  );
+}
+
+/**
+ * Remplace le lien $2 par le lien $1 en un seul rename(2). `mv -f` seul
+ * suivrait $2 (lien vers un dossier) et déplacerait $1 dedans : il faut
+ * mv -T (GNU coreutils, BusyBox) ou mv -h (BSD, macOS), sinon perl ou python3
+ */
+const SWAP_LINK_FUNCTION = [
+  'swap_link() {',
+  '  mv -fT "$1" "$2" 2>/dev/null && return 0',
+  '  mv -fh "$1" "$2" 2>/dev/null && return 0',
+  '  perl -e \'rename($ARGV[0], $ARGV[1]) or exit 1\' "$1" "$2" 2>/dev/null && return 0',
+  '  python3 -c \'import os, sys; os.replace(sys.argv[1], sys.argv[2])\' "$1" "$2" 2>/dev/null',
+  '}',
+].join('\n');
+
+/**
+ * Vérifie avant l'envoi que le serveur sait basculer un lien de façon
+ * atomique (voir SWAP_LINK_FUNCTION), sur des liens de test dans releasesPath
+ */
+async function checkLinkSwap(session: SshSession, layout: ReleaseLayout): Promise<void> {
+  const probe = shellQuote(`${layout.releasesPath}/.swap-probe`);
+  const result = await session.exec([
+    SWAP_LINK_FUNCTION,
+    `rm -rf ${probe} && mkdir -p ${probe}/old ${probe}/new && touch ${probe}/new/marker`,
+    `ln -s old ${probe}/current && ln -s new ${probe}/next`,
+    `swap_link ${probe}/next ${probe}/current && [ -L ${probe}/current ] && [ -e ${probe}/current/marker ] && [ ! -e ${probe}/old/next ]`,
+    'status=$?',
+    `rm -rf ${probe}`,
+    'exit $status',
+  ].join('\n'));
+  if (result.code !== 0) {
+    throw new DeployError('Bascule atomique du lien impossible sur le serveur: mv -T (GNU, BusyBox), mv -h (BSD), perl ou python3 requis');
+  }
+}
+
+/**
+ * Fait pointer remotePath vers la release. Au premier déploiement, un
+ * dossier existant à cet emplacement est mis de côté (<remotePath>.pre-inopay)
+ */
+async function activate(session: SshSession, layout: ReleaseLayout, releaseId: string, firstDeploy: boolean): Promise<void> {
+  const target = linkTarget(layout, releaseId);
+  const next = `${layout.remotePath}.next`;
+  const backup = `${layout.remotePath}.pre-inopay-${releaseId}`;
+
+  if (session.target.protocol === 'rsync') {
+    const remote = shellQuote(layout.remotePath);
+    ensureSuccess(await session.exec([
+      'set -e',
+      SWAP_LINK_FUNCTION,
+      `if [ -e ${remote} ] && [ ! -L ${remote} ]; then mv ${remote} ${shellQuote(backup)}; fi`,
+      `ln -sfn ${shellQuote(target)} ${shellQuote(next)}`,
+      `swap_link ${shellQuote(next)} ${remote}`,
+    ].join('\n')), 'Activation de la release');
+    return;
+  }
+
+  // rename passe par posix-rename@openssh.com et remplace le lien existant
+  ensureSuccess(await session.sftp([
+    ...(firstDeploy ? [`-rename ${sftpQuote(layout.remotePath)} ${sftpQuote(backup)}`] : []),
+    `-rm ${sftpQuote(next)}`,
+    `ln -s ${sftpQuote(target)} ${sftpQuote(next)}`,
+    `rename ${sftpQuote(next)} ${sftpQuote(layout.remotePath)}`,
+  ]), 'Activation de la release');
+}
+
+async function removeRelease(session: SshSession, layout: ReleaseLayout, release: ReleaseRecord): Promise<void> {
+  const releaseDir = `${layout.releasesPath}/${release.id}`;
+
+  if (session.target.protocol === 'rsync') {
+    ensureSuccess(await session.exec(`rm -rf ${shellQuote(releaseDir)}`), `Suppression de la release ${release.id}`);
+    return;
+  }
+
+  // Pas de suppression récursive en SFTP : fichiers puis dossiers, du plus profond au moins profond
+  const files = Object.keys(release.files);
+  ensureSuccess(await session.sftp([
+    ...files.map(file => `-rm ${sftpQuote(`${releaseDir}/${file}`)}`),
+    ...parentDirectories(files).reverse().map(dir => `-rmdir ${sftpQuote(`${releaseDir}/${dir}`)}`),
+    `-rmdir ${sftpQuote(releaseDir)}`,
+  ]), `Suppression de la release ${release.id}`);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ENVOI
+// ═══════════════════════════════════════════════════════════════
+
+async function uploadWithSftp(
+  session: SshSession,
+  layout: ReleaseLayout,
+  stagingDir: string,
+  releaseId: string,
+  previous: ReleaseRecord | null,
+  changed: string[],
+  unchanged: string[]
+): Promise<boolean> {
+  const releaseDir = `${layout.releasesPath}/${releaseId}`;
+  const batch = (linked: string[], uploaded: string[]) => [
+    `-mkdir ${sftpQuote(layout.releasesPath)}`,
+    `-mkdir ${sftpQuote(releaseDir)}`,
+    ...parentDirectories([...linked, ...uploaded]).map(dir => `-mkdir ${sftpQuote(`${releaseDir}/${dir}`)}`),
+    ...linked.map(file => `ln ${sftpQuote(`${layout.releasesPath}/${previous?.id}/${file}`)} ${sftpQuote(`${releaseDir}/${file}`)}`),
+    ...uploaded.map(file => `put ${sftpQuote(path.join(stagingDir, file))} ${sftpQuote(`${releaseDir}/${file}`)}`),
+  ];
+
+  const result = await session.sftp(batch(unchanged, changed));
+  if (result.code === 0) return true;
+  if (unchanged.length === 0) ensureSuccess(result, 'Envoi SFTP');
+
+  // Serveur sans hardlink@openssh.com (ou release précédente altérée) : tout envoyer
+  console.warn('[DEPLOY-SSH] Hard links unavailable, uploading every file:', result.stderr.trim().split('\n').pop());
+  ensureSuccess(await session.sftp(batch([], [...unchanged, ...changed])), 'Envoi SFTP');
+  return false;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// API
+// ═══════════════════════════════════════════════════════════════
+
+function validateTarget(target: SshTarget): void {
+  if (!target.host || !target.username) {
+    throw new DeployError('Informations de connexion incomplètes');
+  }
+  if (!target.privateKey && !target.password) {
+    throw new DeployError('Clé privée ou mot de passe requis pour SFTP/SSH');
+  }
+  if (target.host.startsWith('-') || target.username.startsWith('-') || /[\s@]/.test(target.host)) {
+    throw new DeployError('Hôte ou utilisateur invalide');
+  }
+}
+
+async function withSession<T>(target: SshTarget, action: (session: SshSession, layout: ReleaseLayout) => Promise<T>): Promise<T> {
+  validateTarget(target);
+  const layout = resolveLayout(target);
+  const session = await SshSession.open(target);
+  try {
+    return await action(session, layout);
+  } finally {
+    await session.dispose();
+  }
+}
+
+/**
+ * Envoie une nouvelle release, l'active et purge les plus anciennes
+ */
+export async function deployRelease(target: SshTarget, files: DeployFile[]): Promise<DeployReleaseResult> {
+  const staged = files.map(file => ({ path: normalizeFilePath(file.path), content: file.content }));
+  if (new Set(staged.map(file => file.path)).size !== staged.length) {
+    throw new DeployError('Chemins de fichiers en double');
+  }
+
+  return withSession(target, async (session, layout) => {
+    const state = (await readState(session, layout)) ?? { current: null, releases: [] };
+    const previous = state.releases.find(release => release.id === state.current) ?? null;
+    const releaseId = newReleaseId();
+
+    // Fichiers à envoyer, écrits localement
+    const stagingDir = session.file('release');
+    const manifest: Record<string, string> = {};
+    for (const file of staged) {
+      const local = path.join(stagingDir, file.path);
+      await fs.mkdir(path.dirname(local), { recursive: true });
+      await fs.writeFile(local, file.content, 'utf8');
+      manifest[file.path] = sha256(file.content);
+    }
+
+    let unchanged = staged.map(file => file.path).filter(file => previous?.files[file] === manifest[file]);
+    let changed = staged.map(file => file.path).filter(file => previous?.files[file] !== manifest[file]);
+
+    console.log(`[DEPLOY-SSH] Release ${releaseId}: ${changed.length} to upload, ${unchanged.length} unchanged`);
+
+    if (target.protocol === 'rsync') {
+      ensureSuccess(await session.exec(`mkdir -p ${shellQuote(layout.releasesPath)}`), 'Création du dossier des releases');
+      await checkLinkSwap(session, layout);
+      // --link-dest est relatif à la release cible
+      ensureSuccess(
+        await session.rsync(stagingDir, `${layout.releasesPath}/${releaseId}`, previous ? `../${previous.id}` : undefined),
+        'Synchronisation rsync'
+      );
+    } else if (!(await uploadWithSftp(session, layout, stagingDir, releaseId, previous, changed, unchanged))) {
+      changed = [...unchanged, ...changed];
+      unchanged = [];
+    }
+
+    await activate(session, layout, releaseId, state.releases.length === 0);
+
+    state.releases.push({
+      id: releaseId,
+      createdAt: new Date().toISOString(),
+      files: manifest,
+      uploaded: changed.length,
+      reused: unchanged.length,
+    });
+    state.current = releaseId;
+
+    // La release active et la précédente sont toujours conservées
+    const keep = Math.max(2, target.keepReleases ?? DEFAULT_KEEP_RELEASES);
+    const expired = state.releases
+      .filter(release => release.id !== releaseId && release.id !== previous?.id)
+      .slice(0, Math.max(0, state.releases.length - keep));
+    const removedReleases: string[] = [];
+    for (const release of expired) {
+      try {
+        await removeRelease(session, layout, release);
+        removedReleases.push(release.id);
+      } catch (error) {
+        console.error(`[DEPLOY-SSH] Failed to remove release ${release.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    state.releases = state.releases.filter(release => !removedReleases.includes(release.id));
+
+    await writeState(session, layout, state);
+
+    return {
+      releaseId,
+      previousReleaseId: previous?.id ?? null,
+      uploaded: changed,
+      reused: unchanged,
+      removedReleases,
+      remotePath: layout.remotePath,
+      releasesPath: layout.releasesPath,
+    };
+  });
+}
+
+/**
+ * Réactive une release conservée : la précédente par défaut
+ */
+export async function rollbackRelease(target: SshTarget, releaseId?: string): Promise<RollbackResult> {
+  return withSession(target, async (session, layout) => {
+    const state = await readState(session, layout);
+    if (!state?.current) {
+      throw new DeployError('Aucune release déployée sur ce serveur');
+    }
+
+    const currentIndex = state.releases.findIndex(release => release.id === state.current);
+    const release = releaseId
+      ? state.releases.find(candidate => candidate.id === releaseId)
+      : state.releases[currentIndex - 1];
+
+    if (!release) {
+      throw new DeployError(releaseId ? `Release introuvable: ${releaseId}` : 'Aucune release précédente disponible');
+    }
+    if (release.id === state.current) {
+      throw new DeployError(`La release ${release.id} est déjà active`);
+    }
+
+    await activate(session, layout, release.id, false);
+
+    const previousReleaseId = state.current;
+    state.current = release.id;
+    await writeState(session, layout, state);
+
+    console.log(`[DEPLOY-SSH] Rolled back from ${previousReleaseId} to ${release.id}`);
+    return { releaseId: release.id, previousReleaseId };
+  });
+}
+
+/**
+ * Releases conservées sur le serveur, de la plus ancienne à la plus récente
+ */
+export async function listReleases(target: SshTarget): Promise<ReleaseState> {
+  return withSession(target, async (session, layout) => (await readState(session, layout)) ?? { current: null, releases: [] });
+}
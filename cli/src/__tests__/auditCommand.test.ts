@@ -0,0 +1,94 @@
+/**
+ * Tests de bout en bout de `inopay audit` : le seuil --fail-on décide seul
+ * du code de sortie, quel que soit le format de sortie
+ */
+
+import { spawnSync } from 'child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, relative } from 'path';
+import { fileURLToPath } from 'url';
+
+const CLI_ROOT = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+const TSX = join(CLI_ROOT, 'node_modules', '.bin', 'tsx');
+
+// Projets de test : aucun problème, un problème mineur seulement
+const fixtures: Record<string, Record<string, string>> = {
+  clean: {
+    'src/App.tsx': 'export const App = () => <div className="app">Hello</div>;\n',
+  },
+  minorOnly: {
+    'src/Card.tsx': 'export const Card = () => <div data-lov-id="card-1" className="card" />;\n',
+  },
+};
+
+function createProject(files: Record<string, string>): string {
+  const root = mkdtempSync(join(tmpdir(), 'inopay-audit-'));
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  }
+  return root;
+}
+
+function audit(project: string, args: string[]): { status: number | null; output: string } {
+  const result = spawnSync(TSX, ['src/index.ts', 'audit', relative(CLI_ROOT, project), '--no-cache', ...args], {
+    cwd: CLI_ROOT,
+    encoding: 'utf-8',
+    env: { ...process.env, FORCE_COLOR: '0' },
+    timeout: 60_000,
+  });
+  return { status: result.status, output: `${result.stdout}${result.stderr}` };
+}
+
+export function runAuditCommandTests(): { passed: number; failed: number; results: string[] } {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  const clean = createProject(fixtures.clean);
+  const minorOnly = createProject(fixtures.minorOnly);
+
+  try {
+    // Test 1: Sans --fail-on, un projet propre ne fait pas échouer la CI
+    const plain = audit(clean, []);
+    check('Text audit without --fail-on exits 0', plain.status === 0, plain.output);
+
+    // Test 2: Problèmes sous le seuil en format texte
+    const belowThreshold = audit(minorOnly, ['--fail-on', 'critical']);
+    check('Text audit below the threshold exits 0', belowThreshold.status === 0, belowThreshold.output);
+
+    // Test 3: Seuil atteint en format texte
+    const atThreshold = audit(minorOnly, ['--fail-on', 'minor']);
+    check(
+      'Text audit at the threshold exits 1',
+      atThreshold.status === 1 && atThreshold.output.includes('--fail-on minor'),
+      atThreshold.output
+    );
+
+    // Test 4: Même décision en JSON
+    const json = audit(minorOnly, ['--format', 'json', '--fail-on', 'critical']);
+    check('JSON audit below the threshold exits 0', json.status === 0, json.output);
+  } finally {
+    rmSync(clean, { recursive: true, force: true });
+    rmSync(minorOnly, { recursive: true, force: true });
+  }
+
+  // Log results
+  console.log('\n=== AUDIT COMMAND TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('===========================\n');
+
+  return { passed, failed, results };
+}
@@ -0,0 +1,171 @@
+/**
+ * INOPAY CLI - Cache de scan incrémental
+ * ======================================
+ * Les résultats sont indexés par empreinte du contenu (sha256) et par version du jeu de patterns.
+ * Un fichier dont la taille et la date de modification n'ont pas changé n'est même pas relu.
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { RULES_VERSION } from './rules.js';
+import type { ScanIssue, SovereigntyRule } from './types.js';
+
+export const CACHE_DIR = '.inopay';
+
+const CACHE_FILE = join(CACHE_DIR, 'cache', 'scan.json');
+const CACHE_FORMAT = 2;
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface FileScanResult {
+  lines: number;
+  issues: Omit<ScanIssue, 'file'>[];
+}
+
+interface PathEntry {
+  hash: string;
+  size: number;
+  mtimeMs: number;
+}
+
+interface CacheFile {
+  format: number;
+  patternsKey: string;
+  paths: Record<string, PathEntry>;
+  results: Record<string, FileScanResult>;
+}
+
+export interface CacheStats {
+  /** Fichiers inchangés (taille + mtime), non relus */
+  unchanged: number;
+  /** Fichiers relus dont le contenu était déjà connu */
+  hashHits: number;
+  /** Fichiers réellement ré-analysés */
+  scanned: number;
+  /** Cache invalidé (patterns ou version modifiés) */
+  invalidated: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EMPREINTES
+// ═══════════════════════════════════════════════════════════════
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Version du jeu de patterns: toute modification (config, règles, registre, version CLI) invalide le cache
+ */
+export function patternsKey(patterns: SovereigntyRule[], version: string): string {
+  const signature = patterns.map(p => [
+    p.id,
+    p.name,
+    p.matcher.kind === 'regex' ? `/${p.matcher.pattern.source}/${p.matcher.pattern.flags}` : p.matcher.kind,
+    p.files?.source ?? null,
+    p.severity,
+    p.suggestion,
+    p.fix.kind,
+  ]);
+  return hashContent(JSON.stringify({ version, rules: RULES_VERSION, signature }));
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CACHE
+// ═══════════════════════════════════════════════════════════════
+
+export class ScanCache {
+  readonly stats: CacheStats = { unchanged: 0, hashHits: 0, scanned: 0, invalidated: false };
+
+  private readonly filePath: string;
+  private readonly data: CacheFile;
+  private readonly seen = new Set<string>();
+
+  private constructor(projectPath: string, key: string) {
+    this.filePath = join(projectPath, CACHE_FILE);
+
+    const empty: CacheFile = { format: CACHE_FORMAT, patternsKey: key, paths: {}, results: {} };
+    let loaded: CacheFile | null = null;
+
+    if (existsSync(this.filePath)) {
+      try {
+        loaded = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      } catch (e) {
+        // Cache corrompu: on repart de zéro
+      }
+    }
+
+    if (loaded && loaded.format === CACHE_FORMAT && loaded.patternsKey === key) {
+      this.data = loaded;
+    } else {
+      this.data = empty;
+      this.stats.invalidated = loaded !== null;
+    }
+  }
+
+  static load(projectPath: string, patterns: SovereigntyRule[], version: string): ScanCache {
+    return new ScanCache(projectPath, patternsKey(patterns, version));
+  }
+
+  /**
+   * Résultat connu pour un chemin dont la taille et le mtime n'ont pas bougé
+   */
+  lookupByStat(relativePath: string, stat: { size: number; mtimeMs: number }): FileScanResult | undefined {
+    const entry = this.data.paths[relativePath];
+    if (!entry || entry.size !== stat.size || entry.mtimeMs !== stat.mtimeMs) return undefined;
+
+    const result = this.data.results[entry.hash];
+    if (!result) return undefined;
+
+    this.seen.add(relativePath);
+    this.stats.unchanged++;
+    return result;
+  }
+
+  /**
+   * Résultat connu pour un contenu déjà analysé (fichier touché mais identique, ou copie)
+   */
+  lookupByHash(hash: string): FileScanResult | undefined {
+    const result = this.data.results[hash];
+    if (result) this.stats.hashHits++;
+    return result;
+  }
+
+  store(relativePath: string, stat: { size: number; mtimeMs: number }, hash: string, result: FileScanResult, scanned: boolean) {
+    this.seen.add(relativePath);
+    this.data.paths[relativePath] = { hash, size: stat.size, mtimeMs: stat.mtimeMs };
+    this.data.results[hash] = result;
+    if (scanned) this.stats.scanned++;
+  }
+
+  /**
+   * Écrit le cache sur disque en ne gardant que les fichiers vus lors de ce scan
+   */
+  save() {
+    const paths: Record<string, PathEntry> = {};
+    const results: Record<string, FileScanResult> = {};
+
+    for (const path of this.seen) {
+      const entry = this.data.paths[path];
+      if (!entry) continue;
+      paths[path] = entry;
+      results[entry.hash] = this.data.results[entry.hash];
+    }
+
+    const payload: CacheFile = { ...this.data, paths, results };
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify(payload));
+      renameSync(tmpPath, this.filePath);
+    } catch (e) {
+      // Dossier en lecture seule: le cache reste un simple accélérateur
+    }
+  }
+}
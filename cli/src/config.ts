@@ -0,0 +1,222 @@
+/**
+ * INOPAY CLI - Configuration projet
+ * =================================
+ * Chargement et validation de inopay.config.json
+ *
+ * Exemple:
+ * {
+ *   "include": ["src/**"],
+ *   "exclude": ["vendor/**", "**\/*.generated.ts"],
+ *   "patterns": [
+ *     { "name": "acme-sdk", "pattern": "@acme\\/sdk", "severity": "major", "suggestion": "Remplacer par fetch()" }
+ *   ],
+ *   "rules": { "pattern-usage": "off", "lovable-tagger": "minor" }
+ * }
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve, relative, isAbsolute } from 'path';
+import { minimatch } from 'minimatch';
+import type { Severity, SovereigntyRule } from './types.js';
+
+export const CONFIG_FILENAME = 'inopay.config.json';
+
+/** Commentaire de suppression: ignore les détections de la ligne suivante */
+export const IGNORE_NEXT_LINE = 'inopay-ignore-next-line';
+
+const SEVERITIES: Severity[] = ['critical', 'major', 'minor'];
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface CustomPatternConfig {
+  name: string;
+  pattern: string;
+  flags?: string;
+  severity: Severity;
+  suggestion?: string;
+}
+
+export type RuleSetting = Severity | 'off';
+
+export interface InopayConfigFile {
+  include?: string[];
+  exclude?: string[];
+  patterns?: CustomPatternConfig[];
+  rules?: Record<string, RuleSetting>;
+  [key: string]: unknown;
+}
+
+export interface ResolvedConfig {
+  /** Chemin du fichier chargé (null = configuration par défaut) */
+  path: string | null;
+  include: string[];
+  exclude: string[];
+  patterns: SovereigntyRule[];
+  /** Contenu brut, conservé pour la phase de reconstruction */
+  raw: InopayConfigFile;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string, public readonly configPath: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════
+
+function assertStringArray(value: unknown, key: string, configPath: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    throw new ConfigError(`"${key}" doit être un tableau de globs`, configPath);
+  }
+  return value;
+}
+
+function compileCustomPattern(def: unknown, index: number, configPath: string): SovereigntyRule {
+  const where = `patterns[${index}]`;
+
+  if (typeof def !== 'object' || def === null) {
+    throw new ConfigError(`${where} doit être un objet`, configPath);
+  }
+
+  const { name, pattern, flags, severity, suggestion } = def as Partial<CustomPatternConfig>;
+
+  if (typeof name !== 'string' || !name) {
+    throw new ConfigError(`${where}.name est requis`, configPath);
+  }
+  if (typeof pattern !== 'string' || !pattern) {
+    throw new ConfigError(`${where}.pattern est requis`, configPath);
+  }
+  if (!severity || !SEVERITIES.includes(severity)) {
+    throw new ConfigError(`${where}.severity doit valoir ${SEVERITIES.join(', ')}`, configPath);
+  }
+
+  // Le scanner itère les correspondances avec exec(): le drapeau "g" est obligatoire
+  const normalizedFlags = Array.from(new Set(((flags ?? '') + 'g').split(''))).join('');
+
+  let compiled: RegExp;
+  try {
+    compiled = new RegExp(pattern, normalizedFlags);
+  } catch (e) {
+    throw new ConfigError(`${where}.pattern invalide: ${(e as Error).message}`, configPath);
+  }
+
+  return {
+    id: `custom-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')}`,
+    name,
+    severity,
+    category: 'custom',
+    suggestion: suggestion ?? 'Pattern personnalisé (inopay.config.json)',
+    matcher: { kind: 'regex', pattern: compiled },
+    fix: { kind: 'remove' },
+  };
+}
+
+function validateRules(value: unknown, configPath: string): Record<string, RuleSetting> {
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ConfigError('"rules" doit être un objet { idOuNomDeRègle: "off" | sévérité }', configPath);
+  }
+
+  for (const [name, setting] of Object.entries(value)) {
+    if (setting !== 'off' && !SEVERITIES.includes(setting as Severity)) {
+      throw new ConfigError(`rules["${name}"] doit valoir off, ${SEVERITIES.join(', ')}`, configPath);
+    }
+  }
+
+  return value as Record<string, RuleSetting>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CHARGEMENT
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Charge la configuration du projet et fusionne les patterns intégrés avec les patterns personnalisés
+ */
+export function loadConfig(projectPath: string, builtins: SovereigntyRule[], explicitPath?: string): ResolvedConfig {
+  const configPath = explicitPath ? resolve(explicitPath) : join(projectPath, CONFIG_FILENAME);
+
+  if (!existsSync(configPath)) {
+    if (explicitPath) {
+      throw new ConfigError('Fichier de configuration introuvable', configPath);
+    }
+    return { path: null, include: [], exclude: [], patterns: builtins, raw: {} };
+  }
+
+  let raw: InopayConfigFile;
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+  } catch (e) {
+    throw new ConfigError(`JSON invalide: ${(e as Error).message}`, configPath);
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigError('La configuration doit être un objet JSON', configPath);
+  }
+
+  const include = assertStringArray(raw.include, 'include', configPath);
+  const exclude = assertStringArray(raw.exclude, 'exclude', configPath);
+  const rules = validateRules(raw.rules, configPath);
+
+  if (raw.patterns !== undefined && !Array.isArray(raw.patterns)) {
+    throw new ConfigError('"patterns" doit être un tableau', configPath);
+  }
+  const custom = (raw.patterns ?? []).map((def, i) => compileCustomPattern(def, i, configPath));
+
+  // Les règles se désactivent ou se reclassent par identifiant (registre) ou par nom affiché
+  const patterns: SovereigntyRule[] = [];
+  for (const def of [...builtins, ...custom]) {
+    const setting = rules[def.id] ?? rules[def.name];
+    if (setting === 'off') continue;
+    patterns.push(setting ? { ...def, severity: setting } : def);
+  }
+
+  // Le fichier de configuration contient des regex: il ne doit jamais se détecter lui-même
+  const relativeConfigPath = relative(projectPath, configPath);
+  if (!relativeConfigPath.startsWith('..') && !isAbsolute(relativeConfigPath)) {
+    exclude.push(relativeConfigPath.split('\\').join('/'));
+  }
+
+  return { path: configPath, include, exclude, patterns, raw };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FILTRES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Indique si un chemin relatif (séparateurs "/") est couvert par include/exclude
+ */
+export function isPathIncluded(relativePath: string, config: ResolvedConfig): boolean {
+  const path = relativePath.split('\\').join('/');
+  const options = { dot: true };
+
+  if (config.include.length > 0 && !config.include.some(g => minimatch(path, g, options))) {
+    return false;
+  }
+
+  return !config.exclude.some(g => minimatch(path, g, options) || minimatch(path, `${g}/**`, options));
+}
+
+/**
+ * Indices (base 0) des lignes précédées d'un commentaire inopay-ignore-next-line
+ */
+export function findSuppressedLines(lines: string[]): Set<number> {
+  const suppressed = new Set<number>();
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (lines[i].includes(IGNORE_NEXT_LINE)) {
+      suppressed.add(i + 1);
+    }
+  }
+
+  return suppressed;
+}
@@ -0,0 +1,270 @@
+/**
+ * INOPAY CLI - Unified Diff
+ * =========================
+ * Génération de patchs au format unifié (compatible `git apply`)
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  line: string;
+}
+
+export interface FilePatchInput {
+  path: string;
+  /** Contenu original (null = fichier ajouté) */
+  before: string | null;
+  /** Contenu nettoyé (null = fichier supprimé) */
+  after: string | null;
+}
+
+// Marqueur interne: une dernière ligne sans "\n" ne doit pas être égale à la même ligne suivie d'un "\n"
+const NO_EOL = '\u0000<no-eol>';
+
+// ═══════════════════════════════════════════════════════════════
+// ALGORITHME DE MYERS
+// ═══════════════════════════════════════════════════════════════
+
+function splitLines(content: string): string[] {
+  if (content === '') return [];
+
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_EOL;
+  }
+  return lines;
+}
+
+/**
+ * Diff ligne à ligne (Myers O(ND)), préfixe et suffixe communs exclus du calcul
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const head: DiffOp[] = a.slice(0, prefix).map(line => ({ type: 'equal', line }));
+  const tail: DiffOp[] = a.slice(a.length - suffix).map(line => ({ type: 'equal', line }));
+
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+
+  return [...head, ...middle, ...tail];
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, offset);
+      }
+    }
+  }
+
+  return [];
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], offset: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (x === prevX) {
+      ops.push({ type: 'insert', line: b[y - 1] });
+    } else {
+      ops.push({ type: 'delete', line: a[x - 1] });
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'equal', line: a[x - 1] });
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FORMATAGE DES HUNKS
+// ═══════════════════════════════════════════════════════════════
+
+function formatLine(prefix: string, line: string): string {
+  if (line.endsWith(NO_EOL)) {
+    return `${prefix}${line.slice(0, -NO_EOL.length)}\n\\ No newline at end of file\n`;
+  }
+  return `${prefix}${line}\n`;
+}
+
+function hunkRange(start: number, count: number): string {
+  return `${count === 0 ? start : start + 1},${count}`;
+}
+
+function formatHunks(ops: DiffOp[], context: number): string {
+  const changes: number[] = [];
+  ops.forEach((op, i) => {
+    if (op.type !== 'equal') changes.push(i);
+  });
+
+  if (changes.length === 0) return '';
+
+  let output = '';
+  let c = 0;
+
+  while (c < changes.length) {
+    const start = Math.max(0, changes[c] - context);
+    let last = changes[c];
+
+    // Fusionner les changements proches dans le même hunk
+    while (c + 1 < changes.length && changes[c + 1] - last <= context * 2 + 1) {
+      c++;
+      last = changes[c];
+    }
+    c++;
+
+    const end = Math.min(ops.length, last + context + 1);
+
+    let oldBefore = 0;
+    let newBefore = 0;
+    for (let i = 0; i < start; i++) {
+      if (ops[i].type !== 'insert') oldBefore++;
+      if (ops[i].type !== 'delete') newBefore++;
+    }
+
+    let oldCount = 0;
+    let newCount = 0;
+    let body = '';
+
+    for (let i = start; i < end; i++) {
+      const op = ops[i];
+      if (op.type === 'equal') {
+        oldCount++;
+        newCount++;
+        body += formatLine(' ', op.line);
+      } else if (op.type === 'delete') {
+        oldCount++;
+        body += formatLine('-', op.line);
+      } else {
+        newCount++;
+        body += formatLine('+', op.line);
+      }
+    }
+
+    output += `@@ -${hunkRange(oldBefore, oldCount)} +${hunkRange(newBefore, newCount)} @@\n${body}`;
+  }
+
+  return output;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// API PUBLIQUE
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Opérations de diff entre deux contenus (pour un affichage côte à côte)
+ */
+export function diffContents(before: string, after: string): DiffOp[] {
+  return diffLines(splitLines(before), splitLines(after)).map(op => ({
+    type: op.type,
+    line: op.line.endsWith(NO_EOL) ? op.line.slice(0, -NO_EOL.length) : op.line,
+  }));
+}
+
+/**
+ * Génère le patch git d'un fichier (chaîne vide si aucun changement)
+ */
+export function createFilePatch(input: FilePatchInput, context: number = 3): string {
+  const { path, before, after } = input;
+
+  if (before === after) return '';
+
+  const normalizedPath = path.split('\\').join('/');
+  let header = `diff --git a/${normalizedPath} b/${normalizedPath}\n`;
+
+  if (before === null) {
+    header += `new file mode 100644\n--- /dev/null\n+++ b/${normalizedPath}\n`;
+  } else if (after === null) {
+    header += `deleted file mode 100644\n--- a/${normalizedPath}\n+++ /dev/null\n`;
+  } else {
+    header += `--- a/${normalizedPath}\n+++ b/${normalizedPath}\n`;
+  }
+
+  if ((before ?? '').includes('\u0000') || (after ?? '').includes('\u0000')) {
+    const from = before === null ? '/dev/null' : `a/${normalizedPath}`;
+    const to = after === null ? '/dev/null' : `b/${normalizedPath}`;
+    return `${header.split('\n--- ')[0]}\nBinary files ${from} and ${to} differ\n`;
+  }
+
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after ?? ''));
+  const hunks = formatHunks(ops, context);
+
+  if (hunks) return header + hunks;
+
+  // Fichier vide ajouté ou supprimé: seul l'en-tête porte l'information
+  return before === null || after === null ? `${header.split('\n--- ')[0]}\n` : '';
+}
+
+/**
+ * Compte les lignes ajoutées/supprimées d'un patch
+ */
+export function countPatchLines(patch: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('+++ ') || line.startsWith('--- ')) continue;
+    if (line.startsWith('+')) additions++;
+    else if (line.startsWith('-')) deletions++;
+  }
+
+  return { additions, deletions };
+}
@@ -11,7 +11,9 @@
  *   inopay liberate <path>  - Libération complète (scan→audit→clean→rebuild→zip→export)
  *   inopay audit <path>     - Analyse sans modifier
  *   inopay scan <path>      - Scan rapide des patterns
- *   inopay serve            - Lance le dashboard local
+ *   inopay diff <path>      - Aperçu des changements (patch unifié)
+ *   inopay watch <path>     - Ré-audit en continu à chaque modification
+ *   inopay serve [path]     - Lance le dashboard local
  */
 
 import { Command } from 'commander';
@@ -28,10 +30,27 @@ import {
   rmSync,
   copyFileSync
 } from 'fs';
-import { join, relative, dirname, basename, extname } from 'path';
-import { createWriteStream } from 'fs';
+import { join, relative, dirname, basename, extname, resolve, isAbsolute } from 'path';
+import { createWriteStream, watch, FSWatcher } from 'fs';
 import archiver from 'archiver';
 import { glob } from 'glob';
+import { createFilePatch, countPatchLines, diffContents } from './diff.js';
+import { loadConfig, isPathIncluded, findSuppressedLines, ConfigError, ResolvedConfig, InopayConfigFile, CONFIG_FILENAME } from './config.js';
+import { toSarif, toJUnit, countFailures, isSeverity, OUTPUT_FORMATS, OutputFormat } from './reporters.js';
+import { ScanCache, CACHE_DIR, hashContent, FileScanResult } from './cache.js';
+import { startDashboardServer, DashboardEngine, HttpError } from './server.js';
+import {
+  SOVEREIGNTY_RULES,
+  IGNORED_DIRECTORIES,
+  isProprietaryFile,
+  isScannableFile,
+  scanContent,
+  summarize,
+  calculateScore,
+  gradeForScore,
+  applyFixes,
+} from './rules.js';
+import type { ScanIssue, ScanResult, Severity, SovereigntyRule } from './types.js';
 
 const VERSION = '2.0.0';
 
@@ -134,90 +153,15 @@ function drawProgress(current: number, total: number, width: number = 40) {
 }
 
 // ═══════════════════════════════════════════════════════════════
-// PATTERNS DE DÉTECTION
+// PATTERNS DE DÉTECTION (registre partagé: src/lib/sovereigntyRules.ts)
 // ═══════════════════════════════════════════════════════════════
 
-interface PatternDefinition {
-  pattern: RegExp;
-  name: string;
-  severity: 'critical' | 'major' | 'minor';
-  suggestion: string;
-}
-
-const LOVABLE_PATTERNS: PatternDefinition[] = [
-  // Critical - Core proprietary
-  { pattern: /lovable\.generate\s*\(/g, name: 'lovable.generate()', severity: 'critical', suggestion: 'Remplacer par unifiedLLM.complete()' },
-  { pattern: /lovableApi\s*[.(]/g, name: 'lovableApi', severity: 'critical', suggestion: 'Utiliser API REST standard' },
-  { pattern: /getAIAssistant\s*\(/g, name: 'getAIAssistant()', severity: 'critical', suggestion: 'Remplacer par sovereignAI.createAssistant()' },
-  { pattern: /runAssistant\s*\(/g, name: 'runAssistant()', severity: 'critical', suggestion: 'Remplacer par sovereignAI.run()' },
-  { pattern: /@agent\/[a-zA-Z-]+/g, name: '@agent/* packages', severity: 'critical', suggestion: 'Supprimer et utiliser alternatives open-source' },
-  { pattern: /new\s+WebSocket\s*\([^)]*lovable/gi, name: 'Lovable WebSocket', severity: 'critical', suggestion: 'Utiliser WebSocket standard' },
-  
-  // Major - Dependencies & Imports
-  { pattern: /@lovable\/[a-zA-Z-]+/g, name: '@lovable/* packages', severity: 'major', suggestion: 'Remplacer par équivalents npm' },
-  { pattern: /lovable-tagger/g, name: 'lovable-tagger', severity: 'major', suggestion: 'Supprimer ou remplacer par solution de tagging' },
-  { pattern: /@gptengineer\/[a-zA-Z-]+/g, name: '@gptengineer/* packages', severity: 'major', suggestion: 'Supprimer les dépendances GPT Engineer' },
-  { pattern: /from\s+['"]@\/integrations\/supabase/g, name: 'Supabase auto-generated', severity: 'major', suggestion: 'Remplacer par client Supabase standard' },
-  { pattern: /EventSchema\s*[.(]/g, name: 'EventSchema', severity: 'major', suggestion: 'Utiliser Zod ou Yup pour validation' },
-  { pattern: /Pattern\.[A-Z][a-zA-Z]+/g, name: 'Pattern.*', severity: 'major', suggestion: 'Implémenter patterns localement' },
-  
-  // Major - Telemetry
-  { pattern: /fetch\s*\([^)]*lovable\.dev/gi, name: 'Lovable API fetch', severity: 'major', suggestion: 'Supprimer appels télémétrie' },
-  { pattern: /sendBeacon\s*\([^)]*lovable/gi, name: 'Lovable beacon', severity: 'major', suggestion: 'Supprimer sendBeacon' },
-  { pattern: /VITE_LOVABLE_[A-Z_]+/g, name: 'Lovable env vars', severity: 'major', suggestion: 'Utiliser variables d\'environnement propres' },
-  
-  // Minor - Annotations & Comments
-  { pattern: /\/\/\s*@lovable-/g, name: '@lovable- annotations', severity: 'minor', suggestion: 'Supprimer commentaires Lovable' },
-  { pattern: /\/\*\s*lovable:/g, name: 'Lovable block comments', severity: 'minor', suggestion: 'Supprimer commentaires' },
-  { pattern: /data-lovable-[a-z-]+/g, name: 'data-lovable-* attributes', severity: 'minor', suggestion: 'Supprimer attributs data-lovable-*' },
-  { pattern: /data-lov-id/g, name: 'data-lov-id attributes', severity: 'minor', suggestion: 'Supprimer attributs de tracking' },
-  { pattern: /class="[^"]*lov-[^"]*"/g, name: 'lov-* CSS classes', severity: 'minor', suggestion: 'Renommer classes CSS' },
-];
-
-const PROPRIETARY_FILES = [
-  'lovable.config.ts',
-  'lovable.config.js',
-  'lovable.config.json',
-  '.lovable',
-  '.lovablerc',
-  'lovable-lock.json',
-  '.agent',
-  'agent.config.ts',
-  '__lovable__',
-  '.gpt-engineer',
-  'gpt-engineer.toml',
-];
-
-const IGNORED_DIRS = ['node_modules', '.git', 'dist', 'build', '.next', '.cache', 'coverage'];
+const IGNORED_DIRS = [...IGNORED_DIRECTORIES, CACHE_DIR];
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES & INTERFACES
 // ═══════════════════════════════════════════════════════════════
 
-interface ScanIssue {
-  file: string;
-  line: number;
-  column: number;
-  pattern: string;
-  matched: string;
-  severity: 'critical' | 'major' | 'minor';
-  suggestion: string;
-}
-
-interface ScanResult {
-  issues: ScanIssue[];
-  proprietaryFiles: string[];
-  totalFiles: number;
-  totalLines: number;
-  score: number;
-  grade: string;
-  summary: {
-    critical: number;
-    major: number;
-    minor: number;
-  };
-}
-
 interface CleanResult {
   filesProcessed: number;
   filesCleaned: number;
@@ -232,6 +176,14 @@ interface CleanChange {
   details: string;
 }
 
+interface FileDiff {
+  file: string;
+  type: 'modified' | 'removed' | 'added';
+  patch: string;
+  additions: number;
+  deletions: number;
+}
+
 interface RebuildResult {
   structure: string[];
   files: Map<string, string>;
@@ -279,47 +231,50 @@ function getAllFiles(dir: string): string[] {
   return files;
 }
 
-function isTextFile(filePath: string): boolean {
-  const textExtensions = [
-    '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs',
-    '.json', '.yaml', '.yml', '.toml',
-    '.css', '.scss', '.sass', '.less',
-    '.html', '.htm', '.xml', '.svg',
-    '.md', '.mdx', '.txt', '.env',
-    '.sh', '.bash', '.zsh',
-    '.sql', '.graphql', '.gql',
-    '.vue', '.svelte', '.astro',
-  ];
-  
-  return textExtensions.includes(extname(filePath).toLowerCase());
+/**
+ * Fichiers du projet filtrés par les globs include/exclude de la configuration
+ */
+function getProjectFiles(projectPath: string, config: ResolvedConfig): string[] {
+  return getAllFiles(projectPath).filter(file => isPathIncluded(relative(projectPath, file), config));
 }
 
-function calculateScore(issues: ScanIssue[], proprietaryFiles: number): number {
-  let score = 100;
-  
-  for (const issue of issues) {
-    if (issue.severity === 'critical') score -= 10;
-    else if (issue.severity === 'major') score -= 5;
-    else score -= 1;
+/**
+ * Charge inopay.config.json (ou --config) et quitte proprement si la configuration est invalide
+ */
+function loadProjectConfig(projectPath: string, configPath?: string): ResolvedConfig {
+  try {
+    return loadConfig(projectPath, SOVEREIGNTY_RULES, configPath);
+  } catch (e) {
+    if (e instanceof ConfigError) {
+      console.log(styles.error(`\n  ❌ Configuration invalide (${e.configPath}): ${e.message}\n`));
+      process.exit(1);
+    }
+    throw e;
   }
-  
-  score -= proprietaryFiles * 15;
-  
-  return Math.max(0, Math.min(100, score));
 }
 
-function getGrade(score: number): string {
-  if (score >= 95) return 'A+';
-  if (score >= 90) return 'A';
-  if (score >= 85) return 'A-';
-  if (score >= 80) return 'B+';
-  if (score >= 75) return 'B';
-  if (score >= 70) return 'B-';
-  if (score >= 65) return 'C+';
-  if (score >= 60) return 'C';
-  if (score >= 55) return 'C-';
-  if (score >= 50) return 'D';
-  return 'F';
+/**
+ * Ouvre le cache de scan du projet (undefined avec --no-cache)
+ */
+function openScanCache(projectPath: string, config: ResolvedConfig, enabled: boolean): ScanCache | undefined {
+  return enabled ? ScanCache.load(projectPath, config.patterns, VERSION) : undefined;
+}
+
+function printCacheStats(cache: ScanCache | undefined, indent: string = '  ') {
+  if (!cache) {
+    console.log(styles.info(`${indent}💾 Cache: désactivé (--no-cache)`));
+    return;
+  }
+  
+  const { unchanged, hashHits, scanned, invalidated } = cache.stats;
+  const reused = unchanged + hashHits;
+  const total = reused + scanned;
+  const rate = total > 0 ? Math.round((reused / total) * 100) : 0;
+  
+  console.log(styles.info(`${indent}💾 Cache: ${reused}/${total} fichiers réutilisés (${rate}%), ${scanned} ré-analysés`));
+  if (invalidated) {
+    console.log(styles.info(`${indent}   Cache invalidé: patterns ou version modifiés`));
+  }
 }
 
 function getGradeColor(grade: string): chalk.Chalk {
@@ -334,69 +289,61 @@ function getGradeColor(grade: string): chalk.Chalk {
 // PHASE 1: SCANNER
 // ═══════════════════════════════════════════════════════════════
 
-function scanProject(projectPath: string, spinner: Ora): ScanResult {
-  const issues: ScanIssue[] = [];
-  const proprietaryFiles: string[] = [];
-  let totalFiles = 0;
-  let totalLines = 0;
-  
-  const files = getAllFiles(projectPath);
-  totalFiles = files.length;
-  
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
-    const relativePath = relative(projectPath, file);
-    const filename = basename(file);
-    
-    spinner.text = `Scanning: ${relativePath.slice(0, 50)}...`;
-    
-    // Check proprietary files
-    if (PROPRIETARY_FILES.some(pf => filename.toLowerCase() === pf.toLowerCase())) {
-      proprietaryFiles.push(relativePath);
-      continue;
-    }
-    
-    // Scan text files for patterns
-    if (isTextFile(file)) {
-      try {
-        const content = readFileSync(file, 'utf-8');
-        const lines = content.split('\n');
-        totalLines += lines.length;
-        
-        for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-          const line = lines[lineNum];
-          
-          for (const patternDef of LOVABLE_PATTERNS) {
-            patternDef.pattern.lastIndex = 0;
-            let match;
-            
-            while ((match = patternDef.pattern.exec(line)) !== null) {
-              issues.push({
-                file: relativePath,
-                line: lineNum + 1,
-                column: match.index + 1,
-                pattern: patternDef.name,
-                matched: match[0],
-                severity: patternDef.severity,
-                suggestion: patternDef.suggestion,
-              });
-            }
-          }
-        }
-      } catch (e) {
-        // Binary or unreadable file
-      }
-    }
+/**
+ * Analyse le contenu d'un fichier texte (sans accès disque)
+ */
+function scanFileContent(content: string, relativePath: string, patterns: SovereigntyRule[]): FileScanResult {
+  const lines = content.split('\n');
+  const suppressed = findSuppressedLines(lines);
+  
+  const issues = scanContent(content, relativePath, patterns)
+    .filter(finding => !suppressed.has(finding.line - 1))
+    .map(finding => ({
+      ruleId: finding.ruleId,
+      line: finding.line,
+      column: finding.column,
+      pattern: finding.name,
+      matched: finding.matched,
+      severity: finding.severity,
+      suggestion: finding.suggestion,
+      fixable: finding.fixable,
+    }));
+  
+  return { lines: lines.length, issues };
+}
+
+/**
+ * Les règles limitées à certains chemins (package.json...) font dépendre le résultat du chemin, pas seulement du contenu
+ */
+function scopedRulesKey(relativePath: string, patterns: SovereigntyRule[]): string {
+  return patterns.filter(p => p.files?.test(relativePath)).map(p => p.id).join(',');
+}
+
+/**
+ * Analyse un fichier en passant par le cache (stat puis empreinte) quand il est disponible
+ */
+function scanFile(file: string, relativePath: string, patterns: SovereigntyRule[], cache?: ScanCache): FileScanResult {
+  if (!cache) {
+    return scanFileContent(readFileSync(file, 'utf-8'), relativePath, patterns);
   }
   
-  const score = calculateScore(issues, proprietaryFiles.length);
-  const grade = getGrade(score);
+  const stat = statSync(file);
+  const unchanged = cache.lookupByStat(relativePath, stat);
+  if (unchanged) return unchanged;
   
-  const summary = {
-    critical: issues.filter(i => i.severity === 'critical').length,
-    major: issues.filter(i => i.severity === 'major').length,
-    minor: issues.filter(i => i.severity === 'minor').length,
-  };
+  const content = readFileSync(file, 'utf-8');
+  const hash = hashContent(`${scopedRulesKey(relativePath, patterns)}\u0000${content}`);
+  const known = cache.lookupByHash(hash);
+  const result = known ?? scanFileContent(content, relativePath, patterns);
+  
+  cache.store(relativePath, stat, hash, result, !known);
+  return result;
+}
+
+function buildScanResult(issues: ScanIssue[], proprietaryFiles: string[], totalFiles: number, totalLines: number): ScanResult {
+  const summary = summarize(issues);
+  const score = calculateScore(summary, proprietaryFiles.length);
+  const grade = gradeForScore(score);
   
   return {
     issues,
@@ -409,6 +356,69 @@ function scanProject(projectPath: string, spinner: Ora): ScanResult {
   };
 }
 
+interface FileScanState {
+  proprietary: boolean;
+  lines: number;
+  issues: ScanIssue[];
+}
+
+/**
+ * État d'un fichier du projet: propriétaire, analysé, ou sans contenu analysable
+ */
+function scanProjectFile(file: string, relativePath: string, config: ResolvedConfig, cache?: ScanCache): FileScanState {
+  // Check proprietary files
+  if (isProprietaryFile(file)) {
+    return { proprietary: true, lines: 0, issues: [] };
+  }
+  
+  // Scan text files for patterns
+  if (isScannableFile(file)) {
+    try {
+      const result = scanFile(file, relativePath, config.patterns, cache);
+      return {
+        proprietary: false,
+        lines: result.lines,
+        issues: result.issues.map(issue => ({ file: relativePath, ...issue })),
+      };
+    } catch (e) {
+      // Binary or unreadable file
+    }
+  }
+  
+  return { proprietary: false, lines: 0, issues: [] };
+}
+
+/**
+ * Agrège les états par fichier en résultat de scan (même score que `audit`)
+ */
+function aggregateScan(states: Map<string, FileScanState>): ScanResult {
+  const issues: ScanIssue[] = [];
+  const proprietaryFiles: string[] = [];
+  let totalLines = 0;
+  
+  for (const [relativePath, state] of states) {
+    if (state.proprietary) proprietaryFiles.push(relativePath);
+    totalLines += state.lines;
+    issues.push(...state.issues);
+  }
+  
+  return buildScanResult(issues, proprietaryFiles, states.size, totalLines);
+}
+
+function scanProject(projectPath: string, spinner: Ora, config: ResolvedConfig, cache?: ScanCache): ScanResult {
+  const states = new Map<string, FileScanState>();
+  
+  for (const file of getProjectFiles(projectPath, config)) {
+    const relativePath = relative(projectPath, file);
+    spinner.text = `Scanning: ${relativePath.slice(0, 50)}...`;
+    states.set(relativePath, scanProjectFile(file, relativePath, config, cache));
+  }
+  
+  cache?.save();
+  
+  return aggregateScan(states);
+}
+
 // ═══════════════════════════════════════════════════════════════
 // PHASE 2: AUDIT (REPORT)
 // ═══════════════════════════════════════════════════════════════
@@ -431,7 +441,81 @@ function generateAuditReport(scan: ScanResult): string[] {
 // PHASE 3: CLEANER
 // ═══════════════════════════════════════════════════════════════
 
-function cleanProject(projectPath: string, outputPath: string, scan: ScanResult, spinner: Ora): CleanResult {
+// Chaque import est rattaché à sa règle : une règle "off" dans inopay.config.json garde ses imports
+const PROPRIETARY_IMPORT_PATTERNS: { ruleId: string; pattern: RegExp }[] = [
+  { ruleId: 'lovable-package', pattern: /^import\s+.*from\s+['"]@lovable\/.*['"];?\s*$/ },
+  { ruleId: 'agent-package', pattern: /^import\s+.*from\s+['"]@agent\/.*['"];?\s*$/ },
+  { ruleId: 'lovable-tagger', pattern: /^import\s+.*from\s+['"]lovable-tagger['"];?\s*$/ },
+  { ruleId: 'gptengineer-package', pattern: /^import\s+.*from\s+['"]@gptengineer\/.*['"];?\s*$/ },
+  { ruleId: 'lovable-package', pattern: /^const\s+\{.*\}\s*=\s*require\(['"]@lovable\/.*['"]\);?\s*$/ },
+];
+
+function activeImportPatterns(patterns: SovereigntyRule[]): RegExp[] {
+  return PROPRIETARY_IMPORT_PATTERNS
+    .filter(({ ruleId }) => patterns.some(p => p.id === ruleId))
+    .map(({ pattern }) => pattern);
+}
+
+const REMOVED_IMPORT_COMMENT = '// [REMOVED] Proprietary import';
+
+/**
+ * Nettoie le contenu d'un fichier texte (sans accès disque) avec le fix de chaque règle
+ */
+function cleanFileContent(original: string, filePath: string, patterns: SovereigntyRule[]): { content: string; modified: boolean } {
+  // Les lignes marquées inopay-ignore-next-line sont mises de côté pendant le nettoyage
+  const lines = original.split('\n');
+  const suppressed = findSuppressedLines(lines);
+  const placeholder = (index: number) => `\u0000INOPAY_IGNORED_${index}\u0000`;
+  
+  let content = lines.map((line, i) => suppressed.has(i) ? placeholder(i) : line).join('\n');
+  const before = content;
+  
+  // Remove proprietary imports
+  for (const source of activeImportPatterns(patterns)) {
+    content = content.replace(new RegExp(source, 'gm'), REMOVED_IMPORT_COMMENT);
+  }
+  
+  // Les règles "manual" (et les matchers AST) sont signalées mais jamais réécrites
+  const findings = scanContent(content, filePath, patterns).filter(f => f.fixable);
+  content = applyFixes(content, findings, patterns);
+  const modified = content !== before;
+  
+  // Clean empty lines (max 2 consecutive)
+  content = content.replace(/\n{4,}/g, '\n\n\n');
+  
+  for (const index of suppressed) {
+    content = content.replace(placeholder(index), () => lines[index]);
+  }
+  
+  return { content, modified };
+}
+
+/**
+ * Corrige une seule détection avec le fix de sa règle (null si la détection a disparu).
+ * Les règles "manual" ne sont jamais corrigées automatiquement.
+ */
+function fixIssueInContent(original: string, issue: Pick<ScanIssue, 'line' | 'column' | 'pattern' | 'matched'>, rule: SovereigntyRule): string | null {
+  const line = original.split('\n')[issue.line - 1];
+  const start = issue.column - 1;
+  
+  if (line === undefined || line.slice(start, start + issue.matched.length) !== issue.matched) {
+    return null;
+  }
+  
+  return applyFixes(original, [{
+    ruleId: rule.id,
+    name: rule.name,
+    severity: rule.severity,
+    category: rule.category,
+    suggestion: rule.suggestion,
+    fixable: rule.fix.kind !== 'manual',
+    line: issue.line,
+    column: issue.column,
+    matched: issue.matched,
+  }], [rule]);
+}
+
+function cleanProject(projectPath: string, outputPath: string, scan: ScanResult, spinner: Ora, config: ResolvedConfig): CleanResult {
   const changes: CleanChange[] = [];
   let filesProcessed = 0;
   let filesCleaned = 0;
@@ -453,8 +537,10 @@ function cleanProject(projectPath: string, outputPath: string, scan: ScanResult,
     
     spinner.text = `Cleaning: ${relativePath.slice(0, 50)}...`;
     
+    const included = isPathIncluded(relativePath, config);
+    
     // Skip proprietary files
-    if (PROPRIETARY_FILES.some(pf => filename.toLowerCase() === pf.toLowerCase())) {
+    if (included && isProprietaryFile(filename)) {
       filesRemoved++;
       changes.push({ file: relativePath, type: 'removed', details: 'Fichier propriétaire' });
       continue;
@@ -466,49 +552,12 @@ function cleanProject(projectPath: string, outputPath: string, scan: ScanResult,
       mkdirSync(outputDir, { recursive: true });
     }
     
-    // Process text files
-    if (isTextFile(file)) {
+    // Process text files (excluded files are copied as-is)
+    if (included && isScannableFile(file)) {
       try {
-        let content = readFileSync(file, 'utf-8');
-        let modified = false;
-        const originalLines = content.split('\n').length;
-        
-        // Remove proprietary imports
-        const importPatterns = [
-          /^import\s+.*from\s+['"]@lovable\/.*['"];?\s*$/gm,
-          /^import\s+.*from\s+['"]@agent\/.*['"];?\s*$/gm,
-          /^import\s+.*from\s+['"]lovable-tagger['"];?\s*$/gm,
-          /^import\s+.*from\s+['"]@gptengineer\/.*['"];?\s*$/gm,
-          /^const\s+\{.*\}\s*=\s*require\(['"]@lovable\/.*['"]\);?\s*$/gm,
-        ];
-        
-        for (const pattern of importPatterns) {
-          if (pattern.test(content)) {
-            content = content.replace(pattern, '// [REMOVED] Proprietary import');
-            modified = true;
-          }
-        }
-        
-        // Remove/replace patterns
-        for (const patternDef of LOVABLE_PATTERNS) {
-          if (patternDef.pattern.test(content)) {
-            // For critical patterns, comment them out
-            if (patternDef.severity === 'critical') {
-              content = content.replace(patternDef.pattern, `/* TODO: ${patternDef.suggestion} */`);
-            } else {
-              // For minor, just remove
-              content = content.replace(patternDef.pattern, '');
-            }
-            modified = true;
-          }
-        }
-        
-        // Remove data-lov-* and data-lovable-* attributes
-        content = content.replace(/\s+data-lov-id="[^"]*"/g, '');
-        content = content.replace(/\s+data-lovable-[a-z-]+="[^"]*"/g, '');
-        
-        // Clean empty lines (max 2 consecutive)
-        content = content.replace(/\n{4,}/g, '\n\n\n');
+        const original = readFileSync(file, 'utf-8');
+        const { content, modified } = cleanFileContent(original, relativePath, config.patterns);
+        const originalLines = original.split('\n').length;
         
         const newLines = content.split('\n').length;
         linesRemoved += Math.max(0, originalLines - newLines);
@@ -544,29 +593,22 @@ function cleanProject(projectPath: string, outputPath: string, scan: ScanResult,
 // PHASE 4: REBUILDER
 // ═══════════════════════════════════════════════════════════════
 
-function rebuildProject(outputPath: string, projectName: string, spinner: Ora): RebuildResult {
-  const structure: string[] = [];
+function detectBackend(projectPath: string): boolean {
+  return existsSync(join(projectPath, 'backend')) || 
+         existsSync(join(projectPath, 'server')) ||
+         existsSync(join(projectPath, 'api'));
+}
+
+/**
+ * Génère en mémoire les fichiers d'architecture (Docker, nginx, scripts, config)
+ */
+function generateArchitectureFiles(
+  projectName: string,
+  hasBackend: boolean,
+  baseConfig: InopayConfigFile = {}
+): { files: Map<string, string>; config: object } {
   const files = new Map<string, string>();
   
-  spinner.text = 'Generating project structure...';
-  
-  // Detect if project has backend, database, etc.
-  const hasBackend = existsSync(join(outputPath, 'backend')) || 
-                     existsSync(join(outputPath, 'server')) ||
-                     existsSync(join(outputPath, 'api'));
-  
-  const hasPackageJson = existsSync(join(outputPath, 'package.json'));
-  
-  // Create directories
-  const dirs = ['docker', 'scripts'];
-  for (const dir of dirs) {
-    const fullPath = join(outputPath, dir);
-    if (!existsSync(fullPath)) {
-      mkdirSync(fullPath, { recursive: true });
-      structure.push(dir + '/');
-    }
-  }
-  
   // Generate Dockerfile
   const dockerfile = `# ═══════════════════════════════════════════════════════════════
 # ${projectName} - Dockerfile
@@ -598,9 +640,7 @@ HEALTHCHECK --interval=30s --timeout=10s --start-period=5s --retries=3 \\
 
 CMD ["nginx", "-g", "daemon off;"]
 `;
-  writeFileSync(join(outputPath, 'Dockerfile'), dockerfile);
   files.set('Dockerfile', dockerfile);
-  structure.push('Dockerfile');
   
   // Generate docker-compose.yml
   const dockerCompose = `# ═══════════════════════════════════════════════════════════════
@@ -640,9 +680,7 @@ networks:
   default:
     name: ${projectName.toLowerCase().replace(/[^a-z0-9]/g, '-')}-network
 `;
-  writeFileSync(join(outputPath, 'docker-compose.yml'), dockerCompose);
   files.set('docker-compose.yml', dockerCompose);
-  structure.push('docker-compose.yml');
   
   // Generate nginx.conf
   const nginxConf = `worker_processes auto;
@@ -680,12 +718,7 @@ http {
     }
 }
 `;
-  if (!existsSync(join(outputPath, 'docker'))) {
-    mkdirSync(join(outputPath, 'docker'), { recursive: true });
-  }
-  writeFileSync(join(outputPath, 'docker/nginx.conf'), nginxConf);
   files.set('docker/nginx.conf', nginxConf);
-  structure.push('docker/nginx.conf');
   
   // Generate deploy script
   const deployScript = `#!/bin/bash
@@ -710,12 +743,11 @@ docker compose up -d --build
 echo "✅ Déployé avec succès!"
 echo "   Accès: http://$(hostname -I | awk '{print $1}')"
 `;
-  writeFileSync(join(outputPath, 'scripts/deploy.sh'), deployScript);
   files.set('scripts/deploy.sh', deployScript);
-  structure.push('scripts/deploy.sh');
   
-  // Generate inopay.config.json
+  // Generate inopay.config.json (les règles du projet sont conservées)
   const config = {
+    ...baseConfig,
     version: '1.0.0',
     name: projectName,
     liberatedAt: new Date().toISOString(),
@@ -730,9 +762,35 @@ echo "   Accès: http://$(hostname -I | awk '{print $1}')"
       port: 80,
     },
   };
-  writeFileSync(join(outputPath, 'inopay.config.json'), JSON.stringify(config, null, 2));
   files.set('inopay.config.json', JSON.stringify(config, null, 2));
-  structure.push('inopay.config.json');
+  
+  return { files, config };
+}
+
+function rebuildProject(outputPath: string, projectName: string, spinner: Ora, baseConfig: InopayConfigFile = {}): RebuildResult {
+  const structure: string[] = [];
+  
+  spinner.text = 'Generating project structure...';
+  
+  // Detect if project has backend, database, etc.
+  const hasBackend = detectBackend(outputPath);
+  
+  // Create directories
+  const dirs = ['docker', 'scripts'];
+  for (const dir of dirs) {
+    const fullPath = join(outputPath, dir);
+    if (!existsSync(fullPath)) {
+      mkdirSync(fullPath, { recursive: true });
+      structure.push(dir + '/');
+    }
+  }
+  
+  const { files, config } = generateArchitectureFiles(projectName, hasBackend, baseConfig);
+  
+  for (const [file, content] of files) {
+    writeFileSync(join(outputPath, file), content);
+    structure.push(file);
+  }
   
   return { structure, files, config };
 }
@@ -769,6 +827,8 @@ async function liberateCommand(projectPath: string, options: {
   verbose: boolean;
   noZip: boolean;
   interactive: boolean;
+  config?: string;
+  cache: boolean;
 }) {
   showBanner();
   
@@ -785,6 +845,11 @@ async function liberateCommand(projectPath: string, options: {
   
   console.log(styles.info(`  📂 Projet: ${styles.path(absolutePath)}`));
   console.log(styles.info(`  📤 Sortie: ${styles.path(outputPath)}`));
+  
+  const config = loadProjectConfig(absolutePath, options.config);
+  if (config.path) {
+    console.log(styles.info(`  ⚙️  Config: ${styles.path(config.path)}`));
+  }
   console.log();
   
   const TOTAL_STEPS = 6;
@@ -796,10 +861,15 @@ async function liberateCommand(projectPath: string, options: {
   showStep(1, TOTAL_STEPS, 'Analyse des patterns propriétaires', 'running');
   const scanSpinner = ora({ text: 'Scanning...', indent: 4 }).start();
   
-  const scanResult = scanProject(absolutePath, scanSpinner);
+  const cache = openScanCache(absolutePath, config, options.cache);
+  const scanResult = scanProject(absolutePath, scanSpinner, config, cache);
   
   scanSpinner.succeed(`${scanResult.totalFiles} fichiers analysés, ${scanResult.issues.length} problèmes détectés`);
   
+  if (options.verbose) {
+    printCacheStats(cache, '    ');
+  }
+  
   // ─────────────────────────────────────────────────────────────
   // PHASE 2: AUDIT
   // ─────────────────────────────────────────────────────────────
@@ -867,7 +937,7 @@ async function liberateCommand(projectPath: string, options: {
   showStep(3, TOTAL_STEPS, 'Nettoyage des patterns propriétaires', 'running');
   const cleanSpinner = ora({ text: 'Cleaning...', indent: 4 }).start();
   
-  const cleanResult = cleanProject(absolutePath, outputPath, scanResult, cleanSpinner);
+  const cleanResult = cleanProject(absolutePath, outputPath, scanResult, cleanSpinner, config);
   
   cleanSpinner.succeed(`${cleanResult.filesCleaned} fichiers nettoyés, ${cleanResult.filesRemoved} fichiers supprimés`);
   
@@ -878,7 +948,7 @@ async function liberateCommand(projectPath: string, options: {
   showStep(4, TOTAL_STEPS, 'Reconstruction de l\'architecture', 'running');
   const rebuildSpinner = ora({ text: 'Rebuilding...', indent: 4 }).start();
   
-  const rebuildResult = rebuildProject(outputPath, projectName, rebuildSpinner);
+  const rebuildResult = rebuildProject(outputPath, projectName, rebuildSpinner, config.raw);
   
   rebuildSpinner.succeed(`${rebuildResult.structure.length} fichiers générés`);
   
@@ -997,12 +1067,77 @@ ${projectName}/
   console.log();
 }
 
+// ═══════════════════════════════════════════════════════════════
+// RAPPORTS & SEUILS CI
+// ═══════════════════════════════════════════════════════════════
+
+interface ReportCommandOptions {
+  format: string;
+  failOn?: string;
+  config?: string;
+  cache: boolean;
+}
+
+/**
+ * Valide --format et --fail-on avant toute analyse
+ */
+function parseReportOptions(options: ReportCommandOptions): { format: OutputFormat; failOn?: Severity } {
+  if (!OUTPUT_FORMATS.includes(options.format as OutputFormat)) {
+    console.log(styles.error(`\n  ❌ Format inconnu: ${options.format} (${OUTPUT_FORMATS.join(', ')})\n`));
+    process.exit(1);
+  }
+  
+  if (options.failOn !== undefined && !isSeverity(options.failOn)) {
+    console.log(styles.error(`\n  ❌ Seuil --fail-on inconnu: ${options.failOn} (critical, major, minor)\n`));
+    process.exit(1);
+  }
+  
+  return { format: options.format as OutputFormat, failOn: options.failOn as Severity | undefined };
+}
+
+/**
+ * Écrit le rapport SARIF ou JUnit sur stdout. Retourne false pour les formats texte/json.
+ */
+function printCiReport(result: ScanResult, format: OutputFormat, config: ResolvedConfig, failOn?: Severity): boolean {
+  if (format === 'sarif') {
+    console.log(toSarif(result, { version: VERSION, patterns: config.patterns }));
+    return true;
+  }
+  
+  if (format === 'junit') {
+    console.log(toJUnit(result, failOn ?? 'critical'));
+    return true;
+  }
+  
+  return false;
+}
+
+/**
+ * Positionne le code de sortie si des problèmes atteignent le seuil --fail-on
+ */
+function applyFailThreshold(result: ScanResult, failOn: Severity | undefined, quiet: boolean) {
+  if (!failOn) return;
+  
+  const failures = countFailures(result, failOn);
+  if (failures === 0) return;
+  
+  process.exitCode = 1;
+  if (!quiet) {
+    console.log(styles.error(`  ❌ ${failures} problème(s) de niveau ${failOn} ou supérieur (--fail-on ${failOn})\n`));
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════
 // COMMANDE: AUDIT
 // ═══════════════════════════════════════════════════════════════
 
-async function auditCommand(projectPath: string, options: { format: string; verbose: boolean }) {
-  showBanner();
+async function auditCommand(projectPath: string, options: ReportCommandOptions & { verbose: boolean }) {
+  const { format, failOn } = parseReportOptions(options);
+  
+  // Les formats machine doivent garder stdout propre
+  if (format === 'text') {
+    showBanner();
+  }
   
   const absolutePath = join(process.cwd(), projectPath);
   
@@ -1011,16 +1146,28 @@ async function auditCommand(projectPath: string, options: { format: string; verb
     process.exit(1);
   }
   
+  const config = loadProjectConfig(absolutePath, options.config);
+  const cache = openScanCache(absolutePath, config, options.cache);
   const spinner = ora('Analyse en cours...').start();
-  const result = scanProject(absolutePath, spinner);
+  const result = scanProject(absolutePath, spinner, config, cache);
   spinner.succeed('Analyse terminée');
   
-  if (options.format === 'json') {
+  if (format === 'json') {
     console.log(JSON.stringify(result, null, 2));
+    applyFailThreshold(result, failOn, true);
+    return;
+  }
+  
+  if (printCiReport(result, format, config, failOn)) {
+    applyFailThreshold(result, failOn, true);
     return;
   }
   
   // Text format
+  if (options.verbose) {
+    printCacheStats(cache);
+  }
+  
   console.log();
   const gradeColor = getGradeColor(result.grade);
   
@@ -1054,7 +1201,7 @@ async function auditCommand(projectPath: string, options: { format: string; verb
     }
     
     if (result.issues.length > 30) {
-      console.log(styles.dim(`     ... et ${result.issues.length - 30} autres`));
+      console.log(styles.info(`     ... et ${result.issues.length - 30} autres`));
     }
   }
   
@@ -1068,14 +1215,17 @@ async function auditCommand(projectPath: string, options: { format: string; verb
     console.log(styles.error('  🚨 Nettoyage complet requis'));
   }
   
-  console.log(styles.dim('\n  Utilisez `inopay liberate <path>` pour libérer automatiquement\n'));
+  console.log(styles.info('\n  Utilisez `inopay liberate <path>` pour libérer automatiquement\n'));
+  
+  applyFailThreshold(result, failOn, false);
 }
 
 // ═══════════════════════════════════════════════════════════════
 // COMMANDE: SCAN
 // ═══════════════════════════════════════════════════════════════
 
-async function scanCommand(projectPath: string, options: { format: string }) {
+async function scanCommand(projectPath: string, options: ReportCommandOptions) {
+  const { format, failOn } = parseReportOptions(options);
   const absolutePath = join(process.cwd(), projectPath);
   
   if (!existsSync(absolutePath)) {
@@ -1083,34 +1233,539 @@ async function scanCommand(projectPath: string, options: { format: string }) {
     process.exit(1);
   }
   
+  const config = loadProjectConfig(absolutePath, options.config);
+  const cache = openScanCache(absolutePath, config, options.cache);
   const spinner = ora('Scan rapide...').start();
-  const result = scanProject(absolutePath, spinner);
+  const result = scanProject(absolutePath, spinner, config, cache);
   spinner.stop();
   
-  if (options.format === 'json') {
+  if (format === 'json') {
     console.log(JSON.stringify({
       issues: result.issues,
       proprietaryFiles: result.proprietaryFiles,
       score: result.score,
     }, null, 2));
+    applyFailThreshold(result, failOn, true);
+    return;
+  }
+  
+  if (printCiReport(result, format, config, failOn)) {
+    applyFailThreshold(result, failOn, true);
     return;
   }
   
   // Compact output
   const gradeColor = getGradeColor(result.grade);
   console.log(`${gradeColor(result.score + '/100')} | 🔴 ${result.summary.critical} | 🟡 ${result.summary.major} | 🔵 ${result.summary.minor}`);
+  
+  applyFailThreshold(result, failOn, true);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// COMMANDE: DIFF
+// ═══════════════════════════════════════════════════════════════
+
+interface FileChange {
+  type: FileDiff['type'];
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * Contenu avant/après liberate d'un fichier source (null si le fichier est laissé intact)
+ */
+function previewFileChange(file: string, relativePath: string, config: ResolvedConfig, generated: Map<string, string>): FileChange | null {
+  const normalizedPath = relativePath.split('\\').join('/');
+  
+  if (generated.has(normalizedPath)) {
+    return { type: 'modified', before: readFileSync(file, 'utf-8'), after: generated.get(normalizedPath)! };
+  }
+  
+  if (!isPathIncluded(relativePath, config)) return null;
+  
+  if (isProprietaryFile(file)) {
+    return { type: 'removed', before: readFileSync(file, 'utf-8'), after: null };
+  }
+  
+  if (!isScannableFile(file)) return null;
+  
+  try {
+    const original = readFileSync(file, 'utf-8');
+    return { type: 'modified', before: original, after: cleanFileContent(original, normalizedPath, config.patterns).content };
+  } catch (e) {
+    // Binary or unreadable file
+    return null;
+  }
+}
+
+/**
+ * Fichiers écrits par `liberate` à partir du résultat de l'export (dates, statistiques, score):
+ * ils ne sont pas reproductibles hors export et ne figurent donc pas dans le patch de `diff`
+ */
+const DIFF_EXCLUDED_OUTPUTS = ['README.md', 'liberation-report.json'];
+
+/**
+ * Exécute le nettoyage et la reconstruction en mémoire et produit un patch par fichier
+ * (hors DIFF_EXCLUDED_OUTPUTS)
+ */
+function diffProject(projectPath: string, projectName: string, context: number, spinner: Ora, config: ResolvedConfig): FileDiff[] {
+  const diffs: FileDiff[] = [];
+  
+  // Fichiers générés par la phase de reconstruction (écrasent la source s'ils existent)
+  const { files: generated } = generateArchitectureFiles(projectName, detectBackend(projectPath), config.raw);
+  
+  const pushDiff = (file: string, change: FileChange) => {
+    const patch = createFilePatch({ path: file, before: change.before, after: change.after }, context);
+    if (!patch) return;
+    diffs.push({ file, type: change.type, patch, ...countPatchLines(patch) });
+  };
+  
+  for (const file of getAllFiles(projectPath)) {
+    const relativePath = relative(projectPath, file);
+    
+    spinner.text = `Diffing: ${relativePath.slice(0, 50)}...`;
+    
+    const change = previewFileChange(file, relativePath, config, generated);
+    if (change) pushDiff(relativePath.split('\\').join('/'), change);
+    generated.delete(relativePath.split('\\').join('/'));
+  }
+  
+  for (const [file, content] of generated) {
+    pushDiff(file, { type: 'added', before: null, after: content });
+  }
+  
+  return diffs.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+function colorizePatch(patch: string): string {
+  return patch
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('diff --git') || line.startsWith('+++ ') || line.startsWith('--- ')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return line;
+    })
+    .join('\n');
+}
+
+async function diffCommand(projectPath: string, options: { output?: string; context: number; stat: boolean; config?: string }) {
+  const absolutePath = resolve(process.cwd(), projectPath);
+  const projectName = basename(absolutePath);
+  
+  if (!existsSync(absolutePath)) {
+    console.log(styles.error(`\n  ❌ Le projet n'existe pas: ${projectPath}\n`));
+    process.exit(1);
+  }
+  
+  const config = loadProjectConfig(absolutePath, options.config);
+  const spinner = ora('Calcul des changements...').start();
+  const diffs = diffProject(absolutePath, projectName, options.context, spinner, config);
+  spinner.stop();
+  
+  // `git apply` ignore le texte placé avant le premier `diff --git`
+  const header = diffs.length > 0
+    ? `Patch inopay diff — non inclus (écrits par \`inopay liberate\` à l'export): ${DIFF_EXCLUDED_OUTPUTS.join(', ')}\n\n`
+    : '';
+  const patch = header + diffs.map(d => d.patch).join('');
+  
+  if (options.output) {
+    writeFileSync(options.output, patch);
+  } else if (!options.stat) {
+    process.stdout.write(colorizePatch(patch));
+  }
+  
+  // Le résumé part sur stderr pour que `inopay diff . > changes.patch` reste applicable
+  const log = options.output || options.stat ? console.log : console.error;
+  const byType = (type: FileDiff['type']) => diffs.filter(d => d.type === type);
+  
+  log();
+  for (const [type, label, icon] of [
+    ['modified', 'Fichiers modifiés', chalk.yellow('M')],
+    ['removed', 'Fichiers supprimés', chalk.red('D')],
+    ['added', 'Fichiers ajoutés', chalk.green('A')],
+  ] as const) {
+    const entries = byType(type);
+    if (entries.length === 0) continue;
+    
+    log(styles.highlight(`  ${label} (${entries.length}):`));
+    for (const entry of entries) {
+      log(`    ${icon} ${styles.file(entry.file)} ${chalk.green('+' + entry.additions)} ${chalk.red('-' + entry.deletions)}`);
+    }
+  }
+  
+  if (diffs.length === 0) {
+    log(styles.success('  ✅ Aucun changement: le projet est déjà souverain'));
+  }
+  log(styles.info(`  Non inclus (générés par liberate à l'export): ${DIFF_EXCLUDED_OUTPUTS.join(', ')}`));
+  
+  if (options.output) {
+    log();
+    log(styles.info(`  📄 Patch écrit dans ${styles.path(options.output)}`));
+    log(styles.info(`     Appliquer avec: git apply ${options.output}`));
+  }
+  log();
+}
+
+// ═══════════════════════════════════════════════════════════════
+// COMMANDE: WATCH
+// ═══════════════════════════════════════════════════════════════
+
+function isIgnoredPath(relativePath: string): boolean {
+  return relativePath.split(/[\\/]/).some(segment => IGNORED_DIRS.includes(segment));
+}
+
+/**
+ * Surveille l'arborescence: fs.watch récursif, ou un watcher par dossier quand la plateforme
+ * ne supporte pas `recursive` (Linux avec Node < 20)
+ */
+function watchTree(root: string, onChange: (relativePath: string) => void): () => void {
+  try {
+    const watcher = watch(root, { recursive: true }, (_event, filename) => {
+      if (filename) onChange(filename.toString());
+    });
+    return () => watcher.close();
+  } catch (e) {
+    const watchers = new Map<string, FSWatcher>();
+    
+    const watchDir = (dir: string) => {
+      if (watchers.has(dir)) return;
+      
+      try {
+        watchers.set(dir, watch(dir, (_event, filename) => {
+          if (!filename) return;
+          const fullPath = join(dir, filename.toString());
+          
+          // Les nouveaux sous-dossiers reçoivent leur propre watcher
+          try {
+            if (statSync(fullPath).isDirectory()) watchDir(fullPath);
+          } catch (e) {
+            // Supprimé entre-temps
+          }
+          
+          onChange(relative(root, fullPath));
+        }));
+        
+        for (const item of readdirSync(dir)) {
+          if (IGNORED_DIRS.includes(item)) continue;
+          const fullPath = join(dir, item);
+          if (statSync(fullPath).isDirectory()) watchDir(fullPath);
+        }
+      } catch (e) {
+        // Ignore permission errors
+      }
+    };
+    
+    watchDir(root);
+    return () => watchers.forEach(w => w.close());
+  }
+}
+
+function renderWatchScreen(
+  projectPath: string,
+  result: ScanResult,
+  previous: ScanResult | null,
+  changed: string[],
+  configError: string | null
+) {
+  console.clear();
+  console.log(styles.logo('  INOPAY WATCH') + styles.version(` v${VERSION}  ${projectPath}`));
+  console.log();
+  
+  const gradeColor = getGradeColor(result.grade);
+  let delta = '';
+  if (previous && previous.score !== result.score) {
+    const diff = result.score - previous.score;
+    delta = diff > 0 ? chalk.green(`  ▲ +${diff}`) : chalk.red(`  ▼ ${diff}`);
+  }
+  
+  console.log(`  ${styles.highlight('Score:')} ${gradeColor(result.score + '/100')} ${gradeColor('(' + result.grade + ')')}${delta}`);
+  console.log(`  ${styles.critical('● Critiques:')} ${result.summary.critical}   ${styles.major('● Majeurs:')} ${result.summary.major}   ${styles.minor('● Mineurs:')} ${result.summary.minor}`);
+  console.log();
+  
+  if (configError) {
+    console.log(styles.error(`  ❌ ${configError} (configuration précédente conservée)`));
+    console.log();
+  }
+  
+  if (result.proprietaryFiles.length > 0) {
+    console.log(styles.critical('  🚨 Fichiers propriétaires:'));
+    for (const file of result.proprietaryFiles) {
+      console.log(styles.file(`     - ${file}`));
+    }
+    console.log();
+  }
+  
+  const MAX_ISSUES = 15;
+  const remaining = result.issues
+    .filter(i => i.severity !== 'minor')
+    .sort((a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1) ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line
+    );
+  
+  if (remaining.length > 0) {
+    console.log(styles.warning('  ⚠️  Problèmes critiques et majeurs restants:'));
+    for (const issue of remaining.slice(0, MAX_ISSUES)) {
+      const icon = issue.severity === 'critical' ? '🔴' : '🟡';
+      console.log(`     ${icon} ${styles.file(issue.file)}:${issue.line}:${issue.column} ${styles.code(issue.matched)}`);
+      console.log(`        → ${styles.info(issue.suggestion)}`);
+    }
+    if (remaining.length > MAX_ISSUES) {
+      console.log(styles.info(`     ... et ${remaining.length - MAX_ISSUES} autres`));
+    }
+  } else if (result.proprietaryFiles.length === 0) {
+    console.log(styles.success('  ✅ Aucun problème critique ou majeur restant'));
+  }
+  
+  console.log();
+  const time = new Date().toLocaleTimeString();
+  if (changed.length > 0) {
+    const shown = changed.slice(0, 5).join(', ');
+    console.log(styles.info(`  🔄 ${time} - ${changed.length} fichier(s) ré-analysé(s): ${shown}${changed.length > 5 ? ', ...' : ''}`));
+  } else {
+    console.log(styles.info(`  👀 ${time} - En attente de modifications...`));
+  }
+  console.log(styles.info('  Ctrl+C pour quitter'));
+}
+
+async function watchCommand(projectPath: string, options: { config?: string; cache: boolean; debounce: number }) {
+  const absolutePath = resolve(process.cwd(), projectPath);
+  
+  if (!existsSync(absolutePath)) {
+    console.log(styles.error(`\n  ❌ Le projet n'existe pas: ${projectPath}\n`));
+    process.exit(1);
+  }
+  
+  let config = loadProjectConfig(absolutePath, options.config);
+  let cache = openScanCache(absolutePath, config, options.cache);
+  let configError: string | null = null;
+  const configFile = config.path ?? join(absolutePath, CONFIG_FILENAME);
+  const states = new Map<string, FileScanState>();
+  
+  const fullScan = () => {
+    states.clear();
+    for (const file of getProjectFiles(absolutePath, config)) {
+      const relativePath = relative(absolutePath, file);
+      states.set(relativePath, scanProjectFile(file, relativePath, config, cache));
+    }
+    cache?.save();
+  };
+  
+  // Ne ré-analyse que le chemin touché (fichier, ou contenu d'un dossier créé/renommé)
+  const rescanPath = (relativePath: string) => {
+    const fullPath = join(absolutePath, relativePath);
+    
+    if (!existsSync(fullPath)) {
+      for (const key of [...states.keys()]) {
+        if (key === relativePath || key.startsWith(relativePath + '/') || key.startsWith(relativePath + '\\')) {
+          states.delete(key);
+        }
+      }
+      return;
+    }
+    
+    const files = statSync(fullPath).isDirectory() ? getAllFiles(fullPath) : [fullPath];
+    for (const file of files) {
+      const fileRelativePath = relative(absolutePath, file);
+      if (!isPathIncluded(fileRelativePath, config)) {
+        states.delete(fileRelativePath);
+        continue;
+      }
+      states.set(fileRelativePath, scanProjectFile(file, fileRelativePath, config, cache));
+    }
+  };
+  
+  const spinner = ora('Analyse initiale...').start();
+  fullScan();
+  spinner.stop();
+  
+  let current = aggregateScan(states);
+  renderWatchScreen(absolutePath, current, null, [], configError);
+  
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  
+  const flush = () => {
+    timer = null;
+    const changed = [...pending];
+    pending.clear();
+    
+    if (changed.some(relativePath => join(absolutePath, relativePath) === configFile)) {
+      try {
+        config = loadConfig(absolutePath, SOVEREIGNTY_RULES, options.config);
+        configError = null;
+        cache = openScanCache(absolutePath, config, options.cache);
+        fullScan();
+      } catch (e) {
+        if (!(e instanceof ConfigError)) throw e;
+        configError = `Configuration invalide: ${e.message}`;
+      }
+    } else {
+      for (const relativePath of changed) {
+        try {
+          rescanPath(relativePath);
+        } catch (e) {
+          // Fichier supprimé pendant l'analyse: l'événement suivant le retirera
+        }
+      }
+      cache?.save();
+    }
+    
+    const previous = current;
+    current = aggregateScan(states);
+    renderWatchScreen(absolutePath, current, previous, changed, configError);
+  };
+  
+  const stop = watchTree(absolutePath, (relativePath) => {
+    if (isIgnoredPath(relativePath)) return;
+    pending.add(relativePath);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, options.debounce);
+  });
+  
+  process.on('SIGINT', () => {
+    stop();
+    if (timer) clearTimeout(timer);
+    cache?.save();
+    console.log(styles.info('\n  👋 Surveillance arrêtée\n'));
+    process.exit(0);
+  });
 }
 
 // ═══════════════════════════════════════════════════════════════
 // COMMANDE: SERVE
 // ═══════════════════════════════════════════════════════════════
 
-async function serveCommand(options: { port: number }) {
+/**
+ * Branche le dashboard local sur le moteur de la CLI (configuration relue à chaque requête)
+ */
+function createDashboardEngine(projectPath: string, projectName: string, options: { config?: string; cache: boolean }): DashboardEngine {
+  const silent = ora({ isEnabled: false });
+  
+  const currentConfig = (): ResolvedConfig => {
+    try {
+      return loadConfig(projectPath, SOVEREIGNTY_RULES, options.config);
+    } catch (e) {
+      if (e instanceof ConfigError) throw new HttpError(400, `Configuration invalide: ${e.message}`);
+      throw e;
+    }
+  };
+  
+  // Refuse tout chemin hors du projet (../, chemins absolus, dossiers ignorés)
+  const resolveFile = (file: string): { fullPath: string; relativePath: string } => {
+    const fullPath = resolve(projectPath, file);
+    const relativePath = relative(projectPath, fullPath);
+    if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath) || isIgnoredPath(relativePath)) {
+      throw new HttpError(400, 'Chemin hors du projet');
+    }
+    return { fullPath, relativePath };
+  };
+  
+  const readSourceFile = (file: string, config: ResolvedConfig) => {
+    const { fullPath, relativePath } = resolveFile(file);
+    if (!existsSync(fullPath) || !statSync(fullPath).isFile()) {
+      throw new HttpError(404, 'Fichier introuvable');
+    }
+    if (!isPathIncluded(relativePath, config) || !isScannableFile(fullPath)) {
+      throw new HttpError(400, 'Fichier exclu de l\'analyse');
+    }
+    return { fullPath, relativePath, content: readFileSync(fullPath, 'utf-8') };
+  };
+  
+  return {
+    project: () => {
+      const config = currentConfig();
+      return { name: projectName, path: projectPath, version: VERSION, configPath: config.path };
+    },
+    
+    scan: () => {
+      const config = currentConfig();
+      return scanProject(projectPath, silent, config, openScanCache(projectPath, config, options.cache));
+    },
+    
+    changes: () =>
+      diffProject(projectPath, projectName, 3, silent, currentConfig())
+        .map(({ file, type, additions, deletions }) => ({ file, type, additions, deletions })),
+    
+    preview: (file) => {
+      const config = currentConfig();
+      const { fullPath, relativePath } = resolveFile(file);
+      const normalizedPath = relativePath.split('\\').join('/');
+      const { files: generated } = generateArchitectureFiles(projectName, detectBackend(projectPath), config.raw);
+      
+      let change: FileChange | null;
+      if (existsSync(fullPath)) {
+        change = previewFileChange(fullPath, relativePath, config, generated);
+      } else if (generated.has(normalizedPath)) {
+        change = { type: 'added', before: null, after: generated.get(normalizedPath)! };
+      } else {
+        throw new HttpError(404, 'Fichier introuvable');
+      }
+      
+      if (!change || change.before === change.after) {
+        return { file: normalizedPath, type: 'unchanged', before: change?.before ?? null, after: change?.after ?? null, ops: [] };
+      }
+      
+      return { file: normalizedPath, ...change, ops: diffContents(change.before ?? '', change.after ?? '') };
+    },
+    
+    fixIssue: (issue) => {
+      const config = currentConfig();
+      const { fullPath, content } = readSourceFile(issue.file, config);
+      const rule = config.patterns.find(p => p.name === issue.pattern);
+      if (!rule) {
+        throw new HttpError(404, `Règle inconnue ou désactivée: ${issue.pattern}`);
+      }
+      if (rule.fix.kind === 'manual') {
+        throw new HttpError(422, `Correction manuelle requise: ${rule.suggestion}`);
+      }
+      const fixed = fixIssueInContent(content, issue, rule);
+      if (fixed === null) {
+        throw new HttpError(409, 'Détection introuvable: le fichier a changé, relancez l\'analyse');
+      }
+      writeFileSync(fullPath, fixed);
+    },
+    
+    fixFile: (file) => {
+      const config = currentConfig();
+      const { fullPath, relativePath, content } = readSourceFile(file, config);
+      if (isProprietaryFile(fullPath)) {
+        throw new HttpError(400, 'Fichier propriétaire: à supprimer manuellement');
+      }
+      writeFileSync(fullPath, cleanFileContent(content, relativePath, config.patterns).content);
+    },
+  };
+}
+
+async function serveCommand(projectPath: string, options: { port: number; host: string; config?: string; cache: boolean }) {
   showBanner();
   
-  console.log(styles.warning('  🚧 Dashboard local en développement...'));
-  console.log(styles.info(`     Le serveur sera disponible sur http://localhost:${options.port}`));
-  console.log(styles.info('\n     En attendant, utilisez: https://inopay.app/dashboard\n'));
+  const absolutePath = resolve(process.cwd(), projectPath);
+  
+  if (!existsSync(absolutePath)) {
+    console.log(styles.error(`\n  ❌ Le projet n'existe pas: ${projectPath}\n`));
+    process.exit(1);
+  }
+  
+  // Valide la configuration avant de démarrer
+  loadProjectConfig(absolutePath, options.config);
+  
+  const engine = createDashboardEngine(absolutePath, basename(absolutePath), options);
+  
+  try {
+    await startDashboardServer(engine, { port: options.port, host: options.host });
+  } catch (e) {
+    console.log(styles.error(`\n  ❌ Impossible de démarrer le serveur: ${(e as Error).message}\n`));
+    process.exit(1);
+  }
+  
+  console.log(styles.success(`  ✅ Dashboard local: http://${options.host}:${options.port}`));
+  console.log(styles.info(`     📂 Projet: ${styles.path(absolutePath)}`));
+  console.log(styles.info('     Fonctionne hors-ligne: aucune donnée ne quitte cette machine'));
+  console.log(styles.info('\n     Ctrl+C pour arrêter\n'));
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -1132,26 +1787,54 @@ program
   .option('-V, --verbose', 'Afficher les détails', false)
   .option('--no-zip', 'Ne pas créer d\'archive')
   .option('-i, --interactive', 'Mode interactif avec confirmations', false)
+  .option('-c, --config <file>', 'Fichier de configuration (défaut: <path>/inopay.config.json)')
+  .option('--no-cache', 'Ignorer le cache de scan incrémental')
   .action(liberateCommand);
 
 program
   .command('audit <path>')
   .description('Analyse un projet et génère un rapport')
-  .option('-f, --format <format>', 'Format: text, json', 'text')
+  .option('-f, --format <format>', 'Format: text, json, sarif, junit', 'text')
+  .option('--fail-on <severity>', 'Code de sortie 1 si un problème atteint ce niveau: critical, major, minor')
   .option('-V, --verbose', 'Afficher tous les problèmes', false)
+  .option('-c, --config <file>', 'Fichier de configuration (défaut: <path>/inopay.config.json)')
+  .option('--no-cache', 'Ignorer le cache de scan incrémental')
   .action(auditCommand);
 
 program
   .command('scan <path>')
   .description('Scan rapide des patterns (sortie compacte)')
-  .option('-f, --format <format>', 'Format: text, json', 'text')
+  .option('-f, --format <format>', 'Format: text, json, sarif, junit', 'text')
+  .option('--fail-on <severity>', 'Code de sortie 1 si un problème atteint ce niveau: critical, major, minor')
+  .option('-c, --config <file>', 'Fichier de configuration (défaut: <path>/inopay.config.json)')
+  .option('--no-cache', 'Ignorer le cache de scan incrémental')
   .action(scanCommand);
 
 program
-  .command('serve')
-  .description('Lance le dashboard local')
+  .command('diff <path>')
+  .description(`Aperçu des changements de nettoyage sous forme de patch unifié (hors ${DIFF_EXCLUDED_OUTPUTS.join(' et ')}, générés par liberate à l'export)`)
+  .option('-o, --output <file>', 'Écrire le patch dans un fichier .patch')
+  .option('-U, --context <lines>', 'Lignes de contexte par hunk', (v) => parseInt(v, 10), 3)
+  .option('--stat', 'Afficher uniquement la liste des fichiers', false)
+  .option('-c, --config <file>', 'Fichier de configuration (défaut: <path>/inopay.config.json)')
+  .action(diffCommand);
+
+program
+  .command('watch <path>')
+  .description('Surveille le projet et met à jour le score à chaque modification')
+  .option('-c, --config <file>', 'Fichier de configuration (défaut: <path>/inopay.config.json)')
+  .option('--no-cache', 'Ignorer le cache de scan incrémental')
+  .option('--debounce <ms>', 'Délai de regroupement des modifications', (v) => parseInt(v, 10), 200)
+  .action(watchCommand);
+
+program
+  .command('serve [path]')
+  .description('Lance le dashboard local (audit, diffs, corrections en un clic)')
   .option('-p, --port <port>', 'Port du serveur', (v) => parseInt(v, 10), 3000)
-  .action(serveCommand);
+  .option('-H, --host <host>', 'Adresse d\'écoute', '127.0.0.1')
+  .option('-c, --config <file>', 'Fichier de configuration (défaut: <path>/inopay.config.json)')
+  .option('--no-cache', 'Ignorer le cache de scan incrémental')
+  .action((path: string | undefined, options) => serveCommand(path ?? '.', options));
 
 // Help customization
 program.addHelpText('after', `
@@ -1159,7 +1842,11 @@ ${chalk.dim('Exemples:')}
   ${chalk.cyan('$')} inopay liberate ./my-project
   ${chalk.cyan('$')} inopay liberate ./my-project -o ./output --verbose
   ${chalk.cyan('$')} inopay audit ./my-project --format json
+  ${chalk.cyan('$')} inopay audit . --format sarif --fail-on critical > inopay.sarif
   ${chalk.cyan('$')} inopay scan ./my-project
+  ${chalk.cyan('$')} inopay diff ./my-project -o liberation.patch
+  ${chalk.cyan('$')} inopay watch ./my-project
+  ${chalk.cyan('$')} inopay serve ./my-project --port 8080
 
 ${chalk.dim('Plus d\'infos:')} ${chalk.underline('https://inopay.app/cli')}
 `);
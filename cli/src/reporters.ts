@@ -0,0 +1,238 @@
+/**
+ * INOPAY CLI - Rapports CI
+ * ========================
+ * Formats SARIF 2.1.0 (annotations code-scanning) et JUnit XML (tableaux de bord CI)
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+import type { ScanIssue, ScanResult, Severity, SovereigntyRule } from './types.js';
+
+export type OutputFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+const SEVERITY_RANK: Record<Severity, number> = { critical: 3, major: 2, minor: 1 };
+
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  major: 'warning',
+  minor: 'note',
+};
+
+const PROPRIETARY_FILE_RULE = {
+  id: 'inopay/proprietary-file',
+  name: 'Fichier propriétaire',
+  suggestion: 'Supprimer le fichier de configuration propriétaire',
+};
+
+interface ReportOptions {
+  version: string;
+  patterns: SovereigntyRule[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SEUILS
+// ═══════════════════════════════════════════════════════════════
+
+export function isSeverity(value: string): value is Severity {
+  return value in SEVERITY_RANK;
+}
+
+export function meetsThreshold(severity: Severity, threshold: Severity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+}
+
+/**
+ * Nombre de problèmes au-dessus du seuil (les fichiers propriétaires comptent comme critiques)
+ */
+export function countFailures(result: ScanResult, threshold: Severity): number {
+  const issues = result.issues.filter(i => meetsThreshold(i.severity, threshold)).length;
+  return issues + result.proprietaryFiles.length;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SARIF 2.1.0
+// ═══════════════════════════════════════════════════════════════
+
+export function sarifRuleId(registryId: string): string {
+  return `inopay/${registryId}`;
+}
+
+function toUri(file: string): string {
+  return file.split('\\').join('/').split('/').map(encodeURIComponent).join('/');
+}
+
+export function toSarif(result: ScanResult, options: ReportOptions): string {
+  const rules = [
+    ...options.patterns.map(p => ({
+      id: sarifRuleId(p.id),
+      name: p.name,
+      shortDescription: { text: p.name },
+      help: { text: p.suggestion },
+      defaultConfiguration: { level: SARIF_LEVELS[p.severity] },
+      properties: { tags: ['sovereignty', p.category, p.severity] },
+    })),
+    {
+      id: PROPRIETARY_FILE_RULE.id,
+      name: PROPRIETARY_FILE_RULE.name,
+      shortDescription: { text: PROPRIETARY_FILE_RULE.name },
+      help: { text: PROPRIETARY_FILE_RULE.suggestion },
+      defaultConfiguration: { level: SARIF_LEVELS.critical },
+      properties: { tags: ['sovereignty', 'critical'] },
+    },
+  ];
+
+  const ruleIndex = new Map(rules.map((rule, i) => [rule.id, i]));
+
+  const issueResults = result.issues.map((issue: ScanIssue) => {
+    const id = sarifRuleId(issue.ruleId);
+    return {
+      ruleId: id,
+      ruleIndex: ruleIndex.get(id),
+      level: SARIF_LEVELS[issue.severity],
+      message: { text: `${issue.pattern}: ${issue.suggestion}` },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: toUri(issue.file), uriBaseId: '%SRCROOT%' },
+          region: {
+            startLine: issue.line,
+            startColumn: issue.column,
+            endColumn: issue.column + issue.matched.length,
+            snippet: { text: issue.matched },
+          },
+        },
+      }],
+    };
+  });
+
+  const fileResults = result.proprietaryFiles.map(file => ({
+    ruleId: PROPRIETARY_FILE_RULE.id,
+    ruleIndex: ruleIndex.get(PROPRIETARY_FILE_RULE.id),
+    level: SARIF_LEVELS.critical,
+    message: { text: `${PROPRIETARY_FILE_RULE.name}: ${PROPRIETARY_FILE_RULE.suggestion}` },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: { uri: toUri(file), uriBaseId: '%SRCROOT%' },
+      },
+    }],
+  }));
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'inopay',
+          version: options.version,
+          informationUri: 'https://inopay.app/cli',
+          rules,
+        },
+      },
+      results: [...issueResults, ...fileResults],
+      properties: {
+        score: result.score,
+        grade: result.grade,
+        summary: result.summary,
+      },
+    }],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// JUNIT XML
+// ═══════════════════════════════════════════════════════════════
+
+function escapeXml(value: string): string {
+  return value
+    // Caractères de contrôle interdits en XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Un testcase par problème: en échec au-dessus du seuil, ignoré (skipped) en dessous
+ */
+export function toJUnit(result: ScanResult, threshold: Severity): string {
+  const byFile = new Map<string, string[]>();
+  let failures = 0;
+  let skipped = 0;
+
+  const addCase = (file: string, xml: string) => {
+    const cases = byFile.get(file) || [];
+    cases.push(xml);
+    byFile.set(file, cases);
+  };
+
+  for (const file of result.proprietaryFiles) {
+    failures++;
+    addCase(file, [
+      `    <testcase classname="${escapeXml(file)}" name="${escapeXml(PROPRIETARY_FILE_RULE.name)}">`,
+      `      <failure type="critical" message="${escapeXml(PROPRIETARY_FILE_RULE.suggestion)}">${escapeXml(file)}</failure>`,
+      '    </testcase>',
+    ].join('\n'));
+  }
+
+  for (const issue of result.issues) {
+    const name = `${issue.pattern} (L${issue.line}:${issue.column})`;
+    const location = `${issue.file}:${issue.line}:${issue.column}`;
+
+    if (meetsThreshold(issue.severity, threshold)) {
+      failures++;
+      addCase(issue.file, [
+        `    <testcase classname="${escapeXml(issue.file)}" name="${escapeXml(name)}">`,
+        `      <failure type="${issue.severity}" message="${escapeXml(issue.suggestion)}">${escapeXml(`${location}\n${issue.matched}`)}</failure>`,
+        '    </testcase>',
+      ].join('\n'));
+    } else {
+      skipped++;
+      addCase(issue.file, [
+        `    <testcase classname="${escapeXml(issue.file)}" name="${escapeXml(name)}">`,
+        `      <skipped message="${escapeXml(`${issue.severity}: ${issue.suggestion}`)}"/>`,
+        '    </testcase>',
+      ].join('\n'));
+    }
+  }
+
+  const suites: string[] = [];
+  for (const [file, cases] of byFile) {
+    const suiteFailures = cases.filter(c => c.includes('<failure')).length;
+    const suiteSkipped = cases.filter(c => c.includes('<skipped')).length;
+    suites.push([
+      `  <testsuite name="${escapeXml(file)}" tests="${cases.length}" failures="${suiteFailures}" skipped="${suiteSkipped}" errors="0">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n'));
+  }
+
+  // Suite de synthèse toujours présente pour que le rapport ne soit jamais vide
+  const scoreFailed = failures > 0;
+  suites.unshift([
+    `  <testsuite name="inopay.sovereignty" tests="1" failures="${scoreFailed ? 1 : 0}" skipped="0" errors="0">`,
+    `    <testcase classname="inopay" name="Score de souveraineté ${result.score}/100 (${result.grade})">`,
+    scoreFailed
+      ? `      <failure type="${threshold}" message="${failures} problème(s) de niveau ${threshold} ou supérieur"/>`
+      : null,
+    '    </testcase>',
+    '  </testsuite>',
+  ].filter(Boolean).join('\n'));
+
+  const tests = result.issues.length + result.proprietaryFiles.length + 1;
+  const totalFailures = failures + (scoreFailed ? 1 : 0);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="inopay" tests="${tests}" failures="${totalFailures}" skipped="${skipped}" errors="0">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,256 @@
+/**
+ * INOPAY CLI - Dashboard local
+ * ============================
+ * Serveur HTTP local (aucun appel à Supabase): API JSON + interface hors-ligne (dashboard/index.html)
+ *
+ * GET  /api/project         - Informations projet
+ * GET  /api/scan            - Résultat d'audit (score, grade, problèmes)
+ * GET  /api/changes         - Fichiers modifiés / supprimés / ajoutés par liberate
+ * GET  /api/diff?file=<f>   - Contenu avant/après et opérations de diff ligne à ligne
+ * POST /api/fix             - Corrige une détection { file, line, column, pattern, matched }
+ * POST /api/fix-file        - Applique toutes les corrections d'un fichier { file }
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import type { DiffOp } from './diff.js';
+import type { ScanIssue, ScanResult } from './types.js';
+
+const MAX_BODY_SIZE = 64 * 1024;
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface ProjectInfo {
+  name: string;
+  path: string;
+  version: string;
+  configPath: string | null;
+}
+
+export interface ChangeSummary {
+  file: string;
+  type: 'modified' | 'removed' | 'added';
+  additions: number;
+  deletions: number;
+}
+
+export interface FilePreview {
+  file: string;
+  type: ChangeSummary['type'] | 'unchanged';
+  before: string | null;
+  after: string | null;
+  ops: DiffOp[];
+}
+
+export type IssueRef = Pick<ScanIssue, 'file' | 'line' | 'column' | 'pattern' | 'matched'>;
+
+/**
+ * Moteur de libération fourni par la CLI (scan, diff, corrections)
+ */
+export interface DashboardEngine {
+  project(): ProjectInfo;
+  scan(): ScanResult;
+  changes(): ChangeSummary[];
+  preview(file: string): FilePreview;
+  fixIssue(issue: IssueRef): void;
+  fixFile(file: string): void;
+}
+
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS HTTP
+// ═══════════════════════════════════════════════════════════════
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new HttpError(413, 'Requête trop volumineuse'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          throw new Error('not an object');
+        }
+        resolve(body);
+      } catch (e) {
+        reject(new HttpError(400, 'Corps JSON invalide'));
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
+
+function requireString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value !== 'string' || !value) {
+    throw new HttpError(400, `Champ "${key}" requis`);
+  }
+  return value;
+}
+
+function requirePositiveInt(body: Record<string, unknown>, key: string): number {
+  const value = body[key];
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new HttpError(400, `Champ "${key}" invalide`);
+  }
+  return value;
+}
+
+/**
+ * Origines du dashboard : liste fixe, jamais déduite des en-têtes de la requête
+ * (une page ayant détourné le DNS contrôle à la fois Host et Origin)
+ */
+function localOrigins(port: number): Set<string> {
+  return new Set([`http://127.0.0.1:${port}`, `http://localhost:${port}`]);
+}
+
+/**
+ * Toute requête doit viser 127.0.0.1 ou localhost (protection DNS rebinding)
+ */
+function assertLocalHost(req: IncomingMessage, origins: Set<string>) {
+  const host = String(req.headers.host || '').toLowerCase();
+  if (!origins.has(`http://${host}`)) {
+    throw new HttpError(403, 'Hôte non autorisé');
+  }
+}
+
+/**
+ * Les écritures ne sont acceptées que depuis le dashboard lui-même (protection CSRF)
+ */
+function assertSameOrigin(req: IncomingMessage, origins: Set<string>) {
+  const origin = req.headers.origin;
+  if (origin && !origins.has(origin.toLowerCase())) {
+    throw new HttpError(403, 'Origine non autorisée');
+  }
+  if (!String(req.headers['content-type'] || '').startsWith('application/json')) {
+    throw new HttpError(415, 'Content-Type application/json requis');
+  }
+}
+
+function loadDashboardHtml(): string {
+  // Même chemin relatif depuis src/ (tsx) et dist/ (build)
+  const htmlPath = fileURLToPath(new URL('../dashboard/index.html', import.meta.url));
+  return readFileSync(htmlPath, 'utf-8');
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ROUTAGE
+// ═══════════════════════════════════════════════════════════════
+
+async function route(engine: DashboardEngine, html: string, origins: Set<string>, req: IncomingMessage, res: ServerResponse) {
+  assertLocalHost(req, origins);
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  const method = req.method || 'GET';
+
+  if (method === 'GET' && (url.pathname === '/' || url.pathname === '/index.html')) {
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Security-Policy': "default-src 'self'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; connect-src 'self'",
+    });
+    res.end(html);
+    return;
+  }
+
+  if (method === 'GET' && url.pathname === '/api/project') {
+    return sendJson(res, 200, engine.project());
+  }
+
+  if (method === 'GET' && url.pathname === '/api/scan') {
+    return sendJson(res, 200, engine.scan());
+  }
+
+  if (method === 'GET' && url.pathname === '/api/changes') {
+    return sendJson(res, 200, engine.changes());
+  }
+
+  if (method === 'GET' && url.pathname === '/api/diff') {
+    const file = url.searchParams.get('file');
+    if (!file) throw new HttpError(400, 'Paramètre "file" requis');
+    return sendJson(res, 200, engine.preview(file));
+  }
+
+  if (method === 'POST' && url.pathname === '/api/fix') {
+    assertSameOrigin(req, origins);
+    const body = await readJsonBody(req);
+    engine.fixIssue({
+      file: requireString(body, 'file'),
+      line: requirePositiveInt(body, 'line'),
+      column: requirePositiveInt(body, 'column'),
+      pattern: requireString(body, 'pattern'),
+      matched: requireString(body, 'matched'),
+    });
+    return sendJson(res, 200, engine.scan());
+  }
+
+  if (method === 'POST' && url.pathname === '/api/fix-file') {
+    assertSameOrigin(req, origins);
+    const body = await readJsonBody(req);
+    engine.fixFile(requireString(body, 'file'));
+    return sendJson(res, 200, engine.scan());
+  }
+
+  throw new HttpError(404, 'Route inconnue');
+}
+
+/**
+ * Démarre le dashboard local. Le serveur n'écoute que sur l'hôte demandé (127.0.0.1 par défaut)
+ * et ne répond qu'aux requêtes adressées à 127.0.0.1:<port> ou localhost:<port>.
+ */
+export function startDashboardServer(engine: DashboardEngine, options: { port: number; host: string }): Promise<Server> {
+  const html = loadDashboardHtml();
+  let origins = localOrigins(options.port);
+
+  const server = createServer((req, res) => {
+    route(engine, html, origins, req, res).catch((error: unknown) => {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : 'Erreur interne';
+      if (!res.headersSent) {
+        sendJson(res, status, { error: message });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      // Port réellement attribué (options.port peut valoir 0)
+      origins = localOrigins((server.address() as AddressInfo).port);
+      resolve(server);
+    });
+  });
+}
@@ -0,0 +1,39 @@
+/**
+ * INOPAY CLI - Types partagés
+ * ===========================
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+import type { RuleSeverity, SovereigntyRule } from './rules.js';
+
+export type Severity = RuleSeverity;
+
+export type { SovereigntyRule };
+
+export interface ScanIssue {
+  file: string;
+  ruleId: string;
+  line: number;
+  column: number;
+  pattern: string;
+  matched: string;
+  severity: Severity;
+  suggestion: string;
+  /** Correction automatique possible (le fix de la règle n'est pas "manual") */
+  fixable: boolean;
+}
+
+export interface ScanResult {
+  issues: ScanIssue[];
+  proprietaryFiles: string[];
+  totalFiles: number;
+  totalLines: number;
+  score: number;
+  grade: string;
+  summary: {
+    critical: number;
+    major: number;
+    minor: number;
+  };
+}
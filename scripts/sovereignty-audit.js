@@ -60,6 +60,10 @@ const IGNORE_PATTERNS = [
   'scripts/sovereignty-audit.js', // S'ignorer soi-même
   'src/lib/security-cleaner.ts', // Contient les patterns à titre de référence
   'src/lib/sovereigntyReport.ts', // Contient les patterns à titre de référence
+  'src/lib/sovereigntyRules.ts', // Registre de règles (et ses copies générées)
+  'cli/src/rules.ts',
+  'backend/src/services/sovereigntyRules.ts',
+  'supabase/functions/_shared/sovereignty-rules.ts',
   'STABILITY_REPORT.md',
   'MIGRATION_GUIDE.md',
 ];
@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+/**
+ * INOPAY - Synchronisation des modules partagés
+ * ==============================================================
+ * Copie les modules source uniques de src/lib (registre de règles de
+ * souveraineté, moteur de diff de schéma, transfert de données, de
+ * stockage et des comptes utilisateurs, fournisseurs LLM) vers la CLI, le backend et les edge functions, qui ne peuvent
+ * pas importer hors de leur dossier.
+ *
+ * Usage: node scripts/sync-sovereignty-rules.js [--check]
+ *   --check  n'écrit rien, échoue si une copie diverge (CI)
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const MODULES = [
+  {
+    source: 'src/lib/sovereigntyRules.ts',
+    targets: [
+      'cli/src/rules.ts',
+      'backend/src/services/sovereigntyRules.ts',
+      'supabase/functions/_shared/sovereignty-rules.ts',
+    ],
+  },
+  {
+    source: 'src/lib/pgExpressionParser.ts',
+    targets: ['supabase/functions/_shared/pg-expression-parser.ts'],
+  },
+  {
+    source: 'src/lib/schemaDiff.ts',
+    targets: ['supabase/functions/_shared/schema-diff.ts'],
+  },
+  {
+    source: 'src/lib/dataMover.ts',
+    targets: ['supabase/functions/_shared/data-mover.ts'],
+  },
+  {
+    source: 'src/lib/storageMigration.ts',
+    targets: ['supabase/functions/_shared/storage-migration.ts'],
+  },
+  {
+    source: 'src/lib/authUserMigration.ts',
+    targets: ['supabase/functions/_shared/auth-user-migration.ts'],
+  },
+  {
+    source: 'src/lib/llmProviders.ts',
+    targets: ['supabase/functions/_shared/llm-providers.ts'],
+  },
+];
+
+// Imports entre modules synchronisés, réécrits pour Deno (extension .ts explicite)
+const DENO_IMPORTS = {
+  './pgExpressionParser': './pg-expression-parser.ts',
+  './dataMover': './data-mover.ts',
+};
+
+const CHECK = process.argv.includes('--check');
+
+const header = (source) => [
+  `// AUTO-GÉNÉRÉ depuis ${source} par scripts/sync-sovereignty-rules.js - NE PAS MODIFIER.`,
+  '// Modifier le fichier source puis lancer `npm run rules:sync`.',
+  '',
+].join('\n');
+
+const rewriteImports = (content, target) => {
+  if (!target.startsWith('supabase/functions/')) return content;
+  return Object.entries(DENO_IMPORTS).reduce(
+    (result, [from, to]) => result.split(`from '${from}'`).join(`from '${to}'`),
+    content
+  );
+};
+
+const stale = [];
+let count = 0;
+
+for (const { source, targets } of MODULES) {
+  const content = header(source) + readFileSync(join(ROOT, source), 'utf-8');
+
+  for (const target of targets) {
+    count++;
+    const expected = rewriteImports(content, target);
+    const targetPath = join(ROOT, target);
+    const current = existsSync(targetPath) ? readFileSync(targetPath, 'utf-8') : null;
+
+    if (current === expected) continue;
+
+    if (CHECK) {
+      stale.push(target);
+    } else {
+      writeFileSync(targetPath, expected);
+      console.log(`✓ ${target}`);
+    }
+  }
+}
+
+if (CHECK) {
+  if (stale.length > 0) {
+    console.error(`✗ Modules désynchronisés: ${stale.join(', ')}`);
+    console.error('  Lancer `npm run rules:sync`');
+    process.exit(1);
+  }
+  console.log(`✓ ${count} copies à jour`);
+}
@@ -39,6 +39,8 @@ interface EstimationResult {
   estimatedInputTokens: number;
   estimatedOutputTokens: number;
   estimatedCostCents: number;
+  pricingModel?: 'hosted' | 'local';
+  clientAIProvider?: string | null;
   salePriceCents: number;
   marginCents: number;
   marginPercentage: number;
@@ -51,6 +53,8 @@ interface EstimationResult {
 interface CleaningCostEstimatorProps {
   files: Array<{ path: string; content: string }>;
   projectName: string;
+  /** Local provider (ollama, lmstudio...) the client runs: recorded with the estimate, pricing is decided server-side */
+  aiProvider?: string;
   onEstimationComplete?: (estimation: EstimationResult) => void;
   onProceed?: () => void;
 }
@@ -71,6 +75,7 @@ const DEFAULT_EXCLUDED = [
 export function CleaningCostEstimator({ 
   files, 
   projectName, 
+  aiProvider,
   onEstimationComplete,
   onProceed 
 }: CleaningCostEstimatorProps) {
@@ -104,6 +109,7 @@ export function CleaningCostEstimator({
           files: files.map(f => ({ path: f.path, content: f.content })),
           projectName,
           excludedPaths,
+          aiProvider,
         },
       });
 
@@ -299,7 +305,10 @@ export function CleaningCostEstimator({
             <div className="bg-card border border-border rounded-lg p-4">
               <div className="flex items-center justify-between mb-3">
                 <span className="text-muted-foreground">Coût API estimé :</span>
-                <span className="font-mono text-foreground">{formatCurrency(estimation.estimatedCostCents)}</span>
+                <div className="flex items-center gap-2">
+                  {estimation.pricingModel === 'local' && <Badge variant="secondary">IA locale</Badge>}
+                  <span className="font-mono text-foreground">{formatCurrency(estimation.estimatedCostCents)}</span>
+                </div>
               </div>
               <div className="flex items-center justify-between mb-3">
                 <span className="text-muted-foreground">Prix de vente :</span>
@@ -15,7 +15,9 @@ import {
   History,
   Globe,
   Zap,
-  FileText
+  FileText,
+  GitCommit,
+  RotateCcw
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
@@ -23,6 +25,7 @@ import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 import { fr, enUS } from "date-fns/locale";
 import { useTranslation } from "react-i18next";
+import type { Json } from "@/integrations/supabase/types";
 
 interface DeploymentRecord {
   id: string;
@@ -34,6 +37,13 @@ interface DeploymentRecord {
   status: string;
   deployed_url: string | null;
   created_at: string;
+  server_id: string | null;
+  coolify_app_uuid: string | null;
+  commit_sha: string | null;
+  image_tag: string | null;
+  env_snapshot: Json | null;
+  rollback_of: string | null;
+  rollback_reason: string | null;
 }
 
 interface DeploymentHistoryProps {
@@ -46,6 +56,7 @@ export function DeploymentHistory({ onRefresh }: DeploymentHistoryProps) {
   const [deployments, setDeployments] = useState<DeploymentRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
   
   const dateLocale = i18n.language === 'fr' ? fr : enUS;
 
@@ -94,6 +105,70 @@ export function DeploymentHistory({ onRefresh }: DeploymentHistoryProps) {
     }
   };
 
+  const getVersionLabel = (deployment: DeploymentRecord) =>
+    deployment.commit_sha?.slice(0, 7) || deployment.image_tag || "";
+
+  // Redeploys the exact commit/image and environment of a previous Coolify release
+  const handleRollback = async (deployment: DeploymentRecord) => {
+    setRollingBack(deployment.id);
+    try {
+      const { data, error } = await supabase.functions.invoke("rollback-deployment", {
+        body: { history_id: deployment.id }
+      });
+
+      if (error) throw error;
+      if (!data?.rolled_back) throw new Error(data?.error || "Rollback refused");
+
+      toast.success(t("deploymentHistory.rollbackStarted", { version: getVersionLabel(deployment) }));
+      fetchDeployments();
+    } catch (error) {
+      console.error("Error rolling back deployment:", error);
+      toast.error(t("deploymentHistory.rollbackError"));
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  // Latest live release of each Coolify application: nothing to roll back to
+  const liveReleaseIds = new Set<string>();
+  const seenApps = new Set<string>();
+  for (const deployment of deployments) {
+    if (!deployment.coolify_app_uuid || !["success", "deploying"].includes(deployment.status)) continue;
+    const appKey = `${deployment.server_id}:${deployment.coolify_app_uuid}`;
+    if (seenApps.has(appKey)) continue;
+    seenApps.add(appKey);
+    liveReleaseIds.add(deployment.id);
+  }
+
+  const canRollback = (deployment: DeploymentRecord) =>
+    deployment.status === "success" &&
+    !!deployment.server_id &&
+    !!deployment.coolify_app_uuid &&
+    !!(deployment.commit_sha || deployment.image_tag) &&
+    !liveReleaseIds.has(deployment.id);
+
+  const getStatusBadge = (deployment: DeploymentRecord) => {
+    switch (deployment.status) {
+      case "deploying":
+        return (
+          <Badge variant="outline" className="gap-1 text-xs">
+            <RefreshCw className="h-3 w-3 animate-spin" />
+            {t("deploymentHistory.status.deploying")}
+          </Badge>
+        );
+      case "failed":
+        return <Badge variant="destructive" className="text-xs">{t("deploymentHistory.status.failed")}</Badge>;
+      case "rolled_back":
+        return (
+          <Badge variant="outline" className="text-xs border-destructive/40 text-destructive">
+            {t("deploymentHistory.status.rolledBack")}
+          </Badge>
+        );
+      default:
+        return <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />;
+    }
+  };
+
   const getProviderIcon = (provider: string) => {
     const providerLower = provider.toLowerCase();
     if (providerLower.includes("ionos")) return "🔵";
@@ -193,7 +268,20 @@ export function DeploymentHistory({ onRefresh }: DeploymentHistoryProps) {
                   <span className="font-medium text-foreground truncate">
                     {deployment.project_name}
                   </span>
-                  <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />
+                  {getStatusBadge(deployment)}
+                  {liveReleaseIds.has(deployment.id) && deployment.status === "success" && (
+                    <Badge variant="outline" className="text-xs bg-green-500/10 border-green-500/30 text-green-600">
+                      {t("deploymentHistory.live")}
+                    </Badge>
+                  )}
+                  {deployment.rollback_of && (
+                    <Badge variant="outline" className="gap-1 text-xs">
+                      <RotateCcw className="h-3 w-3" />
+                      {deployment.rollback_reason === "manual"
+                        ? t("deploymentHistory.rollbackBadge")
+                        : t("deploymentHistory.autoRollbackBadge")}
+                    </Badge>
+                  )}
                   {/* Security badge for direct deployments */}
                   {deployment.deployment_type === "direct" && (
                     <SecurityBadge type="ultra-rapide" size="default" />
@@ -202,7 +290,19 @@ export function DeploymentHistory({ onRefresh }: DeploymentHistoryProps) {
                 <div className="flex items-center gap-2 text-sm text-muted-foreground mt-0.5">
                   <span>{deployment.provider}</span>
                   <span>•</span>
-                  <span>{t("deploymentHistory.filesCount", { count: deployment.files_uploaded })}</span>
+                  {getVersionLabel(deployment) ? (
+                    <span
+                      className="flex items-center gap-1 font-mono text-xs"
+                      title={t("deploymentHistory.envVars", {
+                        count: (deployment.env_snapshot as { keys?: string[] } | null)?.keys?.length ?? 0
+                      })}
+                    >
+                      <GitCommit className="h-3 w-3" />
+                      {getVersionLabel(deployment)}
+                    </span>
+                  ) : (
+                    <span>{t("deploymentHistory.filesCount", { count: deployment.files_uploaded })}</span>
+                  )}
                   <span>•</span>
                   <Clock className="h-3 w-3" />
                   <span>
@@ -221,6 +321,22 @@ export function DeploymentHistory({ onRefresh }: DeploymentHistoryProps) {
 
               {/* Actions */}
               <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {canRollback(deployment) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRollback(deployment)}
+                    disabled={rollingBack !== null}
+                    className="h-8 px-2 gap-1"
+                  >
+                    {rollingBack === deployment.id ? (
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4" />
+                    )}
+                    <span className="hidden md:inline text-xs">{t("deploymentHistory.rollback")}</span>
+                  </Button>
+                )}
                 {/* Liberation Report Button */}
                 <Button
                   variant="ghost"
@@ -63,6 +63,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { analyzeZipFile, analyzeFromGitHub, RealAnalysisResult } from "@/lib/zipAnalyzer";
 import { validatePack, type PackValidationResult } from "@/lib/packValidator";
+import { cascadeRemovals } from "@/lib/importGraph";
 import {
   shouldRemoveFile,
   cleanPackageJson,
@@ -899,6 +900,7 @@ export function LiberationPackHub({ initialConfig }: LiberationPackHubProps) {
     };
     
     const cleaned: Record<string, string> = {};
+    const removedFiles: Record<string, string> = {};
     const edgeFuncs: Array<{ name: string; content: string }> = [];
     let schema: string | null = null;
     
@@ -909,6 +911,7 @@ export function LiberationPackHub({ initialConfig }: LiberationPackHubProps) {
     for (const [path, content] of files) {
       // Check if file should be completely removed
       if (shouldRemoveFile(path)) {
+        removedFiles[path] = content;
         stats.filesRemoved++;
         continue;
       }
@@ -918,6 +921,7 @@ export function LiberationPackHub({ initialConfig }: LiberationPackHubProps) {
       for (const propPath of PROPRIETARY_PATHS) {
         if (path.includes(propPath)) {
           isProprietaryPath = true;
+          removedFiles[path] = content;
           stats.filesRemoved++;
           break;
         }
@@ -927,12 +931,14 @@ export function LiberationPackHub({ initialConfig }: LiberationPackHubProps) {
       
       // Check if analysis flagged this file
       if (analysis.filesToRemove.includes(path)) {
+        removedFiles[path] = content;
         stats.filesRemoved++;
         continue;
       }
       
       // EXTRA: Remove any integrations folder content
       if (path.includes('/integrations/')) {
+        removedFiles[path] = content;
         stats.filesRemoved++;
         continue;
       }
@@ -1153,11 +1159,31 @@ export type Tables<T extends keyof Database['public']['Tables']> = Database['pub
       stats.polyfillsGenerated++;
     }
     
+    // ========== Cascade removals through the import graph ==========
+    setProgressMessage("Suppression du code mort (graphe d'imports)...");
+    
+    const deadCode = cascadeRemovals(
+      { ...cleaned, ...removedFiles },
+      Object.keys(removedFiles),
+      { keep: Object.keys(cleaned).filter(path => !files.has(path)) }
+    );
+    for (const path of Object.keys(cleaned)) {
+      if (!(path in deadCode.files)) delete cleaned[path];
+    }
+    Object.assign(cleaned, deadCode.files);
+    stats.filesRemoved += deadCode.removedModules.filter(m => m.reason === 'unreachable').length;
+    
     // ========== PHASE 5: Validate pack ==========
     setProgress(90);
     setProgressMessage("Validation TypeScript...");
     
     const validation = validatePack(cleaned);
+    const stubbedImports = deadCode.danglingImports.filter(fix => fix.action === 'stubbed');
+    if (stubbedImports.length > 0) {
+      validation.suggestions.push(
+        `${stubbedImports.length} import(s) orphelin(s) remplacé(s) par des stubs [STUB] : ${stubbedImports.map(fix => `${fix.file}:${fix.line}`).join(', ')}`
+      );
+    }
     setValidationResult(validation);
     setIsCodeValid(validation.isValid);
     
@@ -19,6 +19,7 @@ import {
   Shield
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { streamLiberationProgress, type LiberationProgressEvent } from '@/lib/liberationProgressStream';
 import { toast } from 'sonner';
 
 interface PipelineStep {
@@ -97,6 +98,7 @@ export function LiberationPipeline({
   ]);
   const [result, setResult] = useState<LiberationResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [liveProgress, setLiveProgress] = useState(0);
 
   const updateStepStatus = (stepId: string, status: PipelineStep['status'], message?: string, result?: any) => {
     setSteps(prev => prev.map(step => 
@@ -104,10 +106,24 @@ export function LiberationPipeline({
     ));
   };
 
+  // Live events from the audit stream: the edge function reports each step as it runs
+  const applyProgressEvent = (event: LiberationProgressEvent) => {
+    setLiveProgress(event.progress);
+    if (event.type !== 'progress' || !event.step) return;
+
+    const stepIndex = steps.findIndex(step => step.id === event.step);
+    if (stepIndex >= 0) setCurrentStep(stepIndex);
+
+    const counter = event.filesTotal ? ` (${event.filesProcessed ?? 0}/${event.filesTotal})` : '';
+    updateStepStatus(event.step, 'running', `${event.message}${counter}`);
+  };
+
   const runPipeline = async () => {
     setIsRunning(true);
     setError(null);
     setResult(null);
+    setLiveProgress(0);
+    let progressStream: ReturnType<typeof streamLiberationProgress> | null = null;
 
     // Reset all steps
     setSteps(prev => prev.map(step => ({ ...step, status: 'pending', message: undefined })));
@@ -124,6 +140,15 @@ export function LiberationPipeline({
 
       const filesArray = Array.from(files.entries()).map(([path, content]) => ({ path, content }));
 
+      // The job row appears once the function starts: early 404s are retried
+      const jobId = crypto.randomUUID();
+      progressStream = streamLiberationProgress({
+        url: `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/audit?id=${jobId}`,
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+        maxReconnects: 10,
+        onEvent: applyProgressEvent,
+      });
+
       const response = await fetch(
         `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-project-liberation`,
         {
@@ -137,6 +162,7 @@ export function LiberationPipeline({
             projectName,
             projectId,
             userId: session.user.id,
+            jobId,
           }),
         }
       );
@@ -147,6 +173,7 @@ export function LiberationPipeline({
       }
 
       const data = await response.json() as LiberationResult;
+      progressStream.close();
       setResult(data);
 
       // Update cleaning step
@@ -164,10 +191,6 @@ export function LiberationPipeline({
 
       // Step 2: GitHub
       setCurrentStep(1);
-      updateStepStatus('github', 'running', 'Push vers votre dépôt GitHub...');
-      
-      // Simulate a small delay for UX
-      await new Promise(resolve => setTimeout(resolve, 500));
 
       if (data.phases.github.success) {
         updateStepStatus(
@@ -189,9 +212,6 @@ export function LiberationPipeline({
       setCurrentStep(2);
       
       if (data.phases.github.success) {
-        updateStepStatus('build', 'running', 'Déclenchement du build sur Coolify...');
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
         if (data.phases.coolify.success) {
           updateStepStatus('build', 'success', 'Build déclenché avec succès');
         } else {
@@ -205,8 +225,6 @@ export function LiberationPipeline({
       setCurrentStep(3);
       
       if (data.phases.coolify.success && data.phases.coolify.deploymentUrl) {
-        updateStepStatus('deploy', 'running', 'Finalisation du déploiement...');
-        await new Promise(resolve => setTimeout(resolve, 1000));
         updateStepStatus(
           'deploy', 
           'success', 
@@ -243,13 +261,15 @@ export function LiberationPipeline({
         updateStepStatus(currentStepId, 'error', message);
       }
     } finally {
+      progressStream?.close();
       setIsRunning(false);
     }
   };
 
   const getOverallProgress = () => {
     const completedSteps = steps.filter(s => s.status === 'success').length;
-    return (completedSteps / steps.length) * 100;
+    const fromSteps = (completedSteps / steps.length) * 100;
+    return isRunning ? Math.max(fromSteps, liveProgress) : fromSteps;
   };
 
   const getStepIcon = (step: PipelineStep) => {
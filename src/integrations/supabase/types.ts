@@ -203,6 +203,7 @@ export type Database = {
           admin_approved: boolean | null
           admin_approved_at: string | null
           admin_approved_by: string | null
+          client_ai_provider: string | null
           created_at: string
           estimated_cost_cents: number
           estimated_tokens: number
@@ -226,6 +227,7 @@ export type Database = {
           admin_approved?: boolean | null
           admin_approved_at?: string | null
           admin_approved_by?: string | null
+          client_ai_provider?: string | null
           created_at?: string
           estimated_cost_cents?: number
           estimated_tokens?: number
@@ -249,6 +251,7 @@ export type Database = {
           admin_approved?: boolean | null
           admin_approved_at?: string | null
           admin_approved_by?: string | null
+          client_ai_provider?: string | null
           created_at?: string
           estimated_cost_cents?: number
           estimated_tokens?: number
@@ -281,20 +284,31 @@ export type Database = {
           archive_generated_at: string | null
           archive_path: string | null
           cleaned_dependencies: string[] | null
+          commit_sha: string | null
+          coolify_app_uuid: string | null
+          coolify_deployment_uuid: string | null
           coolify_url: string | null
           cost_analysis: Json | null
           created_at: string
           deployed_url: string | null
           deployment_type: string
+          env_snapshot: Json | null
           files_uploaded: number | null
+          git_branch: string | null
           host: string | null
           hosting_type: string | null
           id: string
+          image_name: string | null
+          image_tag: string | null
           liberation_report_generated: boolean | null
           portability_score_after: number | null
           portability_score_before: number | null
           project_name: string
           provider: string
+          rollback_of: string | null
+          rollback_reason: string | null
+          server_deployment_id: string | null
+          server_id: string | null
           server_ip: string | null
           services_replaced: Json | null
           status: string
@@ -304,20 +318,31 @@ export type Database = {
           archive_generated_at?: string | null
           archive_path?: string | null
           cleaned_dependencies?: string[] | null
+          commit_sha?: string | null
+          coolify_app_uuid?: string | null
+          coolify_deployment_uuid?: string | null
           coolify_url?: string | null
           cost_analysis?: Json | null
           created_at?: string
           deployed_url?: string | null
           deployment_type?: string
+          env_snapshot?: Json | null
           files_uploaded?: number | null
+          git_branch?: string | null
           host?: string | null
           hosting_type?: string | null
           id?: string
+          image_name?: string | null
+          image_tag?: string | null
           liberation_report_generated?: boolean | null
           portability_score_after?: number | null
           portability_score_before?: number | null
           project_name: string
           provider: string
+          rollback_of?: string | null
+          rollback_reason?: string | null
+          server_deployment_id?: string | null
+          server_id?: string | null
           server_ip?: string | null
           services_replaced?: Json | null
           status?: string
@@ -327,26 +352,59 @@ export type Database = {
           archive_generated_at?: string | null
           archive_path?: string | null
           cleaned_dependencies?: string[] | null
+          commit_sha?: string | null
+          coolify_app_uuid?: string | null
+          coolify_deployment_uuid?: string | null
           coolify_url?: string | null
           cost_analysis?: Json | null
           created_at?: string
           deployed_url?: string | null
           deployment_type?: string
+          env_snapshot?: Json | null
           files_uploaded?: number | null
+          git_branch?: string | null
           host?: string | null
           hosting_type?: string | null
           id?: string
+          image_name?: string | null
+          image_tag?: string | null
           liberation_report_generated?: boolean | null
           portability_score_after?: number | null
           portability_score_before?: number | null
           project_name?: string
           provider?: string
+          rollback_of?: string | null
+          rollback_reason?: string | null
+          server_deployment_id?: string | null
+          server_id?: string | null
           server_ip?: string | null
           services_replaced?: Json | null
           status?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "deployment_history_rollback_of_fkey"
+            columns: ["rollback_of"]
+            isOneToOne: false
+            referencedRelation: "deployment_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deployment_history_server_deployment_id_fkey"
+            columns: ["server_deployment_id"]
+            isOneToOne: false
+            referencedRelation: "server_deployments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deployment_history_server_id_fkey"
+            columns: ["server_id"]
+            isOneToOne: false
+            referencedRelation: "user_servers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       email_campaigns: {
         Row: {
@@ -720,20 +778,70 @@ export type Database = {
           },
         ]
       }
+      liberation_job_events: {
+        Row: {
+          created_at: string
+          data: Json | null
+          id: number
+          job_id: string
+          message: string | null
+          progress: number
+          status: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          data?: Json | null
+          id?: number
+          job_id: string
+          message?: string | null
+          progress?: number
+          status: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json | null
+          id?: number
+          job_id?: string
+          message?: string | null
+          progress?: number
+          status?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "liberation_job_events_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "liberation_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       liberation_jobs: {
         Row: {
+          archive_expires_at: string | null
+          archive_key: string | null
+          attempts: number
           audit_report: Json | null
           audit_score: number | null
+          cancel_requested: boolean
           completed_at: string | null
           created_at: string | null
           error_message: string | null
           files_cleaned: number | null
           files_count: number | null
           id: string
+          input_key: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
           progress: number | null
           project_name: string | null
           proprietary_removed: number | null
           result_url: string | null
+          run_at: string
           source_type: string
           source_url: string | null
           status: string
@@ -741,18 +849,27 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          archive_expires_at?: string | null
+          archive_key?: string | null
+          attempts?: number
           audit_report?: Json | null
           audit_score?: number | null
+          cancel_requested?: boolean
           completed_at?: string | null
           created_at?: string | null
           error_message?: string | null
           files_cleaned?: number | null
           files_count?: number | null
           id?: string
+          input_key?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
           progress?: number | null
           project_name?: string | null
           proprietary_removed?: number | null
           result_url?: string | null
+          run_at?: string
           source_type: string
           source_url?: string | null
           status?: string
@@ -760,18 +877,27 @@ export type Database = {
           user_id: string
         }
         Update: {
+          archive_expires_at?: string | null
+          archive_key?: string | null
+          attempts?: number
           audit_report?: Json | null
           audit_score?: number | null
+          cancel_requested?: boolean
           completed_at?: string | null
           created_at?: string | null
           error_message?: string | null
           files_cleaned?: number | null
           files_count?: number | null
           id?: string
+          input_key?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
           progress?: number | null
           project_name?: string | null
           proprietary_removed?: number | null
           result_url?: string | null
+          run_at?: string
           source_type?: string
           source_url?: string | null
           status?: string
@@ -1063,19 +1189,31 @@ export type Database = {
           count: number
           created_at: string
           key: string
+          previous_count: number
+          refilled_at_ms: number | null
           reset_at: string
+          tokens: number | null
+          window_start_ms: number | null
         }
         Insert: {
           count?: number
           created_at?: string
           key: string
+          previous_count?: number
+          refilled_at_ms?: number | null
           reset_at: string
+          tokens?: number | null
+          window_start_ms?: number | null
         }
         Update: {
           count?: number
           created_at?: string
           key?: string
+          previous_count?: number
+          refilled_at_ms?: number | null
           reset_at?: string
+          tokens?: number | null
+          window_start_ms?: number | null
         }
         Relationships: []
       }
@@ -1160,6 +1298,8 @@ export type Database = {
       server_deployments: {
         Row: {
           auto_restart_count: number | null
+          auto_rollback_after_failures: number
+          auto_rollback_enabled: boolean
           consecutive_failures: number | null
           coolify_app_uuid: string | null
           created_at: string
@@ -1172,6 +1312,7 @@ export type Database = {
           last_health_check: string | null
           last_restart_at: string | null
           last_retry_at: string | null
+          last_rollback_at: string | null
           project_name: string
           retry_count: number | null
           secrets_cleaned: boolean | null
@@ -1183,6 +1324,8 @@ export type Database = {
         }
         Insert: {
           auto_restart_count?: number | null
+          auto_rollback_after_failures?: number
+          auto_rollback_enabled?: boolean
           consecutive_failures?: number | null
           coolify_app_uuid?: string | null
           created_at?: string
@@ -1195,6 +1338,7 @@ export type Database = {
           last_health_check?: string | null
           last_restart_at?: string | null
           last_retry_at?: string | null
+          last_rollback_at?: string | null
           project_name: string
           retry_count?: number | null
           secrets_cleaned?: boolean | null
@@ -1206,6 +1350,8 @@ export type Database = {
         }
         Update: {
           auto_restart_count?: number | null
+          auto_rollback_after_failures?: number
+          auto_rollback_enabled?: boolean
           consecutive_failures?: number | null
           coolify_app_uuid?: string | null
           created_at?: string
@@ -1218,6 +1364,7 @@ export type Database = {
           last_health_check?: string | null
           last_restart_at?: string | null
           last_retry_at?: string | null
+          last_rollback_at?: string | null
           project_name?: string
           retry_count?: number | null
           secrets_cleaned?: boolean | null
@@ -1681,8 +1828,53 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      claim_liberation_jobs: {
+        Args: { p_lease_seconds: number; p_limit: number; p_worker: string }
+        Returns: {
+          archive_expires_at: string | null
+          archive_key: string | null
+          attempts: number
+          audit_report: Json | null
+          audit_score: number | null
+          cancel_requested: boolean
+          completed_at: string | null
+          created_at: string | null
+          error_message: string | null
+          files_cleaned: number | null
+          files_count: number | null
+          id: string
+          input_key: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          progress: number | null
+          project_name: string | null
+          proprietary_removed: number | null
+          result_url: string | null
+          run_at: string
+          source_type: string
+          source_url: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
       cleanup_expired_otps: { Args: never; Returns: undefined }
       cleanup_expired_rate_limits: { Args: never; Returns: undefined }
+      consume_rate_limit: {
+        Args: {
+          p_algorithm: string
+          p_key: string
+          p_limit: number
+          p_window_ms: number
+        }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          reset_ms: number
+          retry_after_ms: number
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -0,0 +1,153 @@
+/**
+ * Tests for the edge function converter checks
+ * Every generated route goes through the TypeScript compiler, Deno APIs the
+ * regex rewrite cannot translate are flagged by line, and the replay harness
+ * targets both the original function and the converted route.
+ */
+
+import {
+  convertToExpressRouteComplete,
+  detectUnsupportedDenoApis,
+  parseEdgeFunctionAdvanced,
+} from '../advancedEdgeFunctionConverter';
+import { FETCH_RESPONSE_CODE, typeCheckRoute } from '../routeTypeChecker';
+
+const helloFunction = `import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+serve(async (req) => {
+  try {
+    const { name } = await req.json();
+    return new Response(JSON.stringify({ greeting: 'hi ' + name }));
+  } catch (error) {
+    return new Response('error', { status: 500 });
+  }
+});`;
+
+const authFunction = `import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = { 'Access-Control-Allow-Origin': '*' };
+
+serve(async (req) => {
+  try {
+    const authHeader = req.headers.get('Authorization');
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!);
+    const { data: { user } } = await supabase.auth.getUser(authHeader?.replace('Bearer ', ''));
+    return new Response(JSON.stringify({ id: user?.id }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 });
+  } catch (error) {
+    return new Response('error', { status: 500 });
+  }
+});`;
+
+const denoOnlyFunction = `import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { Client } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+
+// Deno.openKv() in a comment is ignored
+Deno.serve(async (req) => {
+  const kv = await Deno.openKv();
+  EdgeRuntime.waitUntil(kv.set(['hits'], Date.now()));
+  const file = await Deno.readTextFile('./data.json');
+  return new Response(file);
+});`;
+
+// Run tests
+export function runAdvancedEdgeFunctionConverterTests(): { passed: number; failed: number; results: string[] } {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  // Test 1: Unsupported Deno APIs, std http/server excepted
+  const apis = detectUnsupportedDenoApis(denoOnlyFunction);
+  check(
+    'Unsupported Deno APIs',
+    apis.map(api => `${api.line}:${api.api}`).join() ===
+      '2:deno.land/std,3:deno.land/x,6:Deno.serve,7:Deno.openKv,8:EdgeRuntime.waitUntil,9:Deno file system',
+    apis.map(api => `${api.line}:${api.api}`).join()
+  );
+
+  // Test 2: A convertible function compiles
+  const hello = convertToExpressRouteComplete(parseEdgeFunctionAdvanced('hello-world', helloFunction));
+  check(
+    'Clean conversion type-checks',
+    hello.typeCheck.checked &&
+      hello.typeCheck.errors.length === 0 &&
+      hello.unsupportedApis.length === 0 &&
+      hello.manualTodosCount === 0,
+    JSON.stringify(hello.typeCheck.errors)
+  );
+
+  // Test 3: Logic declaring its own auth and client is not shadowed, CORS headers leave valid code
+  const auth = convertToExpressRouteComplete(parseEdgeFunctionAdvanced('whoami', authFunction));
+  check(
+    'No duplicated declarations',
+    auth.typeCheck.errors.length === 0 &&
+      (auth.routeFile.match(/const authHeader =/g) ?? []).length === 1 &&
+      (auth.routeFile.match(/const supabase =/g) ?? []).length === 1 &&
+      auth.routeFile.includes('return res.status(200).json({ id: user?.id })'),
+    JSON.stringify(auth.typeCheck.errors)
+  );
+
+  // Test 4: Leftover Deno and Fetch API code is reported
+  const broken = convertToExpressRouteComplete(parseEdgeFunctionAdvanced('deno-only', denoOnlyFunction));
+  const messages = broken.typeCheck.errors.map(error => error.message);
+  check(
+    'Leftovers fail the type check',
+    messages.some(message => message.includes("Cannot find name 'Deno'")) &&
+      messages.some(message => message.includes("Cannot find name 'EdgeRuntime'")) &&
+      broken.unsupportedApis.length === 6 &&
+      broken.manualTodosCount >= 6 &&
+      broken.preservedLogicPercentage < 100,
+    JSON.stringify(messages)
+  );
+
+  const route = typeCheckRoute(`import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+export const router = Router();
+router.post('/', async (req: Request, res: Response) => {
+  const body = await req.json();
+  return new Response(JSON.stringify(body));
+});`);
+  check(
+    'Fetch API on Express objects',
+    route.missingModules.join() === 'zod' &&
+      route.errors.some(error => error.line === 5 && error.message.includes("Property 'json' does not exist")) &&
+      route.errors.some(error => error.line === 6 && error.code === FETCH_RESPONSE_CODE),
+    JSON.stringify(route)
+  );
+
+  // Test 5: Replay harness
+  check(
+    'Replay harness',
+    hello.harnessFile.includes("const CONVERTED_URL = process.env.CONVERTED_URL || 'http://localhost:3000/api/hello-world'") &&
+      hello.harnessFile.includes("const RECORDINGS = process.argv[2] || 'recordings/hello-world.json'") &&
+      hello.harnessFile.includes('const reference = ORIGINAL_URL ? await send(ORIGINAL_URL, exchange) : exchange.response;') &&
+      typeCheckRoute(hello.harnessFile, 'hello_world.replay.ts').errors.length === 0,
+    JSON.stringify(typeCheckRoute(hello.harnessFile, 'hello_world.replay.ts').errors)
+  );
+
+  // Log results
+  console.log('\n=== EDGE FUNCTION CONVERTER TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('=====================================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  helloFunction,
+  authFunction,
+  denoOnlyFunction,
+};
@@ -0,0 +1,296 @@
+/**
+ * Before/after fixtures for the AST refactor patterns
+ * Each pattern must rewrite its syntax node only, keep the surrounding
+ * formatting, and leave strings and comments that merely mention it untouched.
+ */
+
+import { ASTRefactor, REFACTOR_PATTERNS, countIssues } from '../astRefactor';
+
+interface RefactorFixture {
+  pattern: string;
+  filename: string;
+  before: string;
+  after: string;
+}
+
+// One fixture per pattern
+const patternFixtures: RefactorFixture[] = [
+  {
+    pattern: 'lovable-import',
+    filename: 'src/App.tsx',
+    before: `import {\n  useLovable,\n  LovableProvider,\n} from "@lovable/core";\nimport { tag } from '@lovable/tagger';\n`,
+    after: `import {\n  useLovable,\n  LovableProvider,\n} from "@/lib/sovereignCore";\n// [REMOVED] @lovable/tagger\n`,
+  },
+  {
+    pattern: 'agent-import',
+    filename: 'src/ai.ts',
+    before: `import { getAgent } from '@agent/core'; export const x = 1;\n`,
+    after: `/* [REMOVED] Agent import - implement locally */ export const x = 1;\n`,
+  },
+  {
+    pattern: 'lovable-tagger-import',
+    filename: 'vite.config.ts',
+    before: `import { defineConfig } from 'vite';\nimport { componentTagger } from "lovable-tagger";\n`,
+    after: `import { defineConfig } from 'vite';\n// [REMOVED] lovable-tagger\n`,
+  },
+  {
+    pattern: 'gptengineer-import',
+    filename: 'src/main.ts',
+    before: `import '@gptengineer/runtime';\n`,
+    after: `// [REMOVED] GPT Engineer import\n`,
+  },
+  {
+    pattern: 'supabase-auto-import',
+    filename: 'src/hooks/useAuth.ts',
+    before: `import { supabase } from "@/integrations/supabase/client";\n`,
+    after: `import { supabase } from "@/lib/supabase";\n`,
+  },
+  {
+    pattern: 'supabase-types-import',
+    filename: 'src/types.ts',
+    before: `export type {\n  Database,\n} from '@/integrations/supabase/types';\n`,
+    after: `export type {\n  Database,\n} from '@/types/database';\n`,
+  },
+  {
+    pattern: 'getAIAssistant',
+    filename: 'src/ai.ts',
+    before: `const assistant = getAIAssistant ({ model: 'default' });\n`,
+    after: `const assistant = sovereignAIAdapter.createAssistant ({ model: 'default' });\n`,
+  },
+  {
+    pattern: 'runAssistant',
+    filename: 'src/ai.ts',
+    before: `const answer = await runAssistant(\n  assistant,\n  prompt,\n);\n`,
+    after: `const answer = await sovereignAIAdapter.run(\n  assistant,\n  prompt,\n);\n`,
+  },
+  {
+    pattern: 'lovable-generate',
+    filename: 'src/ai.ts',
+    before: `const text = lovable.generate({ prompt: 'lovable.generate(' });\n`,
+    after: `const text = sovereignAIAdapter.generateCompletion({ prompt: 'lovable.generate(' });\n`,
+  },
+  {
+    pattern: 'lovableApi',
+    filename: 'src/track.ts',
+    before: `lovableApi.events.track('click');\n`,
+    after: `api.events.track('click');\n`,
+  },
+  {
+    pattern: 'lovable-websocket',
+    filename: 'src/realtime.ts',
+    before: `const ws = new WebSocket('wss://realtime.lovable.dev');\n`,
+    after: `const ws = new WebSocket('ws://localhost:8080');\n`,
+  },
+  {
+    pattern: 'Pattern.Template',
+    filename: 'src/render.ts',
+    before: `const html = Pattern.Template.render(tpl, data);\n`,
+    after: `const html = createTemplateEngine().render(tpl, data);\n`,
+  },
+  {
+    pattern: 'Pattern.State',
+    filename: 'src/store.ts',
+    before: `const store = Pattern.State;\n`,
+    after: `const store = createStateManager();\n`,
+  },
+  {
+    pattern: 'Pattern.Router',
+    filename: 'src/nav.ts',
+    before: `Pattern.Router.navigate('/');\n`,
+    after: `createRouter().navigate('/');\n`,
+  },
+  {
+    pattern: 'Pattern.Form',
+    filename: 'src/form.ts',
+    before: `const form = Pattern.Form;\n`,
+    after: `const form = createFormHandler();\n`,
+  },
+  {
+    pattern: 'Pattern.Modal',
+    filename: 'src/modal.ts',
+    before: `const modal = Pattern.Modal;\n`,
+    after: `const modal = createModalManager();\n`,
+  },
+  {
+    pattern: 'Pattern.Toast',
+    filename: 'src/notify.ts',
+    before: `Pattern.Toast('Saved');\n`,
+    after: `toast('Saved');\n`,
+  },
+  {
+    pattern: 'EventSchema',
+    filename: 'src/schema.ts',
+    before: `import { useState } from "react";\n\nexport const Event = EventSchema.object({ name: EventSchema.string() });\n`,
+    after: `import { useState } from "react";\nimport { z } from "zod";\n\nexport const Event = z.object({ name: z.string() });\n`,
+  },
+  {
+    pattern: 'fetch-lovable-api',
+    filename: 'src/telemetry.ts',
+    before: `fetch('https://api.lovable.dev/events', {\n  method: 'POST',\n});\n`,
+    after: `/* [REMOVED] Lovable telemetry */;\n`,
+  },
+  {
+    pattern: 'sendBeacon-lovable',
+    filename: 'src/telemetry.ts',
+    before: `navigator.sendBeacon('https://events.lovable.app', payload);\n`,
+    after: `/* [REMOVED] Lovable beacon */;\n`,
+  },
+  {
+    pattern: 'lovable-env-vars',
+    filename: 'src/config.ts',
+    before: `const id = import.meta.env.VITE_LOVABLE_PROJECT_ID;\n`,
+    after: `const id = import.meta.env.VITE_APP_PROJECT_ID;\n`,
+  },
+  {
+    pattern: 'data-lov-id',
+    filename: 'src/Card.tsx',
+    before: `export const Card = () => (\n  <div\n    data-lov-id="card-1"\n    className="card"\n  />\n);\n`,
+    after: `export const Card = () => (\n  <div\n    className="card"\n  />\n);\n`,
+  },
+  {
+    pattern: 'data-lovable',
+    filename: 'src/Card.tsx',
+    before: `export const Card = () => <div data-lovable-source="Card" className="card" />;\n`,
+    after: `export const Card = () => <div className="card" />;\n`,
+  },
+  {
+    pattern: 'lov-css-class',
+    filename: 'src/Title.tsx',
+    before: `export const Title = () => <span className={cn("lov-title title", active && 'lov-active')}>Title</span>;\n`,
+    after: `export const Title = () => <span className={cn("title", active && '')}>Title</span>;\n`,
+  },
+  {
+    pattern: 'lovable-annotation',
+    filename: 'src/Header.tsx',
+    before: `// @lovable-component Header\nexport const Header = () => null;\n`,
+    after: `export const Header = () => null;\n`,
+  },
+  {
+    pattern: 'lovable-block-comment',
+    filename: 'src/Header.tsx',
+    before: `export const Header = () => null; /* lovable: generated */\n`,
+    after: `export const Header = () => null;\n`,
+  },
+  {
+    pattern: 'generated-by-lovable',
+    filename: 'src/index.ts',
+    before: `// Generated by Lovable\nexport {};\n`,
+    after: `export {};\n`,
+  },
+];
+
+// Mentions in strings, comments and JSX text that must be left untouched
+const untouchedFixtures: Array<{ name: string; filename: string; code: string }> = [
+  {
+    name: 'String literals mentioning patterns',
+    filename: 'src/docs.ts',
+    code: `const help = "Replace getAIAssistant( and lovable.generate( with Pattern.Template";\nconst path = 'from "@/integrations/supabase/client"';\n`,
+  },
+  {
+    name: 'Comments mentioning patterns',
+    filename: 'src/docs.ts',
+    code: `// We used to call runAssistant() and lovableApi.track() here\n/* import x from '@lovable/core' */\nexport {};\n`,
+  },
+  {
+    name: 'JSX text and non-class attributes',
+    filename: 'src/Docs.tsx',
+    code: `export const Docs = () => <p title="lov-title">Add data-lov-id="x" to // Generated by Lovable</p>;\n`,
+  },
+  {
+    name: 'Lookalike identifiers',
+    filename: 'src/local.ts',
+    code: `const myPattern = { Template: 1 };\nmyPattern.Template;\nconst x = obj.lovableApi.track;\nmyRunAssistant();\n`,
+  },
+];
+
+// Run tests
+export function runASTRefactorTests(): { passed: number; failed: number; results: string[] } {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  const refactor = new ASTRefactor();
+
+  // Test 1: Before/after fixture for each pattern
+  for (const fixture of patternFixtures) {
+    const result = refactor.refactor(fixture.before, fixture.filename);
+    check(
+      `Pattern ${fixture.pattern}`,
+      result.refactoredCode === fixture.after &&
+        result.changes.length > 0 &&
+        result.changes.every(c => c.pattern === fixture.pattern) &&
+        result.rejectedChanges.length === 0,
+      JSON.stringify(result.refactoredCode)
+    );
+  }
+
+  // Test 2: Every pattern has a fixture
+  const untested = REFACTOR_PATTERNS
+    .map(p => p.name)
+    .filter(name => !patternFixtures.some(f => f.pattern === name));
+  check('Every pattern has a fixture', untested.length === 0, untested.join(', '));
+
+  // Test 3: Mentions outside the targeted syntax nodes are left untouched
+  for (const fixture of untouchedFixtures) {
+    const result = refactor.refactor(fixture.code, fixture.filename);
+    check(
+      fixture.name,
+      !result.hasChanges && result.refactoredCode === fixture.code && countIssues(fixture.code, fixture.filename).total === 0,
+      JSON.stringify(result.changes)
+    );
+  }
+
+  // Test 4: Edits that would break the syntax are refused, the others still apply
+  const unsafe = `const res = await fetch('https://api.lovable.dev/events');\nconst a = getAIAssistant();\n`;
+  const unsafeResult = refactor.refactor(unsafe, 'src/unsafe.ts');
+  check(
+    'Unparsable edits are refused',
+    unsafeResult.refactoredCode === `const res = await fetch('https://api.lovable.dev/events');\nconst a = sovereignAIAdapter.createAssistant();\n` &&
+      unsafeResult.rejectedChanges.map(c => c.pattern).join() === 'fetch-lovable-api' &&
+      countIssues(unsafe, 'src/unsafe.ts').total === 2,
+    JSON.stringify(unsafeResult.refactoredCode)
+  );
+
+  // Test 5: Unparsable sources are left untouched
+  const broken = `import { x } from '@agent/core'\nconst = ;\n`;
+  const brokenResult = refactor.refactor(broken, 'src/broken.ts');
+  check(
+    'Unparsable source is left untouched',
+    brokenResult.refactoredCode === broken && !brokenResult.hasChanges && brokenResult.parseErrors.length === 1
+  );
+
+  // Test 6: Change positions and zod import not duplicated
+  const positioned = `import { z } from 'zod';\nconst e = EventSchema.string();\n  lovable.generate();\n`;
+  const positionedResult = refactor.refactor(positioned, 'src/positions.ts');
+  check(
+    'Change positions',
+    JSON.stringify(positionedResult.changes.map(c => [c.pattern, c.line, c.column])) ===
+      JSON.stringify([['EventSchema', 2, 11], ['lovable-generate', 3, 3]]) &&
+      positionedResult.refactoredCode.split("from 'zod'").length === 2,
+    JSON.stringify(positionedResult.changes)
+  );
+
+  // Log results
+  console.log('\n=== AST REFACTOR TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('==========================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  patternFixtures,
+  untouchedFixtures,
+};
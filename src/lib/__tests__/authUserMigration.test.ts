@@ -0,0 +1,163 @@
+/**
+ * Tests for the auth user migration
+ * Bcrypt hashes must reach the generated auth schema untouched, and every
+ * account that loses its only sign-in method must show up in the dry-run report.
+ */
+
+import {
+  AUTH_USERS_IMPORT_SQL,
+  isBcryptHash,
+  planAuthUserMigration,
+  SupabaseAuthUser,
+  toSupabaseAuthUser,
+} from '../authUserMigration';
+import { generateAuthAPICode } from '../selfHostedAuthTemplate';
+
+const HASH = '$2a$10$N9qo8uLOickgx2ZMRZoMyeIjZAgcfl7p92ldGxad68LJZdL17lhWy';
+
+const user = (id: string, overrides: Partial<SupabaseAuthUser> = {}): SupabaseAuthUser => ({
+  id,
+  email: `${id}@example.com`,
+  encrypted_password: HASH,
+  email_confirmed_at: '2024-01-01T00:00:00+00:00',
+  phone: null,
+  phone_confirmed_at: null,
+  last_sign_in_at: null,
+  raw_app_meta_data: { provider: 'email' },
+  raw_user_meta_data: {},
+  is_super_admin: false,
+  role: 'authenticated',
+  created_at: '2024-01-01T00:00:00+00:00',
+  updated_at: '2024-01-01T00:00:00+00:00',
+  banned_until: null,
+  deleted_at: null,
+  is_anonymous: false,
+  is_sso_user: false,
+  identities: [],
+  ...overrides,
+});
+
+const identity = (provider: string, providerId: string) => ({
+  provider,
+  provider_id: providerId,
+  identity_data: { sub: providerId },
+  last_sign_in_at: null,
+  created_at: null,
+  updated_at: null,
+});
+
+const users: SupabaseAuthUser[] = [
+  user('alice', { email: 'Alice@Example.com', raw_user_meta_data: { name: 'Alice' }, identities: [identity('email', 'alice')] }),
+  user('bob', { encrypted_password: null, identities: [identity('google', 'g-1')] }),
+  user('carol', { identities: [identity('github', 'gh-1')] }),
+  user('dave', { encrypted_password: '$argon2id$v=19$m=65536,t=3,p=4$c2FsdA$aGFzaA' }),
+  user('phone', { email: null, encrypted_password: null, phone: '+15550100' }),
+  user('ghost', { deleted_at: '2024-06-01T00:00:00+00:00' }),
+  user('anon', { email: null, is_anonymous: true }),
+  user('alice2', { email: 'alice@example.com' }),
+];
+
+// Run tests
+export function runAuthUserMigrationTests(): { passed: number; failed: number; results: string[] } {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  // Test 1: Bcrypt detection
+  check(
+    'Bcrypt hashes',
+    isBcryptHash(HASH) &&
+      isBcryptHash(HASH.replace('$2a$', '$2b$')) &&
+      !isBcryptHash('$argon2id$v=19$m=65536,t=3,p=4$c2FsdA$aGFzaA') &&
+      !isBcryptHash('') &&
+      !isBcryptHash(null)
+  );
+
+  // Test 2: Dry-run report, email only
+  const { report } = planAuthUserMigration(users);
+  const skipped = Object.fromEntries(report.skipped.map(issue => [issue.id, issue.code]));
+  check(
+    'Dry-run report',
+    report.total === 8 &&
+      report.migrated === 2 &&
+      report.withPassword === 2 &&
+      JSON.stringify(skipped) === JSON.stringify({
+        bob: 'unsupported_provider',
+        dave: 'unsupported_password_hash',
+        phone: 'missing_email',
+        ghost: 'deleted',
+        anon: 'anonymous',
+        alice2: 'duplicate_email',
+      }) &&
+      report.warnings.length === 1 &&
+      report.warnings[0].id === 'carol' &&
+      report.warnings[0].message === 'github identity kept but not served' &&
+      JSON.stringify(report.providers) === '{"email":1,"google":1,"github":1}',
+    JSON.stringify(report)
+  );
+
+  // Test 3: Supported OAuth provider keeps password-less accounts
+  const plan = planAuthUserMigration(users, { providers: ['email', 'google'] });
+  const alice = plan.users.find(u => u.id === 'alice');
+  const bob = plan.users.find(u => u.id === 'bob');
+  check(
+    'Import rows',
+    plan.users.map(u => u.id).join() === 'alice,bob,carol' &&
+      alice?.email === 'alice@example.com' &&
+      alice.encrypted_password === HASH &&
+      alice.raw_user_meta_data.name === 'Alice' &&
+      bob?.encrypted_password === null &&
+      plan.identities.map(i => `${i.user_id}:${i.provider}:${i.provider_id}`).join() === 'alice:email:alice,bob:google:g-1,carol:github:gh-1',
+    JSON.stringify(plan.users)
+  );
+
+  // Test 4: Older GoTrue rows (identity subject in `id`, no is_anonymous)
+  const legacy = toSupabaseAuthUser(
+    { id: 'u1', email: 'legacy@example.com', encrypted_password: '', confirmed_at: '2021-01-01T00:00:00+00:00', raw_user_meta_data: null },
+    [{ id: '1234567', provider: 'github', identity_data: { login: 'octo' } }]
+  );
+  check(
+    'Legacy rows',
+    legacy.encrypted_password === null &&
+      legacy.email_confirmed_at === '2021-01-01T00:00:00+00:00' &&
+      JSON.stringify(legacy.raw_user_meta_data) === '{}' &&
+      !legacy.is_anonymous &&
+      legacy.identities[0].provider_id === '1234567',
+    JSON.stringify(legacy)
+  );
+
+  // Test 5: Generated auth service
+  const { files } = generateAuthAPICode();
+  check(
+    'Generated auth service',
+    files['schema.sql'].includes('CREATE TABLE IF NOT EXISTS auth.identities') &&
+      files['schema.sql'].includes('encrypted_password VARCHAR(255),') &&
+      files['migrate-users.ts'].includes(AUTH_USERS_IMPORT_SQL) &&
+      files['migrate-users.ts'].includes("process.argv.includes('--dry-run')") &&
+      files['index.ts'].includes('if (!user.encrypted_password)'),
+    files['schema.sql']
+  );
+
+  // Log results
+  console.log('\n=== AUTH USER MIGRATION TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('=================================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  users,
+};
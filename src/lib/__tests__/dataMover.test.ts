@@ -0,0 +1,143 @@
+/**
+ * Tests for the data mover
+ * Tables must come out in foreign-key order, batches must page by key (or
+ * ctid) without parsing rows client-side, and inserts must be replay-safe.
+ */
+
+import {
+  buildBatchInsert,
+  buildBatchSelect,
+  buildChecksumQuery,
+  buildSequenceReset,
+  DataMoverTable,
+  orderTables,
+  tableKey,
+} from '../dataMover';
+
+const table = (name: string, overrides: Partial<DataMoverTable> = {}): DataMoverTable => ({
+  schema: 'public',
+  name,
+  columns: ['id'],
+  primaryKey: ['id'],
+  keyTypes: ['uuid'],
+  dependsOn: [],
+  selfReferencing: false,
+  sequenceColumns: [],
+  estimatedRows: 0,
+  ...overrides,
+});
+
+const tables: DataMoverTable[] = [
+  table('posts', { dependsOn: ['public.users', 'public.orgs'] }),
+  table('users', { dependsOn: ['public.orgs', 'auth.users'] }),
+  table('orgs', { selfReferencing: true }),
+  table('audit', { columns: ['at', 'message'], primaryKey: [], keyTypes: [] }),
+  table('pairs', { columns: ['a', 'b', 'v'], primaryKey: ['a', 'b'], keyTypes: ['integer', 'text'] }),
+];
+
+// Run tests
+export function runDataMoverTests(): { passed: number; failed: number; results: string[] } {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  // Test 1: Foreign-key order, references outside the run ignored
+  const { order, warnings } = orderTables(tables);
+  check(
+    'Foreign-key order',
+    order.map(tableKey).join() === 'public.audit,public.orgs,public.pairs,public.users,public.posts',
+    order.map(tableKey).join()
+  );
+  check(
+    'Ordering warnings',
+    warnings.length === 2 &&
+      warnings.some(w => w.startsWith('public.audit has no primary key')) &&
+      warnings.some(w => w.startsWith('public.orgs references itself')),
+    JSON.stringify(warnings)
+  );
+
+  // Test 2: Cycles are reported, not dropped
+  const cycle = orderTables([
+    table('a', { dependsOn: ['public.b'] }),
+    table('b', { dependsOn: ['public.a'] }),
+    table('c'),
+  ]);
+  check(
+    'Foreign-key cycle',
+    cycle.order.map(t => t.name).join() === 'c,a,b' &&
+      cycle.warnings[0]?.startsWith('foreign key cycle between public.a, public.b'),
+    JSON.stringify(cycle)
+  );
+
+  // Test 3: Keyset pagination
+  const pairs = tables[4];
+  const first = buildBatchSelect(pairs, null, 500);
+  const next = buildBatchSelect(pairs, ['6', 'k97'], 500);
+  check(
+    'Keyset batches',
+    !first.sql.includes('WHERE') &&
+      first.params.length === 0 &&
+      first.sql.includes('ORDER BY a, b\n  LIMIT 500') &&
+      next.sql.includes('WHERE (a, b) > ($1::integer, $2::text)') &&
+      JSON.stringify(next.params) === '["6","k97"]' &&
+      next.sql.includes('COALESCE(json_agg(batch), \'[]\')::text AS rows') &&
+      next.sql.includes('(SELECT ARRAY[a::text, b::text] FROM batch ORDER BY a DESC, b DESC LIMIT 1) AS cursor'),
+    next.sql
+  );
+
+  const audit = buildBatchSelect(tables[3], ['(4,37)'], 100);
+  check(
+    'ctid batches without primary key',
+    audit.sql.includes('(SELECT ctid AS __ctid, * FROM public.audit) AS t') &&
+      audit.sql.includes('WHERE (__ctid) > ($1::tid)'),
+    audit.sql
+  );
+
+  // Test 4: Replay-safe inserts
+  const insert = buildBatchInsert(pairs);
+  check(
+    'Batch insert',
+    insert.includes('INSERT INTO public.pairs (a, b, v) OVERRIDING SYSTEM VALUE') &&
+      insert.includes('FROM json_populate_recordset(NULL::public.pairs, $1::json)') &&
+      insert.includes('ON CONFLICT DO NOTHING') &&
+      !buildBatchInsert(tables[3]).includes('ON CONFLICT'),
+    insert
+  );
+
+  // Test 5: Sequences and checksums
+  const serial = table('posts', { sequenceColumns: ['id'] });
+  check(
+    'Sequence reset',
+    buildSequenceReset(serial)[0] === `SELECT setval(pg_get_serial_sequence('public.posts', 'id'), COALESCE((SELECT max(id) FROM public.posts), 0) + 1, false)` &&
+      buildSequenceReset(pairs).length === 0,
+    buildSequenceReset(serial)[0]
+  );
+  check(
+    'Checksum query',
+    buildChecksumQuery(pairs).includes("sum(('x' || substr(md5(to_jsonb(t)::text), 1, 15))::bit(60)::bigint)") &&
+      buildChecksumQuery(pairs).includes('FROM public.pairs AS t')
+  );
+
+  // Log results
+  console.log('\n=== DATA MOVER TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('========================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  tables,
+};
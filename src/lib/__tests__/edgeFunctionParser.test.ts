@@ -0,0 +1,142 @@
+/**
+ * Tests for the Edge Function backend targets
+ * Each framework gets the converted routes plus its own CORS, auth and rate
+ * limiting middleware, and the liberation pack builds the chosen one.
+ */
+
+import {
+  BACKEND_TARGETS,
+  generateBackend,
+  parseEdgeFunction,
+} from '../edgeFunctionParser';
+import { rebuildProject } from '../projectRebuilder';
+
+const whoamiFunction = `import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  const authHeader = req.headers.get('Authorization');
+  if (req.method === 'GET') {
+    return new Response(JSON.stringify({ token: authHeader }));
+  }
+  const { name } = await req.json();
+  return new Response(JSON.stringify({ name }));
+});`;
+
+const pingFunction = `import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  return new Response('pong');
+});`;
+
+// Auth wiring expected in the route of a protected function
+const AUTH_WIRING: Record<string, string> = {
+  'express': 'whoamiRouter.use(requireAuth);',
+  'hono': "whoamiRoutes.use('*', requireAuth);",
+  'fastify': "app.addHook('preHandler', requireAuth);",
+  'node-http': 'requiresAuth: true,',
+};
+
+// Mounting expected in the entry point
+const MOUNTS: Record<string, string> = {
+  'express': "app.use('/api/whoami', whoamiRouter);",
+  'hono': "app.route('/api/whoami', whoamiRoutes);",
+  'fastify': "await app.register(whoamiRoutes, { prefix: '/api/whoami' });",
+  'node-http': "'/api/whoami': whoamiRoute,",
+};
+
+// Run tests
+export async function runEdgeFunctionParserTests(): Promise<{ passed: number; failed: number; results: string[] }> {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  const whoami = parseEdgeFunction('whoami', whoamiFunction);
+  const ping = parseEdgeFunction('ping', pingFunction);
+
+  // Test 1: Methods, the CORS preflight check alone defaults to POST
+  check(
+    'HTTP methods',
+    whoami.httpMethods.join() === 'GET,OPTIONS' && whoami.hasAuth &&
+      ping.httpMethods.join() === 'OPTIONS,POST' && !ping.hasAuth,
+    `${whoami.httpMethods} / ${ping.httpMethods}`
+  );
+
+  // Test 2: Every target wires auth in the protected route only, and mounts both
+  for (const target of BACKEND_TARGETS) {
+    const backend = generateBackend([whoami, ping], target);
+    const [whoamiRoute, pingRoute] = backend.routes;
+    check(
+      `${target} service`,
+      whoamiRoute.routeContent.includes(AUTH_WIRING[target]) &&
+        !pingRoute.routeContent.includes('requireAuth') &&
+        !pingRoute.routeContent.includes('requiresAuth: true') &&
+        backend.indexContent.includes(MOUNTS[target]) &&
+        ['middleware/cors.ts', 'middleware/auth.ts', 'middleware/rateLimit.ts'].every(file => file in backend.supportFiles) &&
+        backend.supportFiles['middleware/auth.ts'].includes('jwt.verify(') &&
+        'jsonwebtoken' in backend.dependencies &&
+        backend.envExample.includes('CORS_ORIGIN=*'),
+      whoamiRoute.routeContent
+    );
+  }
+
+  // Test 3: Framework packages
+  const deps = (target: typeof BACKEND_TARGETS[number]) => Object.keys(generateBackend([ping], target).dependencies).sort().join();
+  check(
+    'Framework dependencies',
+    deps('express') === 'cors,dotenv,express,express-rate-limit,helmet,jsonwebtoken' &&
+      deps('hono') === '@hono/node-server,dotenv,hono,jsonwebtoken' &&
+      deps('fastify') === '@fastify/cors,@fastify/helmet,@fastify/rate-limit,dotenv,fastify,jsonwebtoken' &&
+      deps('node-http') === 'dotenv,jsonwebtoken',
+    deps('node-http')
+  );
+
+  // Test 4: Liberation pack with a chosen framework, template backend otherwise
+  const sourceFiles = new Map(Object.entries({
+    'supabase/functions/whoami/index.ts': whoamiFunction,
+    'src/App.tsx': 'export default function App() { return null; }',
+  }));
+  const hono = await rebuildProject(sourceFiles, { name: 'demo', backendFramework: 'hono' });
+  const template = await rebuildProject(sourceFiles, { name: 'demo' });
+  const honoPackage = JSON.parse(hono.files.get('backend/package.json') ?? '{}');
+  check(
+    'Liberation pack backend framework',
+    (hono.files.get('backend/src/index.ts') ?? '').includes("app.route('/api/whoami', whoamiRoutes);") &&
+      hono.files.has('backend/src/routes/whoami.ts') &&
+      hono.files.has('backend/src/middleware/rateLimit.ts') &&
+      'hono' in honoPackage.dependencies && !('express' in honoPackage.dependencies) && 'pg' in honoPackage.dependencies &&
+      (hono.files.get('.env.example') ?? '').includes('CORS_ORIGIN') &&
+      template.files.has('backend/src/routes/index.ts') &&
+      !template.files.has('backend/src/routes/whoami.ts'),
+    JSON.stringify(honoPackage)
+  );
+
+  // Log results
+  console.log('\n=== EDGE FUNCTION PARSER TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('==================================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  whoamiFunction,
+  pingFunction,
+};
@@ -0,0 +1,242 @@
+/**
+ * Tests for the import graph dead-code cascade
+ * Removing proprietary files must remove the modules only they reached,
+ * fix the imports left dangling in surviving files and report removed exports.
+ */
+
+import { buildImportGraph, cascadeRemovals, extractImports, resolveImport } from '../importGraph';
+import { validateImports } from '../packValidator';
+import { LovableCleanerEngine } from '../lovableCleanerEngine';
+import { LovablePatternScanner } from '../lovablePatternScanner';
+
+// Fixture project: src/main.tsx is the entry point
+const fixtureProject: Record<string, string> = {
+  'src/main.tsx': `import App from './App';
+import './index.css';
+`,
+  'src/index.css': `body { margin: 0; }
+`,
+  'src/App.tsx': `import { Button } from '@/components/Button';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from "@/integrations/supabase/types";
+import {
+  useLovableBadge,
+  unusedHelper,
+} from './lovable/badge';
+import { trackEvent } from './lovable/telemetry';
+
+export default function App() {
+  const badge = useLovableBadge();
+  const rows = supabase.from('rows');
+  const panel = () => import('./lovable/panel');
+  return <Button label={badge} />;
+}
+
+export const db: Database | null = null;
+`,
+  'src/components/Button.tsx': `import { cn } from '../lib/utils';
+export const Button = ({ label }: { label: string }) => <button className={cn('btn')}>{label}</button>;
+`,
+  'src/lib/utils.ts': `export const cn = (...classes: string[]) => classes.join(' ');
+`,
+  'src/lib/badges.ts': `export * from '../lovable/badge';
+export { useLovableBadge as badge } from '../lovable/badge';
+export const version = 1;
+`,
+  'src/types/database.ts': `export type Database = { public: Record<string, never> };
+`,
+  // Proprietary files
+  'src/integrations/supabase/client.ts': `import { createClient } from '@supabase/supabase-js';
+export const supabase = createClient('url', 'key');
+`,
+  'src/integrations/supabase/types.ts': `export type Database = {};
+`,
+  'src/lovable/badge.ts': `import { formatBadge } from './format';
+import { cn } from '../lib/utils';
+import './badge.css';
+export const useLovableBadge = () => cn(formatBadge('lovable'));
+export function unusedHelper() {}
+`,
+  'src/lovable/telemetry.ts': `export const trackEvent = () => {};
+`,
+  'src/lovable/panel.tsx': `export default () => null;
+`,
+  // Reachable only through the proprietary files (format <-> constants is a cycle)
+  'src/lovable/format.ts': `import { SUFFIX } from './constants';
+export const formatBadge = (name: string) => name + SUFFIX;
+export type BadgeFormat = string;
+`,
+  'src/lovable/constants.ts': `import type { BadgeFormat } from './format';
+export const SUFFIX: BadgeFormat = '-badge';
+`,
+  'src/lovable/badge.css': `.badge { color: red; }
+`,
+};
+
+const removedFiles = [
+  'src/integrations/supabase/client.ts',
+  'src/integrations/supabase/types.ts',
+  'src/lovable/badge.ts',
+  'src/lovable/telemetry.ts',
+  'src/lovable/panel.tsx',
+];
+
+const expectedApp = `import { Button } from '@/components/Button';
+// [STUB] '@/integrations/supabase/client' supprimé (fichier propriétaire supprimé) - à réimplémenter
+const supabase: any = undefined;
+import type { Database } from "@/types/database";
+// [STUB] './lovable/badge' supprimé (fichier propriétaire supprimé) - à réimplémenter
+const useLovableBadge: any = undefined;
+
+export default function App() {
+  const badge = useLovableBadge();
+  const rows = supabase.from('rows');
+  const panel = () => Promise.reject(new Error("Module supprimé: ./lovable/panel"));
+  return <Button label={badge} />;
+}
+
+export const db: Database | null = null;
+`;
+
+const expectedBadges = `export const version = 1;
+`;
+
+// Run tests
+export function runImportGraphTests(): { passed: number; failed: number; results: string[] } {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  // Test 1: Import extraction and resolution
+  const appImports = extractImports(fixtureProject['src/App.tsx'], 'src/App.tsx');
+  check(
+    'Import extraction',
+    JSON.stringify(appImports.map(i => [i.specifier, i.line, i.kind, i.typeOnly])) === JSON.stringify([
+      ['@/components/Button', 1, 'import', false],
+      ['@/integrations/supabase/client', 2, 'import', false],
+      ['@/integrations/supabase/types', 3, 'import', true],
+      ['./lovable/badge', 4, 'import', false],
+      ['./lovable/telemetry', 8, 'import', false],
+      ['./lovable/panel', 13, 'dynamic', false],
+    ]),
+    JSON.stringify(appImports)
+  );
+  check(
+    'Import resolution',
+    resolveImport('../lib/utils', 'src/components/Button.tsx', fixtureProject) === 'src/lib/utils.ts' &&
+      resolveImport('@/lovable/badge.js', 'src/App.tsx', fixtureProject) === 'src/lovable/badge.ts' &&
+      resolveImport('react', 'src/App.tsx', fixtureProject) === null
+  );
+
+  const graph = buildImportGraph(fixtureProject);
+  check(
+    'Graph edges',
+    JSON.stringify(graph.get('src/lib/utils.ts')?.importedBy) === JSON.stringify(['src/components/Button.tsx', 'src/lovable/badge.ts']) &&
+      graph.get('src/main.tsx')?.importedBy.length === 0
+  );
+
+  // Test 2: Cascade removes only what the proprietary files reached
+  const cascade = cascadeRemovals(fixtureProject, removedFiles);
+  const cascaded = cascade.removedModules.filter(m => m.reason === 'unreachable').map(m => m.path);
+  check(
+    'Cascaded modules',
+    JSON.stringify(cascaded) === JSON.stringify(['src/lovable/format.ts', 'src/lovable/badge.css', 'src/lovable/constants.ts']) &&
+      cascade.files['src/lib/utils.ts'] !== undefined &&
+      cascade.files['src/index.css'] !== undefined &&
+      Object.keys(cascade.files).length === 7,
+    JSON.stringify({ cascaded, kept: Object.keys(cascade.files) })
+  );
+
+  // Test 3: Dangling imports are rewritten, removed or stubbed
+  check('Surviving file rewritten', cascade.files['src/App.tsx'] === expectedApp, JSON.stringify(cascade.files['src/App.tsx']));
+  check('Re-exports of removed modules dropped', cascade.files['src/lib/badges.ts'] === expectedBadges, JSON.stringify(cascade.files['src/lib/badges.ts']));
+  check(
+    'Dangling import actions',
+    JSON.stringify(cascade.danglingImports.map(f => [f.file, f.line, f.action])) === JSON.stringify([
+      ['src/App.tsx', 2, 'stubbed'],
+      ['src/App.tsx', 3, 'rewritten'],
+      ['src/App.tsx', 4, 'stubbed'],
+      ['src/App.tsx', 8, 'removed'],
+      ['src/App.tsx', 13, 'stubbed'],
+      ['src/lib/badges.ts', 1, 'removed'],
+      ['src/lib/badges.ts', 2, 'removed'],
+    ]),
+    JSON.stringify(cascade.danglingImports)
+  );
+
+  // Test 4: Removed exports and why
+  const exportsReport = cascade.removedExports.map(e => `${e.module}#${e.name} [${e.usedBy.join(',')}]`);
+  const formatExport = cascade.removedExports.find(e => e.module === 'src/lovable/format.ts' && e.name === 'formatBadge');
+  check(
+    'Removed exports report',
+    exportsReport.includes('src/lovable/badge.ts#useLovableBadge [src/App.tsx]') &&
+      exportsReport.includes('src/lovable/badge.ts#unusedHelper []') &&
+      exportsReport.includes('src/lovable/format.ts#BadgeFormat []') &&
+      exportsReport.includes('src/lib/badges.ts#badge []') &&
+      formatExport?.reason === 'Module mort: importé uniquement par src/lovable/badge.ts, src/lovable/constants.ts',
+    JSON.stringify(exportsReport)
+  );
+
+  // Test 5: Kept modules are never cascaded
+  const kept = cascadeRemovals(fixtureProject, removedFiles, { keep: ['src/lovable/constants.ts'] });
+  check(
+    'Keep option',
+    kept.files['src/lovable/constants.ts'] !== undefined && kept.files['src/lovable/format.ts'] !== undefined
+  );
+
+  // Test 6: The pack validator no longer finds unresolved imports
+  const unresolved = Object.entries(cascade.files)
+    .flatMap(([path, content]) => validateImports(content, path, cascade.files).unresolvedImports);
+  const before = validateImports(fixtureProject['src/App.tsx'], 'src/App.tsx', cascade.files).unresolvedImports;
+  check(
+    'Pack validator',
+    unresolved.length === 0 && before.length === 5,
+    JSON.stringify({ unresolved, before })
+  );
+
+  // Test 7: Cleaner engine integration (the scanner flags the supabase integration files)
+  const cleanerProject = {
+    ...fixtureProject,
+    'src/integrations/supabase/client.ts': `import { SUPABASE_URL } from '../../lib/supabaseConfig';
+export const supabase = createClient(SUPABASE_URL, 'key');
+`,
+    'src/lib/supabaseConfig.ts': `export const SUPABASE_URL = 'https://project.supabase.co';
+`,
+  };
+  const cleaner = new LovableCleanerEngine({ removeImports: false, replacePatterns: false, generatePolyfills: false });
+  const report = cleaner.cleanProject(cleanerProject, new LovablePatternScanner().scanProject(cleanerProject));
+  check(
+    'Cleaner cascades removals',
+    report.deadCode.removedModules.some(m => m.path === 'src/lib/supabaseConfig.ts' && m.reason === 'unreachable') &&
+      report.results.get('src/lib/supabaseConfig.ts')?.wasRemoved === true &&
+      report.cleanedFiles['src/lib/supabaseConfig.ts'] === undefined &&
+      report.cleanedFiles['src/App.tsx'].includes('const supabase: any = undefined;') &&
+      report.filesRemoved + report.filesModified + report.filesUnchanged === report.totalFiles,
+    JSON.stringify({ removed: report.filesRemoved, modified: report.filesModified, unchanged: report.filesUnchanged })
+  );
+
+  // Log results
+  console.log('\n=== IMPORT GRAPH TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('==========================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  fixtureProject,
+  removedFiles,
+  expectedApp,
+};
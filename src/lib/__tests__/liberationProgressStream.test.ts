@@ -0,0 +1,143 @@
+/**
+ * Tests for the liberation progress stream
+ * The SSE parser copes with arbitrary chunk boundaries, and the client
+ * resumes after a dropped connection by sending Last-Event-ID.
+ */
+
+import {
+  createSSEParser,
+  streamLiberationProgress,
+  type LiberationProgressEvent,
+  type SSEMessage,
+} from '../liberationProgressStream';
+
+const sse = (id: number, type: string, payload: Record<string, unknown>) =>
+  `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify({ jobId: 'job-1', type, ...payload })}\n\n`;
+
+const firstConnection = [
+  'retry: 5\n: ping\n\n',
+  sse(1, 'started', { status: 'processing', phase: 'scan', progress: 0, message: 'Tentative 1/3' }),
+  sse(2, 'progress', { status: 'cleaning', phase: 'clean', progress: 50, currentFile: 'src/App.tsx', issues: { critical: 2, major: 1, minor: 0 } }),
+];
+
+const secondConnection = [
+  sse(3, 'progress', { status: 'rebuilding', phase: 'rebuild', progress: 70 }),
+  sse(4, 'completed', { status: 'completed', phase: 'complete', progress: 100 }),
+  sse(5, 'expired', { status: 'completed', phase: 'complete', progress: 100 }),
+];
+
+// Streams the given chunks then closes, as a server hitting its time limit would
+function sseResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  }), { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+// Run tests
+export async function runLiberationProgressStreamTests(): Promise<{ passed: number; failed: number; results: string[] }> {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  // Test 1: Parser, fed one character at a time with CRLF line endings
+  const messages: SSEMessage[] = [];
+  const retries: number[] = [];
+  const parser = createSSEParser(message => messages.push(message), delay => retries.push(delay));
+  const raw = 'retry: 2500\r\n: keep-alive\r\n\r\nid: 7\r\nevent: progress\r\ndata: {"a":1,\r\ndata: "b":2}\r\n\r\ndata:plain\r\n\r\nid: 8\r\ndata: truncated';
+  for (const char of raw) parser.push(char);
+  check(
+    'SSE parser',
+    retries.join() === '2500' &&
+      messages.length === 2 &&
+      messages[0].id === '7' && messages[0].event === 'progress' &&
+      JSON.stringify(JSON.parse(messages[0].data)) === '{"a":1,"b":2}' &&
+      messages[1].id === '7' && messages[1].event === 'message' && messages[1].data === 'plain',
+    JSON.stringify(messages)
+  );
+
+  // Test 2: Resumption with Last-Event-ID, stop at the terminal event
+  const requests: Array<Record<string, string>> = [];
+  const fakeFetch = (async (_url: string, init?: RequestInit) => {
+    const headers = init?.headers as Record<string, string>;
+    requests.push(headers);
+    return sseResponse(headers['Last-Event-ID'] ? secondConnection : firstConnection);
+  }) as typeof fetch;
+
+  const events: LiberationProgressEvent[] = [];
+  let endReason = '';
+  const stream = streamLiberationProgress({
+    url: 'http://localhost/api/liberate/stream/job-1',
+    headers: { Authorization: 'Bearer token' },
+    onEvent: event => events.push(event),
+    onEnd: reason => { endReason = reason; },
+    fetch: fakeFetch,
+  });
+  await stream.done;
+  check(
+    'Resume after disconnect',
+    requests.length === 2 &&
+      requests[0].Authorization === 'Bearer token' && requests[0].Accept === 'text/event-stream' &&
+      requests[0]['Last-Event-ID'] === undefined &&
+      requests[1]['Last-Event-ID'] === '2' &&
+      events.map(event => event.id).join() === '1,2,3,4' &&
+      events[1].currentFile === 'src/App.tsx' && events[1].issues?.critical === 2 &&
+      events[3].type === 'completed' &&
+      endReason === 'finished' && stream.lastEventId === '4',
+    JSON.stringify({ requests, events: events.map(event => event.id), endReason })
+  );
+
+  // Test 3: Access denied is final, repeated failures give up
+  let deniedCalls = 0;
+  let deniedError = '';
+  await streamLiberationProgress({
+    url: 'http://localhost/stream',
+    onEvent: () => undefined,
+    onEnd: (_reason, error) => { deniedError = error?.message ?? ''; },
+    fetch: (async () => { deniedCalls++; return new Response(null, { status: 401 }); }) as typeof fetch,
+  }).done;
+
+  let missingCalls = 0;
+  let missingReason = '';
+  await streamLiberationProgress({
+    url: 'http://localhost/stream',
+    maxReconnects: 2,
+    reconnectDelayMs: 1,
+    onEvent: () => undefined,
+    onEnd: reason => { missingReason = reason; },
+    fetch: (async () => { missingCalls++; return new Response(null, { status: 404 }); }) as typeof fetch,
+  }).done;
+  check(
+    'Errors and reconnect limit',
+    deniedCalls === 1 && deniedError.includes('HTTP 401') &&
+      missingCalls === 3 && missingReason === 'error',
+    JSON.stringify({ deniedCalls, deniedError, missingCalls, missingReason })
+  );
+
+  // Log results
+  console.log('\n=== LIBERATION PROGRESS STREAM TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('========================================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  firstConnection,
+  secondConnection,
+};
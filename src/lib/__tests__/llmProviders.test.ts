@@ -0,0 +1,292 @@
+/**
+ * Tests for the shared LLM provider layer
+ * Wire formats of the Ollama and OpenAI-compatible providers are checked
+ * against a fake fetch, the tool loop and JSON output against the mock.
+ */
+
+import {
+  createLLMProvider,
+  LLMError,
+  MockLLMProvider,
+  validateJsonSchema,
+  type JSONSchema,
+  type LLMStreamChunk,
+} from '../llmProviders';
+import { SovereignAIAdapter } from '../sovereignAIAdapter';
+import { UnifiedLLM } from '../unifiedLLM';
+
+const weatherTool = {
+  name: 'get_weather',
+  description: 'Current weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city'],
+    additionalProperties: false,
+  } as JSONSchema,
+};
+
+const auditSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer' },
+    level: { type: 'string', enum: ['low', 'medium', 'high'] },
+    issues: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['score', 'level'],
+  additionalProperties: false,
+};
+
+const sseBody = [
+  'data: {"choices":[{"delta":{"content":"Il fait "}}]}',
+  'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_a","function":{"name":"get_weather","arguments":"{\\"ci"}}]}}]}',
+  'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"ty\\":\\"Paris\\"}"}}]}}]}',
+  'data: {"choices":[{"delta":{},"finish_reason":"tool_calls"}],"usage":{"prompt_tokens":12,"completion_tokens":7,"total_tokens":19}}',
+  'data: [DONE]',
+  '',
+].join('\n');
+
+const ndjsonBody = [
+  '{"message":{"content":"Bon"},"done":false}',
+  '{"message":{"content":"jour"},"done":false}',
+  '{"message":{"content":""},"done":true,"done_reason":"stop","prompt_eval_count":4,"eval_count":2}',
+  '',
+].join('\n');
+
+interface RecordedRequest {
+  url: string;
+  body: Record<string, unknown>;
+}
+
+// fetch that answers from a queue and records the JSON bodies
+const fakeFetch = (replies: Array<() => Response>, requests: RecordedRequest[]): typeof fetch =>
+  async (input, init) => {
+    requests.push({ url: String(input), body: JSON.parse(String(init?.body ?? '{}')) });
+    const reply = replies.shift();
+    if (!reply) throw new TypeError('fetch failed');
+    return reply();
+  };
+
+const json = (data: unknown, status = 200) => () =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+const collect = async (stream: AsyncGenerator<LLMStreamChunk>) => {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+// Run tests
+export async function runLLMProvidersTests(): Promise<{ passed: number; failed: number; results: string[] }> {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  // Test 1: Ollama native API, tools, schema as `format`, options
+  const ollamaRequests: RecordedRequest[] = [];
+  const ollama = createLLMProvider({
+    provider: 'ollama',
+    fetch: fakeFetch([json({
+      model: 'llama3.2',
+      message: { content: '', tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Montréal' } } }] },
+      done: true,
+      prompt_eval_count: 10,
+      eval_count: 5,
+    })], ollamaRequests),
+  });
+  const ollamaResult = await ollama.chat([{ role: 'user', content: 'Météo ?' }], {
+    tools: [weatherTool],
+    responseFormat: { type: 'json_schema', name: 'audit', schema: auditSchema },
+    temperature: 0.2,
+    maxTokens: 256,
+  });
+  const ollamaBody = ollamaRequests[0]?.body ?? {};
+  check(
+    'Ollama wire format',
+    ollamaRequests[0]?.url === 'http://localhost:11434/api/chat' &&
+      JSON.stringify(ollamaBody.format) === JSON.stringify(auditSchema) &&
+      JSON.stringify(ollamaBody.options) === '{"temperature":0.2,"num_predict":256}' &&
+      (ollamaBody.tools as Array<{ function: { name: string } }>)[0].function.name === 'get_weather' &&
+      ollamaResult.finishReason === 'tool_calls' &&
+      ollamaResult.toolCalls[0]?.id === 'call_0' &&
+      ollamaResult.toolCalls[0]?.arguments.city === 'Montréal' &&
+      ollamaResult.usage.totalTokens === 15,
+    JSON.stringify({ ollamaBody, ollamaResult })
+  );
+
+  // Test 2: OpenAI-compatible servers, strict json_schema, tool_choice, SSE tool call fragments
+  const vllmRequests: RecordedRequest[] = [];
+  const vllm = createLLMProvider({
+    provider: 'vllm',
+    fetch: fakeFetch([() => new Response(sseBody, { headers: { 'Content-Type': 'text/event-stream' } })], vllmRequests),
+  });
+  const chunks = await collect(vllm.stream(
+    [
+      { role: 'user', content: 'Météo ?' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call_z', name: 'get_weather', arguments: { city: 'Lyon' } }] },
+      { role: 'tool', content: '{"temp":12}', toolCallId: 'call_z' },
+    ],
+    { tools: [weatherTool], toolChoice: { name: 'get_weather' }, responseFormat: { type: 'json_schema', name: 'audit', schema: auditSchema }, topK: 40 }
+  ));
+  const vllmBody = vllmRequests[0]?.body ?? {};
+  const vllmMessages = vllmBody.messages as Array<Record<string, unknown>>;
+  const last = chunks[chunks.length - 1];
+  check(
+    'OpenAI-compatible wire format and SSE',
+    vllmRequests[0]?.url === 'http://localhost:8000/v1/chat/completions' &&
+      JSON.stringify(vllmBody.response_format) === JSON.stringify({ type: 'json_schema', json_schema: { name: 'audit', schema: auditSchema, strict: true } }) &&
+      JSON.stringify(vllmBody.tool_choice) === '{"type":"function","function":{"name":"get_weather"}}' &&
+      vllmBody.top_k === 40 &&
+      (vllmMessages[1].tool_calls as Array<{ function: { arguments: string } }>)[0].function.arguments === '{"city":"Lyon"}' &&
+      vllmMessages[2].tool_call_id === 'call_z' &&
+      chunks.map(chunk => chunk.content).join('') === 'Il fait ' &&
+      last.done && last.finishReason === 'tool_calls' &&
+      JSON.stringify(last.toolCalls) === '[{"id":"call_a","name":"get_weather","arguments":{"city":"Paris"}}]' &&
+      last.usage?.totalTokens === 19,
+    JSON.stringify({ vllmBody, chunks })
+  );
+
+  // Test 3: Ollama NDJSON streaming
+  const ndjsonChunks = await collect(createLLMProvider({
+    provider: 'ollama',
+    fetch: fakeFetch([() => new Response(ndjsonBody)], []),
+  }).stream([{ role: 'user', content: 'Salut' }]));
+  check(
+    'Ollama NDJSON streaming',
+    ndjsonChunks.map(chunk => chunk.content).join('') === 'Bonjour' &&
+      ndjsonChunks.filter(chunk => chunk.done).length === 1 &&
+      ndjsonChunks[ndjsonChunks.length - 1].usage?.totalTokens === 6,
+    JSON.stringify(ndjsonChunks)
+  );
+
+  // Test 4: Retries on 503 and network errors, none on 400
+  const retryRequests: RecordedRequest[] = [];
+  const retried = await createLLMProvider({
+    provider: 'lmstudio',
+    retryDelayMs: 1,
+    fetch: fakeFetch([
+      json({ error: 'loading model' }, 503),
+      () => { throw new TypeError('fetch failed'); },
+      json({ choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }] }),
+    ], retryRequests),
+  }).chat([{ role: 'user', content: 'ping' }]);
+  const badRequests: RecordedRequest[] = [];
+  let badStatus: number | undefined;
+  try {
+    await createLLMProvider({
+      provider: 'localai',
+      retryDelayMs: 1,
+      fetch: fakeFetch([json({ error: 'bad model' }, 400), json({})], badRequests),
+    }).chat([{ role: 'user', content: 'ping' }]);
+  } catch (error) {
+    badStatus = (error as { status?: number }).status;
+  }
+  check(
+    'Retries with backoff',
+    retried.content === 'ok' && retryRequests.length === 3 && badStatus === 400 && badRequests.length === 1,
+    `${retryRequests.length} / ${badRequests.length} / ${badStatus}`
+  );
+
+  // Test 4b: A response without choices is a clear error, not a TypeError
+  let noChoicesError: unknown;
+  try {
+    await createLLMProvider({ provider: 'vllm', fetch: fakeFetch([json({ choices: [] })], []) })
+      .chat([{ role: 'user', content: 'ping' }]);
+  } catch (error) {
+    noChoicesError = error;
+  }
+  check(
+    'Empty choices are an error',
+    noChoicesError instanceof LLMError && noChoicesError.message === 'No choices in vllm response',
+    String(noChoicesError)
+  );
+
+  // Test 5: Tool loop on the mock provider, arguments validated before execution
+  const mock = new MockLLMProvider([
+    { toolCalls: [{ name: 'get_weather', arguments: { town: 'Paris' } }] },
+    { toolCalls: [{ name: 'get_weather', arguments: { city: 'Paris' } }] },
+    'Il fait 21°C à Paris.',
+  ]);
+  const executed: unknown[] = [];
+  const run = await new UnifiedLLM({ instance: mock }).runTools(
+    [{ role: 'user', content: 'Quel temps à Paris ?' }],
+    { get_weather: { parameters: weatherTool.parameters, execute: args => { executed.push(args); return { temp: 21 }; } } }
+  );
+  const toolMessages = run.messages.filter(message => message.role === 'tool');
+  check(
+    'Tool calling loop',
+    run.content === 'Il fait 21°C à Paris.' &&
+      run.steps === 3 &&
+      JSON.stringify(executed) === '[{"city":"Paris"}]' &&
+      toolMessages[0].content.includes('Arguments invalides') &&
+      toolMessages[1].content === '{"temp":21}' &&
+      toolMessages[1].toolCallId === run.messages[3].toolCalls?.[0].id &&
+      mock.requests[0].options.tools?.[0].name === 'get_weather',
+    JSON.stringify(run.messages)
+  );
+
+  // Test 6: JSON-schema output, invalid answers sent back for repair
+  const jsonMock = new MockLLMProvider(['{"score": "high"}', '```json\n{"score": 72, "level": "medium"}\n```']);
+  const audit = await new UnifiedLLM({ instance: jsonMock }).completeJSON<{ score: number }>(
+    [{ role: 'user', content: 'Audit' }],
+    auditSchema,
+    { name: 'audit' }
+  );
+  let rejected = '';
+  try {
+    await new UnifiedLLM({ instance: new MockLLMProvider(['pas du json']) }).completeJSON([], auditSchema, { repairAttempts: 0 });
+  } catch (error) {
+    rejected = (error as Error).name;
+  }
+  check(
+    'JSON-schema output',
+    audit.data.score === 72 &&
+      jsonMock.requests.length === 2 &&
+      jsonMock.requests[0].options.responseFormat?.type === 'json_schema' &&
+      jsonMock.requests[1].messages[2].content.includes('$.score: integer attendu, string reçu') &&
+      rejected === 'LLMError' &&
+      validateJsonSchema({ score: 1.5, level: 'max', extra: 1 }, auditSchema).length === 3,
+    JSON.stringify(jsonMock.requests.map(request => request.messages))
+  );
+
+  // Test 7: SovereignAIAdapter on the shared providers
+  const adapterMock = new MockLLMProvider(['Une réponse en streaming']);
+  const adapter = new SovereignAIAdapter({ instance: adapterMock });
+  const streamed = await collect(adapter.streamCompletion(null, 'Réponds', { systemPrompt: 'Sois bref', format: 'json' }));
+  const embedding = await adapter.generateEmbedding(null, ['a', 'b'], { dimensions: 4, normalize: true });
+  check(
+    'SovereignAIAdapter facade',
+    streamed.filter(chunk => !chunk.done).length === 4 &&
+      adapterMock.requests[0].messages[0].content === 'Sois bref' &&
+      adapterMock.requests[0].options.responseFormat?.type === 'json' &&
+      adapter.getConfig().provider === 'mock' &&
+      embedding.embeddings.length === 2 && embedding.embeddings[0].length === 4,
+    JSON.stringify(streamed)
+  );
+
+  // Log results
+  console.log('\n=== LLM PROVIDERS TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('===========================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  weatherTool,
+  auditSchema,
+  sseBody,
+  ndjsonBody,
+};
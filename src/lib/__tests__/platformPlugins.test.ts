@@ -0,0 +1,200 @@
+/**
+ * Tests for the source platform plugins
+ * Each fixture project must be attributed to its platform, and the cleaner
+ * must apply only the selected plugins' removals, rewrites, polyfills and
+ * package.json fixes.
+ */
+
+import { detectPlatforms, selectPlatformPlugins, boltPlugin, v0Plugin } from '../platformPlugins';
+import { LovableCleanerEngine } from '../lovableCleanerEngine';
+import { LovablePatternScanner } from '../lovablePatternScanner';
+import { LiberatorEngine } from '../liberatorCore';
+import { UnifiedLiberator } from '../unifiedLiberator';
+
+// Bolt.new export (Vite + React template)
+const boltProject: Record<string, string> = {
+  '.bolt/config.json': `{ "template": "bolt-vite-react-ts" }
+`,
+  '.bolt/prompt': `Use Tailwind and lucide-react.
+`,
+  'package.json': `{
+  "name": "vite-react-typescript-starter",
+  "dependencies": {
+    "react": "^18.3.1",
+    "@webcontainer/api": "^1.1.0"
+  }
+}`,
+  'src/App.tsx': `import { WebContainer } from '@webcontainer/api';
+import { useState } from 'react';
+
+export default function App() {
+  const [count, setCount] = useState(0);
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}
+`,
+};
+
+// v0 export (Next.js app router, no src/ directory)
+const v0Project: Record<string, string> = {
+  'package.json': `{
+  "name": "my-v0-project",
+  "dependencies": {
+    "next": "15.2.4",
+    "@vercel/analytics": "1.3.1"
+  }
+}`,
+  'app/layout.tsx': `import type { Metadata } from 'next';
+import { Analytics } from '@vercel/analytics/next';
+
+export const metadata: Metadata = {
+  title: 'Dashboard',
+  generator: 'v0.dev',
+};
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="en">
+      <body>
+        {children}
+        <Analytics />
+      </body>
+    </html>
+  );
+}
+`,
+};
+
+const expectedV0Layout = `import type { Metadata } from 'next';
+import { Analytics } from '@/lib/analytics';
+
+export const metadata: Metadata = {
+  title: 'Dashboard',
+};
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="en">
+      <body>
+        {children}
+        <Analytics />
+      </body>
+    </html>
+  );
+}
+`;
+
+// Lovable export
+const lovableProject: Record<string, string> = {
+  'package.json': `{
+  "name": "vite_react_shadcn_ts",
+  "devDependencies": { "lovable-tagger": "^1.1.7" }
+}`,
+  'src/integrations/supabase/client.ts': `export const supabase = {};
+`,
+  'src/App.tsx': `export const App = () => <div data-lov-id="app">App</div>;
+`,
+};
+
+// Run tests
+export function runPlatformPluginTests(): { passed: number; failed: number; results: string[] } {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  // Test 1: Detection heuristics
+  const detected = (files: Record<string, string>) => detectPlatforms(files).map(d => `${d.platform}:${d.confidence}`);
+  check('Bolt.new detection', JSON.stringify(detected(boltProject)) === JSON.stringify(['bolt:1']), JSON.stringify(detected(boltProject)));
+  check('v0 detection', JSON.stringify(detected(v0Project)) === JSON.stringify(['v0:1']), JSON.stringify(detected(v0Project)));
+  check('Lovable detection', JSON.stringify(detected(lovableProject)) === JSON.stringify(['lovable:1']), JSON.stringify(detected(lovableProject)));
+  check(
+    'Nothing detected selects every plugin',
+    detectPlatforms({ 'src/index.ts': 'export {};' }).length === 0 &&
+      selectPlatformPlugins([]).map(p => p.id).join() === 'lovable,bolt,v0,cursor'
+  );
+
+  // Test 2: LiberatorEngine reports the detected platform
+  const engine = new LiberatorEngine();
+  check(
+    'LiberatorEngine platformDetected',
+    engine.scan(boltProject).platformDetected === 'bolt' &&
+      engine.scan(v0Project).platformDetected === 'v0' &&
+      engine.scan({ 'src/index.ts': 'export {};' }).platformDetected === 'unknown'
+  );
+
+  // Test 3: Bolt.new cleaning
+  const boltCleaner = new LovableCleanerEngine({ platforms: [boltPlugin], projectName: 'My Shop' });
+  const boltReport = boltCleaner.cleanProject(boltProject, new LovablePatternScanner().scanProject(boltProject));
+  const boltPackage = JSON.parse(boltReport.cleanedFiles['package.json']);
+  check(
+    'Bolt.new cleaning',
+    boltReport.cleanedFiles['.bolt/config.json'] === undefined &&
+      boltReport.cleanedFiles['.bolt/prompt'] === undefined &&
+      boltPackage.name === 'my-shop' &&
+      boltPackage.dependencies['@webcontainer/api'] === undefined &&
+      !boltReport.cleanedFiles['src/App.tsx'].includes('@webcontainer/api'),
+    JSON.stringify(boltReport.cleanedFiles)
+  );
+
+  // Test 4: v0 cleaning (rewrite, polyfill, package.json)
+  const v0Cleaner = new LovableCleanerEngine({ platforms: [v0Plugin] });
+  const v0Report = v0Cleaner.cleanProject(v0Project, new LovablePatternScanner().scanProject(v0Project));
+  const v0Package = JSON.parse(v0Report.cleanedFiles['package.json']);
+  check('v0 layout rewritten', v0Report.cleanedFiles['app/layout.tsx'] === expectedV0Layout, JSON.stringify(v0Report.cleanedFiles['app/layout.tsx']));
+  check(
+    'v0 analytics polyfill and package.json',
+    v0Report.cleanedFiles['lib/analytics.tsx']?.includes('export function Analytics') === true &&
+      v0Report.summary.polyfillsGenerated === 1 &&
+      v0Package.name === 'sovereign-app' &&
+      v0Package.dependencies['@vercel/analytics'] === undefined,
+    JSON.stringify(Object.keys(v0Report.cleanedFiles))
+  );
+
+  // Test 5: Plugins only apply to their platform
+  const lovableOnly = new LovableCleanerEngine({ platforms: selectPlatformPlugins(detectPlatforms(lovableProject)) });
+  const untouched = lovableOnly.cleanFile('app/layout.tsx', v0Project['app/layout.tsx']);
+  check(
+    'Unselected plugins are not applied',
+    untouched.cleanedContent === v0Project['app/layout.tsx'] &&
+      lovableOnly.cleanFile('.bolt/prompt', 'x').wasRemoved === false &&
+      lovableOnly.cleanFile('src/integrations/supabase/client.ts', 'x').wasRemoved === true
+  );
+
+  // Test 6: Scan rules of the detected platforms
+  const v0Scan = UnifiedLiberator.quickScan(v0Project);
+  const registryScan = new LovablePatternScanner().scanProject(v0Project);
+  check(
+    'Plugin scan rules',
+    JSON.stringify(v0Scan.issues.map(i => `${i.file}:${i.line} ${i.pattern}`)) === JSON.stringify([
+      'app/layout.tsx:2 vercel-analytics',
+      'app/layout.tsx:6 v0-generator-metadata',
+    ]) &&
+      registryScan.issues.length === 0 &&
+      v0Scan.score < registryScan.score,
+    JSON.stringify(v0Scan.issues)
+  );
+
+  // Log results
+  console.log('\n=== PLATFORM PLUGIN TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('=============================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  boltProject,
+  v0Project,
+  lovableProject,
+};
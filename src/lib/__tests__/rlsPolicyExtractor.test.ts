@@ -0,0 +1,257 @@
+/**
+ * Tests for the RLS policy translation
+ * Policies taken from the Supabase migrations must translate to an enforceable
+ * SQL WHERE fragment and an equivalent JS guard (evaluated here against the
+ * generated runtime); untranslatable clauses must fail closed.
+ */
+
+import ts from 'typescript';
+import {
+  parseRLSPolicy,
+  translateRLSExpression,
+  convertRLSExpressionToJS,
+  generateMiddleware,
+  generateRLSRuntime,
+  extractPoliciesFromMigrations,
+  RLSTranslationError,
+} from '../rlsPolicyExtractor';
+
+interface TestUser {
+  id: string;
+  email: string;
+  claims?: Record<string, unknown>;
+}
+
+interface Runtime {
+  rls: unknown;
+  configureRLS: (options: { query: (sql: string, params: unknown[]) => Promise<{ rows: Array<Record<string, unknown>> }> }) => void;
+  rlsWhere: (filters: unknown[], table: string, command: string, offset?: number) => { sql: string; params: unknown[] };
+  rlsCheck: (filters: unknown[], table: string, command: string, row: Record<string, unknown>) => Promise<boolean>;
+}
+
+// Loads the generated runtime module (TypeScript → CommonJS)
+function loadRuntime(): Runtime {
+  const { outputText } = ts.transpileModule(generateRLSRuntime(), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+  const exports: Record<string, unknown> = {};
+  new Function('exports', 'require', outputText)(exports, () => ({}));
+  return exports as unknown as Runtime;
+}
+
+const alice: TestUser = { id: '11111111-1111-1111-1111-111111111111', email: 'alice@example.com', claims: { role: 'authenticated', app_metadata: { plan: 'pro' } } };
+const bob: TestUser = { id: '22222222-2222-2222-2222-222222222222', email: 'bob@example.com', claims: { role: 'authenticated' } };
+
+const migration = `-- Profiles
+CREATE POLICY "Users can view their own profile"
+ON public.profiles FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);-- owner only
+
+CREATE POLICY "Old avatar policy" ON storage.objects FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Old avatar policy" ON storage.objects;
+
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "No semicolons; here" ON public.notes AS RESTRICTIVE FOR ALL
+USING (((status IN ('draft', 'review')) AND (title <> 'x;y')));
+
+CREATE OR REPLACE FUNCTION public.touch() RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at = now(); -- CREATE POLICY inside a body is not a policy
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+`;
+
+// Run tests
+export async function runRLSPolicyExtractorTests(): Promise<{ passed: number; failed: number; results: string[] }> {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  const runtime = loadRuntime();
+  const queries: Array<{ sql: string; params: unknown[] }> = [];
+  let databaseValue: unknown = true;
+  runtime.configureRLS({
+    query: async (sql, params) => {
+      queries.push({ sql, params });
+      return { rows: [{ value: databaseValue }] };
+    },
+  });
+
+  const evaluate = (expression: string, table: string, row: Record<string, unknown>, user?: TestUser): Promise<unknown> => {
+    const guard = convertRLSExpressionToJS(expression, table);
+    return new Function('rls', 'row', 'user', `return (async () => ${guard})();`)(runtime.rls, row, user);
+  };
+
+  // Test 1: CREATE POLICY parsing
+  const parsed = parseRLSPolicy(`CREATE POLICY "Admins manage (all) deployments" ON "public"."server_deployments" AS RESTRICTIVE FOR UPDATE TO authenticated, service_role USING (has_role(auth.uid(), 'admin'::app_role) OR (user_id = auth.uid())) WITH CHECK (true)`);
+  check(
+    'CREATE POLICY parsing',
+    parsed?.policyName === 'Admins manage (all) deployments' &&
+      parsed.tableName === 'server_deployments' &&
+      parsed.schemaName === 'public' &&
+      parsed.permissive === false &&
+      parsed.command === 'UPDATE' &&
+      parsed.roles.join() === 'authenticated,service_role' &&
+      parsed.usingExpression === "has_role(auth.uid(), 'admin'::app_role) OR (user_id = auth.uid())" &&
+      parsed.withCheckExpression === 'true',
+    JSON.stringify(parsed)
+  );
+
+  // Test 2: Migration extraction (statement splitting, DROP POLICY, function bodies)
+  const policies = extractPoliciesFromMigrations({ 'supabase/migrations/001_init.sql': migration });
+  check(
+    'Policies extracted from migrations',
+    policies.map(p => `${p.schemaName}.${p.tableName}:${p.policyName}`).join('|') ===
+      'public.profiles:Users can view their own profile|storage.objects:Users can upload their own avatar|public.notes:No semicolons; here',
+    JSON.stringify(policies.map(p => p.policyName))
+  );
+
+  // Test 3: SQL WHERE fragment bound to the user
+  const owner = translateRLSExpression('auth.uid() = user_id', 'profiles');
+  check(
+    'WHERE fragment with bound parameters',
+    owner.where === '$1::uuid = user_id' && owner.params.join() === 'rls.uid(user)' && !owner.usesDatabase && owner.errors.length === 0,
+    JSON.stringify(owner)
+  );
+  check('Owner guard', (await evaluate('auth.uid() = user_id', 'profiles', { user_id: alice.id }, alice)) === true &&
+    (await evaluate('auth.uid() = user_id', 'profiles', { user_id: alice.id }, bob)) === false &&
+    (await evaluate('auth.uid() = user_id', 'profiles', { user_id: alice.id })) === null);
+
+  // Test 4: Nested parentheses, IN, ANY and auth.jwt() claims
+  const nested = `((auth.jwt() -> 'app_metadata' ->> 'plan') = 'pro' AND (status IN ('draft', 'review'))) OR (auth.uid() = ANY (editors) AND NOT (locked))`;
+  const nestedRow = { status: 'review', editors: [bob.id], locked: false };
+  check(
+    'Nested expression guard',
+    (await evaluate(nested, 'documents', nestedRow, alice)) === true &&
+      (await evaluate(nested, 'documents', { ...nestedRow, status: 'published' }, alice)) === false &&
+      (await evaluate(nested, 'documents', { ...nestedRow, status: 'published' }, bob)) === true &&
+      (await evaluate(nested, 'documents', { ...nestedRow, status: 'published', locked: null }, bob)) === null
+  );
+  check(
+    'Nested expression WHERE',
+    translateRLSExpression(nested, 'documents').where ===
+      `(((($1::jsonb -> 'app_metadata') ->> 'plan') = 'pro') AND (status IN ('draft', 'review'))) OR (($2::uuid = ANY (editors)) AND (NOT locked))`,
+    translateRLSExpression(nested, 'documents').where
+  );
+
+  // Test 5: EXISTS and IN (SELECT ...) are delegated to the database with the row in scope
+  const exists = 'EXISTS (SELECT 1 FROM public.server_deployments sd WHERE sd.id = deployment_id AND sd.user_id = auth.uid())';
+  const delegated = translateRLSExpression(exists, 'health_check_logs');
+  queries.length = 0;
+  databaseValue = false;
+  const existsResult = await evaluate(exists, 'health_check_logs', { deployment_id: 'd1' }, alice);
+  check(
+    'EXISTS delegated to the database',
+    delegated.usesDatabase &&
+      delegated.where === 'EXISTS (SELECT 1 FROM public.server_deployments sd WHERE (sd.id = deployment_id) AND (sd.user_id = $1::uuid))' &&
+      existsResult === false &&
+      queries[0]?.sql ===
+        'SELECT (EXISTS (SELECT 1 FROM public.server_deployments sd WHERE (sd.id = deployment_id) AND (sd.user_id = $2::uuid))) AS value FROM jsonb_populate_record(NULL::public.health_check_logs, $1::jsonb) AS health_check_logs' &&
+      JSON.stringify(queries[0]?.params) === JSON.stringify(['{"deployment_id":"d1"}', alice.id]),
+    JSON.stringify(queries)
+  );
+  check(
+    'IN (SELECT ...) and (SELECT auth.uid())',
+    translateRLSExpression('team_id IN (SELECT team_id FROM members WHERE user_id = (select auth.uid()))', 'projects').usesDatabase &&
+      !translateRLSExpression('user_id = (select auth.uid())', 'projects').usesDatabase &&
+      (await evaluate('user_id = (select auth.uid())', 'projects', { user_id: alice.id }, alice)) === true
+  );
+
+  // Test 6: Storage policy with array subscript on a database function
+  databaseValue = [alice.id, 'avatar.png'];
+  const avatar = policies[1].withCheckExpression!;
+  check(
+    'Storage folder policy',
+    (await evaluate(avatar, 'objects', { bucket_id: 'avatars', name: `${alice.id}/avatar.png` }, alice)) === true &&
+      (await evaluate(avatar, 'objects', { bucket_id: 'avatars', name: `${alice.id}/avatar.png` }, bob)) === false &&
+      translateRLSExpression(avatar, 'objects', 'storage').warnings.length === 1
+  );
+
+  // Test 7: Untranslatable clauses fail closed
+  const unsafe = "(current_setting('request.jwt.claims', true)::json ->> 'sub') = owner_id::text";
+  let thrown: unknown = null;
+  try {
+    convertRLSExpressionToJS(unsafe, 'notes');
+  } catch (error) {
+    thrown = error;
+  }
+  const denied = generateMiddleware({ tableName: 'notes', policyName: 'Session owner', command: 'ALL', usingExpression: unsafe, roles: ['authenticated'] });
+  const caseExpr = translateRLSExpression("CASE WHEN is_public THEN true ELSE owner_id = auth.uid() END", 'notes');
+  check(
+    'Untranslatable clause refused',
+    thrown instanceof RLSTranslationError &&
+      !denied.translated &&
+      denied.content.includes('res.status(403)') &&
+      !denied.content.includes('next()') &&
+      denied.content.includes("sql: 'FALSE'") &&
+      caseExpr.errors.length === 1 &&
+      caseExpr.where === 'FALSE' &&
+      translateRLSExpression('auth.foo() = owner_id', 'notes').errors.length === 1,
+    JSON.stringify(denied.errors)
+  );
+
+  // Test 8: Generated middleware and policy combination
+  const middleware = generateMiddleware(policies[0]);
+  check(
+    'Generated middleware',
+    middleware.translated &&
+      middleware.name === 'requireProfilesUsersCanViewTheirOwnProfile' &&
+      middleware.content.includes('sql: `$${offset + 1}::uuid = user_id`') &&
+      middleware.content.includes('rls.hasRole(req.user, ["authenticated"])'),
+    middleware.content
+  );
+
+  const filter = (policy: string, permissive: boolean, sql: string, value: unknown, allowed: boolean) => ({
+    table: 'notes',
+    policy,
+    command: 'ALL',
+    permissive,
+    using: (offset: number) => ({ sql: sql.replace('$1', `$${offset + 1}`), params: [value] }),
+    check: async () => allowed,
+  });
+  const filters = [
+    filter('own', true, 'owner_id = $1', alice.id, false),
+    filter('shared', true, 'shared_with = $1', alice.id, true),
+    filter('not archived', false, 'archived = $1', false, true),
+  ];
+  const where = runtime.rlsWhere(filters, 'notes', 'SELECT', 2);
+  check(
+    'Permissive OR / restrictive AND',
+    where.sql === '((owner_id = $3) OR (shared_with = $4)) AND (archived = $5)' &&
+      where.params.length === 3 &&
+      runtime.rlsWhere([], 'notes', 'SELECT').sql === 'FALSE' &&
+      (await runtime.rlsCheck(filters, 'notes', 'INSERT', {})) === true &&
+      (await runtime.rlsCheck([filters[0], filters[2]], 'notes', 'INSERT', {})) === false,
+    JSON.stringify(where)
+  );
+
+  // Log results
+  console.log('\n=== RLS POLICY EXTRACTOR TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('==================================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  migration,
+  alice,
+  bob,
+};
@@ -0,0 +1,126 @@
+/**
+ * Tests for the generated RLS authorization test suite
+ * Every extracted policy must get one case per step (USING / WITH CHECK),
+ * rows must be owned by the owner persona, and the liberation pack must ship
+ * the suite next to the middleware it verifies.
+ */
+
+import { deriveOwnerColumns, generateRLSTestSuite } from '../rlsTestSuiteGenerator';
+import { extractPoliciesFromMigrations, generateAllMiddleware } from '../rlsPolicyExtractor';
+import { rebuildProject } from '../projectRebuilder';
+
+const migrations: Record<string, string> = {
+  'supabase/migrations/001_profiles.sql': `CREATE TABLE public.profiles (id uuid PRIMARY KEY, display_name text);
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own profile" ON public.profiles
+FOR SELECT USING (auth.uid() = id);
+
+CREATE POLICY "Users can insert their own profile" ON public.profiles
+FOR INSERT WITH CHECK ((select auth.uid()) = id);
+`,
+  'supabase/migrations/002_documents.sql': `CREATE TABLE public.documents (id uuid PRIMARY KEY, owner_id uuid, editors uuid[], author_email text);
+
+CREATE POLICY "Editors manage documents" ON public.documents
+FOR ALL TO authenticated
+USING (owner_id = auth.uid() OR auth.uid() = ANY (editors) OR public.has_role(auth.uid(), 'admin'))
+WITH CHECK ((auth.jwt() ->> 'email') = author_email);
+`,
+  'src/App.tsx': 'export default function App() { return null; }',
+};
+
+// Run tests
+export async function runRLSTestSuiteGeneratorTests(): Promise<{ passed: number; failed: number; results: string[] }> {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  // Test 1: Owner columns derived from the policy expressions
+  const owner = deriveOwnerColumns("owner_id = auth.uid() OR auth.uid() = ANY (editors) OR (auth.jwt() ->> 'email') = documents.author_email", 'documents');
+  check(
+    'Owner columns',
+    JSON.stringify(owner) === JSON.stringify({ owner_id: 'id', editors: 'id[]', author_email: 'email' }) &&
+      JSON.stringify(deriveOwnerColumns('EXISTS (SELECT 1 FROM teams t WHERE t.owner_id = auth.uid())', 'documents')) === '{}' &&
+      JSON.stringify(deriveOwnerColumns('CASE WHEN true THEN 1 END', 'documents')) === '{}',
+    JSON.stringify(owner)
+  );
+
+  // Test 2: One case per policy and step
+  const policies = extractPoliciesFromMigrations(migrations);
+  const { middlewares } = generateAllMiddleware(policies);
+  const suite = generateRLSTestSuite(policies, middlewares, migrations);
+  check(
+    'Cases per policy',
+    JSON.stringify(suite.cases.map(c => `${c.table}:${c.command}:${c.steps.join('+')}:${c.middleware}`)) === JSON.stringify([
+      'profiles:SELECT:using:requireProfilesUsersCanViewTheirOwnProfile',
+      'profiles:INSERT:check:requireProfilesUsersCanInsertTheirOwnProfile',
+      'documents:ALL:using+check:requireDocumentsEditorsManageDocuments',
+    ]),
+    JSON.stringify(suite.cases)
+  );
+
+  // Test 3: Fixtures, seeds and migrations
+  const fixtures = suite.files['fixtures.ts'];
+  const statements = JSON.parse(suite.files['migrations.json']) as Array<{ file: string; statements: string[] }>;
+  check(
+    'Fixtures and migrations',
+    fixtures.includes('"public.profiles": owner => ({ id: owner.id }),') &&
+      fixtures.includes('"public.documents": owner => ({ owner_id: owner.id, editors: [owner.id], author_email: owner.email }),') &&
+      fixtures.includes('INSERT INTO public.user_roles') &&
+      statements.map(m => `${m.file}:${m.statements.length}`).join() === '001_profiles.sql:4,002_documents.sql:2',
+    fixtures
+  );
+
+  // Test 4: Test file wiring
+  const testFile = suite.files['authorization.test.ts'];
+  check(
+    'Generated test file',
+    testFile.includes("import * as middleware from '../../src/middleware/rls';") &&
+      testFile.includes('middleware: middleware.requireDocumentsEditorsManageDocuments, steps: ["using","check"]') &&
+      testFile.includes('RLS_TEST_DATABASE_URL') &&
+      suite.files['harness.ts'].includes("from '../../src/middleware/rls/rlsRuntime'") &&
+      suite.files['shim.sql'].includes('CREATE OR REPLACE FUNCTION auth.uid()')
+  );
+
+  // Test 5: Liberation pack
+  const pack = await rebuildProject(new Map(Object.entries(migrations)), { name: 'demo' });
+  const backendPackage = JSON.parse(pack.files.get('backend/package.json') ?? '{}');
+  check(
+    'Liberation pack ships middleware and suite',
+    pack.files.has('backend/src/middleware/rls/requireDocumentsEditorsManageDocuments.ts') &&
+      pack.files.has('backend/src/middleware/rls/rlsRuntime.ts') &&
+      pack.files.has('backend/tests/rls/authorization.test.ts') &&
+      backendPackage.scripts?.['test:rls'] === 'tsx --test tests/rls/authorization.test.ts',
+    JSON.stringify(backendPackage.scripts)
+  );
+
+  const withoutPolicies = await rebuildProject(new Map([['src/App.tsx', migrations['src/App.tsx']]]), { name: 'demo' });
+  check(
+    'No policies, no suite',
+    !withoutPolicies.files.has('backend/tests/rls/authorization.test.ts') &&
+      JSON.parse(withoutPolicies.files.get('backend/package.json') ?? '{}').scripts['test:rls'] === undefined
+  );
+
+  // Log results
+  console.log('\n=== RLS TEST SUITE GENERATOR TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('======================================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  migrations,
+};
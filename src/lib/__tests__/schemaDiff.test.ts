@@ -0,0 +1,208 @@
+/**
+ * Tests for the schema diff engine
+ * Migration files and catalog rows must produce the same model, and the
+ * generated up/down migrations must be ordered and safe to re-run.
+ */
+
+import {
+  buildSchemaFromCatalog,
+  buildSchemaFromMigrations,
+  createEmptySchema,
+  diffSchemas,
+  generateVersionedMigration,
+  normalizeExpression,
+  normalizeType,
+  SchemaCatalog,
+} from '../schemaDiff';
+
+const v1Migrations: Record<string, string> = {
+  'supabase/migrations/001_init.sql': `CREATE TYPE public.app_role AS ENUM ('admin', 'user');
+CREATE TABLE public.projects (id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY, owner_id uuid NOT NULL, name text NOT NULL, legacy text, role public.app_role DEFAULT 'user');
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Owners read" ON public.projects FOR SELECT USING (auth.uid() = owner_id AND role IN ('admin', 'user'));
+-- Grants are not part of the model
+GRANT SELECT ON public.projects TO authenticated;`,
+  'supabase/migrations/002_plan.sql': `DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'plan') THEN
+    CREATE TYPE public.plan AS ENUM ('free');
+  END IF;
+END $$;
+ALTER TABLE public.projects DROP COLUMN legacy;
+ALTER TABLE public.projects ADD COLUMN plan public.plan DEFAULT 'free'::public.plan;`,
+};
+
+const v2Migrations: Record<string, string> = {
+  'supabase/migrations/001_init.sql': `CREATE TYPE public.app_role AS ENUM ('admin', 'moderator', 'user');
+CREATE TYPE public.plan AS ENUM ('free');
+CREATE TABLE public.projects (id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY, owner_id uuid NOT NULL, name varchar(80) NOT NULL, role public.app_role DEFAULT 'user', plan public.plan DEFAULT 'free');
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+CREATE TABLE public.tasks (id uuid PRIMARY KEY, project_id uuid REFERENCES public.projects ON DELETE CASCADE, title text CHECK (length(title) > 0));
+CREATE INDEX tasks_project_idx ON public.tasks (project_id);`,
+};
+
+// v1 as read back from pg_catalog (pg_get_*def spelling)
+const v1Catalog: SchemaCatalog = {
+  enums: [
+    { schema: 'public', name: 'app_role', values: ['admin', 'user'] },
+    { schema: 'public', name: 'plan', values: ['free'] },
+  ],
+  tables: [{ schema: 'public', name: 'projects', rls: true }],
+  columns: [
+    { schema: 'public', table: 'projects', name: 'id', type: 'uuid', nullable: false, default: 'gen_random_uuid()', generated: null },
+    { schema: 'public', table: 'projects', name: 'owner_id', type: 'uuid', nullable: false, default: null, generated: null },
+    { schema: 'public', table: 'projects', name: 'name', type: 'text', nullable: false, default: null, generated: null },
+    { schema: 'public', table: 'projects', name: 'role', type: 'app_role', nullable: true, default: "'user'::app_role", generated: null },
+    { schema: 'public', table: 'projects', name: 'plan', type: 'plan', nullable: true, default: "'free'::plan", generated: null },
+  ],
+  constraints: [{ schema: 'public', table: 'projects', name: 'projects_pkey', definition: 'PRIMARY KEY (id)' }],
+  indexes: [],
+  functions: [],
+  triggers: [],
+  policies: [{
+    schema: 'public',
+    table: 'projects',
+    name: 'Owners read',
+    permissive: true,
+    command: 'SELECT',
+    roles: ['public'],
+    using: "((auth.uid() = owner_id) AND (role = ANY (ARRAY['admin'::app_role, 'user'::app_role])))",
+    check: null,
+  }],
+};
+
+// Run tests
+export function runSchemaDiffTests(): { passed: number; failed: number; results: string[] } {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  // Test 1: Type and expression normalization
+  check(
+    'Normalization',
+    normalizeType('character varying(20)') === 'varchar(20)' &&
+      normalizeType('timestamp with time zone') === 'timestamptz' &&
+      normalizeType('public.app_role') === 'app_role' &&
+      normalizeExpression("role IN ('admin'::text, 'user')") === "role = ANY (ARRAY['admin', 'user'])" &&
+      normalizeExpression("public.has_role(auth.uid(), 'admin'::app_role)", new Set(['app_role'])) === "has_role(auth.uid(), 'admin')",
+    normalizeExpression("role IN ('admin'::text, 'user')")
+  );
+
+  // Test 2: Replaying migrations (DO blocks, ALTER, DROP, ignored statements)
+  const v1 = buildSchemaFromMigrations(v1Migrations);
+  const projects = v1.schema.tables['public.projects'];
+  check(
+    'Model from migrations',
+    v1.warnings.length === 0 &&
+      JSON.stringify(Object.keys(v1.schema.enums)) === JSON.stringify(['public.app_role', 'public.plan']) &&
+      projects.rls &&
+      projects.columns.map(c => `${c.name}:${c.type}`).join() === 'id:uuid,owner_id:uuid,name:text,role:app_role,plan:plan' &&
+      projects.columns.find(c => c.name === 'plan')?.default === "'free'" &&
+      projects.constraints.map(c => c.name).join() === 'projects_pkey',
+    JSON.stringify(v1)
+  );
+
+  // Test 3: Catalog rows give the same model as the migrations
+  const fromCatalog = buildSchemaFromCatalog(v1Catalog);
+  const drift = diffSchemas(fromCatalog.schema, v1.schema);
+  check(
+    'Catalog matches migrations',
+    fromCatalog.warnings.length === 0 && drift.changes.length === 0,
+    JSON.stringify(drift.changes)
+  );
+
+  // Test 4: Ordered, idempotent diff
+  const v2 = buildSchemaFromMigrations(v2Migrations);
+  const diff = diffSchemas(v1.schema, v2.schema);
+  const steps = diff.changes.map(c => `${c.action} ${c.object} ${c.name}`);
+  const statements = diff.changes.flatMap(c => c.statements).join('\n');
+  check(
+    'Diff order',
+    JSON.stringify(steps) === JSON.stringify([
+      'drop policy public.projects:Owners read',
+      'alter enum public.app_role',
+      'create table public.tasks',
+      'alter column public.projects.name',
+      'create constraint public.tasks.tasks_project_id_fkey',
+      'create index public.tasks_project_idx',
+    ]),
+    JSON.stringify(steps)
+  );
+  check(
+    'Idempotent statements',
+    statements.includes('DROP POLICY IF EXISTS "Owners read" ON public.projects;') &&
+      statements.includes("ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'moderator' AFTER 'admin';") &&
+      statements.includes('CREATE TABLE IF NOT EXISTS public.tasks (') &&
+      statements.includes('CONSTRAINT tasks_title_check CHECK (length(title) > 0)') &&
+      statements.includes('ALTER TABLE public.projects ALTER COLUMN name TYPE varchar(80) USING name::varchar(80);') &&
+      statements.includes('REFERENCES public.projects(id) ON DELETE CASCADE;\nEXCEPTION WHEN duplicate_object OR duplicate_table THEN NULL;') &&
+      statements.includes('CREATE INDEX IF NOT EXISTS tasks_project_idx ON public.tasks USING btree (project_id);'),
+    statements
+  );
+  check('Identical schemas', diffSchemas(v2.schema, v2.schema).changes.length === 0);
+
+  // Test 5: Versioned up/down files
+  const migration = generateVersionedMigration(v1.schema, v2.schema, { name: 'Add tasks!', version: '20260101120000' });
+  check(
+    'Versioned files',
+    JSON.stringify(Object.keys(migration.files)) === JSON.stringify([
+      'supabase/migrations/20260101120000_add_tasks.sql',
+      'supabase/migrations/rollback/20260101120000_add_tasks.down.sql',
+    ]) &&
+      migration.up.includes("INSERT INTO public.inopay_schema_migrations (version, name) VALUES ('20260101120000', 'add_tasks') ON CONFLICT (version) DO NOTHING;") &&
+      migration.down.includes("DELETE FROM public.inopay_schema_migrations WHERE version = '20260101120000';"),
+    Object.keys(migration.files).join()
+  );
+  check(
+    'Down migration reverts',
+    migration.down.includes('DROP TABLE IF EXISTS public.tasks CASCADE;') &&
+      migration.down.includes('ALTER COLUMN name TYPE text USING name::text;') &&
+      migration.down.includes('CREATE POLICY "Owners read" ON public.projects AS PERMISSIVE FOR SELECT TO public') &&
+      migration.down.includes('-- WARNING: table public.tasks is dropped with its data') &&
+      migration.down.includes('-- WARNING: enum public.app_role: values moderator cannot be removed in place'),
+    migration.down
+  );
+
+  const safe = generateVersionedMigration(v2.schema, v1.schema, { version: '20260101130000', allowDestructive: false });
+  check(
+    'Destructive changes are opt-in',
+    !safe.up.includes('DROP TABLE IF EXISTS public.tasks') &&
+      safe.skipped.some(change => change.object === 'table' && change.name === 'public.tasks') &&
+      safe.warnings.includes('table public.tasks is kept (destructive changes not allowed)') &&
+      safe.up.includes('ALTER COLUMN name TYPE text USING name::text;'),
+    safe.up
+  );
+
+  const fresh = generateVersionedMigration(createEmptySchema(), v1.schema, { version: '20260101000000' });
+  check(
+    'Migration from an empty database',
+    fresh.name === 'schema_sync' &&
+      fresh.up.indexOf("CREATE TYPE public.app_role AS ENUM ('admin', 'user')") < fresh.up.indexOf('CREATE TABLE IF NOT EXISTS public.projects') &&
+      fresh.up.includes('ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;'),
+    fresh.up
+  );
+
+  // Log results
+  console.log('\n=== SCHEMA DIFF TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('=========================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  v1Migrations,
+  v2Migrations,
+  v1Catalog,
+};
@@ -0,0 +1,233 @@
+/**
+ * Conformance tests for the shared sovereignty rule registry
+ * Every consumer (web scanner, CLI, backend, edge functions) must report the
+ * same findings and the same score for the same fixture corpus.
+ */
+
+import * as registry from '../sovereigntyRules';
+import * as cliRules from '../../../cli/src/rules';
+import * as backendRules from '../../../backend/src/services/sovereigntyRules';
+import * as edgeRules from '../../../supabase/functions/_shared/sovereignty-rules';
+import { LovablePatternScanner } from '../lovablePatternScanner';
+
+// Fixture corpus: one file per rule family, plus files that must NOT be scanned
+const fixtureCorpus: Record<string, string> = {
+  'src/ai/assistant.ts': `import { getAIAssistant, runAssistant } from '@agent/core';
+const assistant = getAIAssistant({ model: 'default' });
+export const answer = await runAssistant(assistant, prompt);
+export const text = lovable.generate({ prompt });
+lovableApi.track('event');
+`,
+  'src/main.tsx': `import { componentTagger } from "lovable-tagger";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@lovable/ui";
+// @lovable-component Header
+/* lovable: generated */
+const ws = new WebSocket('wss://realtime.lovable.dev');
+navigator.serviceWorker.register('/lovable-sw.js');
+`,
+  'src/components/Card.tsx': `export const Card = () => (
+  <div data-lov-id="card-1" data-lovable-source="Card" className="card">
+    <span class="title lov-title">Title</span>
+  </div>
+);
+`,
+  'src/lib/telemetry.ts': `// Generated by Lovable
+fetch('https://api.lovable.dev/events', { method: 'POST' });
+navigator.sendBeacon('https://events.lovable.app', payload);
+const key = import.meta.env.VITE_LOVABLE_PROJECT_ID;
+`,
+  'src/lib/schema.ts': `import { x } from '../../integrations/supabase/types';
+export const Event = EventSchema.object({ name: Pattern.Text });
+`,
+  'package.json': `{
+  "name": "fixture",
+  "dependencies": {
+    "react": "^18.2.0",
+    "@gptengineer/core": "^1.0.0",
+    "lovable-core": "^0.3.0"
+  },
+  "devDependencies": {
+    "gpt-engineer": "^0.1.0"
+  }
+}
+`,
+  'docs/notes.json': `{ "mentions": ["lovable-core"] }
+`,
+  'lovable.config.ts': `export default { project: 'fixture' };
+`,
+  'node_modules/@lovable/ui/index.js': `export * from '@lovable/core';
+`,
+  'public/logo.png': 'lovable.generate(',
+  'src/clean.ts': `export const sum = (a: number, b: number) => a + b;
+`,
+};
+
+// Golden findings: file:line:column ruleId (imported names without a call are not API usages)
+const expectedFindings = [
+  'src/ai/assistant.ts:1:47 agent-package',
+  'src/ai/assistant.ts:2:19 get-ai-assistant',
+  'src/ai/assistant.ts:3:29 run-assistant',
+  'src/ai/assistant.ts:4:21 lovable-generate',
+  'src/ai/assistant.ts:5:1 lovable-api',
+  'src/main.tsx:1:34 lovable-tagger',
+  'src/main.tsx:2:21 supabase-integration-import',
+  'src/main.tsx:3:25 lovable-package',
+  'src/main.tsx:4:1 lovable-annotation',
+  'src/main.tsx:5:1 lovable-block-comment',
+  'src/main.tsx:6:12 lovable-websocket',
+  'src/main.tsx:7:1 lovable-service-worker',
+  'src/components/Card.tsx:2:29 data-lovable-attr',
+  'src/components/Card.tsx:2:8 data-lov-id',
+  'src/components/Card.tsx:3:11 lov-css-class',
+  'src/lib/telemetry.ts:1:1 generated-by-lovable',
+  'src/lib/telemetry.ts:2:1 lovable-telemetry-fetch',
+  'src/lib/telemetry.ts:3:11 lovable-beacon',
+  'src/lib/telemetry.ts:4:29 lovable-env-var',
+  'src/lib/schema.ts:1:14 supabase-integration-import',
+  'src/lib/schema.ts:2:22 event-schema',
+  'src/lib/schema.ts:2:49 pattern-usage',
+  'package.json:5:6 gptengineer-package',
+  'package.json:6:5 proprietary-dependency',
+  'package.json:9:5 proprietary-dependency',
+];
+
+const copies = [
+  { name: 'CLI (cli/src/rules.ts)', rules: cliRules },
+  { name: 'Backend (backend/src/services/sovereigntyRules.ts)', rules: backendRules },
+  { name: 'Edge functions (_shared/sovereignty-rules.ts)', rules: edgeRules },
+];
+
+const formatFinding = (f: { file: string; line: number; column: number; ruleId: string }) =>
+  `${f.file}:${f.line}:${f.column} ${f.ruleId}`;
+
+// Run tests
+export function runSovereigntyRuleConformanceTests(): { passed: number; failed: number; results: string[] } {
+  const results: string[] = [];
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: string) => {
+    if (ok) {
+      results.push(`✅ ${label}: PASSED`);
+      passed++;
+    } else {
+      results.push(`❌ ${label}: FAILED${detail ? ` (${detail})` : ''}`);
+      failed++;
+    }
+  };
+
+  const reference = registry.scanProject(fixtureCorpus);
+  const referenceFindings = reference.findings.map(formatFinding);
+
+  // Test 1: Golden findings on the fixture corpus
+  const missing = expectedFindings.filter(f => !referenceFindings.includes(f));
+  const unexpected = referenceFindings.filter(f => !expectedFindings.includes(f));
+  check(
+    'Registry findings match the golden corpus',
+    missing.length === 0 && unexpected.length === 0 && JSON.stringify(referenceFindings) === JSON.stringify(expectedFindings),
+    JSON.stringify({ missing, unexpected })
+  );
+
+  // Test 2: Every registry rule is exercised by the corpus
+  const untested = registry.SOVEREIGNTY_RULES
+    .map(rule => rule.id)
+    .filter(id => !reference.findings.some(f => f.ruleId === id));
+  check('Every rule has at least one fixture', untested.length === 0, untested.join(', '));
+
+  // Test 3: Proprietary files, ignored directories and binary files
+  check(
+    'Proprietary and skipped files',
+    JSON.stringify(reference.proprietaryFiles) === JSON.stringify(['lovable.config.ts']) &&
+      reference.totalFiles === 11 &&
+      reference.filesScanned === 8,
+    `proprietary=${reference.proprietaryFiles.join(',')} total=${reference.totalFiles} scanned=${reference.filesScanned}`
+  );
+
+  // Test 4: Shared score and grade
+  const expectedScore = registry.calculateScore(reference.summary, 1);
+  check(
+    'Score and grade',
+    JSON.stringify(reference.summary) === JSON.stringify({ critical: 7, major: 12, minor: 6 }) &&
+      expectedScore === 0 &&
+      reference.score === 0 &&
+      reference.grade === 'F' &&
+      registry.gradeForScore(96) === 'A+' &&
+      registry.calculateScore({ critical: 1, major: 1, minor: 1 }, 0) === 84,
+    `${JSON.stringify(reference.summary)} score=${reference.score} grade=${reference.grade}`
+  );
+
+  // Test 5: Generated copies are the same registry
+  for (const copy of copies) {
+    const result = copy.rules.scanProject(fixtureCorpus);
+    check(
+      `${copy.name} is in sync`,
+      copy.rules.RULES_VERSION === registry.RULES_VERSION &&
+        JSON.stringify(copy.rules.SOVEREIGNTY_RULES.map(r => r.id)) === JSON.stringify(registry.SOVEREIGNTY_RULES.map(r => r.id)) &&
+        JSON.stringify(result) === JSON.stringify(reference),
+      'run `npm run rules:sync`'
+    );
+  }
+
+  // Test 6: Web scanner reports the registry findings and score
+  const web = new LovablePatternScanner().scanProject(fixtureCorpus);
+  const webFindings = web.issues.map(i => formatFinding({ file: i.file, line: i.line, column: i.column, ruleId: i.pattern }));
+  check(
+    'Web scanner (LovablePatternScanner) conforms',
+    JSON.stringify(webFindings) === JSON.stringify(referenceFindings) &&
+      web.score === reference.score &&
+      web.grade === reference.grade &&
+      web.filesWithIssues === 6,
+    `score=${web.score} findings=${webFindings.length}`
+  );
+
+  // Test 7: Rule subsets (config "off" overrides) only drop the disabled rule
+  const disabled = registry.SOVEREIGNTY_RULES.filter(r => r.id !== 'pattern-usage');
+  const withoutPatternUsage = registry.scanContent(fixtureCorpus['src/lib/schema.ts'], 'src/lib/schema.ts', disabled);
+  check(
+    'Rule subsets',
+    withoutPatternUsage.length === 2 && withoutPatternUsage.every(f => f.ruleId !== 'pattern-usage')
+  );
+
+  // Test 8: Automatic fixes
+  const assistant = fixtureCorpus['src/ai/assistant.ts'];
+  const fixed = registry.applyFixes(assistant, registry.scanContent(assistant, 'src/ai/assistant.ts'));
+  check(
+    'Registry fixes',
+    fixed.split('\n')[0] === '// [REMOVED] Proprietary import' &&
+      fixed.includes('sovereignAI.createAssistant({') &&
+      fixed.includes('sovereignAI.run(assistant') &&
+      fixed.includes('sovereignAI.generateCompletion({') &&
+      fixed.includes('lovableApi.track'),
+    fixed
+  );
+
+  const card = fixtureCorpus['src/components/Card.tsx'];
+  const cleanedCard = registry.applyFixes(card, registry.scanContent(card, 'src/components/Card.tsx'));
+  check(
+    'Attribute fixes remove the whole attribute',
+    cleanedCard.split('\n')[1] === '  <div className="card">',
+    cleanedCard
+  );
+
+  // Test 9: Fixes are stale-safe (the matched text must still be there)
+  const stale = registry.applyFixes('const a = 1;', [{
+    ruleId: 'lovable-generate', name: 'lovable.generate()', severity: 'critical', category: 'api',
+    suggestion: '', fixable: true, line: 1, column: 1, matched: 'lovable.generate(',
+  }]);
+  check('Stale fixes are ignored', stale === 'const a = 1;');
+
+  // Log results
+  console.log('\n=== SOVEREIGNTY RULE CONFORMANCE TESTS ===');
+  results.forEach(r => console.log(r));
+  console.log(`\nTotal: ${passed} passed, ${failed} failed`);
+  console.log('===========================================\n');
+
+  return { passed, failed, results };
+}
+
+// Export test data for manual inspection
+export const testCases = {
+  fixtureCorpus,
+  expectedFindings,
+};
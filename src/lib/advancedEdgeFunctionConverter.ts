@@ -3,6 +3,8 @@
  * Converts Deno Edge Functions to Express.js with 100% logic preservation
  */
 
+import { RouteTypeCheck, typeCheckRoute } from './routeTypeChecker';
+
 export interface ParsedEdgeFunction {
   name: string;
   content: string;
@@ -17,6 +19,18 @@ export interface ParsedEdgeFunction {
   businessLogicBlocks: BusinessLogicBlock[];
   webhookDetected: boolean;
   webhookType?: 'stripe' | 'github' | 'twilio' | 'custom';
+  unsupportedApis: UnsupportedDenoApi[];
+}
+
+/**
+ * Deno API the converter leaves as is: the route cannot run on Node until it is rewritten
+ */
+export interface UnsupportedDenoApi {
+  api: string;
+  line: number;
+  code: string;
+  message: string;
+  suggestion: string;
 }
 
 export interface BusinessLogicBlock {
@@ -33,6 +47,11 @@ export interface ConversionResult {
   preservedLogicPercentage: number;
   manualTodosCount: number;
   webhookInfo?: WebhookInfo;
+  unsupportedApis: UnsupportedDenoApi[];
+  /** Compiler check of routeFile */
+  typeCheck: RouteTypeCheck;
+  /** Side-by-side replay of recorded exchanges: original function vs converted route */
+  harnessFile: string;
 }
 
 export interface WebhookInfo {
@@ -42,6 +61,79 @@ export interface WebhookInfo {
   reconfigurationGuide: string;
 }
 
+const DENO_API_RULES: Array<Omit<UnsupportedDenoApi, 'line' | 'code'> & { pattern: RegExp }> = [
+  {
+    api: 'Deno.serve',
+    pattern: /\bDeno\.serve\s*\(/,
+    message: 'Deno.serve() handler is not unwrapped (only std serve() is)',
+    suggestion: 'Move the handler body into the Express route',
+  },
+  {
+    api: 'EdgeRuntime.waitUntil',
+    pattern: /\bEdgeRuntime\.waitUntil\s*\(/,
+    message: 'Background task tied to the edge runtime lifecycle',
+    suggestion: 'Await the promise before responding or push it to a job queue',
+  },
+  {
+    api: 'Deno.openKv',
+    pattern: /\bDeno\.openKv\s*\(/,
+    message: 'Deno KV has no Node.js equivalent',
+    suggestion: 'Store the keys in PostgreSQL or Redis',
+  },
+  {
+    api: 'Deno.cron',
+    pattern: /\bDeno\.cron\s*\(/,
+    message: 'Deno.cron schedules are not registered on Node.js',
+    suggestion: 'Use node-cron or a system cron calling the route',
+  },
+  {
+    api: 'Deno file system',
+    pattern: /\bDeno\.(?:readTextFile|readFile|writeTextFile|writeFile|remove|mkdir|readDir|stat|open|makeTempDir)(?:Sync)?\s*\(/,
+    message: 'Deno file system API',
+    suggestion: 'Use node:fs/promises',
+  },
+  {
+    api: 'Deno runtime',
+    pattern: /\bDeno\.(?!env\.get\b|serve\b|openKv\b|cron\b|(?:readTextFile|readFile|writeTextFile|writeFile|remove|mkdir|readDir|stat|open|makeTempDir)(?:Sync)?\b)\w+/,
+    message: 'Deno namespace API without automatic conversion',
+    suggestion: 'Replace with the node:process / node:os equivalent',
+  },
+  {
+    api: 'deno.land/std',
+    pattern: /from\s*["']https:\/\/deno\.land\/std@[^/"']+\/(?!http\/server\.ts)[^"']+["']/,
+    message: 'Deno standard library import',
+    suggestion: 'Use the Node.js built-in module or an npm package',
+  },
+  {
+    api: 'deno.land/x',
+    pattern: /from\s*["']https:\/\/deno\.land\/x\/[^"']+["']/,
+    message: 'Deno third-party module import',
+    suggestion: 'Install the npm package providing the same API',
+  },
+  {
+    api: 'npm:/jsr: specifier',
+    pattern: /from\s*["'](?:npm|jsr):[^"']+["']/,
+    message: 'Deno package specifier',
+    suggestion: 'Add the package to package.json and import it by name',
+  },
+];
+
+/**
+ * Flag Deno APIs the conversion cannot translate, with their line
+ */
+export function detectUnsupportedDenoApis(content: string): UnsupportedDenoApi[] {
+  const found: UnsupportedDenoApi[] = [];
+  content.split('\n').forEach((line, index) => {
+    if (/^\s*(\/\/|\*)/.test(line)) return;
+    for (const { pattern, ...rule } of DENO_API_RULES) {
+      if (pattern.test(line)) {
+        found.push({ ...rule, line: index + 1, code: line.trim() });
+      }
+    }
+  });
+  return found;
+}
+
 /**
  * Parse Edge Function with deep analysis
  */
@@ -161,7 +253,8 @@ export function parseEdgeFunctionAdvanced(name: string, content: string): Parsed
     dependencies,
     businessLogicBlocks,
     webhookDetected,
-    webhookType
+    webhookType,
+    unsupportedApis: detectUnsupportedDenoApis(content)
   };
 }
 
@@ -208,9 +301,13 @@ export function convertDenoToNodeComplete(denoCode: string): string {
     }
   }
 
-  // 5. Convert Response objects to Express res
+  // 5. Remove corsHeaders references (Response init objects are then matched by status)
+  nodeCode = nodeCode.replace(/,\s*headers:\s*{\s*\.\.\.corsHeaders[^}]*}|\bheaders:\s*{\s*\.\.\.corsHeaders[^}]*}\s*,?/g, '');
+  nodeCode = nodeCode.replace(/,\s*headers:\s*corsHeaders\b|\bheaders:\s*corsHeaders\b\s*,?/g, '');
+
+  // 6. Convert Response objects to Express res
   nodeCode = nodeCode.replace(
-    /return new Response\(\s*null\s*,\s*{\s*headers:\s*corsHeaders\s*}\s*\)/g,
+    /return new Response\(\s*null\s*,\s*{\s*(?:headers:\s*corsHeaders\s*)?}\s*\)/g,
     'return res.status(204).end()'
   );
   nodeCode = nodeCode.replace(
@@ -230,15 +327,11 @@ export function convertDenoToNodeComplete(denoCode: string): string {
     'res.status($2).send($1)'
   );
 
-  // 6. Convert req.json() to req.body
+  // 7. Convert req.json() to req.body
   nodeCode = nodeCode.replace(/await\s+req\.json\(\)/g, 'req.body');
   
-  // 7. Convert req.headers.get to req.headers
-  nodeCode = nodeCode.replace(/req\.headers\.get\(['"]([^'"]+)['"]\)/g, "req.headers['$1']");
-
-  // 8. Remove corsHeaders references
-  nodeCode = nodeCode.replace(/,?\s*headers:\s*{\s*\.\.\.corsHeaders[^}]*}/g, '');
-  nodeCode = nodeCode.replace(/,?\s*headers:\s*corsHeaders/g, '');
+  // 8. Convert req.headers.get to req.headers (Node lower-cases header names)
+  nodeCode = nodeCode.replace(/req\.headers\.get\(['"]([^'"]+)['"]\)/g, (_, name: string) => `req.headers['${name.toLowerCase()}']`);
 
   // 9. Clean up CORS preflight check
   nodeCode = nodeCode.replace(
@@ -359,6 +452,10 @@ const resend = new Resend(process.env.RESEND_API_KEY);
     preservedLogicPercentage = Math.max(50, preservedLogicPercentage - manualTodosCount * 5);
   }
 
+  // Migrated logic that authenticates or builds its own client keeps its declarations
+  const ownsAuth = declaresVariable(businessLogic, 'authHeader') || declaresVariable(businessLogic, 'user');
+  const ownsClient = declaresVariable(businessLogic, 'supabase');
+
   // Generate route handlers
   let handlers = '';
   
@@ -370,13 +467,13 @@ ${routeName}Router.${methodLower}('/', async (req: Request, res: Response) => {
   try {
 `;
 
-    if (func.hasAuth) {
+    if (func.hasAuth && !ownsAuth) {
       handlers += `    const authHeader = req.headers.authorization;
     if (!authHeader?.startsWith('Bearer ')) {
       return res.status(401).json({ error: 'Authorization required' });
     }
 `;
-      if (func.usesSupabase) {
+      if (func.usesSupabase && !ownsClient) {
         handlers += `
     const supabase = getSupabaseClient(authHeader);
     const { data: { user }, error: userError } = await supabase.auth.getUser();
@@ -385,7 +482,7 @@ ${routeName}Router.${methodLower}('/', async (req: Request, res: Response) => {
     }
 `;
       }
-    } else if (func.usesSupabase) {
+    } else if (func.usesSupabase && !ownsClient) {
       handlers += `    const supabase = getSupabaseClient();
 `;
     }
@@ -432,8 +529,18 @@ ${businessLogic}
 
   const routeFile = imports + inits + handlers;
 
+  // Compile the route: regex rewrites that left Deno or Fetch API code behind fail here
+  const typeCheck = typeCheckRoute(routeFile, `${routeName}.ts`);
+  const errorLines = new Set(typeCheck.errors.map(error => error.line)).size;
+  const unsupportedApis = func.unsupportedApis ?? detectUnsupportedDenoApis(func.content);
+  manualTodosCount += errorLines + unsupportedApis.length;
+  if (errorLines + unsupportedApis.length > 0) {
+    preservedLogicPercentage = Math.max(0, preservedLogicPercentage - (errorLines + unsupportedApis.length) * 5);
+  }
+
   // Generate test file
   const testFile = generateTestFile(func, routeName);
+  const harnessFile = generateReplayHarness(func, routeName);
 
   // Generate webhook info if applicable
   let webhookInfo: WebhookInfo | undefined;
@@ -447,10 +554,17 @@ ${businessLogic}
     dependencies: func.dependencies,
     preservedLogicPercentage,
     manualTodosCount,
-    webhookInfo
+    webhookInfo,
+    unsupportedApis,
+    typeCheck,
+    harnessFile
   };
 }
 
+function declaresVariable(code: string, name: string): boolean {
+  return new RegExp(`\\b(?:const|let|var)\\s+(?:${name}\\b|\\{[^=]*\\b${name}\\b[^=]*\\}\\s*=)`).test(code);
+}
+
 /**
  * Generate test file for converted route
  */
@@ -490,6 +604,131 @@ describe('${func.name} route', () => {
 `;
 }
 
+/**
+ * Generate side-by-side replay harness for converted route
+ */
+function generateReplayHarness(func: ParsedEdgeFunction, routeName: string): string {
+  return `/**
+ * Replay harness: ${func.name}
+ * Rejoue les échanges enregistrés contre l'edge function d'origine et contre
+ * la route Express convertie, puis compare statut et corps JSON.
+ *
+ * Enregistrements (recordings/${func.name}.json) :
+ *   [{ "name": "...", "request": { "method": "POST", "path": "", "headers": {}, "body": {} },
+ *      "response": { "status": 200, "body": {} }, "ignore": ["data.created_at"] }]
+ *
+ * Usage:
+ *   ORIGINAL_URL=https://<ref>.supabase.co/functions/v1/${func.name} \\
+ *   CONVERTED_URL=http://localhost:3000/api/${func.name} \\
+ *   npx tsx ${routeName}.replay.ts [recordings/${func.name}.json]
+ *
+ * Sans ORIGINAL_URL (fonction déjà arrêtée), la réponse enregistrée sert de référence.
+ */
+
+import { readFileSync } from 'fs';
+
+interface RecordedExchange {
+  name?: string;
+  request: { method: string; path?: string; headers?: Record<string, string>; body?: unknown };
+  response?: { status: number; body?: unknown };
+  /** Chemins JSON dont la valeur change à chaque appel (ids, dates) */
+  ignore?: string[];
+}
+
+interface Reply {
+  status: number;
+  body?: unknown;
+}
+
+const ORIGINAL_URL = process.env.ORIGINAL_URL;
+const CONVERTED_URL = process.env.CONVERTED_URL || 'http://localhost:3000/api/${func.name}';
+const RECORDINGS = process.argv[2] || 'recordings/${func.name}.json';
+// Remplace l'en-tête enregistré : les jetons capturés expirent
+const AUTHORIZATION = process.env.REPLAY_AUTHORIZATION;
+
+async function send(baseUrl: string, exchange: RecordedExchange): Promise<Reply> {
+  const { method, path = '', headers = {}, body } = exchange.request;
+  const hasBody = body !== undefined && method !== 'GET' && method !== 'HEAD';
+  const response = await fetch(baseUrl.replace(/\\/$/, '') + path, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+      ...(AUTHORIZATION ? { Authorization: AUTHORIZATION } : {}),
+    },
+    body: hasBody ? (typeof body === 'string' ? body : JSON.stringify(body)) : undefined,
+  });
+
+  const text = await response.text();
+  try {
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  } catch {
+    return { status: response.status, body: text };
+  }
+}
+
+function compare(expected: unknown, actual: unknown, ignore: string[], path = ''): string[] {
+  if (ignore.includes(path)) return [];
+  const at = path || '(body)';
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    if (expected.length !== actual.length) {
+      return [\`\${at}: \${expected.length} éléments attendus, \${actual.length} reçus\`];
+    }
+    return expected.flatMap((item, index) => compare(item, actual[index], ignore, path ? \`\${path}.\${index}\` : String(index)));
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+  if (isObject(expected) && isObject(actual)) {
+    const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+    return keys.flatMap(key => compare(expected[key], actual[key], ignore, path ? \`\${path}.\${key}\` : key));
+  }
+
+  return JSON.stringify(expected) === JSON.stringify(actual)
+    ? []
+    : [\`\${at}: \${JSON.stringify(expected)} ≠ \${JSON.stringify(actual)}\`];
+}
+
+async function main() {
+  const exchanges: RecordedExchange[] = JSON.parse(readFileSync(RECORDINGS, 'utf-8'));
+  let failures = 0;
+
+  for (const [index, exchange] of exchanges.entries()) {
+    const label = exchange.name || \`#\${index + 1} \${exchange.request.method} \${exchange.request.path || '/'}\`;
+    const reference = ORIGINAL_URL ? await send(ORIGINAL_URL, exchange) : exchange.response;
+    if (!reference) {
+      console.log(\`⚠️  \${label}: ni réponse enregistrée ni ORIGINAL_URL\`);
+      failures++;
+      continue;
+    }
+
+    const converted = await send(CONVERTED_URL, exchange);
+    const differences = [
+      ...(reference.status !== converted.status ? [\`status: \${reference.status} ≠ \${converted.status}\`] : []),
+      ...(reference.body !== undefined ? compare(reference.body, converted.body, exchange.ignore || []) : []),
+    ];
+
+    if (differences.length === 0) {
+      console.log(\`✅ \${label}\`);
+    } else {
+      failures++;
+      console.log(\`❌ \${label}\`);
+      differences.forEach(difference => console.log(\`   \${difference}\`));
+    }
+  }
+
+  console.log(\`\\n\${exchanges.length - failures}/\${exchanges.length} échanges identiques (référence : \${ORIGINAL_URL || 'enregistrements'})\`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
+`;
+}
+
 /**
  * Generate webhook reconfiguration info
  */
@@ -0,0 +1,353 @@
+/**
+ * AI CLEANER
+ * ==========
+ * Nettoyage assisté par IA, 100% hors ligne via UnifiedLLM
+ *
+ * Passe après le nettoyage déterministe : seules les portions de fichier où
+ * le scanner trouve encore des patterns propriétaires sont envoyées au LLM
+ * local, par morceaux d'instructions de premier niveau. Une réécriture qui ne
+ * s'analyse plus, perd des exports ou n'améliore rien est rejetée et la
+ * version déterministe est conservée.
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+import type { File, Statement } from '@babel/types';
+import { parseSource } from './astRefactor';
+import type { LovablePatternScanner, ScanIssue } from './lovablePatternScanner';
+import { UnifiedLLM, type SovereignAIProvider } from './unifiedLLM';
+
+// ============= TYPES =============
+
+export interface AICleaningOptions {
+  /** Instance prête (ex: provider mock) ; sinon créée depuis provider/baseUrl/model */
+  llm?: UnifiedLLM;
+  provider?: SovereignAIProvider;
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  /** Taille max d'un morceau envoyé au modèle, en caractères */
+  maxChunkChars?: number;
+  temperature?: number;
+}
+
+export interface SourceChunk {
+  start: number;
+  end: number;
+  /** Lignes 1-based, incluses */
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export interface AIChunkResult {
+  file: string;
+  startLine: number;
+  endLine: number;
+  outcome: 'accepted' | 'rejected' | 'error';
+  reason?: string;
+  issuesBefore: number;
+  issuesAfter: number;
+}
+
+export interface AICleaningReport {
+  provider: SovereignAIProvider;
+  model: string;
+  available: boolean;
+  /** Fichiers de code où des patterns subsistaient après les règles */
+  candidateFiles: number;
+  filesSent: number;
+  filesRewritten: number;
+  chunks: AIChunkResult[];
+  tokensUsed: number;
+  durationMs: number;
+}
+
+export type AICleaningProgress = (file: string, index: number, total: number) => void;
+
+// ============= CONSTANTS =============
+
+const DEFAULT_MAX_CHUNK_CHARS = 6000;
+
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+const SYSTEM_PROMPT = `Tu es un expert en migration de code. Réécris le fragment de code fourni pour supprimer les dépendances propriétaires signalées (Lovable, Bolt, v0, GPT Engineer, services cloud fermés) au profit d'alternatives open source auto-hébergées.
+
+Règles:
+- Ne modifie que ce qui est nécessaire pour les patterns signalés
+- Conserve la logique, les noms et tous les exports du fragment
+- Le fragment doit rester du TypeScript/JavaScript valide à lui seul
+- Utilise des variables d'environnement pour les URLs des services auto-hébergés
+- Retourne UNIQUEMENT le code réécrit, dans un seul bloc, sans explication`;
+
+// ============= CHUNKING =============
+
+const lineAt = (code: string, offset: number) => code.slice(0, offset).split('\n').length;
+
+/**
+ * Découpe un fichier en morceaux d'instructions de premier niveau complètes
+ * (chacun s'analyse seul). Une instruction plus grande que `maxChars` forme
+ * son propre morceau. null si le fichier ne s'analyse pas
+ */
+export function splitIntoChunks(code: string, filename: string, maxChars = DEFAULT_MAX_CHUNK_CHARS): SourceChunk[] | null {
+  const parsed = parseSource(code, filename);
+  if ('error' in parsed) return null;
+
+  const boundaries: number[] = [];
+  let chunkStart = 0;
+  let lastEnd = 0;
+
+  for (const statement of parsed.ast.program.body) {
+    const end = statement.end ?? lastEnd;
+    if (end - chunkStart > maxChars && lastEnd > chunkStart) {
+      boundaries.push(lastEnd);
+      chunkStart = lastEnd;
+    }
+    lastEnd = end;
+  }
+  boundaries.push(code.length);
+
+  let start = 0;
+  return boundaries
+    .filter(end => end > 0)
+    .map(end => {
+      const text = code.slice(start, end);
+      const chunk = {
+        start,
+        end,
+        startLine: lineAt(code, start + (text.match(/^\s*/)?.[0].length ?? 0)),
+        endLine: lineAt(code, end),
+        text,
+      };
+      start = end;
+      return chunk;
+    });
+}
+
+// ============= VALIDATION =============
+
+function exportedNames(ast: File): Set<string> {
+  const names = new Set<string>();
+  const addDeclaration = (declaration: Statement | null | undefined) => {
+    if (!declaration) return;
+    if (declaration.type === 'VariableDeclaration') {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type === 'Identifier') names.add(declarator.id.name);
+      }
+    } else if ('id' in declaration && declaration.id && declaration.id.type === 'Identifier') {
+      names.add(declaration.id.name);
+    }
+  };
+
+  for (const statement of ast.program.body) {
+    if (statement.type === 'ExportDefaultDeclaration') {
+      names.add('default');
+    } else if (statement.type === 'ExportNamedDeclaration') {
+      addDeclaration(statement.declaration);
+      for (const specifier of statement.specifiers) {
+        const exported = specifier.exported;
+        names.add(exported.type === 'Identifier' ? exported.name : exported.value);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Motif de rejet d'une réécriture, null si elle est acceptable :
+ * elle doit s'analyser et garder les exports de l'original
+ */
+export function validateRewrite(original: string, rewritten: string, filename: string): string | null {
+  if (!rewritten.trim()) {
+    return 'réponse vide';
+  }
+
+  const after = parseSource(rewritten, filename);
+  if ('error' in after) {
+    return `ne s'analyse plus: ${after.error}`;
+  }
+
+  const before = parseSource(original, filename);
+  if ('error' in before) {
+    return null;
+  }
+
+  const kept = exportedNames(after.ast);
+  const lost = [...exportedNames(before.ast)].filter(name => !kept.has(name));
+  return lost.length > 0 ? `exports perdus: ${lost.join(', ')}` : null;
+}
+
+/**
+ * Code de la réponse du modèle (premier bloc ``` s'il y en a un)
+ */
+export function extractCode(content: string): string {
+  const fenced = content.match(/```(?:tsx?|jsx?|javascript|typescript)?[^\n]*\n([\s\S]*?)```/);
+  return (fenced ? fenced[1] : content).trim();
+}
+
+// ============= AI CLEANER =============
+
+export class AICleaner {
+  private llm: UnifiedLLM;
+  private scanner: LovablePatternScanner;
+  private options: AICleaningOptions;
+
+  constructor(scanner: LovablePatternScanner, options: AICleaningOptions = {}) {
+    this.scanner = scanner;
+    this.options = options;
+    this.llm = options.llm ?? new UnifiedLLM({
+      provider: options.provider ?? 'ollama',
+      baseUrl: options.baseUrl,
+      model: options.model,
+      apiKey: options.apiKey,
+    });
+  }
+
+  /**
+   * Réécrit en place les fichiers de code où des patterns subsistent.
+   * Les morceaux rejetés (ou en erreur) gardent le contenu déterministe
+   */
+  async cleanFiles(files: Map<string, string>, onProgress?: AICleaningProgress): Promise<AICleaningReport> {
+    const startTime = Date.now();
+    const config = this.llm.getConfig();
+    const report: AICleaningReport = {
+      provider: config.provider,
+      model: config.model,
+      available: false,
+      candidateFiles: 0,
+      filesSent: 0,
+      filesRewritten: 0,
+      chunks: [],
+      tokensUsed: 0,
+      durationMs: 0,
+    };
+
+    const candidates = [...files]
+      .filter(([path]) => CODE_EXTENSIONS.some(ext => path.endsWith(ext)))
+      .map(([path, content]) => ({ path, content, issues: this.scanner.scanFile(path, content) }))
+      .filter(candidate => candidate.issues.length > 0);
+    report.candidateFiles = candidates.length;
+
+    if (candidates.length === 0 || config.provider === 'none') {
+      report.durationMs = Date.now() - startTime;
+      return report;
+    }
+
+    report.available = await this.llm.isAvailable();
+    if (!report.available) {
+      report.durationMs = Date.now() - startTime;
+      return report;
+    }
+
+    for (const [index, { path, content, issues }] of candidates.entries()) {
+      onProgress?.(path, index, candidates.length);
+      report.filesSent++;
+
+      const rewritten = await this.cleanFile(path, content, issues, report);
+      if (rewritten !== content) {
+        files.set(path, rewritten);
+        report.filesRewritten++;
+      }
+    }
+
+    report.durationMs = Date.now() - startTime;
+    return report;
+  }
+
+  private async cleanFile(
+    path: string,
+    content: string,
+    issues: ScanIssue[],
+    report: AICleaningReport
+  ): Promise<string> {
+    const chunks = splitIntoChunks(content, path, this.options.maxChunkChars);
+    if (!chunks) return content;
+
+    const fileResults: AIChunkResult[] = [];
+    const parts: string[] = [];
+
+    for (const chunk of chunks) {
+      const chunkIssues = issues.filter(issue => issue.line >= chunk.startLine && issue.line <= chunk.endLine);
+      if (chunkIssues.length === 0) {
+        parts.push(chunk.text);
+        continue;
+      }
+
+      const result: AIChunkResult = {
+        file: path,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        outcome: 'rejected',
+        issuesBefore: chunkIssues.length,
+        issuesAfter: chunkIssues.length,
+      };
+      fileResults.push(result);
+      parts.push(await this.rewriteChunk(path, chunk, chunkIssues, result, report));
+    }
+
+    report.chunks.push(...fileResults);
+    const rewritten = parts.join('');
+
+    // Garde-fou : les morceaux valides seuls peuvent entrer en conflit (redéclarations)
+    if (rewritten !== content && 'error' in parseSource(rewritten, path)) {
+      for (const result of fileResults) {
+        if (result.outcome === 'accepted') {
+          result.outcome = 'rejected';
+          result.reason = 'le fichier réassemblé ne s\'analyse plus';
+          result.issuesAfter = result.issuesBefore;
+        }
+      }
+      return content;
+    }
+
+    return rewritten;
+  }
+
+  private async rewriteChunk(
+    path: string,
+    chunk: SourceChunk,
+    issues: ScanIssue[],
+    result: AIChunkResult,
+    report: AICleaningReport
+  ): Promise<string> {
+    const findings = issues
+      .map(issue => `- ligne ${issue.line - chunk.startLine + 1}: ${issue.pattern} (${issue.matchedText}) → ${issue.suggestion}`)
+      .join('\n');
+    const prompt = `Fichier: ${path} (lignes ${chunk.startLine}-${chunk.endLine})\n\nPatterns à supprimer:\n${findings}\n\n\`\`\`tsx\n${chunk.text.trim()}\n\`\`\``;
+
+    let code: string;
+    try {
+      const response = await this.llm.complete(prompt, SYSTEM_PROMPT, {
+        temperature: this.options.temperature ?? 0.1,
+        maxTokens: Math.max(1024, Math.ceil(chunk.text.length / 2)),
+      });
+      report.tokensUsed += response.usage.totalTokens;
+      code = extractCode(response.content);
+    } catch (error) {
+      result.outcome = 'error';
+      result.reason = error instanceof Error ? error.message : String(error);
+      return chunk.text;
+    }
+
+    // Sauts de ligne autour du morceau conservés tels quels
+    const leading = chunk.text.match(/^\s*/)?.[0] ?? '';
+    const trailing = chunk.text.match(/\s*$/)?.[0] ?? '';
+    const candidate = leading + code + trailing;
+
+    const rejection = validateRewrite(chunk.text, candidate, path);
+    if (rejection) {
+      result.reason = rejection;
+      return chunk.text;
+    }
+
+    result.issuesAfter = this.scanner.scanFile(path, candidate).length;
+    if (result.issuesAfter >= result.issuesBefore) {
+      result.reason = 'aucun pattern supprimé';
+      result.issuesAfter = result.issuesBefore;
+      return chunk.text;
+    }
+
+    result.outcome = 'accepted';
+    return candidate;
+  }
+}
@@ -3,24 +3,53 @@
  * ====================
  * Lit un fichier TS/JS, repère les patterns Lovable,
  * et réécrit automatiquement le code.
- * 
- * Utilise: Babel, ts-morph, recast
+ *
+ * Utilise: @babel/parser (TS, TSX, JS, JSX)
+ * Chaque pattern cible un type de nœud de l'arbre syntaxique : une chaîne ou un
+ * commentaire qui mentionne simplement un pattern n'est jamais modifié.
+ * Les modifications sont appliquées par position dans le texte source (la mise
+ * en forme est conservée) et celles qui rendraient le fichier non analysable
+ * sont refusées.
  */
 
-// Note: Ces imports fonctionneront dans un environnement Node.js avec les packages installés
-// Pour le frontend, on utilise une version simplifiée basée sur regex
+import { parse, type ParserPlugin } from '@babel/parser';
+import type { File, Node } from '@babel/types';
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * Nœud sur lequel `find` est évalué (le texte complet du nœud est remplacé) :
+ * - import:        déclaration `import`/`export ... from`, multi-lignes comprises
+ * - callee:        expression appelée (`getAIAssistant`, `lovable.generate`)
+ * - call:          appel ou `new` complet, arguments compris
+ * - member:        accès de propriété non calculé (`Pattern.Template`)
+ * - identifier:    identifiant (`VITE_LOVABLE_PROJECT_ID`)
+ * - jsx-attribute: attribut JSX (`data-lov-id="..."`)
+ * - class-name:    contenu des chaînes d'un attribut `className`/`class`
+ * - comment:       commentaire `//` ou bloc
+ */
+export type RefactorTarget =
+  | 'import'
+  | 'callee'
+  | 'call'
+  | 'member'
+  | 'identifier'
+  | 'jsx-attribute'
+  | 'class-name'
+  | 'comment';
+
 export interface RefactorPattern {
   name: string;
   description: string;
+  target: RefactorTarget;
   find: RegExp | string;
   replace: string | ((match: string, ...args: string[]) => string);
   severity: 'critical' | 'major' | 'minor';
   category: 'import' | 'api' | 'pattern' | 'attribute' | 'comment';
+  /** Import ajouté au fichier lorsque le pattern a été appliqué */
+  addImport?: { name: string; from: string };
 }
 
 export interface RefactorResult {
@@ -28,6 +57,10 @@ export interface RefactorResult {
   refactoredCode: string;
   changes: RefactorChange[];
   hasChanges: boolean;
+  /** Modifications refusées car le résultat n'était plus analysable */
+  rejectedChanges: RefactorChange[];
+  /** Erreurs d'analyse du fichier source (le fichier est alors laissé intact) */
+  parseErrors: string[];
   stats: {
     totalPatterns: number;
     appliedPatterns: number;
@@ -49,6 +82,16 @@ export interface RefactorChange {
 // PATTERNS À REMPLACER
 // ═══════════════════════════════════════════════════════════════
 
+const createPatternReplacement = (name: string, replacement: string): RefactorPattern => ({
+  name: `Pattern.${name}`,
+  description: `Pattern.${name} → ${replacement}`,
+  target: 'member',
+  find: new RegExp(`^Pattern\\.${name}$`),
+  replace: replacement,
+  severity: 'major',
+  category: 'pattern',
+});
+
 export const REFACTOR_PATTERNS: RefactorPattern[] = [
   // ─────────────────────────────────────────────────────────────
   // IMPORTS - Critical
@@ -56,8 +99,9 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'lovable-import',
     description: 'Import @lovable/*',
-    find: /^import\s+(\{[^}]+\}|\*\s+as\s+\w+|\w+)\s+from\s+['"]@lovable\/([^'"]+)['"];?$/gm,
-    replace: (match, imports, pkg) => {
+    target: 'import',
+    find: /^import\s+([\s\S]+?)\s+from\s+(['"])@lovable\/([^'"]+)\2(;?)$/,
+    replace: (match, imports, quote, pkg, semicolon) => {
       const mapping: Record<string, string> = {
         'core': '@/lib/sovereignCore',
         'ai': '@/lib/sovereignAIAdapter',
@@ -65,8 +109,10 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
         'utils': '@/lib/utils',
         'tagger': '', // Remove entirely
       };
-      const newPkg = mapping[pkg] || `@/lib/${pkg}`;
-      return newPkg ? `import ${imports} from '${newPkg}';` : `// [REMOVED] @lovable/${pkg}`;
+      const newPkg = pkg in mapping ? mapping[pkg] : `@/lib/${pkg}`;
+      return newPkg
+        ? `import ${imports} from ${quote}${newPkg}${quote}${semicolon}`
+        : `// [REMOVED] @lovable/${pkg}`;
     },
     severity: 'critical',
     category: 'import',
@@ -74,7 +120,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'agent-import',
     description: 'Import @agent/*',
-    find: /^import\s+(\{[^}]+\}|\*\s+as\s+\w+|\w+)\s+from\s+['"]@agent\/([^'"]+)['"];?$/gm,
+    target: 'import',
+    find: /^import\s+(?:[\s\S]+?\s+from\s+)?['"]@agent\/[^'"]+['"];?$/,
     replace: '// [REMOVED] Agent import - implement locally',
     severity: 'critical',
     category: 'import',
@@ -82,7 +129,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'lovable-tagger-import',
     description: 'Import lovable-tagger',
-    find: /^import\s+.*from\s+['"]lovable-tagger['"];?$/gm,
+    target: 'import',
+    find: /^import\s+(?:[\s\S]+?\s+from\s+)?['"]lovable-tagger['"];?$/,
     replace: '// [REMOVED] lovable-tagger',
     severity: 'critical',
     category: 'import',
@@ -90,7 +138,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'gptengineer-import',
     description: 'Import @gptengineer/*',
-    find: /^import\s+.*from\s+['"]@gptengineer\/[^'"]+['"];?$/gm,
+    target: 'import',
+    find: /^import\s+(?:[\s\S]+?\s+from\s+)?['"]@gptengineer\/[^'"]+['"];?$/,
     replace: '// [REMOVED] GPT Engineer import',
     severity: 'critical',
     category: 'import',
@@ -98,16 +147,18 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'supabase-auto-import',
     description: 'Import @/integrations/supabase auto-generated',
-    find: /from\s+['"]@\/integrations\/supabase\/client['"]/g,
-    replace: "from '@/lib/supabase'",
+    target: 'import',
+    find: /(\bfrom\s+)(['"])@\/integrations\/supabase\/client\2/,
+    replace: (match, from, quote) => `${from}${quote}@/lib/supabase${quote}`,
     severity: 'major',
     category: 'import',
   },
   {
     name: 'supabase-types-import',
     description: 'Import @/integrations/supabase/types',
-    find: /from\s+['"]@\/integrations\/supabase\/types['"]/g,
-    replace: "from '@/types/database'",
+    target: 'import',
+    find: /(\bfrom\s+)(['"])@\/integrations\/supabase\/types\2/,
+    replace: (match, from, quote) => `${from}${quote}@/types/database${quote}`,
     severity: 'major',
     category: 'import',
   },
@@ -118,39 +169,44 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'getAIAssistant',
     description: 'getAIAssistant() → sovereignAIAdapter.createAssistant()',
-    find: /getAIAssistant\s*\(/g,
-    replace: 'sovereignAIAdapter.createAssistant(',
+    target: 'callee',
+    find: /^getAIAssistant$/,
+    replace: 'sovereignAIAdapter.createAssistant',
     severity: 'critical',
     category: 'api',
   },
   {
     name: 'runAssistant',
     description: 'runAssistant() → sovereignAIAdapter.run()',
-    find: /runAssistant\s*\(/g,
-    replace: 'sovereignAIAdapter.run(',
+    target: 'callee',
+    find: /^runAssistant$/,
+    replace: 'sovereignAIAdapter.run',
     severity: 'critical',
     category: 'api',
   },
   {
     name: 'lovable-generate',
     description: 'lovable.generate() → sovereignAIAdapter.generateCompletion()',
-    find: /lovable\.generate\s*\(/g,
-    replace: 'sovereignAIAdapter.generateCompletion(',
+    target: 'callee',
+    find: /^lovable\.generate$/,
+    replace: 'sovereignAIAdapter.generateCompletion',
     severity: 'critical',
     category: 'api',
   },
   {
     name: 'lovableApi',
     description: 'lovableApi.* → api.*',
-    find: /lovableApi\./g,
-    replace: 'api.',
+    target: 'member',
+    find: /^lovableApi\.([\w$]+)$/,
+    replace: 'api.$1',
     severity: 'critical',
     category: 'api',
   },
   {
     name: 'lovable-websocket',
     description: 'WebSocket Lovable → standard WebSocket',
-    find: /new\s+WebSocket\s*\(\s*['"][^'"]*lovable[^'"]*['"]\s*\)/gi,
+    target: 'call',
+    find: /^new\s+WebSocket\s*\(\s*(['"`])[^'"`]*lovable[^'"`]*\1\s*\)$/i,
     replace: "new WebSocket('ws://localhost:8080')",
     severity: 'critical',
     category: 'api',
@@ -159,69 +215,21 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   // ─────────────────────────────────────────────────────────────
   // PATTERNS - Major
   // ─────────────────────────────────────────────────────────────
-  {
-    name: 'Pattern.Template',
-    description: 'Pattern.Template → createTemplateEngine()',
-    find: /Pattern\.Template/g,
-    replace: 'createTemplateEngine()',
-    severity: 'major',
-    category: 'pattern',
-  },
-  {
-    name: 'Pattern.State',
-    description: 'Pattern.State → createStateManager()',
-    find: /Pattern\.State/g,
-    replace: 'createStateManager()',
-    severity: 'major',
-    category: 'pattern',
-  },
-  {
-    name: 'Pattern.Router',
-    description: 'Pattern.Router → createRouter()',
-    find: /Pattern\.Router/g,
-    replace: 'createRouter()',
-    severity: 'major',
-    category: 'pattern',
-  },
-  {
-    name: 'Pattern.Form',
-    description: 'Pattern.Form → createFormHandler()',
-    find: /Pattern\.Form/g,
-    replace: 'createFormHandler()',
-    severity: 'major',
-    category: 'pattern',
-  },
-  {
-    name: 'Pattern.Modal',
-    description: 'Pattern.Modal → createModalManager()',
-    find: /Pattern\.Modal/g,
-    replace: 'createModalManager()',
-    severity: 'major',
-    category: 'pattern',
-  },
-  {
-    name: 'Pattern.Toast',
-    description: 'Pattern.Toast → toast',
-    find: /Pattern\.Toast/g,
-    replace: 'toast',
-    severity: 'major',
-    category: 'pattern',
-  },
+  createPatternReplacement('Template', 'createTemplateEngine()'),
+  createPatternReplacement('State', 'createStateManager()'),
+  createPatternReplacement('Router', 'createRouter()'),
+  createPatternReplacement('Form', 'createFormHandler()'),
+  createPatternReplacement('Modal', 'createModalManager()'),
+  createPatternReplacement('Toast', 'toast'),
   {
     name: 'EventSchema',
-    description: 'EventSchema.* → z.*',
-    find: /EventSchema\./g,
-    replace: 'z.',
+    description: 'EventSchema.* → z.* (adds the zod import)',
+    target: 'member',
+    find: /^EventSchema\.([\w$]+)$/,
+    replace: 'z.$1',
     severity: 'major',
     category: 'pattern',
-  },
-  {
-    name: 'EventSchema-import',
-    description: 'Add zod import if EventSchema was used',
-    find: /^(import\s+.*from\s+['"]zod['"];?)$/m,
-    replace: "import { z } from 'zod';",
-    severity: 'major',
-    category: 'import',
+    addImport: { name: 'z', from: 'zod' },
   },
 
   // ─────────────────────────────────────────────────────────────
@@ -230,7 +238,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'fetch-lovable-api',
     description: 'Remove fetch to lovable.dev',
-    find: /fetch\s*\(\s*['"][^'"]*lovable\.dev[^'"]*['"]\s*(?:,\s*\{[^}]*\})?\s*\)/g,
+    target: 'call',
+    find: /^fetch\s*\(\s*(['"`])[^'"`]*lovable\.dev[^'"`]*\1\s*(?:,\s*\{[\s\S]*\}\s*)?\)$/,
     replace: '/* [REMOVED] Lovable telemetry */',
     severity: 'major',
     category: 'api',
@@ -238,7 +247,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'sendBeacon-lovable',
     description: 'Remove sendBeacon to lovable',
-    find: /navigator\.sendBeacon\s*\(\s*['"][^'"]*lovable[^'"]*['"]\s*(?:,\s*[^)]+)?\s*\)/gi,
+    target: 'call',
+    find: /^navigator\.sendBeacon\s*\(\s*(['"`])[^'"`]*lovable[^'"`]*\1(?:\s*,[\s\S]*)?\)$/i,
     replace: '/* [REMOVED] Lovable beacon */',
     severity: 'major',
     category: 'api',
@@ -246,7 +256,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'lovable-env-vars',
     description: 'VITE_LOVABLE_* → VITE_APP_*',
-    find: /VITE_LOVABLE_([A-Z_]+)/g,
+    target: 'identifier',
+    find: /^VITE_LOVABLE_([A-Z_]+)$/,
     replace: (match, varName) => `VITE_APP_${varName}`,
     severity: 'major',
     category: 'api',
@@ -258,7 +269,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'data-lov-id',
     description: 'Remove data-lov-id attributes',
-    find: /\s+data-lov-id="[^"]*"/g,
+    target: 'jsx-attribute',
+    find: /^data-lov-id(?:=[\s\S]*)?$/,
     replace: '',
     severity: 'minor',
     category: 'attribute',
@@ -266,7 +278,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'data-lovable',
     description: 'Remove data-lovable-* attributes',
-    find: /\s+data-lovable-[a-z-]+="[^"]*"/g,
+    target: 'jsx-attribute',
+    find: /^data-lovable-[a-z-]+(?:=[\s\S]*)?$/,
     replace: '',
     severity: 'minor',
     category: 'attribute',
@@ -274,7 +287,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'lov-css-class',
     description: 'Remove lov-* CSS classes',
-    find: /\blov-[a-z0-9-]+/g,
+    target: 'class-name',
+    find: /(?:^|\s+)lov-[a-z0-9-]+(?=\s|$)/g,
     replace: '',
     severity: 'minor',
     category: 'attribute',
@@ -286,7 +300,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'lovable-annotation',
     description: 'Remove @lovable- annotations',
-    find: /\/\/\s*@lovable-[a-z-]+[^\n]*/g,
+    target: 'comment',
+    find: /^\/\/\s*@lovable-[a-z-]+[\s\S]*$/,
     replace: '',
     severity: 'minor',
     category: 'comment',
@@ -294,7 +309,8 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'lovable-block-comment',
     description: 'Remove lovable: block comments',
-    find: /\/\*\s*lovable:[^*]*\*\//g,
+    target: 'comment',
+    find: /^\/\*\s*lovable:[\s\S]*\*\/$/,
     replace: '',
     severity: 'minor',
     category: 'comment',
@@ -302,13 +318,203 @@ export const REFACTOR_PATTERNS: RefactorPattern[] = [
   {
     name: 'generated-by-lovable',
     description: 'Remove "Generated by Lovable" comments',
-    find: /\/\/[^\n]*[Gg]enerated\s+by\s+[Ll]ovable[^\n]*/g,
+    target: 'comment',
+    find: /^\/\/.*[Gg]enerated\s+by\s+[Ll]ovable.*$/,
     replace: '',
     severity: 'minor',
     category: 'comment',
   },
 ];
 
+// ═══════════════════════════════════════════════════════════════
+// ARBRE SYNTAXIQUE
+// ═══════════════════════════════════════════════════════════════
+
+interface TargetSpan {
+  target: RefactorTarget;
+  start: number;
+  end: number;
+}
+
+interface TextEdit {
+  pattern: RefactorPattern;
+  /** Position du nœud d'origine (rapportée dans les changements) */
+  nodeStart: number;
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+}
+
+const CLASS_ATTRIBUTES = ['className', 'class'];
+
+// Clés de nœud Babel qui ne contiennent pas de nœuds enfants
+const NON_CHILD_KEYS = new Set([
+  'type', 'start', 'end', 'loc', 'range', 'extra',
+  'leadingComments', 'trailingComments', 'innerComments',
+]);
+
+function parserPlugins(filename?: string): ParserPlugin[] {
+  const ext = filename?.split('.').pop()?.toLowerCase();
+  if (ext === 'ts' || ext === 'mts' || ext === 'cts') return ['typescript'];
+  if (ext === 'js' || ext === 'jsx' || ext === 'mjs' || ext === 'cjs') return ['jsx'];
+  return ['typescript', 'jsx'];
+}
+
+/**
+ * Analyse un fichier TS/TSX/JS/JSX (plugins choisis d'après l'extension)
+ */
+export function parseSource(code: string, filename?: string): { ast: File } | { error: string } {
+  try {
+    return { ast: parse(code, { sourceType: 'module', plugins: parserPlugins(filename) }) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function walk(node: Node, enter: (node: Node) => void): void {
+  enter(node);
+  for (const [key, value] of Object.entries(node)) {
+    if (NON_CHILD_KEYS.has(key) || !value || typeof value !== 'object') continue;
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (child && typeof child.type === 'string') walk(child, enter);
+    }
+  }
+}
+
+/**
+ * Liste les portions du texte source qui correspondent à chaque type de cible
+ */
+function collectSpans(ast: File): TargetSpan[] {
+  const spans: TargetSpan[] = [];
+  const add = (target: RefactorTarget, start?: number | null, end?: number | null) => {
+    if (start != null && end != null) spans.push({ target, start, end });
+  };
+
+  walk(ast.program, node => {
+    switch (node.type) {
+      case 'ImportDeclaration':
+      case 'ExportAllDeclaration':
+        add('import', node.start, node.end);
+        break;
+      case 'ExportNamedDeclaration':
+        if (node.source) add('import', node.start, node.end);
+        break;
+      case 'CallExpression':
+      case 'OptionalCallExpression':
+      case 'NewExpression':
+        add('call', node.start, node.end);
+        add('callee', node.callee.start, node.callee.end);
+        break;
+      case 'MemberExpression':
+      case 'OptionalMemberExpression':
+        if (!node.computed) add('member', node.start, node.end);
+        break;
+      case 'Identifier':
+        add('identifier', node.start, node.end);
+        break;
+      case 'JSXAttribute':
+        add('jsx-attribute', node.start, node.end);
+        if (node.name.type === 'JSXIdentifier' && CLASS_ATTRIBUTES.includes(node.name.name) && node.value) {
+          walk(node.value, child => {
+            if (child.type === 'StringLiteral' && child.start != null && child.end != null) {
+              add('class-name', child.start + 1, child.end - 1);
+            } else if (child.type === 'TemplateElement') {
+              add('class-name', child.start, child.end);
+            }
+          });
+        }
+        break;
+    }
+  });
+
+  for (const comment of ast.comments || []) {
+    add('comment', comment.start, comment.end);
+  }
+
+  return spans;
+}
+
+function toRegExp(find: RegExp | string): RegExp {
+  return typeof find === 'string' ? new RegExp(find, 'g') : new RegExp(find.source, find.flags);
+}
+
+function replaceText(text: string, pattern: RefactorPattern): string {
+  const regex = toRegExp(pattern.find);
+  return typeof pattern.replace === 'function'
+    ? text.replace(regex, pattern.replace)
+    : text.replace(regex, pattern.replace);
+}
+
+/**
+ * Une suppression emporte la ligne entière si le nœud était seul sur sa ligne,
+ * sinon les espaces qui le précèdent
+ */
+export function removalRange(code: string, start: number, end: number): [number, number] {
+  const lineStart = code.lastIndexOf('\n', start - 1) + 1;
+  const newline = code.indexOf('\n', end);
+  const lineEnd = newline === -1 ? code.length : newline;
+
+  if (!code.slice(lineStart, start).trim() && !code.slice(end, lineEnd).trim()) {
+    return [lineStart, Math.min(lineEnd + 1, code.length)];
+  }
+
+  let from = start;
+  while (from > lineStart && (code[from - 1] === ' ' || code[from - 1] === '\t')) from--;
+  return [from, end];
+}
+
+function restOfLine(code: string, offset: number): string {
+  const newline = code.indexOf('\n', offset);
+  return code.slice(offset, newline === -1 ? code.length : newline);
+}
+
+function applyEdits(code: string, edits: TextEdit[]): string {
+  let output = code;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    output = output.slice(0, edit.start) + edit.replacement + output.slice(edit.end);
+  }
+  return output;
+}
+
+function positionOf(code: string, offset: number): { line: number; column: number } {
+  const before = code.slice(0, offset);
+  return { line: before.split('\n').length, column: offset - before.lastIndexOf('\n') };
+}
+
+function isImported(ast: File, name: string, from: string): boolean {
+  return ast.program.body.some(statement =>
+    statement.type === 'ImportDeclaration' &&
+    statement.source.value === from &&
+    statement.specifiers.some(specifier => specifier.local.name === name)
+  );
+}
+
+/**
+ * Ajoute `import { name } from 'from'` après le dernier import (même style de guillemets)
+ */
+function insertImport(code: string, ast: File, name: string, from: string): { code: string; offset: number; statement: string } {
+  const imports = ast.program.body.filter(statement => statement.type === 'ImportDeclaration');
+  const last = imports[imports.length - 1];
+
+  if (last?.end != null) {
+    const lastText = code.slice(last.start ?? last.end, last.end);
+    const quote = lastText.includes('"') && !lastText.includes("'") ? '"' : "'";
+    const statement = `import { ${name} } from ${quote}${from}${quote}${lastText.endsWith(';') ? ';' : ''}`;
+    return { code: `${code.slice(0, last.end)}\n${statement}${code.slice(last.end)}`, offset: last.end + 1, statement };
+  }
+
+  const directives = ast.program.directives;
+  const offset = directives.length > 0 ? directives[directives.length - 1].end ?? 0 : 0;
+  const statement = `import { ${name} } from '${from}';`;
+  const inserted = offset > 0 ? `\n${statement}` : `${statement}\n`;
+  return {
+    code: code.slice(0, offset) + inserted + code.slice(offset),
+    offset: offset > 0 ? offset + 1 : 0,
+    statement,
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════
 // AST REFACTOR CLASS
 // ═══════════════════════════════════════════════════════════════
@@ -318,7 +524,7 @@ export class ASTRefactor {
   private verbose: boolean;
 
   constructor(options: { patterns?: RefactorPattern[]; verbose?: boolean } = {}) {
-    this.patterns = options.patterns || REFACTOR_PATTERNS;
+    this.patterns = options.patterns || [...REFACTOR_PATTERNS];
     this.verbose = options.verbose || false;
   }
 
@@ -326,71 +532,138 @@ export class ASTRefactor {
    * Refactor a single file
    */
   refactor(code: string, filename?: string): RefactorResult {
-    const changes: RefactorChange[] = [];
-    let refactoredCode = code;
-    const originalLines = code.split('\n');
-    
-    // Apply each pattern
-    for (const pattern of this.patterns) {
-      const regex = typeof pattern.find === 'string' 
-        ? new RegExp(pattern.find, 'g') 
-        : pattern.find;
-      
-      // Reset regex
-      regex.lastIndex = 0;
-      
-      let match;
-      while ((match = regex.exec(code)) !== null) {
-        // Find line number
-        const beforeMatch = code.substring(0, match.index);
-        const lineNumber = beforeMatch.split('\n').length;
-        const lineStart = beforeMatch.lastIndexOf('\n') + 1;
-        const column = match.index - lineStart + 1;
-        
-        // Calculate replacement
-        let replacement: string;
-        if (typeof pattern.replace === 'function') {
-          replacement = pattern.replace(match[0], ...match.slice(1));
-        } else {
-          replacement = pattern.replace;
+    const parsed = parseSource(code, filename);
+    if ('error' in parsed) {
+      if (this.verbose) console.warn(`[ASTRefactor] ${filename || 'source'}: ${parsed.error}`);
+      return this.buildResult(code, code, [], [], [parsed.error], 0);
+    }
+
+    // Candidate edits: first matching pattern per node, outer nodes win over nested ones
+    const candidates: TextEdit[] = [];
+    for (const span of collectSpans(parsed.ast)) {
+      const original = code.slice(span.start, span.end);
+
+      for (const pattern of this.patterns) {
+        if (pattern.target !== span.target) continue;
+
+        let replacement = replaceText(original, pattern);
+        if (replacement === original) continue;
+
+        if (span.target === 'class-name' && !/^\s/.test(original)) {
+          replacement = replacement.replace(/^\s+/, '');
         }
-        
-        changes.push({
-          pattern: pattern.name,
-          line: lineNumber,
-          column,
-          original: match[0],
-          replacement,
-          severity: pattern.severity,
-        });
+
+        let [start, end] = [span.start, span.end];
+        if (!replacement && (span.target === 'jsx-attribute' || span.target === 'comment')) {
+          [start, end] = removalRange(code, start, end);
+        } else if (/^\/\/[^\n]*$/.test(replacement) && restOfLine(code, end).trim()) {
+          // A line comment would swallow the code that follows on the same line
+          replacement = `/* ${replacement.slice(2).trim()} */`;
+        }
+
+        candidates.push({ pattern, nodeStart: span.start, start, end, original, replacement });
+        break;
       }
-      
-      // Apply replacement
-      if (typeof pattern.replace === 'function') {
-        refactoredCode = refactoredCode.replace(regex, pattern.replace as any);
-      } else {
-        refactoredCode = refactoredCode.replace(regex, pattern.replace);
+    }
+
+    candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+    const edits: TextEdit[] = [];
+    for (const edit of candidates) {
+      const previous = edits[edits.length - 1];
+      if (!previous || edit.start >= previous.end) edits.push(edit);
+    }
+
+    // Refuse edits that would leave the file unparsable
+    let accepted = edits;
+    const rejected: TextEdit[] = [];
+    if ('error' in parseSource(applyEdits(code, edits), filename)) {
+      accepted = [];
+      for (const edit of edits) {
+        if ('error' in parseSource(applyEdits(code, [...accepted, edit]), filename)) {
+          rejected.push(edit);
+        } else {
+          accepted.push(edit);
+        }
       }
     }
 
-    // Clean up: remove excessive blank lines
-    refactoredCode = refactoredCode.replace(/\n{4,}/g, '\n\n\n');
-    
-    // Clean up: remove trailing whitespace
-    refactoredCode = refactoredCode.split('\n').map(line => line.trimEnd()).join('\n');
-    
-    const newLines = refactoredCode.split('\n');
-    
+    let refactoredCode = applyEdits(code, accepted);
+    const changes = accepted.map(edit => this.toChange(code, edit));
+    let addedImports = 0;
+
+    // Imports required by the applied patterns
+    const required = new Map<string, { name: string; from: string; pattern: RefactorPattern }>();
+    for (const edit of accepted) {
+      const addImport = edit.pattern.addImport;
+      if (addImport) required.set(`${addImport.from}:${addImport.name}`, { ...addImport, pattern: edit.pattern });
+    }
+
+    for (const { name, from, pattern } of required.values()) {
+      const current = parseSource(refactoredCode, filename);
+      if ('error' in current || isImported(current.ast, name, from)) continue;
+
+      const inserted = insertImport(refactoredCode, current.ast, name, from);
+      if ('error' in parseSource(inserted.code, filename)) continue;
+
+      refactoredCode = inserted.code;
+      addedImports++;
+      changes.push({
+        pattern: pattern.name,
+        ...positionOf(refactoredCode, inserted.offset),
+        original: '',
+        replacement: inserted.statement,
+        severity: pattern.severity,
+      });
+    }
+
+    // Lines of the original file touched by the accepted edits
+    const touchedLines = new Set<number>();
+    for (const edit of accepted) {
+      const first = positionOf(code, edit.start).line;
+      const last = positionOf(code, Math.max(edit.start, edit.end - 1)).line;
+      for (let line = first; line <= last; line++) touchedLines.add(line);
+    }
+
+    return this.buildResult(
+      code,
+      refactoredCode,
+      changes,
+      rejected.map(edit => this.toChange(code, edit)),
+      [],
+      touchedLines.size + addedImports
+    );
+  }
+
+  private toChange(code: string, edit: TextEdit): RefactorChange {
     return {
-      originalCode: code,
+      pattern: edit.pattern.name,
+      ...positionOf(code, edit.nodeStart),
+      original: edit.original,
+      replacement: edit.replacement,
+      severity: edit.pattern.severity,
+    };
+  }
+
+  private buildResult(
+    originalCode: string,
+    refactoredCode: string,
+    changes: RefactorChange[],
+    rejectedChanges: RefactorChange[],
+    parseErrors: string[],
+    linesChanged: number
+  ): RefactorResult {
+    return {
+      originalCode,
       refactoredCode,
       changes,
       hasChanges: changes.length > 0,
+      rejectedChanges,
+      parseErrors,
       stats: {
         totalPatterns: this.patterns.length,
         appliedPatterns: new Set(changes.map(c => c.pattern)).size,
-        linesChanged: Math.abs(originalLines.length - newLines.length) + changes.length,
-        bytesChanged: Math.abs(code.length - refactoredCode.length),
+        linesChanged,
+        bytesChanged: Math.abs(originalCode.length - refactoredCode.length),
       },
     };
   }
@@ -400,17 +673,17 @@ export class ASTRefactor {
    */
   refactorBatch(files: Map<string, string>): Map<string, RefactorResult> {
     const results = new Map<string, RefactorResult>();
-    
+
     for (const [path, content] of files) {
       // Only refactor code files
       const ext = path.split('.').pop()?.toLowerCase();
       const codeExtensions = ['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs'];
-      
+
       if (ext && codeExtensions.includes(ext)) {
         results.set(path, this.refactor(content, path));
       }
     }
-    
+
     return results;
   }
 
@@ -419,11 +692,15 @@ export class ASTRefactor {
    */
   generateDiff(result: RefactorResult): string {
     const lines: string[] = [];
-    
-    if (!result.hasChanges) {
+
+    if (result.parseErrors.length > 0) {
+      return `// Unparsable source, left untouched: ${result.parseErrors.join('; ')}`;
+    }
+
+    if (!result.hasChanges && result.rejectedChanges.length === 0) {
       return '// No changes needed';
     }
-    
+
     lines.push('// ═══════════════════════════════════════════════════════════════');
     lines.push('// REFACTOR REPORT');
     lines.push('// ═══════════════════════════════════════════════════════════════');
@@ -433,12 +710,12 @@ export class ASTRefactor {
     lines.push(`// Bytes changed: ${result.stats.bytesChanged}`);
     lines.push('// ───────────────────────────────────────────────────────────────');
     lines.push('');
-    
+
     // Group changes by severity
     const critical = result.changes.filter(c => c.severity === 'critical');
     const major = result.changes.filter(c => c.severity === 'major');
     const minor = result.changes.filter(c => c.severity === 'minor');
-    
+
     if (critical.length > 0) {
       lines.push('// 🔴 CRITICAL CHANGES');
       for (const change of critical) {
@@ -448,7 +725,7 @@ export class ASTRefactor {
       }
       lines.push('');
     }
-    
+
     if (major.length > 0) {
       lines.push('// 🟡 MAJOR CHANGES');
       for (const change of major) {
@@ -458,7 +735,7 @@ export class ASTRefactor {
       }
       lines.push('');
     }
-    
+
     if (minor.length > 0) {
       lines.push('// 🔵 MINOR CHANGES');
       for (const change of minor.slice(0, 10)) {
@@ -467,9 +744,18 @@ export class ASTRefactor {
       if (minor.length > 10) {
         lines.push(`//   ... and ${minor.length - 10} more`);
       }
+      lines.push('');
     }
-    
-    return lines.join('\n');
+
+    if (result.rejectedChanges.length > 0) {
+      lines.push('// ⛔ REFUSED (output would not parse, fix manually)');
+      for (const change of result.rejectedChanges) {
+        lines.push(`//   L${change.line}: ${change.pattern}`);
+        lines.push(`//     - ${change.original}`);
+      }
+    }
+
+    return lines.join('\n').trimEnd();
   }
 
   /**
@@ -509,39 +795,23 @@ export function refactorCode(code: string, filename?: string): RefactorResult {
 /**
  * Check if code needs refactoring
  */
-export function needsRefactoring(code: string): boolean {
-  for (const pattern of REFACTOR_PATTERNS) {
-    const regex = typeof pattern.find === 'string'
-      ? new RegExp(pattern.find, 'g')
-      : pattern.find;
-    
-    regex.lastIndex = 0;
-    if (regex.test(code)) {
-      return true;
-    }
-  }
-  return false;
+export function needsRefactoring(code: string, filename?: string): boolean {
+  return countIssues(code, filename).total > 0;
 }
 
 /**
- * Count issues in code
+ * Count issues in code (refused edits are still issues)
  */
-export function countIssues(code: string): { critical: number; major: number; minor: number; total: number } {
+export function countIssues(code: string, filename?: string): { critical: number; major: number; minor: number; total: number } {
   const counts = { critical: 0, major: 0, minor: 0, total: 0 };
-  
-  for (const pattern of REFACTOR_PATTERNS) {
-    const regex = typeof pattern.find === 'string'
-      ? new RegExp(pattern.find, 'g')
-      : pattern.find;
-    
-    regex.lastIndex = 0;
-    const matches = code.match(regex);
-    if (matches) {
-      counts[pattern.severity] += matches.length;
-      counts.total += matches.length;
-    }
+  const result = refactorCode(code, filename);
+
+  for (const change of [...result.changes, ...result.rejectedChanges]) {
+    if (!change.original) continue; // Added imports are not issues
+    counts[change.severity]++;
+    counts.total++;
   }
-  
+
   return counts;
 }
 
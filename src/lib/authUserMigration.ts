@@ -0,0 +1,365 @@
+/**
+ * Auth User Migration
+ * Exports Supabase `auth.users` (bcrypt hashes, confirmation dates, metadata,
+ * OAuth identities) and imports them into the schema of the self-hosted auth
+ * service generated by selfHostedAuthTemplate, so existing passwords keep
+ * working. Planning is pure: the dry-run report lists every account that
+ * cannot be carried over and why, before anything is written.
+ *
+ * Shared with the edge functions (migrate-auth-users) through
+ * `npm run rules:sync`: keep it free of imports other than dataMover.
+ */
+
+import type { PgClient } from './dataMover';
+
+// ============= TYPES =============
+
+export interface SupabaseAuthIdentity {
+  provider: string;
+  /** Subject at the provider (`provider_id`, or `id` on older GoTrue versions) */
+  provider_id: string;
+  identity_data: Record<string, unknown>;
+  last_sign_in_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface SupabaseAuthUser {
+  id: string;
+  email: string | null;
+  encrypted_password: string | null;
+  email_confirmed_at: string | null;
+  phone: string | null;
+  phone_confirmed_at: string | null;
+  last_sign_in_at: string | null;
+  raw_app_meta_data: Record<string, unknown>;
+  raw_user_meta_data: Record<string, unknown>;
+  is_super_admin: boolean;
+  role: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  banned_until: string | null;
+  deleted_at: string | null;
+  is_anonymous: boolean;
+  is_sso_user: boolean;
+  identities: SupabaseAuthIdentity[];
+}
+
+/** Row of the generated `auth.users` table */
+export type AuthImportUser = Omit<SupabaseAuthUser, 'deleted_at' | 'is_anonymous' | 'is_sso_user' | 'identities'>;
+
+/** Row of the generated `auth.identities` table */
+export interface AuthImportIdentity extends SupabaseAuthIdentity {
+  user_id: string;
+}
+
+export type AuthMigrationIssueCode =
+  | 'deleted'
+  | 'anonymous'
+  | 'missing_email'
+  | 'duplicate_email'
+  | 'unsupported_provider'
+  | 'unsupported_password_hash'
+  | 'no_credentials';
+
+export interface AuthMigrationIssue {
+  id: string;
+  email: string | null;
+  code: AuthMigrationIssueCode;
+  message: string;
+}
+
+export interface AuthMigrationReport {
+  total: number;
+  migrated: number;
+  withPassword: number;
+  /** Accounts left out of the import */
+  skipped: AuthMigrationIssue[];
+  /** Imported accounts that lose a sign-in method */
+  warnings: AuthMigrationIssue[];
+  /** Identities per provider in the source */
+  providers: Record<string, number>;
+}
+
+export interface AuthMigrationPlan {
+  users: AuthImportUser[];
+  identities: AuthImportIdentity[];
+  report: AuthMigrationReport;
+}
+
+export interface AuthMigrationOptions {
+  /** Providers the self-hosted service can sign in with (default: email only) */
+  providers?: string[];
+}
+
+export interface AuthImportResult {
+  users: number;
+  identities: number;
+  /** Planned users already present on the target (same id or email) */
+  alreadyPresent: number;
+}
+
+// ============= CONSTANTS =============
+
+/** The generated auth API only implements email + password sign-in */
+export const DEFAULT_AUTH_PROVIDERS = ['email'];
+
+/** Hashes bcryptjs (used by the generated API) can verify */
+const BCRYPT_HASH = /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/;
+
+/**
+ * Whole rows as JSON: columns added over GoTrue versions (provider_id,
+ * is_anonymous, is_sso_user) are read when present instead of failing
+ */
+export const AUTH_USERS_EXPORT_QUERY = `SELECT to_jsonb(u) AS "user",
+  COALESCE((
+    SELECT jsonb_agg(to_jsonb(i) ORDER BY i.created_at)
+    FROM auth.identities i
+    WHERE i.user_id = u.id
+  ), '[]'::jsonb) AS identities
+FROM auth.users u
+ORDER BY u.created_at, u.id`;
+
+const AUTH_IDENTITIES_TABLE = `CREATE TABLE IF NOT EXISTS auth.identities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider VARCHAR(50) NOT NULL,
+  provider_id TEXT NOT NULL,
+  identity_data JSONB DEFAULT '{}',
+  last_sign_in_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (provider, provider_id)
+)`;
+
+const AUTH_IDENTITIES_INDEX = 'CREATE INDEX IF NOT EXISTS identities_user_id_idx ON auth.identities(user_id)';
+
+/** OAuth identities of the generated service (part of its schema.sql) */
+export const AUTH_IDENTITIES_TABLE_SQL = `${AUTH_IDENTITIES_TABLE};\n\n${AUTH_IDENTITIES_INDEX};`;
+
+/**
+ * Brings services generated before identities were supported up to date:
+ * accounts that only sign in through a provider have no password
+ */
+const AUTH_SCHEMA_UPGRADE_STATEMENTS = [
+  AUTH_IDENTITIES_TABLE,
+  AUTH_IDENTITIES_INDEX,
+  'ALTER TABLE auth.users ALTER COLUMN encrypted_password DROP NOT NULL',
+];
+
+/** $1: users as JSON. Replay-safe: users already present (id or email) are kept */
+export const AUTH_USERS_IMPORT_SQL = `WITH inserted AS (
+  INSERT INTO auth.users (
+    id, email, encrypted_password, email_confirmed_at, phone, phone_confirmed_at, last_sign_in_at,
+    raw_app_meta_data, raw_user_meta_data, is_super_admin, role, created_at, updated_at, banned_until
+  )
+  SELECT id, email, encrypted_password, email_confirmed_at, phone, phone_confirmed_at, last_sign_in_at,
+    COALESCE(raw_app_meta_data, '{}'), COALESCE(raw_user_meta_data, '{}'), COALESCE(is_super_admin, false),
+    COALESCE(role, 'authenticated'), COALESCE(created_at, now()), COALESCE(updated_at, now()), banned_until
+  FROM json_to_recordset($1::json) AS r(
+    id uuid, email text, encrypted_password text, email_confirmed_at timestamptz, phone text,
+    phone_confirmed_at timestamptz, last_sign_in_at timestamptz, raw_app_meta_data jsonb,
+    raw_user_meta_data jsonb, is_super_admin boolean, role text, created_at timestamptz,
+    updated_at timestamptz, banned_until timestamptz
+  )
+  ON CONFLICT DO NOTHING
+  RETURNING id
+)
+SELECT count(*)::int AS count FROM inserted`;
+
+/** $1: identities as JSON. Identities of users not on the target are dropped */
+export const AUTH_IDENTITIES_IMPORT_SQL = `WITH inserted AS (
+  INSERT INTO auth.identities (user_id, provider, provider_id, identity_data, last_sign_in_at, created_at, updated_at)
+  SELECT r.user_id, r.provider, r.provider_id, COALESCE(r.identity_data, '{}'), r.last_sign_in_at,
+    COALESCE(r.created_at, now()), COALESCE(r.updated_at, now())
+  FROM json_to_recordset($1::json) AS r(
+    user_id uuid, provider text, provider_id text, identity_data jsonb,
+    last_sign_in_at timestamptz, created_at timestamptz, updated_at timestamptz
+  )
+  WHERE EXISTS (SELECT 1 FROM auth.users u WHERE u.id = r.user_id)
+  ON CONFLICT (provider, provider_id) DO NOTHING
+  RETURNING id
+)
+SELECT count(*)::int AS count FROM inserted`;
+
+// ============= EXPORT =============
+
+const text = (value: unknown): string | null =>
+  typeof value === 'string' && value !== '' ? value : null;
+
+const object = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+function toIdentity(row: Record<string, unknown>): SupabaseAuthIdentity {
+  return {
+    provider: String(row.provider ?? ''),
+    provider_id: String(row.provider_id ?? row.id ?? ''),
+    identity_data: object(row.identity_data),
+    last_sign_in_at: text(row.last_sign_in_at),
+    created_at: text(row.created_at),
+    updated_at: text(row.updated_at),
+  };
+}
+
+/**
+ * Normalizes one exported row (`to_jsonb(auth.users)` + identities)
+ */
+export function toSupabaseAuthUser(row: Record<string, unknown>, identities: unknown[] = []): SupabaseAuthUser {
+  return {
+    id: String(row.id),
+    email: text(row.email),
+    encrypted_password: text(row.encrypted_password),
+    email_confirmed_at: text(row.email_confirmed_at) ?? text(row.confirmed_at),
+    phone: text(row.phone),
+    phone_confirmed_at: text(row.phone_confirmed_at),
+    last_sign_in_at: text(row.last_sign_in_at),
+    raw_app_meta_data: object(row.raw_app_meta_data),
+    raw_user_meta_data: object(row.raw_user_meta_data),
+    is_super_admin: row.is_super_admin === true,
+    role: text(row.role),
+    created_at: text(row.created_at),
+    updated_at: text(row.updated_at),
+    banned_until: text(row.banned_until),
+    deleted_at: text(row.deleted_at),
+    is_anonymous: row.is_anonymous === true,
+    is_sso_user: row.is_sso_user === true,
+    identities: identities.map(identity => toIdentity(object(identity))),
+  };
+}
+
+/**
+ * Reads every user of the source project with its identities
+ */
+export async function exportAuthUsers(source: PgClient): Promise<SupabaseAuthUser[]> {
+  const rows = await source.query<{ user: Record<string, unknown>; identities: unknown[] }>(AUTH_USERS_EXPORT_QUERY);
+  return rows.map(row => toSupabaseAuthUser(row.user, row.identities));
+}
+
+// ============= PLAN =============
+
+export function isBcryptHash(hash: string | null): boolean {
+  return hash !== null && BCRYPT_HASH.test(hash);
+}
+
+/**
+ * Decides, per user, what the self-hosted service can take over. A user is
+ * imported when at least one sign-in method survives: a bcrypt password or
+ * an identity at a supported provider.
+ */
+export function planAuthUserMigration(users: SupabaseAuthUser[], options: AuthMigrationOptions = {}): AuthMigrationPlan {
+  const supported = new Set(options.providers ?? DEFAULT_AUTH_PROVIDERS);
+  const plan: AuthMigrationPlan = {
+    users: [],
+    identities: [],
+    report: { total: users.length, migrated: 0, withPassword: 0, skipped: [], warnings: [], providers: {} },
+  };
+  const { report } = plan;
+  const emails = new Map<string, string>();
+
+  for (const user of users) {
+    const issue = (code: AuthMigrationIssueCode, message: string): AuthMigrationIssue =>
+      ({ id: user.id, email: user.email, code, message });
+    const skip = (code: AuthMigrationIssueCode, message: string) => {
+      report.skipped.push(issue(code, message));
+    };
+
+    for (const identity of user.identities) {
+      report.providers[identity.provider] = (report.providers[identity.provider] ?? 0) + 1;
+    }
+
+    if (user.deleted_at) {
+      skip('deleted', `deleted on ${user.deleted_at}`);
+      continue;
+    }
+    if (user.is_anonymous) {
+      skip('anonymous', 'anonymous session without credentials');
+      continue;
+    }
+    // The generated schema identifies users by email (NOT NULL UNIQUE, lower-cased at sign-in)
+    const email = user.email?.trim().toLowerCase();
+    if (!email) {
+      skip('missing_email', user.phone ? `phone-only account (${user.phone})` : 'no email address');
+      continue;
+    }
+    const owner = emails.get(email);
+    if (owner) {
+      skip('duplicate_email', `${email} already belongs to ${owner}`);
+      continue;
+    }
+
+    const hasPassword = isBcryptHash(user.encrypted_password);
+    const external = user.identities.filter(identity => identity.provider !== 'email');
+    const unsupported = [...new Set([
+      ...external.filter(identity => !supported.has(identity.provider)).map(identity => identity.provider),
+      ...(user.is_sso_user ? ['sso'] : []),
+    ])];
+    const usable = external.some(identity => supported.has(identity.provider));
+
+    if (!hasPassword && !usable) {
+      if (unsupported.length > 0) {
+        skip('unsupported_provider', `only signs in with ${unsupported.join(', ')}`);
+      } else if (user.encrypted_password) {
+        skip('unsupported_password_hash', 'password hash is not bcrypt');
+      } else {
+        skip('no_credentials', 'no password and no identity');
+      }
+      continue;
+    }
+
+    if (unsupported.length > 0) {
+      report.warnings.push(issue('unsupported_provider', `${unsupported.join(', ')} identity kept but not served`));
+    }
+    if (user.encrypted_password && !hasPassword) {
+      report.warnings.push(issue('unsupported_password_hash', 'password hash is not bcrypt: password reset required'));
+    }
+
+    emails.set(email, user.id);
+    plan.users.push({
+      id: user.id,
+      email,
+      encrypted_password: hasPassword ? user.encrypted_password : null,
+      email_confirmed_at: user.email_confirmed_at,
+      phone: user.phone,
+      phone_confirmed_at: user.phone_confirmed_at,
+      last_sign_in_at: user.last_sign_in_at,
+      raw_app_meta_data: user.raw_app_meta_data,
+      raw_user_meta_data: user.raw_user_meta_data,
+      is_super_admin: user.is_super_admin,
+      role: user.role,
+      created_at: user.created_at,
+      updated_at: user.updated_at,
+      banned_until: user.banned_until,
+    });
+    plan.identities.push(...user.identities.map(identity => ({ ...identity, user_id: user.id })));
+    report.migrated++;
+    if (hasPassword) report.withPassword++;
+  }
+
+  return plan;
+}
+
+// ============= IMPORT =============
+
+/**
+ * Writes the planned users and identities in one transaction. Replay-safe:
+ * running the same plan twice imports nothing the second time.
+ */
+export async function importAuthUsers(target: PgClient, plan: Pick<AuthMigrationPlan, 'users' | 'identities'>): Promise<AuthImportResult> {
+  await target.query('BEGIN');
+  try {
+    for (const statement of AUTH_SCHEMA_UPGRADE_STATEMENTS) {
+      await target.query(statement);
+    }
+    const [users] = await target.query<{ count: number }>(AUTH_USERS_IMPORT_SQL, [JSON.stringify(plan.users)]);
+    const [identities] = await target.query<{ count: number }>(AUTH_IDENTITIES_IMPORT_SQL, [JSON.stringify(plan.identities)]);
+    await target.query('COMMIT');
+    return {
+      users: users.count,
+      identities: identities.count,
+      alreadyPresent: plan.users.length - users.count,
+    };
+  } catch (error) {
+    await target.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  }
+}
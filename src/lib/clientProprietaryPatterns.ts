@@ -4,8 +4,11 @@
  * This is a client-side version of supabase/functions/_shared/proprietary-patterns.ts
  * 
  * ENHANCED: Version 3.0 - MAXIMUM SOVEREIGNTY with exhaustive patterns
+ * Scored detection rules live in sovereigntyRules.ts (shared with the CLI and the API)
  */
 
+import { isProprietaryFile, scanContent } from './sovereigntyRules';
+
 // ============= PROPRIETARY PATTERNS TO DETECT =============
 
 export const PROPRIETARY_IMPORTS: RegExp[] = [
@@ -944,6 +947,9 @@ export default useAuth;`,
 export function shouldRemoveFile(filePath: string): boolean {
   const fileName = filePath.split('/').pop() || '';
   
+  // Proprietary files from the shared rule registry
+  if (isProprietaryFile(filePath)) return true;
+  
   // Check exact file matches
   for (const pattern of PROPRIETARY_FILES) {
     if (fileName === pattern || filePath.includes(`/${pattern}`) || filePath.endsWith(pattern)) {
@@ -970,6 +976,9 @@ export function shouldRemoveFile(filePath: string): boolean {
  * Check if content contains proprietary patterns (basic check)
  */
 export function needsCleaning(content: string): boolean {
+  // Any finding from the shared rule registry
+  if (scanContent(content, '').length > 0) return true;
+  
   // Check proprietary imports
   for (const pattern of PROPRIETARY_IMPORTS) {
     const regex = new RegExp(pattern.source, pattern.flags);
@@ -1,8 +1,16 @@
 /**
  * Edge Function Parser & Converter
- * Transforms Deno Edge Functions to Express.js routes
+ * Transforms Deno Edge Functions to a Node.js service: Express, Hono,
+ * Fastify or a plain node:http server
  */
 
+export type BackendTarget = 'express' | 'hono' | 'fastify' | 'node-http';
+
+export const BACKEND_TARGETS: BackendTarget[] = ['express', 'hono', 'fastify', 'node-http'];
+
+/** Read by the generated CORS, auth and rate limiting middleware */
+export const SERVICE_ENV_VARS = ['JWT_SECRET', 'CORS_ORIGIN', 'RATE_LIMIT_WINDOW_MS', 'RATE_LIMIT_MAX', 'TRUST_PROXY'];
+
 export interface EdgeFunctionInfo {
   name: string;
   path: string;
@@ -13,21 +21,74 @@ export interface EdgeFunctionInfo {
   imports: string[];
 }
 
-export interface ExpressRouteOutput {
+export interface RouteOutput {
   routeName: string;
   routeContent: string;
   dependencies: string[];
+  /** Router, plugin or handler table exported by routes/<routeName>.ts */
+  exportName: string;
+  mountPath: string;
 }
 
+/** Name from the Express-only converter */
+export type ExpressRouteOutput = RouteOutput;
+
 export interface BackendOutput {
-  routes: ExpressRouteOutput[];
+  target: BackendTarget;
+  routes: RouteOutput[];
+  /** CORS, auth and rate limiting middleware (and helpers), paths relative to src/ */
+  supportFiles: Record<string, string>;
   indexContent: string;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
   packageJson: string;
   dockerfile: string;
   dockerCompose: string;
   envExample: string;
 }
 
+const PACKAGE_VERSIONS: Record<string, string> = {
+  'express': '^4.18.2',
+  'cors': '^2.8.5',
+  'helmet': '^7.1.0',
+  'express-rate-limit': '^7.4.0',
+  'hono': '^4.6.0',
+  '@hono/node-server': '^1.13.0',
+  'fastify': '^5.1.0',
+  '@fastify/cors': '^10.0.1',
+  '@fastify/helmet': '^13.0.0',
+  '@fastify/rate-limit': '^10.2.1',
+  'jsonwebtoken': '^9.0.2',
+  'dotenv': '^16.3.1',
+  '@supabase/supabase-js': '^2.39.0',
+  'stripe': '^14.10.0',
+  '@types/express': '^4.17.21',
+  '@types/cors': '^2.8.17',
+  '@types/jsonwebtoken': '^9.0.7',
+  '@types/node': '^20.10.0',
+  'tsx': '^4.7.0',
+  'typescript': '^5.3.0',
+};
+
+const TARGET_PACKAGES: Record<BackendTarget, { dependencies: string[]; devDependencies: string[] }> = {
+  'express': {
+    dependencies: ['express', 'cors', 'helmet', 'express-rate-limit', 'jsonwebtoken', 'dotenv'],
+    devDependencies: ['@types/express', '@types/cors', '@types/jsonwebtoken'],
+  },
+  'hono': {
+    dependencies: ['hono', '@hono/node-server', 'jsonwebtoken', 'dotenv'],
+    devDependencies: ['@types/jsonwebtoken'],
+  },
+  'fastify': {
+    dependencies: ['fastify', '@fastify/cors', '@fastify/helmet', '@fastify/rate-limit', 'jsonwebtoken', 'dotenv'],
+    devDependencies: ['@types/jsonwebtoken'],
+  },
+  'node-http': {
+    dependencies: ['jsonwebtoken', 'dotenv'],
+    devDependencies: ['@types/jsonwebtoken'],
+  },
+};
+
 /**
  * Parse Edge Function content to extract metadata
  */
@@ -63,15 +124,15 @@ export function parseEdgeFunction(name: string, content: string): EdgeFunctionIn
 
   for (const pattern of methodPatterns) {
     if (pattern.test(content)) {
-      const method = pattern.source.match(/['"](\w+)['"]/)?.[1];
+      const method = pattern.source.match(/\b(GET|POST|PUT|DELETE|PATCH|OPTIONS)\b/)?.[1];
       if (method && !httpMethods.includes(method)) {
         httpMethods.push(method);
       }
     }
   }
 
-  // Default to POST if no method detected
-  if (httpMethods.length === 0) {
+  // Default to POST if no method detected (the CORS preflight check does not count)
+  if (!httpMethods.some(m => m !== 'OPTIONS')) {
     httpMethods.push('POST');
   }
 
@@ -97,27 +158,47 @@ export function parseEdgeFunction(name: string, content: string): EdgeFunctionIn
   };
 }
 
+const usesSupabase = (edgeFunc: EdgeFunctionInfo) =>
+  edgeFunc.content.includes('supabase') || edgeFunc.content.includes('@supabase');
+
+const SUPABASE_SETUP = `const supabaseUrl = process.env.SUPABASE_URL!;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY!;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+`;
+
+const todo = (edgeFunc: EdgeFunctionInfo, indent: string) => `${indent}// TODO: Implement your business logic here
+${indent}// Original edge function: ${edgeFunc.name}
+${indent}
+`;
+
+const hasBody = (method: string) => ['POST', 'PUT', 'PATCH'].includes(method);
+
 /**
  * Convert Edge Function to Express route
  */
-export function convertToExpressRoute(edgeFunc: EdgeFunctionInfo): ExpressRouteOutput {
+export function convertToExpressRoute(edgeFunc: EdgeFunctionInfo): RouteOutput {
   const routeName = edgeFunc.name.replace(/-/g, '_');
   const dependencies: string[] = ['express'];
+  const requestType = edgeFunc.hasAuth ? 'AuthRequest' : 'Request';
 
   // Start building the route file
-  let routeContent = `import { Router, Request, Response } from 'express';
+  let routeContent = edgeFunc.hasAuth
+    ? `import { Router, Response } from 'express';
+`
+    : `import { Router, Request, Response } from 'express';
 `;
 
   // Add Supabase import if needed
-  if (edgeFunc.content.includes('supabase') || edgeFunc.content.includes('@supabase')) {
+  if (usesSupabase(edgeFunc)) {
     routeContent += `import { createClient } from '@supabase/supabase-js';
 `;
     dependencies.push('@supabase/supabase-js');
   }
 
-  // Add other common imports
-  if (edgeFunc.content.includes('fetch(')) {
-    // fetch is native in Node 18+
+  if (edgeFunc.hasAuth) {
+    routeContent += `import { requireAuth, AuthRequest } from '../middleware/auth';
+`;
   }
 
   routeContent += `
@@ -125,47 +206,103 @@ export const ${routeName}Router = Router();
 
 `;
 
-  // Add Supabase client setup if needed
-  if (edgeFunc.content.includes('supabase') || edgeFunc.content.includes('@supabase')) {
-    routeContent += `const supabaseUrl = process.env.SUPABASE_URL!;
-const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY!;
-const supabase = createClient(supabaseUrl, supabaseKey);
+  if (edgeFunc.hasAuth) {
+    routeContent += `// Bearer JWT verified before every handler (req.user)
+${routeName}Router.use(requireAuth);
 
 `;
   }
 
+  // Add Supabase client setup if needed
+  if (usesSupabase(edgeFunc)) {
+    routeContent += SUPABASE_SETUP;
+  }
+
   // Convert route handlers for each HTTP method
   const methods = edgeFunc.httpMethods.filter(m => m !== 'OPTIONS');
-  
+
   for (const method of methods) {
     const methodLower = method.toLowerCase();
-    routeContent += `${routeName}Router.${methodLower}('/', async (req: Request, res: Response) => {
+    routeContent += `${routeName}Router.${methodLower}('/', async (req: ${requestType}, res: Response) => {
   try {
 `;
 
-    // Add auth check if needed
-    if (edgeFunc.hasAuth) {
-      routeContent += `    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({ error: 'Non autorisé' });
+    // Add body parsing for POST/PUT/PATCH
+    if (hasBody(method)) {
+      routeContent += `    const body = req.body;
+`;
     }
 
+    routeContent += `${todo(edgeFunc, '    ')}    res.json({ success: true, message: 'Route converted from ${edgeFunc.name}' });
+  } catch (error) {
+    console.error('Error in ${routeName}:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Internal error' });
+  }
+});
+
 `;
-    }
+  }
 
-    // Add body parsing for POST/PUT/PATCH
-    if (['POST', 'PUT', 'PATCH'].includes(method)) {
-      routeContent += `    const body = req.body;
+  return {
+    routeName,
+    routeContent,
+    dependencies,
+    exportName: `${routeName}Router`,
+    mountPath: `/api/${edgeFunc.name}`,
+  };
+}
+
+/**
+ * Convert Edge Function to a Hono sub-app (Web Request/Response handlers)
+ */
+export function convertToHonoRoute(edgeFunc: EdgeFunctionInfo): RouteOutput {
+  const routeName = edgeFunc.name.replace(/-/g, '_');
+  const dependencies: string[] = ['hono'];
+
+  let routeContent = `import { Hono } from 'hono';
+`;
+
+  if (usesSupabase(edgeFunc)) {
+    routeContent += `import { createClient } from '@supabase/supabase-js';
+`;
+    dependencies.push('@supabase/supabase-js');
+  }
+
+  if (edgeFunc.hasAuth) {
+    routeContent += `import { requireAuth, type AuthEnv } from '../middleware/auth';
+`;
+  }
+
+  routeContent += `
+export const ${routeName}Routes = new Hono${edgeFunc.hasAuth ? '<AuthEnv>' : ''}();
+
+`;
+
+  if (edgeFunc.hasAuth) {
+    routeContent += `// Bearer JWT verified before every handler (c.get('user'))
+${routeName}Routes.use('*', requireAuth);
+
+`;
+  }
+
+  if (usesSupabase(edgeFunc)) {
+    routeContent += SUPABASE_SETUP;
+  }
+
+  for (const method of edgeFunc.httpMethods.filter(m => m !== 'OPTIONS')) {
+    routeContent += `${routeName}Routes.${method.toLowerCase()}('/', async (c) => {
+  try {
+`;
+
+    if (hasBody(method)) {
+      routeContent += `    const body = await c.req.json().catch(() => ({}));
 `;
     }
 
-    routeContent += `    // TODO: Implement your business logic here
-    // Original edge function: ${edgeFunc.name}
-    
-    res.json({ success: true, message: 'Route converted from ${edgeFunc.name}' });
+    routeContent += `${todo(edgeFunc, '    ')}    return c.json({ success: true, message: 'Route converted from ${edgeFunc.name}' });
   } catch (error) {
     console.error('Error in ${routeName}:', error);
-    res.status(500).json({ error: error instanceof Error ? error.message : 'Internal error' });
+    return c.json({ error: error instanceof Error ? error.message : 'Internal error' }, 500);
   }
 });
 
@@ -176,40 +313,496 @@ const supabase = createClient(supabaseUrl, supabaseKey);
     routeName,
     routeContent,
     dependencies,
+    exportName: `${routeName}Routes`,
+    mountPath: `/api/${edgeFunc.name}`,
   };
 }
 
 /**
- * Generate complete Express backend from Edge Functions
+ * Convert Edge Function to a Fastify plugin (registered under its prefix)
  */
-export function generateExpressBackend(edgeFunctions: EdgeFunctionInfo[]): BackendOutput {
-  const routes = edgeFunctions.map(ef => convertToExpressRoute(ef));
-  const allDependencies = new Set<string>(['express', 'cors', 'helmet', 'dotenv']);
-  const allEnvVars = new Set<string>();
+export function convertToFastifyRoute(edgeFunc: EdgeFunctionInfo): RouteOutput {
+  const routeName = edgeFunc.name.replace(/-/g, '_');
+  const dependencies: string[] = ['fastify'];
 
-  for (const ef of edgeFunctions) {
-    ef.envVars.forEach(v => allEnvVars.add(v));
+  let routeContent = `import type { FastifyInstance } from 'fastify';
+`;
+
+  if (usesSupabase(edgeFunc)) {
+    routeContent += `import { createClient } from '@supabase/supabase-js';
+`;
+    dependencies.push('@supabase/supabase-js');
   }
-  for (const route of routes) {
-    route.dependencies.forEach(d => allDependencies.add(d));
+
+  if (edgeFunc.hasAuth) {
+    routeContent += `import { requireAuth } from '../middleware/auth';
+`;
   }
 
-  // Generate index.ts
-  const indexContent = `import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import dotenv from 'dotenv';
+  routeContent += `
+`;
+
+  if (usesSupabase(edgeFunc)) {
+    routeContent += SUPABASE_SETUP;
+  }
+
+  routeContent += `export async function ${routeName}Routes(app: FastifyInstance) {
+`;
+
+  // Encapsulated in this plugin, and after the rate limiter's onRequest hook
+  if (edgeFunc.hasAuth) {
+    routeContent += `  // Bearer JWT verified before every handler (request.user)
+  app.addHook('preHandler', requireAuth);
+
+`;
+  }
+
+  for (const method of edgeFunc.httpMethods.filter(m => m !== 'OPTIONS')) {
+    routeContent += `  app.${method.toLowerCase()}('/', async (request, reply) => {
+    try {
+`;
+
+    if (hasBody(method)) {
+      routeContent += `      const body = request.body;
+`;
+    }
+
+    routeContent += `${todo(edgeFunc, '      ')}      return { success: true, message: 'Route converted from ${edgeFunc.name}' };
+    } catch (error) {
+      console.error('Error in ${routeName}:', error);
+      return reply.code(500).send({ error: error instanceof Error ? error.message : 'Internal error' });
+    }
+  });
+
+`;
+  }
+
+  routeContent = routeContent.replace(/\n\n$/, '\n') + `}
+`;
+
+  return {
+    routeName,
+    routeContent,
+    dependencies,
+    exportName: `${routeName}Routes`,
+    mountPath: `/api/${edgeFunc.name}`,
+  };
+}
+
+/**
+ * Convert Edge Function to a handler table for the plain node:http server
+ */
+export function convertToNodeHttpRoute(edgeFunc: EdgeFunctionInfo): RouteOutput {
+  const routeName = edgeFunc.name.replace(/-/g, '_');
+  const dependencies: string[] = [];
+
+  let routeContent = `import { sendJson, type HttpRoute } from '../utils/http';
+`;
+
+  if (usesSupabase(edgeFunc)) {
+    routeContent += `import { createClient } from '@supabase/supabase-js';
+`;
+    dependencies.push('@supabase/supabase-js');
+  }
+
+  routeContent += `
+`;
+
+  if (usesSupabase(edgeFunc)) {
+    routeContent += SUPABASE_SETUP;
+  }
+
+  routeContent += `export const ${routeName}Route: HttpRoute = {
+`;
+
+  if (edgeFunc.hasAuth) {
+    routeContent += `  // Bearer JWT verified by the server before the handlers (ctx.user)
+`;
+  }
+
+  routeContent += `  requiresAuth: ${edgeFunc.hasAuth},
+  handlers: {
+`;
+
+  for (const method of edgeFunc.httpMethods.filter(m => m !== 'OPTIONS')) {
+    routeContent += `    ${method}: async ({ res${hasBody(method) ? ', body' : ''} }) => {
+${todo(edgeFunc, '      ')}      sendJson(res, 200, { success: true, message: 'Route converted from ${edgeFunc.name}' });
+    },
+`;
+  }
+
+  routeContent += `  },
+};
+`;
+
+  return {
+    routeName,
+    routeContent,
+    dependencies,
+    exportName: `${routeName}Route`,
+    mountPath: `/api/${edgeFunc.name}`,
+  };
+}
+
+const ROUTE_CONVERTERS: Record<BackendTarget, (edgeFunc: EdgeFunctionInfo) => RouteOutput> = {
+  'express': convertToExpressRoute,
+  'hono': convertToHonoRoute,
+  'fastify': convertToFastifyRoute,
+  'node-http': convertToNodeHttpRoute,
+};
+
+/**
+ * Convert Edge Function to a route for the chosen backend framework
+ */
+export function convertEdgeFunction(edgeFunc: EdgeFunctionInfo, target: BackendTarget = 'express'): RouteOutput {
+  return ROUTE_CONVERTERS[target](edgeFunc);
+}
+
+// ============= MIDDLEWARE =============
+
+const CORS_SETTINGS = `const origins = (process.env.CORS_ORIGIN || '*').split(',').map(origin => origin.trim());
+
+// Headers sent by supabase-js to the former Edge Functions
+const allowedHeaders = ['authorization', 'x-client-info', 'apikey', 'content-type'];
+const allowedMethods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+`;
+
+const VERIFY_TOKEN = `export interface AuthUser {
+  id: string;
+  email?: string;
+  role?: string;
+}
+
+/**
+ * User of a Bearer token signed with JWT_SECRET (the Supabase project JWT
+ * secret or the self-hosted auth service), null when missing or invalid
+ */
+export function verifyToken(authorization?: string): AuthUser | null {
+  const secret = process.env.JWT_SECRET;
+  if (!secret || !authorization?.startsWith('Bearer ')) return null;
+
+  try {
+    const payload = jwt.verify(authorization.slice('Bearer '.length), secret);
+    if (typeof payload === 'string' || !payload.sub) return null;
+    return { id: payload.sub, email: payload.email, role: payload.role };
+  } catch {
+    return null;
+  }
+}
+`;
+
+// Process-local: one counter per instance (Hono and node:http have no standard limiter)
+const FIXED_WINDOW = `const windowMs = Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000;
+const limit = Number(process.env.RATE_LIMIT_MAX) || 100;
+const hits = new Map<string, { count: number; resetAt: number }>();
+
+// Expired windows are dropped so the map stays bounded
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, entry] of hits) {
+    if (entry.resetAt <= now) hits.delete(key);
+  }
+}, windowMs).unref();
+
+function consume(key: string): { limited: boolean; remaining: number; resetSeconds: number } {
+  const now = Date.now();
+  let entry = hits.get(key);
+  if (!entry || entry.resetAt <= now) {
+    entry = { count: 0, resetAt: now + windowMs };
+    hits.set(key, entry);
+  }
+  entry.count++;
+  return {
+    limited: entry.count > limit,
+    remaining: Math.max(0, limit - entry.count),
+    resetSeconds: Math.ceil((entry.resetAt - now) / 1000),
+  };
+}
+`;
+
+/**
+ * CORS, auth and rate limiting middleware for the target (paths relative to src/)
+ */
+function generateSupportFiles(target: BackendTarget): Record<string, string> {
+  switch (target) {
+    case 'express':
+      return {
+        'middleware/cors.ts': `import cors from 'cors';
+
+${CORS_SETTINGS}
+export const corsMiddleware = cors({
+  origin: origins.includes('*') ? '*' : origins,
+  allowedHeaders,
+  methods: allowedMethods,
+});
+`,
+        'middleware/auth.ts': `import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+
+${VERIFY_TOKEN}
+export interface AuthRequest extends Request {
+  user?: AuthUser;
+}
+
+export function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
+  const user = verifyToken(req.headers.authorization);
+  if (!user) {
+    return res.status(401).json({ error: 'Non autorisé' });
+  }
+  req.user = user;
+  next();
+}
+`,
+        'middleware/rateLimit.ts': `import rateLimit from 'express-rate-limit';
+
+export const rateLimiter = rateLimit({
+  windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000,
+  limit: Number(process.env.RATE_LIMIT_MAX) || 100,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  message: { error: 'Too many requests, please try again later' },
+});
+`,
+      };
+
+    case 'hono':
+      return {
+        'middleware/cors.ts': `import { cors } from 'hono/cors';
+
+${CORS_SETTINGS}
+export const corsMiddleware = cors({
+  origin: origins.includes('*') ? '*' : origins,
+  allowHeaders: allowedHeaders,
+  allowMethods: allowedMethods,
+});
+`,
+        'middleware/auth.ts': `import { createMiddleware } from 'hono/factory';
+import jwt from 'jsonwebtoken';
 
-dotenv.config();
+${VERIFY_TOKEN}
+export type AuthEnv = { Variables: { user: AuthUser } };
 
-${routes.map(r => `import { ${r.routeName}Router } from './routes/${r.routeName}';`).join('\n')}
+export const requireAuth = createMiddleware<AuthEnv>(async (c, next) => {
+  const user = verifyToken(c.req.header('authorization'));
+  if (!user) {
+    return c.json({ error: 'Non autorisé' }, 401);
+  }
+  c.set('user', user);
+  await next();
+});
+`,
+        'middleware/rateLimit.ts': `import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { getConnInfo } from '@hono/node-server/conninfo';
+
+${FIXED_WINDOW}
+// X-Forwarded-For only behind a trusted reverse proxy
+const trustProxy = process.env.TRUST_PROXY === 'true';
+
+const clientKey = (c: Context) =>
+  (trustProxy && c.req.header('x-forwarded-for')?.split(',')[0].trim()) || getConnInfo(c).remote.address || 'unknown';
+
+export const rateLimiter = createMiddleware(async (c, next) => {
+  const { limited, remaining, resetSeconds } = consume(clientKey(c));
+  c.header('RateLimit-Limit', String(limit));
+  c.header('RateLimit-Remaining', String(remaining));
+  c.header('RateLimit-Reset', String(resetSeconds));
+
+  if (limited) {
+    c.header('Retry-After', String(resetSeconds));
+    return c.json({ error: 'Too many requests, please try again later' }, 429);
+  }
+  await next();
+});
+`,
+      };
+
+    case 'fastify':
+      return {
+        'middleware/cors.ts': `import type { FastifyInstance } from 'fastify';
+import cors from '@fastify/cors';
+
+${CORS_SETTINGS}
+export async function registerCors(app: FastifyInstance) {
+  await app.register(cors, {
+    origin: origins.includes('*') ? '*' : origins,
+    allowedHeaders,
+    methods: allowedMethods,
+  });
+}
+`,
+        'middleware/auth.ts': `import type { FastifyReply, FastifyRequest } from 'fastify';
+import jwt from 'jsonwebtoken';
+
+${VERIFY_TOKEN}
+declare module 'fastify' {
+  interface FastifyRequest {
+    user?: AuthUser;
+  }
+}
+
+export async function requireAuth(request: FastifyRequest, reply: FastifyReply) {
+  const user = verifyToken(request.headers.authorization);
+  if (!user) {
+    return reply.code(401).send({ error: 'Non autorisé' });
+  }
+  request.user = user;
+}
+`,
+        'middleware/rateLimit.ts': `import type { FastifyInstance } from 'fastify';
+import rateLimit from '@fastify/rate-limit';
+
+export async function registerRateLimit(app: FastifyInstance) {
+  await app.register(rateLimit, {
+    max: Number(process.env.RATE_LIMIT_MAX) || 100,
+    timeWindow: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000,
+  });
+}
+`,
+      };
+
+    case 'node-http':
+      return {
+        'middleware/cors.ts': `import type { IncomingMessage, ServerResponse } from 'node:http';
+
+${CORS_SETTINGS}
+/**
+ * Sets the CORS headers and answers preflight requests (returns true when handled)
+ */
+export function handleCors(req: IncomingMessage, res: ServerResponse): boolean {
+  const origin = req.headers.origin;
+  if (origins.includes('*')) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+  } else {
+    res.setHeader('Vary', 'Origin');
+    if (origin && origins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+    }
+  }
+
+  if (req.method !== 'OPTIONS') return false;
+
+  res.writeHead(204, {
+    'Access-Control-Allow-Headers': allowedHeaders.join(', '),
+    'Access-Control-Allow-Methods': allowedMethods.join(', '),
+  });
+  res.end();
+  return true;
+}
+`,
+        'middleware/auth.ts': `import jwt from 'jsonwebtoken';
+
+${VERIFY_TOKEN}`,
+        'middleware/rateLimit.ts': `import type { IncomingMessage, ServerResponse } from 'node:http';
+import { clientIp, sendJson } from '../utils/http';
+
+${FIXED_WINDOW}
+/**
+ * Answers 429 when the client is over the limit (returns true when limited)
+ */
+export function applyRateLimit(req: IncomingMessage, res: ServerResponse): boolean {
+  const { limited, remaining, resetSeconds } = consume(clientIp(req));
+  res.setHeader('RateLimit-Limit', String(limit));
+  res.setHeader('RateLimit-Remaining', String(remaining));
+  res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+  if (!limited) return false;
+
+  res.setHeader('Retry-After', String(resetSeconds));
+  sendJson(res, 429, { error: 'Too many requests, please try again later' });
+  return true;
+}
+`,
+        'utils/http.ts': `import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AuthUser } from '../middleware/auth';
+
+export interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  query: URLSearchParams;
+  body: unknown;
+  user: AuthUser | null;
+}
+
+export type HttpHandler = (ctx: RouteContext) => Promise<void>;
+
+export interface HttpRoute {
+  requiresAuth: boolean;
+  handlers: Partial<Record<string, HttpHandler>>;
+}
+
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// X-Forwarded-For only behind a trusted reverse proxy
+const trustProxy = process.env.TRUST_PROXY === 'true';
+
+export function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Payload too large');
+    chunks.push(chunk);
+  }
+  if (size === 0) return {};
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+export function clientIp(req: IncomingMessage): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+}
+`,
+      };
+  }
+}
+
+// ============= ENTRY POINTS =============
+
+const routeImports = (routes: RouteOutput[]) =>
+  routes.map(r => `import { ${r.exportName} } from './routes/${r.routeName}';`).join('\n');
+
+const routeLogs = (routes: RouteOutput[], indent: string) =>
+  routes.map(r => `${indent}console.log('  - ${r.mountPath}');`).join('\n');
+
+function generateExpressIndex(routes: RouteOutput[]): string {
+  return `import 'dotenv/config';
+import express from 'express';
+import helmet from 'helmet';
+import { corsMiddleware } from './middleware/cors';
+import { rateLimiter } from './middleware/rateLimit';
+
+${routeImports(routes)}
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Client IP from X-Forwarded-For only behind a trusted reverse proxy
+app.set('trust proxy', process.env.TRUST_PROXY === 'true');
+
 // Middleware
 app.use(helmet());
-app.use(cors());
+app.use(corsMiddleware);
 app.use(express.json());
 
 // Health check
@@ -217,8 +810,9 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// Routes
-${routes.map(r => `app.use('/api/${r.routeName.replace(/_/g, '-')}', ${r.routeName}Router);`).join('\n')}
+// Routes (auth is wired in each router)
+app.use('/api', rateLimiter);
+${routes.map(r => `app.use('${r.mountPath}', ${r.exportName});`).join('\n')}
 
 // Error handler
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -229,17 +823,202 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 app.listen(PORT, () => {
   console.log(\`🚀 Server running on port \${PORT}\`);
   console.log(\`📝 Available routes:\`);
-${routes.map(r => `  console.log('  - /api/${r.routeName.replace(/_/g, '-')}');`).join('\n')}
+${routeLogs(routes, '  ')}
 });
 
 export default app;
 `;
+}
+
+function generateHonoIndex(routes: RouteOutput[]): string {
+  return `import 'dotenv/config';
+import { serve } from '@hono/node-server';
+import { Hono } from 'hono';
+import { secureHeaders } from 'hono/secure-headers';
+import { corsMiddleware } from './middleware/cors';
+import { rateLimiter } from './middleware/rateLimit';
+
+${routeImports(routes)}
+
+const app = new Hono();
+const PORT = Number(process.env.PORT) || 3000;
+
+// Middleware
+app.use('*', secureHeaders());
+app.use('*', corsMiddleware);
+app.use('/api/*', rateLimiter);
+
+// Health check
+app.get('/health', (c) => c.json({ status: 'ok', timestamp: new Date().toISOString() }));
+
+// Routes (auth is wired in each sub-app)
+${routes.map(r => `app.route('${r.mountPath}', ${r.exportName});`).join('\n')}
+
+// Error handler
+app.onError((err, c) => {
+  console.error(err.stack);
+  return c.json({ error: 'Internal Server Error' }, 500);
+});
+
+serve({ fetch: app.fetch, port: PORT }, () => {
+  console.log(\`🚀 Server running on port \${PORT}\`);
+  console.log(\`📝 Available routes:\`);
+${routeLogs(routes, '  ')}
+});
+
+export default app;
+`;
+}
+
+function generateFastifyIndex(routes: RouteOutput[]): string {
+  return `import 'dotenv/config';
+import Fastify from 'fastify';
+import helmet from '@fastify/helmet';
+import { registerCors } from './middleware/cors';
+import { registerRateLimit } from './middleware/rateLimit';
+
+${routeImports(routes)}
+
+const app = Fastify({
+  logger: true,
+  // Client IP from X-Forwarded-For only behind a trusted reverse proxy
+  trustProxy: process.env.TRUST_PROXY === 'true',
+});
+const PORT = Number(process.env.PORT) || 3000;
+
+async function start() {
+  // Middleware
+  await app.register(helmet);
+  await registerCors(app);
+  await registerRateLimit(app);
+
+  // Health check
+  app.get('/health', { config: { rateLimit: false } }, async () => ({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+  }));
+
+  // Routes (auth is wired in each plugin)
+${routes.map(r => `  await app.register(${r.exportName}, { prefix: '${r.mountPath}' });`).join('\n')}
+
+  await app.listen({ port: PORT, host: '0.0.0.0' });
+  console.log(\`📝 Available routes:\`);
+${routeLogs(routes, '  ')}
+}
+
+start().catch((err) => {
+  app.log.error(err);
+  process.exit(1);
+});
+
+export default app;
+`;
+}
+
+function generateNodeHttpIndex(routes: RouteOutput[]): string {
+  return `import 'dotenv/config';
+import { createServer } from 'node:http';
+import { handleCors } from './middleware/cors';
+import { verifyToken } from './middleware/auth';
+import { applyRateLimit } from './middleware/rateLimit';
+import { HttpError, readJson, sendJson, type HttpRoute } from './utils/http';
+
+${routeImports(routes)}
+
+const PORT = Number(process.env.PORT) || 3000;
+
+const routes: Record<string, HttpRoute> = {
+${routes.map(r => `  '${r.mountPath}': ${r.exportName},`).join('\n')}
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    if (handleCors(req, res)) return;
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/\\/+$/, '') || '/';
+
+    // Health check
+    if (path === '/health') {
+      return sendJson(res, 200, { status: 'ok', timestamp: new Date().toISOString() });
+    }
+
+    if (path.startsWith('/api/') && applyRateLimit(req, res)) return;
+
+    const route = routes[path];
+    if (!route) {
+      return sendJson(res, 404, { error: 'Not Found' });
+    }
+
+    const handler = route.handlers[req.method || 'GET'];
+    if (!handler) {
+      res.setHeader('Allow', Object.keys(route.handlers).join(', '));
+      return sendJson(res, 405, { error: 'Method Not Allowed' });
+    }
+
+    const user = verifyToken(req.headers.authorization);
+    if (route.requiresAuth && !user) {
+      return sendJson(res, 401, { error: 'Non autorisé' });
+    }
+
+    const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : await readJson(req);
+    await handler({ req, res, query: url.searchParams, body, user });
+  } catch (err) {
+    if (res.headersSent) return;
+    if (err instanceof HttpError) {
+      return sendJson(res, err.status, { error: err.message });
+    }
+    console.error(err);
+    sendJson(res, 500, { error: 'Internal Server Error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(\`🚀 Server running on port \${PORT}\`);
+  console.log(\`📝 Available routes:\`);
+${routeLogs(routes, '  ')}
+});
+
+export default server;
+`;
+}
+
+const INDEX_GENERATORS: Record<BackendTarget, (routes: RouteOutput[]) => string> = {
+  'express': generateExpressIndex,
+  'hono': generateHonoIndex,
+  'fastify': generateFastifyIndex,
+  'node-http': generateNodeHttpIndex,
+};
+
+/**
+ * Generate a complete backend service from Edge Functions for the chosen framework
+ */
+export function generateBackend(edgeFunctions: EdgeFunctionInfo[], target: BackendTarget = 'express'): BackendOutput {
+  const routes = edgeFunctions.map(ef => convertEdgeFunction(ef, target));
+  const allDependencies = new Set<string>(TARGET_PACKAGES[target].dependencies);
+  const allEnvVars = new Set<string>();
+
+  for (const ef of edgeFunctions) {
+    ef.envVars.forEach(v => allEnvVars.add(v));
+  }
+  for (const route of routes) {
+    route.dependencies.forEach(d => allDependencies.add(d));
+  }
+  SERVICE_ENV_VARS.forEach(v => allEnvVars.delete(v));
+
+  const dependencies = Object.fromEntries(
+    Array.from(allDependencies).map(dep => [dep, PACKAGE_VERSIONS[dep] || 'latest'])
+  );
+  const devDependencies = Object.fromEntries(
+    [...TARGET_PACKAGES[target].devDependencies, '@types/node', 'tsx', 'typescript']
+      .map(dep => [dep, PACKAGE_VERSIONS[dep]])
+  );
 
   // Generate package.json
   const packageJson = JSON.stringify({
     name: "backend",
     version: "1.0.0",
-    description: "Backend API converted from Edge Functions",
+    description: `Backend API converted from Edge Functions (${target})`,
     main: "dist/index.js",
     scripts: {
       "dev": "tsx watch src/index.ts",
@@ -247,26 +1026,8 @@ export default app;
       "start": "node dist/index.js",
       "typecheck": "tsc --noEmit"
     },
-    dependencies: Object.fromEntries(
-      Array.from(allDependencies).map(dep => {
-        const versions: Record<string, string> = {
-          'express': '^4.18.2',
-          'cors': '^2.8.5',
-          'helmet': '^7.1.0',
-          'dotenv': '^16.3.1',
-          '@supabase/supabase-js': '^2.39.0',
-          'stripe': '^14.10.0',
-        };
-        return [dep, versions[dep] || 'latest'];
-      })
-    ),
-    devDependencies: {
-      "@types/express": "^4.17.21",
-      "@types/cors": "^2.8.17",
-      "@types/node": "^20.10.0",
-      "tsx": "^4.7.0",
-      "typescript": "^5.3.0"
-    },
+    dependencies,
+    devDependencies,
     engines: {
       node: ">=18.0.0"
     }
@@ -297,7 +1058,7 @@ services:
     ports:
       - "3000:3000"
     environment:
-${Array.from(allEnvVars).map(v => `      - ${v}=\${${v}}`).join('\n')}
+${[...SERVICE_ENV_VARS, ...allEnvVars].map(v => `      - ${v}=\${${v}}`).join('\n')}
     restart: unless-stopped
     networks:
       - app-network
@@ -313,12 +1074,23 @@ networks:
 
 PORT=3000
 
+# Middleware: auth (Supabase JWT secret), CORS, rate limiting
+JWT_SECRET=
+CORS_ORIGIN=*
+RATE_LIMIT_WINDOW_MS=60000
+RATE_LIMIT_MAX=100
+TRUST_PROXY=false
+
 ${Array.from(allEnvVars).map(v => `${v}=`).join('\n')}
 `;
 
   return {
+    target,
     routes,
-    indexContent,
+    supportFiles: generateSupportFiles(target),
+    indexContent: INDEX_GENERATORS[target](routes),
+    dependencies,
+    devDependencies,
     packageJson,
     dockerfile,
     dockerCompose,
@@ -326,6 +1098,13 @@ ${Array.from(allEnvVars).map(v => `${v}=`).join('\n')}
   };
 }
 
+/**
+ * Generate complete Express backend from Edge Functions
+ */
+export function generateExpressBackend(edgeFunctions: EdgeFunctionInfo[]): BackendOutput {
+  return generateBackend(edgeFunctions, 'express');
+}
+
 /**
  * Detect Edge Functions from project files
  */
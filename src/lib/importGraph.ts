@@ -0,0 +1,651 @@
+/**
+ * IMPORT GRAPH
+ * ============
+ * Graphe des imports entre les modules d'un projet (chemins relatifs et alias `@/`)
+ *
+ * Utilisé après la suppression des fichiers propriétaires pour:
+ * - supprimer en cascade les modules qui n'étaient atteignables que par eux
+ * - réécrire, supprimer ou remplacer par des stubs les imports devenus orphelins
+ * - rapporter les exports supprimés et pourquoi
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+import type { File, Node } from '@babel/types';
+import { parseSource, removalRange } from './astRefactor';
+import { isIgnoredPath } from './sovereigntyRules';
+
+// ============= TYPES =============
+
+export interface ImportReference {
+  specifier: string;
+  line: number;
+  kind: 'import' | 'export' | 'dynamic' | 'require';
+  typeOnly: boolean;
+}
+
+export interface ResolvedImport extends ImportReference {
+  /** Fichier du projet ciblé, null pour un paquet externe ou un chemin introuvable */
+  resolved: string | null;
+}
+
+export interface ModuleNode {
+  path: string;
+  imports: ResolvedImport[];
+  importedBy: string[];
+  /** false si le fichier n'a pas pu être analysé (imports extraits par regex) */
+  parsed: boolean;
+}
+
+export type ImportGraph = Map<string, ModuleNode>;
+
+export interface RemovedModule {
+  path: string;
+  reason: 'proprietary' | 'unreachable';
+  /** Modules qui l'importaient */
+  importedBy: string[];
+  exports: string[];
+}
+
+export interface DanglingImportFix {
+  file: string;
+  line: number;
+  specifier: string;
+  /** Module supprimé que l'import ciblait */
+  target: string;
+  action: 'removed' | 'stubbed' | 'rewritten';
+  /** Noms locaux concernés */
+  bindings: string[];
+  replacement?: string;
+}
+
+export interface RemovedExport {
+  module: string;
+  name: string;
+  reason: string;
+  /** Fichiers conservés qui utilisaient cet export (remplacé par un stub) */
+  usedBy: string[];
+}
+
+export interface DeadCodeReport {
+  removedModules: RemovedModule[];
+  danglingImports: DanglingImportFix[];
+  removedExports: RemovedExport[];
+}
+
+export interface CascadeResult extends DeadCodeReport {
+  /** Fichiers conservés, imports orphelins corrigés */
+  files: Record<string, string>;
+}
+
+export interface CascadeOptions {
+  /** Spécifieur d'un module supprimé → module de remplacement (utilisé s'il existe dans le projet) */
+  replacements?: Record<string, string>;
+  /** Modules jamais supprimés en cascade (polyfills générés, points d'entrée) */
+  keep?: string[];
+}
+
+interface Binding {
+  local: string;
+  imported: string;
+  typeOnly: boolean;
+}
+
+interface ImportSite extends ImportReference {
+  start: number;
+  end: number;
+  /** Position du littéral du spécifieur, guillemets compris */
+  sourceStart: number;
+  sourceEnd: number;
+  bindings: Binding[];
+}
+
+// ============= CONSTANTES =============
+
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+const RESOLVE_EXTENSIONS = [...CODE_EXTENSIONS, '.json', '.css', '.scss'];
+
+// Les autres fichiers (json, html, assets) ne sont jamais supprimés en cascade
+const CASCADABLE_EXTENSIONS = [...CODE_EXTENSIONS, '.css', '.scss', '.sass', '.less'];
+
+/**
+ * Modules de remplacement des intégrations générées (mêmes cibles que l'ASTRefactor)
+ */
+export const DEFAULT_IMPORT_REPLACEMENTS: Record<string, string> = {
+  '@/integrations/supabase/client': '@/lib/supabase',
+  '@/integrations/supabase/types': '@/types/database',
+};
+
+const FALLBACK_IMPORT_REGEX =
+  /\b(?:import|export)\s+(?:type\s+)?(?:\{[^}]*\}|[^'"{}();]+)\s+from\s+['"]([^'"]+)['"]|\bimport\s+['"]([^'"]+)['"]|\b(import|require)\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+const hasExtension = (path: string, extensions: string[]) =>
+  extensions.some(ext => path.toLowerCase().endsWith(ext));
+
+const lineAt = (content: string, offset: number) => content.slice(0, offset).split('\n').length;
+
+// ============= RÉSOLUTION =============
+
+function joinPath(fromDir: string, relativePath: string): string {
+  const parts = fromDir.split('/').filter(Boolean);
+
+  for (const part of relativePath.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+
+  return parts.join('/');
+}
+
+/**
+ * Résout un spécifieur vers un fichier du projet (`@/` → `src/`), null pour un paquet externe
+ */
+export function resolveImport(specifier: string, fromFile: string, files: Record<string, string>): string | null {
+  const path = specifier.split('?')[0];
+  let base: string;
+
+  if (path.startsWith('@/')) {
+    base = `src/${path.slice(2)}`;
+  } else if (path === '.' || path === '..' || path.startsWith('./') || path.startsWith('../')) {
+    base = joinPath(fromFile.split('/').slice(0, -1).join('/'), path);
+  } else {
+    return null;
+  }
+
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map(ext => base + ext),
+    ...RESOLVE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+  ];
+
+  // Imports ESM './module.js' qui ciblent un fichier TypeScript
+  const stem = base.replace(/\.(js|jsx|mjs|cjs)$/, '');
+  if (stem !== base) {
+    candidates.push(...CODE_EXTENSIONS.map(ext => stem + ext));
+  }
+
+  return candidates.find(candidate => files[candidate] !== undefined) ?? null;
+}
+
+// ============= ANALYSE =============
+
+function walk(node: Node, enter: (node: Node, parent: Node | null) => boolean | void, parent: Node | null = null): void {
+  if (enter(node, parent) === false) return;
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'loc' || key.endsWith('Comments') || !value || typeof value !== 'object') continue;
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (child && typeof child.type === 'string') walk(child, enter, node);
+    }
+  }
+}
+
+const nameOf = (node: Node): string =>
+  node.type === 'Identifier' ? node.name : node.type === 'StringLiteral' ? node.value : '';
+
+function collectImportSites(ast: File, content: string): ImportSite[] {
+  const sites: ImportSite[] = [];
+
+  const push = (node: Node, source: Node, kind: ImportSite['kind'], bindings: Binding[], typeOnly: boolean) => {
+    if (source.type !== 'StringLiteral') return;
+    sites.push({
+      specifier: source.value,
+      line: lineAt(content, node.start ?? 0),
+      kind,
+      typeOnly,
+      start: node.start ?? 0,
+      end: node.end ?? 0,
+      sourceStart: source.start ?? 0,
+      sourceEnd: source.end ?? 0,
+      bindings,
+    });
+  };
+
+  walk(ast.program, node => {
+    switch (node.type) {
+      case 'ImportDeclaration': {
+        const declarationTypeOnly = node.importKind === 'type';
+        const bindings = node.specifiers.map(specifier => ({
+          local: specifier.local.name,
+          imported: specifier.type === 'ImportDefaultSpecifier'
+            ? 'default'
+            : specifier.type === 'ImportNamespaceSpecifier' ? '*' : nameOf(specifier.imported),
+          typeOnly: declarationTypeOnly || (specifier.type === 'ImportSpecifier' && specifier.importKind === 'type'),
+        }));
+        push(node, node.source, 'import', bindings, declarationTypeOnly || (bindings.length > 0 && bindings.every(b => b.typeOnly)));
+        return false;
+      }
+      case 'ExportNamedDeclaration':
+        if (node.source) {
+          const bindings = node.specifiers.map(specifier => ({
+            local: nameOf(specifier.exported),
+            imported: specifier.type === 'ExportSpecifier' ? nameOf(specifier.local) : '*',
+            typeOnly: node.exportKind === 'type',
+          }));
+          push(node, node.source, 'export', bindings, node.exportKind === 'type');
+          return false;
+        }
+        break;
+      case 'ExportAllDeclaration':
+        push(node, node.source, 'export', [], node.exportKind === 'type');
+        return false;
+      case 'CallExpression':
+        if (node.arguments[0]?.type === 'StringLiteral') {
+          if (node.callee.type === 'Import') {
+            push(node, node.arguments[0], 'dynamic', [], false);
+          } else if (node.callee.type === 'Identifier' && node.callee.name === 'require') {
+            push(node, node.arguments[0], 'require', [], false);
+          }
+        }
+        break;
+      case 'ImportExpression':
+        push(node, node.source, 'dynamic', [], false);
+        break;
+    }
+  });
+
+  return sites;
+}
+
+function fallbackImports(content: string): ImportReference[] {
+  const references: ImportReference[] = [];
+
+  for (const match of content.matchAll(FALLBACK_IMPORT_REGEX)) {
+    const specifier = match[1] || match[2] || match[4];
+    references.push({
+      specifier,
+      line: lineAt(content, match.index ?? 0),
+      kind: match[3] === 'require' ? 'require' : match[3] ? 'dynamic' : match[0].startsWith('export') ? 'export' : 'import',
+      typeOnly: /^(?:import|export)\s+type\s/.test(match[0]),
+    });
+  }
+
+  return references;
+}
+
+function readImports(content: string, filePath: string): { parsed: boolean; references: ImportReference[] } {
+  const parsed = parseSource(content, filePath);
+  if ('error' in parsed) {
+    return { parsed: false, references: fallbackImports(content) };
+  }
+
+  return {
+    parsed: true,
+    references: collectImportSites(parsed.ast, content).map(({ specifier, line, kind, typeOnly }) => ({ specifier, line, kind, typeOnly })),
+  };
+}
+
+/**
+ * Liste les imports d'un fichier (déclarations, ré-exports, import() dynamiques, require)
+ */
+export function extractImports(content: string, filePath: string): ImportReference[] {
+  return readImports(content, filePath).references;
+}
+
+function bindingNames(node: Node | null | undefined): string[] {
+  if (!node) return [];
+
+  switch (node.type) {
+    case 'Identifier':
+      return [node.name];
+    case 'ObjectPattern':
+      return node.properties.flatMap(property =>
+        property.type === 'RestElement' ? bindingNames(property.argument) : bindingNames(property.value)
+      );
+    case 'ArrayPattern':
+      return node.elements.flatMap(element => bindingNames(element));
+    case 'AssignmentPattern':
+      return bindingNames(node.left);
+    case 'RestElement':
+      return bindingNames(node.argument);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Noms exportés par un module (`default` pour l'export par défaut)
+ */
+export function listExports(content: string, filePath: string): string[] {
+  const parsed = parseSource(content, filePath);
+  if ('error' in parsed) return [];
+
+  const names: string[] = [];
+  for (const statement of parsed.ast.program.body) {
+    if (statement.type === 'ExportDefaultDeclaration') {
+      names.push('default');
+    } else if (statement.type === 'ExportAllDeclaration') {
+      names.push(`* from '${statement.source.value}'`);
+    } else if (statement.type === 'ExportNamedDeclaration') {
+      const declaration = statement.declaration;
+      if (declaration?.type === 'VariableDeclaration') {
+        names.push(...declaration.declarations.flatMap(declarator => bindingNames(declarator.id)));
+      } else if (declaration && 'id' in declaration && declaration.id) {
+        names.push(nameOf(declaration.id));
+      }
+      names.push(...statement.specifiers.map(specifier => nameOf(specifier.exported)));
+    }
+  }
+
+  return names.filter(Boolean);
+}
+
+/**
+ * Identifiants référencés hors des déclarations d'import (valeurs et positions de type)
+ */
+function collectReferences(ast: File): { values: Set<string>; types: Set<string> } {
+  const values = new Set<string>();
+  const types = new Set<string>();
+
+  walk(ast.program, (node, parent) => {
+    if (node.type === 'ImportDeclaration') return false;
+
+    if (node.type === 'Identifier' && parent) {
+      if ((parent.type === 'MemberExpression' || parent.type === 'OptionalMemberExpression') && parent.property === node && !parent.computed) return;
+      if (parent.type === 'ObjectProperty' && parent.key === node && !parent.computed && !parent.shorthand) return;
+
+      if (parent.type === 'TSTypeReference' || parent.type === 'TSQualifiedName' || parent.type === 'TSExpressionWithTypeArguments') {
+        types.add(node.name);
+      } else {
+        values.add(node.name);
+      }
+    }
+
+    if (node.type === 'JSXIdentifier' && parent && parent.type !== 'JSXAttribute' &&
+        !(parent.type === 'JSXMemberExpression' && parent.property === node)) {
+      values.add(node.name);
+    }
+  });
+
+  return { values, types };
+}
+
+// ============= GRAPHE =============
+
+/**
+ * Construit le graphe des imports des fichiers de code du projet
+ */
+export function buildImportGraph(files: Record<string, string>): ImportGraph {
+  const graph: ImportGraph = new Map();
+
+  const nodeFor = (path: string): ModuleNode => {
+    let node = graph.get(path);
+    if (!node) {
+      node = { path, imports: [], importedBy: [], parsed: true };
+      graph.set(path, node);
+    }
+    return node;
+  };
+
+  for (const [path, content] of Object.entries(files)) {
+    if (isIgnoredPath(path)) continue;
+
+    const node = nodeFor(path);
+    if (!hasExtension(path, CODE_EXTENSIONS)) continue;
+
+    const { parsed, references } = readImports(content, path);
+    node.parsed = parsed;
+
+    for (const reference of references) {
+      const resolved = resolveImport(reference.specifier, path, files);
+      node.imports.push({ ...reference, resolved });
+
+      if (resolved && resolved !== path) {
+        const target = nodeFor(resolved);
+        if (!target.importedBy.includes(path)) target.importedBy.push(path);
+      }
+    }
+  }
+
+  return graph;
+}
+
+// ============= CASCADE =============
+
+function removalReason(module: RemovedModule): string {
+  return module.reason === 'proprietary'
+    ? 'Fichier propriétaire supprimé'
+    : `Module mort: importé uniquement par ${module.importedBy.join(', ')}`;
+}
+
+/**
+ * Corrige les imports d'un fichier conservé qui ciblent des modules supprimés
+ */
+function fixDanglingImports(
+  path: string,
+  content: string,
+  files: Record<string, string>,
+  dead: Map<string, RemovedModule>,
+  replacements: Record<string, string>,
+  usage: Map<string, Set<string>>
+): { content: string; fixes: DanglingImportFix[]; removedExports: RemovedExport[] } {
+  const parsed = parseSource(content, path);
+  if ('error' in parsed) return { content, fixes: [], removedExports: [] };
+
+  const { values, types } = collectReferences(parsed.ast);
+  const isTypeScript = hasExtension(path, ['.ts', '.tsx', '.mts', '.cts']);
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const fixes: DanglingImportFix[] = [];
+  const removedExports: RemovedExport[] = [];
+
+  for (const site of collectImportSites(parsed.ast, content)) {
+    const target = resolveImport(site.specifier, path, files);
+    const module = target ? dead.get(target) : undefined;
+    if (!target || !module) continue;
+
+    const fix = { file: path, line: site.line, specifier: site.specifier, target };
+    const removeStatement = () => {
+      const [start, end] = removalRange(content, site.start, site.end);
+      edits.push({ start, end, text: '' });
+    };
+
+    // 1. Module de remplacement disponible
+    const replacement = replacements[site.specifier];
+    const replacementTarget = replacement ? resolveImport(replacement, path, files) : null;
+    if (replacement && replacementTarget && !dead.has(replacementTarget)) {
+      edits.push({ start: site.sourceStart + 1, end: site.sourceEnd - 1, text: replacement });
+      fixes.push({ ...fix, action: 'rewritten', bindings: site.bindings.map(b => b.local), replacement });
+      continue;
+    }
+
+    // 2. import() dynamique et require
+    if (site.kind === 'dynamic' || site.kind === 'require') {
+      const text = site.kind === 'dynamic'
+        ? `Promise.reject(new Error(${JSON.stringify(`Module supprimé: ${site.specifier}`)}))`
+        : '({})';
+      edits.push({ start: site.start, end: site.end, text });
+      fixes.push({ ...fix, action: 'stubbed', bindings: [] });
+      usage.set(`${target}#*`, (usage.get(`${target}#*`) || new Set()).add(path));
+      continue;
+    }
+
+    // 3. Les ré-exports disparaissent avec le module
+    if (site.kind === 'export') {
+      removeStatement();
+      fixes.push({ ...fix, action: 'removed', bindings: site.bindings.map(b => b.local) });
+      const names = site.bindings.length > 0 ? site.bindings.map(b => b.local) : [`* from '${site.specifier}'`];
+      for (const name of names) {
+        removedExports.push({ module: path, name, reason: `Ré-export de ${target} (${removalReason(module).toLowerCase()})`, usedBy: [] });
+      }
+      continue;
+    }
+
+    // 4. Imports: les liaisons inutilisées sont retirées, les autres remplacées par des stubs
+    const used = site.bindings.filter(b => values.has(b.local) || types.has(b.local));
+    if (used.length === 0) {
+      removeStatement();
+      fixes.push({ ...fix, action: 'removed', bindings: site.bindings.map(b => b.local) });
+      continue;
+    }
+
+    const lines = [`// [STUB] '${site.specifier}' supprimé (${removalReason(module).toLowerCase()}) - à réimplémenter`];
+    for (const binding of used) {
+      const value = binding.imported === '*' ? '{}' : 'undefined';
+      if (!isTypeScript) {
+        lines.push(`const ${binding.local} = ${value};`);
+        continue;
+      }
+      if (!binding.typeOnly) lines.push(`const ${binding.local}: any = ${value};`);
+      if (binding.typeOnly || types.has(binding.local)) lines.push(`type ${binding.local} = any;`);
+    }
+    edits.push({ start: site.start, end: site.end, text: lines.join('\n') });
+    fixes.push({ ...fix, action: 'stubbed', bindings: used.map(b => b.local) });
+
+    for (const binding of used) {
+      const key = `${target}#${binding.imported}`;
+      usage.set(key, (usage.get(key) || new Set()).add(path));
+    }
+  }
+
+  let output = content;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    output = output.slice(0, edit.start) + edit.text + output.slice(edit.end);
+  }
+
+  // Ne jamais produire un fichier non analysable: le validateur signalera l'import
+  if ('error' in parseSource(output, path)) {
+    return { content, fixes: [], removedExports: [] };
+  }
+
+  return { content: output, fixes, removedExports };
+}
+
+/**
+ * Supprime les fichiers `removed`, puis en cascade les modules qui n'étaient
+ * atteignables que par eux, et corrige les imports orphelins des fichiers conservés.
+ *
+ * Les points d'entrée sont les modules que personne n'importe (main.tsx, configs,
+ * tests): tout ce qu'ils atteignent sans passer par un fichier supprimé est conservé.
+ */
+export function cascadeRemovals(
+  files: Record<string, string>,
+  removed: Iterable<string>,
+  options: CascadeOptions = {}
+): CascadeResult {
+  const replacements = { ...DEFAULT_IMPORT_REPLACEMENTS, ...options.replacements };
+  const keep = new Set(options.keep || []);
+  const removedPaths = Array.from(new Set(removed)).filter(path => files[path] !== undefined);
+  const removedSet = new Set(removedPaths);
+  const graph = buildImportGraph(files);
+
+  // Modules vivants: atteignables depuis un point d'entrée sans traverser de fichier supprimé
+  const live = new Set<string>();
+  const queue = Array.from(graph.values())
+    .filter(node => !removedSet.has(node.path) && (node.importedBy.length === 0 || keep.has(node.path)))
+    .map(node => node.path);
+
+  while (queue.length > 0) {
+    const path = queue.pop() as string;
+    if (live.has(path)) continue;
+    live.add(path);
+
+    for (const reference of graph.get(path)?.imports || []) {
+      if (reference.resolved && !removedSet.has(reference.resolved) && !live.has(reference.resolved)) {
+        queue.push(reference.resolved);
+      }
+    }
+  }
+
+  // Modules morts: atteignables depuis les fichiers supprimés mais plus depuis un point d'entrée
+  const dead = new Map<string, RemovedModule>();
+  const describe = (path: string, reason: RemovedModule['reason']): RemovedModule => ({
+    path,
+    reason,
+    importedBy: graph.get(path)?.importedBy || [],
+    exports: hasExtension(path, CODE_EXTENSIONS) ? listExports(files[path], path) : [],
+  });
+
+  for (const path of removedPaths) {
+    dead.set(path, describe(path, 'proprietary'));
+  }
+
+  const pending = [...removedPaths];
+  while (pending.length > 0) {
+    const path = pending.shift() as string;
+
+    for (const reference of graph.get(path)?.imports || []) {
+      const target = reference.resolved;
+      if (!target || dead.has(target) || live.has(target) || !hasExtension(target, CASCADABLE_EXTENSIONS)) continue;
+
+      dead.set(target, describe(target, 'unreachable'));
+      pending.push(target);
+    }
+  }
+
+  // Imports orphelins des fichiers conservés
+  const output: Record<string, string> = {};
+  const danglingImports: DanglingImportFix[] = [];
+  const reexports: RemovedExport[] = [];
+  const usage = new Map<string, Set<string>>();
+
+  for (const [path, content] of Object.entries(files)) {
+    if (dead.has(path)) continue;
+
+    const node = graph.get(path);
+    if (!node?.imports.some(reference => reference.resolved && dead.has(reference.resolved))) {
+      output[path] = content;
+      continue;
+    }
+
+    const fixed = fixDanglingImports(path, content, files, dead, replacements, usage);
+    output[path] = fixed.content;
+    danglingImports.push(...fixed.fixes);
+    reexports.push(...fixed.removedExports);
+  }
+
+  const removedModules = Array.from(dead.values());
+  const removedExports: RemovedExport[] = removedModules.flatMap(module =>
+    module.exports.map(name => ({
+      module: module.path,
+      name,
+      reason: removalReason(module),
+      usedBy: Array.from(new Set([
+        ...(usage.get(`${module.path}#${name}`) || []),
+        ...(usage.get(`${module.path}#*`) || []),
+      ])),
+    }))
+  );
+
+  return {
+    files: output,
+    removedModules,
+    danglingImports,
+    removedExports: [...removedExports, ...reexports],
+  };
+}
+
+// ============= RAPPORT =============
+
+/**
+ * Formate le rapport de code mort
+ */
+export function formatDeadCodeReport(report: DeadCodeReport): string {
+  const cascaded = report.removedModules.filter(m => m.reason === 'unreachable');
+  const lines: string[] = [
+    `🧹 Modules supprimés: ${report.removedModules.length} (dont ${cascaded.length} en cascade)`,
+  ];
+
+  for (const module of cascaded) {
+    lines.push(`   🗑️  ${module.path} - importé uniquement par ${module.importedBy.join(', ')}`);
+  }
+
+  if (report.danglingImports.length > 0) {
+    lines.push(`🔗 Imports orphelins corrigés: ${report.danglingImports.length}`);
+    for (const fix of report.danglingImports) {
+      const detail = fix.action === 'rewritten'
+        ? `→ '${fix.replacement}'`
+        : fix.action === 'stubbed' ? `→ stub (${fix.bindings.join(', ') || 'expression'})` : 'supprimé';
+      lines.push(`   ${fix.file}:${fix.line} '${fix.specifier}' ${detail}`);
+    }
+  }
+
+  if (report.removedExports.length > 0) {
+    lines.push(`📤 Exports supprimés: ${report.removedExports.length}`);
+    for (const removedExport of report.removedExports) {
+      const usedBy = removedExport.usedBy.length > 0 ? ` ⚠️ utilisé par ${removedExport.usedBy.join(', ')}` : '';
+      lines.push(`   ${removedExport.module}#${removedExport.name} - ${removedExport.reason}${usedBy}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,268 @@
+/**
+ * LIBERATION PROGRESS STREAM
+ * ==========================
+ * Suivi en direct d'un job de libération par Server-Sent Events
+ *
+ * - Flux du backend Express (GET /api/liberate/stream/:id) ou de la
+ *   fonction edge audit (Accept: text/event-stream), même format
+ * - Reprise sans perte via Last-Event-ID après une coupure
+ * - fetch plutôt qu'EventSource : l'en-tête Authorization est requis
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+import type { LiberationProgress } from './unifiedLiberator';
+
+// ============= TYPES =============
+
+export type LiberationEventType =
+  | 'queued'
+  | 'started'
+  | 'progress'
+  | 'retry'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'expired';
+
+export interface LiberationProgressEvent extends LiberationProgress {
+  /** Id SSE, renvoyé dans Last-Event-ID à la reconnexion */
+  id: string;
+  jobId: string;
+  type: LiberationEventType;
+  /** Statut du job (liberation_jobs.status) */
+  status: string;
+  /** Étape du pipeline de déploiement (github, build, deploy) */
+  step?: string;
+}
+
+export interface SSEMessage {
+  /** Dernier id reçu sur le flux (persiste d'un événement à l'autre) */
+  id?: string;
+  event: string;
+  data: string;
+}
+
+export interface SSEParser {
+  push(chunk: string): void;
+}
+
+export type LiberationStreamEnd = 'finished' | 'closed' | 'error';
+
+export interface LiberationStreamOptions {
+  url: string;
+  headers?: Record<string, string>;
+  /** Reprend après cet événement déjà reçu */
+  lastEventId?: string;
+  onEvent: (event: LiberationProgressEvent) => void;
+  /** Appelé une seule fois : événement terminal, close() ou abandon */
+  onEnd?: (reason: LiberationStreamEnd, error?: Error) => void;
+  /** Reconnexions consécutives sans nouvel événement avant abandon */
+  maxReconnects?: number;
+  reconnectDelayMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface LiberationStream {
+  close(): void;
+  /** Id du dernier événement reçu */
+  readonly lastEventId: string | undefined;
+  /** Résolue quand le flux est terminé */
+  readonly done: Promise<void>;
+}
+
+// ============= CONSTANTS =============
+
+const TERMINAL_EVENTS: LiberationEventType[] = ['completed', 'failed', 'cancelled'];
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// ============= PARSER =============
+
+/**
+ * Parser SSE incrémental (format WHATWG) : les morceaux peuvent être coupés
+ * n'importe où, y compris entre \r et \n. Un événement incomplet en fin de
+ * flux est ignoré
+ */
+export function createSSEParser(
+  onMessage: (message: SSEMessage) => void,
+  onRetry?: (delayMs: number) => void
+): SSEParser {
+  let buffer = '';
+  let data: string[] = [];
+  let event = '';
+  let lastId: string | undefined;
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      if (data.length > 0) {
+        onMessage({ id: lastId, event: event || 'message', data: data.join('\n') });
+      }
+      data = [];
+      event = '';
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'data') data.push(value);
+    else if (field === 'event') event = value;
+    else if (field === 'id' && !value.includes('\0')) lastId = value;
+    else if (field === 'retry' && /^\d+$/.test(value)) onRetry?.(Number(value));
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      const newline = /\r\n|\r|\n/g;
+      let start = 0;
+      let match: RegExpExecArray | null;
+
+      while ((match = newline.exec(buffer))) {
+        // Un \r final peut être la première moitié d'un \r\n
+        if (match[0] === '\r' && match.index === buffer.length - 1) break;
+        processLine(buffer.slice(start, match.index));
+        start = match.index + match[0].length;
+      }
+      buffer = buffer.slice(start);
+    },
+  };
+}
+
+function toProgressEvent(message: SSEMessage): LiberationProgressEvent | null {
+  try {
+    const payload = JSON.parse(message.data) as Partial<LiberationProgressEvent>;
+    return {
+      ...payload,
+      id: message.id ?? '',
+      jobId: payload.jobId ?? '',
+      type: payload.type ?? (message.event as LiberationEventType),
+      status: payload.status ?? '',
+      phase: payload.phase ?? 'scan',
+      progress: payload.progress ?? 0,
+      message: payload.message ?? '',
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ============= STREAM =============
+
+/**
+ * Ouvre le flux de progression d'un job et s'y reconnecte (Last-Event-ID)
+ * jusqu'à un événement terminal (completed, failed, cancelled)
+ */
+export function streamLiberationProgress(options: LiberationStreamOptions): LiberationStream {
+  const fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  const maxReconnects = options.maxReconnects ?? 5;
+  const controller = new AbortController();
+  let lastEventId = options.lastEventId;
+  let retryDelay = options.reconnectDelayMs ?? 1000;
+  let ended = false;
+
+  const end = (reason: LiberationStreamEnd, error?: Error) => {
+    if (ended) return;
+    ended = true;
+    options.onEnd?.(reason, error);
+  };
+
+  const wait = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    controller.signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+  // Lit une connexion ; true si un événement terminal a été reçu
+  const readOnce = async (onReceived: () => void): Promise<boolean> => {
+    const response = await fetchImpl(options.url, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...options.headers,
+        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+      },
+      cache: 'no-store',
+      signal: controller.signal,
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw Object.assign(new Error(`Accès au flux de progression refusé (HTTP ${response.status})`), { fatal: true });
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Flux de progression indisponible (HTTP ${response.status})`);
+    }
+
+    let finished = false;
+    const parser = createSSEParser(
+      message => {
+        if (message.id) lastEventId = message.id;
+        const event = toProgressEvent(message);
+        if (!event || finished) return;
+
+        onReceived();
+        options.onEvent(event);
+        if (TERMINAL_EVENTS.includes(event.type)) finished = true;
+      },
+      delayMs => { retryDelay = delayMs; }
+    );
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    while (!finished) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+    if (finished) await reader.cancel().catch(() => undefined);
+    return finished;
+  };
+
+  const run = async () => {
+    let failures = 0;
+    let lastError: Error | undefined;
+
+    while (!ended) {
+      let received = false;
+      try {
+        if (await readOnce(() => { received = true; })) {
+          end('finished');
+          return;
+        }
+      } catch (error) {
+        if (ended) return;
+        lastError = error instanceof Error ? error : new Error(String(error));
+        if ((error as { fatal?: boolean }).fatal) {
+          end('error', lastError);
+          return;
+        }
+      }
+
+      // Le serveur a fermé (limite de durée, redéploiement) : reprise après le dernier id
+      failures = received ? 0 : failures + 1;
+      if (failures > maxReconnects) {
+        end('error', lastError ?? new Error('Flux de progression interrompu'));
+        return;
+      }
+      await wait(Math.min(retryDelay * 2 ** Math.max(0, failures - 1), MAX_RECONNECT_DELAY_MS));
+    }
+  };
+
+  const done = run();
+
+  return {
+    close() {
+      end('closed');
+      controller.abort();
+    },
+    get lastEventId() {
+      return lastEventId;
+    },
+    done,
+  };
+}
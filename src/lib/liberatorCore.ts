@@ -7,6 +7,8 @@
  * © 2024 Inovaq Canada Inc.
  */
 
+import { detectPlatforms, DETECTION_THRESHOLD, type PlatformDetection } from './platformPlugins';
+
 // ============= Types =============
 
 export interface LiberationOptions {
@@ -28,6 +30,7 @@ export interface ScanResult {
   suspiciousPackages: string[];
   exposedSecrets: Array<{ file: string; type: string; line: number }>;
   platformDetected: string;
+  platforms: PlatformDetection[];
 }
 
 export interface AuditIssue {
@@ -189,15 +192,14 @@ export class LiberatorEngine {
       suspiciousPackages: [],
       exposedSecrets: [],
       platformDetected: 'unknown',
+      platforms: [],
     };
 
-    // Détection de la plateforme
-    if (files['lovable.config.json'] || files['.lovable']) {
-      result.platformDetected = 'lovable';
-    } else if (files['.bolt'] || files['bolt.config.json']) {
-      result.platformDetected = 'bolt';
-    } else if (files['.cursor'] || files['cursor.config.json']) {
-      result.platformDetected = 'cursor';
+    // Détection de la plateforme (heuristiques des plugins)
+    result.platforms = detectPlatforms(files);
+    const best = result.platforms[0];
+    if (best && best.confidence >= DETECTION_THRESHOLD) {
+      result.platformDetected = best.platform;
     }
 
     for (const [path, content] of Object.entries(files)) {
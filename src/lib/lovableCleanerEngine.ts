@@ -8,12 +8,21 @@
  * - Suppression des importations propriétaires
  * - Remplacement des patterns Lovable
  * - Correction des dépendances
+ * - Suppression en cascade du code mort (graphe d'imports)
+ * - Règles propres à chaque plateforme source via les plugins (Lovable, Bolt, v0...)
  * - Propositions de réécritures autonomes
  * 
  * © 2024 Inovaq Canada Inc.
  */
 
 import type { ScanResult, ScanIssue } from './lovablePatternScanner';
+import { cascadeRemovals, formatDeadCodeReport, type DeadCodeReport } from './importGraph';
+import {
+  getPlatformPlugins,
+  type ImportReplacement,
+  type PatternReplacement,
+  type PlatformPlugin,
+} from './platformPlugins';
 
 // ============= TYPES =============
 
@@ -23,7 +32,12 @@ export interface CleaningOptions {
   fixDependencies: boolean;
   generatePolyfills: boolean;
   preserveComments: boolean;
+  removeDeadCode: boolean;
   dryRun: boolean;
+  /** Plugins des plateformes sources à appliquer (tous par défaut) */
+  platforms: PlatformPlugin[];
+  /** Nom du projet, utilisé pour renommer les package.json de template */
+  projectName?: string;
 }
 
 export interface FileCleaningResult {
@@ -63,6 +77,7 @@ export interface CleaningReport {
   results: Map<string, FileCleaningResult>;
   cleanedFiles: Record<string, string>;
   packageJsonPatches: PackageJsonPatch[];
+  deadCode: DeadCodeReport;
   summary: CleaningSummary;
 }
 
@@ -84,41 +99,13 @@ export interface PackageJsonPatch {
 }
 
 // ============= REPLACEMENT MAPS =============
+// Remplacements communs à toutes les plateformes; les remplacements propres
+// à chaque plateforme (Lovable, Bolt, v0...) viennent des plugins (platformPlugins.ts)
 
 /**
- * Map des imports Lovable -> alternatives souveraines
+ * Map des imports IA cloud -> alternatives souveraines
  */
-const IMPORT_REPLACEMENTS: Record<string, { replacement: string; description: string }> = {
-  // Lovable imports
-  '@lovable/core': { 
-    replacement: '', 
-    description: 'Supprimer - fonctionnalité non nécessaire' 
-  },
-  '@lovable/ui': { 
-    replacement: '@radix-ui/react-*', 
-    description: 'Utiliser Radix UI directement' 
-  },
-  'lovable-tagger': { 
-    replacement: '', 
-    description: 'Supprimer - outil de debug Lovable' 
-  },
-  
-  // Supabase integrations (auto-generated by Lovable)
-  '@/integrations/supabase/client': { 
-    replacement: '@supabase/supabase-js', 
-    description: 'Import direct Supabase' 
-  },
-  '@/integrations/supabase/types': { 
-    replacement: './types/database.ts', 
-    description: 'Types locaux générés' 
-  },
-  
-  // Agent imports
-  '@agent/': { 
-    replacement: '', 
-    description: 'Supprimer - agent Lovable' 
-  },
-  
+const IMPORT_REPLACEMENTS: Record<string, ImportReplacement> = {
   // AI SDK replacements
   '@anthropic-ai/sdk': { 
     replacement: '@/lib/unifiedLLM', 
@@ -131,124 +118,21 @@ const IMPORT_REPLACEMENTS: Record<string, { replacement: string; description: st
 };
 
 /**
- * Map des patterns Lovable -> code souverain
+ * Map des patterns cloud -> code souverain
  */
-const PATTERN_REPLACEMENTS: Array<{
-  pattern: RegExp;
-  replacement: string | ((match: string, ...groups: string[]) => string);
-  description: string;
-}> = [
-  // lovable.generate -> UnifiedLLM
-  {
-    pattern: /lovable\.generate\s*\(\s*(['"`])([^'"`]+)\1\s*\)/g,
-    replacement: (_, quote, prompt) => `unifiedLLM.complete(${quote}${prompt}${quote})`,
-    description: 'Remplacement par UnifiedLLM.complete()'
-  },
-  
-  // lovableApi calls
-  {
-    pattern: /lovableApi\.(chat|complete|generate)\s*\(/g,
-    replacement: 'unifiedLLM.$1(',
-    description: 'Remplacement par UnifiedLLM'
-  },
-  
-  // getAIAssistant
-  {
-    pattern: /getAIAssistant\s*\(\s*\)/g,
-    replacement: 'new UnifiedLLM({ provider: "ollama" })',
-    description: 'Remplacement par instance UnifiedLLM'
-  },
-  
-  // runAssistant
-  {
-    pattern: /runAssistant\s*\(\s*([^)]+)\s*\)/g,
-    replacement: 'await unifiedLLM.chat($1)',
-    description: 'Remplacement par UnifiedLLM.chat()'
-  },
-  
-  // EventSchema usage
-  {
-    pattern: /EventSchema\.(\w+)/g,
-    replacement: (_, schemaName) => `z.object({ /* ${schemaName} schema */ })`,
-    description: 'Remplacement par schéma Zod local'
-  },
-  
-  // Pattern.* usage  
-  {
-    pattern: /Pattern\.(\w+)/g,
-    replacement: (_, patternName) => `PATTERNS.${patternName}`,
-    description: 'Remplacement par patterns locaux'
-  },
-  
-  // Data attributes Lovable
-  {
-    pattern: /\s*data-lov-[a-z-]+="[^"]*"/g,
-    replacement: '',
-    description: 'Suppression attributs Lovable'
-  },
-  
-  // Lovable comments
-  {
-    pattern: /\/\/\s*@lovable[^\n]*/g,
-    replacement: '',
-    description: 'Suppression commentaires Lovable'
-  },
-  {
-    pattern: /\/\/\s*Generated by Lovable[^\n]*/gi,
-    replacement: '',
-    description: 'Suppression commentaires génération'
-  },
-  
+const PATTERN_REPLACEMENTS: PatternReplacement[] = [
   // Supabase project URLs (hardcoded)
   {
     pattern: /https:\/\/[a-z]{20}\.supabase\.co/g,
     replacement: 'process.env.SUPABASE_URL',
     description: 'Remplacement par variable d\'environnement'
   },
-  
-  // Telemetry fetch calls
-  {
-    pattern: /fetch\s*\(\s*['"][^'"]*lovable[^'"]*['"]\s*[,)]/gi,
-    replacement: '/* Telemetry removed */',
-    description: 'Suppression appel télémétrie'
-  },
-  
-  // Navigator beacon
-  {
-    pattern: /navigator\.sendBeacon\s*\([^)]*lovable[^)]*\)\s*;?/gi,
-    replacement: '/* Beacon removed */',
-    description: 'Suppression beacon télémétrie'
-  },
-  
-  // Environment variables
-  {
-    pattern: /VITE_LOVABLE_[A-Z_]+/g,
-    replacement: 'VITE_APP_CONFIG',
-    description: 'Remplacement variable Lovable'
-  },
 ];
 
 /**
  * Map des dépendances -> alternatives
  */
 const DEPENDENCY_REPLACEMENTS: Record<string, PackageJsonPatch> = {
-  'lovable-tagger': {
-    action: 'remove',
-    package: 'lovable-tagger',
-    reason: 'Outil de debug Lovable - non nécessaire en production'
-  },
-  '@lovable/core': {
-    action: 'remove',
-    package: '@lovable/core',
-    reason: 'SDK Lovable - remplacé par code local'
-  },
-  '@lovable/ui': {
-    action: 'replace',
-    package: '@lovable/ui',
-    newPackage: '@radix-ui/react-primitive',
-    newVersion: '^1.0.0',
-    reason: 'Remplacement par Radix UI'
-  },
   'openai': {
     action: 'replace',
     package: 'openai',
@@ -267,6 +151,10 @@ const DEPENDENCY_REPLACEMENTS: Record<string, PackageJsonPatch> = {
 
 export class LovableCleanerEngine {
   private options: CleaningOptions;
+  private importReplacements: Record<string, ImportReplacement>;
+  private patternReplacements: PatternReplacement[];
+  private dependencyReplacements: Record<string, PackageJsonPatch>;
+  private removePatterns: string[];
   
   constructor(options?: Partial<CleaningOptions>) {
     this.options = {
@@ -275,9 +163,18 @@ export class LovableCleanerEngine {
       fixDependencies: true,
       generatePolyfills: true,
       preserveComments: false,
+      removeDeadCode: true,
       dryRun: false,
+      platforms: getPlatformPlugins(),
       ...options
     };
+    
+    // Règles des plugins d'abord, puis les règles communes
+    const platforms = this.options.platforms;
+    this.importReplacements = Object.assign({}, ...platforms.map(p => p.importReplacements), IMPORT_REPLACEMENTS);
+    this.patternReplacements = [...platforms.flatMap(p => p.patternReplacements), ...PATTERN_REPLACEMENTS];
+    this.dependencyReplacements = Object.assign({}, ...platforms.map(p => p.dependencyReplacements), DEPENDENCY_REPLACEMENTS);
+    this.removePatterns = Array.from(new Set(platforms.flatMap(p => p.removeFiles)));
   }
   
   /**
@@ -346,23 +243,108 @@ export class LovableCleanerEngine {
         packageJsonPatches.push(...patches);
         summary.dependenciesFixed += patches.length;
         
-        // Appliquer les patches
+        // Appliquer les patches puis les corrections des plateformes
         if (!this.options.dryRun && this.options.fixDependencies) {
           const patchedContent = this.applyPackagePatches(content, patches);
-          cleanedFiles[filePath] = patchedContent;
+          const fixed = this.applyPlatformPackageFixes(patchedContent);
+          cleanedFiles[filePath] = fixed.content;
+          summary.dependenciesFixed += fixed.fixes.length;
+          
+          for (const fix of fixed.fixes) {
+            result.changes.push({
+              type: 'replaced',
+              line: 1,
+              column: 1,
+              original: '',
+              replacement: '',
+              reason: `package.json: ${fix}`
+            });
+            totalChanges++;
+          }
         }
       }
     }
     
     // Générer les polyfills si nécessaire
+    const polyfillPaths: string[] = [];
     if (this.options.generatePolyfills) {
-      const polyfills = this.generatePolyfills(scanResult);
+      const polyfills = this.generatePolyfills(scanResult, cleanedFiles);
       for (const [path, content] of Object.entries(polyfills)) {
         cleanedFiles[path] = content;
+        polyfillPaths.push(path);
         summary.polyfillsGenerated++;
       }
     }
     
+    // Supprimer en cascade les modules morts et corriger les imports orphelins
+    let deadCode: DeadCodeReport = { removedModules: [], danglingImports: [], removedExports: [] };
+    const removedPaths = Array.from(results.values()).filter(r => r.wasRemoved).map(r => r.filePath);
+    
+    if (this.options.removeDeadCode && removedPaths.length > 0) {
+      const graphFiles = { ...cleanedFiles };
+      for (const path of removedPaths) {
+        graphFiles[path] = files[path];
+      }
+      
+      const cascade = cascadeRemovals(graphFiles, removedPaths, { keep: polyfillPaths });
+      deadCode = {
+        removedModules: cascade.removedModules,
+        danglingImports: cascade.danglingImports,
+        removedExports: cascade.removedExports,
+      };
+      
+      for (const module of cascade.removedModules) {
+        if (module.reason !== 'unreachable') continue;
+        
+        const previous = results.get(module.path);
+        if (previous?.wasModified) filesModified--;
+        else filesUnchanged--;
+        filesRemoved++;
+        totalChanges++;
+        
+        delete cleanedFiles[module.path];
+        results.set(module.path, {
+          filePath: module.path,
+          originalContent: files[module.path] ?? previous?.originalContent ?? '',
+          cleanedContent: '',
+          wasModified: true,
+          wasRemoved: true,
+          changes: [{
+            type: 'removed',
+            line: 1,
+            column: 1,
+            original: previous?.cleanedContent ?? '',
+            replacement: '',
+            reason: `Module mort supprimé: importé uniquement par ${module.importedBy.join(', ')}`
+          }],
+          rewrites: []
+        });
+      }
+      
+      for (const fix of cascade.danglingImports) {
+        const result = results.get(fix.file);
+        if (!result) continue;
+        
+        if (!result.wasModified) {
+          filesUnchanged--;
+          filesModified++;
+          result.wasModified = true;
+        }
+        result.cleanedContent = cascade.files[fix.file];
+        cleanedFiles[fix.file] = cascade.files[fix.file];
+        result.changes.push({
+          type: fix.action === 'removed' ? 'removed' : 'replaced',
+          line: fix.line,
+          column: 1,
+          original: fix.specifier,
+          replacement: fix.action === 'rewritten' ? fix.replacement ?? '' : fix.action === 'stubbed' ? `stub: ${fix.bindings.join(', ')}` : '',
+          reason: `Import orphelin (${fix.target} supprimé)`
+        });
+        totalChanges++;
+        if (fix.action === 'removed') summary.importsRemoved++;
+      }
+    }
+    
     // Estimer le temps économisé (basé sur le nombre de changements)
     summary.estimatedTimeSaved = Math.ceil((totalChanges * 0.5) + (totalRewrites * 2));
     
@@ -376,6 +358,7 @@ export class LovableCleanerEngine {
       results,
       cleanedFiles,
       packageJsonPatches,
+      deadCode,
       summary
     };
   }
@@ -477,7 +460,7 @@ export class LovableCleanerEngine {
       let replacementLine = line;
       
       // Vérifier chaque pattern d'import
-      for (const [importPattern, replacement] of Object.entries(IMPORT_REPLACEMENTS)) {
+      for (const [importPattern, replacement] of Object.entries(this.importReplacements)) {
         if (line.includes(importPattern)) {
           if (replacement.replacement === '') {
             // Supprimer la ligne
@@ -542,7 +525,7 @@ export class LovableCleanerEngine {
     const rewrites: Rewrite[] = [];
     let modified = false;
     
-    for (const patternDef of PATTERN_REPLACEMENTS) {
+    for (const patternDef of this.patternReplacements) {
       // Reset regex
       patternDef.pattern.lastIndex = 0;
       
@@ -609,8 +592,8 @@ export class LovableCleanerEngine {
       };
       
       for (const [dep, version] of Object.entries(allDeps)) {
-        if (DEPENDENCY_REPLACEMENTS[dep]) {
-          const patch = { ...DEPENDENCY_REPLACEMENTS[dep] };
+        if (this.dependencyReplacements[dep]) {
+          const patch = { ...this.dependencyReplacements[dep] };
           patch.originalVersion = version as string;
           patches.push(patch);
         }
@@ -657,12 +640,32 @@ export class LovableCleanerEngine {
     }
   }
   
+  /**
+   * Applique les corrections de package.json des plugins de plateforme
+   */
+  private applyPlatformPackageFixes(content: string): { content: string; fixes: string[] } {
+    try {
+      const pkg = JSON.parse(content);
+      const fixes = this.options.platforms.flatMap(
+        p => p.fixPackageJson?.(pkg, { projectName: this.options.projectName }) ?? []
+      );
+      return { content: fixes.length > 0 ? JSON.stringify(pkg, null, 2) : content, fixes };
+    } catch {
+      return { content, fixes: [] };
+    }
+  }
+  
   /**
    * Génère les polyfills nécessaires
    */
-  private generatePolyfills(scanResult: ScanResult): Record<string, string> {
+  private generatePolyfills(scanResult: ScanResult, files: Record<string, string>): Record<string, string> {
     const polyfills: Record<string, string> = {};
     
+    // Polyfills propres aux plateformes (ex: analytique locale pour v0)
+    for (const platform of this.options.platforms) {
+      Object.assign(polyfills, platform.polyfills?.(files));
+    }
+    
     // Vérifier si UnifiedLLM est nécessaire
     const needsUnifiedLLM = scanResult.issues.some(
       i => i.pattern === 'get-ai-assistant' || 
@@ -1008,23 +1011,8 @@ export type UpdateTables<T extends keyof Database['public']['Tables']> =
    * Vérifie si un fichier doit être supprimé
    */
   private shouldRemoveFile(filePath: string): boolean {
-    const removePatterns = [
-      '.lovable',
-      'lovable.config',
-      'lovable.json',
-      '.bolt',
-      'bolt.config',
-      '.cursor',
-      'cursor.config',
-      '__lovable__',
-      '.agent',
-      'agent.config',
-      'src/integrations/supabase/types.ts', // Auto-generated
-      'src/integrations/supabase/client.ts' // Auto-generated
-    ];
-    
     const filename = filePath.split('/').pop() || '';
-    return removePatterns.some(pattern => 
+    return this.removePatterns.some(pattern => 
       filename.toLowerCase().includes(pattern.toLowerCase()) ||
       filePath.toLowerCase().includes(pattern.toLowerCase())
     );
@@ -1087,6 +1075,14 @@ export function formatCleaningReport(report: CleaningReport): string {
     '',
   ];
   
+  if (report.deadCode.removedModules.length > 0) {
+    lines.push('───────────────────────────────────────────────────────────');
+    lines.push('                  CODE MORT (IMPORTS)                      ');
+    lines.push('───────────────────────────────────────────────────────────');
+    lines.push(formatDeadCodeReport(report.deadCode));
+    lines.push('');
+  }
+  
   if (report.packageJsonPatches.length > 0) {
     lines.push('───────────────────────────────────────────────────────────');
     lines.push('                 PATCHES PACKAGE.JSON                      ');
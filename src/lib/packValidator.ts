@@ -7,6 +7,8 @@
  * @version 2.0
  */
 
+import { extractImports, resolveImport } from './importGraph';
+
 export interface ValidationError {
   file: string;
   line: number;
@@ -203,6 +205,8 @@ export function validateBracketBalance(content: string, filePath: string): Valid
 
 /**
  * Validate imports can be resolved
+ * Uses the same parser and resolution as the import graph (multi-line imports,
+ * re-exports, dynamic imports)
  */
 export function validateImports(
   content: string, 
@@ -212,56 +216,20 @@ export function validateImports(
   const errors: ValidationError[] = [];
   const unresolvedImports: { file: string; importPath: string }[] = [];
   
-  const importRegex = /import\s+(?:(?:type\s+)?{[^}]*}|[^'"{}]+)\s+from\s+['"]([^'"]+)['"]/g;
-  const lines = content.split('\n');
-  
-  let match;
-  while ((match = importRegex.exec(content)) !== null) {
-    const importPath = match[1];
-    
+  for (const { specifier: importPath, line } of extractImports(content, filePath)) {
     // Skip external packages
     if (EXTERNAL_PACKAGES.some(pkg => importPath.startsWith(pkg))) continue;
     if (!importPath.startsWith('.') && !importPath.startsWith('@/')) continue;
     
-    const beforeMatch = content.substring(0, match.index);
-    const lineNumber = (beforeMatch.match(/\n/g) || []).length + 1;
-    
-    let resolved = false;
-    
-    if (importPath.startsWith('@/')) {
-      const polyfillPath = REQUIRED_POLYFILLS[importPath];
-      if (polyfillPath && allFiles[polyfillPath]) {
-        resolved = true;
-      } else {
-        const srcPath = importPath.replace('@/', 'src/');
-        const possiblePaths = [
-          srcPath + '.ts',
-          srcPath + '.tsx',
-          srcPath + '/index.ts',
-          srcPath + '/index.tsx',
-          srcPath,
-        ];
-        resolved = possiblePaths.some(p => allFiles[p] !== undefined);
-      }
-    } else {
-      const currentDir = filePath.split('/').slice(0, -1).join('/');
-      const resolvedPath = resolveRelativePath(currentDir, importPath);
-      
-      const possiblePaths = [
-        resolvedPath + '.ts',
-        resolvedPath + '.tsx',
-        resolvedPath + '/index.ts',
-        resolvedPath + '/index.tsx',
-        resolvedPath,
-      ];
-      resolved = possiblePaths.some(p => allFiles[p] !== undefined);
-    }
+    const polyfillPath = REQUIRED_POLYFILLS[importPath];
+    const resolved = (polyfillPath !== undefined && allFiles[polyfillPath] !== undefined) ||
+      resolveImport(importPath, filePath, allFiles) !== null;
     
     if (!resolved) {
       unresolvedImports.push({ file: filePath, importPath });
       errors.push({
         file: filePath,
-        line: lineNumber,
+        line,
         column: 1,
         message: `Cannot resolve import '${importPath}'`,
         severity: 'warning',
@@ -273,18 +241,6 @@ export function validateImports(
   return { errors, unresolvedImports };
 }
 
-function resolveRelativePath(currentDir: string, relativePath: string): string {
-  const parts = currentDir.split('/').filter(Boolean);
-  const relParts = relativePath.split('/');
-  
-  for (const part of relParts) {
-    if (part === '..') parts.pop();
-    else if (part !== '.') parts.push(part);
-  }
-  
-  return parts.join('/');
-}
-
 /**
  * Validate TypeScript syntax patterns
  */
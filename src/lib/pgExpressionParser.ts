@@ -0,0 +1,812 @@
+/**
+ * PostgreSQL Expression Parser
+ * Tokenizer and recursive-descent parser for the SQL expressions found in
+ * RLS policies (USING / WITH CHECK), including sub-queries
+ */
+
+// ============= TYPES =============
+
+export type PgTokenType = 'ident' | 'quoted' | 'string' | 'number' | 'op' | 'punct' | 'eof';
+
+export interface PgToken {
+  type: PgTokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type PgExpr =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'column'; path: string[] }
+  | { kind: 'call'; name: string[]; args: PgExpr[]; star?: boolean; distinct?: boolean }
+  | { kind: 'keyword'; name: string }
+  | { kind: 'unary'; op: 'NOT' | '-' | '+'; operand: PgExpr }
+  | { kind: 'binary'; op: string; left: PgExpr; right: PgExpr }
+  | { kind: 'is'; operand: PgExpr; test: 'NULL' | 'TRUE' | 'FALSE' | 'DISTINCT'; negated: boolean; right?: PgExpr }
+  | { kind: 'in'; operand: PgExpr; negated: boolean; list?: PgExpr[]; query?: PgSelect }
+  | { kind: 'quantified'; op: string; quantifier: 'ANY' | 'ALL'; left: PgExpr; right?: PgExpr; query?: PgSelect }
+  | { kind: 'between'; operand: PgExpr; low: PgExpr; high: PgExpr; negated: boolean }
+  | { kind: 'like'; operand: PgExpr; pattern: PgExpr; negated: boolean; insensitive: boolean }
+  | { kind: 'exists'; query: PgSelect }
+  | { kind: 'subquery'; query: PgSelect }
+  | { kind: 'cast'; operand: PgExpr; type: string }
+  | { kind: 'array'; items: PgExpr[] }
+  | { kind: 'subscript'; operand: PgExpr; index: PgExpr };
+
+export interface PgFromItem {
+  table: string[];
+  alias?: string;
+  join?: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS';
+  on?: PgExpr;
+}
+
+export interface PgSelect {
+  distinct: boolean;
+  columns: Array<{ expr: PgExpr; alias?: string } | '*'>;
+  from: PgFromItem[];
+  where?: PgExpr;
+  limit?: number;
+}
+
+export class PgParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (position ${position})`);
+    this.name = 'PgParseError';
+  }
+}
+
+// ============= TOKENIZER =============
+
+const OPERATORS = ['::', '->>', '->', '#>>', '#>', '<=', '>=', '<>', '!=', '||', '@>', '<@', '=', '<', '>', '+', '-', '*', '/', '%'];
+
+/**
+ * Splits SQL into tokens, skipping whitespace and comments
+ */
+export function tokenizePg(sql: string): PgToken[] {
+  const tokens: PgToken[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Comments
+    if (sql.startsWith('--', i)) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+    if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      if (end === -1) throw new PgParseError('Unterminated comment', i);
+      i = end + 2;
+      continue;
+    }
+
+    const start = i;
+
+    // String literals ('...', E'...')
+    if (char === "'" || ((char === 'E' || char === 'e') && sql[i + 1] === "'")) {
+      const escapes = char !== "'";
+      i += escapes ? 2 : 1;
+      let value = '';
+      for (;;) {
+        if (i >= sql.length) throw new PgParseError('Unterminated string', start);
+        if (escapes && sql[i] === '\\') {
+          value += sql[i + 1] ?? '';
+          i += 2;
+        } else if (sql[i] === "'") {
+          if (sql[i + 1] === "'") {
+            value += "'";
+            i += 2;
+          } else {
+            i++;
+            break;
+          }
+        } else {
+          value += sql[i++];
+        }
+      }
+      tokens.push({ type: 'string', value, start, end: i });
+      continue;
+    }
+
+    // Dollar-quoted strings ($$...$$, $tag$...$tag$)
+    const dollar = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+    if (dollar) {
+      const end = sql.indexOf(dollar[0], i + dollar[0].length);
+      if (end === -1) throw new PgParseError('Unterminated dollar-quoted string', start);
+      tokens.push({ type: 'string', value: sql.slice(i + dollar[0].length, end), start, end: end + dollar[0].length });
+      i = end + dollar[0].length;
+      continue;
+    }
+
+    // Quoted identifiers
+    if (char === '"') {
+      i++;
+      let value = '';
+      for (;;) {
+        if (i >= sql.length) throw new PgParseError('Unterminated quoted identifier', start);
+        if (sql[i] === '"') {
+          if (sql[i + 1] === '"') {
+            value += '"';
+            i += 2;
+          } else {
+            i++;
+            break;
+          }
+        } else {
+          value += sql[i++];
+        }
+      }
+      tokens.push({ type: 'quoted', value, start, end: i });
+      continue;
+    }
+
+    const number = sql.slice(i).match(/^\d+(\.\d+)?([eE][+-]?\d+)?/);
+    if (number) {
+      i += number[0].length;
+      tokens.push({ type: 'number', value: number[0], start, end: i });
+      continue;
+    }
+
+    const ident = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/);
+    if (ident) {
+      i += ident[0].length;
+      tokens.push({ type: 'ident', value: ident[0], start, end: i });
+      continue;
+    }
+
+    const op = OPERATORS.find(o => sql.startsWith(o, i));
+    if (op) {
+      i += op.length;
+      tokens.push({ type: 'op', value: op, start, end: i });
+      continue;
+    }
+
+    if ('(),[].;'.includes(char)) {
+      i++;
+      tokens.push({ type: 'punct', value: char, start, end: i });
+      continue;
+    }
+
+    throw new PgParseError(`Unexpected character "${char}"`, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', start: sql.length, end: sql.length });
+  return tokens;
+}
+
+/**
+ * Splits a SQL script into statements (semicolons inside strings,
+ * dollar quotes and comments are ignored)
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let start = 0;
+
+  for (const token of tokenizePg(sql)) {
+    if (token.type === 'punct' && token.value === ';') {
+      const statement = sql.slice(start, token.start).trim();
+      if (statement) statements.push(statement);
+      start = token.end;
+    }
+  }
+
+  const rest = sql.slice(start).trim();
+  if (rest && tokenizePg(rest).length > 1) statements.push(rest);
+  return statements;
+}
+
+// ============= PARSER =============
+
+// Reserved words that end an expression or a select list item
+const RESERVED = new Set([
+  'AND', 'OR', 'NOT', 'IS', 'IN', 'LIKE', 'ILIKE', 'BETWEEN', 'FROM', 'WHERE', 'AS', 'ON',
+  'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER', 'LIMIT', 'ORDER', 'GROUP',
+  'HAVING', 'UNION', 'SELECT', 'THEN', 'ELSE', 'END', 'WHEN', 'CASE', 'USING', 'WITH', 'TO', 'FOR',
+]);
+
+const VALUE_KEYWORDS = ['CURRENT_USER', 'SESSION_USER', 'CURRENT_ROLE', 'CURRENT_DATE', 'CURRENT_TIMESTAMP', 'LOCALTIMESTAMP'];
+
+const COMPARISON_OPERATORS = ['=', '<>', '!=', '<', '<=', '>', '>='];
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: PgToken[]) {}
+
+  parseStandalone(): PgExpr {
+    const expr = this.parseExpression();
+    if (this.peek().type !== 'eof') {
+      throw new PgParseError(`Unexpected "${this.peek().value}"`, this.peek().start);
+    }
+    return expr;
+  }
+
+  parseExpression(): PgExpr {
+    return this.parseOr();
+  }
+
+  // ---------- Boolean operators ----------
+
+  private parseOr(): PgExpr {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'binary', op: 'OR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): PgExpr {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'binary', op: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): PgExpr {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'unary', op: 'NOT', operand: this.parseNot() };
+    }
+    return this.parseIs();
+  }
+
+  private parseIs(): PgExpr {
+    let operand = this.parseComparison();
+    for (;;) {
+      if (this.acceptKeyword('ISNULL')) {
+        operand = { kind: 'is', operand, test: 'NULL', negated: false };
+      } else if (this.acceptKeyword('NOTNULL')) {
+        operand = { kind: 'is', operand, test: 'NULL', negated: true };
+      } else if (this.acceptKeyword('IS')) {
+        const negated = this.acceptKeyword('NOT');
+        if (this.acceptKeyword('NULL')) {
+          operand = { kind: 'is', operand, test: 'NULL', negated };
+        } else if (this.acceptKeyword('TRUE')) {
+          operand = { kind: 'is', operand, test: 'TRUE', negated };
+        } else if (this.acceptKeyword('FALSE')) {
+          operand = { kind: 'is', operand, test: 'FALSE', negated };
+        } else if (this.acceptKeyword('DISTINCT')) {
+          this.expectKeyword('FROM');
+          operand = { kind: 'is', operand, test: 'DISTINCT', negated, right: this.parseComparison() };
+        } else {
+          throw this.error('Expected NULL, TRUE, FALSE or DISTINCT FROM after IS');
+        }
+      } else {
+        return operand;
+      }
+    }
+  }
+
+  private parseComparison(): PgExpr {
+    const left = this.parsePredicate();
+    const token = this.peek();
+    if (token.type !== 'op' || !COMPARISON_OPERATORS.includes(token.value)) return left;
+    this.pos++;
+    const op = token.value === '!=' ? '<>' : token.value;
+
+    // = ANY (...), = ALL (...), = SOME (...)
+    const quantifier = this.peekKeyword('ANY') || this.peekKeyword('SOME') ? 'ANY' : this.peekKeyword('ALL') ? 'ALL' : null;
+    if (quantifier && this.peekAt(1).value === '(') {
+      this.pos += 2;
+      if (this.peekKeyword('SELECT')) {
+        const query = this.parseSelect();
+        this.expectPunct(')');
+        return { kind: 'quantified', op, quantifier, left, query };
+      }
+      const right = this.parseExpression();
+      this.expectPunct(')');
+      return { kind: 'quantified', op, quantifier, left, right };
+    }
+
+    return { kind: 'binary', op, left, right: this.parsePredicate() };
+  }
+
+  // IN, BETWEEN, LIKE, ILIKE (and their NOT forms)
+  private parsePredicate(): PgExpr {
+    const operand = this.parseOther();
+    const negated = this.peekKeyword('NOT') && ['IN', 'BETWEEN', 'LIKE', 'ILIKE'].includes(this.peekAt(1).value.toUpperCase());
+    if (negated) this.pos++;
+
+    if (this.acceptKeyword('IN')) {
+      this.expectPunct('(');
+      if (this.peekKeyword('SELECT')) {
+        const query = this.parseSelect();
+        this.expectPunct(')');
+        return { kind: 'in', operand, negated, query };
+      }
+      const list = this.parseList(')');
+      return { kind: 'in', operand, negated, list };
+    }
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parseOther();
+      this.expectKeyword('AND');
+      return { kind: 'between', operand, low, high: this.parseOther(), negated };
+    }
+    if (this.peekKeyword('LIKE') || this.peekKeyword('ILIKE')) {
+      const insensitive = this.next().value.toUpperCase() === 'ILIKE';
+      return { kind: 'like', operand, pattern: this.parseOther(), negated, insensitive };
+    }
+    if (negated) throw this.error('Expected IN, BETWEEN, LIKE or ILIKE after NOT');
+    return operand;
+  }
+
+  // ||, ->, ->>, #>, #>>, @>, <@
+  private parseOther(): PgExpr {
+    let left = this.parseAdditive();
+    while (this.peek().type === 'op' && ['||', '->', '->>', '#>', '#>>', '@>', '<@'].includes(this.peek().value)) {
+      const op = this.next().value;
+      left = { kind: 'binary', op, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): PgExpr {
+    let left = this.parseMultiplicative();
+    while (this.peek().type === 'op' && ['+', '-'].includes(this.peek().value)) {
+      const op = this.next().value;
+      left = { kind: 'binary', op, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): PgExpr {
+    let left = this.parseUnary();
+    while (this.peek().type === 'op' && ['*', '/', '%'].includes(this.peek().value)) {
+      const op = this.next().value;
+      left = { kind: 'binary', op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): PgExpr {
+    if (this.peek().type === 'op' && (this.peek().value === '-' || this.peek().value === '+')) {
+      const op = this.next().value as '-' | '+';
+      return { kind: 'unary', op, operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  // expr::type, expr[index]
+  private parsePostfix(): PgExpr {
+    let expr = this.parsePrimary();
+    for (;;) {
+      if (this.peek().type === 'op' && this.peek().value === '::') {
+        this.pos++;
+        expr = { kind: 'cast', operand: expr, type: this.parseTypeName() };
+      } else if (this.peek().value === '[' && this.peek().type === 'punct') {
+        this.pos++;
+        const index = this.parseExpression();
+        this.expectPunct(']');
+        expr = { kind: 'subscript', operand: expr, index };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parseTypeName(): string {
+    const parts = [this.expectIdentifier()];
+    while (this.peek().value === '.' && this.peek().type === 'punct') {
+      this.pos++;
+      parts.push(this.expectIdentifier());
+    }
+    // Multi-word types (double precision, character varying, timestamp with time zone)
+    while (this.peek().type === 'ident' && ['PRECISION', 'VARYING', 'WITH', 'WITHOUT', 'TIME', 'ZONE'].includes(this.peek().value.toUpperCase())) {
+      parts.push(this.next().value);
+    }
+    let type = parts.join(parts.length > 1 && !/^(precision|varying|with|without|time|zone)$/i.test(parts[1]) ? '.' : ' ');
+    if (this.peek().value === '(' && this.peek().type === 'punct') {
+      this.pos++;
+      type += `(${this.parseList(')').map(e => formatPgExpression(e)).join(', ')})`;
+    }
+    while (this.peek().value === '[' && this.peekAt(1).value === ']') {
+      this.pos += 2;
+      type += '[]';
+    }
+    return type;
+  }
+
+  private parsePrimary(): PgExpr {
+    const token = this.peek();
+
+    if (token.type === 'string') {
+      this.pos++;
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'number') {
+      this.pos++;
+      return { kind: 'literal', value: Number(token.value) };
+    }
+
+    if (token.type === 'punct' && token.value === '(') {
+      this.pos++;
+      if (this.peekKeyword('SELECT')) {
+        const query = this.parseSelect();
+        this.expectPunct(')');
+        return { kind: 'subquery', query };
+      }
+      const expr = this.parseExpression();
+      this.expectPunct(')');
+      return expr;
+    }
+
+    if (token.type === 'ident' || token.type === 'quoted') {
+      const upper = token.type === 'ident' ? token.value.toUpperCase() : '';
+
+      if (upper === 'TRUE' || upper === 'FALSE') {
+        this.pos++;
+        return { kind: 'literal', value: upper === 'TRUE' };
+      }
+      if (upper === 'NULL') {
+        this.pos++;
+        return { kind: 'literal', value: null };
+      }
+      if (upper === 'EXISTS') {
+        this.pos++;
+        this.expectPunct('(');
+        const query = this.parseSelect();
+        this.expectPunct(')');
+        return { kind: 'exists', query };
+      }
+      if (upper === 'ARRAY' && this.peekAt(1).value === '[') {
+        this.pos += 2;
+        return { kind: 'array', items: this.parseList(']') };
+      }
+      if (upper === 'CASE') {
+        throw this.error('CASE expressions are not supported');
+      }
+      if (VALUE_KEYWORDS.includes(upper)) {
+        this.pos++;
+        return { kind: 'keyword', name: upper };
+      }
+      if (RESERVED.has(upper)) {
+        throw this.error(`Unexpected keyword ${upper}`);
+      }
+
+      const path = [this.expectIdentifier()];
+      while (this.peek().value === '.' && this.peek().type === 'punct') {
+        this.pos++;
+        path.push(this.expectIdentifier());
+      }
+
+      if (this.peek().value === '(' && this.peek().type === 'punct') {
+        this.pos++;
+        if (this.peek().type === 'op' && this.peek().value === '*') {
+          this.pos++;
+          this.expectPunct(')');
+          return { kind: 'call', name: path, args: [], star: true };
+        }
+        const distinct = this.acceptKeyword('DISTINCT');
+        const args = this.parseList(')');
+        if (this.peekKeyword('FILTER') || this.peekKeyword('OVER')) {
+          throw this.error('Aggregate FILTER / window functions are not supported');
+        }
+        return distinct ? { kind: 'call', name: path, args, distinct } : { kind: 'call', name: path, args };
+      }
+
+      return { kind: 'column', path };
+    }
+
+    throw this.error(token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`);
+  }
+
+  // ---------- SELECT (sub-queries) ----------
+
+  parseSelect(): PgSelect {
+    this.expectKeyword('SELECT');
+    const distinct = this.acceptKeyword('DISTINCT');
+    const columns: PgSelect['columns'] = [];
+
+    do {
+      if (this.peek().type === 'op' && this.peek().value === '*') {
+        this.pos++;
+        columns.push('*');
+        continue;
+      }
+      const expr = this.parseExpression();
+      let alias: string | undefined;
+      if (this.acceptKeyword('AS') || (this.peek().type === 'ident' && !RESERVED.has(this.peek().value.toUpperCase()))) {
+        alias = this.expectIdentifier();
+      }
+      columns.push(alias ? { expr, alias } : { expr });
+    } while (this.acceptPunct(','));
+
+    const select: PgSelect = { distinct, columns, from: [] };
+
+    if (this.acceptKeyword('FROM')) {
+      select.from.push(this.parseFromItem());
+      for (;;) {
+        if (this.acceptPunct(',')) {
+          select.from.push(this.parseFromItem());
+          continue;
+        }
+        const join = this.parseJoinType();
+        if (!join) break;
+        const item = this.parseFromItem();
+        item.join = join;
+        if (join !== 'CROSS') {
+          this.expectKeyword('ON');
+          item.on = this.parseExpression();
+        }
+        select.from.push(item);
+      }
+    }
+
+    if (this.acceptKeyword('WHERE')) {
+      select.where = this.parseExpression();
+    }
+
+    if (this.peekKeyword('GROUP') || this.peekKeyword('HAVING') || this.peekKeyword('ORDER') || this.peekKeyword('UNION')) {
+      throw this.error(`${this.peek().value.toUpperCase()} in sub-queries is not supported`);
+    }
+
+    if (this.acceptKeyword('LIMIT')) {
+      const token = this.next();
+      if (token.type !== 'number') throw new PgParseError('Expected a number after LIMIT', token.start);
+      select.limit = Number(token.value);
+    }
+
+    return select;
+  }
+
+  private parseJoinType(): PgFromItem['join'] | null {
+    if (this.acceptKeyword('JOIN')) return 'INNER';
+    for (const type of ['INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS'] as const) {
+      if (this.acceptKeyword(type)) {
+        this.acceptKeyword('OUTER');
+        this.expectKeyword('JOIN');
+        return type;
+      }
+    }
+    return null;
+  }
+
+  private parseFromItem(): PgFromItem {
+    if (this.peek().value === '(') throw this.error('Sub-queries in FROM are not supported');
+    const table = [this.expectIdentifier()];
+    while (this.acceptPunct('.')) {
+      table.push(this.expectIdentifier());
+    }
+    if (this.peek().value === '(') throw this.error('Set-returning functions in FROM are not supported');
+
+    let alias: string | undefined;
+    if (this.acceptKeyword('AS') || (this.peek().type !== 'eof' && this.peek().type !== 'punct' && this.peek().type !== 'op' && !RESERVED.has(this.peek().value.toUpperCase()))) {
+      alias = this.expectIdentifier();
+    }
+    return alias ? { table, alias } : { table };
+  }
+
+  // ---------- Helpers ----------
+
+  private parseList(close: string): PgExpr[] {
+    const items: PgExpr[] = [];
+    if (this.acceptPunct(close)) return items;
+    do {
+      items.push(this.parseExpression());
+    } while (this.acceptPunct(','));
+    this.expectPunct(close);
+    return items;
+  }
+
+  private peek(): PgToken {
+    return this.tokens[this.pos];
+  }
+
+  private peekAt(offset: number): PgToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): PgToken {
+    const token = this.tokens[this.pos];
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'ident' && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.peekKeyword(keyword)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) throw this.error(`Expected ${keyword}`);
+  }
+
+  private acceptPunct(value: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'punct' || token.value !== value) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) throw this.error(`Expected "${value}"`);
+  }
+
+  private expectIdentifier(): string {
+    const token = this.peek();
+    if (token.type === 'quoted') {
+      this.pos++;
+      return token.value;
+    }
+    if (token.type === 'ident') {
+      this.pos++;
+      // Unquoted identifiers are case-insensitive (folded to lower case)
+      return token.value.toLowerCase();
+    }
+    throw this.error('Expected an identifier');
+  }
+
+  private error(message: string): PgParseError {
+    return new PgParseError(message, this.peek().start);
+  }
+}
+
+/**
+ * Parses a boolean/scalar SQL expression (e.g. the body of USING (...))
+ */
+export function parsePgExpression(sql: string): PgExpr {
+  return new Parser(tokenizePg(sql)).parseStandalone();
+}
+
+// ============= FORMATTER =============
+
+const SIMPLE_IDENTIFIER = /^[a-z_][a-z0-9_$]*$/;
+
+// Words that must be quoted when used as identifiers
+const QUOTED_WORDS = new Set([...RESERVED, 'TRUE', 'FALSE', 'NULL', 'ARRAY', 'EXISTS', 'ANY', 'ALL', 'SOME', 'DISTINCT']);
+
+export function quotePgIdentifier(name: string): string {
+  return SIMPLE_IDENTIFIER.test(name) && !QUOTED_WORDS.has(name.toUpperCase()) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+export function quotePgLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Formats an expression back to SQL. `override` can replace any node
+ * (e.g. to bind auth.uid() to a query parameter).
+ */
+export function formatPgExpression(expr: PgExpr, override?: (node: PgExpr) => string | undefined): string {
+  const format = (node: PgExpr): string => override?.(node) ?? formatNode(node);
+
+  // Compound operands are parenthesized so the output never depends on precedence
+  const operand = (node: PgExpr): string => {
+    const text = format(node);
+    const compound = ['binary', 'unary', 'is', 'in', 'quantified', 'between', 'like'].includes(node.kind);
+    return compound && !override?.(node) ? `(${text})` : text;
+  };
+
+  const formatSelect = (query: PgSelect): string => {
+    const columns = query.columns
+      .map(c => (c === '*' ? '*' : c.alias ? `${format(c.expr)} AS ${quotePgIdentifier(c.alias)}` : format(c.expr)))
+      .join(', ');
+    let sql = `SELECT ${query.distinct ? 'DISTINCT ' : ''}${columns}`;
+    query.from.forEach((item, index) => {
+      const table = item.table.map(quotePgIdentifier).join('.') + (item.alias ? ` ${quotePgIdentifier(item.alias)}` : '');
+      if (index === 0) sql += ` FROM ${table}`;
+      else if (!item.join) sql += `, ${table}`;
+      else sql += ` ${item.join} JOIN ${table}${item.on ? ` ON ${format(item.on)}` : ''}`;
+    });
+    if (query.where) sql += ` WHERE ${format(query.where)}`;
+    if (query.limit !== undefined) sql += ` LIMIT ${query.limit}`;
+    return sql;
+  };
+
+  const formatNode = (node: PgExpr): string => {
+    switch (node.kind) {
+      case 'literal':
+        if (node.value === null) return 'NULL';
+        if (typeof node.value === 'boolean') return node.value ? 'TRUE' : 'FALSE';
+        if (typeof node.value === 'number') return String(node.value);
+        return quotePgLiteral(node.value);
+      case 'column':
+        return node.path.map(quotePgIdentifier).join('.');
+      case 'call':
+        return `${node.name.map(quotePgIdentifier).join('.')}(${node.star ? '*' : `${node.distinct ? 'DISTINCT ' : ''}${node.args.map(format).join(', ')}`})`;
+      case 'keyword':
+        return node.name;
+      case 'unary':
+        return node.op === 'NOT' ? `NOT ${operand(node.operand)}` : `${node.op}${operand(node.operand)}`;
+      case 'binary':
+        return `${operand(node.left)} ${node.op} ${operand(node.right)}`;
+      case 'is':
+        return node.test === 'DISTINCT'
+          ? `${operand(node.operand)} IS ${node.negated ? 'NOT ' : ''}DISTINCT FROM ${operand(node.right!)}`
+          : `${operand(node.operand)} IS ${node.negated ? 'NOT ' : ''}${node.test}`;
+      case 'in':
+        return `${operand(node.operand)} ${node.negated ? 'NOT ' : ''}IN (${node.query ? formatSelect(node.query) : node.list!.map(format).join(', ')})`;
+      case 'quantified':
+        return `${operand(node.left)} ${node.op} ${node.quantifier} (${node.query ? formatSelect(node.query) : format(node.right!)})`;
+      case 'between':
+        return `${operand(node.operand)} ${node.negated ? 'NOT ' : ''}BETWEEN ${operand(node.low)} AND ${operand(node.high)}`;
+      case 'like':
+        return `${operand(node.operand)} ${node.negated ? 'NOT ' : ''}${node.insensitive ? 'ILIKE' : 'LIKE'} ${operand(node.pattern)}`;
+      case 'exists':
+        return `EXISTS (${formatSelect(node.query)})`;
+      case 'subquery':
+        return `(${formatSelect(node.query)})`;
+      case 'cast':
+        return `${operand(node.operand)}::${node.type}`;
+      case 'array':
+        return `ARRAY[${node.items.map(format).join(', ')}]`;
+      case 'subscript':
+        return `(${format(node.operand)})[${format(node.index)}]`;
+    }
+  };
+
+  return format(expr);
+}
+
+/**
+ * Visits every expression node, including the ones inside sub-queries
+ */
+export function walkPgExpression(expr: PgExpr, visit: (node: PgExpr) => void): void {
+  const walkSelect = (query: PgSelect) => {
+    query.columns.forEach(c => c !== '*' && walkPgExpression(c.expr, visit));
+    query.from.forEach(item => item.on && walkPgExpression(item.on, visit));
+    if (query.where) walkPgExpression(query.where, visit);
+  };
+
+  visit(expr);
+  switch (expr.kind) {
+    case 'call':
+      expr.args.forEach(a => walkPgExpression(a, visit));
+      break;
+    case 'unary':
+      walkPgExpression(expr.operand, visit);
+      break;
+    case 'binary':
+      walkPgExpression(expr.left, visit);
+      walkPgExpression(expr.right, visit);
+      break;
+    case 'is':
+      walkPgExpression(expr.operand, visit);
+      if (expr.right) walkPgExpression(expr.right, visit);
+      break;
+    case 'in':
+      walkPgExpression(expr.operand, visit);
+      expr.list?.forEach(e => walkPgExpression(e, visit));
+      if (expr.query) walkSelect(expr.query);
+      break;
+    case 'quantified':
+      walkPgExpression(expr.left, visit);
+      if (expr.right) walkPgExpression(expr.right, visit);
+      if (expr.query) walkSelect(expr.query);
+      break;
+    case 'between':
+      [expr.operand, expr.low, expr.high].forEach(e => walkPgExpression(e, visit));
+      break;
+    case 'like':
+      walkPgExpression(expr.operand, visit);
+      walkPgExpression(expr.pattern, visit);
+      break;
+    case 'exists':
+    case 'subquery':
+      walkSelect(expr.query);
+      break;
+    case 'cast':
+      walkPgExpression(expr.operand, visit);
+      break;
+    case 'array':
+      expr.items.forEach(e => walkPgExpression(e, visit));
+      break;
+    case 'subscript':
+      walkPgExpression(expr.operand, visit);
+      walkPgExpression(expr.index, visit);
+      break;
+  }
+}
@@ -0,0 +1,494 @@
+/**
+ * PLATFORM PLUGINS
+ * ================
+ * Plugins par plateforme source (Lovable, Bolt.new, v0, Cursor)
+ *
+ * Chaque plugin fournit:
+ * - Heuristiques de détection (fichiers, contenus)
+ * - Règles de scan supplémentaires (format du registre de souveraineté)
+ * - Fichiers à supprimer
+ * - Remplacements d'imports et de patterns
+ * - Polyfills
+ * - Corrections du package.json
+ *
+ * © 2024 Inovaq Canada Inc.
+ */
+
+import type { SovereigntyRule } from './sovereigntyRules';
+import type { PackageJsonPatch } from './lovableCleanerEngine';
+
+// ============= TYPES =============
+
+/**
+ * Indice de détection: un fichier dont le chemin (et éventuellement le contenu) correspond
+ */
+export interface PlatformHeuristic {
+  description: string;
+  /** Poids dans la confiance (0-1), les poids trouvés s'additionnent */
+  weight: number;
+  file: RegExp;
+  content?: RegExp;
+}
+
+export interface PlatformDetection {
+  platform: string;
+  name: string;
+  confidence: number;
+  evidence: string[];
+}
+
+export interface ImportReplacement {
+  replacement: string;
+  description: string;
+}
+
+export interface PatternReplacement {
+  pattern: RegExp;
+  replacement: string | ((match: string, ...groups: string[]) => string);
+  description: string;
+}
+
+export interface PlatformContext {
+  projectName?: string;
+}
+
+export interface PlatformPlugin {
+  id: string;
+  name: string;
+  heuristics: PlatformHeuristic[];
+  rules: SovereigntyRule[];
+  /** Fragments de chemin ou de nom de fichier à supprimer */
+  removeFiles: string[];
+  importReplacements: Record<string, ImportReplacement>;
+  patternReplacements: PatternReplacement[];
+  dependencyReplacements: Record<string, PackageJsonPatch>;
+  /** Polyfills à ajouter, selon le projet déjà nettoyé */
+  polyfills?: (files: Record<string, string>) => Record<string, string>;
+  /** Corrige le package.json (modifié en place), retourne les corrections appliquées */
+  fixPackageJson?: (pkg: Record<string, unknown>, context: PlatformContext) => string[];
+}
+
+// ============= HELPERS =============
+
+const CODE_FILES = /\.(tsx?|jsx?|mjs|cjs)$/;
+
+/**
+ * Renomme un package.json resté sur le nom du template de la plateforme
+ */
+function renameTemplatePackage(pkg: Record<string, unknown>, templateNames: string[], context: PlatformContext): string[] {
+  if (typeof pkg.name !== 'string' || !templateNames.includes(pkg.name)) return [];
+
+  const name = (context.projectName || 'sovereign-app')
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'sovereign-app';
+  const original = pkg.name;
+  pkg.name = name;
+  return [`Nom du package "${original}" -> "${name}"`];
+}
+
+// ============= LOVABLE =============
+
+export const lovablePlugin: PlatformPlugin = {
+  id: 'lovable',
+  name: 'Lovable',
+  heuristics: [
+    { description: 'Configuration Lovable', weight: 1, file: /(^|\/)(\.lovable|lovable\.config\.[a-z]+|lovable\.json)$/ },
+    { description: 'lovable-tagger dans package.json', weight: 0.8, file: /(^|\/)package\.json$/, content: /"lovable-tagger"/ },
+    { description: 'componentTagger dans vite.config', weight: 0.5, file: /(^|\/)vite\.config\.[jt]s$/, content: /componentTagger/ },
+    { description: 'Script gptengineer.js dans index.html', weight: 0.6, file: /(^|\/)index\.html$/, content: /gpteng\.co|gptengineer\.js/ },
+    { description: 'Client Supabase auto-généré', weight: 0.4, file: /^src\/integrations\/supabase\/client\.ts$/ },
+    { description: 'Attributs data-lov-*', weight: 0.6, file: CODE_FILES, content: /data-lov-[a-z-]+=/ },
+  ],
+  // Les règles Lovable font déjà partie du registre partagé
+  rules: [],
+  removeFiles: [
+    '.lovable',
+    'lovable.config',
+    'lovable.json',
+    '__lovable__',
+    '.agent',
+    'agent.config',
+    'src/integrations/supabase/types.ts', // Auto-generated
+    'src/integrations/supabase/client.ts' // Auto-generated
+  ],
+  importReplacements: {
+    '@lovable/core': {
+      replacement: '',
+      description: 'Supprimer - fonctionnalité non nécessaire'
+    },
+    '@lovable/ui': {
+      replacement: '@radix-ui/react-*',
+      description: 'Utiliser Radix UI directement'
+    },
+    'lovable-tagger': {
+      replacement: '',
+      description: 'Supprimer - outil de debug Lovable'
+    },
+
+    // Supabase integrations (auto-generated by Lovable)
+    '@/integrations/supabase/client': {
+      replacement: '@supabase/supabase-js',
+      description: 'Import direct Supabase'
+    },
+    '@/integrations/supabase/types': {
+      replacement: './types/database.ts',
+      description: 'Types locaux générés'
+    },
+
+    // Agent imports
+    '@agent/': {
+      replacement: '',
+      description: 'Supprimer - agent Lovable'
+    },
+  },
+  patternReplacements: [
+    // lovable.generate -> UnifiedLLM
+    {
+      pattern: /lovable\.generate\s*\(\s*(['"`])([^'"`]+)\1\s*\)/g,
+      replacement: (_, quote, prompt) => `unifiedLLM.complete(${quote}${prompt}${quote})`,
+      description: 'Remplacement par UnifiedLLM.complete()'
+    },
+
+    // lovableApi calls
+    {
+      pattern: /lovableApi\.(chat|complete|generate)\s*\(/g,
+      replacement: 'unifiedLLM.$1(',
+      description: 'Remplacement par UnifiedLLM'
+    },
+
+    // getAIAssistant
+    {
+      pattern: /getAIAssistant\s*\(\s*\)/g,
+      replacement: 'new UnifiedLLM({ provider: "ollama" })',
+      description: 'Remplacement par instance UnifiedLLM'
+    },
+
+    // runAssistant
+    {
+      pattern: /runAssistant\s*\(\s*([^)]+)\s*\)/g,
+      replacement: 'await unifiedLLM.chat($1)',
+      description: 'Remplacement par UnifiedLLM.chat()'
+    },
+
+    // EventSchema usage
+    {
+      pattern: /EventSchema\.(\w+)/g,
+      replacement: (_, schemaName) => `z.object({ /* ${schemaName} schema */ })`,
+      description: 'Remplacement par schéma Zod local'
+    },
+
+    // Pattern.* usage
+    {
+      pattern: /Pattern\.(\w+)/g,
+      replacement: (_, patternName) => `PATTERNS.${patternName}`,
+      description: 'Remplacement par patterns locaux'
+    },
+
+    // Data attributes Lovable
+    {
+      pattern: /\s*data-lov-[a-z-]+="[^"]*"/g,
+      replacement: '',
+      description: 'Suppression attributs Lovable'
+    },
+
+    // Lovable comments
+    {
+      pattern: /\/\/\s*@lovable[^\n]*/g,
+      replacement: '',
+      description: 'Suppression commentaires Lovable'
+    },
+    {
+      pattern: /\/\/\s*Generated by Lovable[^\n]*/gi,
+      replacement: '',
+      description: 'Suppression commentaires génération'
+    },
+
+    // Telemetry fetch calls
+    {
+      pattern: /fetch\s*\(\s*['"][^'"]*lovable[^'"]*['"]\s*[,)]/gi,
+      replacement: '/* Telemetry removed */',
+      description: 'Suppression appel télémétrie'
+    },
+
+    // Navigator beacon
+    {
+      pattern: /navigator\.sendBeacon\s*\([^)]*lovable[^)]*\)\s*;?/gi,
+      replacement: '/* Beacon removed */',
+      description: 'Suppression beacon télémétrie'
+    },
+
+    // Environment variables
+    {
+      pattern: /VITE_LOVABLE_[A-Z_]+/g,
+      replacement: 'VITE_APP_CONFIG',
+      description: 'Remplacement variable Lovable'
+    },
+  ],
+  dependencyReplacements: {
+    'lovable-tagger': {
+      action: 'remove',
+      package: 'lovable-tagger',
+      reason: 'Outil de debug Lovable - non nécessaire en production'
+    },
+    '@lovable/core': {
+      action: 'remove',
+      package: '@lovable/core',
+      reason: 'SDK Lovable - remplacé par code local'
+    },
+    '@lovable/ui': {
+      action: 'replace',
+      package: '@lovable/ui',
+      newPackage: '@radix-ui/react-primitive',
+      newVersion: '^1.0.0',
+      reason: 'Remplacement par Radix UI'
+    },
+  },
+};
+
+// ============= BOLT.NEW =============
+
+export const boltPlugin: PlatformPlugin = {
+  id: 'bolt',
+  name: 'Bolt.new',
+  heuristics: [
+    { description: 'Dossier .bolt/', weight: 1, file: /(^|\/)\.bolt\// },
+    { description: 'Configuration Bolt', weight: 1, file: /(^|\/)bolt\.config\.[a-z]+$/ },
+    { description: 'Fichier .stackblitzrc', weight: 0.6, file: /(^|\/)\.stackblitzrc$/ },
+    { description: 'Nom de package du template Bolt', weight: 0.4, file: /(^|\/)package\.json$/, content: /"name"\s*:\s*"vite-react-typescript-starter"/ },
+  ],
+  rules: [
+    {
+      id: 'bolt-webcontainer-import',
+      name: 'StackBlitz / WebContainer SDK',
+      severity: 'major',
+      category: 'import',
+      suggestion: 'Supprimer - l\'application ne tourne plus dans un WebContainer',
+      matcher: { kind: 'regex', pattern: /@stackblitz\/sdk|@webcontainer\/api/g },
+      fix: { kind: 'remove-line' },
+      files: CODE_FILES,
+    },
+  ],
+  removeFiles: ['.bolt', 'bolt.config', '.stackblitzrc'],
+  importReplacements: {
+    '@stackblitz/sdk': {
+      replacement: '',
+      description: 'Supprimer - SDK StackBlitz'
+    },
+    '@webcontainer/api': {
+      replacement: '',
+      description: 'Supprimer - runtime WebContainer de Bolt'
+    },
+  },
+  patternReplacements: [],
+  dependencyReplacements: {
+    '@stackblitz/sdk': {
+      action: 'remove',
+      package: '@stackblitz/sdk',
+      reason: 'SDK StackBlitz - non nécessaire hors de Bolt.new'
+    },
+    '@webcontainer/api': {
+      action: 'remove',
+      package: '@webcontainer/api',
+      reason: 'Runtime WebContainer - non nécessaire hors de Bolt.new'
+    },
+  },
+  fixPackageJson: (pkg, context) => renameTemplatePackage(pkg, ['vite-react-typescript-starter'], context),
+};
+
+// ============= V0 (VERCEL) =============
+
+export const v0Plugin: PlatformPlugin = {
+  id: 'v0',
+  name: 'v0',
+  heuristics: [
+    { description: 'Métadonnée generator v0 dans le layout', weight: 1, file: /(^|\/)layout\.[jt]sx?$/, content: /generator:\s*['"]v0\.(dev|app)['"]/ },
+    { description: 'Nom de package du template v0', weight: 0.8, file: /(^|\/)package\.json$/, content: /"name"\s*:\s*"my-v0-project"/ },
+    { description: '@vercel/analytics dans package.json', weight: 0.2, file: /(^|\/)package\.json$/, content: /"@vercel\/analytics"/ },
+  ],
+  rules: [
+    {
+      id: 'v0-generator-metadata',
+      name: 'generator: v0.dev',
+      severity: 'minor',
+      category: 'annotation',
+      suggestion: 'Supprimer la métadonnée generator ajoutée par v0',
+      matcher: { kind: 'regex', pattern: /generator:\s*['"]v0\.(?:dev|app)['"],?/g },
+      fix: { kind: 'remove' },
+      files: CODE_FILES,
+    },
+    {
+      id: 'vercel-analytics',
+      name: '@vercel/analytics',
+      severity: 'minor',
+      category: 'telemetry',
+      suggestion: 'Remplacer par une analytique auto-hébergée (Plausible, Umami)',
+      matcher: { kind: 'regex', pattern: /@vercel\/(?:analytics|speed-insights)(?:\/[a-z]+)?/g },
+      fix: { kind: 'replace', replacement: '@/lib/analytics' },
+      files: CODE_FILES,
+    },
+  ],
+  removeFiles: [],
+  // Du plus spécifique au plus général: le premier fragment trouvé dans la ligne l'emporte
+  importReplacements: {
+    '@vercel/analytics/next': {
+      replacement: '@/lib/analytics',
+      description: 'Analytique locale (no-op à brancher sur Plausible/Umami)'
+    },
+    '@vercel/analytics/react': {
+      replacement: '@/lib/analytics',
+      description: 'Analytique locale (no-op à brancher sur Plausible/Umami)'
+    },
+    '@vercel/speed-insights/next': {
+      replacement: '@/lib/analytics',
+      description: 'Analytique locale (no-op à brancher sur Plausible/Umami)'
+    },
+    '@vercel/analytics': {
+      replacement: '@/lib/analytics',
+      description: 'Analytique locale (no-op à brancher sur Plausible/Umami)'
+    },
+  },
+  patternReplacements: [
+    {
+      pattern: /^[ \t]*generator:\s*['"]v0\.(?:dev|app)['"],?[ \t]*\n/gm,
+      replacement: '',
+      description: 'Suppression métadonnée generator v0'
+    },
+  ],
+  dependencyReplacements: {
+    '@vercel/analytics': {
+      action: 'remove',
+      package: '@vercel/analytics',
+      reason: 'Télémétrie Vercel - remplacée par @/lib/analytics'
+    },
+    '@vercel/speed-insights': {
+      action: 'remove',
+      package: '@vercel/speed-insights',
+      reason: 'Télémétrie Vercel - remplacée par @/lib/analytics'
+    },
+  },
+  polyfills: (files) => {
+    const importsAnalytics = Object.values(files).some(content => /from\s+['"]@\/lib\/analytics['"]/.test(content));
+    // Les projets v0 (Next.js) n'ont en général pas de dossier src/: "@/" pointe alors sur la racine
+    const root = Object.keys(files).some(path => path.startsWith('src/')) ? 'src/' : '';
+    const path = `${root}lib/analytics.tsx`;
+    if (!importsAnalytics || files[path] !== undefined) return {};
+
+    return {
+      [path]: `/**
+ * Analytics - remplacement souverain de @vercel/analytics
+ * Généré automatiquement par Inopay Liberator
+ * Branchez ici votre solution auto-hébergée (Plausible, Umami)
+ */
+
+export function track(_event: string, _properties?: Record<string, unknown>): void {
+  // No-op
+}
+
+export function Analytics(_props: Record<string, unknown> = {}) {
+  return null;
+}
+
+export function SpeedInsights(_props: Record<string, unknown> = {}) {
+  return null;
+}
+
+export default Analytics;
+`
+    };
+  },
+  fixPackageJson: (pkg, context) => renameTemplatePackage(pkg, ['my-v0-project'], context),
+};
+
+// ============= CURSOR =============
+
+export const cursorPlugin: PlatformPlugin = {
+  id: 'cursor',
+  name: 'Cursor',
+  heuristics: [
+    { description: 'Dossier .cursor/', weight: 1, file: /(^|\/)\.cursor\// },
+    { description: 'Fichier .cursorrules', weight: 1, file: /(^|\/)\.cursorrules$/ },
+    { description: 'Configuration Cursor', weight: 1, file: /(^|\/)cursor\.config\.[a-z]+$/ },
+  ],
+  rules: [],
+  removeFiles: ['.cursor', 'cursor.config'],
+  importReplacements: {},
+  patternReplacements: [],
+  dependencyReplacements: {},
+};
+
+// ============= REGISTRY =============
+
+/** Confiance minimale pour qu'une plateforme soit considérée comme détectée */
+export const DETECTION_THRESHOLD = 0.5;
+
+const plugins = new Map<string, PlatformPlugin>();
+
+/**
+ * Enregistre (ou remplace) un plugin de plateforme
+ */
+export function registerPlatformPlugin(plugin: PlatformPlugin): void {
+  plugins.set(plugin.id, plugin);
+}
+
+export function getPlatformPlugins(): PlatformPlugin[] {
+  return Array.from(plugins.values());
+}
+
+export function getPlatformPlugin(id: string): PlatformPlugin | undefined {
+  return plugins.get(id);
+}
+
+[lovablePlugin, boltPlugin, v0Plugin, cursorPlugin].forEach(registerPlatformPlugin);
+
+/**
+ * Évalue les heuristiques de chaque plugin, par confiance décroissante
+ */
+export function detectPlatforms(
+  files: Record<string, string>,
+  candidates: PlatformPlugin[] = getPlatformPlugins()
+): PlatformDetection[] {
+  const entries = Object.entries(files);
+  const detections: PlatformDetection[] = [];
+
+  for (const plugin of candidates) {
+    const evidence: string[] = [];
+    let score = 0;
+
+    for (const heuristic of plugin.heuristics) {
+      const match = entries.find(([path, content]) =>
+        heuristic.file.test(path) && (!heuristic.content || heuristic.content.test(content))
+      );
+      if (match) {
+        evidence.push(`${heuristic.description} (${match[0]})`);
+        score += heuristic.weight;
+      }
+    }
+
+    if (evidence.length > 0) {
+      detections.push({
+        platform: plugin.id,
+        name: plugin.name,
+        confidence: Math.round(Math.min(1, score) * 100) / 100,
+        evidence,
+      });
+    }
+  }
+
+  return detections.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Plugins à appliquer: les plateformes détectées, ou tous les plugins si aucune ne l'est
+ */
+export function selectPlatformPlugins(
+  detections: PlatformDetection[],
+  threshold: number = DETECTION_THRESHOLD
+): PlatformPlugin[] {
+  const selected = detections
+    .filter(d => d.confidence >= threshold)
+    .map(d => getPlatformPlugin(d.platform))
+    .filter((p): p is PlatformPlugin => p !== undefined);
+
+  return selected.length > 0 ? selected : getPlatformPlugins();
+}
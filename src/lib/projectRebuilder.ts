@@ -5,6 +5,10 @@
 
 import { generateDockerCompose, generateCaddyfile, generateQuickDeployScript, generateEnvExample } from './dockerComposeTemplate';
 import { generateAuthDockerCompose, generateAuthAPICode, generateAuthClientAdapter } from './selfHostedAuthTemplate';
+import { extractPoliciesFromMigrations, generateAllMiddleware } from './rlsPolicyExtractor';
+import { generateRLSTestSuite } from './rlsTestSuiteGenerator';
+import { rewriteStorageUrls } from './storageMigration';
+import { detectEdgeFunctions, generateBackend, SERVICE_ENV_VARS, type BackendOutput, type BackendTarget } from './edgeFunctionParser';
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES & INTERFACES
@@ -23,6 +27,10 @@ export interface ProjectConfig {
   hasAuth: boolean;
   hasStorage: boolean;
   hasRealtime: boolean;
+
+  // Backend framework of the service converted from the Edge Functions
+  // (template Express backend when omitted)
+  backendFramework?: BackendTarget;
   
   // AI options
   aiProvider?: 'ollama' | 'lmstudio' | 'openwebui' | 'openai-compatible' | 'none';
@@ -34,6 +42,10 @@ export interface ProjectConfig {
   
   // Database options
   databaseType?: 'postgres' | 'mysql' | 'sqlite' | 'mongodb';
+
+  // Storage options: URL publique des buckets migrés (MinIO/S3), réécrit les URLs Supabase Storage
+  storagePublicUrl?: string;
+  storageBucketPrefix?: string;
   
   // Deployment options
   domain?: string;
@@ -123,6 +135,8 @@ export interface RebuildStats {
 export class ProjectRebuilder {
   private config: ProjectConfig;
   private files: Map<string, string> = new Map();
+  private hasRLSTests = false;
+  private edgeFunctionService?: BackendOutput;
   private structure: ProjectStructure = {
     backend: [],
     frontend: [],
@@ -197,8 +211,21 @@ export class ProjectRebuilder {
   // ═══════════════════════════════════════════════════════════════
 
   private generateFrontendStructure(): void {
+    // Point Supabase Storage URLs at the migrated buckets
+    let sourceFiles = this.config.sourceFiles;
+    if (this.config.storagePublicUrl) {
+      const { files, rewrites } = rewriteStorageUrls(sourceFiles, {
+        publicBaseUrl: this.config.storagePublicUrl,
+        bucketPrefix: this.config.storageBucketPrefix,
+      });
+      sourceFiles = files;
+      if (rewrites.length > 0 && !this.config.envVars.includes('VITE_STORAGE_PUBLIC_URL')) {
+        this.config.envVars = [...this.config.envVars, 'VITE_STORAGE_PUBLIC_URL'];
+      }
+    }
+
     // Copy cleaned source files
-    for (const [path, content] of this.config.sourceFiles) {
+    for (const [path, content] of sourceFiles) {
       if (this.isFrontendFile(path)) {
         const newPath = `frontend/${path}`;
         this.files.set(newPath, content);
@@ -440,31 +467,35 @@ export default defineConfig({
   // ═══════════════════════════════════════════════════════════════
 
   private generateBackendStructure(): void {
-    // Generate backend entry point
-    this.files.set('backend/src/index.ts', this.generateBackendEntry());
-    this.structure.backend.push('backend/src/index.ts');
-
-    // Generate routes
-    this.files.set('backend/src/routes/index.ts', this.generateBackendRoutes());
-    this.structure.backend.push('backend/src/routes/index.ts');
-
-    // Generate health endpoint
-    this.files.set('backend/src/routes/health.ts', this.generateHealthRoute());
-    this.structure.backend.push('backend/src/routes/health.ts');
-
-    // Generate middleware
-    this.files.set('backend/src/middleware/auth.ts', this.generateAuthMiddleware());
-    this.structure.backend.push('backend/src/middleware/auth.ts');
-
-    this.files.set('backend/src/middleware/errorHandler.ts', this.generateErrorHandler());
-    this.structure.backend.push('backend/src/middleware/errorHandler.ts');
-
-    this.files.set('backend/src/middleware/rateLimiter.ts', this.generateRateLimiter());
-    this.structure.backend.push('backend/src/middleware/rateLimiter.ts');
-
-    // Generate utils
-    this.files.set('backend/src/utils/logger.ts', this.generateLogger());
-    this.structure.backend.push('backend/src/utils/logger.ts');
+    if (this.config.backendFramework) {
+      this.generateEdgeFunctionService(this.config.backendFramework);
+    } else {
+      // Generate backend entry point
+      this.files.set('backend/src/index.ts', this.generateBackendEntry());
+      this.structure.backend.push('backend/src/index.ts');
+
+      // Generate routes
+      this.files.set('backend/src/routes/index.ts', this.generateBackendRoutes());
+      this.structure.backend.push('backend/src/routes/index.ts');
+
+      // Generate health endpoint
+      this.files.set('backend/src/routes/health.ts', this.generateHealthRoute());
+      this.structure.backend.push('backend/src/routes/health.ts');
+
+      // Generate middleware
+      this.files.set('backend/src/middleware/auth.ts', this.generateAuthMiddleware());
+      this.structure.backend.push('backend/src/middleware/auth.ts');
+
+      this.files.set('backend/src/middleware/errorHandler.ts', this.generateErrorHandler());
+      this.structure.backend.push('backend/src/middleware/errorHandler.ts');
+
+      this.files.set('backend/src/middleware/rateLimiter.ts', this.generateRateLimiter());
+      this.structure.backend.push('backend/src/middleware/rateLimiter.ts');
+
+      // Generate utils
+      this.files.set('backend/src/utils/logger.ts', this.generateLogger());
+      this.structure.backend.push('backend/src/utils/logger.ts');
+    }
 
     // Generate AI adapter if needed
     if (this.config.aiProvider && this.config.aiProvider !== 'none') {
@@ -476,6 +507,11 @@ export default defineConfig({
     if (this.config.hasDatabase) {
       this.files.set('backend/src/services/database.ts', this.generateDatabaseService());
       this.structure.backend.push('backend/src/services/database.ts');
+
+      // Politiques RLS converties en middleware Express + tests d'équivalence
+      if ((this.config.backendFramework ?? 'express') === 'express') {
+        this.generateRLSStructure();
+      }
     }
 
     // Generate package.json
@@ -491,6 +527,59 @@ export default defineConfig({
     this.structure.backend.push('backend/Dockerfile');
   }
 
+  /**
+   * Edge Functions converted into a service for the chosen framework,
+   * with its own CORS, auth and rate limiting middleware
+   */
+  private generateEdgeFunctionService(target: BackendTarget): void {
+    const edgeFunctions = detectEdgeFunctions(Object.fromEntries(this.config.sourceFiles));
+    const service = generateBackend(edgeFunctions, target);
+    this.edgeFunctionService = service;
+
+    const serviceFiles: Record<string, string> = {
+      'index.ts': service.indexContent,
+      ...service.supportFiles,
+    };
+    for (const route of service.routes) {
+      serviceFiles[`routes/${route.routeName}.ts`] = route.routeContent;
+    }
+    for (const [filename, content] of Object.entries(serviceFiles)) {
+      this.files.set(`backend/src/${filename}`, content);
+      this.structure.backend.push(`backend/src/${filename}`);
+    }
+
+    const envVars = [...SERVICE_ENV_VARS, ...edgeFunctions.flatMap(ef => ef.envVars)];
+    this.config.envVars = [...new Set([...this.config.envVars, ...envVars])];
+  }
+
+  private generateRLSStructure(): void {
+    const sourceFiles = Object.fromEntries(this.config.sourceFiles);
+    const policies = extractPoliciesFromMigrations(sourceFiles);
+    if (policies.length === 0) return;
+
+    const { middlewares, indexContent, authMiddleware, runtimeContent } = generateAllMiddleware(policies);
+    const middlewareFiles: Record<string, string> = {
+      'auth.ts': authMiddleware,
+      'rlsRuntime.ts': runtimeContent,
+      'index.ts': indexContent,
+    };
+    for (const middleware of middlewares) {
+      middlewareFiles[`${middleware.name}.ts`] = middleware.content;
+    }
+    for (const [filename, content] of Object.entries(middlewareFiles)) {
+      this.files.set(`backend/src/middleware/rls/${filename}`, content);
+      this.structure.backend.push(`backend/src/middleware/rls/${filename}`);
+    }
+
+    // Suite prouvant l'équivalence middleware / RLS d'origine (PostgreSQL local)
+    const suite = generateRLSTestSuite(policies, middlewares, sourceFiles);
+    for (const [filename, content] of Object.entries(suite.files)) {
+      this.files.set(`backend/tests/rls/${filename}`, content);
+      this.structure.backend.push(`backend/tests/rls/${filename}`);
+    }
+    this.hasRLSTests = true;
+  }
+
   private generateBackendEntry(): string {
     return `import express from 'express';
 import cors from 'cors';
@@ -945,7 +1034,7 @@ export async function transaction<T>(
   }
 
   private generateBackendPackageJson(): string {
-    const deps: Record<string, string> = {
+    const deps: Record<string, string> = this.edgeFunctionService ? { ...this.edgeFunctionService.dependencies } : {
       "express": "^4.21.0",
       "cors": "^2.8.5",
       "helmet": "^7.1.0",
@@ -958,6 +1047,20 @@ export async function transaction<T>(
       deps["pg"] = "^8.13.0";
     }
 
+    const devDeps: Record<string, string> = this.edgeFunctionService ? {
+      ...this.edgeFunctionService.devDependencies,
+      ...(this.config.hasDatabase ? { "@types/pg": "^8.11.10" } : {})
+    } : {
+      "@types/express": "^4.17.21",
+      "@types/cors": "^2.8.17",
+      "@types/compression": "^1.7.5",
+      "@types/jsonwebtoken": "^9.0.7",
+      "@types/pg": "^8.11.10",
+      "@types/node": "^22.0.0",
+      "typescript": "^5.6.0",
+      "tsx": "^4.19.0"
+    };
+
     return JSON.stringify({
       name: `${this.config.name}-backend`,
       version: this.config.version,
@@ -967,19 +1070,11 @@ export async function transaction<T>(
         dev: "tsx watch src/index.ts",
         build: "tsc",
         start: "node dist/index.js",
-        lint: "eslint src --ext .ts"
+        lint: "eslint src --ext .ts",
+        ...(this.hasRLSTests ? { "test:rls": "tsx --test tests/rls/authorization.test.ts" } : {})
       },
       dependencies: deps,
-      devDependencies: {
-        "@types/express": "^4.17.21",
-        "@types/cors": "^2.8.17",
-        "@types/compression": "^1.7.5",
-        "@types/jsonwebtoken": "^9.0.7",
-        "@types/pg": "^8.11.10",
-        "@types/node": "^22.0.0",
-        "typescript": "^5.6.0",
-        "tsx": "^4.19.0"
-      }
+      devDependencies: devDeps
     }, null, 2);
   }
 
@@ -1740,11 +1835,14 @@ export async function rebuildProject(
     hasAuth: options.hasAuth ?? true,
     hasStorage: options.hasStorage ?? false,
     hasRealtime: options.hasRealtime ?? false,
+    backendFramework: options.backendFramework,
     aiProvider: options.aiProvider || 'ollama',
     aiModel: options.aiModel,
     aiBaseUrl: options.aiBaseUrl,
     authProvider: options.authProvider || 'jwt-standalone',
     databaseType: options.databaseType || 'postgres',
+    storagePublicUrl: options.storagePublicUrl,
+    storageBucketPrefix: options.storageBucketPrefix,
     domain: options.domain,
     sslEmail: options.sslEmail,
     deploymentTarget: options.deploymentTarget || 'vps',
@@ -1,12 +1,32 @@
 /**
  * RLS Policy Extractor & Middleware Generator
  * Converts Supabase RLS policies to Express middleware
+ *
+ * Policy expressions are parsed with a PostgreSQL expression parser and
+ * translated twice: to a SQL WHERE fragment bound to the authenticated user
+ * (for queries) and to an equivalent JS guard (for rows about to be written).
+ * Sub-expressions that need the database (sub-queries, SQL functions) are
+ * delegated to it. A clause that cannot be translated faithfully produces a
+ * deny-all middleware, never a permissive one.
  */
 
+import {
+  PgExpr,
+  PgParseError,
+  formatPgExpression,
+  parsePgExpression,
+  quotePgIdentifier,
+  splitStatements,
+  tokenizePg,
+  walkPgExpression,
+} from './pgExpressionParser';
+
 export interface RLSPolicy {
   tableName: string;
+  schemaName?: string;
   policyName: string;
   command: 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'ALL';
+  permissive?: boolean;
   usingExpression?: string;
   withCheckExpression?: string;
   roles: string[];
@@ -16,144 +36,689 @@ export interface MiddlewareOutput {
   name: string;
   content: string;
   description: string;
+  translated: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface RLSTranslation {
+  expression: string;
+  /** SQL WHERE fragment, with $1..$n placeholders */
+  where: string;
+  /** JS expressions (over `user`) bound to the placeholders */
+  params: string[];
+  /** JS expression over `row` and `user` evaluating to true, false or null */
+  guard: string;
+  /** The guard awaits sub-expressions evaluated by the database */
+  usesDatabase: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export class RLSTranslationError extends Error {
+  constructor(public expression: string, public errors: string[]) {
+    super(`Cannot translate RLS expression "${expression}": ${errors.join('; ')}`);
+    this.name = 'RLSTranslationError';
+  }
 }
 
 /**
  * Parse RLS policy SQL to extract conditions
  */
 export function parseRLSPolicy(sql: string): RLSPolicy | null {
-  const policyMatch = sql.match(
-    /CREATE\s+POLICY\s+["']([^"']+)["']\s+ON\s+(?:public\.)?(\w+)/i
-  );
+  const tokens = tokenizePg(sql);
+  const isWord = (index: number, word: string) =>
+    tokens[index]?.type === 'ident' && tokens[index].value.toUpperCase() === word;
+
+  let pos = tokens.findIndex((_, index) => isWord(index, 'CREATE') && isWord(index + 1, 'POLICY'));
+  if (pos === -1) return null;
+  pos += 2;
+
+  const readName = (): string | null => {
+    const token = tokens[pos];
+    if (token.type === 'quoted' || token.type === 'string') {
+      pos++;
+      return token.value;
+    }
+    if (token.type === 'ident') {
+      pos++;
+      return token.value.toLowerCase();
+    }
+    return null;
+  };
+
+  const policyName = readName();
+  if (!policyName || !isWord(pos, 'ON')) return null;
+  pos++;
 
-  if (!policyMatch) return null;
+  const tableParts: string[] = [];
+  do {
+    const part = readName();
+    if (!part) return null;
+    tableParts.push(part);
+  } while (tokens[pos].value === '.' && tokens[pos].type === 'punct' && ++pos);
 
   const policy: RLSPolicy = {
-    tableName: policyMatch[2],
-    policyName: policyMatch[1],
+    tableName: tableParts[tableParts.length - 1],
+    schemaName: tableParts.length > 1 ? tableParts[tableParts.length - 2] : 'public',
+    policyName,
     command: 'ALL',
-    roles: ['authenticated'],
+    permissive: true,
+    roles: ['public'],
   };
 
-  // Extract command
-  const commandMatch = sql.match(/FOR\s+(SELECT|INSERT|UPDATE|DELETE|ALL)/i);
-  if (commandMatch) {
-    policy.command = commandMatch[1].toUpperCase() as RLSPolicy['command'];
-  }
+  // Returns the text between the parenthesis at `pos` and its match
+  const readParenthesized = (): string | null => {
+    if (tokens[pos].value !== '(') return null;
+    const open = pos;
+    let depth = 0;
+    for (; tokens[pos].type !== 'eof'; pos++) {
+      if (tokens[pos].type !== 'punct') continue;
+      if (tokens[pos].value === '(') depth++;
+      if (tokens[pos].value === ')' && --depth === 0) {
+        const text = sql.slice(tokens[open].end, tokens[pos].start).trim();
+        pos++;
+        return text;
+      }
+    }
+    return null;
+  };
 
-  // Extract USING expression
-  const usingMatch = sql.match(/USING\s*\(([^)]+(?:\([^)]*\))?[^)]*)\)/i);
-  if (usingMatch) {
-    policy.usingExpression = usingMatch[1].trim();
+  while (tokens[pos].type !== 'eof' && tokens[pos].value !== ';') {
+    if (isWord(pos, 'AS')) {
+      policy.permissive = !isWord(pos + 1, 'RESTRICTIVE');
+      pos += 2;
+    } else if (isWord(pos, 'FOR')) {
+      policy.command = tokens[pos + 1].value.toUpperCase() as RLSPolicy['command'];
+      pos += 2;
+    } else if (isWord(pos, 'TO')) {
+      pos++;
+      policy.roles = [];
+      do {
+        const role = readName();
+        if (role) policy.roles.push(role);
+      } while (tokens[pos].value === ',' && ++pos);
+    } else if (isWord(pos, 'USING')) {
+      pos++;
+      const expression = readParenthesized();
+      if (expression === null) return null;
+      policy.usingExpression = expression;
+    } else if (isWord(pos, 'WITH') && isWord(pos + 1, 'CHECK')) {
+      pos += 2;
+      const expression = readParenthesized();
+      if (expression === null) return null;
+      policy.withCheckExpression = expression;
+    } else {
+      return null;
+    }
   }
 
-  // Extract WITH CHECK expression
-  const withCheckMatch = sql.match(/WITH\s+CHECK\s*\(([^)]+(?:\([^)]*\))?[^)]*)\)/i);
-  if (withCheckMatch) {
-    policy.withCheckExpression = withCheckMatch[1].trim();
-  }
+  return policy;
+}
+
+// ============= TRANSLATION =============
 
-  // Extract roles
-  const rolesMatch = sql.match(/TO\s+(\w+(?:\s*,\s*\w+)*)/i);
-  if (rolesMatch) {
-    policy.roles = rolesMatch[1].split(',').map(r => r.trim());
+// auth.* helpers of Supabase, mapped to the authenticated request user
+const AUTH_FUNCTIONS: Record<string, { js: string; type: string }> = {
+  uid: { js: 'rls.uid(user)', type: 'uuid' },
+  role: { js: 'rls.authRole(user)', type: 'text' },
+  email: { js: 'rls.email(user)', type: 'text' },
+  jwt: { js: 'rls.jwt(user)', type: 'jsonb' },
+};
+
+// SQL functions the guard evaluates itself
+const JS_FUNCTIONS: Record<string, string> = {
+  lower: 'rls.lower',
+  upper: 'rls.upper',
+  coalesce: 'rls.coalesce',
+};
+
+const TEXT_TYPES = /^(text|varchar|character varying|char|character|uuid|citext|name)(\(.*\))?$/;
+const NUMERIC_TYPES = /^(int|int2|int4|int8|integer|smallint|bigint|numeric|decimal|real|float4|float8|double precision)(\(.*\))?$/;
+const BOOLEAN_TYPES = /^(bool|boolean)$/;
+const TEMPORAL_TYPES = /^(date|time|timestamp|timestamptz|interval)\b/;
+
+const isAuthCall = (node: Extract<PgExpr, { kind: 'call' }>): boolean =>
+  node.name.length === 2 && node.name[0] === 'auth';
+
+const jsProperty = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? `row.${name}` : `row[${JSON.stringify(name)}]`);
+
+interface CompiledExpression {
+  translation: RLSTranslation;
+  /** Formats the WHERE fragment with custom placeholders */
+  formatWhere: (placeholder: (index: number) => string) => string;
+}
+
+function compileExpression(expression: string, tableName: string, schemaName: string): CompiledExpression {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const denied: CompiledExpression = {
+    translation: { expression, where: 'FALSE', params: [], guard: 'false', usesDatabase: false, errors, warnings },
+    formatWhere: () => 'FALSE',
+  };
+
+  let expr: PgExpr;
+  try {
+    expr = parsePgExpression(expression);
+  } catch (error) {
+    if (!(error instanceof PgParseError)) throw error;
+    errors.push(error.message);
+    return denied;
   }
 
-  return policy;
+  // Constructs without an equivalent outside of the database session
+  walkPgExpression(expr, node => {
+    if (node.kind === 'call' && isAuthCall(node)) {
+      const helper = AUTH_FUNCTIONS[node.name[1]];
+      if (!helper) errors.push(`auth.${node.name[1]}() has no equivalent in the API token`);
+      else if (node.args.length > 0) errors.push(`auth.${node.name[1]}() takes no arguments`);
+    } else if (node.kind === 'call' && ['current_setting', 'set_config'].includes(node.name[node.name.length - 1])) {
+      errors.push(`${node.name.join('.')}() reads database session settings that the API does not set`);
+    } else if (node.kind === 'keyword' && ['CURRENT_USER', 'SESSION_USER', 'CURRENT_ROLE'].includes(node.name)) {
+      errors.push(`${node.name} refers to the database role, not to the API user`);
+    } else if (node.kind === 'exists' || node.kind === 'subquery' || node.kind === 'in' || node.kind === 'quantified') {
+      const query = 'query' in node ? node.query : undefined;
+      query?.from.forEach(item => {
+        if (item.table.length > 1 && ['auth', 'storage'].includes(item.table[0])) {
+          warnings.push(`${item.table.join('.')} is a Supabase table: it must exist on the target database`);
+        }
+      });
+    }
+  });
+  if (errors.length > 0) return denied;
+
+  // Binds auth.* calls to parameters, reusing identical ones
+  const bindAuth = (params: string[], placeholder: (index: number) => string) => (node: PgExpr) => {
+    if (node.kind !== 'call' || !isAuthCall(node)) return undefined;
+    const helper = AUTH_FUNCTIONS[node.name[1]];
+    let index = params.indexOf(helper.js);
+    if (index === -1) index = params.push(helper.js) - 1;
+    return `${placeholder(index + 1)}::${helper.type}`;
+  };
+
+  let usesDatabase = false;
+
+  // Sub-expression evaluated by the database against the candidate row
+  // (the row is exposed under the table name, so column resolution is PostgreSQL's own)
+  const delegate = (node: PgExpr): string => {
+    usesDatabase = true;
+    const params = ['row'];
+    const sql = formatPgExpression(node, bindAuth(params, index => `$${index}`));
+    const table = `${quotePgIdentifier(schemaName)}.${quotePgIdentifier(tableName)}`;
+    const query = `SELECT (${sql}) AS value FROM jsonb_populate_record(NULL::${table}, $1::jsonb) AS ${quotePgIdentifier(tableName)}`;
+    return `(await rls.select(${JSON.stringify(query)}, [${params.join(', ')}]))`;
+  };
+
+  const guard = (node: PgExpr): string => {
+    switch (node.kind) {
+      case 'literal':
+        return node.value === null ? 'null' : JSON.stringify(node.value);
+      case 'column': {
+        const column = node.path[node.path.length - 1];
+        const qualifier = node.path.slice(0, -1);
+        const ownTable =
+          qualifier.length === 0 ||
+          (qualifier.length === 1 && qualifier[0] === tableName) ||
+          (qualifier.length === 2 && qualifier[0] === schemaName && qualifier[1] === tableName);
+        if (!ownTable) errors.push(`Column ${node.path.join('.')} does not belong to ${tableName}`);
+        return jsProperty(column);
+      }
+      case 'call': {
+        if (isAuthCall(node)) return AUTH_FUNCTIONS[node.name[1]].js;
+        const helper = node.name.length === 1 ? JS_FUNCTIONS[node.name[0]] : undefined;
+        if (helper) return `${helper}(${node.args.map(guard).join(', ')})`;
+        warnings.push(`${node.name.join('.')}() is evaluated by the database: it must exist on the target server`);
+        return delegate(node);
+      }
+      case 'keyword':
+        return delegate(node);
+      case 'unary':
+        if (node.op === 'NOT') return `rls.not(${guard(node.operand)})`;
+        return node.op === '-' ? `rls.neg(${guard(node.operand)})` : guard(node.operand);
+      case 'binary':
+        switch (node.op) {
+          case 'AND':
+            return `rls.and(${guard(node.left)}, ${guard(node.right)})`;
+          case 'OR':
+            return `rls.or(${guard(node.left)}, ${guard(node.right)})`;
+          case '=':
+          case '<>':
+          case '<':
+          case '<=':
+          case '>':
+          case '>=':
+            return `rls.cmp(${guard(node.left)}, '${node.op}', ${guard(node.right)})`;
+          case '||':
+            return `rls.concat(${guard(node.left)}, ${guard(node.right)})`;
+          case '->':
+          case '->>':
+            return `rls.json(${guard(node.left)}, ${guard(node.right)}, ${node.op === '->>'})`;
+          default:
+            return delegate(node);
+        }
+      case 'is': {
+        const operand = guard(node.operand);
+        const test =
+          node.test === 'NULL' ? `rls.isNull(${operand})`
+          : node.test === 'DISTINCT' ? `rls.distinct(${operand}, ${guard(node.right!)})`
+          : `(${operand} === ${node.test === 'TRUE'})`;
+        return node.negated ? `!${test}` : test;
+      }
+      case 'in': {
+        if (node.query) return delegate(node);
+        const test = `rls.inList(${guard(node.operand)}, [${node.list!.map(guard).join(', ')}])`;
+        return node.negated ? `rls.not(${test})` : test;
+      }
+      case 'quantified':
+        if (node.query) return delegate(node);
+        return `rls.${node.quantifier === 'ANY' ? 'any' : 'all'}(${guard(node.left)}, '${node.op}', ${guard(node.right!)})`;
+      case 'between': {
+        const test = `rls.between(${guard(node.operand)}, ${guard(node.low)}, ${guard(node.high)})`;
+        return node.negated ? `rls.not(${test})` : test;
+      }
+      case 'like': {
+        const test = `rls.like(${guard(node.operand)}, ${guard(node.pattern)}, ${node.insensitive})`;
+        return node.negated ? `rls.not(${test})` : test;
+      }
+      case 'exists':
+        return delegate(node);
+      case 'subquery': {
+        // (SELECT auth.uid()) is a common planner hint, not a real sub-query
+        const [column] = node.query.columns;
+        if (node.query.from.length === 0 && !node.query.where && node.query.columns.length === 1 && column !== '*') {
+          return guard(column.expr);
+        }
+        return delegate(node);
+      }
+      case 'cast': {
+        const type = node.type.toLowerCase();
+        if (TEXT_TYPES.test(type)) return `rls.text(${guard(node.operand)})`;
+        if (NUMERIC_TYPES.test(type)) return `rls.num(${guard(node.operand)})`;
+        if (BOOLEAN_TYPES.test(type)) return `rls.bool(${guard(node.operand)})`;
+        if (TEMPORAL_TYPES.test(type)) return delegate(node);
+        // json/jsonb, enums, domains and arrays keep their value
+        return guard(node.operand);
+      }
+      case 'array':
+        return `[${node.items.map(guard).join(', ')}]`;
+      case 'subscript':
+        return `rls.at(${guard(node.operand)}, ${guard(node.index)})`;
+    }
+  };
+
+  const guardCode = guard(expr);
+  if (errors.length > 0) return denied;
+
+  const params: string[] = [];
+  const where = formatPgExpression(expr, bindAuth(params, index => `$${index}`));
+
+  return {
+    translation: { expression, where, params, guard: guardCode, usesDatabase, errors, warnings: [...new Set(warnings)] },
+    formatWhere: placeholder => formatPgExpression(expr, bindAuth([], placeholder)),
+  };
+}
+
+/**
+ * Translate an RLS expression to a SQL WHERE fragment and a JS guard
+ */
+export function translateRLSExpression(expression: string, tableName: string, schemaName = 'public'): RLSTranslation {
+  return compileExpression(expression, tableName, schemaName).translation;
 }
 
 /**
  * Convert RLS expression to JavaScript condition
+ * Throws RLSTranslationError when the expression cannot be translated.
  */
-export function convertRLSExpressionToJS(expression: string): string {
+export function convertRLSExpressionToJS(expression: string, tableName = '', schemaName = 'public'): string {
   if (!expression) return 'true';
 
-  let jsCondition = expression;
-
-  // Replace auth.uid() with req.user.id
-  jsCondition = jsCondition.replace(/auth\.uid\(\)/g, 'req.user?.id');
-
-  // Replace column references like user_id with req.body.user_id or req.params.user_id
-  jsCondition = jsCondition.replace(/(\w+)\.(\w+)/g, (match, table, col) => {
-    if (table === 'auth' || table === 'public') return match;
-    return `req.body.${col}`;
-  });
-
-  // Replace = with ===
-  jsCondition = jsCondition.replace(/\s*=\s*(?!=)/g, ' === ');
+  const translation = translateRLSExpression(expression, tableName, schemaName);
+  if (translation.usesDatabase && !tableName) {
+    translation.errors.push('A table name is required to evaluate sub-expressions in the database');
+  }
+  if (translation.errors.length > 0) {
+    throw new RLSTranslationError(expression, translation.errors);
+  }
+  return translation.guard;
+}
 
-  // Replace true/false
-  jsCondition = jsCondition.replace(/\btrue\b/gi, 'true');
-  jsCondition = jsCondition.replace(/\bfalse\b/gi, 'false');
+// ============= MIDDLEWARE GENERATION =============
 
-  // Handle has_role function
-  jsCondition = jsCondition.replace(
-    /has_role\(auth\.uid\(\),\s*['"](\w+)['"]\)/g,
-    "req.user?.role === '$1'"
-  );
+const pascalCase = (value: string) =>
+  value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
 
-  // Handle EXISTS clauses (simplified)
-  if (jsCondition.includes('EXISTS')) {
-    jsCondition = '/* Complex EXISTS clause - needs manual review */ true';
-  }
+const escapeTemplate = (value: string) => value.replace(/[\\`]/g, '\\$&').replace(/\$\{/g, '\\${');
 
-  return jsCondition;
-}
+const oneLine = (value: string) => value.replace(/\s+/g, ' ').trim();
 
 /**
  * Generate Express middleware from RLS policy
  */
 export function generateMiddleware(policy: RLSPolicy): MiddlewareOutput {
-  const middlewareName = `require${policy.tableName.charAt(0).toUpperCase() + policy.tableName.slice(1)}${policy.policyName.replace(/\s+/g, '')}`;
-  
+  const middlewareName = `require${pascalCase(policy.tableName)}${pascalCase(policy.policyName)}`;
+  const schemaName = policy.schemaName ?? 'public';
+  const permissive = policy.permissive ?? true;
+
   const description = `
-// Middleware generated from RLS policy: "${policy.policyName}"
-// Table: ${policy.tableName}
-// Command: ${policy.command}
-// Original USING: ${policy.usingExpression || 'N/A'}
-// Original WITH CHECK: ${policy.withCheckExpression || 'N/A'}
+// Middleware generated from RLS policy: "${oneLine(policy.policyName)}"
+// Table: ${schemaName}.${policy.tableName}
+// Command: ${policy.command} (${permissive ? 'PERMISSIVE' : 'RESTRICTIVE'})
+// Roles: ${policy.roles.join(', ')}
+// Original USING: ${policy.usingExpression ? oneLine(policy.usingExpression) : 'N/A'}
+// Original WITH CHECK: ${policy.withCheckExpression ? oneLine(policy.withCheckExpression) : 'N/A'}
+`;
+
+  // USING filters existing rows; WITH CHECK (or USING when absent) guards written rows.
+  // A policy without an expression for a step grants nothing for that step.
+  const readsRows = policy.command !== 'INSERT';
+  const writesRows = policy.command === 'INSERT' || policy.command === 'UPDATE' || policy.command === 'ALL';
+  const usingSource = readsRows ? policy.usingExpression : undefined;
+  const checkSource = writesRows
+    ? policy.withCheckExpression ?? (policy.command === 'INSERT' ? undefined : policy.usingExpression)
+    : undefined;
+
+  const using = usingSource ? compileExpression(usingSource, policy.tableName, schemaName) : null;
+  const check = checkSource ? compileExpression(checkSource, policy.tableName, schemaName) : null;
+
+  const errors = [...(using?.translation.errors ?? []), ...(check?.translation.errors ?? [])];
+  const warnings = [...new Set([...(using?.translation.warnings ?? []), ...(check?.translation.warnings ?? [])])];
+
+  if (errors.length > 0) {
+    const content = `import { Request, Response } from 'express';
+import type { RLSClause } from './rlsRuntime';
+
+${description}
+// ⛔ This policy could not be translated faithfully:
+${errors.map(e => `//   - ${oneLine(e)}`).join('\n')}
+// Access through it is denied until it is rewritten by hand.
+
+export const ${middlewareName}Using = (): RLSClause => ({ sql: 'FALSE', params: [] });
+
+export const ${middlewareName} = (_req: Request, res: Response) => {
+  res.status(403).json({ error: ${JSON.stringify(`Access denied: policy "${policy.policyName}" requires a manual translation`)} });
+};
 `;
 
-  let condition = 'true';
-  
-  if (policy.command === 'SELECT' || policy.command === 'ALL') {
-    condition = convertRLSExpressionToJS(policy.usingExpression || 'true');
-  } else if (policy.command === 'INSERT') {
-    condition = convertRLSExpressionToJS(policy.withCheckExpression || 'true');
-  } else {
-    condition = convertRLSExpressionToJS(policy.usingExpression || 'true');
+    return { name: middlewareName, content, description: policy.policyName, translated: false, errors, warnings };
+  }
+
+  const sections: string[] = [];
+  const entries: string[] = [];
+
+  if (using) {
+    // Placeholders are numbered from the offset given by rlsWhere()
+    const sql = using
+      .formatWhere(index => `\u0000${index}\u0000`)
+      .split('\u0000')
+      .map((part, i) => (i % 2 === 0 ? escapeTemplate(part) : `$\${offset + ${part}}`))
+      .join('');
+    sections.push(`/** Rows visible through this policy (WHERE fragment bound to the user) */
+export const ${middlewareName}Using = (user: AuthUser | undefined, offset = 0): RLSClause => ({
+  sql: \`${sql}\`,
+  params: [${using.translation.params.join(', ')}],
+});
+
+/** USING evaluated on a row: true, false or null */
+export const ${middlewareName}UsingGuard = async (row: Record<string, unknown>, user: AuthUser | undefined): Promise<unknown> =>
+  ${using.translation.guard};`);
+    entries.push(`using: offset => ${middlewareName}Using(req.user, offset),`);
+    entries.push(`guard: row => ${middlewareName}UsingGuard(row, req.user),`);
+  }
+
+  if (check) {
+    sections.push(`/** WITH CHECK evaluated on a written row: true, false or null */
+export const ${middlewareName}CheckGuard = async (row: Record<string, unknown>, user: AuthUser | undefined): Promise<unknown> =>
+  ${check.translation.guard};`);
+    entries.push(`check: row => ${middlewareName}CheckGuard(row, req.user),`);
   }
 
   const content = `import { Request, Response, NextFunction } from 'express';
+import type { AuthUser } from './auth';
+import { rls, type RLSClause } from './rlsRuntime';
+
+${description}${warnings.length > 0 ? `// ⚠️ ${warnings.join('\n// ⚠️ ')}\n` : ''}
+${sections.join('\n\n')}
+
+export const ${middlewareName} = (req: Request, _res: Response, next: NextFunction) => {
+  // Policies only apply to their roles; rows are filtered by rlsWhere() / rlsCheck()
+  if (rls.hasRole(req.user, ${JSON.stringify(policy.roles)})) {
+    req.rls = [...(req.rls ?? []), {
+      table: ${JSON.stringify(policy.tableName)},
+      policy: ${JSON.stringify(policy.policyName)},
+      command: '${policy.command}',
+      permissive: ${permissive},
+      ${entries.join('\n      ')}
+    }];
+  }
+  next();
+};
+`;
 
-${description}
-export const ${middlewareName} = (req: Request, res: Response, next: NextFunction) => {
-  try {
-    // Check if user is authenticated
-    if (!req.user) {
-      return res.status(401).json({ error: 'Authentication required' });
-    }
+  return { name: middlewareName, content, description: policy.policyName, translated: true, errors, warnings };
+}
+
+/**
+ * Generate the runtime shared by the policy middleware
+ * Predicates follow SQL NULL semantics (true / false / null); access is
+ * granted only on true.
+ */
+export function generateRLSRuntime(): string {
+  return `import { Request, Response, NextFunction } from 'express';
+import type { AuthUser } from './auth';
+
+export type RLSCommand = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RLSClause {
+  sql: string;
+  params: unknown[];
+}
+
+export interface RLSPolicyFilter {
+  table: string;
+  policy: string;
+  command: RLSCommand | 'ALL';
+  permissive: boolean;
+  using?: (offset: number) => RLSClause;
+  guard?: (row: Record<string, unknown>) => Promise<unknown>;
+  check?: (row: Record<string, unknown>) => Promise<unknown>;
+}
 
-    // Apply policy condition
-    const allowed = ${condition};
-    
-    if (!allowed) {
-      return res.status(403).json({ error: 'Access denied by policy: ${policy.policyName}' });
+export type RLSQuery = (sql: string, params: unknown[]) => Promise<{ rows: Array<Record<string, unknown>> }>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      rls?: RLSPolicyFilter[];
     }
+  }
+}
 
-    next();
-  } catch (error) {
-    console.error('Middleware error:', error);
-    res.status(500).json({ error: 'Authorization error' });
+let runQuery: RLSQuery | null = null;
+
+/**
+ * Registers the query function (e.g. pool.query) used for the policy
+ * sub-expressions evaluated by the database
+ */
+export function configureRLS(options: { query: RLSQuery }): void {
+  runQuery = options.query;
+}
+
+const isNull = (value: unknown): boolean => value === null || value === undefined;
+
+function compare(a: unknown, op: string, b: unknown): boolean | null {
+  if (isNull(a) || isNull(b)) return null;
+  let left = a instanceof Date ? a.getTime() : a;
+  let right = b instanceof Date ? b.getTime() : b;
+  if (typeof left === 'object' || typeof right === 'object') {
+    left = JSON.stringify(left);
+    right = JSON.stringify(right);
+  } else if (typeof left !== typeof right) {
+    left = String(left);
+    right = String(right);
+  }
+  switch (op) {
+    case '=': return left === right;
+    case '<>': return left !== right;
+    case '<': return (left as number) < (right as number);
+    case '<=': return (left as number) <= (right as number);
+    case '>': return (left as number) > (right as number);
+    case '>=': return (left as number) >= (right as number);
+  }
+  throw new Error('Unsupported operator ' + op);
+}
+
+function quantified(value: unknown, op: string, list: unknown, all: boolean): boolean | null {
+  if (isNull(value) || !Array.isArray(list)) return null;
+  let unknown = false;
+  for (const item of list) {
+    const result = compare(value, op, item);
+    if (result === !all) return !all;
+    if (result === null) unknown = true;
   }
+  return unknown ? null : all;
+}
+
+export const rls = {
+  // Supabase auth.* helpers
+  uid: (user?: AuthUser): string | null => user?.id ?? null,
+  email: (user?: AuthUser): string | null => user?.email ?? null,
+  jwt: (user?: AuthUser): Record<string, unknown> | null => user?.claims ?? null,
+  // Database role of the request (anon, authenticated or service_role)
+  authRole: (user?: AuthUser): string =>
+    !user ? 'anon' : user.claims?.role === 'service_role' ? 'service_role' : 'authenticated',
+  hasRole: (user: AuthUser | undefined, roles: string[]): boolean =>
+    roles.some(role => role === 'public' || role === rls.authRole(user)),
+
+  and: (a: unknown, b: unknown): boolean | null =>
+    a === false || b === false ? false : isNull(a) || isNull(b) ? null : true,
+  or: (a: unknown, b: unknown): boolean | null =>
+    a === true || b === true ? true : isNull(a) || isNull(b) ? null : false,
+  not: (a: unknown): boolean | null => (isNull(a) ? null : !a),
+  cmp: compare,
+  isNull: (a: unknown): boolean => isNull(a),
+  distinct: (a: unknown, b: unknown): boolean =>
+    isNull(a) || isNull(b) ? isNull(a) !== isNull(b) : compare(a, '<>', b) === true,
+  inList: (value: unknown, list: unknown[]): boolean | null => quantified(value, '=', list, false),
+  any: (value: unknown, op: string, list: unknown): boolean | null => quantified(value, op, list, false),
+  all: (value: unknown, op: string, list: unknown): boolean | null => quantified(value, op, list, true),
+  between: (value: unknown, low: unknown, high: unknown): boolean | null =>
+    rls.and(compare(value, '>=', low), compare(value, '<=', high)),
+  like: (value: unknown, pattern: unknown, insensitive: boolean): boolean | null => {
+    if (isNull(value) || isNull(pattern)) return null;
+    let source = '';
+    const text = String(pattern);
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\\\') source += (text[++i] ?? '').replace(/[.*+?^$()|[\\]{}\\\\]/g, '\\\\$&');
+      else if (char === '%') source += '[\\\\s\\\\S]*';
+      else if (char === '_') source += '[\\\\s\\\\S]';
+      else source += char.replace(/[.*+?^$()|[\\]{}\\\\]/g, '\\\\$&');
+    }
+    return new RegExp('^' + source + '$', insensitive ? 'i' : '').test(String(value));
+  },
+
+  neg: (a: unknown): number | null => (isNull(a) ? null : -Number(a)),
+  concat: (a: unknown, b: unknown): string | null => (isNull(a) || isNull(b) ? null : rls.text(a)! + rls.text(b)!),
+  json: (value: unknown, key: unknown, asText: boolean): unknown => {
+    if (isNull(value) || isNull(key) || typeof value !== 'object') return null;
+    const item = (value as Record<string, unknown>)[String(key)];
+    if (item === undefined || item === null) return null;
+    return asText ? (typeof item === 'object' ? JSON.stringify(item) : String(item)) : item;
+  },
+  // PostgreSQL arrays are 1-based
+  at: (list: unknown, index: unknown): unknown =>
+    Array.isArray(list) && !isNull(index) ? list[Number(index) - 1] ?? null : null,
+  text: (a: unknown): string | null =>
+    isNull(a) ? null : a instanceof Date ? a.toISOString() : typeof a === 'object' ? JSON.stringify(a) : String(a),
+  num: (a: unknown): number | null => (isNull(a) ? null : Number(a)),
+  bool: (a: unknown): boolean | null =>
+    isNull(a) ? null : typeof a === 'boolean' ? a : ['t', 'true', 'y', 'yes', 'on', '1'].includes(String(a).toLowerCase()),
+  lower: (a: unknown): string | null => (isNull(a) ? null : String(a).toLowerCase()),
+  upper: (a: unknown): string | null => (isNull(a) ? null : String(a).toUpperCase()),
+  coalesce: (...values: unknown[]): unknown => values.find(v => !isNull(v)) ?? null,
+
+  // Sub-expression evaluated by the database
+  async select(sql: string, params: unknown[]): Promise<unknown> {
+    if (!runQuery) {
+      throw new Error('RLS query function not configured: call configureRLS({ query }) at startup');
+    }
+    const values = params.map(p => (p !== null && typeof p === 'object' && !(p instanceof Date) ? JSON.stringify(p) : p));
+    const result = await runQuery(sql, values);
+    return result.rows[0]?.value ?? null;
+  },
 };
-`;
 
-  return {
-    name: middlewareName,
-    content,
-    description: policy.policyName,
+const applies = (filter: RLSPolicyFilter, table: string, command: RLSCommand) =>
+  filter.table === table && (filter.command === command || filter.command === 'ALL');
+
+/**
+ * WHERE clause for a command on a table: permissive policies are OR'ed,
+ * restrictive ones AND'ed. Without any permissive policy nothing is visible.
+ */
+export function rlsWhere(filters: RLSPolicyFilter[] | undefined, table: string, command: RLSCommand, offset = 0): RLSClause {
+  const relevant = (filters ?? []).filter(f => applies(f, table, command) && f.using);
+  const params: unknown[] = [];
+  const build = (list: RLSPolicyFilter[]) =>
+    list.map(f => {
+      const clause = f.using!(offset + params.length);
+      params.push(...clause.params);
+      return '(' + clause.sql + ')';
+    });
+
+  const permissive = build(relevant.filter(f => f.permissive));
+  if (permissive.length === 0) return { sql: 'FALSE', params: [] };
+  const restrictive = build(relevant.filter(f => !f.permissive));
+
+  return { sql: ['(' + permissive.join(' OR ') + ')', ...restrictive].join(' AND '), params };
+}
+
+/**
+ * Checks a row written by a command (INSERT / UPDATE) against the policies
+ */
+export async function rlsCheck(
+  filters: RLSPolicyFilter[] | undefined,
+  table: string,
+  command: 'INSERT' | 'UPDATE',
+  row: Record<string, unknown>
+): Promise<boolean> {
+  const relevant = (filters ?? []).filter(f => applies(f, table, command) && f.check);
+  const permissive = relevant.filter(f => f.permissive);
+  const restrictive = relevant.filter(f => !f.permissive);
+
+  let allowed = false;
+  for (const filter of permissive) {
+    if ((await filter.check!(row)) === true) {
+      allowed = true;
+      break;
+    }
+  }
+  for (const filter of restrictive) {
+    if (!allowed) break;
+    allowed = (await filter.check!(row)) === true;
+  }
+  return allowed;
+}
+
+/**
+ * Rejects the request when its body (the full row to write) fails the policies
+ */
+export const rlsCheckBody = (table: string, command: 'INSERT' | 'UPDATE' = 'INSERT') =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!(await rlsCheck(req.rls, table, command, req.body ?? {}))) {
+        return res.status(403).json({ error: 'Access denied by row-level security on ' + table });
+      }
+      next();
+    } catch (error) {
+      console.error('RLS check error:', error);
+      res.status(500).json({ error: 'Authorization error' });
+    }
   };
+`;
 }
 
 /**
@@ -167,6 +732,7 @@ export interface AuthUser {
   id: string;
   email: string;
   role?: string;
+  claims?: Record<string, unknown>;
 }
 
 declare global {
@@ -177,10 +743,18 @@ declare global {
   }
 }
 
+// Supabase tokens carry the user id in "sub"; every claim stays available to RLS (auth.jwt())
+const toAuthUser = (claims: jwt.JwtPayload): AuthUser => ({
+  id: claims.id ?? claims.sub ?? '',
+  email: claims.email ?? '',
+  role: claims.role,
+  claims,
+});
+
 export const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
-    
+
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       return res.status(401).json({ error: 'Missing or invalid authorization header' });
     }
@@ -193,9 +767,9 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
       return res.status(500).json({ error: 'Server configuration error' });
     }
 
-    const decoded = jwt.verify(token, jwtSecret) as AuthUser;
-    req.user = decoded;
-    
+    const decoded = jwt.verify(token, jwtSecret) as jwt.JwtPayload;
+    req.user = toAuthUser(decoded);
+
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
@@ -212,21 +786,21 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
 export const optionalAuth = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
-    
+
     if (authHeader && authHeader.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
       const jwtSecret = process.env.JWT_SECRET;
 
       if (jwtSecret) {
         try {
-          const decoded = jwt.verify(token, jwtSecret) as AuthUser;
-          req.user = decoded;
+          const decoded = jwt.verify(token, jwtSecret) as jwt.JwtPayload;
+          req.user = toAuthUser(decoded);
         } catch {
           // Token invalid but optional, continue without user
         }
       }
     }
-    
+
     next();
   } catch (error) {
     console.error('Optional auth error:', error);
@@ -257,12 +831,24 @@ export function generateAllMiddleware(policies: RLSPolicy[]): {
   middlewares: MiddlewareOutput[];
   indexContent: string;
   authMiddleware: string;
+  runtimeContent: string;
+  untranslated: MiddlewareOutput[];
 } {
-  const middlewares = policies.map(p => generateMiddleware(p));
+  const names = new Map<string, number>();
+  const middlewares = policies.map(p => {
+    const middleware = generateMiddleware(p);
+    const count = names.get(middleware.name) ?? 0;
+    names.set(middleware.name, count + 1);
+    if (count === 0) return middleware;
+    // Same table and policy name in another schema
+    const name = `${middleware.name}${count + 1}`;
+    return { ...middleware, name, content: middleware.content.replace(new RegExp(`\\b${middleware.name}`, 'g'), name) };
+  });
   const authMiddleware = generateAuthMiddleware();
 
   const indexContent = `// Middleware index - Auto-generated from RLS policies
 export { authMiddleware, optionalAuth, requireRole } from './auth';
+export { configureRLS, rlsWhere, rlsCheck, rlsCheckBody } from './rlsRuntime';
 
 ${middlewares.map(m => `export { ${m.name} } from './${m.name}';`).join('\n')}
 `;
@@ -271,29 +857,42 @@ ${middlewares.map(m => `export { ${m.name} } from './${m.name}';`).join('\n')}
     middlewares,
     indexContent,
     authMiddleware,
+    runtimeContent: generateRLSRuntime(),
+    untranslated: middlewares.filter(m => !m.translated),
   };
 }
 
 /**
  * Extract RLS policies from migration files
+ * Later migrations win: DROP POLICY removes a policy, CREATE POLICY replaces it.
  */
 export function extractPoliciesFromMigrations(files: Record<string, string>): RLSPolicy[] {
-  const policies: RLSPolicy[] = [];
-
-  for (const [path, content] of Object.entries(files)) {
-    if (!path.includes('migrations') || !path.endsWith('.sql')) continue;
-
-    // Find all CREATE POLICY statements
-    const policyRegex = /CREATE\s+POLICY[^;]+;/gi;
-    let match;
+  const policies = new Map<string, RLSPolicy>();
+  const key = (schema: string, table: string, name: string) => `${schema}.${table}.${name}`;
+
+  const paths = Object.keys(files)
+    .filter(path => path.includes('migrations') && path.endsWith('.sql'))
+    .sort();
+
+  for (const path of paths) {
+    for (const statement of splitStatements(files[path])) {
+      const drop = statement.match(
+        /^(?:\s|--[^\n]*\n)*DROP\s+POLICY\s+(?:IF\s+EXISTS\s+)?(?:"([^"]+)"|(\w+))\s+ON\s+(?:(?:"([^"]+)"|(\w+))\.)?(?:"([^"]+)"|(\w+))/i
+      );
+      if (drop) {
+        const name = drop[1] ?? drop[2].toLowerCase();
+        const schema = drop[3] ?? drop[4]?.toLowerCase() ?? 'public';
+        const table = drop[5] ?? drop[6].toLowerCase();
+        policies.delete(key(schema, table, name));
+        continue;
+      }
 
-    while ((match = policyRegex.exec(content)) !== null) {
-      const policy = parseRLSPolicy(match[0]);
+      const policy = parseRLSPolicy(statement);
       if (policy) {
-        policies.push(policy);
+        policies.set(key(policy.schemaName ?? 'public', policy.tableName, policy.policyName), policy);
       }
     }
   }
 
-  return policies;
+  return [...policies.values()];
 }
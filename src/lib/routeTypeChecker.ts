@@ -0,0 +1,290 @@
+/**
+ * Route Type Checker
+ * Type-checks generated Express routes in memory with the TypeScript compiler:
+ * leftovers of a partial Deno conversion (`Deno.*`, `new Response`,
+ * `req.json()`, `corsHeaders`, duplicated declarations) surface as compiler
+ * errors instead of runtime crashes on the liberated server.
+ *
+ * Packages the route imports are declared with minimal ambient types (Express
+ * and the SDKs the converter wires in); any other import is reported as a
+ * missing module, not as an error. Needs the compiler host file system
+ * (Node): in the browser the check is skipped.
+ */
+
+import ts from 'typescript';
+
+// ============= TYPES =============
+
+export interface RouteDiagnostic {
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+export interface RouteTypeCheck {
+  checked: boolean;
+  errors: RouteDiagnostic[];
+  /** Imports without types in the check (to install on the liberated backend) */
+  missingModules: string[];
+  skipped?: string;
+}
+
+// ============= CONSTANTS =============
+
+const AMBIENT_FILE = '/__route-ambient.d.ts';
+
+/** Surface of the packages used by converted routes, close to their real typings */
+export const ROUTE_AMBIENT_TYPES = `declare module 'express' {
+  // Named headers are single strings, like node:http IncomingHttpHeaders
+  interface IncomingHttpHeaders {
+    [header: string]: string | string[] | undefined;
+    authorization?: string;
+    'content-type'?: string;
+    'user-agent'?: string;
+    cookie?: string;
+    host?: string;
+    origin?: string;
+    referer?: string;
+  }
+  export interface Request {
+    method: string;
+    path: string;
+    url: string;
+    body: any;
+    query: Record<string, any>;
+    params: Record<string, string>;
+    headers: IncomingHttpHeaders;
+    get(name: string): string | undefined;
+  }
+  export interface Response {
+    status(code: number): Response;
+    json(body?: unknown): Response;
+    send(body?: unknown): Response;
+    end(): Response;
+    set(field: string, value?: string): Response;
+    setHeader(name: string, value: string | number | readonly string[]): Response;
+    redirect(url: string): void;
+  }
+  type Handler = (req: Request, res: Response, next: (error?: unknown) => void) => unknown;
+  export interface Router {
+    get(path: string, ...handlers: Handler[]): Router;
+    post(path: string, ...handlers: Handler[]): Router;
+    put(path: string, ...handlers: Handler[]): Router;
+    patch(path: string, ...handlers: Handler[]): Router;
+    delete(path: string, ...handlers: Handler[]): Router;
+    use(...handlers: unknown[]): Router;
+  }
+  export function Router(): Router;
+}
+
+declare module '@supabase/supabase-js' {
+  export function createClient(url: string, key: string, options?: unknown): any;
+}
+
+declare module 'stripe' {
+  class Stripe {
+    constructor(apiKey: string, config?: unknown);
+    [member: string]: any;
+  }
+  namespace Stripe {
+    type Event = any;
+    type Customer = any;
+    type Subscription = any;
+    type Invoice = any;
+    type PaymentIntent = any;
+    type Charge = any;
+    type Product = any;
+    type Price = any;
+    type Coupon = any;
+    type Refund = any;
+    type CustomerCreateParams = any;
+    type PaymentIntentCreateParams = any;
+    type CouponCreateParams = any;
+    type RefundCreateParams = any;
+    type SubscriptionListParams = any;
+    namespace Checkout {
+      type Session = any;
+      type SessionCreateParams = any;
+    }
+  }
+  export default Stripe;
+}
+
+declare module 'resend' {
+  export class Resend {
+    constructor(apiKey?: string);
+    [member: string]: any;
+  }
+}
+
+// Node.js built-ins need no install: typed loosely
+declare module 'node:*';
+declare module 'fs';
+declare module 'fs/promises';
+declare module 'path';
+declare module 'crypto';
+declare module 'os';
+declare module 'url';
+declare module 'util';
+declare module 'stream';
+declare module 'events';
+declare module 'http';
+declare module 'https';
+declare module 'zlib';
+declare module 'child_process';
+
+declare const process: {
+  env: Record<string, string | undefined>;
+  argv: string[];
+  cwd(): string;
+  exit(code?: number): never;
+};
+declare const Buffer: any;
+`;
+
+/** Lenient like a fresh backend tsconfig: only code that cannot run is reported */
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  types: [],
+  strict: false,
+  noEmit: true,
+  skipLibCheck: true,
+  esModuleInterop: true,
+};
+
+const MISSING_MODULE_CODES = new Set([2307, 7016]);
+
+/** Not a compiler code: Fetch API Response built in a handler compiles but is never sent by Express */
+export const FETCH_RESPONSE_CODE = 90001;
+
+// Parsed once: the default libraries dominate the cost of a check
+const libCache = new Map<string, ts.SourceFile>();
+
+// ============= CHECK =============
+
+function isLib(fileName: string): boolean {
+  const libPath = ts.getDefaultLibFilePath(COMPILER_OPTIONS);
+  return fileName.startsWith(libPath.slice(0, libPath.lastIndexOf('/') + 1));
+}
+
+function createHost(files: Map<string, string>): ts.CompilerHost {
+  return {
+    getSourceFile: (fileName, languageVersion) => {
+      const text = files.get(fileName);
+      if (text !== undefined) return ts.createSourceFile(fileName, text, languageVersion, true);
+      if (!isLib(fileName)) return undefined;
+
+      let lib = libCache.get(fileName);
+      if (!lib) {
+        const content = ts.sys.readFile(fileName);
+        if (content === undefined) return undefined;
+        lib = ts.createSourceFile(fileName, content, languageVersion);
+        libCache.set(fileName, lib);
+      }
+      return lib;
+    },
+    getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+    writeFile: () => undefined,
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    // Nothing outside the routes and the default libraries: no node_modules typings leak in
+    fileExists: fileName => files.has(fileName) || (isLib(fileName) && ts.sys.fileExists(fileName)),
+    readFile: fileName => files.get(fileName) ?? (isLib(fileName) ? ts.sys.readFile(fileName) : undefined),
+  };
+}
+
+function toDiagnostic(diagnostic: ts.Diagnostic): RouteDiagnostic {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : { line: 0, character: 0 };
+  return {
+    line: position.line + 1,
+    column: position.character + 1,
+    code: diagnostic.code,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  };
+}
+
+/**
+ * `new Response(...)` / `Response.json(...)` resolving to the global Fetch API
+ * (Node 18+ has one): the handler returns it and the request hangs
+ */
+function findFetchResponses(sourceFile: ts.SourceFile, checker: ts.TypeChecker): RouteDiagnostic[] {
+  const found: RouteDiagnostic[] = [];
+  const visit = (node: ts.Node) => {
+    const target = ts.isNewExpression(node) || ts.isPropertyAccessExpression(node) ? node.expression : undefined;
+    if (target && ts.isIdentifier(target) && target.text === 'Response') {
+      const symbol = checker.getSymbolAtLocation(target);
+      if (symbol?.declarations?.some(declaration => isLib(declaration.getSourceFile().fileName))) {
+        const position = sourceFile.getLineAndCharacterOfPosition(target.getStart(sourceFile));
+        found.push({
+          line: position.line + 1,
+          column: position.character + 1,
+          code: FETCH_RESPONSE_CODE,
+          message: 'Fetch API Response is never sent by Express: use res.status(...).json(...)',
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+/**
+ * Type-checks several routes in one program (file name -> source)
+ */
+export function typeCheckRoutes(routes: Record<string, string>): Record<string, RouteTypeCheck> {
+  const names = Object.keys(routes);
+  if (!ts.sys) {
+    return Object.fromEntries(names.map(name => [name, {
+      checked: false,
+      errors: [],
+      missingModules: [],
+      skipped: 'TypeScript compiler host unavailable (browser)',
+    }]));
+  }
+
+  const paths = names.map(name => `/${name.replace(/^\/+/, '')}`);
+  const files = new Map<string, string>(paths.map((path, index) => [path, routes[names[index]]]));
+  files.set(AMBIENT_FILE, ROUTE_AMBIENT_TYPES);
+
+  const program = ts.createProgram([...paths, AMBIENT_FILE], COMPILER_OPTIONS, createHost(files));
+  const checker = program.getTypeChecker();
+
+  return Object.fromEntries(names.map((name, index) => {
+    const sourceFile = program.getSourceFile(paths[index])!;
+    const diagnostics = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ];
+    const missingModules = new Set<string>();
+    const errors: RouteDiagnostic[] = [];
+
+    for (const diagnostic of diagnostics) {
+      const result = toDiagnostic(diagnostic);
+      const missing = MISSING_MODULE_CODES.has(diagnostic.code) && result.message.match(/module '([^']+)'/);
+      if (missing) {
+        missingModules.add(missing[1]);
+      } else if (diagnostic.category === ts.DiagnosticCategory.Error) {
+        errors.push(result);
+      }
+    }
+    errors.push(...findFetchResponses(sourceFile, checker));
+
+    return [name, { checked: true, errors, missingModules: [...missingModules] }];
+  }));
+}
+
+/**
+ * Type-checks one generated route
+ */
+export function typeCheckRoute(source: string, fileName = 'route.ts'): RouteTypeCheck {
+  return typeCheckRoutes({ [fileName]: source })[fileName];
+}
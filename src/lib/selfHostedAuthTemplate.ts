@@ -3,6 +3,8 @@
  * Generates a complete auth solution for liberated projects
  */
 
+import { AUTH_IDENTITIES_IMPORT_SQL, AUTH_IDENTITIES_TABLE_SQL, AUTH_USERS_IMPORT_SQL } from './authUserMigration';
+
 export interface AuthTemplateConfig {
   projectName: string;
   hasExistingUsers: boolean;
@@ -231,7 +233,7 @@ const REFRESH_EXPIRY = process.env.REFRESH_TOKEN_EXPIRY || '30d';
 interface User {
   id: string;
   email: string;
-  encrypted_password: string;
+  encrypted_password: string | null;
   email_confirmed_at?: Date;
   created_at: Date;
   updated_at: Date;
@@ -363,6 +365,10 @@ app.post('/auth/v1/token', async (req, res) => {
     }
     
     const user = result.rows[0];
+    // Comptes migrés sans mot de passe (connexion OAuth uniquement)
+    if (!user.encrypted_password) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
     const validPassword = await bcrypt.compare(password, user.encrypted_password);
     
     if (!validPassword) {
@@ -596,7 +602,7 @@ CREATE SCHEMA IF NOT EXISTS auth;
 CREATE TABLE IF NOT EXISTS auth.users (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   email VARCHAR(255) UNIQUE NOT NULL,
-  encrypted_password VARCHAR(255) NOT NULL,
+  encrypted_password VARCHAR(255),
   email_confirmed_at TIMESTAMPTZ,
   phone VARCHAR(20),
   phone_confirmed_at TIMESTAMPTZ,
@@ -640,6 +646,9 @@ CREATE TABLE IF NOT EXISTS auth.sessions (
   not_after TIMESTAMPTZ
 );
 
+-- Identities table (OAuth providers, importées depuis Supabase)
+${AUTH_IDENTITIES_TABLE_SQL}
+
 -- Indexes
 CREATE INDEX IF NOT EXISTS users_email_idx ON auth.users(email);
 CREATE INDEX IF NOT EXISTS refresh_tokens_user_id_idx ON auth.refresh_tokens(user_id);
@@ -662,91 +671,84 @@ COMMENT ON TABLE auth.users IS 'Auth: Stores user authentication data - Supabase
 
   // User migration script
   files['migrate-users.ts'] = `/**
- * Script de migration des utilisateurs depuis Supabase
+ * Script d'import des utilisateurs Supabase
  * 
  * Usage:
- * 1. Exportez vos utilisateurs depuis Supabase (Dashboard > Auth > Users > Export)
- * 2. Placez le fichier users.json dans ce dossier
- * 3. Exécutez: npx tsx migrate-users.ts
+ * 1. Exportez les comptes depuis Inopay (Admin > Migration > Comptes utilisateurs > Exporter) :
+ *    auth-users.json contient les hashes bcrypt, confirmations, métadonnées et identités OAuth
+ * 2. Placez le fichier auth-users.json dans ce dossier
+ * 3. Vérifiez: npx tsx migrate-users.ts --dry-run
+ * 4. Importez: npx tsx migrate-users.ts
+ *
+ * Les mots de passe existants restent valides (mêmes hashes bcrypt).
+ * Relancer l'import ne duplique rien : les comptes déjà présents sont conservés.
  */
 
 import { Pool } from 'pg';
 import * as fs from 'fs';
 
-interface SupabaseUser {
+interface AuthMigrationIssue {
   id: string;
-  email: string;
-  encrypted_password: string;
-  email_confirmed_at: string | null;
-  phone: string | null;
-  phone_confirmed_at: string | null;
-  created_at: string;
-  updated_at: string;
-  last_sign_in_at: string | null;
-  raw_user_meta_data: Record<string, any>;
-  raw_app_meta_data: Record<string, any>;
+  email: string | null;
+  code: string;
+  message: string;
+}
+
+interface AuthUsersExport {
+  users: Array<{ id: string; email: string; encrypted_password: string | null }>;
+  identities: Array<{ user_id: string; provider: string; provider_id: string }>;
+  report: { total: number; skipped: AuthMigrationIssue[]; warnings: AuthMigrationIssue[] };
 }
 
+const USERS_SQL = \`${AUTH_USERS_IMPORT_SQL}\`;
+
+const IDENTITIES_SQL = \`${AUTH_IDENTITIES_IMPORT_SQL}\`;
+
 async function migrateUsers() {
+  const dryRun = process.argv.includes('--dry-run');
+  const data: AuthUsersExport = JSON.parse(fs.readFileSync('./auth-users.json', 'utf-8'));
+  const { report } = data;
+
+  console.log(\`\${report.total} comptes exportés, \${data.users.length} à importer, \${data.identities.length} identités\`);
+  for (const issue of report.skipped) {
+    console.log(\`  ✗ Non migré \${issue.email ?? issue.id}: \${issue.code} (\${issue.message})\`);
+  }
+  for (const issue of report.warnings) {
+    console.log(\`  ⚠ \${issue.email ?? issue.id}: \${issue.code} (\${issue.message})\`);
+  }
+
+  if (dryRun) {
+    console.log('\\nDry-run : aucune écriture');
+    return;
+  }
+
   const pool = new Pool({
     connectionString: process.env.DATABASE_URL
   });
+  const client = await pool.connect();
 
   try {
-    // Read exported users
-    const usersData = fs.readFileSync('./users.json', 'utf-8');
-    const users: SupabaseUser[] = JSON.parse(usersData);
-    
-    console.log(\`Found \${users.length} users to migrate\`);
-    
-    let migrated = 0;
-    let skipped = 0;
-    
-    for (const user of users) {
-      try {
-        // Check if user already exists
-        const existing = await pool.query('SELECT id FROM auth.users WHERE id = $1 OR email = $2', [user.id, user.email]);
-        
-        if (existing.rows.length > 0) {
-          console.log(\`Skipping existing user: \${user.email}\`);
-          skipped++;
-          continue;
-        }
-        
-        // Insert user
-        await pool.query(\`
-          INSERT INTO auth.users (
-            id, email, encrypted_password, email_confirmed_at, phone, phone_confirmed_at,
-            created_at, updated_at, last_sign_in_at, raw_user_meta_data, raw_app_meta_data
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-        \`, [
-          user.id,
-          user.email,
-          user.encrypted_password,
-          user.email_confirmed_at,
-          user.phone,
-          user.phone_confirmed_at,
-          user.created_at,
-          user.updated_at,
-          user.last_sign_in_at,
-          JSON.stringify(user.raw_user_meta_data || {}),
-          JSON.stringify(user.raw_app_meta_data || {})
-        ]);
-        
-        console.log(\`Migrated: \${user.email}\`);
-        migrated++;
-      } catch (error) {
-        console.error(\`Failed to migrate \${user.email}:\`, error);
-      }
-    }
-    
-    console.log(\`\\n✅ Migration complete: \${migrated} migrated, \${skipped} skipped\`);
+    // Comptes et identités dans une seule transaction
+    await client.query('BEGIN');
+    const users = await client.query(USERS_SQL, [JSON.stringify(data.users)]);
+    const identities = await client.query(IDENTITIES_SQL, [JSON.stringify(data.identities)]);
+    await client.query('COMMIT');
+
+    const imported = users.rows[0].count;
+    console.log(\`\\n✅ Migration complete: \${imported} users, \${identities.rows[0].count} identities, \${data.users.length - imported} already present\`);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
   } finally {
+    client.release();
     await pool.end();
   }
 }
 
-migrateUsers().catch(console.error);
+migrateUsers().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
 `;
 
   return { files };
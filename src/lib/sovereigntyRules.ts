@@ -0,0 +1,595 @@
+// @inopay-core-protected
+/**
+ * Sovereignty Rule Registry
+ * Single source of truth for proprietary pattern detection and scoring.
+ *
+ * Consumed by:
+ * - the web app (lovablePatternScanner.ts, clientProprietaryPatterns.ts)
+ * - the CLI (cli/src/rules.ts)
+ * - the Express backend (backend/src/services/sovereigntyRules.ts)
+ * - the edge functions (supabase/functions/_shared/sovereignty-rules.ts)
+ *
+ * The three copies are generated by `npm run rules:sync` and checked by
+ * `npm run rules:check`: edit this file only, then bump RULES_VERSION.
+ *
+ * This module must stay dependency-free (it runs in Node, Deno and the browser).
+ */
+
+export const RULES_VERSION = '1.1.0';
+
+// ============= TYPES =============
+
+export type RuleSeverity = 'critical' | 'major' | 'minor';
+
+export type RuleCategory =
+  | 'api'
+  | 'agent'
+  | 'import'
+  | 'dependency'
+  | 'schema'
+  | 'supabase'
+  | 'telemetry'
+  | 'environment'
+  | 'realtime'
+  | 'annotation'
+  | 'attribute'
+  | 'custom';
+
+export interface RuleMatch {
+  line: number;
+  column: number;
+  matched: string;
+}
+
+/**
+ * How a rule finds its matches:
+ * - regex: applied line by line (a match never spans two lines)
+ * - ast: receives the whole file and returns positions (parsed structure, JSON, ...)
+ */
+export type RuleMatcher =
+  | { kind: 'regex'; pattern: RegExp }
+  | { kind: 'ast'; match: (content: string, filePath: string) => RuleMatch[] };
+
+/**
+ * How a finding is fixed:
+ * - replace: the matched text is replaced by `replacement`
+ * - remove: the matched text is deleted
+ * - remove-line: the whole line is replaced by a marker comment
+ * - manual: needs a human decision
+ */
+export type RuleFix =
+  | { kind: 'replace'; replacement: string }
+  | { kind: 'remove' }
+  | { kind: 'remove-line' }
+  | { kind: 'manual' };
+
+export interface SovereigntyRule {
+  id: string;
+  /** Display name, also accepted as key in inopay.config.json "rules" */
+  name: string;
+  severity: RuleSeverity;
+  category: RuleCategory;
+  suggestion: string;
+  matcher: RuleMatcher;
+  fix: RuleFix;
+  /** Restricts the rule to matching paths (defaults to every scannable file) */
+  files?: RegExp;
+}
+
+export interface RuleFinding extends RuleMatch {
+  ruleId: string;
+  name: string;
+  severity: RuleSeverity;
+  category: RuleCategory;
+  suggestion: string;
+  fixable: boolean;
+}
+
+export interface ProjectFinding extends RuleFinding {
+  file: string;
+}
+
+export interface SeveritySummary {
+  critical: number;
+  major: number;
+  minor: number;
+}
+
+export interface RegistryScanResult {
+  findings: ProjectFinding[];
+  proprietaryFiles: string[];
+  totalFiles: number;
+  filesScanned: number;
+  totalLines: number;
+  summary: SeveritySummary;
+  score: number;
+  grade: string;
+}
+
+// ============= FILES =============
+
+export const PROPRIETARY_FILES: string[] = [
+  'lovable.config.ts',
+  'lovable.config.js',
+  'lovable.config.json',
+  '.lovable',
+  '.lovablerc',
+  'lovable-lock.json',
+  '.agent',
+  'agent.config.ts',
+  '__lovable__',
+  '.gpt-engineer',
+  'gpt-engineer.toml',
+];
+
+export const IGNORED_DIRECTORIES: string[] = ['node_modules', '.git', 'dist', 'build', '.next', '.cache', 'coverage'];
+
+export const SCANNABLE_EXTENSIONS: string[] = [
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs',
+  '.json', '.yaml', '.yml', '.toml',
+  '.css', '.scss', '.sass', '.less',
+  '.html', '.htm', '.xml', '.svg',
+  '.md', '.mdx', '.txt', '.env',
+  '.sh', '.bash', '.zsh',
+  '.sql', '.graphql', '.gql',
+  '.vue', '.svelte', '.astro',
+];
+
+const PROPRIETARY_DEPENDENCIES = ['lovable-core', 'gpt-engineer', 'gptengineer-core'];
+
+function basenameOf(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || '';
+}
+
+/**
+ * Proprietary configuration file, removed entirely during liberation
+ */
+export function isProprietaryFile(filePath: string): boolean {
+  const name = basenameOf(filePath).toLowerCase();
+  return PROPRIETARY_FILES.some(file => file.toLowerCase() === name);
+}
+
+export function isIgnoredPath(filePath: string): boolean {
+  return filePath.split(/[\\/]/).some(segment => IGNORED_DIRECTORIES.includes(segment));
+}
+
+export function isScannableFile(filePath: string): boolean {
+  const name = basenameOf(filePath).toLowerCase();
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 && SCANNABLE_EXTENSIONS.includes(name.slice(dot));
+}
+
+// ============= AST MATCHERS =============
+
+/**
+ * Proprietary packages declared in package.json (dependencies, devDependencies, peerDependencies)
+ */
+function matchProprietaryDependencies(content: string): RuleMatch[] {
+  let pkg: Record<string, unknown>;
+  try {
+    pkg = JSON.parse(content);
+  } catch {
+    return [];
+  }
+  if (!pkg || typeof pkg !== 'object') return [];
+
+  const declared = new Set<string>();
+  for (const section of ['dependencies', 'devDependencies', 'peerDependencies']) {
+    const deps = pkg[section];
+    if (deps && typeof deps === 'object') {
+      Object.keys(deps).forEach(name => declared.add(name));
+    }
+  }
+
+  const lines = content.split('\n');
+  const matches: RuleMatch[] = [];
+  for (const name of PROPRIETARY_DEPENDENCIES) {
+    if (!declared.has(name)) continue;
+    const key = `"${name}"`;
+    const line = lines.findIndex(l => l.includes(key));
+    matches.push({
+      line: line + 1 || 1,
+      column: line >= 0 ? lines[line].indexOf(key) + 1 : 1,
+      matched: key,
+    });
+  }
+  return matches;
+}
+
+// ============= RULES =============
+
+const regex = (pattern: RegExp): RuleMatcher => ({ kind: 'regex', pattern });
+
+export const SOVEREIGNTY_RULES: SovereigntyRule[] = [
+  // === CRITICAL: Core Lovable APIs ===
+  {
+    id: 'lovable-generate',
+    name: 'lovable.generate()',
+    severity: 'critical',
+    category: 'api',
+    suggestion: 'Remplacer par unifiedLLM.complete()',
+    matcher: regex(/lovable\.generate\s*\(/g),
+    fix: { kind: 'replace', replacement: 'sovereignAI.generateCompletion(' },
+  },
+  {
+    id: 'lovable-api',
+    name: 'lovableApi',
+    severity: 'critical',
+    category: 'api',
+    suggestion: 'Utiliser API REST standard',
+    matcher: regex(/lovableApi\s*[.(]/g),
+    fix: { kind: 'manual' },
+  },
+  {
+    id: 'get-ai-assistant',
+    name: 'getAIAssistant()',
+    severity: 'critical',
+    category: 'api',
+    suggestion: 'Remplacer par sovereignAI.createAssistant()',
+    matcher: regex(/getAIAssistant\s*\(/g),
+    fix: { kind: 'replace', replacement: 'sovereignAI.createAssistant(' },
+  },
+  {
+    id: 'run-assistant',
+    name: 'runAssistant()',
+    severity: 'critical',
+    category: 'api',
+    suggestion: 'Remplacer par sovereignAI.run()',
+    matcher: regex(/runAssistant\s*\(/g),
+    fix: { kind: 'replace', replacement: 'sovereignAI.run(' },
+  },
+  {
+    id: 'agent-package',
+    name: '@agent/* packages',
+    severity: 'critical',
+    category: 'agent',
+    suggestion: 'Supprimer et utiliser alternatives open-source',
+    matcher: regex(/@agent\/[a-zA-Z-]+/g),
+    fix: { kind: 'remove-line' },
+  },
+  {
+    id: 'lovable-websocket',
+    name: 'Lovable WebSocket',
+    severity: 'critical',
+    category: 'realtime',
+    suggestion: 'Utiliser WebSocket standard',
+    matcher: regex(/new\s+WebSocket\s*\([^)]*lovable/gi),
+    fix: { kind: 'manual' },
+  },
+  {
+    id: 'lovable-service-worker',
+    name: 'Lovable service worker',
+    severity: 'critical',
+    category: 'realtime',
+    suggestion: 'Remplacer par un service worker propre',
+    matcher: regex(/navigator\.serviceWorker\.register\s*\([^)]*lovable/gi),
+    fix: { kind: 'manual' },
+  },
+
+  // === MAJOR: Dependencies & imports ===
+  {
+    id: 'lovable-package',
+    name: '@lovable/* packages',
+    severity: 'major',
+    category: 'import',
+    suggestion: 'Remplacer par équivalents npm',
+    matcher: regex(/@lovable\/[a-zA-Z-]+/g),
+    fix: { kind: 'remove-line' },
+  },
+  {
+    id: 'lovable-tagger',
+    name: 'lovable-tagger',
+    severity: 'major',
+    category: 'import',
+    suggestion: 'Supprimer ou remplacer par solution de tagging',
+    matcher: regex(/lovable-tagger/g),
+    fix: { kind: 'remove-line' },
+  },
+  {
+    id: 'gptengineer-package',
+    name: '@gptengineer/* packages',
+    severity: 'major',
+    category: 'import',
+    suggestion: 'Supprimer les dépendances GPT Engineer',
+    matcher: regex(/@gptengineer\/[a-zA-Z-]+/g),
+    fix: { kind: 'remove-line' },
+  },
+  {
+    id: 'proprietary-dependency',
+    name: 'Proprietary dependencies',
+    severity: 'major',
+    category: 'dependency',
+    suggestion: 'Retirer la dépendance de package.json',
+    matcher: { kind: 'ast', match: matchProprietaryDependencies },
+    fix: { kind: 'manual' },
+    files: /(^|[\\/])package\.json$/,
+  },
+  {
+    id: 'supabase-integration-import',
+    name: 'Supabase auto-generated',
+    severity: 'major',
+    category: 'supabase',
+    suggestion: 'Remplacer par client Supabase standard',
+    matcher: regex(/from\s+['"](?:@|\.{1,2})\/(?:\.\.\/)*integrations\/supabase/g),
+    fix: { kind: 'manual' },
+  },
+  {
+    id: 'event-schema',
+    name: 'EventSchema',
+    severity: 'major',
+    category: 'schema',
+    suggestion: 'Utiliser Zod ou Yup pour validation',
+    matcher: regex(/EventSchema\s*[.([]/g),
+    fix: { kind: 'manual' },
+  },
+  {
+    id: 'pattern-usage',
+    name: 'Pattern.*',
+    severity: 'major',
+    category: 'schema',
+    suggestion: 'Implémenter patterns localement',
+    matcher: regex(/Pattern\.[A-Z][a-zA-Z]+/g),
+    fix: { kind: 'manual' },
+  },
+
+  // === MAJOR: Telemetry & environment ===
+  {
+    id: 'lovable-telemetry-fetch',
+    name: 'Lovable API fetch',
+    severity: 'major',
+    category: 'telemetry',
+    suggestion: 'Supprimer appels télémétrie',
+    matcher: regex(/fetch\s*\(\s*['"`][^'"`]*lovable/gi),
+    fix: { kind: 'manual' },
+  },
+  {
+    id: 'lovable-beacon',
+    name: 'Lovable beacon',
+    severity: 'major',
+    category: 'telemetry',
+    suggestion: 'Supprimer sendBeacon',
+    matcher: regex(/sendBeacon\s*\([^)]*lovable/gi),
+    fix: { kind: 'manual' },
+  },
+  {
+    id: 'lovable-env-var',
+    name: 'Lovable env vars',
+    severity: 'major',
+    category: 'environment',
+    suggestion: 'Utiliser variables d\'environnement propres',
+    matcher: regex(/VITE_LOVABLE_[A-Z_]+/g),
+    fix: { kind: 'manual' },
+  },
+
+  // === MINOR: Annotations & attributes ===
+  {
+    id: 'lovable-annotation',
+    name: '@lovable- annotations',
+    severity: 'minor',
+    category: 'annotation',
+    suggestion: 'Supprimer commentaires Lovable',
+    matcher: regex(/\/\/\s*@lovable-/g),
+    fix: { kind: 'remove' },
+  },
+  {
+    id: 'lovable-block-comment',
+    name: 'Lovable block comments',
+    severity: 'minor',
+    category: 'annotation',
+    suggestion: 'Supprimer commentaires',
+    matcher: regex(/\/\*\s*lovable:/g),
+    fix: { kind: 'remove' },
+  },
+  {
+    id: 'generated-by-lovable',
+    name: 'Generated by Lovable',
+    severity: 'minor',
+    category: 'annotation',
+    suggestion: 'Supprimer commentaire de génération',
+    matcher: regex(/\/\/\s*Generated by Lovable/gi),
+    fix: { kind: 'remove' },
+  },
+  {
+    id: 'data-lovable-attr',
+    name: 'data-lovable-* attributes',
+    severity: 'minor',
+    category: 'attribute',
+    suggestion: 'Supprimer attributs data-lovable-*',
+    matcher: regex(/data-lovable-[a-z-]+(?:=(?:"[^"]*"|'[^']*'|\{[^}]*\}))?/g),
+    fix: { kind: 'remove' },
+  },
+  {
+    id: 'data-lov-id',
+    name: 'data-lov-id attributes',
+    severity: 'minor',
+    category: 'attribute',
+    suggestion: 'Supprimer attributs de tracking',
+    matcher: regex(/data-lov-id(?:=(?:"[^"]*"|'[^']*'|\{[^}]*\}))?/g),
+    fix: { kind: 'remove' },
+  },
+  {
+    id: 'lov-css-class',
+    name: 'lov-* CSS classes',
+    severity: 'minor',
+    category: 'attribute',
+    suggestion: 'Renommer classes CSS',
+    matcher: regex(/class="[^"]*lov-[^"]*"/g),
+    fix: { kind: 'manual' },
+  },
+];
+
+export function getRule(idOrName: string, rules: SovereigntyRule[] = SOVEREIGNTY_RULES): SovereigntyRule | undefined {
+  return rules.find(rule => rule.id === idOrName || rule.name === idOrName);
+}
+
+// ============= ENGINE =============
+
+function toFinding(rule: SovereigntyRule, match: RuleMatch): RuleFinding {
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    severity: rule.severity,
+    category: rule.category,
+    suggestion: rule.suggestion,
+    fixable: rule.fix.kind !== 'manual',
+    ...match,
+  };
+}
+
+/**
+ * Findings for one file, ordered by line then by rule order
+ */
+export function scanContent(content: string, filePath: string, rules: SovereigntyRule[] = SOVEREIGNTY_RULES): RuleFinding[] {
+  const lines = content.split('\n');
+  const active = rules.filter(rule => !rule.files || rule.files.test(filePath));
+  const findings: RuleFinding[] = [];
+
+  for (let lineNum = 0; lineNum < lines.length; lineNum++) {
+    const line = lines[lineNum];
+
+    for (const rule of active) {
+      if (rule.matcher.kind !== 'regex') continue;
+      const pattern = rule.matcher.pattern;
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+
+      while ((match = pattern.exec(line)) !== null) {
+        if (match[0] === '') {
+          pattern.lastIndex++;
+          continue;
+        }
+        findings.push(toFinding(rule, { line: lineNum + 1, column: match.index + 1, matched: match[0] }));
+        if (!pattern.global) break;
+      }
+    }
+  }
+
+  for (const rule of active) {
+    if (rule.matcher.kind !== 'ast') continue;
+    for (const match of rule.matcher.match(content, filePath)) {
+      findings.push(toFinding(rule, match));
+    }
+  }
+
+  // Stable: regex findings keep rule order within a line
+  return findings.sort((a, b) => a.line - b.line);
+}
+
+export function summarize(findings: { severity: RuleSeverity }[]): SeveritySummary {
+  return {
+    critical: findings.filter(f => f.severity === 'critical').length,
+    major: findings.filter(f => f.severity === 'major').length,
+    minor: findings.filter(f => f.severity === 'minor').length,
+  };
+}
+
+/**
+ * 100 minus 10 per critical, 5 per major, 1 per minor and 15 per proprietary file
+ */
+export function calculateScore(summary: SeveritySummary, proprietaryFiles: number): number {
+  const score = 100
+    - summary.critical * 10
+    - summary.major * 5
+    - summary.minor
+    - proprietaryFiles * 15;
+  return Math.max(0, Math.min(100, score));
+}
+
+export function gradeForScore(score: number): string {
+  if (score >= 95) return 'A+';
+  if (score >= 90) return 'A';
+  if (score >= 85) return 'A-';
+  if (score >= 80) return 'B+';
+  if (score >= 75) return 'B';
+  if (score >= 70) return 'B-';
+  if (score >= 65) return 'C+';
+  if (score >= 60) return 'C';
+  if (score >= 55) return 'C-';
+  if (score >= 50) return 'D';
+  return 'F';
+}
+
+/**
+ * Scans an in-memory project (path -> content). Ignored directories and
+ * non-text files are counted but not analysed.
+ */
+export function scanProject(
+  files: Record<string, string> | Map<string, string>,
+  rules: SovereigntyRule[] = SOVEREIGNTY_RULES
+): RegistryScanResult {
+  const entries = files instanceof Map ? [...files.entries()] : Object.entries(files);
+  const findings: ProjectFinding[] = [];
+  const proprietaryFiles: string[] = [];
+  let filesScanned = 0;
+  let totalLines = 0;
+
+  for (const [file, content] of entries) {
+    if (isIgnoredPath(file)) continue;
+
+    if (isProprietaryFile(file)) {
+      proprietaryFiles.push(file);
+      continue;
+    }
+
+    if (!isScannableFile(file)) continue;
+
+    filesScanned++;
+    totalLines += content.split('\n').length;
+    for (const finding of scanContent(content, file, rules)) {
+      findings.push({ file, ...finding });
+    }
+  }
+
+  const summary = summarize(findings);
+  const score = calculateScore(summary, proprietaryFiles.length);
+
+  return {
+    findings,
+    proprietaryFiles,
+    totalFiles: entries.length,
+    filesScanned,
+    totalLines,
+    summary,
+    score,
+    grade: gradeForScore(score),
+  };
+}
+
+/**
+ * Applies the automatic fixes of the given findings to a file's content
+ */
+export function applyFixes(content: string, findings: RuleFinding[], rules: SovereigntyRule[] = SOVEREIGNTY_RULES): string {
+  const lines = content.split('\n');
+
+  // Right to left so earlier columns stay valid
+  const ordered = [...findings].sort((a, b) => b.line - a.line || b.column - a.column);
+  const removedLines = new Set<number>();
+
+  for (const finding of ordered) {
+    const rule = getRule(finding.ruleId, rules);
+    const index = finding.line - 1;
+    if (!rule || removedLines.has(index) || lines[index] === undefined) continue;
+
+    const line = lines[index];
+    const start = finding.column - 1;
+    if (line.slice(start, start + finding.matched.length) !== finding.matched) continue;
+
+    switch (rule.fix.kind) {
+      case 'replace':
+        lines[index] = line.slice(0, start) + rule.fix.replacement + line.slice(start + finding.matched.length);
+        break;
+      case 'remove': {
+        // Attributes take their leading whitespace along: <div data-lov-id="x" /> → <div />
+        const from = rule.category === 'attribute' ? line.slice(0, start).trimEnd().length : start;
+        lines[index] = line.slice(0, from) + line.slice(start + finding.matched.length);
+        break;
+      }
+      case 'remove-line':
+        lines[index] = '// [REMOVED] Proprietary import';
+        removedLines.add(index);
+        break;
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -2,19 +2,39 @@
  * INOPAY UNIFIED LLM ADAPTER
  * ===========================
  * Adaptateur IA 100% Souverain
- * Supporte: Ollama, LM Studio, Open WebUI, API OpenAI-Compatible
- * 
+ * Supporte: Ollama, LM Studio, Open WebUI, vLLM, LocalAI, API OpenAI-Compatible
+ * (voir llmProviders.ts), plus un provider mock pour les tests
+ *
  * Zéro dépendance cloud propriétaire.
  * © 2024 Inovaq Canada Inc.
  */
 
+import {
+  createLLMProvider,
+  LLMError,
+  parseJsonContent,
+  validateJsonSchema,
+  type JSONSchema,
+  type LLMFinishReason,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMProviderId,
+  type LLMRequestOptions,
+  type LLMStreamChunk,
+  type LLMToolCall,
+  type LLMUsage,
+} from './llmProviders';
+
 // Types IA Souverains
-export type SovereignAIProvider = 
+export type SovereignAIProvider =
   | 'ollama'           // Ollama local (recommandé)
   | 'lmstudio'         // LM Studio
-  | 'openwebui'        // Open WebUI  
+  | 'openwebui'        // Open WebUI
   | 'openai-compatible' // API compatible OpenAI (self-hosted)
-  | 'local'            // Modèle local embarqué
+  | 'vllm'             // vLLM
+  | 'localai'          // LocalAI
+  | 'local'            // Modèle local embarqué (servi par LocalAI)
+  | 'mock'             // Réponses scriptées (tests)
   | 'none';            // Sans IA
 
 export interface UnifiedLLMConfig {
@@ -24,428 +44,267 @@ export interface UnifiedLLMConfig {
   apiKey?: string;
   timeout?: number;
   maxRetries?: number;
+  retryDelayMs?: number;
+  /** Provider déjà construit (ex: MockLLMProvider), prioritaire sur le reste */
+  instance?: LLMProvider;
 }
 
-export interface UnifiedLLMMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+export type UnifiedLLMMessage = LLMMessage;
+
+export type UnifiedLLMOptions = Omit<LLMRequestOptions, 'model'>;
 
 export interface UnifiedLLMResponse {
   content: string;
-  usage: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  toolCalls: LLMToolCall[];
+  usage: LLMUsage;
   model: string;
   provider: SovereignAIProvider;
+  finishReason: LLMFinishReason;
   latencyMs: number;
 }
 
-export interface UnifiedLLMStreamChunk {
-  content: string;
-  done: boolean;
+export type UnifiedLLMStreamChunk = LLMStreamChunk;
+
+export interface UnifiedLLMJSONResponse<T> extends UnifiedLLMResponse {
+  data: T;
+}
+
+/** Outil exécutable par runTools : schéma envoyé au modèle + implémentation */
+export interface UnifiedLLMToolHandler {
+  description?: string;
+  parameters: JSONSchema;
+  execute: (args: Record<string, unknown>) => unknown | Promise<unknown>;
 }
 
-// Configuration par défaut selon le provider
-const DEFAULT_CONFIGS: Record<SovereignAIProvider, Partial<UnifiedLLMConfig>> = {
-  ollama: {
-    baseUrl: 'http://localhost:11434',
-    model: 'llama3',
-    timeout: 60000,
-  },
-  lmstudio: {
-    baseUrl: 'http://localhost:1234/v1',
-    model: 'local-model',
-    timeout: 60000,
-  },
-  openwebui: {
-    baseUrl: 'http://localhost:3000/api',
-    model: 'llama3',
-    timeout: 60000,
-  },
-  'openai-compatible': {
-    baseUrl: 'http://localhost:8080/v1',
-    model: 'gpt-3.5-turbo',
-    timeout: 60000,
-  },
-  local: {
-    baseUrl: '',
-    model: 'embedded',
-    timeout: 120000,
-  },
-  none: {
-    baseUrl: '',
-    model: '',
-    timeout: 0,
-  },
-};
+export interface UnifiedLLMToolRun extends UnifiedLLMResponse {
+  /** Conversation complète, appels et résultats d'outils compris */
+  messages: UnifiedLLMMessage[];
+  steps: number;
+}
 
 /**
  * Classe UnifiedLLM - Adaptateur unifié pour tous les providers IA souverains
  */
 export class UnifiedLLM {
   private config: UnifiedLLMConfig;
-  private retryCount: number = 0;
+  private provider: LLMProvider | null;
 
   constructor(config: Partial<UnifiedLLMConfig>) {
-    const provider = config.provider || 'ollama';
-    const defaults = DEFAULT_CONFIGS[provider];
-    
+    const provider = config.instance?.id ?? config.provider ?? 'ollama';
+
+    this.provider = config.instance ?? (provider === 'none' ? null : createLLMProvider({
+      provider: toProviderId(provider),
+      baseUrl: config.baseUrl,
+      model: config.model,
+      apiKey: config.apiKey,
+      timeout: config.timeout,
+      maxRetries: config.maxRetries ?? 3,
+      retryDelayMs: config.retryDelayMs,
+    }));
+
     this.config = {
       provider,
-      baseUrl: config.baseUrl || defaults.baseUrl || '',
-      model: config.model || defaults.model || '',
+      baseUrl: this.provider?.config.baseUrl ?? '',
+      model: this.provider?.config.model ?? '',
       apiKey: config.apiKey,
-      timeout: config.timeout || defaults.timeout || 60000,
-      maxRetries: config.maxRetries || 3,
+      timeout: this.provider?.config.timeout ?? 0,
+      maxRetries: config.maxRetries ?? 3,
+      retryDelayMs: config.retryDelayMs,
     };
   }
 
   /**
    * Génère une complétion simple
    */
-  async complete(prompt: string, systemPrompt?: string): Promise<UnifiedLLMResponse> {
+  async complete(prompt: string, systemPrompt?: string, options?: UnifiedLLMOptions): Promise<UnifiedLLMResponse> {
     const messages: UnifiedLLMMessage[] = [];
-    
+
     if (systemPrompt) {
       messages.push({ role: 'system', content: systemPrompt });
     }
     messages.push({ role: 'user', content: prompt });
-    
-    return this.chat(messages);
+
+    return this.chat(messages, options);
   }
 
   /**
-   * Génère une complétion en mode chat
+   * Génère une complétion en mode chat (outils et format de réponse optionnels)
    */
-  async chat(messages: UnifiedLLMMessage[]): Promise<UnifiedLLMResponse> {
-    if (this.config.provider === 'none') {
+  async chat(messages: UnifiedLLMMessage[], options: UnifiedLLMOptions = {}): Promise<UnifiedLLMResponse> {
+    if (!this.provider) {
       return this.createEmptyResponse();
     }
 
-    const startTime = Date.now();
-    
-    try {
-      const response = await this.makeRequest(messages);
-      const latencyMs = Date.now() - startTime;
-      
-      return {
-        ...response,
-        latencyMs,
-        provider: this.config.provider,
-      };
-    } catch (error) {
-      if (this.retryCount < (this.config.maxRetries || 3)) {
-        this.retryCount++;
-        console.warn(`[UnifiedLLM] Retry ${this.retryCount}/${this.config.maxRetries}...`);
-        await this.delay(1000 * this.retryCount);
-        return this.chat(messages);
-      }
-      throw error;
-    }
+    const result = await this.provider.chat(messages, options);
+    return { ...result, provider: this.config.provider };
   }
 
   /**
    * Génère une complétion en streaming
    */
-  async *stream(messages: UnifiedLLMMessage[]): AsyncGenerator<UnifiedLLMStreamChunk> {
-    if (this.config.provider === 'none') {
+  async *stream(messages: UnifiedLLMMessage[], options: UnifiedLLMOptions = {}): AsyncGenerator<UnifiedLLMStreamChunk> {
+    if (!this.provider) {
       yield { content: '', done: true };
       return;
     }
 
-    const endpoint = this.getStreamEndpoint();
-    const body = this.buildRequestBody(messages, true);
-    
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Stream error: ${response.status} ${response.statusText}`);
-    }
-
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('No response body');
-    }
+    yield* this.provider.stream(messages, options);
+  }
 
-    const decoder = new TextDecoder();
-    let buffer = '';
+  /**
+   * Sortie JSON contrainte par schéma : le serveur contraint la génération,
+   * la réponse est validée ici. Une sortie invalide est renvoyée au modèle
+   * pour correction (`repairAttempts` fois)
+   */
+  async completeJSON<T = unknown>(
+    messages: UnifiedLLMMessage[],
+    schema: JSONSchema,
+    options: UnifiedLLMOptions & { name?: string; repairAttempts?: number } = {}
+  ): Promise<UnifiedLLMJSONResponse<T>> {
+    const { name = 'response', repairAttempts = 1, ...requestOptions } = options;
+    const conversation = [...messages];
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.chat(conversation, {
+        ...requestOptions,
+        responseFormat: { type: 'json_schema', name, schema },
+      });
 
-    while (true) {
-      const { done, value } = await reader.read();
-      
-      if (done) {
-        yield { content: '', done: true };
-        break;
+      let errors: string[];
+      let data: unknown;
+      try {
+        data = parseJsonContent(response.content);
+        errors = validateJsonSchema(data, schema);
+      } catch (error) {
+        errors = [`JSON invalide: ${error instanceof Error ? error.message : String(error)}`];
       }
 
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        const chunk = this.parseStreamLine(line);
-        if (chunk) {
-          yield chunk;
-        }
+      if (errors.length === 0) {
+        return { ...response, data: data as T };
+      }
+      if (attempt >= repairAttempts) {
+        throw new LLMError(`Sortie non conforme au schéma "${name}": ${errors.join('; ')}`);
       }
-    }
-  }
-
-  /**
-   * Vérifie si le provider est disponible
-   */
-  async isAvailable(): Promise<boolean> {
-    if (this.config.provider === 'none') {
-      return false;
-    }
 
-    try {
-      const healthEndpoint = this.getHealthEndpoint();
-      const response = await fetch(healthEndpoint, {
-        method: 'GET',
-        signal: AbortSignal.timeout(5000),
-      });
-      return response.ok;
-    } catch {
-      return false;
+      conversation.push(
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `Réponse non conforme au schéma JSON:\n${errors.join('\n')}\nRéponds uniquement avec un JSON corrigé.`,
+        }
+      );
     }
   }
 
   /**
-   * Liste les modèles disponibles
+   * Boucle d'appels d'outils : le modèle appelle les outils, les résultats
+   * lui sont renvoyés jusqu'à une réponse finale (ou `maxSteps` tours).
+   * Les arguments sont validés contre le schéma de l'outil avant exécution
    */
-  async listModels(): Promise<string[]> {
-    if (this.config.provider === 'none') {
-      return [];
-    }
-
-    try {
-      const endpoint = this.getModelsEndpoint();
-      const response = await fetch(endpoint, {
-        method: 'GET',
-        headers: this.getHeaders(),
-        signal: AbortSignal.timeout(10000),
+  async runTools(
+    messages: UnifiedLLMMessage[],
+    tools: Record<string, UnifiedLLMToolHandler>,
+    options: UnifiedLLMOptions & { maxSteps?: number } = {}
+  ): Promise<UnifiedLLMToolRun> {
+    const { maxSteps = 5, ...requestOptions } = options;
+    const conversation = [...messages];
+    const toolDefinitions = Object.entries(tools).map(([name, tool]) => ({
+      name,
+      description: tool.description,
+      parameters: tool.parameters,
+    }));
+
+    for (let step = 1; ; step++) {
+      const response = await this.chat(conversation, {
+        ...requestOptions,
+        tools: toolDefinitions,
+        toolChoice: step > maxSteps ? 'none' : requestOptions.toolChoice ?? 'auto',
       });
 
-      if (!response.ok) {
-        return [];
+      if (response.toolCalls.length === 0 || step > maxSteps) {
+        conversation.push({ role: 'assistant', content: response.content });
+        return { ...response, messages: conversation, steps: step };
       }
 
-      const data = await response.json();
-      return this.parseModelsResponse(data);
-    } catch {
-      return [];
-    }
-  }
-
-  // ============= Méthodes privées =============
-
-  private async makeRequest(messages: UnifiedLLMMessage[]): Promise<Omit<UnifiedLLMResponse, 'latencyMs' | 'provider'>> {
-    const endpoint = this.getCompletionEndpoint();
-    const body = this.buildRequestBody(messages, false);
-
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(body),
-      signal: AbortSignal.timeout(this.config.timeout || 60000),
-    });
+      conversation.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`LLM error: ${response.status} - ${errorText}`);
+      for (const call of response.toolCalls) {
+        const output = await this.executeTool(tools[call.name], call);
+        conversation.push({
+          role: 'tool',
+          toolCallId: call.id,
+          toolName: call.name,
+          content: typeof output === 'string' ? output : JSON.stringify(output),
+        });
+      }
     }
-
-    const data = await response.json();
-    return this.parseResponse(data);
   }
 
-  private getCompletionEndpoint(): string {
-    const { baseUrl, provider } = this.config;
-    
-    switch (provider) {
-      case 'ollama':
-        return `${baseUrl}/api/chat`;
-      case 'lmstudio':
-      case 'openai-compatible':
-        return `${baseUrl}/chat/completions`;
-      case 'openwebui':
-        return `${baseUrl}/chat/completions`;
-      default:
-        return `${baseUrl}/v1/chat/completions`;
+  /**
+   * Embeddings (un vecteur par texte)
+   */
+  async embed(input: string[]): Promise<number[][]> {
+    if (!this.provider) {
+      return [];
     }
+    return (await this.provider.embed(input)).embeddings;
   }
 
-  private getStreamEndpoint(): string {
-    return this.getCompletionEndpoint();
+  /**
+   * Vérifie si le provider est disponible
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.provider ? this.provider.isAvailable() : false;
   }
 
-  private getHealthEndpoint(): string {
-    const { baseUrl, provider } = this.config;
-    
-    switch (provider) {
-      case 'ollama':
-        return `${baseUrl}/api/tags`;
-      case 'lmstudio':
-      case 'openai-compatible':
-        return `${baseUrl}/models`;
-      default:
-        return `${baseUrl}/health`;
+  /**
+   * Liste les modèles disponibles
+   */
+  async listModels(): Promise<string[]> {
+    if (!this.provider) {
+      return [];
     }
+    return (await this.provider.listModels()).map(model => model.id);
   }
 
-  private getModelsEndpoint(): string {
-    const { baseUrl, provider } = this.config;
-    
-    switch (provider) {
-      case 'ollama':
-        return `${baseUrl}/api/tags`;
-      case 'lmstudio':
-      case 'openai-compatible':
-        return `${baseUrl}/models`;
-      default:
-        return `${baseUrl}/v1/models`;
-    }
+  getConfig(): UnifiedLLMConfig {
+    return { ...this.config };
   }
 
-  private getHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-
-    if (this.config.apiKey) {
-      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
-    }
-
-    return headers;
-  }
+  // ============= Méthodes privées =============
 
-  private buildRequestBody(messages: UnifiedLLMMessage[], stream: boolean): Record<string, unknown> {
-    const { provider, model } = this.config;
-
-    switch (provider) {
-      case 'ollama':
-        return {
-          model,
-          messages,
-          stream,
-        };
-      case 'lmstudio':
-      case 'openai-compatible':
-      case 'openwebui':
-      default:
-        return {
-          model,
-          messages,
-          stream,
-          temperature: 0.7,
-          max_tokens: 4096,
-        };
+  private async executeTool(tool: UnifiedLLMToolHandler | undefined, call: LLMToolCall): Promise<unknown> {
+    if (!tool) {
+      return { error: `Outil inconnu: ${call.name}` };
     }
-  }
 
-  private parseResponse(data: Record<string, unknown>): Omit<UnifiedLLMResponse, 'latencyMs' | 'provider'> {
-    const { provider, model } = this.config;
-
-    switch (provider) {
-      case 'ollama':
-        return {
-          content: (data.message as { content: string })?.content || '',
-          usage: {
-            promptTokens: (data.prompt_eval_count as number) || 0,
-            completionTokens: (data.eval_count as number) || 0,
-            totalTokens: ((data.prompt_eval_count as number) || 0) + ((data.eval_count as number) || 0),
-          },
-          model: (data.model as string) || model,
-        };
-      default:
-        const choices = (data.choices as Array<{ message: { content: string } }>) || [];
-        const usage = data.usage as { prompt_tokens: number; completion_tokens: number; total_tokens: number } | undefined;
-        return {
-          content: choices[0]?.message?.content || '',
-          usage: {
-            promptTokens: usage?.prompt_tokens || 0,
-            completionTokens: usage?.completion_tokens || 0,
-            totalTokens: usage?.total_tokens || 0,
-          },
-          model: (data.model as string) || model,
-        };
+    const errors = validateJsonSchema(call.arguments, tool.parameters);
+    if (errors.length > 0) {
+      return { error: `Arguments invalides: ${errors.join('; ')}` };
     }
-  }
 
-  private parseStreamLine(line: string): UnifiedLLMStreamChunk | null {
-    if (!line.trim()) return null;
-    
-    // Format SSE standard
-    if (line.startsWith('data: ')) {
-      const data = line.slice(6);
-      if (data === '[DONE]') {
-        return { content: '', done: true };
-      }
-      try {
-        const json = JSON.parse(data);
-        
-        // Format Ollama
-        if (json.message?.content !== undefined) {
-          return { content: json.message.content, done: json.done || false };
-        }
-        
-        // Format OpenAI-compatible
-        const content = json.choices?.[0]?.delta?.content || '';
-        const done = json.choices?.[0]?.finish_reason === 'stop';
-        return { content, done };
-      } catch {
-        return null;
-      }
-    }
-    
-    // Format Ollama natif (JSON par ligne)
     try {
-      const json = JSON.parse(line);
-      if (json.message?.content !== undefined) {
-        return { content: json.message.content, done: json.done || false };
-      }
-    } catch {
-      return null;
-    }
-    
-    return null;
-  }
-
-  private parseModelsResponse(data: Record<string, unknown>): string[] {
-    // Format Ollama
-    if (Array.isArray(data.models)) {
-      return data.models.map((m: { name?: string }) => m.name || '').filter(Boolean);
-    }
-    
-    // Format OpenAI-compatible
-    if (Array.isArray(data.data)) {
-      return data.data.map((m: { id?: string }) => m.id || '').filter(Boolean);
+      return await tool.execute(call.arguments);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
     }
-    
-    return [];
   }
 
   private createEmptyResponse(): UnifiedLLMResponse {
     return {
       content: '',
+      toolCalls: [],
       usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
       model: 'none',
       provider: 'none',
+      finishReason: 'stop',
       latencyMs: 0,
     };
   }
+}
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
+function toProviderId(provider: Exclude<SovereignAIProvider, 'none'>): LLMProviderId {
+  return provider === 'local' ? 'localai' : provider;
 }
 
 // ============= Factory & Helpers =============
@@ -454,10 +313,11 @@ export class UnifiedLLM {
  * Crée une instance UnifiedLLM avec configuration auto-détectée
  */
 export function createUnifiedLLM(config?: Partial<UnifiedLLMConfig>): UnifiedLLM {
+  // URL et modèle par défaut : ceux du provider choisi
   const envConfig: Partial<UnifiedLLMConfig> = {
     provider: (import.meta.env.VITE_AI_PROVIDER as SovereignAIProvider) || 'ollama',
-    baseUrl: import.meta.env.VITE_AI_BASE_URL || 'http://localhost:11434',
-    model: import.meta.env.VITE_AI_MODEL || 'llama3',
+    baseUrl: import.meta.env.VITE_AI_BASE_URL,
+    model: import.meta.env.VITE_AI_MODEL,
     apiKey: import.meta.env.VITE_AI_API_KEY,
   };
 
@@ -468,15 +328,15 @@ export function createUnifiedLLM(config?: Partial<UnifiedLLMConfig>): UnifiedLLM
  * Détecte automatiquement le provider disponible
  */
 export async function detectAvailableProvider(): Promise<SovereignAIProvider | null> {
-  const providers: SovereignAIProvider[] = ['ollama', 'lmstudio', 'openwebui', 'openai-compatible'];
-  
+  const providers: SovereignAIProvider[] = ['ollama', 'lmstudio', 'openwebui', 'vllm', 'localai', 'openai-compatible'];
+
   for (const provider of providers) {
     const llm = new UnifiedLLM({ provider });
     if (await llm.isAvailable()) {
       return provider;
     }
   }
-  
+
   return null;
 }
 
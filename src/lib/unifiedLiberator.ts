@@ -3,6 +3,7 @@
  * =========================
  * Orchestrateur central pour la libération de projets
  * Unifie tous les modules: Scanner, Cleaner, Refactor, Rebuilder
+ * Les plugins de plateforme (Lovable, Bolt, v0...) sont choisis selon la détection
  * 
  * Point d'entrée unique pour LiberationPackHub
  */
@@ -10,7 +11,16 @@
 import { LovablePatternScanner, type ScanResult, type ScanIssue } from './lovablePatternScanner';
 import { LovableCleanerEngine, type CleaningReport, type CleaningOptions } from './lovableCleanerEngine';
 import { ASTRefactor, type RefactorResult } from './astRefactor';
+import { AICleaner, type AICleaningOptions, type AICleaningReport } from './aiCleaner';
 import { ProjectRebuilder, type ProjectConfig, type RebuiltProject } from './projectRebuilder';
+import type { BackendTarget } from './edgeFunctionParser';
+import {
+  detectPlatforms,
+  getPlatformPlugin,
+  selectPlatformPlugins,
+  type PlatformDetection,
+  type PlatformPlugin,
+} from './platformPlugins';
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES & INTERFACES
@@ -19,18 +29,29 @@ import { ProjectRebuilder, type ProjectConfig, type RebuiltProject } from './pro
 export interface LiberationOptions {
   projectName: string;
   
+  // Source platforms (plugin ids); detected automatically when omitted
+  platforms?: string[];
+  
   // Cleaning options
   removeProprietaryImports?: boolean;
   removeProprietaryFiles?: boolean;
   removeTelemetry?: boolean;
   cleanComments?: boolean;
   
+  // AI-assisted cleaning through a local UnifiedLLM provider, after the
+  // deterministic rules; deterministic cleaning only when omitted
+  aiCleaning?: AICleaningOptions;
+  
   // Rebuild options
   includeBackend?: boolean;
   includeDatabase?: boolean;
   includeAuth?: boolean;
   includeStorage?: boolean;
   
+  // Framework of the backend converted from the Edge Functions
+  // (express, hono, fastify, node-http); template Express backend when omitted
+  backendFramework?: BackendTarget;
+  
   // AI options
   aiProvider?: 'ollama' | 'lmstudio' | 'openwebui' | 'openai-compatible' | 'none';
   aiModel?: string;
@@ -44,12 +65,17 @@ export interface LiberationOptions {
 export interface LiberationResult {
   success: boolean;
   
+  // Detected source platforms and the plugins applied
+  platforms: PlatformDetection[];
+  appliedPlatforms: string[];
+  
   // Phase 1: Scan
   scanResult: ScanResult;
   
   // Phase 2: Clean
   cleaningReport: CleaningReport;
   cleanedFiles: Map<string, string>;
+  aiCleaningReport?: AICleaningReport;
   
   // Phase 3: Refactor
   refactorResults: Map<string, RefactorResult>;
@@ -84,6 +110,11 @@ export interface LiberationProgress {
   progress: number; // 0-100
   message: string;
   currentFile?: string;
+  // Files handled so far in the current phase
+  filesProcessed?: number;
+  filesTotal?: number;
+  // Proprietary patterns found by the scan, by severity
+  issues?: { critical: number; major: number; minor: number };
 }
 
 export type ProgressCallback = (progress: LiberationProgress) => void;
@@ -98,6 +129,7 @@ export class UnifiedLiberator {
   private refactor: ASTRefactor;
   private options: LiberationOptions;
   private onProgress?: ProgressCallback;
+  private issues?: LiberationProgress['issues'];
 
   constructor(options: LiberationOptions, onProgress?: ProgressCallback) {
     this.options = {
@@ -114,15 +146,7 @@ export class UnifiedLiberator {
       ...options
     };
     
-    this.scanner = new LovablePatternScanner();
-    this.cleaner = new LovableCleanerEngine({
-      removeImports: this.options.removeProprietaryImports ?? true,
-      replacePatterns: true,
-      generatePolyfills: true,
-      fixDependencies: true,
-      preserveComments: !this.options.cleanComments,
-      dryRun: false
-    });
+    this.configurePlatforms(selectPlatformPlugins([]));
     this.refactor = new ASTRefactor();
     this.onProgress = onProgress;
   }
@@ -135,6 +159,9 @@ export class UnifiedLiberator {
     const startTime = Date.now();
     const errors: string[] = [];
     const warnings: string[] = [];
+    let platforms: PlatformDetection[] = [];
+    let appliedPlatforms: PlatformPlugin[] = [];
+    this.issues = undefined;
     
     try {
       // ═══════════════════════════════════════════════════════════
@@ -142,8 +169,15 @@ export class UnifiedLiberator {
       // ═══════════════════════════════════════════════════════════
       this.reportProgress('scan', 0, 'Démarrage de l\'analyse...');
       
+      platforms = detectPlatforms(files);
+      appliedPlatforms = this.resolvePlatforms(platforms, warnings);
+      this.configurePlatforms(appliedPlatforms);
+      
+      this.reportProgress('scan', 10, `Plateformes: ${appliedPlatforms.map(p => p.name).join(', ')}`);
+      
       const scanResult = await this.runScanPhase(files);
       const sovereigntyScoreBefore = scanResult.score;
+      this.issues = { ...scanResult.summary };
       
       this.reportProgress('scan', 100, `Analyse terminée: ${scanResult.issues.length} patterns détectés`);
 
@@ -154,6 +188,17 @@ export class UnifiedLiberator {
       
       const { cleaningReport, cleanedFiles } = await this.runCleanPhase(files, scanResult);
       
+      // Orphaned imports replaced by stubs need a manual rewrite
+      for (const fix of cleaningReport.deadCode.danglingImports) {
+        if (fix.action === 'stubbed') {
+          warnings.push(`${fix.file}:${fix.line} - import '${fix.specifier}' remplacé par un stub (${fix.target} supprimé)`);
+        }
+      }
+      
+      const aiCleaningReport = this.options.aiCleaning
+        ? await this.runAICleaningPhase(cleanedFiles, warnings)
+        : undefined;
+      
       this.reportProgress('clean', 100, `Nettoyage terminé: ${cleaningReport.filesModified} fichiers modifiés`);
 
       // ═══════════════════════════════════════════════════════════
@@ -205,9 +250,12 @@ export class UnifiedLiberator {
       
       return {
         success: true,
+        platforms,
+        appliedPlatforms: appliedPlatforms.map(p => p.id),
         scanResult,
         cleaningReport,
         cleanedFiles,
+        aiCleaningReport,
         refactorResults,
         rebuiltProject,
         stats: {
@@ -232,11 +280,14 @@ export class UnifiedLiberator {
       
       return {
         success: false,
+        platforms,
+        appliedPlatforms: appliedPlatforms.map(p => p.id),
         scanResult: { 
           totalFiles: 0,
           filesScanned: 0, 
           filesWithIssues: 0,
           issues: [], 
+          proprietaryFiles: [],
           summary: { critical: 0, major: 0, minor: 0 },
           score: 0, 
           grade: 'F' 
@@ -251,6 +302,7 @@ export class UnifiedLiberator {
           results: new Map(),
           cleanedFiles: {},
           packageJsonPatches: [],
+          deadCode: { removedModules: [], danglingImports: [], removedExports: [] },
           summary: {
             importsRemoved: 0,
             patternsReplaced: 0,
@@ -287,6 +339,42 @@ export class UnifiedLiberator {
     }
   }
 
+  // ═══════════════════════════════════════════════════════════════
+  // PLATFORM PLUGINS
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Plugins forced by options, otherwise the detected platforms
+   * (every plugin when nothing is detected)
+   */
+  private resolvePlatforms(detections: PlatformDetection[], warnings: string[]): PlatformPlugin[] {
+    if (!this.options.platforms?.length) {
+      return selectPlatformPlugins(detections);
+    }
+    
+    const plugins: PlatformPlugin[] = [];
+    for (const id of this.options.platforms) {
+      const plugin = getPlatformPlugin(id);
+      if (plugin) plugins.push(plugin);
+      else warnings.push(`Plateforme inconnue ignorée: ${id}`);
+    }
+    return plugins.length > 0 ? plugins : selectPlatformPlugins(detections);
+  }
+
+  private configurePlatforms(plugins: PlatformPlugin[]): void {
+    this.scanner = UnifiedLiberator.createScanner(plugins);
+    this.cleaner = new LovableCleanerEngine({
+      removeImports: this.options.removeProprietaryImports ?? true,
+      replacePatterns: true,
+      generatePolyfills: true,
+      fixDependencies: true,
+      preserveComments: !this.options.cleanComments,
+      dryRun: false,
+      platforms: plugins,
+      projectName: this.options.projectName
+    });
+  }
+
   // ═══════════════════════════════════════════════════════════════
   // PHASE RUNNERS
   // ═══════════════════════════════════════════════════════════════
@@ -311,14 +399,47 @@ export class UnifiedLiberator {
     return { cleaningReport, cleanedFiles };
   }
 
+  /**
+   * Local LLM rewrite of what the rules left behind; rejected chunks keep
+   * the deterministic output
+   */
+  private async runAICleaningPhase(
+    cleanedFiles: Map<string, string>,
+    warnings: string[]
+  ): Promise<AICleaningReport> {
+    const aiCleaner = new AICleaner(this.scanner, this.options.aiCleaning);
+    const report = await aiCleaner.cleanFiles(cleanedFiles, (file, index, total) => {
+      this.reportProgress('clean', 50 + Math.round((index / total) * 50), `Réécriture IA locale: ${file}`, file, {
+        filesProcessed: index,
+        filesTotal: total,
+      });
+    });
+    
+    if (report.candidateFiles > 0 && !report.available && report.provider !== 'none') {
+      warnings.push(`IA locale (${report.provider}) indisponible: ${report.candidateFiles} fichiers nettoyés par les règles déterministes seulement`);
+    }
+    for (const chunk of report.chunks) {
+      if (chunk.outcome !== 'accepted') {
+        warnings.push(`${chunk.file}:${chunk.startLine} - réécriture IA rejetée (${chunk.reason}), règles déterministes conservées`);
+      }
+    }
+    return report;
+  }
+
   private async runRefactorPhase(
     cleanedFiles: Map<string, string>
   ): Promise<Map<string, RefactorResult>> {
     const results = new Map<string, RefactorResult>();
+    const codeFiles = [...cleanedFiles.keys()].filter(path => this.isCodeFile(path));
+    let processed = 0;
     
     for (const [path, content] of cleanedFiles) {
       // Only refactor JS/TS files
       if (this.isCodeFile(path)) {
+        this.reportProgress('refactor', Math.round((processed / codeFiles.length) * 100), `Refactoring: ${path}`, path, {
+          filesProcessed: processed++,
+          filesTotal: codeFiles.length,
+        });
         try {
           const result = this.refactor.refactor(content, path);
           results.set(path, result);
@@ -341,6 +462,7 @@ export class UnifiedLiberator {
       hasAuth: this.options.includeAuth ?? true,
       hasStorage: this.options.includeStorage ?? false,
       hasRealtime: false,
+      backendFramework: this.options.backendFramework,
       aiProvider: this.options.aiProvider,
       domain: this.options.domain,
       sslEmail: this.options.sslEmail,
@@ -361,10 +483,11 @@ export class UnifiedLiberator {
     phase: LiberationProgress['phase'], 
     progress: number, 
     message: string,
-    currentFile?: string
+    currentFile?: string,
+    files?: Pick<LiberationProgress, 'filesProcessed' | 'filesTotal'>
   ): void {
     if (this.onProgress) {
-      this.onProgress({ phase, progress, message, currentFile });
+      this.onProgress({ phase, progress, message, currentFile, ...files, issues: this.issues });
     }
   }
 
@@ -398,10 +521,26 @@ export class UnifiedLiberator {
   // ═══════════════════════════════════════════════════════════════
 
   /**
-   * Quick scan without full liberation
+   * Registry scanner extended with the platform plugins' rules
    */
-  static quickScan(files: Record<string, string>): ScanResult {
+  static createScanner(plugins: PlatformPlugin[]): LovablePatternScanner {
     const scanner = new LovablePatternScanner();
+    const known = new Set(scanner.getPatterns().map(r => r.id));
+    
+    for (const rule of plugins.flatMap(p => p.rules)) {
+      if (!known.has(rule.id)) {
+        scanner.addPattern(rule);
+        known.add(rule.id);
+      }
+    }
+    return scanner;
+  }
+
+  /**
+   * Quick scan without full liberation (with the detected platforms' rules)
+   */
+  static quickScan(files: Record<string, string>): ScanResult {
+    const scanner = UnifiedLiberator.createScanner(selectPlatformPlugins(detectPlatforms(files)));
     return scanner.scanProject(files);
   }
 
@@ -431,6 +570,8 @@ export class UnifiedLiberator {
       success: result.success,
       timestamp: result.stats.timestamp,
       projectName: result.rebuiltProject.config.name,
+      platforms: result.platforms.map(p => ({ platform: p.platform, confidence: p.confidence, evidence: p.evidence })),
+      appliedPlatforms: result.appliedPlatforms,
       scan: {
         filesScanned: result.scanResult.filesScanned,
         issuesFound: result.scanResult.issues.length,
@@ -441,7 +582,19 @@ export class UnifiedLiberator {
         filesModified: result.cleaningReport.filesModified,
         filesRemoved: result.cleaningReport.filesRemoved,
         importsRemoved: result.cleaningReport.summary.importsRemoved,
-        patternsReplaced: result.cleaningReport.summary.patternsReplaced
+        patternsReplaced: result.cleaningReport.summary.patternsReplaced,
+        deadModulesRemoved: result.cleaningReport.deadCode.removedModules
+          .filter(m => m.reason === 'unreachable').length,
+        removedExports: result.cleaningReport.deadCode.removedExports
+      },
+      aiCleaning: result.aiCleaningReport && {
+        provider: result.aiCleaningReport.provider,
+        model: result.aiCleaningReport.model,
+        available: result.aiCleaningReport.available,
+        filesRewritten: result.aiCleaningReport.filesRewritten,
+        chunksAccepted: result.aiCleaningReport.chunks.filter(c => c.outcome === 'accepted').length,
+        chunksRejected: result.aiCleaningReport.chunks.filter(c => c.outcome !== 'accepted').length,
+        tokensUsed: result.aiCleaningReport.tokensUsed
       },
       refactoring: {
         filesRefactored: result.stats.filesRefactored,
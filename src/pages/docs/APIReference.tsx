@@ -809,16 +809,24 @@ function verifyWebhookSignature(payload, signature, secret) {
             </thead>
             <tbody>
               <tr>
-                <td className="border border-gray-200 px-3 py-2 font-mono">X-RateLimit-Limit</td>
-                <td className="border border-gray-200 px-3 py-2">Nombre max de requêtes autorisées</td>
+                <td className="border border-gray-200 px-3 py-2 font-mono">RateLimit-Policy</td>
+                <td className="border border-gray-200 px-3 py-2">Politique appliquée : <code>limite;w=fenêtre en secondes</code> (ex: <code>10;w=3600</code>)</td>
               </tr>
               <tr className="bg-gray-50">
-                <td className="border border-gray-200 px-3 py-2 font-mono">X-RateLimit-Remaining</td>
+                <td className="border border-gray-200 px-3 py-2 font-mono">RateLimit-Limit</td>
+                <td className="border border-gray-200 px-3 py-2">Nombre max de requêtes autorisées dans la fenêtre</td>
+              </tr>
+              <tr>
+                <td className="border border-gray-200 px-3 py-2 font-mono">RateLimit-Remaining</td>
                 <td className="border border-gray-200 px-3 py-2">Requêtes restantes</td>
               </tr>
+              <tr className="bg-gray-50">
+                <td className="border border-gray-200 px-3 py-2 font-mono">RateLimit-Reset</td>
+                <td className="border border-gray-200 px-3 py-2">Secondes avant le renouvellement du quota</td>
+              </tr>
               <tr>
-                <td className="border border-gray-200 px-3 py-2 font-mono">X-RateLimit-Reset</td>
-                <td className="border border-gray-200 px-3 py-2">Timestamp de reset (Unix)</td>
+                <td className="border border-gray-200 px-3 py-2 font-mono">Retry-After</td>
+                <td className="border border-gray-200 px-3 py-2">Secondes à attendre avant de réessayer (réponses 429 uniquement)</td>
               </tr>
             </tbody>
           </table>
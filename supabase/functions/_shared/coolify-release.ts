@@ -0,0 +1,208 @@
+/**
+ * Coolify release snapshots
+ * Captures what a deployment actually ran (commit, image, environment) so the
+ * exact same version can be redeployed later, and restores it on rollback.
+ *
+ * Environment values are encrypted with the edge functions master key (AES-GCM,
+ * which also detects tampering): only the variable names are readable from
+ * deployment_history.
+ */
+
+import { decryptToken, encryptToken, getMasterKey } from "./crypto-utils.ts";
+
+export interface CoolifyEnvVar {
+  key: string;
+  value: string;
+  is_build_time?: boolean;
+  is_literal?: boolean;
+  is_multiline?: boolean;
+}
+
+export interface EnvSnapshot {
+  keys: string[];
+  payload: string;
+}
+
+export interface ReleaseSnapshot {
+  git_branch: string | null;
+  commit_sha: string | null;
+  image_name: string | null;
+  image_tag: string | null;
+  env_snapshot: EnvSnapshot | null;
+}
+
+type CoolifyHeaders = Record<string, string>;
+
+interface CoolifyApplication {
+  build_pack?: string;
+  git_branch?: string;
+  git_commit_sha?: string;
+  docker_registry_image_name?: string | null;
+  docker_registry_image_tag?: string | null;
+}
+
+interface CoolifyEnvRecord extends CoolifyEnvVar {
+  is_preview?: boolean;
+}
+
+const isPinnedCommit = (sha: string | null | undefined): sha is string =>
+  !!sha && sha !== 'HEAD' && /^[0-9a-f]{7,40}$/i.test(sha);
+
+async function fetchJson<T>(url: string, headers: CoolifyHeaders): Promise<T | null> {
+  try {
+    const response = await fetch(url, { method: 'GET', headers });
+    if (!response.ok) return null;
+    return await response.json() as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Commit actually built by a Coolify deployment.
+ * Falls back to the most recent finished deployment, then to the commit pinned on the app.
+ */
+async function resolveDeployedCommit(
+  coolifyUrl: string,
+  headers: CoolifyHeaders,
+  appUuid: string,
+  deploymentUuid: string | null,
+  app: CoolifyApplication | null
+): Promise<string | null> {
+  if (deploymentUuid) {
+    const deployment = await fetchJson<{ commit?: string }>(`${coolifyUrl}/api/v1/deployments/${deploymentUuid}`, headers);
+    if (isPinnedCommit(deployment?.commit)) return deployment!.commit!;
+  }
+
+  const recent = await fetchJson<unknown>(`${coolifyUrl}/api/v1/deployments/applications/${appUuid}?take=5`, headers);
+  const list = Array.isArray(recent)
+    ? recent
+    : (recent as { deployments?: unknown[] } | null)?.deployments || [];
+  const finished = (list as Array<{ commit?: string; status?: string }>)
+    .find(d => d.status === 'finished' && isPinnedCommit(d.commit));
+  if (finished?.commit) return finished.commit;
+
+  return isPinnedCommit(app?.git_commit_sha) ? app!.git_commit_sha! : null;
+}
+
+export async function encryptEnvSnapshot(vars: CoolifyEnvVar[]): Promise<EnvSnapshot> {
+  const sorted = [...vars].sort((a, b) => a.key.localeCompare(b.key));
+  const serialized = JSON.stringify(sorted);
+
+  return {
+    keys: sorted.map(v => v.key),
+    payload: await encryptToken(serialized, getMasterKey()),
+  };
+}
+
+export async function decryptEnvSnapshot(snapshot: EnvSnapshot): Promise<CoolifyEnvVar[]> {
+  let serialized: string;
+  try {
+    serialized = await decryptToken(snapshot.payload, getMasterKey());
+  } catch {
+    throw new Error("Instantané des variables d'environnement corrompu");
+  }
+  return JSON.parse(serialized) as CoolifyEnvVar[];
+}
+
+/**
+ * Snapshot the release a Coolify application is running after a deployment
+ */
+export async function captureRelease(
+  coolifyUrl: string,
+  headers: CoolifyHeaders,
+  appUuid: string,
+  deploymentUuid: string | null
+): Promise<ReleaseSnapshot> {
+  const app = await fetchJson<CoolifyApplication>(`${coolifyUrl}/api/v1/applications/${appUuid}`, headers);
+  const commitSha = await resolveDeployedCommit(coolifyUrl, headers, appUuid, deploymentUuid, app);
+
+  // Coolify tags locally built images as <app uuid>:<commit>
+  let imageName: string | null = app?.docker_registry_image_name || null;
+  let imageTag: string | null = app?.docker_registry_image_tag || null;
+  if (app?.build_pack !== 'dockerimage') {
+    imageName = imageName || appUuid;
+    imageTag = commitSha;
+  }
+
+  let envSnapshot: EnvSnapshot | null = null;
+  const envs = await fetchJson<CoolifyEnvRecord[]>(`${coolifyUrl}/api/v1/applications/${appUuid}/envs`, headers);
+  if (Array.isArray(envs)) {
+    envSnapshot = await encryptEnvSnapshot(
+      envs
+        .filter(e => !e.is_preview)
+        .map(({ key, value, is_build_time, is_literal, is_multiline }) => ({ key, value, is_build_time, is_literal, is_multiline }))
+    );
+  }
+
+  return {
+    git_branch: app?.git_branch || null,
+    commit_sha: commitSha,
+    image_name: imageName,
+    image_tag: imageTag,
+    env_snapshot: envSnapshot,
+  };
+}
+
+/**
+ * Point a Coolify application back at a previous release: pinned commit (or
+ * image tag for prebuilt images) and the values its variables had.
+ * Variables created after that release are left in place, so a rollback never
+ * deletes configuration. Does not trigger the deployment.
+ */
+export async function restoreRelease(
+  coolifyUrl: string,
+  headers: CoolifyHeaders,
+  appUuid: string,
+  release: { commit_sha: string | null; git_branch: string | null; image_tag: string | null; env_snapshot: EnvSnapshot | null }
+): Promise<void> {
+  const app = await fetchJson<CoolifyApplication>(`${coolifyUrl}/api/v1/applications/${appUuid}`, headers);
+  if (!app) {
+    throw new Error('Application Coolify introuvable');
+  }
+
+  const patch: Record<string, unknown> = {};
+  if (app.build_pack === 'dockerimage') {
+    if (!release.image_tag) throw new Error("Aucun tag d'image enregistré pour cette version");
+    patch.docker_registry_image_tag = release.image_tag;
+  } else {
+    if (!isPinnedCommit(release.commit_sha)) throw new Error('Aucun commit enregistré pour cette version');
+    patch.git_commit_sha = release.commit_sha;
+    if (release.git_branch) patch.git_branch = release.git_branch;
+  }
+
+  const patchResponse = await fetch(`${coolifyUrl}/api/v1/applications/${appUuid}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify(patch),
+  });
+  if (!patchResponse.ok) {
+    throw new Error(`Impossible de repositionner l'application: ${await patchResponse.text()}`);
+  }
+
+  if (!release.env_snapshot) return;
+
+  const vars = await decryptEnvSnapshot(release.env_snapshot);
+  const bulkResponse = await fetch(`${coolifyUrl}/api/v1/applications/${appUuid}/envs/bulk`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify({ data: vars }),
+  });
+  if (!bulkResponse.ok) {
+    throw new Error(`Impossible de restaurer les variables d'environnement: ${await bulkResponse.text()}`);
+  }
+}
+
+/**
+ * Let the next regular deployment follow the branch again after a rollback pinned a commit
+ */
+export async function unpinRelease(coolifyUrl: string, headers: CoolifyHeaders, appUuid: string): Promise<void> {
+  const response = await fetch(`${coolifyUrl}/api/v1/applications/${appUuid}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify({ git_commit_sha: 'HEAD' }),
+  });
+  if (!response.ok) {
+    console.warn(`[coolify-release] Could not reset git_commit_sha: ${await response.text()}`);
+  }
+}
@@ -0,0 +1,391 @@
+// AUTO-GÉNÉRÉ depuis src/lib/dataMover.ts par scripts/sync-sovereignty-rules.js - NE PAS MODIFIER.
+// Modifier le fichier source puis lancer `npm run rules:sync`.
+/**
+ * Data Mover
+ * Copies table data between two PostgreSQL databases: tables in foreign-key
+ * order, rows streamed by keyset pagination, one checkpoint per batch stored
+ * on the target so an interrupted run resumes where it stopped, then row
+ * counts and checksums compared on both sides
+ *
+ * Driver-agnostic (any client exposing `query`). Shared with the edge
+ * functions (migrate-data) through `npm run rules:sync`: keep it free of imports
+ * other than pgExpressionParser.
+ */
+
+import { quotePgIdentifier, quotePgLiteral } from './pg-expression-parser.ts';
+
+// ============= TYPES =============
+
+/**
+ * Minimal client contract: one connection, parameterized queries returning rows
+ */
+export interface PgClient {
+  query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]>;
+}
+
+export interface DataMoverTable {
+  schema: string;
+  name: string;
+  /** Insertable columns (generated columns excluded) */
+  columns: string[];
+  primaryKey: string[];
+  keyTypes: string[];
+  /** Tables referenced through foreign keys (`schema.name`), self-references excluded */
+  dependsOn: string[];
+  selfReferencing: boolean;
+  /** Columns backed by a serial / identity sequence */
+  sequenceColumns: string[];
+  estimatedRows: number;
+}
+
+export type DataMoverStatus = 'pending' | 'copying' | 'done';
+
+export interface DataMoverCheckpoint {
+  table: string;
+  /** Last copied key (primary key values as text, or ctid for tables without key) */
+  cursor: string[] | null;
+  rowsCopied: number;
+  status: DataMoverStatus;
+}
+
+export interface DataMoverOptions {
+  runId: string;
+  schemas?: string[];
+  /** Restrict the run to these tables (`schema.name` or `name`) */
+  tables?: string[];
+  batchSize?: number;
+  /** Epoch ms after which no new batch starts: the run returns and can be resumed */
+  deadline?: number;
+  /** Copy with session_replication_role = replica (skips triggers and FK checks, needs superuser) */
+  disableTriggers?: boolean;
+  /** Compare row counts and checksums once every table is copied (default true) */
+  verify?: boolean;
+  onProgress?: (checkpoint: DataMoverCheckpoint) => void;
+}
+
+export interface TableVerification {
+  table: string;
+  sourceRows: number;
+  targetRows: number;
+  sourceChecksum: string;
+  targetChecksum: string;
+  ok: boolean;
+}
+
+export interface DataMoveResult {
+  runId: string;
+  done: boolean;
+  order: string[];
+  checkpoints: DataMoverCheckpoint[];
+  warnings: string[];
+  verification?: TableVerification[];
+}
+
+// Checkpoint table written on the target (never copied)
+export const DATA_MIGRATIONS_TABLE = 'inopay_data_migrations';
+
+export const DEFAULT_BATCH_SIZE = 1000;
+
+// Internal tables skipped by the copy
+const EXCLUDED_TABLES = [DATA_MIGRATIONS_TABLE, 'inopay_schema_migrations'];
+
+// ============= CATALOG =============
+
+/**
+ * One row per table of $1 (text[]): insertable columns, primary key and its
+ * types, referenced tables, sequence-backed columns and planner row estimate
+ */
+export const DATA_MOVER_TABLES_QUERY = `
+SELECT n.nspname::text AS schema,
+  c.relname::text AS name,
+  COALESCE((SELECT array_agg(a.attname::text ORDER BY a.attnum) FROM pg_attribute a
+    WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped AND a.attgenerated = ''), '{}') AS columns,
+  COALESCE((SELECT array_agg(a.attname::text ORDER BY k.ord) FROM pg_constraint p
+    CROSS JOIN LATERAL unnest(p.conkey) WITH ORDINALITY AS k(attnum, ord)
+    JOIN pg_attribute a ON a.attrelid = p.conrelid AND a.attnum = k.attnum
+    WHERE p.conrelid = c.oid AND p.contype = 'p'), '{}') AS "primaryKey",
+  COALESCE((SELECT array_agg(format_type(a.atttypid, a.atttypmod) ORDER BY k.ord) FROM pg_constraint p
+    CROSS JOIN LATERAL unnest(p.conkey) WITH ORDINALITY AS k(attnum, ord)
+    JOIN pg_attribute a ON a.attrelid = p.conrelid AND a.attnum = k.attnum
+    WHERE p.conrelid = c.oid AND p.contype = 'p'), '{}') AS "keyTypes",
+  COALESCE((SELECT array_agg(DISTINCT rn.nspname || '.' || rc.relname) FROM pg_constraint f
+    JOIN pg_class rc ON rc.oid = f.confrelid JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+    WHERE f.conrelid = c.oid AND f.contype = 'f' AND f.confrelid <> c.oid), '{}') AS "dependsOn",
+  EXISTS (SELECT 1 FROM pg_constraint f WHERE f.conrelid = c.oid AND f.contype = 'f' AND f.confrelid = c.oid) AS "selfReferencing",
+  COALESCE((SELECT array_agg(a.attname::text ORDER BY a.attnum) FROM pg_attribute a
+    WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      AND pg_get_serial_sequence(format('%I.%I', n.nspname, c.relname), a.attname) IS NOT NULL), '{}') AS "sequenceColumns",
+  GREATEST(c.reltuples, 0)::float8 AS "estimatedRows"
+FROM pg_class c
+JOIN pg_namespace n ON n.oid = c.relnamespace
+WHERE c.relkind IN ('r', 'p') AND NOT c.relispartition
+  AND n.nspname = ANY($1::text[])
+  AND c.relname <> ALL($2::text[])
+ORDER BY n.nspname, c.relname`;
+
+/**
+ * Lists the tables of the given schemas on the source database
+ */
+export async function listTables(client: PgClient, schemas: string[] = ['public']): Promise<DataMoverTable[]> {
+  return client.query<DataMoverTable>(DATA_MOVER_TABLES_QUERY, [schemas, EXCLUDED_TABLES]);
+}
+
+export function tableKey(table: Pick<DataMoverTable, 'schema' | 'name'>): string {
+  return `${table.schema}.${table.name}`;
+}
+
+function qualified(table: Pick<DataMoverTable, 'schema' | 'name'>): string {
+  return `${quotePgIdentifier(table.schema)}.${quotePgIdentifier(table.name)}`;
+}
+
+/**
+ * Sorts tables so that referenced tables are copied first (Kahn, ties by
+ * name). References to tables outside the run are ignored; cycles are
+ * appended by name with a warning.
+ */
+export function orderTables(tables: DataMoverTable[]): { order: DataMoverTable[]; warnings: string[] } {
+  const byKey = new Map(tables.map(table => [tableKey(table), table]));
+  const pending = new Map(tables.map(table => [
+    tableKey(table),
+    new Set(table.dependsOn.filter(dep => byKey.has(dep))),
+  ]));
+  const order: DataMoverTable[] = [];
+  const warnings: string[] = [];
+
+  while (pending.size > 0) {
+    const ready = [...pending.keys()].filter(key => pending.get(key)!.size === 0).sort();
+    if (ready.length === 0) {
+      const cycle = [...pending.keys()].sort();
+      warnings.push(`foreign key cycle between ${cycle.join(', ')}: copied by name, use disableTriggers if inserts fail`);
+      cycle.forEach(key => order.push(byKey.get(key)!));
+      break;
+    }
+    for (const key of ready) {
+      order.push(byKey.get(key)!);
+      pending.delete(key);
+      pending.forEach(deps => deps.delete(key));
+    }
+  }
+
+  for (const table of order) {
+    if (table.selfReferencing) {
+      warnings.push(`${tableKey(table)} references itself: rows are copied in key order, use disableTriggers if a parent row follows its children`);
+    }
+    if (table.primaryKey.length === 0) {
+      warnings.push(`${tableKey(table)} has no primary key: paginated by ctid, the source must not change during the copy`);
+    }
+  }
+
+  return { order, warnings };
+}
+
+// ============= SQL =============
+
+/**
+ * Reads the next batch after `cursor`. Returns one row: the batch size, the
+ * rows as JSON text (never parsed client-side, so bigint and numeric keep
+ * their precision) and the key of the last row as the next cursor.
+ */
+export function buildBatchSelect(table: DataMoverTable, cursor: string[] | null, batchSize: number): { sql: string; params: unknown[] } {
+  const hasKey = table.primaryKey.length > 0;
+  const keys = hasKey ? table.primaryKey.map(quotePgIdentifier) : ['__ctid'];
+  const types = hasKey ? table.keyTypes : ['tid'];
+  const params: unknown[] = cursor ?? [];
+  const placeholders = types.map((type, i) => `$${i + 1}::${type}`);
+  const where = cursor
+    ? `WHERE (${keys.join(', ')}) > (${placeholders.join(', ')})`
+    : '';
+  const source = hasKey ? qualified(table) : `(SELECT ctid AS __ctid, * FROM ${qualified(table)}) AS t`;
+
+  return {
+    sql: `WITH batch AS (
+  SELECT * FROM ${source}
+  ${where}
+  ORDER BY ${keys.join(', ')}
+  LIMIT ${Math.max(1, Math.floor(batchSize))}
+)
+SELECT count(*)::int AS count,
+  COALESCE(json_agg(batch), '[]')::text AS rows,
+  (SELECT ARRAY[${keys.map(key => `${key}::text`).join(', ')}] FROM batch ORDER BY ${keys.map(key => `${key} DESC`).join(', ')} LIMIT 1) AS cursor
+FROM batch`,
+    params,
+  };
+}
+
+/**
+ * Inserts a JSON batch ($1) into the target table, skipping rows that already
+ * exist (a batch replayed after a crash between commit and acknowledgement)
+ */
+export function buildBatchInsert(table: DataMoverTable): string {
+  const columns = table.columns.map(quotePgIdentifier).join(', ');
+  const conflict = table.primaryKey.length > 0 ? '\n  ON CONFLICT DO NOTHING' : '';
+  return `WITH inserted AS (
+  INSERT INTO ${qualified(table)} (${columns}) OVERRIDING SYSTEM VALUE
+  SELECT ${columns} FROM json_populate_recordset(NULL::${qualified(table)}, $1::json)${conflict}
+  RETURNING 1
+)
+SELECT count(*)::int AS inserted FROM inserted`;
+}
+
+/**
+ * Moves sequences past the copied values so new inserts do not collide
+ */
+export function buildSequenceReset(table: DataMoverTable): string[] {
+  return table.sequenceColumns.map(column =>
+    `SELECT setval(pg_get_serial_sequence(${quotePgLiteral(qualified(table))}, ${quotePgLiteral(column)}), COALESCE((SELECT max(${quotePgIdentifier(column)}) FROM ${qualified(table)}), 0) + 1, false)`
+  );
+}
+
+/**
+ * Row count and order-independent checksum (sum of 60-bit row hashes over
+ * to_jsonb, whose key order does not depend on column order)
+ */
+export function buildChecksumQuery(table: DataMoverTable): string {
+  return `SELECT count(*)::text AS rows,
+  COALESCE(sum(('x' || substr(md5(to_jsonb(t)::text), 1, 15))::bit(60)::bigint), 0)::text AS checksum
+FROM ${qualified(table)} AS t`;
+}
+
+const CHECKPOINT_TABLE_SQL = `CREATE TABLE IF NOT EXISTS public.${DATA_MIGRATIONS_TABLE} (
+  run_id TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  cursor TEXT[],
+  rows_copied BIGINT NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (run_id, table_name)
+)`;
+
+const CHECKPOINT_SELECT_SQL = `SELECT table_name AS "table", cursor, rows_copied::float8 AS "rowsCopied", status
+FROM public.${DATA_MIGRATIONS_TABLE} WHERE run_id = $1`;
+
+const CHECKPOINT_UPSERT_SQL = `INSERT INTO public.${DATA_MIGRATIONS_TABLE} (run_id, table_name, cursor, rows_copied, status, updated_at)
+VALUES ($1, $2, $3::text[], $4, $5, now())
+ON CONFLICT (run_id, table_name) DO UPDATE
+SET cursor = EXCLUDED.cursor, rows_copied = EXCLUDED.rows_copied, status = EXCLUDED.status, updated_at = now()`;
+
+// ============= RUN =============
+
+async function saveCheckpoint(target: PgClient, runId: string, checkpoint: DataMoverCheckpoint): Promise<void> {
+  await target.query(CHECKPOINT_UPSERT_SQL, [runId, checkpoint.table, checkpoint.cursor, checkpoint.rowsCopied, checkpoint.status]);
+}
+
+async function copyBatch(
+  source: PgClient,
+  target: PgClient,
+  table: DataMoverTable,
+  checkpoint: DataMoverCheckpoint,
+  options: DataMoverOptions
+): Promise<boolean> {
+  const select = buildBatchSelect(table, checkpoint.cursor, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const [batch] = await source.query<{ count: number; rows: string; cursor: string[] | null }>(select.sql, select.params);
+  if (!batch || batch.count === 0) return false;
+
+  const next: DataMoverCheckpoint = {
+    ...checkpoint,
+    cursor: batch.cursor,
+    rowsCopied: checkpoint.rowsCopied + batch.count,
+    status: 'copying',
+  };
+
+  // Rows and checkpoint commit together: a crash replays at most this batch
+  await target.query('BEGIN');
+  try {
+    if (options.disableTriggers) {
+      await target.query('SET LOCAL session_replication_role = replica');
+    }
+    await target.query(buildBatchInsert(table), [batch.rows]);
+    await saveCheckpoint(target, options.runId, next);
+    await target.query('COMMIT');
+  } catch (error) {
+    await target.query('ROLLBACK').catch(() => undefined);
+    throw new Error(`${tableKey(table)}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  Object.assign(checkpoint, next);
+  options.onProgress?.(checkpoint);
+  return true;
+}
+
+async function checksum(client: PgClient, table: DataMoverTable): Promise<{ rows: string; checksum: string }> {
+  // to_jsonb renders timestamptz in the session time zone
+  await client.query('BEGIN');
+  try {
+    await client.query("SET LOCAL TIME ZONE 'UTC'");
+    const [row] = await client.query<{ rows: string; checksum: string }>(buildChecksumQuery(table));
+    await client.query('COMMIT');
+    return row;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Compares row counts and checksums of each table on both sides
+ */
+export async function verifyTables(source: PgClient, target: PgClient, tables: DataMoverTable[]): Promise<TableVerification[]> {
+  const results: TableVerification[] = [];
+  for (const table of tables) {
+    const from = await checksum(source, table);
+    const to = await checksum(target, table);
+    results.push({
+      table: tableKey(table),
+      sourceRows: Number(from.rows),
+      targetRows: Number(to.rows),
+      sourceChecksum: from.checksum,
+      targetChecksum: to.checksum,
+      ok: from.rows === to.rows && from.checksum === to.checksum,
+    });
+  }
+  return results;
+}
+
+/**
+ * Copies (or resumes copying) every table of the run. Returns with
+ * `done: false` when the deadline is reached; calling again with the same
+ * runId continues from the stored checkpoints.
+ */
+export async function moveData(source: PgClient, target: PgClient, options: DataMoverOptions): Promise<DataMoveResult> {
+  const listed = await listTables(source, options.schemas);
+  const selected = options.tables?.length
+    ? listed.filter(table => options.tables!.includes(tableKey(table)) || options.tables!.includes(table.name))
+    : listed;
+  const { order, warnings } = orderTables(selected);
+
+  await target.query(CHECKPOINT_TABLE_SQL);
+  const stored = await target.query<DataMoverCheckpoint>(CHECKPOINT_SELECT_SQL, [options.runId]);
+  const checkpoints = order.map(table =>
+    stored.find(checkpoint => checkpoint.table === tableKey(table)) ??
+    { table: tableKey(table), cursor: null, rowsCopied: 0, status: 'pending' as DataMoverStatus }
+  );
+
+  const result: DataMoveResult = {
+    runId: options.runId,
+    done: false,
+    order: order.map(tableKey),
+    checkpoints,
+    warnings,
+  };
+
+  for (const [index, table] of order.entries()) {
+    const checkpoint = checkpoints[index];
+    while (checkpoint.status !== 'done') {
+      if (options.deadline !== undefined && Date.now() >= options.deadline) return result;
+      if (await copyBatch(source, target, table, checkpoint, options)) continue;
+
+      for (const statement of buildSequenceReset(table)) {
+        await target.query(statement);
+      }
+      checkpoint.status = 'done';
+      await saveCheckpoint(target, options.runId, checkpoint);
+      options.onProgress?.(checkpoint);
+    }
+  }
+
+  result.done = true;
+  if (options.verify !== false) {
+    result.verification = await verifyTables(source, target, order);
+  }
+  return result;
+}
@@ -0,0 +1,906 @@
+// AUTO-GÉNÉRÉ depuis src/lib/llmProviders.ts par scripts/sync-sovereignty-rules.js - NE PAS MODIFIER.
+// Modifier le fichier source puis lancer `npm run rules:sync`.
+/**
+ * INOPAY LLM PROVIDERS
+ * ====================
+ * Couche fournisseur commune à UnifiedLLM et SovereignAIAdapter
+ *
+ * - Ollama (API native /api/chat)
+ * - LM Studio, Open WebUI, vLLM, LocalAI, API OpenAI-Compatible
+ * - Mock local déterministe (tests, sans réseau)
+ *
+ * Streaming des tokens, appels d'outils (tool calling), sortie JSON
+ * contrainte par schéma, retries avec backoff exponentiel.
+ *
+ * Zéro dépendance cloud propriétaire. Partagé avec les edge functions
+ * (clean-code) par `npm run rules:sync` : aucun import.
+ * © 2024 Inovaq Canada Inc.
+ */
+
+// ============= TYPES =============
+
+export type LLMProviderId =
+  | 'ollama'
+  | 'lmstudio'
+  | 'openwebui'
+  | 'openai-compatible'
+  | 'vllm'
+  | 'localai'
+  | 'mock';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  /** Racine de l'API (ex: http://localhost:1234/v1) */
+  baseUrl: string;
+  model: string;
+  embeddingModel?: string;
+  apiKey?: string;
+  timeout?: number;
+  maxRetries?: number;
+  /** Délai du premier retry, doublé à chaque tentative */
+  retryDelayMs?: number;
+  /** fetch injectable (tests, proxy) */
+  fetch?: typeof fetch;
+}
+
+/** Sous-ensemble de JSON Schema compris par les serveurs et par validateJsonSchema */
+export interface JSONSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null' | Array<'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'>;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: unknown[];
+  [keyword: string]: unknown;
+}
+
+export interface LLMTool {
+  name: string;
+  description?: string;
+  parameters: JSONSchema;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Appels émis par l'assistant */
+  toolCalls?: LLMToolCall[];
+  /** Réponse d'outil : appel auquel elle répond */
+  toolCallId?: string;
+  toolName?: string;
+}
+
+export type LLMResponseFormat =
+  | { type: 'text' }
+  | { type: 'json' }
+  | { type: 'json_schema'; name: string; schema: JSONSchema };
+
+export interface LLMRequestOptions {
+  model?: string;
+  tools?: LLMTool[];
+  toolChoice?: 'auto' | 'none' | 'required' | { name: string };
+  responseFormat?: LLMResponseFormat;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  topK?: number;
+  stop?: string[];
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type LLMFinishReason = 'stop' | 'length' | 'tool_calls' | 'error';
+
+export interface LLMResult {
+  content: string;
+  toolCalls: LLMToolCall[];
+  usage: LLMUsage;
+  model: string;
+  provider: LLMProviderId;
+  finishReason: LLMFinishReason;
+  latencyMs: number;
+}
+
+export interface LLMStreamChunk {
+  content: string;
+  done: boolean;
+  /** Renseignés sur le dernier chunk */
+  toolCalls?: LLMToolCall[];
+  finishReason?: LLMFinishReason;
+  usage?: LLMUsage;
+}
+
+export interface LLMEmbeddingOptions {
+  model?: string;
+  /** Dimensions demandées (modèles OpenAI-compatibles qui le supportent) */
+  dimensions?: number;
+}
+
+export interface LLMEmbeddingResult {
+  embeddings: number[][];
+  model: string;
+  usage: { totalTokens: number };
+}
+
+export interface LLMModelInfo {
+  id: string;
+  sizeBytes?: number;
+  quantization?: string;
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly config: LLMProviderConfig;
+  chat(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMResult>;
+  stream(messages: LLMMessage[], options?: LLMRequestOptions): AsyncGenerator<LLMStreamChunk>;
+  embed(input: string[], options?: LLMEmbeddingOptions): Promise<LLMEmbeddingResult>;
+  listModels(): Promise<LLMModelInfo[]>;
+  isAvailable(): Promise<boolean>;
+}
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryable = false,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+// ============= DEFAULT CONFIGURATIONS =============
+
+export const LLM_PROVIDER_DEFAULTS: Record<LLMProviderId, Omit<LLMProviderConfig, 'provider'>> = {
+  ollama: {
+    baseUrl: 'http://localhost:11434',
+    model: 'llama3.2',
+    embeddingModel: 'nomic-embed-text',
+    timeout: 120000,
+  },
+  lmstudio: {
+    baseUrl: 'http://localhost:1234/v1',
+    model: 'local-model',
+    embeddingModel: 'local-embedding',
+    timeout: 120000,
+  },
+  openwebui: {
+    baseUrl: 'http://localhost:3000/api',
+    model: 'llama3.2',
+    embeddingModel: 'nomic-embed-text',
+    timeout: 120000,
+  },
+  'openai-compatible': {
+    baseUrl: 'http://localhost:8080/v1',
+    model: 'gpt-3.5-turbo',
+    embeddingModel: 'text-embedding-3-small',
+    timeout: 60000,
+  },
+  vllm: {
+    baseUrl: 'http://localhost:8000/v1',
+    model: 'mistral-7b',
+    embeddingModel: 'e5-large-v2',
+    timeout: 120000,
+  },
+  localai: {
+    baseUrl: 'http://localhost:8080/v1',
+    model: 'gpt-4',
+    embeddingModel: 'text-embedding-ada-002',
+    timeout: 120000,
+  },
+  mock: {
+    baseUrl: '',
+    model: 'mock',
+    embeddingModel: 'mock-embedding',
+    timeout: 0,
+  },
+};
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+const MAX_RETRY_DELAY_MS = 30000;
+
+// ============= RETRIES =============
+
+/**
+ * Exécute `task` avec retries : backoff exponentiel (+ jitter), Retry-After
+ * respecté, seulement pour les erreurs transitoires (réseau, timeout, 429, 5xx)
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  options: { maxRetries?: number; retryDelayMs?: number; signal?: AbortSignal } = {}
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? 3;
+  const baseDelay = options.retryDelayMs ?? 1000;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= maxRetries || options.signal?.aborted || !isRetryable(error)) {
+        throw error;
+      }
+      const backoff = Math.min(baseDelay * 2 ** attempt, MAX_RETRY_DELAY_MS);
+      const delay = error instanceof LLMError && error.retryAfterMs !== undefined
+        ? Math.min(error.retryAfterMs, MAX_RETRY_DELAY_MS)
+        : backoff + Math.random() * backoff * 0.2;
+      console.warn(`[LLM] Retry ${attempt + 1}/${maxRetries} dans ${Math.round(delay)}ms...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMError) return error.retryable;
+  // fetch rejette en TypeError sur erreur réseau
+  return error instanceof TypeError;
+}
+
+// ============= JSON SCHEMA =============
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+/**
+ * Valide une valeur contre le sous-ensemble de JSON Schema ci-dessus.
+ * Retourne les erreurs (vide si conforme)
+ */
+export function validateJsonSchema(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matches = types.some(type => type === actual || (type === 'number' && actual === 'integer'));
+    if (!matches) {
+      return [`${path}: ${types.join('|')} attendu, ${actual} reçu`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: valeur hors enum ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) errors.push(`${path}.${key}: requis`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...validateJsonSchema(item, property, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: propriété non autorisée`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+  }
+
+  return errors;
+}
+
+/**
+ * Extrait le JSON d'une réponse (tolère un bloc ```json)
+ */
+export function parseJsonContent(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((fenced ? fenced[1] : content).trim());
+}
+
+// ============= HTTP PROVIDERS =============
+
+abstract class HttpLLMProvider implements LLMProvider {
+  abstract readonly id: LLMProviderId;
+  readonly config: LLMProviderConfig;
+
+  constructor(config: LLMProviderConfig) {
+    this.config = config;
+  }
+
+  abstract chat(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMResult>;
+  abstract stream(messages: LLMMessage[], options?: LLMRequestOptions): AsyncGenerator<LLMStreamChunk>;
+  abstract embed(input: string[], options?: LLMEmbeddingOptions): Promise<LLMEmbeddingResult>;
+  abstract listModels(): Promise<LLMModelInfo[]>;
+
+  protected abstract healthPath(): string;
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await this.fetchImpl(`${this.config.baseUrl}${this.healthPath()}`, {
+        method: 'GET',
+        headers: this.headers(),
+        signal: AbortSignal.timeout(5000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  protected get fetchImpl(): typeof fetch {
+    return this.config.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  protected headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * POST avec retries. Le timeout couvre l'attente des en-têtes : un stream
+   * long n'est pas coupé, un serveur muet l'est
+   */
+  protected post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    return withRetry(async () => {
+      if (signal?.aborted) throw signal.reason;
+
+      const controller = new AbortController();
+      const timeout = this.config.timeout || 120000;
+      const timer = setTimeout(
+        () => controller.abort(new LLMError(`Timeout après ${timeout}ms`, undefined, true)),
+        timeout
+      );
+      signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+
+      try {
+        const response = await this.fetchImpl(`${this.config.baseUrl}${path}`, {
+          method: 'POST',
+          headers: this.headers(),
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          const retryAfter = Number(response.headers.get('retry-after'));
+          throw new LLMError(
+            `LLM error: ${response.status} - ${await response.text()}`,
+            response.status,
+            RETRYABLE_STATUS.has(response.status),
+            Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+          );
+        }
+        return response;
+      } catch (error) {
+        // Abandon du timeout : l'erreur est la raison passée à abort()
+        throw controller.signal.aborted && controller.signal.reason instanceof LLMError
+          ? controller.signal.reason
+          : error;
+      } finally {
+        clearTimeout(timer);
+      }
+    }, { maxRetries: this.config.maxRetries, retryDelayMs: this.config.retryDelayMs, signal });
+  }
+
+  protected async get<T>(path: string): Promise<T | null> {
+    try {
+      const response = await this.fetchImpl(`${this.config.baseUrl}${path}`, {
+        method: 'GET',
+        headers: this.headers(),
+        signal: AbortSignal.timeout(10000),
+      });
+      return response.ok ? await response.json() as T : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Lignes d'un corps streamé (NDJSON ou SSE)
+   */
+  protected async *lines(response: Response): AsyncGenerator<string> {
+    const reader = response.body?.getReader();
+    if (!reader) throw new LLMError('No response body');
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) yield line.trim();
+      }
+    }
+    if (buffer.trim()) yield buffer.trim();
+  }
+}
+
+/**
+ * Ollama : API native (/api/chat), outils et `format` JSON Schema (Ollama >= 0.5)
+ */
+export class OllamaProvider extends HttpLLMProvider {
+  readonly id = 'ollama' as const;
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMResult> {
+    const startTime = Date.now();
+    const response = await this.post('/api/chat', this.buildBody(messages, options, false), options.signal);
+    const data = await response.json() as OllamaChatResponse;
+    const toolCalls = this.parseToolCalls(data.message?.tool_calls);
+
+    return {
+      content: data.message?.content || '',
+      toolCalls,
+      usage: this.parseUsage(data),
+      model: data.model || options.model || this.config.model,
+      provider: this.id,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : data.done_reason === 'length' ? 'length' : 'stop',
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.post('/api/chat', this.buildBody(messages, options, true), options.signal);
+    const toolCalls: LLMToolCall[] = [];
+
+    for await (const line of this.lines(response)) {
+      let data: OllamaChatResponse;
+      try {
+        data = JSON.parse(line.replace(/^data:\s*/, ''));
+      } catch {
+        continue;
+      }
+
+      // Ollama envoie les appels d'outils d'un bloc, sans id
+      toolCalls.push(...this.parseToolCalls(data.message?.tool_calls, toolCalls.length));
+
+      if (data.done) {
+        yield {
+          content: data.message?.content || '',
+          done: true,
+          toolCalls,
+          finishReason: toolCalls.length > 0 ? 'tool_calls' : data.done_reason === 'length' ? 'length' : 'stop',
+          usage: this.parseUsage(data),
+        };
+        return;
+      }
+      if (data.message?.content) {
+        yield { content: data.message.content, done: false };
+      }
+    }
+
+    yield { content: '', done: true, toolCalls, finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop' };
+  }
+
+  async embed(input: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResult> {
+    const targetModel = options.model || this.config.embeddingModel || 'nomic-embed-text';
+    const response = await this.post('/api/embed', { model: targetModel, input });
+    const data = await response.json() as { model?: string; embeddings?: number[][]; prompt_eval_count?: number };
+
+    return {
+      embeddings: data.embeddings || [],
+      model: data.model || targetModel,
+      usage: { totalTokens: data.prompt_eval_count || 0 },
+    };
+  }
+
+  async listModels(): Promise<LLMModelInfo[]> {
+    const data = await this.get<{ models?: Array<{ name?: string; size?: number; details?: { quantization_level?: string } }> }>('/api/tags');
+    return (data?.models || [])
+      .filter(model => model.name)
+      .map(model => ({ id: model.name!, sizeBytes: model.size, quantization: model.details?.quantization_level }));
+  }
+
+  protected healthPath(): string {
+    return '/api/tags';
+  }
+
+  private buildBody(messages: LLMMessage[], options: LLMRequestOptions, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: options.model || this.config.model,
+      messages: messages.map(message => ({
+        role: message.role,
+        content: message.content,
+        ...(message.toolCalls?.length ? {
+          tool_calls: message.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } })),
+        } : {}),
+        ...(message.role === 'tool' && message.toolName ? { tool_name: message.toolName } : {}),
+      })),
+      stream,
+    };
+
+    // Ollama n'a pas de tool_choice : 'none' retire les outils
+    if (options.tools?.length && options.toolChoice !== 'none') {
+      body.tools = options.tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description || '', parameters: tool.parameters },
+      }));
+    }
+
+    if (options.responseFormat?.type === 'json') {
+      body.format = 'json';
+    } else if (options.responseFormat?.type === 'json_schema') {
+      body.format = options.responseFormat.schema;
+    }
+
+    const ollamaOptions: Record<string, unknown> = {};
+    if (options.temperature !== undefined) ollamaOptions.temperature = options.temperature;
+    if (options.maxTokens !== undefined) ollamaOptions.num_predict = options.maxTokens;
+    if (options.topP !== undefined) ollamaOptions.top_p = options.topP;
+    if (options.topK !== undefined) ollamaOptions.top_k = options.topK;
+    if (options.stop) ollamaOptions.stop = options.stop;
+    if (Object.keys(ollamaOptions).length > 0) {
+      body.options = ollamaOptions;
+    }
+
+    return body;
+  }
+
+  private parseToolCalls(calls: OllamaToolCall[] | undefined, offset = 0): LLMToolCall[] {
+    return (calls || []).map((call, index) => ({
+      id: `call_${offset + index}`,
+      name: call.function.name,
+      arguments: parseArguments(call.function.arguments),
+    }));
+  }
+
+  private parseUsage(data: OllamaChatResponse): LLMUsage {
+    const promptTokens = data.prompt_eval_count || 0;
+    const completionTokens = data.eval_count || 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> | string };
+}
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string; tool_calls?: OllamaToolCall[] };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Serveurs OpenAI-compatibles : LM Studio, Open WebUI, vLLM, LocalAI...
+ * (/chat/completions, tools, response_format json_schema, stream SSE)
+ */
+export class OpenAICompatibleProvider extends HttpLLMProvider {
+  readonly id: LLMProviderId;
+
+  constructor(config: LLMProviderConfig) {
+    super(config);
+    this.id = config.provider;
+  }
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMResult> {
+    const startTime = Date.now();
+    const response = await this.post('/chat/completions', this.buildBody(messages, options, false), options.signal);
+    const data = await response.json() as OpenAIChatResponse;
+    const choice = data.choices?.[0];
+    if (!choice) throw new LLMError(`No choices in ${this.id} response`, response.status);
+    const toolCalls = (choice.message?.tool_calls || []).map((call, index) => ({
+      id: call.id || `call_${index}`,
+      name: call.function.name,
+      arguments: parseArguments(call.function.arguments),
+    }));
+
+    return {
+      content: choice.message?.content || '',
+      toolCalls,
+      usage: this.parseUsage(data.usage),
+      model: data.model || options.model || this.config.model,
+      provider: this.id,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : parseFinishReason(choice.finish_reason),
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.post('/chat/completions', this.buildBody(messages, options, true), options.signal);
+
+    // Les arguments d'outils arrivent en fragments, indexés par appel
+    const pending = new Map<number, { id: string; name: string; arguments: string }>();
+    let finishReason: LLMFinishReason = 'stop';
+    let usage: LLMUsage | undefined;
+
+    for await (const line of this.lines(response)) {
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') break;
+
+      let data: OpenAIStreamChunk;
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+
+      if (data.usage) usage = this.parseUsage(data.usage);
+      const choice = data.choices?.[0];
+      if (!choice) continue;
+
+      for (const delta of choice.delta?.tool_calls || []) {
+        const call = pending.get(delta.index) || { id: `call_${delta.index}`, name: '', arguments: '' };
+        if (delta.id) call.id = delta.id;
+        if (delta.function?.name) call.name += delta.function.name;
+        if (delta.function?.arguments) call.arguments += delta.function.arguments;
+        pending.set(delta.index, call);
+      }
+      if (choice.finish_reason) finishReason = parseFinishReason(choice.finish_reason);
+      if (choice.delta?.content) {
+        yield { content: choice.delta.content, done: false };
+      }
+    }
+
+    const toolCalls = [...pending.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => ({ id: call.id, name: call.name, arguments: parseArguments(call.arguments) }));
+
+    yield {
+      content: '',
+      done: true,
+      toolCalls,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : finishReason,
+      usage,
+    };
+  }
+
+  async embed(input: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResult> {
+    const targetModel = options.model || this.config.embeddingModel || this.config.model;
+    const body: Record<string, unknown> = { model: targetModel, input };
+    if (options.dimensions) body.dimensions = options.dimensions;
+    const response = await this.post('/embeddings', body);
+    const data = await response.json() as {
+      model?: string;
+      data?: Array<{ embedding: number[]; index: number }>;
+      usage?: { total_tokens?: number };
+    };
+
+    return {
+      embeddings: (data.data || []).sort((a, b) => a.index - b.index).map(item => item.embedding),
+      model: data.model || targetModel,
+      usage: { totalTokens: data.usage?.total_tokens || 0 },
+    };
+  }
+
+  async listModels(): Promise<LLMModelInfo[]> {
+    const data = await this.get<{ data?: Array<{ id?: string }> }>('/models');
+    return (data?.data || []).filter(model => model.id).map(model => ({ id: model.id! }));
+  }
+
+  protected healthPath(): string {
+    return '/models';
+  }
+
+  private buildBody(messages: LLMMessage[], options: LLMRequestOptions, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: options.model || this.config.model,
+      messages: messages.map(message => {
+        if (message.role === 'tool') {
+          return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+        }
+        return {
+          role: message.role,
+          content: message.content,
+          ...(message.toolCalls?.length ? {
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          } : {}),
+        };
+      }),
+      stream,
+    };
+
+    if (options.tools?.length) {
+      body.tools = options.tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description || '', parameters: tool.parameters },
+      }));
+      if (options.toolChoice) {
+        body.tool_choice = typeof options.toolChoice === 'string'
+          ? options.toolChoice
+          : { type: 'function', function: { name: options.toolChoice.name } };
+      }
+    }
+
+    if (options.responseFormat?.type === 'json') {
+      body.response_format = { type: 'json_object' };
+    } else if (options.responseFormat?.type === 'json_schema') {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: options.responseFormat.name, schema: options.responseFormat.schema, strict: true },
+      };
+    }
+
+    if (options.temperature !== undefined) body.temperature = options.temperature;
+    if (options.maxTokens !== undefined) body.max_tokens = options.maxTokens;
+    if (options.topP !== undefined) body.top_p = options.topP;
+    if (options.stop) body.stop = options.stop;
+    // Extension de l'API OpenAI acceptée par vLLM et LocalAI
+    if (options.topK !== undefined && (this.id === 'vllm' || this.id === 'localai')) {
+      body.top_k = options.topK;
+    }
+
+    return body;
+  }
+
+  private parseUsage(usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }): LLMUsage {
+    return {
+      promptTokens: usage?.prompt_tokens || 0,
+      completionTokens: usage?.completion_tokens || 0,
+      totalTokens: usage?.total_tokens || 0,
+    };
+  }
+}
+
+interface OpenAIChatResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: Array<{ id?: string; function: { name: string; arguments: string } }> };
+    finish_reason?: string;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+function parseArguments(raw: Record<string, unknown> | string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  if (typeof raw !== 'string') return raw;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { value: parsed };
+  } catch {
+    // Arguments non JSON : transmis tels quels à l'outil, qui les rejettera
+    return { _raw: raw };
+  }
+}
+
+function parseFinishReason(reason?: string | null): LLMFinishReason {
+  if (reason === 'length') return 'length';
+  if (reason === 'tool_calls' || reason === 'function_call') return 'tool_calls';
+  return 'stop';
+}
+
+// ============= MOCK PROVIDER =============
+
+/** Réponse scriptée : texte, ou appels d'outils */
+export type MockLLMReply =
+  | string
+  | { content?: string; toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>; finishReason?: LLMFinishReason };
+
+export type MockLLMHandler = (messages: LLMMessage[], options: LLMRequestOptions) => MockLLMReply | Promise<MockLLMReply>;
+
+/**
+ * Provider local déterministe pour les tests : réponses scriptées (file ou
+ * fonction), requêtes enregistrées. Sans script, renvoie le dernier message
+ * utilisateur
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly id = 'mock' as const;
+  readonly config: LLMProviderConfig;
+  readonly requests: Array<{ messages: LLMMessage[]; options: LLMRequestOptions }> = [];
+  private script: MockLLMReply[] | MockLLMHandler;
+  private callCount = 0;
+
+  constructor(script: MockLLMReply[] | MockLLMHandler = [], config: Partial<LLMProviderConfig> = {}) {
+    this.script = typeof script === 'function' ? script : [...script];
+    this.config = { provider: 'mock', ...LLM_PROVIDER_DEFAULTS.mock, ...config };
+  }
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMResult> {
+    this.requests.push({ messages: messages.map(message => ({ ...message })), options });
+
+    const reply = typeof this.script === 'function'
+      ? await this.script(messages, options)
+      : this.script.shift() ?? [...messages].reverse().find(message => message.role === 'user')?.content ?? '';
+    const { content = '', toolCalls = [], finishReason } = typeof reply === 'string' ? { content: reply } : reply;
+    const calls = toolCalls.map(call => ({ id: `call_${this.callCount++}`, ...call }));
+    const promptTokens = messages.reduce((sum, message) => sum + countTokens(message.content), 0);
+    const completionTokens = countTokens(content);
+
+    return {
+      content,
+      toolCalls: calls,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      model: options.model || this.config.model,
+      provider: this.id,
+      finishReason: finishReason ?? (calls.length > 0 ? 'tool_calls' : 'stop'),
+      latencyMs: 0,
+    };
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncGenerator<LLMStreamChunk> {
+    const result = await this.chat(messages, options);
+    for (const token of result.content.match(/\S+\s*|\s+/g) || []) {
+      yield { content: token, done: false };
+    }
+    yield { content: '', done: true, toolCalls: result.toolCalls, finishReason: result.finishReason, usage: result.usage };
+  }
+
+  async embed(input: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResult> {
+    return {
+      embeddings: input.map(text => hashEmbedding(text, options.dimensions)),
+      model: options.model || this.config.embeddingModel || 'mock-embedding',
+      usage: { totalTokens: input.reduce((sum, text) => sum + countTokens(text), 0) },
+    };
+  }
+
+  async listModels(): Promise<LLMModelInfo[]> {
+    return [{ id: this.config.model }];
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+const countTokens = (text: string) => (text.match(/\S+/g) || []).length;
+
+// Vecteur stable et normalisé dérivé du texte
+function hashEmbedding(text: string, dimensions = 8): number[] {
+  const vector = new Array(dimensions).fill(0);
+  for (let i = 0; i < text.length; i++) {
+    vector[i % dimensions] += (text.charCodeAt(i) * (i + 1)) % 97;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1;
+  return vector.map(x => x / norm);
+}
+
+// ============= FACTORY =============
+
+/**
+ * Crée le provider, valeurs par défaut du fournisseur complétées par `config`
+ */
+export function createLLMProvider(config: Partial<LLMProviderConfig> & { provider: LLMProviderId }): LLMProvider {
+  const defaults = LLM_PROVIDER_DEFAULTS[config.provider];
+  const resolved: LLMProviderConfig = {
+    ...defaults,
+    ...Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined && value !== '')),
+    provider: config.provider,
+  } as LLMProviderConfig;
+  resolved.baseUrl = resolved.baseUrl.replace(/\/+$/, '');
+
+  switch (config.provider) {
+    case 'ollama':
+      return new OllamaProvider(resolved);
+    case 'mock':
+      return new MockLLMProvider([], resolved);
+    default:
+      return new OpenAICompatibleProvider(resolved);
+  }
+}
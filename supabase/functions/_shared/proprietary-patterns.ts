@@ -2,6 +2,9 @@
 // Centralized proprietary patterns for all cleaning functions
 // This file ensures consistency across all cleaning operations
 // SRE Audit: Updated for v0, Cursor, and new Lovable markers
+// Scored detection rules live in sovereignty-rules.ts (generated from src/lib/sovereigntyRules.ts)
+
+import { isProprietaryFile, scanContent } from './sovereignty-rules.ts';
 
 // ============= CORE PROTECTION SYSTEM =============
 // Files marked with @inopay-core-protected are NEVER cleaned, even if they match patterns
@@ -25,6 +28,7 @@ export function isProtectedContent(content: string): boolean {
 export const INOPAY_WHITELIST: string[] = [
   // Core engine files
   'proprietary-patterns.ts',
+  'sovereignty-rules.ts',
   'rate-limiter.ts',
   'crypto-utils.ts',
   'retry-handler.ts',
@@ -52,6 +56,7 @@ export const INOPAY_WHITELIST: string[] = [
   
   // Compatibility layer
   'lib/sovereigntyReport.ts',
+  'lib/sovereigntyRules.ts',
   'lib/costOptimization.ts',
   'lib/rlsPolicyExtractor.ts',
   'lib/edgeFunctionParser.ts',
@@ -689,6 +694,9 @@ export default useSidebar;`,
  * Check if content needs cleaning (quick regex check)
  */
 export function needsCleaning(content: string): boolean {
+  // Any finding from the shared rule registry
+  if (scanContent(content, '').length > 0) return true;
+  
   // Check proprietary imports
   for (const pattern of PROPRIETARY_IMPORTS) {
     pattern.lastIndex = 0; // Reset regex state
@@ -714,6 +722,7 @@ export function needsCleaning(content: string): boolean {
  * Check if file should be completely removed
  */
 export function shouldRemoveFile(filePath: string): boolean {
+  if (isProprietaryFile(filePath)) return true;
   for (const pattern of PROPRIETARY_FILES) {
     if (filePath.includes(pattern)) return true;
   }
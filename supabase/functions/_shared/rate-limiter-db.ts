@@ -9,26 +9,29 @@ interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
   keyPrefix?: string;
+  algorithm?: "sliding-window" | "token-bucket";
 }
 
 interface RateLimitResult {
   allowed: boolean;
+  limit: number;
   remaining: number;
   resetAt: number;
   retryAfter?: number;
+  windowMs: number;
 }
 
 /**
- * Vérifie et applique le rate limiting via la base de données Supabase
+ * Vérifie et applique le rate limiting via la base de données Supabase.
+ * La décision est atomique (RPC consume_rate_limit), partagée avec le backend Express
  */
 export async function checkRateLimitDB(
   identifier: string,
   config: RateLimitConfig
 ): Promise<RateLimitResult> {
-  const { maxRequests, windowMs, keyPrefix = "rl" } = config;
+  const { maxRequests, windowMs, keyPrefix = "rl", algorithm = "sliding-window" } = config;
   const key = `${keyPrefix}:${identifier}`;
   const now = Date.now();
-  const resetAt = now + windowMs;
 
   const supabase = createClient(
     Deno.env.get("SUPABASE_URL") ?? "",
@@ -36,69 +39,32 @@ export async function checkRateLimitDB(
   );
 
   try {
-    // Essayer d'insérer ou mettre à jour l'entrée
-    const { data: existing, error: selectError } = await supabase
-      .from("rate_limits")
-      .select("count, reset_at")
-      .eq("key", key)
-      .single();
+    const { data, error } = await supabase.rpc("consume_rate_limit", {
+      p_key: key,
+      p_algorithm: algorithm,
+      p_limit: maxRequests,
+      p_window_ms: windowMs,
+    });
 
-    if (selectError && selectError.code !== "PGRST116") {
-      // Erreur autre que "no rows"
-      console.error("[RATE-LIMIT-DB] Select error:", selectError);
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) {
+      console.error("[RATE-LIMIT-DB] RPC error:", error);
       // Fallback: autoriser la requête en cas d'erreur DB
-      return { allowed: true, remaining: maxRequests - 1, resetAt };
-    }
-
-    // Pas d'entrée existante ou fenêtre expirée
-    if (!existing || new Date(existing.reset_at).getTime() < now) {
-      const { error: upsertError } = await supabase
-        .from("rate_limits")
-        .upsert({
-          key,
-          count: 1,
-          reset_at: new Date(resetAt).toISOString(),
-          created_at: new Date().toISOString(),
-        });
-
-      if (upsertError) {
-        console.error("[RATE-LIMIT-DB] Upsert error:", upsertError);
-      }
-
-      return { allowed: true, remaining: maxRequests - 1, resetAt };
-    }
-
-    // Vérifier si la limite est dépassée
-    if (existing.count >= maxRequests) {
-      const existingResetAt = new Date(existing.reset_at).getTime();
-      const retryAfter = Math.ceil((existingResetAt - now) / 1000);
-      return {
-        allowed: false,
-        remaining: 0,
-        resetAt: existingResetAt,
-        retryAfter: Math.max(1, retryAfter),
-      };
-    }
-
-    // Incrémenter le compteur
-    const { error: updateError } = await supabase
-      .from("rate_limits")
-      .update({ count: existing.count + 1 })
-      .eq("key", key);
-
-    if (updateError) {
-      console.error("[RATE-LIMIT-DB] Update error:", updateError);
+      return { allowed: true, limit: maxRequests, remaining: maxRequests - 1, resetAt: now + windowMs, windowMs };
     }
 
     return {
-      allowed: true,
-      remaining: maxRequests - (existing.count + 1),
-      resetAt: new Date(existing.reset_at).getTime(),
+      allowed: row.allowed,
+      limit: maxRequests,
+      remaining: row.remaining,
+      resetAt: now + row.reset_ms,
+      retryAfter: row.allowed ? undefined : Math.max(1, Math.ceil(row.retry_after_ms / 1000)),
+      windowMs,
     };
   } catch (error) {
     console.error("[RATE-LIMIT-DB] Unexpected error:", error);
     // Fallback: autoriser la requête en cas d'erreur
-    return { allowed: true, remaining: maxRequests - 1, resetAt };
+    return { allowed: true, limit: maxRequests, remaining: maxRequests - 1, resetAt: now + windowMs, windowMs };
   }
 }
 
@@ -230,14 +196,16 @@ export const RATE_LIMITS_CONFIG = {
 } as const;
 
 /**
- * Headers de rate limiting pour la réponse
+ * Headers de rate limiting pour la réponse (RateLimit-*, draft IETF)
  */
 export function createRateLimitHeaders(
   result: RateLimitResult
 ): Record<string, string> {
   return {
-    "X-RateLimit-Remaining": result.remaining.toString(),
-    "X-RateLimit-Reset": result.resetAt.toString(),
+    "RateLimit-Policy": `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`,
+    "RateLimit-Limit": result.limit.toString(),
+    "RateLimit-Remaining": result.remaining.toString(),
+    "RateLimit-Reset": Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000)).toString(),
     ...(result.retryAfter && { "Retry-After": result.retryAfter.toString() }),
   };
 }
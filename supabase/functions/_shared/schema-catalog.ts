@@ -0,0 +1,58 @@
+/**
+ * Introspection et application de migrations sur une base PostgreSQL
+ * Connexion directe (DATABASE_URL) : les migrations générées par schema-diff.ts
+ * contiennent du DDL que l'API REST de Supabase ne peut pas exécuter
+ */
+
+import { Client } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import {
+  buildSchemaFromCatalog,
+  DIFFED_SCHEMAS,
+  PLATFORM_SCHEMAS,
+  SCHEMA_CATALOG_QUERY,
+  SchemaBuildResult,
+  SchemaCatalog,
+} from "./schema-diff.ts";
+
+async function withClient<T>(databaseUrl: string, run: (client: Client) => Promise<T>): Promise<T> {
+  const client = new Client(databaseUrl);
+  await client.connect();
+  try {
+    return await run(client);
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Lit le catalogue de la base en un seul aller-retour et le convertit en modèle de schéma
+ */
+export async function introspectSchema(
+  databaseUrl: string,
+  schemas: string[] = DIFFED_SCHEMAS,
+  platformSchemas: string[] = PLATFORM_SCHEMAS
+): Promise<SchemaBuildResult> {
+  const catalog = await withClient(databaseUrl, async (client) => {
+    const result = await client.queryObject<{ catalog: SchemaCatalog }>(SCHEMA_CATALOG_QUERY, [schemas, platformSchemas]);
+    return result.rows[0].catalog;
+  });
+  return buildSchemaFromCatalog(catalog);
+}
+
+/**
+ * Exécute une migration complète (protocole simple : plusieurs instructions,
+ * une seule transaction implicite, rollback automatique en cas d'erreur)
+ */
+export async function applyMigrationSQL(databaseUrl: string, sql: string): Promise<void> {
+  await withClient(databaseUrl, (client) => client.queryArray(sql));
+}
+
+/**
+ * Vérifie que la base est joignable avec ces identifiants
+ */
+export async function testDatabaseConnection(databaseUrl: string): Promise<string> {
+  return await withClient(databaseUrl, async (client) => {
+    const result = await client.queryObject<{ version: string }>('SELECT version() AS version');
+    return result.rows[0].version;
+  });
+}
@@ -0,0 +1,1660 @@
+// AUTO-GÉNÉRÉ depuis src/lib/schemaDiff.ts par scripts/sync-sovereignty-rules.js - NE PAS MODIFIER.
+// Modifier le fichier source puis lancer `npm run rules:sync`.
+/**
+ * Schema Diff Engine
+ * Builds a schema model from migration files or from a live database catalog,
+ * compares two models and renders ordered, idempotent up/down migrations
+ * (enums, tables, columns, constraints, indexes, functions, triggers, policies)
+ *
+ * Shared with the edge functions (export-schema, migrate-db-schema) through
+ * `npm run rules:sync`: keep it free of imports other than pgExpressionParser.
+ */
+
+import {
+  formatPgExpression,
+  parsePgExpression,
+  PgExpr,
+  PgToken,
+  quotePgIdentifier,
+  quotePgLiteral,
+  splitStatements,
+  tokenizePg,
+  walkPgExpression,
+} from './pg-expression-parser.ts';
+
+// ============= TYPES =============
+
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default?: string;
+  generated?: string;
+}
+
+export interface SchemaConstraint {
+  name: string;
+  definition: string;
+}
+
+export interface SchemaTable {
+  schema: string;
+  name: string;
+  columns: SchemaColumn[];
+  constraints: SchemaConstraint[];
+  rls: boolean;
+}
+
+export interface SchemaEnum {
+  schema: string;
+  name: string;
+  values: string[];
+}
+
+export interface SchemaIndex {
+  schema: string;
+  name: string;
+  table: string;
+  unique: boolean;
+  method: string;
+  columns: string;
+  include?: string;
+  nullsNotDistinct?: boolean;
+  where?: string;
+}
+
+export interface SchemaFunction {
+  schema: string;
+  name: string;
+  args: string;
+  identity: string;
+  returns: string;
+  language: string;
+  attributes: string[];
+  body: string;
+}
+
+export interface SchemaTrigger {
+  name: string;
+  table: string;
+  timing: string;
+  events: string;
+  level: 'ROW' | 'STATEMENT';
+  when?: string;
+  execute: string;
+}
+
+export interface SchemaPolicy {
+  name: string;
+  table: string;
+  permissive: boolean;
+  command: string;
+  roles: string[];
+  using?: string;
+  check?: string;
+}
+
+/**
+ * Normalized schema. Keys: `schema.name` for enums, tables and indexes,
+ * `schema.name(arg types)` for functions, `schema.table:name` for triggers and policies.
+ */
+export interface SchemaModel {
+  enums: Record<string, SchemaEnum>;
+  tables: Record<string, SchemaTable>;
+  indexes: Record<string, SchemaIndex>;
+  functions: Record<string, SchemaFunction>;
+  triggers: Record<string, SchemaTrigger>;
+  policies: Record<string, SchemaPolicy>;
+}
+
+export interface SchemaBuildResult {
+  schema: SchemaModel;
+  warnings: string[];
+}
+
+/**
+ * Row returned by SCHEMA_CATALOG_QUERY
+ */
+export interface SchemaCatalog {
+  enums: Array<{ schema: string; name: string; values: string[] }>;
+  tables: Array<{ schema: string; name: string; rls: boolean }>;
+  columns: Array<{ schema: string; table: string; name: string; type: string; nullable: boolean; default: string | null; generated: string | null }>;
+  constraints: Array<{ schema: string; table: string; name: string; definition: string }>;
+  indexes: string[];
+  functions: string[];
+  triggers: string[];
+  policies: Array<{ schema: string; table: string; name: string; permissive: boolean; command: string; roles: string[]; using: string | null; check: string | null }>;
+}
+
+export type SchemaObjectType = 'enum' | 'table' | 'column' | 'constraint' | 'index' | 'function' | 'trigger' | 'policy';
+
+export interface SchemaChange {
+  action: 'create' | 'alter' | 'drop';
+  object: SchemaObjectType;
+  name: string;
+  statements: string[];
+}
+
+export interface SchemaDiff {
+  changes: SchemaChange[];
+  warnings: string[];
+}
+
+export interface VersionedMigration {
+  version: string;
+  name: string;
+  changes: SchemaChange[];
+  // Destructive changes left out of the up migration (allowDestructive: false)
+  skipped: SchemaChange[];
+  warnings: string[];
+  up: string;
+  down: string;
+  files: Record<string, string>;
+}
+
+export interface VersionedMigrationOptions {
+  name?: string;
+  version?: string;
+  // false: tables, columns and enums missing from the target schema are kept
+  allowDestructive?: boolean;
+}
+
+// Bookkeeping table written by every generated migration (never diffed)
+export const SCHEMA_MIGRATIONS_TABLE = 'inopay_schema_migrations';
+
+// Default parameters of SCHEMA_CATALOG_QUERY
+export const DIFFED_SCHEMAS = ['public'];
+export const PLATFORM_SCHEMAS = ['auth', 'storage'];
+
+export function createEmptySchema(): SchemaModel {
+  return { enums: {}, tables: {}, indexes: {}, functions: {}, triggers: {}, policies: {} };
+}
+
+// ============= NORMALIZATION =============
+
+const TYPE_ALIASES: Record<string, string> = {
+  'timestamp with time zone': 'timestamptz',
+  'timestamp without time zone': 'timestamp',
+  'time with time zone': 'timetz',
+  'time without time zone': 'time',
+  'character varying': 'varchar',
+  'character': 'char',
+  'int': 'integer',
+  'int4': 'integer',
+  'int8': 'bigint',
+  'int2': 'smallint',
+  'bool': 'boolean',
+  'float8': 'double precision',
+  'float4': 'real',
+  'decimal': 'numeric',
+  'serial4': 'serial',
+  'serial8': 'bigserial',
+  'serial2': 'smallserial',
+};
+
+const SERIAL_TYPES: Record<string, string> = { integer: 'serial', bigint: 'bigserial', smallint: 'smallserial' };
+
+/**
+ * Canonical spelling of a type name (aliases resolved, `public.` dropped)
+ */
+export function normalizeType(type: string): string {
+  let text = type.trim().replace(/\s+/g, ' ').toLowerCase().replace(/"/g, '');
+  // timestamp(3) with time zone -> timestamptz(3)
+  text = text.replace(/^(timestamp|time)\s*(\(\d+\))\s*(with|without) time zone/, (_, base, precision, zone) => `${base} ${zone} time zone${precision}`);
+  const match = text.match(/^(.*?)\s*(\([^)]*\))?((?:\s*\[\d*\])*)$/);
+  if (!match) return text;
+  const base = match[1].replace(/^public\./, '');
+  const modifiers = match[2] ? match[2].replace(/\s+/g, '') : '';
+  const array = match[3].replace(/\s+/g, '').replace(/\[\d+\]/g, '[]');
+  return `${TYPE_ALIASES[base] ?? base}${modifiers}${array}`;
+}
+
+const TEXT_TYPES = new Set(['text', 'varchar', 'char', 'name']);
+
+function replaceNode(node: PgExpr, next: PgExpr): void {
+  for (const key of Object.keys(node)) delete (node as Record<string, unknown>)[key];
+  Object.assign(node, next);
+}
+
+/**
+ * Canonical spelling of a SQL expression, so that the text written in a
+ * migration and the one deparsed by PostgreSQL compare equal: `public.`
+ * dropped, `IN (...)` written as `= ANY (ARRAY[...])`, and literal casts to
+ * `implicit` types (text, enums) removed since PostgreSQL adds them itself
+ */
+export function normalizeExpression(sql: string, implicit: Set<string> = TEXT_TYPES): string {
+  let expr: PgExpr;
+  try {
+    expr = parsePgExpression(sql);
+  } catch {
+    return normalizeTokens(tokenizePg(sql).filter(t => t.type !== 'eof'));
+  }
+
+  const unqualify = (path: string[]) => (path.length > 1 && path[0] === 'public' ? path.slice(1) : path);
+
+  walkPgExpression(expr, node => {
+    if (node.kind === 'cast') {
+      node.type = normalizeType(node.type);
+      if (node.operand.kind === 'literal' && typeof node.operand.value === 'string' && implicit.has(node.type.replace(/\(.*$/, ''))) {
+        replaceNode(node, node.operand);
+      }
+    } else if (node.kind === 'in' && node.list) {
+      replaceNode(node, {
+        kind: 'quantified',
+        op: node.negated ? '<>' : '=',
+        quantifier: node.negated ? 'ALL' : 'ANY',
+        left: node.operand,
+        right: { kind: 'array', items: node.list },
+      });
+    } else if (node.kind === 'call') {
+      node.name = unqualify(node.name);
+    } else if (node.kind === 'column' && node.path.length === 3) {
+      node.path = unqualify(node.path);
+    } else if ('query' in node && node.query) {
+      node.query.from.forEach(item => { item.table = unqualify(item.table); });
+    }
+  });
+
+  return formatPgExpression(expr);
+}
+
+/**
+ * Normalizes a column default: a cast to the column's own type is implied
+ */
+function normalizeDefault(sql: string, type: string): string {
+  try {
+    const expr = parsePgExpression(sql);
+    if (expr.kind === 'cast' && normalizeType(expr.type) === type) {
+      return normalizeExpression(formatPgExpression(expr.operand));
+    }
+  } catch {
+    // Unparseable defaults are compared token by token
+  }
+  return normalizeExpression(sql);
+}
+
+function normalizeColumn(column: SchemaColumn): SchemaColumn {
+  let type = normalizeType(column.type);
+  let value = column.default !== undefined && column.default !== null ? normalizeDefault(column.default, type) : undefined;
+  if (value === 'NULL') value = undefined;
+
+  // integer DEFAULT nextval('t_id_seq'::regclass) is how the catalog spells serial
+  if (value && SERIAL_TYPES[type] && /^nextval\('[^']+'::regclass\)$/.test(value)) {
+    type = SERIAL_TYPES[type];
+    value = undefined;
+  }
+
+  const normalized: SchemaColumn = { name: column.name, type, nullable: column.nullable };
+  if (value !== undefined) normalized.default = value;
+  if (column.generated) normalized.generated = column.generated;
+  return normalized;
+}
+
+/**
+ * Joins tokens back into canonical SQL (unquoted words lower-cased)
+ */
+function normalizeTokens(tokens: PgToken[]): string {
+  let sql = '';
+  let previous: PgToken | null = null;
+
+  for (const token of tokens) {
+    let text: string;
+    if (token.type === 'ident') text = token.value.toLowerCase();
+    else if (token.type === 'quoted') text = quotePgIdentifier(token.value);
+    else if (token.type === 'string') text = quotePgLiteral(token.value);
+    else text = token.value;
+
+    const tight =
+      !previous ||
+      [')', ']', ',', '.', '['].includes(text) ||
+      ['(', '[', '.'].includes(previous.value) ||
+      text === '::' || previous.value === '::' ||
+      (text === '(' && (previous.type === 'ident' || previous.type === 'quoted'));
+    sql += (tight ? '' : ' ') + text;
+    previous = token;
+  }
+
+  return sql;
+}
+
+function tableKey(schema: string, name: string): string {
+  return `${schema}.${name}`;
+}
+
+/**
+ * Renders a `schema.name` key as a quoted qualified name
+ */
+function qualified(key: string): string {
+  const dot = key.indexOf('.');
+  return `${quotePgIdentifier(key.slice(0, dot))}.${quotePgIdentifier(key.slice(dot + 1))}`;
+}
+
+// ============= STATEMENT READER =============
+
+const COLUMN_CONSTRAINT_WORDS = new Set(['CONSTRAINT', 'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK', 'GENERATED', 'COLLATE']);
+
+class StatementReader {
+  pos = 0;
+
+  constructor(readonly sql: string, private tokens: PgToken[]) {}
+
+  static of(sql: string): StatementReader {
+    return new StatementReader(sql, tokenizePg(sql));
+  }
+
+  peek(offset = 0): PgToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  next(): PgToken {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  atEnd(): boolean {
+    const token = this.peek();
+    return token.type === 'eof' || (token.type === 'punct' && token.value === ';');
+  }
+
+  isKeyword(...words: string[]): boolean {
+    return words.every((word, index) => {
+      const token = this.peek(index);
+      return token.type === 'ident' && token.value.toUpperCase() === word;
+    });
+  }
+
+  acceptKeyword(...words: string[]): boolean {
+    if (!this.isKeyword(...words)) return false;
+    this.pos += words.length;
+    return true;
+  }
+
+  expectKeyword(...words: string[]): void {
+    if (!this.acceptKeyword(...words)) throw new Error(`Expected ${words.join(' ')} near "${this.peek().value}"`);
+  }
+
+  isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === value;
+  }
+
+  acceptPunct(value: string): boolean {
+    if (!this.isPunct(value)) return false;
+    this.pos++;
+    return true;
+  }
+
+  readName(): string {
+    const token = this.next();
+    if (token.type === 'quoted') return token.value;
+    if (token.type === 'ident') return token.value.toLowerCase();
+    if (token.type === 'string') return token.value;
+    throw new Error(`Expected a name near "${token.value}"`);
+  }
+
+  // Returns a `schema.name` key (unqualified names live in public)
+  readQualifiedName(): string {
+    const first = this.readName();
+    if (this.acceptPunct('.')) return tableKey(first, this.readName());
+    return tableKey('public', first);
+  }
+
+  // Tokens inside the next balanced parentheses (the parentheses are consumed)
+  readParenthesized(): PgToken[] {
+    if (!this.acceptPunct('(')) throw new Error(`Expected "(" near "${this.peek().value}"`);
+    const start = this.pos;
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.type === 'eof') throw new Error('Unbalanced parentheses');
+      if (token.type === 'punct' && (token.value === '(' || token.value === '[')) depth++;
+      if (token.type === 'punct' && (token.value === ')' || token.value === ']')) depth--;
+    }
+    return this.tokens.slice(start, this.pos - 1);
+  }
+
+  // Tokens up to (not including) the next top-level token matching `stop` (at least one)
+  readUntil(stop: (reader: StatementReader) => boolean): PgToken[] {
+    const start = this.pos;
+    let depth = 0;
+    while (!this.atEnd() && !(depth === 0 && this.pos > start && stop(this))) {
+      const token = this.next();
+      if (token.type === 'punct' && (token.value === '(' || token.value === '[')) depth++;
+      if (token.type === 'punct' && (token.value === ')' || token.value === ']')) depth--;
+    }
+    return this.tokens.slice(start, this.pos);
+  }
+
+  text(tokens: PgToken[]): string {
+    return tokens.length === 0 ? '' : this.sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+  }
+}
+
+function splitTopLevel(tokens: PgToken[]): PgToken[][] {
+  const parts: PgToken[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.type === 'punct' && (token.value === '(' || token.value === '[')) depth++;
+    if (token.type === 'punct' && (token.value === ')' || token.value === ']')) depth--;
+    if (depth === 0 && token.type === 'punct' && token.value === ',') parts.push([]);
+    else parts[parts.length - 1].push(token);
+  }
+  return parts.filter(part => part.length > 0);
+}
+
+// Reader over a sub-list of tokens (re-using the statement source for slices)
+function subReader(sql: string, tokens: PgToken[]): StatementReader {
+  const end = tokens.length > 0 ? tokens[tokens.length - 1].end : 0;
+  return new StatementReader(sql, [...tokens, { type: 'eof', value: '', start: end, end }]);
+}
+
+function nameList(tokens: PgToken[]): string[] {
+  return splitTopLevel(tokens).map(part => (part[0].type === 'quoted' ? part[0].value : part[0].value.toLowerCase()));
+}
+
+// ============= SCHEMA BUILDER =============
+
+const FUNCTION_OPTION_WORDS = new Set([
+  'LANGUAGE', 'AS', 'IMMUTABLE', 'STABLE', 'VOLATILE', 'STRICT', 'CALLED', 'RETURNS', 'SECURITY', 'EXTERNAL',
+  'SET', 'COST', 'ROWS', 'PARALLEL', 'LEAKPROOF', 'NOT', 'WINDOW', 'TRANSFORM', 'SUPPORT',
+]);
+
+// Statements that never change the structure tracked here
+const IGNORED_STATEMENTS = /^(GRANT|REVOKE|COMMENT|INSERT|UPDATE|DELETE|SELECT|SET|RESET|BEGIN|COMMIT|ROLLBACK|START|END|NOTIFY|ANALYZE|VACUUM|TRUNCATE|CREATE\s+(EXTENSION|SCHEMA|ROLE|PUBLICATION)|ALTER\s+(EXTENSION|SCHEMA|ROLE|PUBLICATION|DEFAULT\s+PRIVILEGES|DATABASE)|DROP\s+(EXTENSION|SCHEMA|ROLE|PUBLICATION))\b/i;
+
+class SchemaBuilder {
+  schema = createEmptySchema();
+  warnings: string[] = [];
+
+  // Literal casts PostgreSQL adds on its own: text types and the enums seen so far
+  private expression(sql: string): string {
+    return normalizeExpression(sql, new Set([...TEXT_TYPES, ...Object.values(this.schema.enums).map(type => type.name)]));
+  }
+
+  /**
+   * Applies one DDL statement to the model; unsupported statements become warnings
+   */
+  apply(statement: string, origin: string): void {
+    const sql = statement.replace(/^(\s*(--[^\n]*(\n|$)|\/\*[\s\S]*?\*\/))+/, '').trim().replace(/;\s*$/, '');
+    if (!sql || IGNORED_STATEMENTS.test(sql)) return;
+
+    try {
+      const reader = StatementReader.of(sql);
+      if (reader.atEnd()) return;
+      if (!this.dispatch(reader, origin)) {
+        this.warnings.push(`${origin}: statement not tracked: ${sql.split('\n')[0].slice(0, 80)}`);
+      }
+    } catch (error) {
+      this.warnings.push(`${origin}: ${error instanceof Error ? error.message : String(error)}: ${sql.split('\n')[0].slice(0, 80)}`);
+    }
+  }
+
+  private dispatch(reader: StatementReader, origin: string): boolean {
+    if (reader.acceptKeyword('DO')) return this.applyDoBlock(reader, origin);
+
+    if (reader.acceptKeyword('CREATE')) {
+      reader.acceptKeyword('OR', 'REPLACE');
+      reader.acceptKeyword('UNLOGGED');
+      if (reader.acceptKeyword('TABLE')) return this.createTable(reader);
+      if (reader.acceptKeyword('TYPE')) return this.createType(reader);
+      if (reader.isKeyword('UNIQUE', 'INDEX') || reader.isKeyword('INDEX')) return this.createIndex(reader);
+      if (reader.acceptKeyword('FUNCTION')) return this.createFunction(reader);
+      reader.acceptKeyword('CONSTRAINT');
+      if (reader.acceptKeyword('TRIGGER')) return this.createTrigger(reader);
+      if (reader.acceptKeyword('POLICY')) return this.createPolicy(reader);
+      return false;
+    }
+
+    if (reader.acceptKeyword('ALTER')) {
+      if (reader.acceptKeyword('TABLE')) return this.alterTable(reader);
+      if (reader.acceptKeyword('TYPE')) return this.alterType(reader);
+      if (reader.acceptKeyword('POLICY')) return this.alterPolicy(reader);
+      // ALTER FUNCTION ... OWNER TO / SET: not part of the diffed definition
+      return reader.isKeyword('FUNCTION') || reader.isKeyword('INDEX') || reader.isKeyword('TRIGGER');
+    }
+
+    if (reader.acceptKeyword('DROP')) {
+      if (reader.acceptKeyword('TABLE')) return this.dropTables(reader);
+      if (reader.acceptKeyword('TYPE')) return this.dropTypes(reader);
+      if (reader.acceptKeyword('INDEX')) return this.dropIndexes(reader);
+      if (reader.acceptKeyword('FUNCTION')) return this.dropFunctions(reader);
+      if (reader.acceptKeyword('TRIGGER')) return this.dropTrigger(reader);
+      if (reader.acceptKeyword('POLICY')) return this.dropPolicy(reader);
+      return false;
+    }
+
+    return false;
+  }
+
+  // DO $$ BEGIN <ddl>; EXCEPTION WHEN duplicate_object THEN null; END $$
+  private applyDoBlock(reader: StatementReader, origin: string): boolean {
+    if (reader.acceptKeyword('LANGUAGE')) reader.next();
+    const body = reader.next();
+    if (body.type !== 'string') return false;
+
+    const inner = body.value
+      .replace(/^\s*(DECLARE[\s\S]*?)?BEGIN\b/i, '')
+      .replace(/\bEXCEPTION\b[\s\S]*$/i, '')
+      .replace(/\bEND\s*;?\s*$/i, '');
+
+    for (const statement of splitStatements(inner)) {
+      // IF NOT EXISTS (...) THEN CREATE ... / END IF
+      const guarded = statement.replace(/^IF\b[\s\S]*?\bTHEN\b/i, '').trim();
+      if (!/^END\s+IF$/i.test(guarded) && !/^(RAISE|PERFORM|NULL)\b/i.test(guarded)) this.apply(guarded, origin);
+    }
+    return true;
+  }
+
+  // ---------- Tables ----------
+
+  private createTable(reader: StatementReader): boolean {
+    reader.acceptKeyword('IF', 'NOT', 'EXISTS');
+    const key = reader.readQualifiedName();
+    if (reader.isKeyword('AS') || reader.isKeyword('PARTITION', 'OF') || reader.isKeyword('OF')) {
+      throw new Error('CREATE TABLE AS / OF is not supported');
+    }
+
+    const [schema, name] = [key.slice(0, key.indexOf('.')), key.slice(key.indexOf('.') + 1)];
+    const table: SchemaTable = { schema, name, columns: [], constraints: [], rls: this.schema.tables[key]?.rls ?? false };
+    if (this.schema.tables[key]) return true; // IF NOT EXISTS on an existing table
+    this.schema.tables[key] = table;
+
+    for (const element of splitTopLevel(reader.readParenthesized())) {
+      const sub = subReader(reader.sql, element);
+      if (sub.isKeyword('LIKE')) throw new Error('CREATE TABLE ... LIKE is not supported');
+      if (sub.isKeyword('CONSTRAINT') || sub.isKeyword('PRIMARY') || sub.isKeyword('UNIQUE') || sub.isKeyword('FOREIGN') || sub.isKeyword('CHECK') || sub.isKeyword('EXCLUDE')) {
+        this.addTableConstraint(table, sub);
+      } else {
+        this.addColumn(table, sub);
+      }
+    }
+    return true;
+  }
+
+  private addColumn(table: SchemaTable, reader: StatementReader): void {
+    const name = reader.readName();
+    const typeTokens = reader.readUntil(r => r.peek().type === 'ident' && COLUMN_CONSTRAINT_WORDS.has(r.peek().value.toUpperCase()));
+    const column: SchemaColumn = { name, type: reader.text(typeTokens), nullable: true };
+    const inline: SchemaConstraint[] = [];
+
+    while (!reader.atEnd()) {
+      let constraintName: string | undefined;
+      if (reader.acceptKeyword('CONSTRAINT')) constraintName = reader.readName();
+
+      if (reader.acceptKeyword('NOT', 'NULL')) {
+        column.nullable = false;
+      } else if (reader.acceptKeyword('NULL')) {
+        column.nullable = true;
+      } else if (reader.acceptKeyword('DEFAULT')) {
+        column.default = reader.text(reader.readUntil(r => r.peek().type === 'ident' && COLUMN_CONSTRAINT_WORDS.has(r.peek().value.toUpperCase())));
+      } else if (reader.acceptKeyword('PRIMARY', 'KEY')) {
+        column.nullable = false;
+        inline.push({ name: constraintName ?? `${table.name}_pkey`, definition: `PRIMARY KEY (${quotePgIdentifier(name)})` });
+      } else if (reader.acceptKeyword('UNIQUE')) {
+        inline.push({ name: constraintName ?? `${table.name}_${name}_key`, definition: `UNIQUE (${quotePgIdentifier(name)})` });
+      } else if (reader.acceptKeyword('REFERENCES')) {
+        inline.push({ name: constraintName ?? `${table.name}_${name}_fkey`, definition: this.foreignKey([name], reader) });
+      } else if (reader.acceptKeyword('CHECK')) {
+        const expr = reader.text(reader.readParenthesized());
+        reader.acceptKeyword('NO', 'INHERIT');
+        inline.push({ name: constraintName ?? `${table.name}_${name}_check`, definition: `CHECK (${this.expression(expr)})` });
+      } else if (reader.acceptKeyword('GENERATED')) {
+        const rest = reader.readUntil(r => r.peek().type === 'ident' && COLUMN_CONSTRAINT_WORDS.has(r.peek().value.toUpperCase()) && r.peek().value.toUpperCase() !== 'DEFAULT');
+        column.generated = `GENERATED ${normalizeTokens(rest).toUpperCase()}`.replace(/\bAS \((.*)\) STORED$/, (_, expr) => `AS (${this.expression(expr)}) STORED`);
+      } else if (reader.acceptKeyword('COLLATE')) {
+        reader.readName();
+      } else {
+        throw new Error(`Unexpected "${reader.peek().value}" in column ${name}`);
+      }
+    }
+
+    const existing = table.columns.findIndex(c => c.name === name);
+    if (existing >= 0) table.columns.splice(existing, 1);
+    table.columns.push(normalizeColumn(column));
+    inline.forEach(constraint => this.setConstraint(table, constraint));
+  }
+
+  private addTableConstraint(table: SchemaTable, reader: StatementReader): void {
+    let name: string | undefined;
+    if (reader.acceptKeyword('CONSTRAINT')) name = reader.readName();
+
+    if (reader.acceptKeyword('PRIMARY', 'KEY')) {
+      const columns = nameList(reader.readParenthesized());
+      columns.forEach(column => {
+        const target = table.columns.find(c => c.name === column);
+        if (target) target.nullable = false;
+      });
+      this.setConstraint(table, { name: name ?? `${table.name}_pkey`, definition: `PRIMARY KEY (${columns.map(quotePgIdentifier).join(', ')})` });
+    } else if (reader.acceptKeyword('UNIQUE')) {
+      const nulls = reader.acceptKeyword('NULLS', 'NOT', 'DISTINCT') ? ' NULLS NOT DISTINCT' : '';
+      reader.acceptKeyword('NULLS', 'DISTINCT');
+      const columns = nameList(reader.readParenthesized());
+      this.setConstraint(table, { name: name ?? `${table.name}_${columns.join('_')}_key`, definition: `UNIQUE${nulls} (${columns.map(quotePgIdentifier).join(', ')})` });
+    } else if (reader.acceptKeyword('FOREIGN', 'KEY')) {
+      const columns = nameList(reader.readParenthesized());
+      reader.expectKeyword('REFERENCES');
+      this.setConstraint(table, { name: name ?? `${table.name}_${columns.join('_')}_fkey`, definition: this.foreignKey(columns, reader) });
+    } else if (reader.acceptKeyword('CHECK')) {
+      const expr = reader.text(reader.readParenthesized());
+      reader.acceptKeyword('NO', 'INHERIT');
+      let fallback = `${table.name}_check`;
+      try {
+        let first: string | undefined;
+        walkPgExpression(parsePgExpression(expr), node => {
+          if (!first && node.kind === 'column') first = node.path[node.path.length - 1];
+        });
+        if (first) fallback = `${table.name}_${first}_check`;
+      } catch {
+        // keep the table-level default name
+      }
+      this.setConstraint(table, { name: name ?? fallback, definition: `CHECK (${this.expression(expr)})` });
+    } else if (reader.acceptKeyword('EXCLUDE')) {
+      this.setConstraint(table, { name: name ?? `${table.name}_excl`, definition: `EXCLUDE ${normalizeTokens(reader.readUntil(() => false))}` });
+    } else {
+      throw new Error(`Unsupported table constraint near "${reader.peek().value}"`);
+    }
+  }
+
+  // REFERENCES table [(columns)] [MATCH ...] [ON UPDATE ...] [ON DELETE ...] [DEFERRABLE ...]
+  private foreignKey(columns: string[], reader: StatementReader): string {
+    const target = reader.readQualifiedName();
+    let references = reader.isPunct('(') ? nameList(reader.readParenthesized()) : null;
+    if (!references) {
+      const primary = this.schema.tables[target]?.constraints.find(c => c.definition.startsWith('PRIMARY KEY'));
+      references = primary ? nameList(tokenizePg(primary.definition.replace(/^PRIMARY KEY \((.*)\)$/, '$1')).filter(t => t.type !== 'eof')) : ['id'];
+    }
+
+    let match = '';
+    let onUpdate = '';
+    let onDelete = '';
+    let deferrable = '';
+    while (!reader.atEnd()) {
+      if (reader.acceptKeyword('MATCH')) {
+        const kind = reader.readName().toUpperCase();
+        if (kind !== 'SIMPLE') match = ` MATCH ${kind}`;
+      } else if (reader.acceptKeyword('ON', 'UPDATE')) {
+        onUpdate = this.referentialAction(reader, 'UPDATE');
+      } else if (reader.acceptKeyword('ON', 'DELETE')) {
+        onDelete = this.referentialAction(reader, 'DELETE');
+      } else if (reader.isKeyword('DEFERRABLE') || reader.isKeyword('NOT', 'DEFERRABLE') || reader.isKeyword('INITIALLY')) {
+        const words = reader.readUntil(r => !['DEFERRABLE', 'NOT', 'INITIALLY', 'DEFERRED', 'IMMEDIATE'].includes(r.peek().value.toUpperCase()));
+        const text = normalizeTokens(words).toUpperCase();
+        if (text !== 'NOT DEFERRABLE' && text !== 'INITIALLY IMMEDIATE' && text !== 'NOT DEFERRABLE INITIALLY IMMEDIATE') deferrable += ` ${text}`;
+      } else {
+        break;
+      }
+    }
+
+    return `FOREIGN KEY (${columns.map(quotePgIdentifier).join(', ')}) REFERENCES ${qualified(target)}(${references.map(quotePgIdentifier).join(', ')})${match}${onUpdate}${onDelete}${deferrable}`;
+  }
+
+  private referentialAction(reader: StatementReader, event: string): string {
+    const words = [reader.readName().toUpperCase()];
+    if (words[0] === 'SET' || words[0] === 'NO') words.push(reader.readName().toUpperCase());
+    // SET NULL (column, ...) / SET DEFAULT (column, ...)
+    const columns = reader.isPunct('(') ? ` (${nameList(reader.readParenthesized()).map(quotePgIdentifier).join(', ')})` : '';
+    const action = words.join(' ');
+    return action === 'NO ACTION' ? '' : ` ON ${event} ${action}${columns}`;
+  }
+
+  private setConstraint(table: SchemaTable, constraint: SchemaConstraint): void {
+    table.constraints = table.constraints.filter(c => c.name !== constraint.name);
+    table.constraints.push(constraint);
+  }
+
+  private alterTable(reader: StatementReader): boolean {
+    reader.acceptKeyword('IF', 'EXISTS');
+    reader.acceptKeyword('ONLY');
+    const key = reader.readQualifiedName();
+    const table = this.schema.tables[key];
+
+    if (reader.acceptKeyword('RENAME')) {
+      if (!table) return true;
+      if (reader.acceptKeyword('TO')) {
+        this.renameTable(key, tableKey(table.schema, reader.readName()));
+      } else if (reader.acceptKeyword('CONSTRAINT')) {
+        const from = reader.readName();
+        reader.expectKeyword('TO');
+        const to = reader.readName();
+        table.constraints.forEach(c => { if (c.name === from) c.name = to; });
+      } else {
+        reader.acceptKeyword('COLUMN');
+        const from = reader.readName();
+        reader.expectKeyword('TO');
+        const to = reader.readName();
+        table.columns.forEach(c => { if (c.name === from) c.name = to; });
+      }
+      return true;
+    }
+
+    for (const action of splitTopLevel(reader.readUntil(() => false))) {
+      if (!table) continue; // ALTER TABLE IF EXISTS on a table we do not know
+      this.alterTableAction(table, subReader(reader.sql, action));
+    }
+    return true;
+  }
+
+  private alterTableAction(table: SchemaTable, reader: StatementReader): void {
+    if (reader.acceptKeyword('ENABLE', 'ROW', 'LEVEL', 'SECURITY')) {
+      table.rls = true;
+    } else if (reader.acceptKeyword('DISABLE', 'ROW', 'LEVEL', 'SECURITY')) {
+      table.rls = false;
+    } else if (reader.acceptKeyword('ADD')) {
+      if (reader.isKeyword('CONSTRAINT') || reader.isKeyword('PRIMARY') || reader.isKeyword('UNIQUE') || reader.isKeyword('FOREIGN') || reader.isKeyword('CHECK') || reader.isKeyword('EXCLUDE')) {
+        this.addTableConstraint(table, reader);
+        return;
+      }
+      reader.acceptKeyword('COLUMN');
+      const ifNotExists = reader.acceptKeyword('IF', 'NOT', 'EXISTS');
+      const name = reader.peek().type === 'quoted' ? reader.peek().value : reader.peek().value.toLowerCase();
+      if (ifNotExists && table.columns.some(c => c.name === name)) return;
+      this.addColumn(table, reader);
+    } else if (reader.acceptKeyword('DROP')) {
+      if (reader.acceptKeyword('CONSTRAINT')) {
+        reader.acceptKeyword('IF', 'EXISTS');
+        const name = reader.readName();
+        table.constraints = table.constraints.filter(c => c.name !== name);
+        return;
+      }
+      reader.acceptKeyword('COLUMN');
+      reader.acceptKeyword('IF', 'EXISTS');
+      const name = reader.readName();
+      table.columns = table.columns.filter(c => c.name !== name);
+      // Constraints and indexes on the column go with it
+      const quoted = quotePgIdentifier(name);
+      table.constraints = table.constraints.filter(c => !new RegExp(`[( ,]${quoted.replace(/[.*+?^${}()|[\]\\"]/g, '\\$&')}[,) ]`).test(c.definition.replace(/REFERENCES.*$/, '')));
+      const tableId = tableKey(table.schema, table.name);
+      for (const [key, index] of Object.entries(this.schema.indexes)) {
+        if (index.table === tableId && tokenizePg(index.columns).some(t => (t.type === 'quoted' || t.type === 'ident') && t.value.toLowerCase() === name)) {
+          delete this.schema.indexes[key];
+        }
+      }
+    } else if (reader.acceptKeyword('ALTER')) {
+      reader.acceptKeyword('COLUMN');
+      const name = reader.readName();
+      const column = table.columns.find(c => c.name === name);
+      if (!column) return;
+      if (reader.acceptKeyword('TYPE') || reader.acceptKeyword('SET', 'DATA', 'TYPE')) {
+        column.type = normalizeType(reader.text(reader.readUntil(r => r.isKeyword('USING') || r.isKeyword('COLLATE'))));
+        if (column.default !== undefined) column.default = normalizeDefault(column.default, column.type);
+      } else if (reader.acceptKeyword('SET', 'DEFAULT')) {
+        column.default = normalizeDefault(reader.text(reader.readUntil(() => false)), column.type);
+      } else if (reader.acceptKeyword('DROP', 'DEFAULT')) {
+        delete column.default;
+      } else if (reader.acceptKeyword('SET', 'NOT', 'NULL')) {
+        column.nullable = false;
+      } else if (reader.acceptKeyword('DROP', 'NOT', 'NULL')) {
+        column.nullable = true;
+      }
+      // SET STATISTICS / SET STORAGE / identity options: not diffed
+    }
+    // OWNER TO, FORCE ROW LEVEL SECURITY, REPLICA IDENTITY, ENABLE TRIGGER...: not diffed
+  }
+
+  private renameTable(from: string, to: string): void {
+    const table = this.schema.tables[from];
+    delete this.schema.tables[from];
+    table.name = to.slice(to.indexOf('.') + 1);
+    this.schema.tables[to] = table;
+
+    for (const index of Object.values(this.schema.indexes)) {
+      if (index.table === from) index.table = to;
+    }
+    for (const collection of [this.schema.triggers, this.schema.policies] as Array<Record<string, SchemaTrigger | SchemaPolicy>>) {
+      for (const [key, item] of Object.entries(collection)) {
+        if (item.table !== from) continue;
+        delete collection[key];
+        item.table = to;
+        collection[`${to}:${item.name}`] = item;
+      }
+    }
+  }
+
+  private dropTables(reader: StatementReader): boolean {
+    reader.acceptKeyword('IF', 'EXISTS');
+    for (const part of splitTopLevel(reader.readUntil(r => r.isKeyword('CASCADE') || r.isKeyword('RESTRICT')))) {
+      const key = subReader(reader.sql, part).readQualifiedName();
+      delete this.schema.tables[key];
+      for (const [indexKey, index] of Object.entries(this.schema.indexes)) {
+        if (index.table === key) delete this.schema.indexes[indexKey];
+      }
+      for (const collection of [this.schema.triggers, this.schema.policies] as Array<Record<string, SchemaTrigger | SchemaPolicy>>) {
+        for (const [itemKey, item] of Object.entries(collection)) {
+          if (item.table === key) delete collection[itemKey];
+        }
+      }
+    }
+    return true;
+  }
+
+  // ---------- Enums ----------
+
+  private createType(reader: StatementReader): boolean {
+    const key = reader.readQualifiedName();
+    if (!reader.acceptKeyword('AS', 'ENUM')) throw new Error('only enum types are tracked');
+    const values = splitTopLevel(reader.readParenthesized()).map(part => part[0].value);
+    const [schema, name] = [key.slice(0, key.indexOf('.')), key.slice(key.indexOf('.') + 1)];
+    if (!this.schema.enums[key]) this.schema.enums[key] = { schema, name, values };
+    return true;
+  }
+
+  private alterType(reader: StatementReader): boolean {
+    const key = reader.readQualifiedName();
+    const type = this.schema.enums[key];
+    if (!type) return true;
+
+    if (reader.acceptKeyword('ADD', 'VALUE')) {
+      reader.acceptKeyword('IF', 'NOT', 'EXISTS');
+      const value = reader.next().value;
+      if (type.values.includes(value)) return true;
+      if (reader.acceptKeyword('BEFORE')) {
+        type.values.splice(Math.max(0, type.values.indexOf(reader.next().value)), 0, value);
+      } else if (reader.acceptKeyword('AFTER')) {
+        const anchor = type.values.indexOf(reader.next().value);
+        type.values.splice(anchor >= 0 ? anchor + 1 : type.values.length, 0, value);
+      } else {
+        type.values.push(value);
+      }
+    } else if (reader.acceptKeyword('RENAME', 'VALUE')) {
+      const from = reader.next().value;
+      reader.expectKeyword('TO');
+      const to = reader.next().value;
+      type.values = type.values.map(v => (v === from ? to : v));
+    } else if (reader.acceptKeyword('RENAME', 'TO')) {
+      delete this.schema.enums[key];
+      type.name = reader.readName();
+      this.schema.enums[tableKey(type.schema, type.name)] = type;
+    }
+    return true;
+  }
+
+  private dropTypes(reader: StatementReader): boolean {
+    reader.acceptKeyword('IF', 'EXISTS');
+    for (const part of splitTopLevel(reader.readUntil(r => r.isKeyword('CASCADE') || r.isKeyword('RESTRICT')))) {
+      delete this.schema.enums[subReader(reader.sql, part).readQualifiedName()];
+    }
+    return true;
+  }
+
+  // ---------- Indexes ----------
+
+  private createIndex(reader: StatementReader): boolean {
+    const unique = reader.acceptKeyword('UNIQUE');
+    reader.expectKeyword('INDEX');
+    reader.acceptKeyword('CONCURRENTLY');
+    const ifNotExists = reader.acceptKeyword('IF', 'NOT', 'EXISTS');
+    const explicitName = reader.isKeyword('ON') ? null : reader.readName();
+    reader.expectKeyword('ON');
+    reader.acceptKeyword('ONLY');
+    const table = reader.readQualifiedName();
+    const method = reader.acceptKeyword('USING') ? reader.readName().toLowerCase() : 'btree';
+    const items = splitTopLevel(reader.readParenthesized());
+
+    const index: SchemaIndex = {
+      schema: table.slice(0, table.indexOf('.')),
+      name: explicitName ?? `${table.slice(table.indexOf('.') + 1)}_${items.map(item => (item.length === 1 && item[0].type !== 'string' ? item[0].value.toLowerCase() : 'expr')).join('_')}_idx`,
+      table,
+      unique,
+      method,
+      columns: items.map(item => normalizeTokens(item).replace(/ asc( |$)/, '$1').replace(/ nulls last$/, '').replace(/( desc) nulls first$/, '$1')).join(', '),
+    };
+
+    while (!reader.atEnd()) {
+      if (reader.acceptKeyword('INCLUDE')) {
+        index.include = nameList(reader.readParenthesized()).map(quotePgIdentifier).join(', ');
+      } else if (reader.acceptKeyword('WHERE')) {
+        index.where = this.expression(reader.text(reader.readUntil(() => false)));
+      } else if (reader.acceptKeyword('WITH')) {
+        reader.readParenthesized();
+      } else if (reader.acceptKeyword('TABLESPACE')) {
+        reader.readName();
+      } else if (reader.acceptKeyword('NULLS', 'NOT', 'DISTINCT')) {
+        index.nullsNotDistinct = true;
+      } else if (reader.acceptKeyword('NULLS', 'DISTINCT')) {
+        // default
+      } else {
+        throw new Error(`Unexpected "${reader.peek().value}" in index ${index.name}`);
+      }
+    }
+
+    const key = tableKey(index.schema, index.name);
+    if (!(ifNotExists && this.schema.indexes[key])) this.schema.indexes[key] = stripUndefined(index);
+    return true;
+  }
+
+  private dropIndexes(reader: StatementReader): boolean {
+    reader.acceptKeyword('CONCURRENTLY');
+    reader.acceptKeyword('IF', 'EXISTS');
+    for (const part of splitTopLevel(reader.readUntil(r => r.isKeyword('CASCADE') || r.isKeyword('RESTRICT')))) {
+      delete this.schema.indexes[subReader(reader.sql, part).readQualifiedName()];
+    }
+    return true;
+  }
+
+  // ---------- Functions ----------
+
+  private createFunction(reader: StatementReader): boolean {
+    const key = reader.readQualifiedName();
+    const args = splitTopLevel(reader.readParenthesized()).map(arg => parseFunctionArgument(subReader(reader.sql, arg)));
+
+    const fn: SchemaFunction = {
+      schema: key.slice(0, key.indexOf('.')),
+      name: key.slice(key.indexOf('.') + 1),
+      args: args.map(a => a.text).join(', '),
+      identity: args.filter(a => a.mode !== 'OUT').map(a => a.type).join(', '),
+      returns: 'void',
+      language: 'sql',
+      attributes: [],
+      body: '',
+    };
+    const attributes = new Set<string>();
+    const isOption = (r: StatementReader) => r.peek().type === 'ident' && FUNCTION_OPTION_WORDS.has(r.peek().value.toUpperCase());
+
+    while (!reader.atEnd()) {
+      if (reader.acceptKeyword('RETURNS', 'NULL', 'ON', 'NULL', 'INPUT') || reader.acceptKeyword('STRICT')) {
+        attributes.add('STRICT');
+      } else if (reader.acceptKeyword('RETURNS')) {
+        if (reader.acceptKeyword('TABLE')) {
+          fn.returns = `TABLE(${splitTopLevel(reader.readParenthesized()).map(column => {
+            const sub = subReader(reader.sql, column);
+            const name = sub.readName();
+            return `${quotePgIdentifier(name)} ${normalizeType(sub.text(sub.readUntil(() => false)))}`;
+          }).join(', ')})`;
+        } else {
+          const setof = reader.acceptKeyword('SETOF') ? 'SETOF ' : '';
+          fn.returns = setof + normalizeType(reader.text(reader.readUntil(isOption)));
+        }
+      } else if (reader.acceptKeyword('LANGUAGE')) {
+        fn.language = reader.readName().toLowerCase();
+      } else if (reader.acceptKeyword('AS')) {
+        fn.body = reader.next().value;
+        if (reader.acceptPunct(',')) reader.next();
+      } else if (reader.acceptKeyword('IMMUTABLE') || reader.acceptKeyword('STABLE')) {
+        attributes.add(reader.peek(-1).value.toUpperCase());
+      } else if (reader.acceptKeyword('VOLATILE') || reader.acceptKeyword('CALLED', 'ON', 'NULL', 'INPUT') || reader.acceptKeyword('NOT', 'LEAKPROOF')) {
+        // defaults
+      } else if (reader.acceptKeyword('EXTERNAL') || reader.isKeyword('SECURITY')) {
+        reader.expectKeyword('SECURITY');
+        if (reader.readName().toUpperCase() === 'DEFINER') attributes.add('SECURITY DEFINER');
+      } else if (reader.acceptKeyword('LEAKPROOF') || reader.acceptKeyword('WINDOW')) {
+        attributes.add(reader.peek(-1).value.toUpperCase());
+      } else if (reader.acceptKeyword('PARALLEL')) {
+        const mode = reader.readName().toUpperCase();
+        if (mode !== 'UNSAFE') attributes.add(`PARALLEL ${mode}`);
+      } else if (reader.acceptKeyword('COST') || reader.acceptKeyword('ROWS')) {
+        const option = reader.peek(-1).value.toUpperCase();
+        const value = reader.next().value;
+        if (!(option === 'COST' && value === '100') && !(option === 'ROWS' && value === '1000')) attributes.add(`${option} ${value}`);
+      } else if (reader.acceptKeyword('SET')) {
+        const parameter = reader.readName();
+        if (reader.acceptKeyword('FROM', 'CURRENT')) {
+          attributes.add(`SET ${parameter} FROM CURRENT`);
+        } else {
+          if (!reader.acceptKeyword('TO')) reader.next(); // '='
+          const values = splitTopLevel(reader.readUntil(isOption)).map(value => quotePgLiteral(value.map(t => t.value).join('')));
+          attributes.add(`SET ${parameter} TO ${values.join(', ')}`);
+        }
+      } else if (reader.isKeyword('BEGIN', 'ATOMIC')) {
+        throw new Error('BEGIN ATOMIC function bodies are not supported');
+      } else {
+        throw new Error(`Unexpected "${reader.peek().value}" in function ${fn.name}`);
+      }
+    }
+
+    fn.attributes = [...attributes].sort();
+    this.schema.functions[`${key}(${fn.identity})`] = fn;
+    return true;
+  }
+
+  private dropFunctions(reader: StatementReader): boolean {
+    reader.acceptKeyword('IF', 'EXISTS');
+    for (const part of splitTopLevel(reader.readUntil(r => r.isKeyword('CASCADE') || r.isKeyword('RESTRICT')))) {
+      const sub = subReader(reader.sql, part);
+      const key = sub.readQualifiedName();
+      if (sub.isPunct('(')) {
+        const identity = splitTopLevel(sub.readParenthesized())
+          .map(arg => parseFunctionArgument(subReader(reader.sql, arg)))
+          .filter(a => a.mode !== 'OUT')
+          .map(a => a.type)
+          .join(', ');
+        delete this.schema.functions[`${key}(${identity})`];
+      } else {
+        for (const existing of Object.keys(this.schema.functions)) {
+          if (existing.startsWith(`${key}(`)) delete this.schema.functions[existing];
+        }
+      }
+    }
+    return true;
+  }
+
+  // ---------- Triggers ----------
+
+  private createTrigger(reader: StatementReader): boolean {
+    const name = reader.readName();
+    const timing = reader.acceptKeyword('INSTEAD', 'OF') ? 'INSTEAD OF' : reader.readName().toUpperCase();
+    const events = reader
+      .readUntil(r => r.isKeyword('ON'))
+      .reduce<string[][]>((groups, token) => {
+        if (token.type === 'ident' && token.value.toUpperCase() === 'OR') groups.push([]);
+        else groups[groups.length - 1].push(token.type === 'ident' && ['INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'OF'].includes(token.value.toUpperCase()) ? token.value.toUpperCase() : normalizeTokens([token]));
+        return groups;
+      }, [[]])
+      .map(words => words.join(' ').replace(/ , /g, ', '))
+      .join(' OR ');
+    reader.expectKeyword('ON');
+    const table = reader.readQualifiedName();
+
+    const trigger: SchemaTrigger = { name, table, timing, events, level: 'STATEMENT', execute: '' };
+    while (!reader.atEnd()) {
+      if (reader.acceptKeyword('FOR')) {
+        reader.acceptKeyword('EACH');
+        trigger.level = reader.readName().toUpperCase() === 'ROW' ? 'ROW' : 'STATEMENT';
+      } else if (reader.acceptKeyword('WHEN')) {
+        trigger.when = this.expression(reader.text(reader.readParenthesized()));
+      } else if (reader.acceptKeyword('EXECUTE')) {
+        reader.next(); // FUNCTION | PROCEDURE
+        const fn = reader.readQualifiedName();
+        const args = reader.readParenthesized();
+        trigger.execute = `${qualified(fn)}(${normalizeTokens(args)})`;
+      } else if (reader.acceptKeyword('FROM')) {
+        reader.readQualifiedName();
+      } else if (reader.acceptKeyword('REFERENCING')) {
+        reader.readUntil(r => r.isKeyword('FOR') || r.isKeyword('WHEN') || r.isKeyword('EXECUTE'));
+      } else {
+        // NOT DEFERRABLE / DEFERRABLE / INITIALLY ...
+        reader.next();
+      }
+    }
+
+    this.schema.triggers[`${table}:${name}`] = stripUndefined(trigger);
+    return true;
+  }
+
+  private dropTrigger(reader: StatementReader): boolean {
+    reader.acceptKeyword('IF', 'EXISTS');
+    const name = reader.readName();
+    reader.expectKeyword('ON');
+    delete this.schema.triggers[`${reader.readQualifiedName()}:${name}`];
+    return true;
+  }
+
+  // ---------- Policies ----------
+
+  private createPolicy(reader: StatementReader): boolean {
+    reader.acceptKeyword('IF', 'NOT', 'EXISTS'); // not PostgreSQL, but found in hand-written scripts
+    const name = reader.readName();
+    reader.expectKeyword('ON');
+    const table = reader.readQualifiedName();
+    const policy: SchemaPolicy = { name, table, permissive: true, command: 'ALL', roles: ['public'] };
+
+    while (!reader.atEnd()) {
+      if (reader.acceptKeyword('AS')) {
+        policy.permissive = reader.readName().toUpperCase() !== 'RESTRICTIVE';
+      } else if (reader.acceptKeyword('FOR')) {
+        policy.command = reader.readName().toUpperCase();
+      } else if (reader.acceptKeyword('TO')) {
+        policy.roles = nameList(reader.readUntil(r => r.isKeyword('USING') || r.isKeyword('WITH'))).sort();
+      } else if (reader.acceptKeyword('USING')) {
+        policy.using = this.expression(reader.text(reader.readParenthesized()));
+      } else if (reader.acceptKeyword('WITH', 'CHECK')) {
+        policy.check = this.expression(reader.text(reader.readParenthesized()));
+      } else {
+        throw new Error(`Unexpected "${reader.peek().value}" in policy ${name}`);
+      }
+    }
+
+    this.schema.policies[`${table}:${name}`] = policy;
+    return true;
+  }
+
+  private alterPolicy(reader: StatementReader): boolean {
+    const name = reader.readName();
+    reader.expectKeyword('ON');
+    const table = reader.readQualifiedName();
+    const policy = this.schema.policies[`${table}:${name}`];
+    if (!policy) return true;
+
+    while (!reader.atEnd()) {
+      if (reader.acceptKeyword('RENAME', 'TO')) {
+        delete this.schema.policies[`${table}:${name}`];
+        policy.name = reader.readName();
+        this.schema.policies[`${table}:${policy.name}`] = policy;
+      } else if (reader.acceptKeyword('TO')) {
+        policy.roles = nameList(reader.readUntil(r => r.isKeyword('USING') || r.isKeyword('WITH'))).sort();
+      } else if (reader.acceptKeyword('USING')) {
+        policy.using = this.expression(reader.text(reader.readParenthesized()));
+      } else if (reader.acceptKeyword('WITH', 'CHECK')) {
+        policy.check = this.expression(reader.text(reader.readParenthesized()));
+      } else {
+        throw new Error(`Unexpected "${reader.peek().value}" in policy ${name}`);
+      }
+    }
+    return true;
+  }
+
+  private dropPolicy(reader: StatementReader): boolean {
+    reader.acceptKeyword('IF', 'EXISTS');
+    const name = reader.readName();
+    reader.expectKeyword('ON');
+    delete this.schema.policies[`${reader.readQualifiedName()}:${name}`];
+    return true;
+  }
+
+  // ---------- Catalog ----------
+
+  loadCatalog(catalog: SchemaCatalog): void {
+    for (const type of catalog.enums) {
+      this.schema.enums[tableKey(type.schema, type.name)] = { schema: type.schema, name: type.name, values: [...type.values] };
+    }
+    for (const table of catalog.tables) {
+      this.schema.tables[tableKey(table.schema, table.name)] = { schema: table.schema, name: table.name, columns: [], constraints: [], rls: table.rls };
+    }
+    for (const column of catalog.columns) {
+      const table = this.schema.tables[tableKey(column.schema, column.table)];
+      if (!table) continue;
+      table.columns.push(normalizeColumn({
+        name: column.name,
+        type: column.type,
+        nullable: column.nullable,
+        default: column.default ?? undefined,
+        generated: column.generated ? column.generated.replace(/\bAS \((.*)\) STORED$/, (_, expr) => `AS (${this.expression(expr)}) STORED`) : undefined,
+      }));
+    }
+    for (const constraint of catalog.constraints) {
+      const table = this.schema.tables[tableKey(constraint.schema, constraint.table)];
+      if (!table) continue;
+      try {
+        this.addTableConstraint(table, StatementReader.of(`CONSTRAINT ${quotePgIdentifier(constraint.name)} ${constraint.definition}`));
+      } catch (error) {
+        this.warnings.push(`${constraint.schema}.${constraint.table}: constraint ${constraint.name} not tracked (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+    [...catalog.indexes, ...catalog.functions, ...catalog.triggers].forEach(definition => this.apply(definition, 'catalog'));
+    for (const policy of catalog.policies) {
+      const item: SchemaPolicy = {
+        name: policy.name,
+        table: tableKey(policy.schema, policy.table),
+        permissive: policy.permissive,
+        command: policy.command.toUpperCase(),
+        roles: [...policy.roles].sort(),
+      };
+      if (policy.using) item.using = this.expression(policy.using);
+      if (policy.check) item.check = this.expression(policy.check);
+      this.schema.policies[`${item.table}:${item.name}`] = item;
+    }
+  }
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  for (const key of Object.keys(value) as Array<keyof T>) {
+    if (value[key] === undefined) delete value[key];
+  }
+  return value;
+}
+
+const TYPE_CONTINUATIONS = new Set(['PRECISION', 'VARYING', 'WITH', 'WITHOUT', 'TIME', 'ZONE']);
+
+/**
+ * [mode] [name] type [DEFAULT expr | = expr]
+ */
+function parseFunctionArgument(reader: StatementReader): { mode: string; type: string; text: string } {
+  let mode = '';
+  if (['IN', 'OUT', 'INOUT', 'VARIADIC'].some(word => reader.isKeyword(word)) && reader.peek(1).type !== 'eof') {
+    mode = reader.next().value.toUpperCase();
+  }
+
+  let name = '';
+  const second = reader.peek(1);
+  const hasName = (second.type === 'ident' && !TYPE_CONTINUATIONS.has(second.value.toUpperCase()) && second.value.toUpperCase() !== 'DEFAULT') || second.type === 'quoted';
+  if (hasName) name = reader.readName();
+
+  const type = normalizeType(reader.text(reader.readUntil(r => r.isKeyword('DEFAULT') || (r.peek().type === 'op' && r.peek().value === '='))));
+  let text = `${mode === 'IN' ? '' : mode ? `${mode} ` : ''}${name ? `${quotePgIdentifier(name)} ` : ''}${type}`;
+  if (reader.acceptKeyword('DEFAULT') || (reader.peek().type === 'op' && reader.next())) {
+    text += ` DEFAULT ${normalizeDefault(reader.text(reader.readUntil(() => false)), type)}`;
+  }
+  return { mode: mode === 'IN' ? '' : mode, type, text };
+}
+
+/**
+ * Replays migration files (sorted by path, like the Supabase CLI) into a schema model
+ */
+export function buildSchemaFromMigrations(files: Record<string, string>): SchemaBuildResult {
+  const builder = new SchemaBuilder();
+  const paths = Object.keys(files).filter(path => path.endsWith('.sql')).sort();
+
+  for (const path of paths) {
+    let statements: string[];
+    try {
+      statements = splitStatements(files[path]);
+    } catch (error) {
+      builder.warnings.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    statements.forEach(statement => builder.apply(statement, path.split('/').pop() ?? path));
+  }
+
+  return { schema: builder.schema, warnings: builder.warnings };
+}
+
+/**
+ * Builds a schema model from the row returned by SCHEMA_CATALOG_QUERY
+ */
+export function buildSchemaFromCatalog(catalog: SchemaCatalog): SchemaBuildResult {
+  const builder = new SchemaBuilder();
+  builder.loadCatalog(catalog);
+  return { schema: builder.schema, warnings: builder.warnings };
+}
+
+/**
+ * Introspects a live database in one round-trip. Definitions are read back
+ * through pg_get_*def() and parsed like migration SQL.
+ * $1 (text[]): schemas whose tables, enums, functions and indexes are diffed
+ * $2 (text[]): platform schemas (auth, storage) whose tables are not ours but
+ * carry our policies and our triggers (those calling a function from $1)
+ */
+export const SCHEMA_CATALOG_QUERY = `
+SELECT json_build_object(
+  'enums', COALESCE((
+    SELECT json_agg(json_build_object('schema', n.nspname, 'name', t.typname,
+      'values', (SELECT json_agg(e.enumlabel ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = t.oid))
+      ORDER BY n.nspname, t.typname)
+    FROM pg_type t JOIN pg_namespace n ON n.oid = t.typnamespace
+    WHERE t.typtype = 'e' AND n.nspname = ANY($1::text[])
+  ), '[]'::json),
+  'tables', COALESCE((
+    SELECT json_agg(json_build_object('schema', n.nspname, 'name', c.relname, 'rls', c.relrowsecurity) ORDER BY n.nspname, c.relname)
+    FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p') AND NOT c.relispartition AND n.nspname = ANY($1::text[]) AND c.relname <> '${SCHEMA_MIGRATIONS_TABLE}'
+  ), '[]'::json),
+  'columns', COALESCE((
+    SELECT json_agg(json_build_object('schema', n.nspname, 'table', c.relname, 'name', a.attname,
+      'type', format_type(a.atttypid, a.atttypmod), 'nullable', NOT a.attnotnull,
+      'default', CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END,
+      'generated', CASE
+        WHEN a.attidentity = 'a' THEN 'GENERATED ALWAYS AS IDENTITY'
+        WHEN a.attidentity = 'd' THEN 'GENERATED BY DEFAULT AS IDENTITY'
+        WHEN a.attgenerated = 's' THEN 'GENERATED ALWAYS AS (' || pg_get_expr(d.adbin, d.adrelid) || ') STORED'
+      END)
+      ORDER BY n.nspname, c.relname, a.attnum)
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+    WHERE c.relkind IN ('r', 'p') AND a.attnum > 0 AND NOT a.attisdropped AND n.nspname = ANY($1::text[])
+  ), '[]'::json),
+  'constraints', COALESCE((
+    SELECT json_agg(json_build_object('schema', n.nspname, 'table', c.relname, 'name', co.conname, 'definition', pg_get_constraintdef(co.oid))
+      ORDER BY n.nspname, c.relname, co.conname)
+    FROM pg_constraint co
+    JOIN pg_class c ON c.oid = co.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE co.contype IN ('p', 'u', 'f', 'c', 'x') AND co.conislocal AND n.nspname = ANY($1::text[])
+  ), '[]'::json),
+  'indexes', COALESCE((
+    SELECT json_agg(pg_get_indexdef(i.indexrelid) ORDER BY n.nspname, ic.relname)
+    FROM pg_index i
+    JOIN pg_class ic ON ic.oid = i.indexrelid
+    JOIN pg_class c ON c.oid = i.indrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p') AND n.nspname = ANY($1::text[])
+      AND NOT EXISTS (SELECT 1 FROM pg_constraint co WHERE co.conindid = i.indexrelid AND co.contype IN ('p', 'u', 'x'))
+  ), '[]'::json),
+  'functions', COALESCE((
+    SELECT json_agg(pg_get_functiondef(p.oid) ORDER BY n.nspname, p.proname, p.oid)
+    FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE p.prokind = 'f' AND n.nspname = ANY($1::text[])
+      AND NOT EXISTS (SELECT 1 FROM pg_depend dep WHERE dep.classid = 'pg_proc'::regclass AND dep.objid = p.oid AND dep.deptype = 'e')
+  ), '[]'::json),
+  'triggers', COALESCE((
+    SELECT json_agg(pg_get_triggerdef(t.oid) ORDER BY n.nspname, c.relname, t.tgname)
+    FROM pg_trigger t
+    JOIN pg_class c ON c.oid = t.tgrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_proc p ON p.oid = t.tgfoid
+    JOIN pg_namespace pn ON pn.oid = p.pronamespace
+    WHERE NOT t.tgisinternal
+      AND (n.nspname = ANY($1::text[]) OR (n.nspname = ANY($2::text[]) AND pn.nspname = ANY($1::text[])))
+  ), '[]'::json),
+  'policies', COALESCE((
+    SELECT json_agg(json_build_object('schema', p.schemaname, 'table', p.tablename, 'name', p.policyname,
+      'permissive', p.permissive = 'PERMISSIVE', 'command', p.cmd, 'roles', p.roles, 'using', p.qual, 'check', p.with_check)
+      ORDER BY p.schemaname, p.tablename, p.policyname)
+    FROM pg_policies p
+    WHERE p.schemaname = ANY($1::text[]) OR p.schemaname = ANY($2::text[])
+  ), '[]'::json)
+) AS catalog`;
+
+// ============= DIFF =============
+
+// Up migrations run in this order: drops first (dependents before dependencies), then creations
+const PHASES = [
+  'dropPolicy', 'dropTrigger', 'dropIndex', 'dropForeignKey', 'dropConstraint', 'dropTable', 'dropColumn', 'dropFunction', 'dropEnum',
+  'enum', 'table', 'column', 'constraint', 'foreignKey', 'index', 'function', 'trigger', 'rls', 'policy',
+] as const;
+
+type Phase = typeof PHASES[number];
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function renderColumn(column: SchemaColumn): string {
+  return [
+    quotePgIdentifier(column.name),
+    column.type,
+    column.generated,
+    column.default !== undefined ? `DEFAULT ${column.default}` : undefined,
+    column.nullable ? undefined : 'NOT NULL',
+  ].filter(Boolean).join(' ');
+}
+
+function addConstraintStatement(table: string, constraint: SchemaConstraint): string {
+  return `DO $$ BEGIN
+  ALTER TABLE ${qualified(table)} ADD CONSTRAINT ${quotePgIdentifier(constraint.name)} ${constraint.definition};
+EXCEPTION WHEN duplicate_object OR duplicate_table THEN NULL;
+END $$;`;
+}
+
+function renderIndex(index: SchemaIndex): string {
+  return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${quotePgIdentifier(index.name)} ON ${qualified(index.table)} USING ${index.method} (${index.columns})${index.include ? ` INCLUDE (${index.include})` : ''}${index.nullsNotDistinct ? ' NULLS NOT DISTINCT' : ''}${index.where ? ` WHERE ${index.where}` : ''};`;
+}
+
+function functionSignature(fn: SchemaFunction): string {
+  return `${quotePgIdentifier(fn.schema)}.${quotePgIdentifier(fn.name)}(${fn.identity})`;
+}
+
+function renderFunction(fn: SchemaFunction): string {
+  let tag = '$function$';
+  for (let i = 1; fn.body.includes(tag); i++) tag = `$function_${i}$`;
+  return [
+    `CREATE OR REPLACE FUNCTION ${quotePgIdentifier(fn.schema)}.${quotePgIdentifier(fn.name)}(${fn.args})`,
+    `RETURNS ${fn.returns}`,
+    `LANGUAGE ${fn.language}`,
+    ...fn.attributes,
+    `AS ${tag}${fn.body}${tag};`,
+  ].join('\n');
+}
+
+function renderTrigger(trigger: SchemaTrigger): string {
+  return [
+    `DROP TRIGGER IF EXISTS ${quotePgIdentifier(trigger.name)} ON ${qualified(trigger.table)};`,
+    `CREATE TRIGGER ${quotePgIdentifier(trigger.name)} ${trigger.timing} ${trigger.events} ON ${qualified(trigger.table)} FOR EACH ${trigger.level}${trigger.when ? ` WHEN (${trigger.when})` : ''} EXECUTE FUNCTION ${trigger.execute};`,
+  ].join('\n');
+}
+
+function renderPolicy(policy: SchemaPolicy): string {
+  return [
+    `DROP POLICY IF EXISTS ${quotePgIdentifier(policy.name)} ON ${qualified(policy.table)};`,
+    `CREATE POLICY ${quotePgIdentifier(policy.name)} ON ${qualified(policy.table)} AS ${policy.permissive ? 'PERMISSIVE' : 'RESTRICTIVE'} FOR ${policy.command} TO ${policy.roles.map(quotePgIdentifier).join(', ')}${policy.using ? ` USING (${policy.using})` : ''}${policy.check ? ` WITH CHECK (${policy.check})` : ''};`,
+  ].join('\n');
+}
+
+/**
+ * Lists the changes that turn `from` into `to`, in execution order.
+ * Every statement is idempotent (IF [NOT] EXISTS, guarded DO blocks, DROP + CREATE),
+ * so a migration can be re-run after a partial failure.
+ */
+export function diffSchemas(from: SchemaModel, to: SchemaModel): SchemaDiff {
+  const phases = Object.fromEntries(PHASES.map(phase => [phase, [] as SchemaChange[]])) as Record<Phase, SchemaChange[]>;
+  const warnings: string[] = [];
+  const add = (phase: Phase, change: SchemaChange) => phases[phase].push(change);
+  const keys = (a: Record<string, unknown>, b: Record<string, unknown>) => [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+  const isTracked = (key: string) => key.slice(key.indexOf('.') + 1) !== SCHEMA_MIGRATIONS_TABLE;
+
+  // Objects of a dropped table go away with DROP TABLE ... CASCADE
+  const droppedTables = new Set(Object.keys(from.tables).filter(key => !to.tables[key]));
+
+  // ---------- Enums ----------
+  for (const key of keys(from.enums, to.enums)) {
+    const before = from.enums[key];
+    const after = to.enums[key];
+    if (!after) {
+      add('dropEnum', { action: 'drop', object: 'enum', name: key, statements: [`DROP TYPE IF EXISTS ${qualified(key)};`] });
+    } else if (!before) {
+      add('enum', {
+        action: 'create',
+        object: 'enum',
+        name: key,
+        statements: [`DO $$ BEGIN
+  CREATE TYPE ${qualified(key)} AS ENUM (${after.values.map(quotePgLiteral).join(', ')});
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;`],
+      });
+    } else if (!same(before.values, after.values)) {
+      const removed = before.values.filter(v => !after.values.includes(v));
+      if (removed.length > 0) warnings.push(`enum ${key}: values ${removed.join(', ')} cannot be removed in place (recreate the type manually)`);
+      const statements = after.values
+        .map((value, index) => ({ value, index }))
+        .filter(({ value }) => !before.values.includes(value))
+        .map(({ value, index }) => {
+          const position = index > 0 ? ` AFTER ${quotePgLiteral(after.values[index - 1])}` : after.values.length > 1 ? ` BEFORE ${quotePgLiteral(after.values[1])}` : '';
+          return `ALTER TYPE ${qualified(key)} ADD VALUE IF NOT EXISTS ${quotePgLiteral(value)}${position};`;
+        });
+      if (statements.length > 0) add('enum', { action: 'alter', object: 'enum', name: key, statements });
+    }
+  }
+
+  // ---------- Tables, columns, constraints ----------
+  const isForeignKey = (constraint: SchemaConstraint) => constraint.definition.startsWith('FOREIGN KEY');
+
+  for (const key of keys(from.tables, to.tables).filter(isTracked)) {
+    const before = from.tables[key];
+    const after = to.tables[key];
+    const table = qualified(key);
+
+    if (!after) {
+      warnings.push(`table ${key} is dropped with its data`);
+      add('dropTable', { action: 'drop', object: 'table', name: key, statements: [`DROP TABLE IF EXISTS ${table} CASCADE;`] });
+      continue;
+    }
+
+    if (!before) {
+      const inline = after.constraints.filter(c => !isForeignKey(c));
+      const elements = [
+        ...after.columns.map(renderColumn),
+        ...inline.map(c => `CONSTRAINT ${quotePgIdentifier(c.name)} ${c.definition}`),
+      ];
+      add('table', {
+        action: 'create',
+        object: 'table',
+        name: key,
+        statements: [`CREATE TABLE IF NOT EXISTS ${table} (\n  ${elements.join(',\n  ')}\n);`],
+      });
+      after.constraints.filter(isForeignKey).forEach(c => add('foreignKey', { action: 'create', object: 'constraint', name: `${key}.${c.name}`, statements: [addConstraintStatement(key, c)] }));
+      if (after.rls) add('rls', { action: 'alter', object: 'table', name: key, statements: [`ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;`] });
+      continue;
+    }
+
+    for (const name of [...new Set([...before.columns, ...after.columns].map(c => c.name))]) {
+      const old = before.columns.find(c => c.name === name);
+      const next = after.columns.find(c => c.name === name);
+      const column = `${key}.${name}`;
+      const alter = `ALTER TABLE ${table} ALTER COLUMN ${quotePgIdentifier(name)}`;
+
+      if (!next) {
+        warnings.push(`column ${column} is dropped with its data`);
+        add('dropColumn', { action: 'drop', object: 'column', name: column, statements: [`ALTER TABLE ${table} DROP COLUMN IF EXISTS ${quotePgIdentifier(name)};`] });
+      } else if (!old) {
+        add('column', { action: 'create', object: 'column', name: column, statements: [`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${renderColumn(next)};`] });
+      } else if (!same(old, next)) {
+        const statements: string[] = [];
+        const typeChanged = old.type !== next.type;
+        if (old.generated !== next.generated) {
+          warnings.push(`column ${column}: generated/identity change is not migrated automatically`);
+        }
+        if (typeChanged || old.default !== next.default) {
+          if (old.default !== undefined) statements.push(`${alter} DROP DEFAULT;`);
+        }
+        if (typeChanged) statements.push(`${alter} TYPE ${next.type} USING ${quotePgIdentifier(name)}::${next.type};`);
+        if ((typeChanged || old.default !== next.default) && next.default !== undefined) statements.push(`${alter} SET DEFAULT ${next.default};`);
+        if (old.nullable !== next.nullable) statements.push(`${alter} ${next.nullable ? 'DROP' : 'SET'} NOT NULL;`);
+        if (statements.length > 0) add('column', { action: 'alter', object: 'column', name: column, statements });
+      }
+    }
+
+    for (const name of [...new Set([...before.constraints, ...after.constraints].map(c => c.name))].sort()) {
+      const old = before.constraints.find(c => c.name === name);
+      const next = after.constraints.find(c => c.name === name);
+      if (old && next && old.definition === next.definition) continue;
+      if (old) {
+        add(isForeignKey(old) ? 'dropForeignKey' : 'dropConstraint', {
+          action: next ? 'alter' : 'drop',
+          object: 'constraint',
+          name: `${key}.${name}`,
+          statements: [`ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${quotePgIdentifier(name)};`],
+        });
+      }
+      if (next) {
+        add(isForeignKey(next) ? 'foreignKey' : 'constraint', {
+          action: old ? 'alter' : 'create',
+          object: 'constraint',
+          name: `${key}.${name}`,
+          statements: [addConstraintStatement(key, next)],
+        });
+      }
+    }
+
+    if (before.rls !== after.rls) {
+      add('rls', { action: 'alter', object: 'table', name: key, statements: [`ALTER TABLE ${table} ${after.rls ? 'ENABLE' : 'DISABLE'} ROW LEVEL SECURITY;`] });
+    }
+  }
+
+  // ---------- Indexes ----------
+  for (const key of keys(from.indexes, to.indexes)) {
+    const before = from.indexes[key];
+    const after = to.indexes[key];
+    if (before && after && same(before, after)) continue;
+    if (before && !droppedTables.has(before.table)) {
+      add('dropIndex', { action: after ? 'alter' : 'drop', object: 'index', name: key, statements: [`DROP INDEX IF EXISTS ${qualified(key)};`] });
+    }
+    if (after) add('index', { action: before ? 'alter' : 'create', object: 'index', name: key, statements: [renderIndex(after)] });
+  }
+
+  // ---------- Functions ----------
+  for (const key of keys(from.functions, to.functions)) {
+    const before = from.functions[key];
+    const after = to.functions[key];
+    if (before && after && same(before, after)) continue;
+    // CREATE OR REPLACE cannot change the return type or the argument names
+    const replaceable = before && after && before.returns === after.returns && before.args === after.args;
+    if (before && !replaceable) {
+      add('dropFunction', { action: after ? 'alter' : 'drop', object: 'function', name: key, statements: [`DROP FUNCTION IF EXISTS ${functionSignature(before)};`] });
+    }
+    if (after) add('function', { action: before ? 'alter' : 'create', object: 'function', name: key, statements: [renderFunction(after)] });
+  }
+
+  // ---------- Triggers and policies ----------
+  for (const key of keys(from.triggers, to.triggers)) {
+    const before = from.triggers[key];
+    const after = to.triggers[key];
+    if (before && after && same(before, after)) continue;
+    if (before && !droppedTables.has(before.table)) {
+      add('dropTrigger', { action: after ? 'alter' : 'drop', object: 'trigger', name: key, statements: [`DROP TRIGGER IF EXISTS ${quotePgIdentifier(before.name)} ON ${qualified(before.table)};`] });
+    }
+    if (after) add('trigger', { action: before ? 'alter' : 'create', object: 'trigger', name: key, statements: [renderTrigger(after)] });
+  }
+
+  for (const key of keys(from.policies, to.policies)) {
+    const before = from.policies[key];
+    const after = to.policies[key];
+    if (before && after && same(before, after)) continue;
+    if (before && !droppedTables.has(before.table)) {
+      add('dropPolicy', { action: after ? 'alter' : 'drop', object: 'policy', name: key, statements: [`DROP POLICY IF EXISTS ${quotePgIdentifier(before.name)} ON ${qualified(before.table)};`] });
+    }
+    if (after) add('policy', { action: before ? 'alter' : 'create', object: 'policy', name: key, statements: [renderPolicy(after)] });
+  }
+
+  return { changes: PHASES.flatMap(phase => phases[phase]), warnings };
+}
+
+// ============= VERSIONED MIGRATIONS =============
+
+/**
+ * Drops that lose data (DROP TABLE ... CASCADE, DROP COLUMN, DROP TYPE)
+ */
+export function isDestructiveChange(change: SchemaChange): boolean {
+  return change.action === 'drop' && (change.object === 'table' || change.object === 'column' || change.object === 'enum');
+}
+
+/**
+ * Removes the destructive changes of a diff, with a warning for each one kept in place
+ */
+function withoutDestructiveChanges(diff: SchemaDiff): { diff: SchemaDiff; skipped: SchemaChange[] } {
+  const skipped = diff.changes.filter(isDestructiveChange);
+  if (skipped.length === 0) return { diff, skipped };
+
+  const dropWarnings = new Set(skipped.map(change => `${change.object} ${change.name} is dropped with its data`));
+  return {
+    diff: {
+      changes: diff.changes.filter(change => !isDestructiveChange(change)),
+      warnings: [
+        ...diff.warnings.filter(warning => !dropWarnings.has(warning)),
+        ...skipped.map(change => `${change.object} ${change.name} is kept (destructive changes not allowed)`),
+      ],
+    },
+    skipped,
+  };
+}
+
+/**
+ * Supabase CLI style version: UTC timestamp YYYYMMDDHHMMSS
+ */
+export function migrationVersion(date: Date = new Date()): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+function renderMigration(diff: SchemaDiff, version: string, name: string, direction: 'up' | 'down'): string {
+  const bookkeeping = direction === 'up'
+    ? `INSERT INTO public.${SCHEMA_MIGRATIONS_TABLE} (version, name) VALUES (${quotePgLiteral(version)}, ${quotePgLiteral(name)}) ON CONFLICT (version) DO NOTHING;`
+    : `DELETE FROM public.${SCHEMA_MIGRATIONS_TABLE} WHERE version = ${quotePgLiteral(version)};`;
+
+  return [
+    '-- ================================================',
+    `-- ${version}_${name} (${direction})`,
+    `-- ${diff.changes.length} change(s), idempotent: safe to re-run`,
+    '-- ================================================',
+    ...diff.warnings.map(warning => `-- WARNING: ${warning}`),
+    '',
+    `CREATE TABLE IF NOT EXISTS public.${SCHEMA_MIGRATIONS_TABLE} (
+  version TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);`,
+    '',
+    ...diff.changes.map(change => `-- ${change.action} ${change.object} ${change.name}\n${change.statements.join('\n')}\n`),
+    bookkeeping,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generates the up (from -> to) and down (to -> from) migrations as files:
+ * the up file goes in supabase/migrations, the down file next to it in rollback/
+ * (outside the folder the Supabase CLI replays)
+ */
+export function generateVersionedMigration(from: SchemaModel, to: SchemaModel, options: VersionedMigrationOptions = {}): VersionedMigration {
+  const version = options.version ?? migrationVersion();
+  const name = (options.name ?? 'schema_sync').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'schema_sync';
+  const { diff: up, skipped } = options.allowDestructive === false
+    ? withoutDestructiveChanges(diffSchemas(from, to))
+    : { diff: diffSchemas(from, to), skipped: [] };
+  const down = diffSchemas(to, from);
+  const upSQL = renderMigration(up, version, name, 'up');
+  const downSQL = renderMigration(down, version, name, 'down');
+
+  return {
+    version,
+    name,
+    changes: up.changes,
+    skipped,
+    warnings: up.warnings,
+    up: upSQL,
+    down: downSQL,
+    files: {
+      [`supabase/migrations/${version}_${name}.sql`]: upSQL,
+      [`supabase/migrations/rollback/${version}_${name}.down.sql`]: downSQL,
+    },
+  };
+}
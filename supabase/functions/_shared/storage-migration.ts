@@ -0,0 +1,543 @@
+// AUTO-GÉNÉRÉ depuis src/lib/storageMigration.ts par scripts/sync-sovereignty-rules.js - NE PAS MODIFIER.
+// Modifier le fichier source puis lancer `npm run rules:sync`.
+/**
+ * Storage Migration
+ * Copies Supabase Storage buckets to an S3-compatible endpoint (MinIO, AWS S3,
+ * R2...), records every object with its SHA-256 in a signed manifest, verifies
+ * the copy against that manifest and rewrites Supabase public URLs in the
+ * liberated code
+ *
+ * Runtime-agnostic (fetch + Web Crypto, no SDK). Shared with the edge
+ * functions (migrate-storage) through `npm run rules:sync`: keep it free of
+ * imports.
+ */
+
+// ============= TYPES =============
+
+export interface SupabaseStorageSource {
+  url: string;
+  serviceRoleKey: string;
+}
+
+export interface S3Target {
+  endpoint: string;
+  region?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Prepended to every bucket name (S3 bucket names are global) */
+  bucketPrefix?: string;
+  /** Public base URL when objects are served through a CDN / reverse proxy */
+  publicUrl?: string;
+}
+
+export interface StorageBucket {
+  name: string;
+  public: boolean;
+}
+
+export interface StorageObject {
+  bucket: string;
+  path: string;
+  size: number;
+  contentType: string;
+  cacheControl?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StorageManifestEntry {
+  bucket: string;
+  path: string;
+  targetBucket: string;
+  size: number;
+  contentType: string;
+  sha256: string;
+}
+
+export interface StorageManifest {
+  version: 1;
+  createdAt: string;
+  source: string;
+  target: string;
+  buckets: Array<StorageBucket & { targetBucket: string; objects: number }>;
+  objects: StorageManifestEntry[];
+  totals: { objects: number; bytes: number };
+  signature?: { algorithm: 'HMAC-SHA256'; value: string };
+}
+
+export interface StorageMigrationOptions {
+  /** Restrict the copy to these buckets */
+  buckets?: string[];
+  /** Manifest of an interrupted run: objects already listed are not copied again */
+  resume?: StorageManifest;
+  /** Epoch ms after which no new object starts */
+  deadline?: number;
+  /** Objects are buffered to be hashed: larger ones are reported, not copied */
+  maxObjectBytes?: number;
+  onProgress?: (entry: StorageManifestEntry) => void;
+}
+
+export interface StorageMigrationResult {
+  done: boolean;
+  manifest: StorageManifest;
+  failures: Array<{ bucket: string; path: string; error: string }>;
+}
+
+export interface StorageVerification {
+  ok: boolean;
+  signatureValid: boolean;
+  checked: number;
+  missing: string[];
+  mismatched: string[];
+}
+
+export interface StorageUrlRewrite {
+  file: string;
+  count: number;
+}
+
+export const DEFAULT_MAX_OBJECT_BYTES = 50 * 1024 * 1024;
+
+const LIST_PAGE_SIZE = 1000;
+const EMPTY_SHA256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+// ============= CRYPTO =============
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(data: ArrayBuffer | Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+// ============= S3 (SIGNATURE V4) =============
+
+// RFC 3986 encoding required by SigV4 (encodeURIComponent leaves !'()* alone)
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function amzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Signs a request with AWS Signature V4. `url` must already be encoded the way
+ * it is sent; every header passed is signed. Returns the headers to send.
+ */
+export async function signS3Request(request: {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  payloadHash: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region?: string;
+  date?: Date;
+}): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  const region = request.region ?? 'us-east-1';
+  const timestamp = amzDate(request.date ?? new Date());
+  const day = timestamp.slice(0, 8);
+  const scope = `${day}/${region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: url.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': timestamp,
+  };
+  const canonicalHeaders = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = canonicalHeaders.map(([name]) => name).join(';');
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    url.pathname,
+    canonicalQuery,
+    ...canonicalHeaders.map(([name, value]) => `${name}:${value}`),
+    '',
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', timestamp, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  let key: ArrayBuffer | Uint8Array = encoder.encode(`AWS4${request.secretAccessKey}`);
+  for (const part of [day, region, 's3', 'aws4_request']) {
+    key = await hmac(key, part);
+  }
+  const signature = toHex(await hmac(key, stringToSign));
+
+  const { host: _host, ...sent } = headers;
+  return {
+    ...sent,
+    authorization: `AWS4-HMAC-SHA256 Credential=${request.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Path-style object URL (MinIO and most S3-compatible servers)
+ */
+export function s3ObjectUrl(endpoint: string, bucket: string, key = ''): string {
+  const path = key ? `/${key.split('/').map(encodeRfc3986).join('/')}` : '';
+  return `${trimSlash(endpoint)}/${encodeRfc3986(bucket)}${path}`;
+}
+
+export function targetBucketName(target: Pick<S3Target, 'bucketPrefix'>, bucket: string): string {
+  return `${target.bucketPrefix ?? ''}${bucket}`.toLowerCase().replace(/[^a-z0-9.-]/g, '-');
+}
+
+/**
+ * Public URL of a migrated object
+ */
+export function publicObjectUrl(target: Pick<S3Target, 'endpoint' | 'publicUrl' | 'bucketPrefix'>, bucket: string, key: string): string {
+  return s3ObjectUrl(target.publicUrl ?? target.endpoint, targetBucketName(target, bucket), key);
+}
+
+async function s3Fetch(
+  target: S3Target,
+  method: string,
+  url: string,
+  options: { body?: Uint8Array; headers?: Record<string, string>; payloadHash?: string } = {}
+): Promise<Response> {
+  const headers = await signS3Request({
+    method,
+    url,
+    headers: options.headers,
+    payloadHash: options.payloadHash ?? (options.body ? await sha256Hex(options.body) : EMPTY_SHA256),
+    accessKeyId: target.accessKeyId,
+    secretAccessKey: target.secretAccessKey,
+    region: target.region,
+  });
+  return fetch(url, { method, headers, body: options.body });
+}
+
+async function s3Error(response: Response, action: string): Promise<Error> {
+  const body = await response.text().catch(() => '');
+  const code = body.match(/<Code>([^<]+)<\/Code>/)?.[1];
+  return new Error(`${action}: HTTP ${response.status}${code ? ` ${code}` : ''}`);
+}
+
+/**
+ * Creates the bucket if needed and, for public Supabase buckets, grants
+ * anonymous read so public URLs keep working
+ */
+export async function ensureS3Bucket(target: S3Target, bucket: string, isPublic: boolean): Promise<void> {
+  const url = s3ObjectUrl(target.endpoint, bucket);
+  const created = await s3Fetch(target, 'PUT', url);
+  if (!created.ok) {
+    const error = await s3Error(created, `create bucket ${bucket}`);
+    if (!/BucketAlreadyOwnedByYou|BucketAlreadyExists/.test(error.message)) throw error;
+  } else {
+    await created.body?.cancel();
+  }
+
+  if (!isPublic) return;
+  const policy = JSON.stringify({
+    Version: '2012-10-17',
+    Statement: [{ Effect: 'Allow', Principal: { AWS: ['*'] }, Action: ['s3:GetObject'], Resource: [`arn:aws:s3:::${bucket}/*`] }],
+  });
+  const body = encoder.encode(policy);
+  const response = await s3Fetch(target, 'PUT', `${url}?policy=`, { body, headers: { 'content-type': 'application/json' } });
+  if (!response.ok) throw await s3Error(response, `set public policy on ${bucket}`);
+  await response.body?.cancel();
+}
+
+// ============= SUPABASE STORAGE =============
+
+function storageHeaders(source: SupabaseStorageSource): Record<string, string> {
+  return { Authorization: `Bearer ${source.serviceRoleKey}`, apikey: source.serviceRoleKey };
+}
+
+export async function listSupabaseBuckets(source: SupabaseStorageSource): Promise<StorageBucket[]> {
+  const response = await fetch(`${trimSlash(source.url)}/storage/v1/bucket`, { headers: storageHeaders(source) });
+  if (!response.ok) throw new Error(`list buckets: HTTP ${response.status}`);
+  const buckets = await response.json() as Array<{ name: string; public: boolean }>;
+  return buckets.map(bucket => ({ name: bucket.name, public: bucket.public }));
+}
+
+/**
+ * Lists every object of a bucket, walking folders (entries without id)
+ */
+export async function listSupabaseObjects(source: SupabaseStorageSource, bucket: string): Promise<StorageObject[]> {
+  const objects: StorageObject[] = [];
+  const folders = [''];
+
+  while (folders.length > 0) {
+    const prefix = folders.shift()!;
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const response = await fetch(`${trimSlash(source.url)}/storage/v1/object/list/${encodeURIComponent(bucket)}`, {
+        method: 'POST',
+        headers: { ...storageHeaders(source), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prefix, limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } }),
+      });
+      if (!response.ok) throw new Error(`list ${bucket}/${prefix}: HTTP ${response.status}`);
+
+      const entries = await response.json() as Array<{
+        name: string;
+        id: string | null;
+        metadata?: { size?: number; mimetype?: string; cacheControl?: string } | null;
+        user_metadata?: Record<string, unknown> | null;
+      }>;
+      for (const entry of entries) {
+        const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.id === null) {
+          folders.push(path);
+          continue;
+        }
+        // Supabase keeps a placeholder in empty folders
+        if (entry.name === '.emptyFolderPlaceholder') continue;
+        const metadata = Object.fromEntries(
+          Object.entries(entry.user_metadata ?? {}).filter((pair): pair is [string, string] => typeof pair[1] === 'string')
+        );
+        objects.push({
+          bucket,
+          path,
+          size: entry.metadata?.size ?? 0,
+          contentType: entry.metadata?.mimetype ?? 'application/octet-stream',
+          cacheControl: entry.metadata?.cacheControl,
+          metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        });
+      }
+      if (entries.length < LIST_PAGE_SIZE) break;
+    }
+  }
+
+  return objects;
+}
+
+async function downloadSupabaseObject(source: SupabaseStorageSource, object: StorageObject): Promise<Uint8Array> {
+  const path = object.path.split('/').map(encodeURIComponent).join('/');
+  const response = await fetch(`${trimSlash(source.url)}/storage/v1/object/${encodeURIComponent(object.bucket)}/${path}`, {
+    headers: storageHeaders(source),
+  });
+  if (!response.ok) throw new Error(`download: HTTP ${response.status}`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// ============= MIGRATION =============
+
+function objectKey(bucket: string, path: string): string {
+  return `${bucket}/${path}`;
+}
+
+function buildManifest(
+  source: SupabaseStorageSource,
+  target: S3Target,
+  buckets: StorageBucket[],
+  objects: StorageManifestEntry[],
+  createdAt = new Date().toISOString()
+): StorageManifest {
+  return {
+    version: 1,
+    createdAt,
+    source: trimSlash(source.url),
+    target: trimSlash(target.endpoint),
+    buckets: buckets.map(bucket => ({
+      ...bucket,
+      targetBucket: targetBucketName(target, bucket.name),
+      objects: objects.filter(entry => entry.bucket === bucket.name).length,
+    })),
+    objects,
+    totals: { objects: objects.length, bytes: objects.reduce((sum, entry) => sum + entry.size, 0) },
+  };
+}
+
+/**
+ * Copies buckets and objects (content type, cache control, user metadata and
+ * SHA-256 as x-amz-meta-*). Returns with `done: false` at the deadline; pass
+ * the returned manifest as `resume` to continue.
+ */
+export async function migrateStorage(
+  source: SupabaseStorageSource,
+  target: S3Target,
+  options: StorageMigrationOptions = {}
+): Promise<StorageMigrationResult> {
+  const buckets = (await listSupabaseBuckets(source))
+    .filter(bucket => !options.buckets?.length || options.buckets.includes(bucket.name));
+  const entries = [...(options.resume?.objects ?? [])];
+  const copied = new Set(entries.map(entry => objectKey(entry.bucket, entry.path)));
+  const failures: StorageMigrationResult['failures'] = [];
+  const maxBytes = options.maxObjectBytes ?? DEFAULT_MAX_OBJECT_BYTES;
+  const result = (done: boolean): StorageMigrationResult => ({
+    done,
+    manifest: buildManifest(source, target, buckets, entries, options.resume?.createdAt),
+    failures,
+  });
+
+  for (const bucket of buckets) {
+    const targetBucket = targetBucketName(target, bucket.name);
+    await ensureS3Bucket(target, targetBucket, bucket.public);
+
+    for (const object of await listSupabaseObjects(source, bucket.name)) {
+      if (copied.has(objectKey(object.bucket, object.path))) continue;
+      if (options.deadline !== undefined && Date.now() >= options.deadline) return result(false);
+      if (object.size > maxBytes) {
+        failures.push({ bucket: object.bucket, path: object.path, error: `${object.size} bytes exceeds maxObjectBytes (${maxBytes})` });
+        continue;
+      }
+
+      try {
+        const body = await downloadSupabaseObject(source, object);
+        const sha256 = await sha256Hex(body);
+        const headers: Record<string, string> = {
+          'content-type': object.contentType,
+          'x-amz-meta-sha256': sha256,
+        };
+        if (object.cacheControl) headers['cache-control'] = /^\d+$/.test(object.cacheControl) ? `max-age=${object.cacheControl}` : object.cacheControl;
+        for (const [name, value] of Object.entries(object.metadata ?? {})) {
+          headers[`x-amz-meta-${name.toLowerCase().replace(/[^a-z0-9-]/g, '-')}`] = encodeURIComponent(value);
+        }
+
+        const response = await s3Fetch(target, 'PUT', s3ObjectUrl(target.endpoint, targetBucket, object.path), {
+          body,
+          headers,
+          payloadHash: sha256,
+        });
+        if (!response.ok) throw await s3Error(response, 'upload');
+        await response.body?.cancel();
+
+        const entry: StorageManifestEntry = {
+          bucket: object.bucket,
+          path: object.path,
+          targetBucket,
+          size: body.byteLength,
+          contentType: object.contentType,
+          sha256,
+        };
+        entries.push(entry);
+        copied.add(objectKey(object.bucket, object.path));
+        options.onProgress?.(entry);
+      } catch (error) {
+        failures.push({ bucket: object.bucket, path: object.path, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return result(true);
+}
+
+// ============= MANIFEST =============
+
+// Stable JSON (sorted keys) so the signature does not depend on key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function signManifest(manifest: StorageManifest, key: string): Promise<StorageManifest> {
+  const { signature: _signature, ...unsigned } = manifest;
+  const value = toHex(await hmac(encoder.encode(key), canonicalJson(unsigned)));
+  return { ...unsigned, signature: { algorithm: 'HMAC-SHA256', value } };
+}
+
+export async function verifyManifestSignature(manifest: StorageManifest, key: string): Promise<boolean> {
+  if (!manifest.signature) return false;
+  const expected = await signManifest(manifest, key);
+  return expected.signature!.value === manifest.signature.value;
+}
+
+/**
+ * Checks the manifest signature, then every object on the target: present,
+ * same size and same SHA-256 (from x-amz-meta-sha256, or re-downloaded and
+ * hashed when `deep` is set)
+ */
+export async function verifyStorageMigration(
+  target: S3Target,
+  manifest: StorageManifest,
+  options: { signingKey: string; deep?: boolean }
+): Promise<StorageVerification> {
+  const missing: string[] = [];
+  const mismatched: string[] = [];
+
+  for (const entry of manifest.objects) {
+    const url = s3ObjectUrl(target.endpoint, entry.targetBucket, entry.path);
+    const response = await s3Fetch(target, options.deep ? 'GET' : 'HEAD', url);
+    if (response.status === 404) {
+      missing.push(objectKey(entry.bucket, entry.path));
+      continue;
+    }
+    if (!response.ok) throw await s3Error(response, `verify ${objectKey(entry.bucket, entry.path)}`);
+
+    const sha256 = options.deep
+      ? await sha256Hex(await response.arrayBuffer())
+      : response.headers.get('x-amz-meta-sha256');
+    const size = options.deep ? entry.size : Number(response.headers.get('content-length'));
+    if (sha256 !== entry.sha256 || size !== entry.size) {
+      mismatched.push(objectKey(entry.bucket, entry.path));
+    }
+  }
+
+  const signatureValid = await verifyManifestSignature(manifest, options.signingKey);
+  return {
+    ok: signatureValid && missing.length === 0 && mismatched.length === 0,
+    signatureValid,
+    checked: manifest.objects.length,
+    missing,
+    mismatched,
+  };
+}
+
+// ============= CODE REWRITE =============
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Points Supabase Storage public URLs (literal project URLs and
+ * `${import.meta.env.VITE_SUPABASE_URL}/storage/...` templates) at the new
+ * public base. Image transformation URLs fall back to the original object.
+ */
+export function rewriteStorageUrls(
+  files: Map<string, string>,
+  options: { publicBaseUrl: string; supabaseUrl?: string; bucketPrefix?: string; envVar?: string }
+): { files: Map<string, string>; rewrites: StorageUrlRewrite[] } {
+  const hosts = ['https?://[a-z0-9-]+\\.supabase\\.co'];
+  if (options.supabaseUrl) hosts.push(escapeRegExp(trimSlash(options.supabaseUrl)));
+  const storagePath = '/storage/v1/(?:object|render/image)/public/';
+  const literal = new RegExp(`(?:${hosts.join('|')})${storagePath}([a-z0-9._-]+)/`, 'gi');
+  const template = new RegExp(`\\$\\{\\s*import\\.meta\\.env\\.VITE_SUPABASE_URL\\s*\\}${storagePath}([a-z0-9._-]+)/`, 'gi');
+  const base = trimSlash(options.publicBaseUrl);
+  const bucket = (name: string) => targetBucketName({ bucketPrefix: options.bucketPrefix }, name);
+  const rewritten = new Map<string, string>();
+  const rewrites: StorageUrlRewrite[] = [];
+
+  for (const [file, content] of files) {
+    let count = 0;
+    const next = content
+      .replace(literal, (_match, name: string) => {
+        count++;
+        return `${base}/${bucket(name)}/`;
+      })
+      .replace(template, (_match, name: string) => {
+        count++;
+        return `\${import.meta.env.${options.envVar ?? 'VITE_STORAGE_PUBLIC_URL'}}/${bucket(name)}/`;
+      });
+    rewritten.set(file, next);
+    if (count > 0) rewrites.push({ file, count });
+  }
+
+  return { files: rewritten, rewrites };
+}
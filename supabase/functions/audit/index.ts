@@ -3,17 +3,42 @@
  * ======================================
  * Récupère le rapport d'audit d'un job de libération
  * 
+ * Avec `Accept: text/event-stream` (ou ?stream=1), diffuse la progression
+ * du job en Server-Sent Events ; reprise via Last-Event-ID
+ * 
  * © 2024 Inovaq Canada Inc.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { gradeForScore } from "../_shared/sovereignty-rules.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, last-event-id',
+};
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+
+// UnifiedLiberator phase matching each job status (LiberationProgress.phase)
+const PHASE_BY_STATUS: Record<string, string> = {
+  pending: 'scan',
+  processing: 'scan',
+  scanning: 'scan',
+  auditing: 'scan',
+  cleaning: 'clean',
+  rebuilding: 'rebuild',
+  generating: 'package',
+  completed: 'complete',
+  failed: 'complete',
+  cancelled: 'complete',
 };
 
+// Edge functions have a wall-clock limit: close before it, the client resumes with Last-Event-ID
+const STREAM_MAX_DURATION_MS = 110_000;
+const STREAM_POLL_INTERVAL_MS = 1000;
+const STREAM_KEEPALIVE_MS = 15_000;
+
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -86,6 +111,13 @@ serve(async (req) => {
       );
     }
 
+    const wantsStream = req.headers.get('Accept')?.includes('text/event-stream') || url.searchParams.get('stream') === '1';
+    if (wantsStream) {
+      const lastEventId = Number(req.headers.get('Last-Event-ID') ?? url.searchParams.get('lastEventId')) || 0;
+      console.log(`[AUDIT] Streaming job ${jobId} from event ${lastEventId}`);
+      return streamJobProgress(supabase, jobId, lastEventId);
+    }
+
     // Construire la réponse
     const response = {
       id: job.id,
@@ -99,7 +131,7 @@ serve(async (req) => {
       // Rapport d'audit (si disponible)
       audit: job.audit_report ? {
         score: job.audit_score,
-        grade: job.audit_report.grade || calculateGrade(job.audit_score),
+        grade: job.audit_report.grade || gradeForScore(job.audit_score ?? 0),
         issues: job.audit_report.issues || { critical: 0, major: 0, minor: 0 },
         recommendations: job.audit_report.recommendations || [],
         owaspScore: job.audit_report.owaspScore,
@@ -138,11 +170,79 @@ serve(async (req) => {
   }
 });
 
-function calculateGrade(score: number | null): string {
-  if (!score) return 'F';
-  if (score >= 90) return 'A';
-  if (score >= 80) return 'B';
-  if (score >= 70) return 'C';
-  if (score >= 60) return 'D';
-  return 'F';
+/**
+ * Relays liberation_job_events as SSE frames in the LiberationProgress shape
+ * until a terminal event, the client leaving, or the function time limit
+ */
+function streamJobProgress(supabase: SupabaseClient, jobId: string, afterId: number): Response {
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+  let lastEventId = afterId;
+  let cancelled = false;
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (text: string) => controller.enqueue(encoder.encode(text));
+      send('retry: 2000\n\n');
+      let lastWrite = Date.now();
+
+      try {
+        while (!cancelled && Date.now() - startedAt < STREAM_MAX_DURATION_MS) {
+          const { data: events, error } = await supabase
+            .from('liberation_job_events')
+            .select('*')
+            .eq('job_id', jobId)
+            .gt('id', lastEventId)
+            .order('id', { ascending: true })
+            .limit(500);
+
+          if (error) throw error;
+
+          for (const event of events || []) {
+            const payload = {
+              jobId,
+              type: event.type,
+              status: event.status,
+              phase: PHASE_BY_STATUS[event.status] || 'scan',
+              progress: event.progress,
+              message: event.message || '',
+              ...(event.data || {}),
+            };
+            send(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`);
+            lastEventId = event.id;
+            lastWrite = Date.now();
+          }
+
+          if ((events || []).some((event) => TERMINAL_STATUSES.includes(event.status) && event.type !== 'expired')) break;
+
+          if (!events || events.length === 0) {
+            if (Date.now() - lastWrite >= STREAM_KEEPALIVE_MS) {
+              // Also catches a job that ended without its final event being recorded
+              const { data: job } = await supabase.from('liberation_jobs').select('status').eq('id', jobId).single();
+              if (!job || TERMINAL_STATUSES.includes(job.status)) break;
+              send(': ping\n\n');
+              lastWrite = Date.now();
+            }
+            await new Promise((resolve) => setTimeout(resolve, STREAM_POLL_INTERVAL_MS));
+          }
+        }
+      } catch (error) {
+        console.error(`[AUDIT] Stream error for job ${jobId}:`, error);
+      }
+
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
 }
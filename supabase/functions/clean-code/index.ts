@@ -6,6 +6,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { withRateLimit } from "../_shared/rate-limiter.ts";
 import { needsCleaning, SECURITY_LIMITS } from "../_shared/proprietary-patterns.ts";
+import { createLLMProvider, LLM_PROVIDER_DEFAULTS, LLMProviderId } from "../_shared/llm-providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -211,6 +212,37 @@ async function callOpenAI(apiKey: string, code: string, fileName: string): Promi
   return { cleanedCode, tokensUsed };
 }
 
+// Call a self-hosted model (Ollama or any OpenAI-compatible server: LM Studio, vLLM, LocalAI...)
+// The code never leaves the network, so there is no hosted fallback
+async function callSovereign(baseUrl: string, code: string, fileName: string): Promise<{ cleanedCode: string; tokensUsed: number }> {
+  const providerId = (Deno.env.get('SOVEREIGN_AI_PROVIDER') || 'ollama') as LLMProviderId;
+  if (!(providerId in LLM_PROVIDER_DEFAULTS) || providerId === 'mock') {
+    throw new Error(`Unsupported SOVEREIGN_AI_PROVIDER: ${providerId}`);
+  }
+
+  const provider = createLLMProvider({
+    provider: providerId,
+    baseUrl,
+    model: Deno.env.get('SOVEREIGN_AI_MODEL') || 'qwen2.5-coder',
+    apiKey: Deno.env.get('SOVEREIGN_AI_API_KEY'),
+  });
+
+  console.log(`[CLEAN-CODE] Calling self-hosted ${provider.id} (${provider.config.model})...`);
+
+  const result = await provider.chat([
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: `Fichier: ${fileName || 'code.tsx'}\n\n\`\`\`tsx\n${code}\n\`\`\`` }
+  ], { maxTokens: 8192, temperature: 0.1 });
+
+  if (!result.content) {
+    throw new Error(`Self-hosted model returned no content (finish reason: ${result.finishReason})`);
+  }
+
+  console.log('[CLEAN-CODE] Self-hosted model success, tokens:', result.usage.totalTokens);
+
+  return { cleanedCode: result.content, tokensUsed: result.usage.totalTokens };
+}
+
 // Notify admin of fallback usage
 async function notifyAdminFallback(supabaseAdmin: any, reason: string, details: string) {
   try {
@@ -320,12 +352,15 @@ serve(async (req) => {
       }
     }
 
+    // Self-hosted model configured: takes precedence over BYOK and hosted providers
+    const sovereignUrl = Deno.env.get('SOVEREIGN_AI_BASE_URL');
+
     // Check for user's own API key (BYOK)
     let userApiKey: string | null = null;
     let userApiProvider: string | null = null;
     let isUsingBYOK = false;
 
-    if (userId && authHeader) {
+    if (userId && authHeader && !sovereignUrl) {
       const supabase = createClient(supabaseUrl, supabaseKey, {
         global: { headers: { Authorization: authHeader } }
       });
@@ -354,9 +389,14 @@ serve(async (req) => {
     let usedFallback = false;
     let providerUsed = 'unknown';
 
-    // Priority: User BYOK > DeepSeek > OpenRouter DeepSeek > Anthropic (fallback)
+    // Priority: Self-hosted > User BYOK > DeepSeek > OpenRouter DeepSeek > Anthropic (fallback)
     try {
-      if (isUsingBYOK && userApiKey) {
+      if (sovereignUrl) {
+        const result = await callSovereign(sovereignUrl, code, fileName);
+        cleanedCode = result.cleanedCode;
+        tokensUsed = result.tokensUsed;
+        providerUsed = 'sovereign';
+      } else if (isUsingBYOK && userApiKey) {
         // Use user's own key - support all providers
         if (userApiProvider === 'anthropic') {
           const result = await callAnthropic(userApiKey, code, fileName);
@@ -416,8 +456,8 @@ serve(async (req) => {
         throw new Error('Aucune clé API configurée. Veuillez configurer votre clé API dans les paramètres.');
       }
     } catch (primaryError) {
-      // Fallback to Anthropic if available and not already tried
-      if (anthropicKey && providerUsed !== 'anthropic') {
+      // Fallback to Anthropic if available and not already tried (never for a self-hosted setup)
+      if (anthropicKey && providerUsed !== 'anthropic' && !sovereignUrl) {
         console.log('[CLEAN-CODE] Primary provider failed, falling back to Claude...');
         
         try {
@@ -460,6 +500,11 @@ serve(async (req) => {
       apiCostCents = 0; // No cost to track for Inopay
       internalCostCents = 0;
       console.log(`[CLEAN-CODE] BYOK mode: No internal cost recorded (user's ${providerUsed} key)`);
+    } else if (providerUsed === 'sovereign') {
+      // Self-hosted model: no per-token cost
+      apiCostCents = 0;
+      internalCostCents = 0;
+      console.log('[CLEAN-CODE] Self-hosted model: no API cost');
     } else {
       // Inopay is paying: Calculate actual cost
       // DeepSeek is much cheaper: ~$0.14/1M input, ~$0.28/1M output
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { captureRelease, unpinRelease } from "../_shared/coolify-release.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -972,6 +973,11 @@ serve(async (req) => {
         }
       }
 
+      // A previous rollback pins the app to an older commit: redeploys follow the branch again
+      if (isRedeploy && appData?.uuid) {
+        await unpinRelease(server.coolify_url, coolifyHeaders, appData.uuid);
+      }
+
       // Step 2b: Create NEW application if none exists
       if (!appData) {
         console.log('[deploy-coolify] Creating new Coolify application with DOCKERFILE mode...');
@@ -1449,6 +1455,46 @@ serve(async (req) => {
         .update(updatePayload)
         .eq('id', deployment.id);
 
+      // Record the release (commit, image, env snapshot) so it can be rolled back to later
+      if (isHealthy) {
+        try {
+          const release = await captureRelease(
+            server.coolify_url,
+            coolifyHeaders,
+            appData.uuid,
+            usedDeploymentUuid || triggeredDeploymentUuid
+          );
+
+          const { error: historyError } = await supabase
+            .from('deployment_history')
+            .insert({
+              user_id: user.id,
+              project_name,
+              provider: 'Coolify',
+              host: server.ip_address,
+              deployment_type: 'coolify',
+              status: 'success',
+              deployed_url: deployedUrl,
+              server_ip: server.ip_address,
+              coolify_url: server.coolify_url,
+              hosting_type: 'vps',
+              server_id: server.id,
+              server_deployment_id: deployment.id,
+              coolify_app_uuid: appData.uuid,
+              coolify_deployment_uuid: usedDeploymentUuid || triggeredDeploymentUuid,
+              ...release
+            });
+
+          if (historyError) {
+            console.warn('[deploy-coolify] Could not record release (non-blocking):', historyError.message);
+          } else {
+            console.log(`[deploy-coolify] Release recorded: commit ${release.commit_sha?.slice(0, 7) || 'unknown'}`);
+          }
+        } catch (releaseError) {
+          console.warn('[deploy-coolify] Could not capture release (non-blocking):', releaseError);
+        }
+      }
+
       // Schedule automatic secrets cleanup after successful deployment
       if (isHealthy) {
         const cleanupTask = async () => {
@@ -12,7 +12,7 @@ interface FTPCredentials {
   username: string;
   password: string;
   port?: number;
-  protocol: "ftp" | "sftp";
+  protocol: "ftp" | "sftp" | "rsync";
   remotePath?: string;
 }
 
@@ -258,6 +258,17 @@ serve(async (req) => {
       hasPassword: !!credentials?.password,
     });
 
+    // SSH targets need the ssh/sftp/rsync binaries, only available in the Express backend
+    if (credentials?.protocol === "sftp" || credentials?.protocol === "rsync") {
+      return new Response(
+        JSON.stringify({
+          error: "SFTP et SSH+rsync ne sont pas disponibles ici",
+          details: "Utilisez le backend Inopay (POST /api/deploy-ftp) pour les déploiements SFTP et rsync.",
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Validate required fields
     if (!credentials.host || !credentials.username || !credentials.password) {
       console.log("[DEPLOY-FTP] Missing credentials");
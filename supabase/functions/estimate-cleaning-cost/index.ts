@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { LLM_PROVIDER_DEFAULTS, LLMProviderId } from "../_shared/llm-providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,7 +12,7 @@ const CHARS_PER_TOKEN = 4; // Average chars per token for code
 const TOKENS_PER_FILE_OVERHEAD = 150; // System prompt + formatting overhead per file
 const OUTPUT_TOKEN_RATIO = 1.2; // Output is usually 20% larger than input after cleaning
 
-// Pricing (in cents per 1M tokens) - Claude Sonnet
+// Pricing (in cents per 1M tokens) - Claude Sonnet, hosted cleaning only
 const INPUT_PRICE_PER_1M = 300; // $3 per 1M input tokens
 const OUTPUT_PRICE_PER_1M = 1500; // $15 per 1M output tokens
 
@@ -36,6 +37,9 @@ interface EstimationResult {
   estimatedInputTokens: number;
   estimatedOutputTokens: number;
   estimatedCostCents: number;
+  pricingModel: 'hosted' | 'local';
+  // Provider the client says it runs itself: informational, never changes the price
+  clientAIProvider: LLMProviderId | null;
   salePriceCents: number;
   marginCents: number;
   marginPercentage: number;
@@ -67,6 +71,14 @@ function estimateTokens(chars: number, lines: number): { input: number; output:
   return { input: inputTokens, output: outputTokens };
 }
 
+/**
+ * Provider announced by the client, if it is a real self-hostable one
+ */
+function parseClientProvider(value: unknown): LLMProviderId | null {
+  if (typeof value !== 'string' || value === 'mock' || !(value in LLM_PROVIDER_DEFAULTS)) return null;
+  return value as LLMProviderId;
+}
+
 function calculateCost(inputTokens: number, outputTokens: number): number {
   const inputCost = (inputTokens / 1_000_000) * INPUT_PRICE_PER_1M;
   const outputCost = (outputTokens / 1_000_000) * OUTPUT_PRICE_PER_1M;
@@ -94,7 +106,12 @@ serve(async (req) => {
       userId = userData.user?.id || null;
     }
 
-    const { files, projectName, excludedPaths = [] } = await req.json();
+    const { files, projectName, excludedPaths = [], aiProvider } = await req.json();
+
+    // Only server configuration makes cleaning free: clean-code runs on the
+    // self-hosted model when SOVEREIGN_AI_BASE_URL is set, on hosted models otherwise
+    const isLocalAI = !!Deno.env.get('SOVEREIGN_AI_BASE_URL');
+    const clientAIProvider = parseClientProvider(aiProvider);
 
     if (!files || !Array.isArray(files)) {
       return new Response(
@@ -149,7 +166,7 @@ serve(async (req) => {
     }
 
     // Calculate costs
-    const estimatedCostCents = calculateCost(totalInputTokens, totalOutputTokens);
+    const estimatedCostCents = isLocalAI ? 0 : calculateCost(totalInputTokens, totalOutputTokens);
     const marginCents = SALE_PRICE_CENTS - estimatedCostCents;
     const marginPercentage = ((marginCents / SALE_PRICE_CENTS) * 100);
     const isLargeProject = fileInfos.length > LARGE_PROJECT_FILES;
@@ -163,6 +180,8 @@ serve(async (req) => {
       estimatedInputTokens: totalInputTokens,
       estimatedOutputTokens: totalOutputTokens,
       estimatedCostCents,
+      pricingModel: isLocalAI ? 'local' : 'hosted',
+      clientAIProvider,
       salePriceCents: SALE_PRICE_CENTS,
       marginCents,
       marginPercentage: parseFloat(marginPercentage.toFixed(2)),
@@ -191,11 +210,12 @@ serve(async (req) => {
         margin_percentage: marginPercentage,
         requires_admin_approval: requiresAdminApproval,
         excluded_paths: excludedPaths,
+        client_ai_provider: clientAIProvider,
         status: requiresAdminApproval ? 'pending_approval' : 'approved',
       });
     }
 
-    console.log(`[ESTIMATE] Project: ${projectName}, Files: ${fileInfos.length}, Cleanable: ${cleanableFiles}, Cost: ${estimatedCostCents}¢, Margin: ${marginPercentage.toFixed(1)}%`);
+    console.log(`[ESTIMATE] Project: ${projectName}, Files: ${fileInfos.length}, Cleanable: ${cleanableFiles}, Cost: ${estimatedCostCents}¢ (${isLocalAI ? 'local' : 'hosted'}${clientAIProvider ? `, client model: ${clientAIProvider}` : ''}), Margin: ${marginPercentage.toFixed(1)}%`);
 
     return new Response(
       JSON.stringify(result),
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildSchemaFromMigrations, generateVersionedMigration, SchemaModel } from "../_shared/schema-diff.ts";
+import { introspectSchema } from "../_shared/schema-catalog.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -814,6 +816,15 @@ ${tableDefinitions[tableName]}
 ${storageBucket}
 `;
 
+    // Snapshot du schéma : base réelle si accessible, sinon le SQL d'export ci-dessus.
+    // Avec `since` (snapshot précédent), on génère la migration versionnée up/down.
+    const { since, name } = await req.json().catch(() => ({})) as { since?: SchemaModel; name?: string };
+    const sourceDbUrl = Deno.env.get('SUPABASE_DB_URL');
+    const snapshot = sourceDbUrl
+      ? await introspectSchema(sourceDbUrl)
+      : buildSchemaFromMigrations({ 'export.sql': fullMigrationSQL });
+    const migration = since ? generateVersionedMigration(since, snapshot.schema, { name: name ?? 'schema_export' }) : null;
+
     // Generate summary
     const summary = {
       tables: orderedTables.length,
@@ -837,6 +848,9 @@ ${storageBucket}
       summary,
       tables: orderedTables,
       secretsToRecreate: summary.secrets,
+      snapshot: snapshot.schema,
+      snapshotWarnings: snapshot.warnings,
+      migration,
       instructions: `
 ## Instructions de migration
 
@@ -33,7 +33,9 @@ serve(async (req) => {
         status,
         health_status,
         consecutive_failures,
-        auto_restart_count
+        auto_restart_count,
+        auto_rollback_enabled,
+        auto_rollback_after_failures
       `)
       .eq('status', 'deployed')
       .not('deployed_url', 'is', null);
@@ -106,24 +108,54 @@ serve(async (req) => {
         ? 0 
         : (deployment.consecutive_failures || 0) + 1;
 
-      const needsRestart = newConsecutiveFailures >= MAX_CONSECUTIVE_FAILURES;
+      const needsRollback = deployment.auto_rollback_enabled &&
+        newConsecutiveFailures >= (deployment.auto_rollback_after_failures || MAX_CONSECUTIVE_FAILURES);
 
-      // Mettre à jour le déploiement
-      const updateData: Record<string, unknown> = {
-        health_status: status,
-        last_health_check: new Date().toISOString(),
-        consecutive_failures: newConsecutiveFailures,
-      };
+      // Un déploiement récent qui échoue : revenir à la version précédente.
+      // rollback-deployment refuse hors de la fenêtre post-déploiement ou sans version antérieure
+      let rolledBack = false;
+      if (needsRollback) {
+        console.log(`[health-monitor] Requesting automatic rollback for deployment ${deployment.id} (${newConsecutiveFailures} failures)`);
 
-      if (needsRestart) {
-        console.log(`[health-monitor] Deployment ${deployment.id} needs restart (${newConsecutiveFailures} failures)`);
-        updateData.health_status = 'recovering';
+        try {
+          const { data: rollbackResult, error: rollbackError } = await supabase.functions.invoke('rollback-deployment', {
+            body: {
+              deployment_id: deployment.id,
+              reason: `health_check_failed:${newConsecutiveFailures}`,
+            },
+          });
+
+          if (rollbackError) throw rollbackError;
+          rolledBack = rollbackResult?.rolled_back === true;
+          if (!rolledBack) {
+            console.log(`[health-monitor] Rollback declined for ${deployment.id}: ${rollbackResult?.reason}`);
+          }
+        } catch (rollbackError: unknown) {
+          const msg = rollbackError instanceof Error ? rollbackError.message : 'Unknown error';
+          console.error(`[health-monitor] Failed to trigger rollback: ${msg}`);
+        }
       }
 
-      await supabase
-        .from('server_deployments')
-        .update(updateData)
-        .eq('id', deployment.id);
+      const needsRestart = !rolledBack && newConsecutiveFailures >= MAX_CONSECUTIVE_FAILURES;
+
+      // Mettre à jour le déploiement (rollback-deployment s'en charge après un rollback)
+      if (!rolledBack) {
+        const updateData: Record<string, unknown> = {
+          health_status: status,
+          last_health_check: new Date().toISOString(),
+          consecutive_failures: newConsecutiveFailures,
+        };
+
+        if (needsRestart) {
+          console.log(`[health-monitor] Deployment ${deployment.id} needs restart (${newConsecutiveFailures} failures)`);
+          updateData.health_status = 'recovering';
+        }
+
+        await supabase
+          .from('server_deployments')
+          .update(updateData)
+          .eq('id', deployment.id);
+      }
 
       // Logger le health check
       await supabase
@@ -162,6 +194,7 @@ serve(async (req) => {
         http_status: httpStatus,
         consecutive_failures: newConsecutiveFailures,
         restart_triggered: needsRestart,
+        rollback_triggered: rolledBack,
       });
 
       console.log(`[health-monitor] ${deployment.project_name}: ${status} (${responseTimeMs}ms)`);
@@ -0,0 +1,136 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Client } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { PgClient } from "../_shared/data-mover.ts";
+import { exportAuthUsers, importAuthUsers, planAuthUserMigration } from "../_shared/auth-user-migration.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface MigrateAuthUsersRequest {
+  // plan : dry-run, export : fichier auth-users.json, migrate : import direct dans la cible
+  action: 'plan' | 'export' | 'migrate';
+  sourceUrl?: string;
+  targetUrl?: string;
+  providers?: string[];
+}
+
+const asPgClient = (client: Client): PgClient => ({
+  query: async <T>(sql: string, params: unknown[] = []) => (await client.queryObject<T>(sql, params)).rows,
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const clients: Client[] = [];
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get auth from request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Non autorisé' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Non autorisé' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Check if user is admin : l'export contient les hashes de mots de passe
+    const { data: roleData } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!roleData || roleData.role !== 'admin') {
+      return new Response(JSON.stringify({ error: 'Accès admin requis' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const body = await req.json() as MigrateAuthUsersRequest;
+    const sourceUrl = body.sourceUrl || Deno.env.get('SUPABASE_DB_URL');
+
+    if (!sourceUrl || (body.action === 'migrate' && !body.targetUrl)) {
+      return new Response(JSON.stringify({ error: 'Paramètres manquants (targetUrl, sourceUrl ou SUPABASE_DB_URL)' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    console.log(`[migrate-auth-users] Action ${body.action} for admin:`, user.email);
+
+    const source = new Client(sourceUrl);
+    clients.push(source);
+    await source.connect();
+
+    const users = await exportAuthUsers(asPgClient(source));
+    const plan = planAuthUserMigration(users, { providers: body.providers });
+    const { report } = plan;
+    console.log(`[migrate-auth-users] ${report.migrated}/${report.total} users migratable, ${report.skipped.length} skipped`);
+
+    if (body.action === 'plan') {
+      return new Response(JSON.stringify({ success: true, dryRun: true, report }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (body.action === 'export') {
+      return new Response(JSON.stringify({ success: true, ...plan }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (body.action === 'migrate') {
+      const target = new Client(body.targetUrl!);
+      clients.push(target);
+      await target.connect();
+
+      // Une seule transaction : la cible reste intacte si l'import échoue
+      const imported = await importAuthUsers(asPgClient(target), plan);
+      console.log(`[migrate-auth-users] Imported ${imported.users} users, ${imported.identities} identities`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        report,
+        imported,
+        message: `${imported.users} comptes importés (${imported.alreadyPresent} déjà présents), ${report.skipped.length} non migrables`
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'Action non reconnue' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('[migrate-auth-users] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: errorMessage, success: false }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } finally {
+    await Promise.all(clients.map(client => client.end().catch(() => undefined)));
+  }
+});
@@ -0,0 +1,134 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Client } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { DEFAULT_BATCH_SIZE, moveData, PgClient } from "../_shared/data-mover.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Marge sous la limite d'exécution des edge functions : le client relance avec le même runId
+const TIME_BUDGET_MS = 100_000;
+
+interface MigrateDataRequest {
+  targetUrl: string;
+  sourceUrl?: string;
+  runId?: string;
+  tables?: string[];
+  batchSize?: number;
+  disableTriggers?: boolean;
+}
+
+const asPgClient = (client: Client): PgClient => ({
+  query: async <T>(sql: string, params: unknown[] = []) => (await client.queryObject<T>(sql, params)).rows,
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startedAt = Date.now();
+  const clients: Client[] = [];
+  let runId: string | undefined;
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get auth from request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Non autorisé' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Non autorisé' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Check if user is admin
+    const { data: roleData } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!roleData || roleData.role !== 'admin') {
+      return new Response(JSON.stringify({ error: 'Accès admin requis' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const body = await req.json() as MigrateDataRequest;
+    const sourceUrl = body.sourceUrl || Deno.env.get('SUPABASE_DB_URL');
+
+    if (!body.targetUrl || !sourceUrl) {
+      return new Response(JSON.stringify({ error: 'Paramètres manquants (targetUrl, sourceUrl ou SUPABASE_DB_URL)' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    runId = body.runId || crypto.randomUUID();
+    console.log(`[migrate-data] Run ${runId} (${body.runId ? 'reprise' : 'nouveau'}) for admin:`, user.email);
+
+    // Connexions PostgreSQL directes : n'importe quelle base, pas seulement Supabase
+    const source = new Client(sourceUrl);
+    const target = new Client(body.targetUrl);
+    clients.push(source, target);
+    await source.connect();
+    await target.connect();
+
+    const result = await moveData(asPgClient(source), asPgClient(target), {
+      runId,
+      tables: body.tables,
+      batchSize: body.batchSize ?? DEFAULT_BATCH_SIZE,
+      disableTriggers: body.disableTriggers,
+      deadline: startedAt + TIME_BUDGET_MS,
+    });
+
+    const copied = result.checkpoints.reduce((sum, checkpoint) => sum + checkpoint.rowsCopied, 0);
+    const mismatches = result.verification?.filter(v => !v.ok) ?? [];
+    console.log(`[migrate-data] Run ${runId}: ${copied} rows copied, done=${result.done}, mismatches=${mismatches.length}`);
+
+    return new Response(JSON.stringify({
+      success: mismatches.length === 0,
+      ...result,
+      rowsCopied: copied,
+      message: !result.done
+        ? `${copied} lignes copiées, relancer avec le même runId pour continuer`
+        : mismatches.length === 0
+          ? `${copied} lignes copiées et vérifiées`
+          : `Écarts détectés sur ${mismatches.map(m => m.table).join(', ')}`
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('[migrate-data] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    // runId renvoyé : les lots déjà validés sont repris au prochain appel
+    return new Response(JSON.stringify({
+      error: errorMessage,
+      success: false,
+      runId
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } finally {
+    await Promise.all(clients.map(client => client.end().catch(() => undefined)));
+  }
+});
@@ -0,0 +1,148 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getMasterKey } from "../_shared/crypto-utils.ts";
+import {
+  migrateStorage,
+  S3Target,
+  signManifest,
+  StorageManifest,
+  verifyManifestSignature,
+  verifyStorageMigration,
+} from "../_shared/storage-migration.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Marge sous la limite d'exécution des edge functions : le client relance avec le manifeste renvoyé
+const TIME_BUDGET_MS = 100_000;
+
+interface MigrateStorageRequest {
+  action?: 'migrate' | 'verify';
+  target: S3Target;
+  buckets?: string[];
+  manifest?: StorageManifest;
+  deep?: boolean;
+}
+
+// Clé de signature des manifestes (dédiée si définie, sinon clé maître)
+const getSigningKey = (): string => Deno.env.get('STORAGE_MANIFEST_SIGNING_KEY') || getMasterKey();
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startedAt = Date.now();
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get auth from request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Non autorisé' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Non autorisé' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Check if user is admin
+    const { data: roleData } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!roleData || roleData.role !== 'admin') {
+      return new Response(JSON.stringify({ error: 'Accès admin requis' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { action = 'migrate', target, buckets, manifest, deep } = await req.json() as MigrateStorageRequest;
+
+    if (!target?.endpoint || !target.accessKeyId || !target.secretAccessKey) {
+      return new Response(JSON.stringify({ error: 'Paramètres manquants (endpoint, accessKeyId, secretAccessKey)' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const signingKey = getSigningKey();
+
+    if (action === 'verify') {
+      if (!manifest) {
+        return new Response(JSON.stringify({ error: 'Manifeste requis' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      const verification = await verifyStorageMigration(target, manifest, { signingKey, deep });
+      console.log(`[migrate-storage] Verification: ${verification.checked} objects, ok=${verification.ok}`);
+
+      return new Response(JSON.stringify({ success: verification.ok, verification }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Reprise : seul un manifeste signé par nous est accepté comme point de départ
+    if (manifest && !(await verifyManifestSignature(manifest, signingKey))) {
+      return new Response(JSON.stringify({ error: 'Signature du manifeste invalide' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    console.log(`[migrate-storage] ${manifest ? 'Resuming' : 'Starting'} migration to ${target.endpoint} for admin:`, user.email);
+
+    const result = await migrateStorage(
+      { url: supabaseUrl, serviceRoleKey: supabaseServiceKey },
+      target,
+      { buckets, resume: manifest, deadline: startedAt + TIME_BUDGET_MS }
+    );
+    const signed = await signManifest(result.manifest, signingKey);
+
+    console.log(`[migrate-storage] ${signed.totals.objects} objects (${signed.totals.bytes} bytes), done=${result.done}, failures=${result.failures.length}`);
+
+    return new Response(JSON.stringify({
+      success: result.failures.length === 0,
+      done: result.done,
+      manifest: signed,
+      failures: result.failures,
+      message: !result.done
+        ? `${signed.totals.objects} objets copiés, relancer avec le manifeste pour continuer`
+        : result.failures.length === 0
+          ? `${signed.totals.objects} objets copiés (${signed.totals.bytes} octets)`
+          : `${result.failures.length} objets en échec`
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('[migrate-storage] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({
+      error: errorMessage,
+      success: false
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -27,8 +27,18 @@ interface ProcessRequest {
   userId: string;
   projectId?: string;
   destinationOwner?: string;
+  // Client-generated liberation_jobs id, streamed live by the audit function
+  jobId?: string;
 }
 
+type ProgressTracker = (
+  type: 'started' | 'progress' | 'completed' | 'failed',
+  status: string,
+  progress: number,
+  message: string,
+  data?: Record<string, unknown>
+) => Promise<void>;
+
 // Clean GitHub URL/username - extract only the username
 function cleanGitHubOwner(input: string | null): string | null {
   if (!input) return null;
@@ -597,6 +607,61 @@ interface CoolifyAppDetails {
   build_pack: string | null;
 }
 
+/**
+ * Records progress in liberation_jobs / liberation_job_events so the audit
+ * function can stream it (SSE). Best effort: tracking never fails a liberation
+ */
+async function createProgressTracker(
+  supabase: ReturnType<typeof createClient>,
+  jobId: string | undefined,
+  userId: string,
+  projectName: string,
+  filesCount: number
+): Promise<ProgressTracker> {
+  if (!jobId) return async () => {};
+
+  const { error } = await supabase.from('liberation_jobs').insert({
+    id: jobId,
+    user_id: userId,
+    source_type: 'local',
+    project_name: projectName,
+    status: 'processing',
+    progress: 0,
+    files_count: filesCount,
+    attempts: 1,
+    max_attempts: 1,
+  });
+
+  if (error) {
+    console.warn('[Liberation] Progress tracking disabled:', error.message);
+    return async () => {};
+  }
+
+  let lastProgress = 0;
+  return async (type, status, progress, message, data) => {
+    // A failure keeps the progress reached so far
+    const value = type === 'failed' ? lastProgress : progress;
+    lastProgress = value;
+
+    const { error: eventError } = await supabase.from('liberation_job_events').insert({
+      job_id: jobId,
+      type,
+      status,
+      progress: value,
+      message,
+      data: data ?? null,
+    });
+    if (eventError) console.warn('[Liberation] Progress event not recorded:', eventError.message);
+
+    await supabase.from('liberation_jobs').update({
+      status,
+      progress: value,
+      ...(type === 'completed' ? { completed_at: new Date().toISOString() } : {}),
+      ...(type === 'failed' ? { error_message: message } : {}),
+    }).eq('id', jobId);
+  };
+}
+
 async function triggerCoolifyDeployment(
   coolifyUrl: string,
   coolifyToken: string,
@@ -770,6 +835,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let track: ProgressTracker = async () => {};
+
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -795,7 +862,7 @@ serve(async (req) => {
       });
     }
 
-    const { files, projectName, projectId, action, pendingPaymentId, selectedPaths, destinationOwner } = await req.json() as ProcessRequest & { 
+    const { files, projectName, projectId, action, pendingPaymentId, selectedPaths, destinationOwner, jobId } = await req.json() as ProcessRequest & { 
       action?: string;
       pendingPaymentId?: string;
       selectedPaths?: string[];
@@ -935,6 +1002,9 @@ serve(async (req) => {
       console.warn('[Liberation] Failed to notify admin:', notifyError);
     }
 
+    track = await createProgressTracker(supabase, jobId, user.id, projectName, filesToProcess.length);
+    await track('started', 'processing', 0, 'Libération démarrée', { phase: 'scan', filesTotal: filesToProcess.length });
+
     // Phase 1: Clean files
     console.log(`[Liberation] Starting cleaning for ${projectName}, ${filesToProcess.length} files (original: ${files.length})`);
     
@@ -943,8 +1013,20 @@ serve(async (req) => {
     const validationErrors: { path: string; error: string }[] = [];
     const assetAlerts: AssetSovereigntyResult['externalUrls'] = [];
     let totalChanges = 0;
+    const progressStep = Math.max(1, Math.ceil(filesToProcess.length / 10));
+
+    for (const [index, file] of filesToProcess.entries()) {
+      if (index % progressStep === 0) {
+        await track('progress', 'cleaning', Math.round((index / filesToProcess.length) * 60), `Nettoyage: ${file.path}`, {
+          phase: 'clean',
+          step: 'cleaning',
+          currentFile: file.path,
+          filesProcessed: index,
+          filesTotal: filesToProcess.length,
+          changes: totalChanges,
+        });
+      }
 
-    for (const file of filesToProcess) {
       // Skip lock files (Lock-file Purge)
       if (isLockFile(file.path)) {
         console.log(`[Liberation] Excluding lock file: ${file.path}`);
@@ -998,8 +1080,17 @@ serve(async (req) => {
 
     console.log(`[Liberation] Cleaned ${cleanedFiles.length} files, ${totalChanges} changes made, ${validationErrors.length} validation errors, ${assetAlerts.length} external assets`);
 
+    await track('progress', 'cleaning', 60, `${cleanedFiles.length} fichiers nettoyés, ${totalChanges} modifications`, {
+      phase: 'clean',
+      step: 'cleaning',
+      filesProcessed: filesToProcess.length,
+      filesTotal: filesToProcess.length,
+      changes: totalChanges,
+    });
+
     // If only cleaning requested, return here
     if (action === 'clean-only') {
+      await track('completed', 'completed', 100, 'Nettoyage terminé', { phase: 'complete' });
       return new Response(JSON.stringify({
         success: true,
         phase: 'cleaning',
@@ -1027,6 +1118,7 @@ serve(async (req) => {
     };
     
     if (githubToken) {
+      await track('progress', 'generating', 70, 'Push vers votre dépôt GitHub...', { phase: 'package', step: 'github' });
       const repoName = `inopay-${projectName.toLowerCase().replace(/[^a-z0-9-]/g, '-')}`;
       const effectiveOwner = destinationOwner || storedDestinationOwner || null;
       
@@ -1066,6 +1158,7 @@ serve(async (req) => {
       const repoUrlToUse = githubResult.repoUrl || `https://github.com/fofanay/inopay`;
       
       console.log(`[Liberation] Triggering Coolify deployment with repo: ${repoUrlToUse}`);
+      await track('progress', 'generating', 85, 'Déclenchement du build sur Coolify...', { phase: 'package', step: 'build' });
       
       const deployResult = await triggerCoolifyDeployment(
         servers[0].coolify_url,
@@ -1106,6 +1199,13 @@ serve(async (req) => {
       },
     });
 
+    await track('completed', 'completed', 100, 'Libération terminée', {
+      phase: 'complete',
+      step: 'deploy',
+      repoUrl: githubResult.repoUrl,
+      deploymentUrl: coolifyResult.deploymentUrl,
+    });
+
     return new Response(JSON.stringify({
       success: true,
       phases: {
@@ -1145,6 +1245,7 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('[Liberation] Error:', error);
+    await track('failed', 'failed', 0, error instanceof Error ? error.message : 'Erreur inconnue');
     return new Response(JSON.stringify({ 
       success: false, 
       error: error instanceof Error ? error.message : 'Erreur inconnue' 
@@ -1,48 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkRateLimitDB, createRateLimitHeaders } from "../_shared/rate-limiter-db.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Rate limiting configuration
+// Rate limiting configuration, stored in rate_limits so limits hold across instances and cold starts
 const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
 const MAX_SIGNUPS_PER_IP = 3; // Max 3 signups per IP per hour
 const MAX_SIGNUPS_PER_EMAIL_DOMAIN = 10; // Max 10 signups per email domain per hour
 
-// In-memory rate limit store (resets on function cold start)
-const ipRateLimits = new Map<string, { count: number; resetAt: number }>();
-const domainRateLimits = new Map<string, { count: number; resetAt: number }>();
-
 function getEmailDomain(email: string): string {
   return email.split('@')[1]?.toLowerCase() || '';
 }
 
-function checkRateLimit(
-  store: Map<string, { count: number; resetAt: number }>,
-  key: string,
-  maxCount: number
-): { allowed: boolean; remaining: number; resetAt: number } {
-  const now = Date.now();
-  const existing = store.get(key);
-
-  if (!existing || existing.resetAt < now) {
-    // Reset or create new entry
-    const resetAt = now + RATE_LIMIT_WINDOW_MS;
-    store.set(key, { count: 1, resetAt });
-    return { allowed: true, remaining: maxCount - 1, resetAt };
-  }
-
-  if (existing.count >= maxCount) {
-    return { allowed: false, remaining: 0, resetAt: existing.resetAt };
-  }
-
-  existing.count++;
-  store.set(key, existing);
-  return { allowed: true, remaining: maxCount - existing.count, resetAt: existing.resetAt };
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -73,20 +46,24 @@ serve(async (req) => {
       || 'unknown';
 
     // Check IP rate limit
-    const ipCheck = checkRateLimit(ipRateLimits, clientIP, MAX_SIGNUPS_PER_IP);
+    const ipCheck = await checkRateLimitDB(clientIP, {
+      maxRequests: MAX_SIGNUPS_PER_IP,
+      windowMs: RATE_LIMIT_WINDOW_MS,
+      keyPrefix: 'newsletter-ip',
+    });
     if (!ipCheck.allowed) {
       console.log(`[rate-limit-newsletter] IP ${clientIP} rate limited`);
       return new Response(
         JSON.stringify({ 
           error: 'Too many signup attempts. Please try again later.',
-          retry_after: Math.ceil((ipCheck.resetAt - Date.now()) / 1000)
+          retry_after: ipCheck.retryAfter
         }),
         { 
           status: 429, 
           headers: { 
             ...corsHeaders, 
-            'Content-Type': 'application/json',
-            'Retry-After': String(Math.ceil((ipCheck.resetAt - Date.now()) / 1000))
+            ...createRateLimitHeaders(ipCheck),
+            'Content-Type': 'application/json'
           } 
         }
       );
@@ -94,20 +71,24 @@ serve(async (req) => {
 
     // Check domain rate limit (to prevent abuse from disposable email services)
     const domain = getEmailDomain(email);
-    const domainCheck = checkRateLimit(domainRateLimits, domain, MAX_SIGNUPS_PER_EMAIL_DOMAIN);
+    const domainCheck = await checkRateLimitDB(domain, {
+      maxRequests: MAX_SIGNUPS_PER_EMAIL_DOMAIN,
+      windowMs: RATE_LIMIT_WINDOW_MS,
+      keyPrefix: 'newsletter-domain',
+    });
     if (!domainCheck.allowed) {
       console.log(`[rate-limit-newsletter] Domain ${domain} rate limited`);
       return new Response(
         JSON.stringify({ 
           error: 'Too many signups from this email provider. Please try again later.',
-          retry_after: Math.ceil((domainCheck.resetAt - Date.now()) / 1000)
+          retry_after: domainCheck.retryAfter
         }),
         { 
           status: 429, 
           headers: { 
             ...corsHeaders, 
-            'Content-Type': 'application/json',
-            'Retry-After': String(Math.ceil((domainCheck.resetAt - Date.now()) / 1000))
+            ...createRateLimitHeaders(domainCheck),
+            'Content-Type': 'application/json'
           } 
         }
       );
@@ -0,0 +1,363 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decryptToken, getMasterKey, isEncrypted } from "../_shared/crypto-utils.ts";
+import { restoreRelease, type EnvSnapshot } from "../_shared/coolify-release.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RollbackRequest {
+  history_id?: string;    // Manual: deployment_history release to redeploy
+  deployment_id?: string; // Automatic (health-monitor): failing server_deployments row
+  reason?: string;
+}
+
+interface ReleaseRecord {
+  id: string;
+  user_id: string;
+  project_name: string;
+  status: string;
+  created_at: string;
+  deployed_url: string | null;
+  server_id: string | null;
+  coolify_app_uuid: string | null;
+  git_branch: string | null;
+  commit_sha: string | null;
+  image_name: string | null;
+  image_tag: string | null;
+  env_snapshot: EnvSnapshot | null;
+  rollback_of: string | null;
+}
+
+const AUTO_ROLLBACK_WINDOW_MS = 60 * 60 * 1000; // Only releases deployed within the last hour are rolled back automatically
+const ROLLBACK_COOLDOWN_MS = 10 * 60 * 1000;
+const STATUS_POLL_INTERVAL_MS = 5000;
+const STATUS_POLL_MAX_ATTEMPTS = 60; // 5 minutes
+
+const RELEASE_COLUMNS = 'id, user_id, project_name, status, created_at, deployed_url, server_id, coolify_app_uuid, git_branch, commit_sha, image_name, image_tag, env_snapshot, rollback_of';
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const isRestorable = (release: ReleaseRecord) =>
+  release.status === 'success' && !!release.coolify_app_uuid && !!release.server_id && !!(release.commit_sha || release.image_tag);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authorization requise' }, 401);
+    }
+
+    // health-monitor calls with the service role key, users with their session
+    const token = authHeader.replace('Bearer ', '');
+    const isAutomatic = token === supabaseServiceKey;
+    let userId: string | null = null;
+
+    if (!isAutomatic) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ error: 'Token invalide' }, 401);
+      }
+      userId = user.id;
+    }
+
+    const { history_id, deployment_id, reason }: RollbackRequest = await req.json();
+
+    let target: ReleaseRecord;
+    let failingRelease: ReleaseRecord | null = null;
+    let serverDeploymentId: string | null = null;
+
+    if (isAutomatic) {
+      if (!deployment_id) {
+        return jsonResponse({ error: 'deployment_id requis' }, 400);
+      }
+
+      const { data: deployment, error: deployError } = await supabase
+        .from('server_deployments')
+        .select('id, server_id, coolify_app_uuid, auto_rollback_enabled, last_rollback_at')
+        .eq('id', deployment_id)
+        .single();
+
+      if (deployError || !deployment) {
+        return jsonResponse({ error: 'Déploiement introuvable' }, 404);
+      }
+
+      const decline = (why: string) => {
+        console.log(`[rollback-deployment] No automatic rollback for ${deployment_id}: ${why}`);
+        return jsonResponse({ success: true, rolled_back: false, reason: why });
+      };
+
+      if (!deployment.auto_rollback_enabled) return decline('disabled');
+      if (!deployment.coolify_app_uuid) return decline('no_coolify_app');
+      if (deployment.last_rollback_at && Date.now() - new Date(deployment.last_rollback_at).getTime() < ROLLBACK_COOLDOWN_MS) {
+        return decline('cooldown_active');
+      }
+
+      const { data: releases } = await supabase
+        .from('deployment_history')
+        .select(RELEASE_COLUMNS)
+        .eq('server_id', deployment.server_id)
+        .eq('coolify_app_uuid', deployment.coolify_app_uuid)
+        .eq('status', 'success')
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      const [current, ...previous] = (releases || []) as ReleaseRecord[];
+      if (!current) return decline('no_release_recorded');
+      // Rolling back a rollback would walk down the history one version per failure
+      if (current.rollback_of) return decline('current_release_is_rollback');
+      if (Date.now() - new Date(current.created_at).getTime() > AUTO_ROLLBACK_WINDOW_MS) {
+        return decline('outside_post_deploy_window');
+      }
+
+      const candidate = previous.find(isRestorable);
+      if (!candidate) return decline('no_previous_release');
+
+      // Claim the failing release: concurrent checks of the same app roll back only once
+      const { data: claimed } = await supabase
+        .from('deployment_history')
+        .update({ status: 'rolled_back', rollback_reason: reason || 'health_check_failed' })
+        .eq('id', current.id)
+        .eq('status', 'success')
+        .select('id');
+
+      if (!claimed || claimed.length === 0) return decline('already_rolled_back');
+
+      target = candidate;
+      failingRelease = current;
+      serverDeploymentId = deployment.id;
+    } else {
+      if (!history_id) {
+        return jsonResponse({ error: 'history_id requis' }, 400);
+      }
+
+      const { data: release, error: releaseError } = await supabase
+        .from('deployment_history')
+        .select(RELEASE_COLUMNS)
+        .eq('id', history_id)
+        .eq('user_id', userId)
+        .single();
+
+      if (releaseError || !release) {
+        return jsonResponse({ error: 'Version introuvable' }, 404);
+      }
+
+      target = release as ReleaseRecord;
+      if (!isRestorable(target)) {
+        return jsonResponse({ error: 'Cette version ne peut pas être restaurée (commit, image ou serveur inconnu)' }, 400);
+      }
+
+      const { data: deployments } = await supabase
+        .from('server_deployments')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('server_id', target.server_id)
+        .eq('coolify_app_uuid', target.coolify_app_uuid)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      serverDeploymentId = deployments?.[0]?.id || null;
+    }
+
+    const releaseOwner = target.user_id;
+
+    const { data: server, error: serverError } = await supabase
+      .from('user_servers')
+      .select('id, user_id, coolify_url, coolify_token')
+      .eq('id', target.server_id)
+      .eq('user_id', releaseOwner)
+      .single();
+
+    const unclaim = async () => {
+      if (failingRelease) {
+        await supabase
+          .from('deployment_history')
+          .update({ status: 'success', rollback_reason: null })
+          .eq('id', failingRelease.id);
+      }
+    };
+
+    if (serverError || !server?.coolify_url || !server.coolify_token) {
+      await unclaim();
+      return jsonResponse({ error: 'Serveur introuvable ou configuration Coolify incomplète' }, 404);
+    }
+
+    const coolifyUrl: string = server.coolify_url;
+    const coolifyToken = isEncrypted(server.coolify_token)
+      ? await decryptToken(server.coolify_token, getMasterKey())
+      : server.coolify_token;
+    const coolifyHeaders = {
+      'Authorization': `Bearer ${coolifyToken}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    };
+    const appUuid = target.coolify_app_uuid!;
+
+    console.log(`[rollback-deployment] ${isAutomatic ? 'Automatic' : 'Manual'} rollback of ${appUuid} to ${target.commit_sha?.slice(0, 7) || target.image_tag}`);
+
+    let coolifyDeploymentUuid: string | null = null;
+    try {
+      await restoreRelease(coolifyUrl, coolifyHeaders, appUuid, target);
+
+      // force=false: Coolify reuses the image already built for this commit when it still exists
+      const deployResponse = await fetch(`${coolifyUrl}/api/v1/deploy?uuid=${appUuid}&force=false`, {
+        method: 'GET',
+        headers: coolifyHeaders,
+      });
+      if (!deployResponse.ok) {
+        throw new Error(`Échec du déclenchement du déploiement: ${await deployResponse.text()}`);
+      }
+
+      const deployData = await deployResponse.json();
+      coolifyDeploymentUuid = deployData?.deployments?.[0]?.deployment_uuid || null;
+    } catch (rollbackError: unknown) {
+      await unclaim();
+      throw rollbackError;
+    }
+
+    const rollbackReason = isAutomatic ? (reason || 'health_check_failed') : 'manual';
+
+    const { data: rollbackRecord, error: insertError } = await supabase
+      .from('deployment_history')
+      .insert({
+        user_id: releaseOwner,
+        project_name: target.project_name,
+        provider: 'Coolify',
+        deployment_type: 'coolify',
+        status: 'deploying',
+        deployed_url: target.deployed_url,
+        coolify_url: coolifyUrl,
+        hosting_type: 'vps',
+        server_id: server.id,
+        server_deployment_id: serverDeploymentId,
+        coolify_app_uuid: appUuid,
+        coolify_deployment_uuid: coolifyDeploymentUuid,
+        git_branch: target.git_branch,
+        commit_sha: target.commit_sha,
+        image_name: target.image_name,
+        image_tag: target.image_tag,
+        env_snapshot: target.env_snapshot,
+        rollback_of: target.id,
+        rollback_reason: rollbackReason,
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      console.warn(`[rollback-deployment] Failed to record rollback: ${insertError.message}`);
+    }
+
+    if (serverDeploymentId) {
+      await supabase
+        .from('server_deployments')
+        .update({
+          status: 'deploying',
+          health_status: 'recovering',
+          consecutive_failures: 0,
+          last_rollback_at: new Date().toISOString(),
+        })
+        .eq('id', serverDeploymentId);
+    }
+
+    await supabase
+      .from('security_audit_logs')
+      .insert({
+        user_id: releaseOwner,
+        server_id: server.id,
+        deployment_id: serverDeploymentId,
+        action: isAutomatic ? 'auto_rollback_triggered' : 'deployment_rollback_triggered',
+        details: {
+          target_release_id: target.id,
+          failing_release_id: failingRelease?.id || null,
+          commit_sha: target.commit_sha,
+          image_tag: target.image_tag,
+          reason: rollbackReason,
+        },
+      });
+
+    // Follow the Coolify deployment in the background and record the outcome
+    const followTask = async () => {
+      let appStatus = 'unknown';
+      let exitedStreak = 0;
+
+      for (let attempt = 1; attempt <= STATUS_POLL_MAX_ATTEMPTS; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+        try {
+          const statusResponse = await fetch(`${coolifyUrl}/api/v1/applications/${appUuid}`, {
+            method: 'GET',
+            headers: coolifyHeaders,
+          });
+          if (statusResponse.ok) {
+            appStatus = (await statusResponse.json()).status || 'unknown';
+          }
+        } catch (statusError) {
+          console.warn(`[rollback-deployment] Status check ${attempt} failed:`, statusError);
+        }
+
+        exitedStreak = appStatus.startsWith('exited') ? exitedStreak + 1 : 0;
+        if (appStatus.startsWith('running') || appStatus.includes('failed') || exitedStreak >= 4) break;
+      }
+
+      const succeeded = appStatus.startsWith('running');
+      console.log(`[rollback-deployment] Rollback of ${appUuid} finished: ${appStatus}`);
+
+      if (rollbackRecord) {
+        await supabase
+          .from('deployment_history')
+          .update({ status: succeeded ? 'success' : 'failed' })
+          .eq('id', rollbackRecord.id);
+      }
+
+      if (serverDeploymentId) {
+        await supabase
+          .from('server_deployments')
+          .update({
+            status: succeeded ? 'deployed' : 'failed',
+            health_status: succeeded ? 'healthy' : 'unhealthy',
+            last_health_check: new Date().toISOString(),
+            error_message: succeeded ? null : `Rollback vers ${target.commit_sha?.slice(0, 7) || target.image_tag} échoué (statut Coolify: ${appStatus})`,
+          })
+          .eq('id', serverDeploymentId);
+      }
+    };
+
+    if (typeof (globalThis as unknown as { EdgeRuntime?: { waitUntil: (p: Promise<void>) => void } }).EdgeRuntime !== 'undefined') {
+      (globalThis as unknown as { EdgeRuntime: { waitUntil: (p: Promise<void>) => void } }).EdgeRuntime.waitUntil(followTask());
+    } else {
+      followTask().catch(console.error);
+    }
+
+    return jsonResponse({
+      success: true,
+      rolled_back: true,
+      history_id: rollbackRecord?.id || null,
+      rolled_back_release_id: failingRelease?.id || null,
+      target: {
+        id: target.id,
+        commit_sha: target.commit_sha,
+        image_name: target.image_name,
+        image_tag: target.image_tag,
+      },
+      coolify_deployment_uuid: coolifyDeploymentUuid,
+    });
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[rollback-deployment] Error:', error);
+    return jsonResponse({ success: false, error: errorMessage }, 500);
+  }
+});
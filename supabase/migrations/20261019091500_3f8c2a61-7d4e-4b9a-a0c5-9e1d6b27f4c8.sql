@@ -0,0 +1,142 @@
+-- File de jobs de libération durable : les jobs survivent aux redémarrages
+-- et sont partagés entre plusieurs réplicas du backend
+
+-- Statuts utilisés par le backend (scanning, rebuilding) et annulation
+ALTER TABLE liberation_jobs DROP CONSTRAINT IF EXISTS liberation_jobs_status_check;
+ALTER TABLE liberation_jobs ADD CONSTRAINT liberation_jobs_status_check
+  CHECK (status IN ('pending', 'processing', 'scanning', 'auditing', 'cleaning', 'rebuilding', 'generating', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE liberation_jobs DROP CONSTRAINT IF EXISTS liberation_jobs_source_type_check;
+ALTER TABLE liberation_jobs ADD CONSTRAINT liberation_jobs_source_type_check
+  CHECK (source_type IN ('zip', 'github', 'local', 'url'));
+
+-- Tentatives, bail du worker, annulation et archives à durée de vie limitée
+ALTER TABLE liberation_jobs
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  ADD COLUMN run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN locked_by TEXT,
+  ADD COLUMN locked_until TIMESTAMPTZ,
+  ADD COLUMN cancel_requested BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN input_key TEXT,
+  ADD COLUMN archive_key TEXT,
+  ADD COLUMN archive_expires_at TIMESTAMPTZ;
+
+CREATE INDEX idx_liberation_jobs_queue ON liberation_jobs(run_at) WHERE status = 'pending' AND input_key IS NOT NULL;
+CREATE INDEX idx_liberation_jobs_lease ON liberation_jobs(locked_until) WHERE locked_until IS NOT NULL;
+CREATE INDEX idx_liberation_jobs_archive_expiry ON liberation_jobs(archive_expires_at) WHERE archive_key IS NOT NULL;
+
+-- Les clients créent des jobs de suivi, jamais des jobs de la file du backend :
+-- input_key, archive_key et max_attempts sont réservés au service role
+DROP POLICY IF EXISTS "Users can create liberation jobs" ON liberation_jobs;
+CREATE POLICY "Users can create liberation jobs" ON liberation_jobs
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND input_key IS NULL
+    AND archive_key IS NULL
+    AND max_attempts = 3
+  );
+
+-- Même règle pour "Users can update own liberation jobs" (WITH CHECK ne voit pas l'ancienne ligne).
+-- Un job encore dans la file du backend (input_key renseigné) n'est modifiable que
+-- par lui : sinon status = 'pending', attempts = 0 le ferait reprendre sans limite
+CREATE OR REPLACE FUNCTION public.protect_liberation_job_queue_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.input_key IS NOT NULL THEN
+    RAISE EXCEPTION 'liberation_jobs: job géré par la file du backend, passez par /api/liberate';
+  END IF;
+
+  IF NEW.input_key IS DISTINCT FROM OLD.input_key
+    OR NEW.archive_key IS DISTINCT FROM OLD.archive_key
+    OR NEW.archive_expires_at IS DISTINCT FROM OLD.archive_expires_at
+    OR NEW.max_attempts IS DISTINCT FROM OLD.max_attempts
+  THEN
+    RAISE EXCEPTION 'liberation_jobs: input_key, archive_key, archive_expires_at et max_attempts sont réservés au backend';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_liberation_job_queue_columns
+  BEFORE UPDATE ON liberation_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.protect_liberation_job_queue_columns();
+
+-- Journal de progression, lu par n'importe quel réplica
+CREATE TABLE liberation_job_events (
+  id BIGSERIAL PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES liberation_jobs(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('queued', 'started', 'progress', 'retry', 'completed', 'failed', 'cancelled', 'expired')),
+  status TEXT NOT NULL,
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+  message TEXT,
+  data JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE liberation_job_events ENABLE ROW LEVEL SECURITY;
+
+-- Users can view events of their own jobs
+CREATE POLICY "Users can view own liberation job events" ON liberation_job_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM liberation_jobs j WHERE j.id = job_id AND j.user_id = auth.uid())
+  );
+
+-- Admins can view all events
+CREATE POLICY "Admins can view all liberation job events" ON liberation_job_events
+  FOR SELECT USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Service role can manage all
+CREATE POLICY "Service role can manage liberation job events" ON liberation_job_events
+  FOR ALL USING (auth.role() = 'service_role'::text);
+
+CREATE INDEX idx_liberation_job_events_job ON liberation_job_events(job_id, id);
+
+-- Réservation atomique des jobs prêts : plusieurs workers ne prennent jamais le même job.
+-- Un job dont le bail a expiré (worker arrêté en cours de route) est repris tant
+-- qu'il lui reste des tentatives. Seuls les jobs mis en file par le backend (archive
+-- source dans input_key) sont réservés : les lignes de suivi des edge functions n'en ont pas
+CREATE OR REPLACE FUNCTION public.claim_liberation_jobs(p_worker TEXT, p_limit INTEGER, p_lease_seconds INTEGER)
+RETURNS SETOF liberation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE liberation_jobs j
+  SET status = 'processing',
+      attempts = j.attempts + 1,
+      locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      error_message = NULL
+  WHERE j.id IN (
+    SELECT c.id FROM liberation_jobs c
+    WHERE c.input_key IS NOT NULL
+      AND NOT c.cancel_requested
+      AND c.attempts < c.max_attempts
+      AND (
+        (c.status = 'pending' AND c.run_at <= now())
+        OR (c.status IN ('processing', 'scanning', 'auditing', 'cleaning', 'rebuilding', 'generating') AND c.locked_until < now())
+      )
+    ORDER BY c.run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_liberation_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_liberation_jobs(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- Bucket privé des archives d'entrée et de sortie
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('liberation-archives', 'liberation-archives', false)
+ON CONFLICT (id) DO NOTHING;
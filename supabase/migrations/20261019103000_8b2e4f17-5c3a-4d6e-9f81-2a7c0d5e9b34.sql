@@ -0,0 +1,120 @@
+-- Rate limiting partagé entre réplicas : fenêtre glissante et seau à jetons,
+-- décision atomique côté base (plus de lecture puis écriture concurrente)
+
+-- Fenêtre glissante : compteurs de la fenêtre courante (count) et précédente.
+-- Seau à jetons : jetons restants et instant du dernier remplissage.
+-- reset_at reste la date d'expiration utilisée par cleanup_expired_rate_limits
+ALTER TABLE public.rate_limits
+  ADD COLUMN window_start_ms BIGINT,
+  ADD COLUMN previous_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN tokens DOUBLE PRECISION,
+  ADD COLUMN refilled_at_ms BIGINT;
+
+-- Consomme une requête sur la clé et renvoie la décision.
+-- p_limit requêtes par p_window_ms ; pour le seau à jetons, capacité p_limit
+-- rechargée de p_limit jetons par p_window_ms
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  p_key TEXT,
+  p_algorithm TEXT,
+  p_limit INTEGER,
+  p_window_ms INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, reset_ms INTEGER, retry_after_ms INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_now BIGINT := floor(extract(epoch FROM clock_timestamp()) * 1000);
+  v_row public.rate_limits%ROWTYPE;
+  v_start BIGINT;
+  v_current INTEGER;
+  v_previous INTEGER;
+  v_estimate DOUBLE PRECISION;
+  v_tokens DOUBLE PRECISION;
+  v_rate DOUBLE PRECISION;
+BEGIN
+  IF p_limit < 1 OR p_window_ms < 1 THEN
+    RAISE EXCEPTION 'consume_rate_limit: limite et fenêtre doivent être positives';
+  END IF;
+
+  INSERT INTO public.rate_limits (key, count, reset_at)
+  VALUES (p_key, 0, clock_timestamp())
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT * INTO v_row FROM public.rate_limits WHERE key = p_key FOR UPDATE;
+
+  IF p_algorithm = 'sliding-window' THEN
+    v_start := (v_now / p_window_ms) * p_window_ms;
+
+    IF v_row.window_start_ms = v_start THEN
+      v_current := v_row.count;
+      v_previous := v_row.previous_count;
+    ELSIF v_row.window_start_ms = v_start - p_window_ms THEN
+      v_current := 0;
+      v_previous := v_row.count;
+    ELSE
+      v_current := 0;
+      v_previous := 0;
+    END IF;
+
+    -- La fenêtre précédente compte au prorata de son recouvrement
+    v_estimate := v_previous * (p_window_ms - (v_now - v_start))::DOUBLE PRECISION / p_window_ms + v_current;
+    allowed := v_estimate + 1 <= p_limit;
+
+    IF allowed THEN
+      v_current := v_current + 1;
+      v_estimate := v_estimate + 1;
+      retry_after_ms := 0;
+      reset_ms := v_start + p_window_ms - v_now;
+    ELSIF v_current + 1 <= p_limit THEN
+      -- Attendre que la part de la fenêtre précédente ait assez décru
+      retry_after_ms := ceil((v_start + p_window_ms - (p_limit - 1 - v_current)::DOUBLE PRECISION * p_window_ms / v_previous) - v_now);
+      reset_ms := retry_after_ms;
+    ELSE
+      retry_after_ms := ceil(v_start + p_window_ms - v_now + p_window_ms * (1 - (p_limit - 1)::DOUBLE PRECISION / v_current));
+      reset_ms := retry_after_ms;
+    END IF;
+
+    remaining := GREATEST(0, floor(p_limit - v_estimate));
+
+    UPDATE public.rate_limits
+    SET count = v_current,
+        previous_count = v_previous,
+        window_start_ms = v_start,
+        reset_at = to_timestamp((v_start + 2 * p_window_ms) / 1000.0)
+    WHERE key = p_key;
+
+  ELSIF p_algorithm = 'token-bucket' THEN
+    v_rate := p_limit::DOUBLE PRECISION / p_window_ms;
+    v_tokens := COALESCE(v_row.tokens, p_limit);
+    IF v_row.refilled_at_ms IS NOT NULL THEN
+      v_tokens := LEAST(p_limit, v_tokens + GREATEST(0, v_now - v_row.refilled_at_ms) * v_rate);
+    END IF;
+
+    allowed := v_tokens >= 1;
+    IF allowed THEN
+      v_tokens := v_tokens - 1;
+      retry_after_ms := 0;
+    ELSE
+      retry_after_ms := ceil((1 - v_tokens) / v_rate);
+    END IF;
+
+    remaining := floor(v_tokens);
+    reset_ms := ceil((p_limit - v_tokens) / v_rate);
+
+    UPDATE public.rate_limits
+    SET tokens = v_tokens,
+        refilled_at_ms = v_now,
+        reset_at = to_timestamp((v_now + reset_ms) / 1000.0)
+    WHERE key = p_key;
+
+  ELSE
+    RAISE EXCEPTION 'consume_rate_limit: algorithme inconnu %', p_algorithm;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, TEXT, INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,30 @@
+-- Rollback des déploiements Coolify : chaque version déployée garde son commit,
+-- son image et un instantané chiffré de ses variables d'environnement
+
+-- env_snapshot : { keys, payload } ; payload est chiffré (AES-GCM, clé maître
+-- des edge functions), seuls les noms de variables sont lisibles
+ALTER TABLE public.deployment_history
+  ADD COLUMN IF NOT EXISTS server_id UUID REFERENCES public.user_servers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS server_deployment_id UUID REFERENCES public.server_deployments(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS coolify_app_uuid TEXT DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS coolify_deployment_uuid TEXT DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS git_branch TEXT DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS commit_sha TEXT DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS image_name TEXT DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS image_tag TEXT DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS env_snapshot JSONB DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS rollback_of UUID REFERENCES public.deployment_history(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS rollback_reason TEXT DEFAULT NULL;
+
+-- Versions successives d'une même application sur un serveur
+CREATE INDEX IF NOT EXISTS idx_deployment_history_releases
+  ON public.deployment_history(server_id, coolify_app_uuid, created_at DESC)
+  WHERE coolify_app_uuid IS NOT NULL;
+
+-- Rollback automatique quand le health-monitor constate N échecs consécutifs
+-- après un déploiement
+ALTER TABLE public.server_deployments
+  ADD COLUMN IF NOT EXISTS auto_rollback_enabled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS auto_rollback_after_failures INTEGER NOT NULL DEFAULT 3
+    CHECK (auto_rollback_after_failures >= 1),
+  ADD COLUMN IF NOT EXISTS last_rollback_at TIMESTAMP WITH TIME ZONE DEFAULT NULL;
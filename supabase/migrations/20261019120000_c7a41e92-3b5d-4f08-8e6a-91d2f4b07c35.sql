@@ -0,0 +1,4 @@
+-- Modèle que le client déclare utiliser pour le nettoyage : informatif seulement,
+-- le coût et l'approbation dépendent de la configuration serveur (SOVEREIGN_AI_BASE_URL)
+ALTER TABLE public.cleaning_estimates
+  ADD COLUMN IF NOT EXISTS client_ai_provider TEXT DEFAULT NULL;